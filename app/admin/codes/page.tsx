@@ -11,25 +11,10 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from "@/components/ui/pagination"
 import { Skeleton } from "@/components/ui/skeleton"
 import Icon from "@/components/IconProvider"
-import { useAdminCodeStore, setAuthHeaders } from "@/stores/code-store"
-import { useAuthStore } from "@/stores/user-store"
+import { useAdminCodeStore } from "@/stores/code-store"
 import type { CodeStatus } from "@/database/tables/cythro_dash_codes"
 
-function useAuthHeaderBootstrap() {
-  const user = useAuthStore(s => s.currentUser)
-  const token = useAuthStore(s => s.sessionToken)
-  React.useEffect(() => {
-    setAuthHeaders(() => ({
-      'Content-Type': 'application/json',
-      ...(token ? { Authorization: `Bearer ${token}` } : {}),
-      ...(user ? { 'x-user-data': encodeURIComponent(JSON.stringify(user)) } : {})
-    }))
-  }, [user, token])
-}
-
 export default function AdminCodesPage() {
-  useAuthHeaderBootstrap()
-
   const {
     codes, codesTotal, isLoadingCodes,
     getCodes, createCode, updateCode, deleteCode,
@@ -15,10 +15,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Checkbox } from '@/components/ui/checkbox'
 import { Textarea } from '@/components/ui/textarea'
 import { Plus, Search, Edit, Trash2, MapPin, Server, Activity } from 'lucide-react'
-import { LocationStatus, LocationVisibility } from '@/database/tables/cythro_dash_locations'
+import { LocationStatus, LocationVisibility, NodePlacementStrategy } from '@/database/tables/cythro_dash_locations'
 import { showSuccess, showError } from '@/lib/toast'
 import type { CreateLocationData, UpdateLocationData, AdminLocationSummary } from '@/stores/admin-locations-store'
 
+const PLACEMENT_STRATEGIES: Array<{ value: NodePlacementStrategy; label: string; description: string }> = [
+  { value: NodePlacementStrategy.BALANCED, label: 'Balanced', description: 'Best resource fit, then lowest load' },
+  { value: NodePlacementStrategy.BIN_PACKING, label: 'Bin packing', description: 'Fill the fullest node that still fits' },
+  { value: NodePlacementStrategy.SPREAD, label: 'Spread', description: 'Use the emptiest node' },
+  { value: NodePlacementStrategy.LEAST_SERVERS, label: 'Least servers', description: 'Use the node hosting the fewest servers' },
+  { value: NodePlacementStrategy.CPU_AWARE, label: 'CPU-aware', description: 'Use the node with the least CPU committed' },
+]
+
 interface LocationCardProps {
   location: AdminLocationSummary
   onEdit: (location: AdminLocationSummary) => void
@@ -36,6 +44,11 @@ const LocationCard = ({ location, onEdit, onDelete, getStatusColor, getVisibilit
             <h3 className="text-lg font-semibold text-white">{location.name}</h3>
             <Badge className={getStatusColor(location.status)}>{location.status}</Badge>
             <Badge className={getVisibilityColor(location.visibility)}>{location.visibility}</Badge>
+            {location.placement && location.placement.strategy !== NodePlacementStrategy.BALANCED && (
+              <Badge variant="outline" className="text-xs">
+                {PLACEMENT_STRATEGIES.find(strategy => strategy.value === location.placement!.strategy)?.label} placement
+              </Badge>
+            )}
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
@@ -134,9 +147,21 @@ const LocationForm = ({ initialData, onSubmit }: LocationFormProps) => {
       ipv6_available: initialData?.network?.ipv6_available || false,
       port_range_start: initialData?.network?.port_range_start || 25565,
       port_range_end: initialData?.network?.port_range_end || 25665,
+    },
+    placement: {
+      strategy: initialData?.placement?.strategy || NodePlacementStrategy.BALANCED,
+      node_weights: initialData?.placement?.node_weights || {},
+      anti_affinity: initialData?.placement?.anti_affinity || false,
     }
   })
 
+  const placementStrategy = formData.placement?.strategy || NodePlacementStrategy.BALANCED
+  const setPlacement = (placement: Partial<NonNullable<CreateLocationData['placement']>>) =>
+    setFormData(prev => ({
+      ...prev,
+      placement: { strategy: NodePlacementStrategy.BALANCED, ...prev.placement, ...placement }
+    }))
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     onSubmit(formData)
@@ -356,6 +381,65 @@ const LocationForm = ({ initialData, onSubmit }: LocationFormProps) => {
         </div>
       </div>
 
+      <div>
+        <Label className="text-neutral-200 mb-3 block">Node Placement</Label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="placement_strategy" className="text-neutral-200">Strategy</Label>
+            <Select value={placementStrategy} onValueChange={(value) => setPlacement({ strategy: value as NodePlacementStrategy })}>
+              <SelectTrigger id="placement_strategy" className="bg-neutral-700/50 border-neutral-600/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-neutral-800 border-neutral-700">
+                {PLACEMENT_STRATEGIES.map(strategy => (
+                  <SelectItem key={strategy.value} value={strategy.value}>{strategy.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-neutral-400 mt-1">
+              {PLACEMENT_STRATEGIES.find(strategy => strategy.value === placementStrategy)?.description}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2 md:mt-6">
+            <Checkbox
+              id="anti_affinity"
+              checked={formData.placement?.anti_affinity || false}
+              onCheckedChange={(checked) => setPlacement({ anti_affinity: checked as boolean })}
+            />
+            <Label htmlFor="anti_affinity" className="text-neutral-300">Anti-affinity (one server per user per node)</Label>
+          </div>
+        </div>
+
+        {initialData?.associated_nodes && initialData.associated_nodes.length > 0 && (
+          <div className="mt-4">
+            <Label className="text-neutral-200">Node Weights</Label>
+            <p className="text-xs text-neutral-400 mb-2">Multiplies a node&apos;s placement score. 1 is neutral, 0 stops new servers landing on the node.</p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {initialData.associated_nodes.map(nodeId => (
+                <div key={nodeId}>
+                  <Label htmlFor={`node_weight_${nodeId}`} className="text-neutral-300 text-xs">Node #{nodeId}</Label>
+                  <Input
+                    id={`node_weight_${nodeId}`}
+                    type="number"
+                    min={0}
+                    max={10}
+                    step={0.1}
+                    value={formData.placement?.node_weights?.[String(nodeId)] ?? 1}
+                    onChange={(e) => setPlacement({
+                      node_weights: {
+                        ...formData.placement?.node_weights,
+                        [String(nodeId)]: Math.min(10, Math.max(0, parseFloat(e.target.value) || 0))
+                      }
+                    })}
+                    className="bg-neutral-700/50 border-neutral-600/50"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
       <DialogFooter>
         <Button type="submit" className="bg-neutral-700 hover:bg-neutral-600">
           {initialData ? 'Update Location' : 'Create Location'}
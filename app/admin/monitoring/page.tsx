@@ -0,0 +1,357 @@
+"use client"
+
+import React, { useEffect, useMemo, useState } from 'react'
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import AdminLayout from '@/components/Admin/AdminLayout'
+import { useAdminGuard, useAdminPermissions } from '@/hooks/use-admin-auth'
+import { useMonitoring } from '@/hooks/use-monitoring'
+import { useMonitoringStore, type CapacityAlert, type NodeStatsRange, type ResourceForecast, type ServerMigration } from '@/stores/monitoring-store'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import { Activity, AlertTriangle, ArrowRightLeft, HardDrive, MemoryStick, RefreshCw, Server } from 'lucide-react'
+import { showConfirm, showError, showSuccess } from '@/lib/toast'
+
+const ranges: Array<{ value: NodeStatsRange; label: string }> = [
+  { value: '24h', label: 'Last 24 hours' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: '180d', label: 'Last 6 months' },
+]
+
+const usageConfig = {
+  memory_percentage: { label: 'Memory', color: 'hsl(217 91% 60%)' },
+  disk_percentage: { label: 'Disk', color: 'hsl(142 71% 45%)' },
+} satisfies ChartConfig
+
+const serversConfig = {
+  servers: { label: 'Servers', color: 'hsl(38 92% 50%)' },
+} satisfies ChartConfig
+
+// Scope values look like "location:3" or "node:12"
+function parseScope(value: string): { scope: 'node' | 'location'; id: number } | null {
+  const [scope, id] = value.split(':')
+  if ((scope !== 'node' && scope !== 'location') || !Number(id)) return null
+  return { scope, id: Number(id) }
+}
+
+function formatTick(value: string, range: NodeStatsRange) {
+  const date = new Date(value)
+  return range === '24h'
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+}
+
+const levelStyles: Record<CapacityAlert['level'], string> = {
+  warning: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
+  critical: 'bg-orange-500/10 text-orange-400 border-orange-500/20',
+  full: 'bg-red-500/10 text-red-400 border-red-500/20',
+}
+
+const migrationStyles: Partial<Record<ServerMigration['state'], string>> = {
+  completed: 'bg-green-500/10 text-green-400 border-green-500/20',
+  rolled_back: 'bg-amber-500/10 text-amber-400 border-amber-500/20',
+  failed: 'bg-red-500/10 text-red-400 border-red-500/20',
+}
+
+function formatDaysUntilFull(forecast: ResourceForecast) {
+  if (forecast.days_until_full === null) return forecast.source === 'none' ? 'No history yet' : 'Not growing'
+  if (forecast.days_until_full === 0) return 'Full'
+  return `${forecast.days_until_full} days`
+}
+
+export default function AdminMonitoringPage() {
+  const { isLoading, hasAccess } = useAdminGuard()
+  const {
+    monitoringStats, locations, nodes, isRefreshing, refreshData,
+    history, historyRange, isLoadingHistory, setHistoryRange, fetchHistory, formatBytes,
+    forecasts, capacityAlerts, fetchForecast, fetchCapacityAlerts, acknowledgeAlert,
+    migrations, migrationMode, fetchMigrations, cancelMigration, deleteMigrationSource, drainNode,
+  } = useMonitoring()
+  const { can } = useAdminPermissions()
+  const canReadMigrations = can('servers.read')
+  const [scope, setScope] = useState<string>('')
+
+  useEffect(() => {
+    if (!hasAccess) return
+    void fetchForecast()
+    void fetchCapacityAlerts()
+    if (canReadMigrations) void fetchMigrations()
+  }, [hasAccess, fetchForecast, fetchCapacityAlerts, fetchMigrations, canReadMigrations])
+
+  // Default to the first location once capacity data arrives
+  useEffect(() => {
+    if (!scope && locations.length > 0) setScope(`location:${locations[0].location_id}`)
+  }, [scope, locations])
+
+  useEffect(() => {
+    const target = hasAccess ? parseScope(scope) : null
+    if (target) void fetchHistory(target.scope, target.id, historyRange)
+  }, [hasAccess, scope, historyRange, fetchHistory])
+
+  const points = useMemo(() => history?.points ?? [], [history])
+  const canDrain = can('locations.write') && can('servers.write')
+  const nodeName = (id?: number) => nodes.find(n => n.node_id === id)?.node_name ?? (id ? `#${id}` : '?')
+
+  const handleDrain = async (nodeId: number, name: string) => {
+    // Without a panel transfer, servers are recreated empty on their new node
+    const filesCopied = migrationMode?.files_copied ?? false
+    const confirmed = await showConfirm(`Drain ${name}?`, 'New servers stop landing on this node and every server on it is queued to move to another node in its location.'
+      + (filesCopied ? '' : ' Files are NOT copied: each server starts empty on its new node. The old servers stay suspended until you delete them.'))
+    if (!confirmed) return
+    const result = await drainNode(nodeId, !filesCopied)
+    if (!result) showError('Drain failed', useMonitoringStore.getState().error?.message)
+    else showSuccess('Node draining', result.message)
+  }
+
+  const handleDeleteSource = async (migration: ServerMigration) => {
+    const confirmed = await showConfirm('Delete the old server?', `The suspended server left on ${migration.source.node_name ?? nodeName(migration.source.node_id)} and its files are deleted for good.`)
+    if (!confirmed) return
+    if (await deleteMigrationSource(migration.id)) showSuccess('Old server deleted')
+    else showError('Delete failed', useMonitoringStore.getState().error?.message)
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-neutral-900 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-8 h-8 border-2 border-neutral-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-neutral-400">Loading monitoring...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!hasAccess) {
+    return null
+  }
+
+  const statCards = monitoringStats ? [
+    { title: 'Nodes', value: `${monitoringStats.active_nodes}/${monitoringStats.total_nodes}`, hint: `${monitoringStats.maintenance_nodes} in maintenance`, icon: Activity },
+    { title: 'Servers', value: monitoringStats.total_servers.toLocaleString(), hint: 'Across all nodes', icon: Server },
+    { title: 'Memory', value: `${Math.round(monitoringStats.overall_memory_usage)}%`, hint: `${formatBytes(monitoringStats.allocated_memory * 1024 * 1024)} of ${formatBytes(monitoringStats.total_memory * 1024 * 1024)}`, icon: MemoryStick },
+    { title: 'Disk', value: `${Math.round(monitoringStats.overall_disk_usage)}%`, hint: `${formatBytes(monitoringStats.allocated_disk * 1024 * 1024)} of ${formatBytes(monitoringStats.total_disk * 1024 * 1024)}`, icon: HardDrive },
+  ] : []
+
+  return (
+    <AdminLayout title="Monitoring" subtitle="Node capacity now and over time">
+      <div className="p-6 max-w-7xl mx-auto space-y-6">
+        <div className="flex flex-wrap items-center gap-3">
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger className="w-64 bg-neutral-800/50 border-neutral-700/50"><SelectValue placeholder="Location or node" /></SelectTrigger>
+            <SelectContent className="bg-neutral-800 border-neutral-700 max-h-72 overflow-y-auto">
+              {locations.map(l => <SelectItem key={`location:${l.location_id}`} value={`location:${l.location_id}`}>Location #{l.location_id} ({l.total_nodes} nodes)</SelectItem>)}
+              {nodes.map(n => <SelectItem key={`node:${n.node_id}`} value={`node:${n.node_id}`}>Node {n.node_name}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={historyRange} onValueChange={(v) => setHistoryRange(v as NodeStatsRange)}>
+            <SelectTrigger className="w-44 bg-neutral-800/50 border-neutral-700/50"><SelectValue /></SelectTrigger>
+            <SelectContent className="bg-neutral-800 border-neutral-700">
+              {ranges.map(r => <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" className="ml-auto" disabled={isRefreshing} onClick={() => { void refreshData(); void fetchForecast(); void fetchCapacityAlerts(); if (canReadMigrations) void fetchMigrations() }}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isRefreshing ? 'animate-spin' : ''}`} /> Refresh
+          </Button>
+        </div>
+
+        {statCards.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            {statCards.map(card => (
+              <Card key={card.title} className="border-neutral-700/50 bg-neutral-800/40">
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium text-neutral-200">{card.title}</CardTitle>
+                  <card.icon className="h-4 w-4 text-neutral-400" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold text-white">{card.value}</div>
+                  <p className="text-xs text-neutral-400">{card.hint}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="border-neutral-700/50 bg-neutral-800/40">
+            <CardHeader>
+              <CardTitle className="text-sm font-medium text-neutral-200">Allocated memory and disk (%)</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {points.length === 0 ? (
+                <p className="text-sm text-neutral-400 h-64 flex items-center justify-center">
+                  {isLoadingHistory ? 'Loading history...' : 'No samples recorded for this range yet'}
+                </p>
+              ) : (
+                <ChartContainer config={usageConfig} className="h-64 w-full">
+                  <LineChart data={points}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="recorded_at" tickLine={false} axisLine={false} minTickGap={32} tickFormatter={(v) => formatTick(v, historyRange)} />
+                    <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => new Date(payload?.[0]?.payload?.recorded_at).toLocaleString()} />} />
+                    <Line dataKey="memory_percentage" type="monotone" stroke="var(--color-memory_percentage)" strokeWidth={2} dot={false} />
+                    <Line dataKey="disk_percentage" type="monotone" stroke="var(--color-disk_percentage)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="border-neutral-700/50 bg-neutral-800/40">
+            <CardHeader>
+              <CardTitle className="text-sm font-medium text-neutral-200">Servers</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {points.length === 0 ? (
+                <p className="text-sm text-neutral-400 h-64 flex items-center justify-center">
+                  {isLoadingHistory ? 'Loading history...' : 'No samples recorded for this range yet'}
+                </p>
+              ) : (
+                <ChartContainer config={serversConfig} className="h-64 w-full">
+                  <LineChart data={points}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="recorded_at" tickLine={false} axisLine={false} minTickGap={32} tickFormatter={(v) => formatTick(v, historyRange)} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => new Date(payload?.[0]?.payload?.recorded_at).toLocaleString()} />} />
+                    <Line dataKey="servers" type="stepAfter" stroke="var(--color-servers)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {history && (
+          <p className="text-xs text-neutral-500">
+            {history.granularity === 'raw' ? 'Raw samples' : history.granularity === 'hourly' ? 'Hourly averages' : 'Daily averages'} · {points.length} points
+          </p>
+        )}
+
+        {capacityAlerts.length > 0 && (
+          <Card className="border-neutral-700/50 bg-neutral-800/40">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium text-neutral-200">Capacity alerts</CardTitle>
+              <AlertTriangle className="h-4 w-4 text-neutral-400" />
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {capacityAlerts.map(alert => (
+                <div key={alert.id} className="flex flex-wrap items-center gap-3 text-sm">
+                  <Badge className={levelStyles[alert.level]}>{alert.level}</Badge>
+                  <span className="text-neutral-200">{alert.message}</span>
+                  <span className="text-xs text-neutral-500">since {new Date(alert.created_at).toLocaleString()}</span>
+                  {alert.acknowledged_at ? (
+                    <span className="ml-auto text-xs text-neutral-500">Acknowledged</span>
+                  ) : can('locations.write') && (
+                    <Button variant="ghost" size="sm" className="ml-auto" onClick={() => void acknowledgeAlert(alert.id)}>Acknowledge</Button>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {migrations.length > 0 && (
+          <Card className="border-neutral-700/50 bg-neutral-800/40">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium text-neutral-200">Server migrations</CardTitle>
+              <ArrowRightLeft className="h-4 w-4 text-neutral-400" />
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {migrations.map(migration => (
+                <div key={migration.id} className="flex flex-wrap items-center gap-3 text-sm">
+                  <Badge className={migrationStyles[migration.state] ?? 'bg-blue-500/10 text-blue-400 border-blue-500/20'}>{migration.state.replace('_', ' ')}</Badge>
+                  <span className="text-neutral-200">
+                    Server <span className="font-mono">{migration.server_id}</span>: node {migration.source.node_name ?? nodeName(migration.source.node_id)} to {migration.target.node_name ?? nodeName(migration.target.node_id)}
+                  </span>
+                  <span className="text-xs text-neutral-500">{migration.reason.replace('_', ' ')} · {new Date(migration.created_at).toLocaleString()}</span>
+                  {migration.error && <span className="text-xs text-red-400">{migration.error}</span>}
+                  {(migration.state === 'pending' || migration.state === 'provisioning') && can('servers.write') && (
+                    <Button variant="ghost" size="sm" className="ml-auto" onClick={() => void cancelMigration(migration.id)}>Cancel</Button>
+                  )}
+                  {migration.source_retained && can('servers.write') && (
+                    <Button variant="ghost" size="sm" className="ml-auto text-red-400" onClick={() => void handleDeleteSource(migration)}>Delete old server</Button>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="bg-neutral-900/40 border border-neutral-700/40 rounded-2xl overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Location</TableHead>
+                <TableHead>Memory</TableHead>
+                <TableHead>Disk</TableHead>
+                <TableHead>New servers / day</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {forecasts.map(forecast => (
+                <TableRow key={forecast.pterodactyl_location_id} className="hover:bg-neutral-800/30 cursor-pointer" onClick={() => setScope(`location:${forecast.pterodactyl_location_id}`)}>
+                  <TableCell className="font-medium text-white">{forecast.location_name}</TableCell>
+                  {forecast.resources.map(resource => (
+                    <TableCell key={resource.resource}>
+                      <div>{Math.round(resource.usage_percentage)}% · {formatDaysUntilFull(resource)}</div>
+                      {resource.growth_per_day !== 0 && (
+                        <div className="text-xs text-neutral-400">
+                          {resource.growth_per_day > 0 ? '+' : '-'}{formatBytes(Math.abs(resource.growth_per_day) * 1024 * 1024)} / day
+                        </div>
+                      )}
+                    </TableCell>
+                  ))}
+                  <TableCell>{forecast.servers_created_per_day}</TableCell>
+                  <TableCell className="capitalize">
+                    {forecast.status}
+                    {forecast.capacity_hold && <span className="block text-xs text-amber-400">{forecast.capacity_hold.mode === 'hidden' ? 'Hidden from users' : 'Waitlist'}</span>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="bg-neutral-900/40 border border-neutral-700/40 rounded-2xl overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Node</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Memory</TableHead>
+                <TableHead>Disk</TableHead>
+                <TableHead>Servers</TableHead>
+                <TableHead>Status</TableHead>
+                {canDrain && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {nodes.map(node => (
+                <TableRow key={node.node_id} className="hover:bg-neutral-800/30 cursor-pointer" onClick={() => setScope(`node:${node.node_id}`)}>
+                  <TableCell>
+                    <div className="font-medium text-white">{node.node_name}</div>
+                    <div className="text-xs text-neutral-400 font-mono">{node.fqdn}</div>
+                  </TableCell>
+                  <TableCell>#{node.location_id}</TableCell>
+                  <TableCell>{Math.round(node.memory_usage_percentage)}%</TableCell>
+                  <TableCell>{Math.round(node.disk_usage_percentage)}%</TableCell>
+                  <TableCell>{node.total_servers}</TableCell>
+                  <TableCell className="capitalize">{node.status}</TableCell>
+                  {canDrain && (
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" disabled={node.total_servers === 0} onClick={(e) => { e.stopPropagation(); void handleDrain(node.node_id, node.node_name) }}>Drain</Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </AdminLayout>
+  )
+}
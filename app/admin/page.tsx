@@ -6,7 +6,8 @@ import AdminLayout from '@/components/Admin/AdminLayout'
 import { useAdminGuard } from '@/hooks/use-admin-auth'
 import { useAuthStore } from '@/stores/user-store'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Users, Server, Activity } from 'lucide-react'
+import Link from 'next/link'
+import { Users, Server, Activity, Plug, AlertTriangle } from 'lucide-react'
 
 interface DashboardMetrics {
   users: {
@@ -27,6 +28,24 @@ interface DashboardMetrics {
     clicks24h?: number
     signups24h?: number
   }
+  panelApi: {
+    since: string
+    mock: boolean
+    requests: number
+    failures: number
+    retries: number
+    rate_limited: number
+    timeouts: number
+    avg_latency_ms: number
+    last_error: { message: string; status: number; at: string } | null
+  }
+  capacityAlerts?: Array<{
+    id: string
+    level: 'warning' | 'critical' | 'full'
+    message: string
+    created_at: string
+    acknowledged_at?: string
+  }>
 }
 
 export default function AdminDashboard() {
@@ -41,10 +60,9 @@ export default function AdminDashboard() {
   const fetchMetrics = useCallback(async () => {
     try {
       setIsLoadingMetrics(true)
-      const { currentUser, sessionToken } = useAuthStore.getState()
+      const { sessionToken } = useAuthStore.getState()
       const headers: Record<string, string> = { 'Content-Type': 'application/json' }
       if (sessionToken) headers['Authorization'] = `Bearer ${sessionToken}`
-      if (currentUser) headers['x-user-data'] = encodeURIComponent(JSON.stringify(currentUser))
 
       const response = await fetch('/api/admin/dashboard', {
         method: 'GET',
@@ -146,6 +164,58 @@ export default function AdminDashboard() {
                     </p>
                   </CardContent>
                 </Card>
+
+                {metrics.capacityAlerts && metrics.capacityAlerts.length > 0 && (
+                  <Card className="border-amber-500/30 bg-neutral-800/40 md:col-span-3">
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                      <CardTitle className="text-sm font-medium text-neutral-200">Capacity alerts</CardTitle>
+                      <AlertTriangle className="h-4 w-4 text-amber-400" />
+                    </CardHeader>
+                    <CardContent className="space-y-1">
+                      {metrics.capacityAlerts.map(alert => (
+                        <p key={alert.id} className={`text-sm ${alert.level === 'warning' ? 'text-yellow-400' : alert.level === 'critical' ? 'text-orange-400' : 'text-red-400'}`}>
+                          {alert.message}
+                          {alert.acknowledged_at && <span className="text-xs text-neutral-500"> · acknowledged</span>}
+                        </p>
+                      ))}
+                      <Link href="/admin/monitoring" className="text-xs text-neutral-400 hover:text-neutral-200">Open monitoring</Link>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {metrics.panelApi && (
+                  <Card className="border-neutral-700/50 bg-neutral-800/40 md:col-span-3">
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                      <CardTitle className="text-sm font-medium text-neutral-200">
+                        Panel API{metrics.panelApi.mock ? ' (mock)' : ''}
+                      </CardTitle>
+                      <Plug className="h-4 w-4 text-neutral-400" />
+                    </CardHeader>
+                    <CardContent>
+                      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                        {[
+                          ['Requests', metrics.panelApi.requests.toLocaleString()],
+                          ['Failures', metrics.panelApi.failures.toLocaleString()],
+                          ['Retries', metrics.panelApi.retries.toLocaleString()],
+                          ['Rate limited', metrics.panelApi.rate_limited.toLocaleString()],
+                          ['Timeouts', metrics.panelApi.timeouts.toLocaleString()],
+                          ['Avg latency', `${metrics.panelApi.avg_latency_ms} ms`],
+                        ].map(([label, value]) => (
+                          <div key={label}>
+                            <div className="text-xl font-bold text-white">{value}</div>
+                            <p className="text-xs text-neutral-400">{label}</p>
+                          </div>
+                        ))}
+                      </div>
+                      <p className="text-xs text-neutral-500 mt-3">
+                        Since {new Date(metrics.panelApi.since).toLocaleString()}
+                        {metrics.panelApi.last_error && (
+                          <> · Last error: {metrics.panelApi.last_error.message} ({metrics.panelApi.last_error.status}) at {new Date(metrics.panelApi.last_error.at).toLocaleString()}</>
+                        )}
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
               </div>
             ) : (
               <Card className="border-neutral-700/50 bg-neutral-800/40">
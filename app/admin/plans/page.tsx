@@ -178,9 +178,20 @@ const PlanForm = ({ initialData, onSubmit }: PlanFormProps) => {
       bandwidth_limit: initialData?.quotas?.bandwidth_limit ?? 0,
       storage_limit: initialData?.quotas?.storage_limit ?? 0,
       api_requests_limit: initialData?.quotas?.api_requests_limit ?? 0,
+    },
+    // Empty fields fall back to the global billing settings
+    lifecycle: {
+      suspend_grace_hours: initialData?.lifecycle?.suspend_grace_hours,
+      delete_after_hours: initialData?.lifecycle?.delete_after_hours,
+      data_retention_hours: initialData?.lifecycle?.data_retention_hours,
     }
   })
 
+  const setLifecycleHours = (field: 'suspend_grace_hours' | 'delete_after_hours' | 'data_retention_hours', raw: string) => {
+    const value = raw === '' ? undefined : Math.max(0, Number(raw) || 0)
+    setFormData(prev => ({ ...prev, lifecycle: { ...prev.lifecycle, [field]: value } }))
+  }
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -199,6 +210,11 @@ const PlanForm = ({ initialData, onSubmit }: PlanFormProps) => {
       const v = data.quotas.max_concurrent_servers
       if (!v || v < 1) delete (data.quotas as any).max_concurrent_servers
     }
+    if (data.lifecycle) {
+      for (const key of Object.keys(data.lifecycle) as Array<keyof NonNullable<typeof data.lifecycle>>) {
+        if (data.lifecycle[key] === undefined) delete data.lifecycle[key]
+      }
+    }
     onSubmit(data)
   }
 
@@ -292,6 +308,50 @@ const PlanForm = ({ initialData, onSubmit }: PlanFormProps) => {
       </div>
       </div>
 
+      <div>
+        <Label className="text-neutral-200 mb-1 block">Lifecycle Overrides</Label>
+        <p className="text-xs text-neutral-400 mb-3">Leave empty to use the global values from Settings &rarr; Billing.</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="suspend_grace_hours" className="text-neutral-200">Grace Before Suspension (hours)</Label>
+            <Input
+              id="suspend_grace_hours"
+              type="number"
+              min={0}
+              placeholder="Global default"
+              value={formData.lifecycle?.suspend_grace_hours ?? ''}
+              onChange={(e) => setLifecycleHours('suspend_grace_hours', e.target.value)}
+              className="bg-neutral-700/50 border-neutral-600/50"
+            />
+          </div>
+          <div>
+            <Label htmlFor="delete_after_hours" className="text-neutral-200">Suspension to Deletion (hours)</Label>
+            <Input
+              id="delete_after_hours"
+              type="number"
+              min={0}
+              placeholder="Global default"
+              value={formData.lifecycle?.delete_after_hours ?? ''}
+              onChange={(e) => setLifecycleHours('delete_after_hours', e.target.value)}
+              className="bg-neutral-700/50 border-neutral-600/50"
+            />
+          </div>
+          <div>
+            <Label htmlFor="data_retention_hours" className="text-neutral-200">Data Retention (hours)</Label>
+            <Input
+              id="data_retention_hours"
+              type="number"
+              min={0}
+              placeholder="Global default"
+              value={formData.lifecycle?.data_retention_hours ?? ''}
+              onChange={(e) => setLifecycleHours('data_retention_hours', e.target.value)}
+              className="bg-neutral-700/50 border-neutral-600/50"
+            />
+            <p className="text-xs text-neutral-400 mt-1">0 deletes files as soon as the server is terminated</p>
+          </div>
+        </div>
+      </div>
+
       {/* Available Location */}
       <div>
         <Label className="text-neutral-200">Available Location *</Label>
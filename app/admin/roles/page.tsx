@@ -0,0 +1,190 @@
+"use client"
+
+import React from "react"
+import AdminLayout from "@/components/Admin/AdminLayout"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Skeleton } from "@/components/ui/skeleton"
+import Icon from "@/components/IconProvider"
+import { useAdminStore, type AdminRole } from "@/stores/admin-store"
+
+type RoleForm = { id: string; name: string; description: string; permissions: string[] }
+
+const emptyForm: RoleForm = { id: "", name: "", description: "", permissions: [] }
+
+// Group permission keys by their first segment: users.*, servers.*, ...
+function groupPermissions(catalog: Record<string, string>) {
+  const groups: Record<string, string[]> = {}
+  for (const key of Object.keys(catalog)) {
+    const group = key.split(".")[0]
+    ;(groups[group] ||= []).push(key)
+  }
+  return Object.entries(groups)
+}
+
+export default function AdminRolesPage() {
+  const { roles, permissionCatalog, isLoadingRoles, getRoles, createRole, updateRole, deleteRole } = useAdminStore()
+  const [editing, setEditing] = React.useState<AdminRole | null>(null)
+  const [open, setOpen] = React.useState(false)
+  const [form, setForm] = React.useState<RoleForm>(emptyForm)
+  const [saving, setSaving] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  React.useEffect(() => { getRoles(true) }, [getRoles])
+
+  const groups = React.useMemo(() => groupPermissions(permissionCatalog), [permissionCatalog])
+
+  function openCreate() {
+    setEditing(null)
+    setForm(emptyForm)
+    setError(null)
+    setOpen(true)
+  }
+
+  function openEdit(role: AdminRole) {
+    setEditing(role)
+    setForm({ id: role.id, name: role.name, description: role.description || "", permissions: role.permissions })
+    setError(null)
+    setOpen(true)
+  }
+
+  function togglePermission(key: string, checked: boolean) {
+    setForm(f => ({ ...f, permissions: checked ? [...f.permissions, key] : f.permissions.filter(p => p !== key) }))
+  }
+
+  async function handleSave() {
+    setSaving(true)
+    setError(null)
+    const data = { name: form.name.trim(), description: form.description.trim() || undefined, permissions: form.permissions }
+    const res = editing ? await updateRole(editing.id, data) : await createRole(form.id.trim(), data)
+    setSaving(false)
+    if (!res.success) return setError(res.message)
+    setOpen(false)
+  }
+
+  async function handleDelete(role: AdminRole) {
+    if (!confirm(`Delete the role "${role.name}"?`)) return
+    const res = await deleteRole(role.id)
+    if (!res.success) alert(res.message)
+  }
+
+  const readOnly = !!editing && editing.permissions.includes("*")
+
+  return (
+    <AdminLayout title="Roles" subtitle="Decide what each staff member can see and change">
+      <div className="p-6 max-w-7xl mx-auto">
+        <div className="flex justify-end mb-4">
+          <Button onClick={openCreate}>
+            <Icon name="Plus" className="h-4 w-4 mr-2" /> New Role
+          </Button>
+        </div>
+
+        <div className="bg-neutral-900/40 border border-neutral-700/40 rounded-2xl overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Role</TableHead>
+                <TableHead>Permissions</TableHead>
+                <TableHead>Users</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoadingRoles && roles.length === 0 ? (
+                Array.from({ length: 4 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell><Skeleton className="h-4 w-32" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-64" /></TableCell>
+                    <TableCell><Skeleton className="h-4 w-8" /></TableCell>
+                    <TableCell className="text-right"><Skeleton className="h-8 w-20 ml-auto" /></TableCell>
+                  </TableRow>
+                ))
+              ) : roles.map((role) => (
+                <TableRow key={role.id} className="hover:bg-neutral-800/30">
+                  <TableCell>
+                    <div className="font-medium text-white">{role.name}</div>
+                    <div className="text-xs text-neutral-400 font-mono">{role.id}</div>
+                    {role.description && <div className="text-xs text-neutral-400">{role.description}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1 max-w-xl">
+                      {role.permissions.includes("*") ? (
+                        <span className="px-2 py-0.5 rounded text-xs bg-amber-500/10 text-amber-400">All permissions</span>
+                      ) : role.permissions.length === 0 ? (
+                        <span className="text-xs text-neutral-500">None</span>
+                      ) : role.permissions.map((p) => (
+                        <span key={p} className="px-2 py-0.5 rounded text-xs bg-neutral-700/40 text-neutral-300 font-mono">{p}</span>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>{role.user_count}</TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(role)}><Icon name={role.permissions.includes("*") ? "Eye" : "Settings"} className="h-4 w-4" /></Button>
+                    {!role.permissions.includes("*") && (
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(role)}><Icon name="X" className="h-4 w-4 text-red-400" /></Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing ? (readOnly ? editing.name : `Edit ${editing.name}`) : "New role"}</DialogTitle>
+          </DialogHeader>
+          {readOnly ? (
+            <p className="text-sm text-neutral-400 py-2">This role has every permission, including managing roles, and cannot be changed.</p>
+          ) : (
+            <div className="grid gap-4 py-2 max-h-[65vh] overflow-y-auto">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label>Id</Label>
+                  <Input placeholder="e.g. support" value={form.id} disabled={!!editing} onChange={(e) => setForm(f => ({ ...f, id: e.target.value.toLowerCase() }))} />
+                </div>
+                <div>
+                  <Label>Name</Label>
+                  <Input placeholder="e.g. Support" value={form.name} onChange={(e) => setForm(f => ({ ...f, name: e.target.value }))} />
+                </div>
+                <div className="md:col-span-2">
+                  <Label>Description (optional)</Label>
+                  <Input value={form.description} onChange={(e) => setForm(f => ({ ...f, description: e.target.value }))} />
+                </div>
+              </div>
+              <div className="space-y-3">
+                {groups.map(([group, keys]) => (
+                  <div key={group}>
+                    <div className="text-xs uppercase text-neutral-400 mb-1">{group}</div>
+                    <div className="grid gap-1">
+                      {keys.map((key) => (
+                        <label key={key} className="flex items-start gap-2 text-sm">
+                          <Checkbox checked={form.permissions.includes(key)} onCheckedChange={(v) => togglePermission(key, v === true)} className="mt-0.5" />
+                          <span>
+                            <span className="font-mono text-neutral-200">{key}</span>
+                            <span className="block text-xs text-neutral-400">{permissionCatalog[key]}</span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {error && <div className="text-sm text-red-400">{error}</div>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setOpen(false)}>{readOnly ? "Close" : "Cancel"}</Button>
+            {!readOnly && <Button disabled={saving || !form.name.trim() || (!editing && !form.id.trim())} onClick={handleSave}>{editing ? "Save" : "Create"}</Button>}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  )
+}
@@ -2,6 +2,7 @@
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import AdminLayout from '@/components/Admin/AdminLayout'
+import IPBlockRulesCard from '@/components/Admin/IPBlockRulesCard'
 import { useAdminGuard } from '@/hooks/use-admin-auth'
 import { useAdminSecurityStore } from '@/stores/admin-security-store'
 import { useAdminSecurityLogsStore } from '@/stores/admin-security-logs-store'
@@ -109,6 +110,8 @@ export default function AdminSecurityLogsPage() {
             </Card>
           </div>
 
+          <IPBlockRulesCard />
+
           {/* Filters */}
           <Card className="border-neutral-700/50 bg-neutral-800/40">
             <CardContent className="p-4">
@@ -3,12 +3,14 @@
 import React, { useCallback, useEffect, useState, Suspense } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import AdminLayout from '@/components/Admin/AdminLayout'
-import { useAdminGuard } from '@/hooks/use-admin-auth'
+import { useAdminGuard, useAdminPermissions } from '@/hooks/use-admin-auth'
 import { useAdminServerManagementStore } from '@/stores/admin-server-management'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ArrowLeft, Server, Activity, Settings } from 'lucide-react'
+import MigrateServerDialog from '@/components/Admin/ServerTabs/MigrateServerDialog'
+import { ServerStatus } from '@/database/tables/cythro_dash_servers'
 
 
 // Lazy load tab components for better performance
@@ -23,6 +25,7 @@ function ServerDetailContent({ params }: ServerDetailPageProps) {
   const router = useRouter()
   const searchParams = useSearchParams()
   const { isLoading, hasAccess } = useAdminGuard()
+  const { can } = useAdminPermissions()
   
   const [activeTab, setActiveTab] = useState(searchParams.get('tab') || 'overview')
 
@@ -150,7 +153,14 @@ function ServerDetailContent({ params }: ServerDetailPageProps) {
               </div>
             </div>
 
-
+            {can('servers.write') && (
+              <MigrateServerDialog
+                serverId={selectedServer.id}
+                locationId={selectedServer.location_id}
+                disabled={selectedServer.status !== ServerStatus.ACTIVE && selectedServer.status !== ServerStatus.SUSPENDED}
+                onMigrated={fetchServerDetails}
+              />
+            )}
           </div>
 
           {/* Tabbed interface */}
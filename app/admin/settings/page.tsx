@@ -42,6 +42,18 @@ const categories: CategoryConfig[] = [
     description: 'Enable or disable dashboard features',
     icon: 'Activity'
   },
+  {
+    id: 'billing',
+    label: 'Billing',
+    description: 'Grace periods and suspension policy for unpaid servers',
+    icon: 'Clock'
+  },
+  {
+    id: 'capacity',
+    label: 'Capacity',
+    description: 'Forecast alerts and what happens to locations that fill up',
+    icon: 'Activity'
+  },
   {
     id: 'appearance',
     label: 'Appearance',
@@ -323,7 +335,7 @@ export default function AdminSettingsPage() {
 
         {/* Settings Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="w-full bg-neutral-900/60 border border-neutral-800 overflow-x-auto flex md:grid md:grid-cols-5 gap-1 p-1 rounded-lg">
+          <TabsList className="w-full bg-neutral-900/60 border border-neutral-800 overflow-x-auto flex md:grid md:grid-cols-6 gap-1 p-1 rounded-lg">
             {categories.map((category) => (
               <TabsTrigger
                 key={category.id}
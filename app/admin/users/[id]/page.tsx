@@ -13,6 +13,8 @@ import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbP
 import { Skeleton } from '@/components/ui/skeleton'
 import { useAdminStore } from '@/stores/admin-store'
 import UserTabErrorBoundary from '@/components/Admin/Users/UserTabErrorBoundary'
+import ImpersonateUserDialog from '@/components/Admin/Users/ImpersonateUserDialog'
+import { useAdminPermissions } from '@/hooks/use-admin-auth'
 
 export default function AdminUserDetailPage() {
   const params = useParams<{ id: string }>()
@@ -20,6 +22,7 @@ export default function AdminUserDetailPage() {
   const id = Number(params?.id)
 
   const { selectedUser, isLoadingSelectedUser, getUserById, getAdminLogs, getReferralAnalytics, getReferredUsers } = useAdminStore()
+  const { can } = useAdminPermissions()
 
   React.useEffect(() => {
     if (!id || Number.isNaN(id)) return
@@ -53,13 +56,22 @@ export default function AdminUserDetailPage() {
           </BreadcrumbItem>
         </BreadcrumbList>
       </Breadcrumb>
-      <div>
-        {isLoadingSelectedUser && (!selectedUser || selectedUser.id !== id) ? (
-          <Skeleton className="h-8 w-64" />
-        ) : (
-          <div className="text-2xl font-semibold text-white">{selectedUser?.username || `User #${id}`}</div>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          {isLoadingSelectedUser && (!selectedUser || selectedUser.id !== id) ? (
+            <Skeleton className="h-8 w-64" />
+          ) : (
+            <div className="text-2xl font-semibold text-white">{selectedUser?.username || `User #${id}`}</div>
+          )}
+          <div className="text-sm text-neutral-400">ID: {id}</div>
+        </div>
+        {!!id && !Number.isNaN(id) && can('users.impersonate') && (
+          <ImpersonateUserDialog
+            userId={id}
+            username={selectedUser?.id === id ? selectedUser.username : undefined}
+            disabled={selectedUser?.id === id && (selectedUser.role === 0 || selectedUser.banned)}
+          />
         )}
-        <div className="text-sm text-neutral-400">ID: {id}</div>
       </div>
     </div>
   )
@@ -5,61 +5,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { z } from 'zod';
 import { codeOperations } from '@/hooks/managers/database/codes';
-
-// Authentication function following the established pattern
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    // Get session token from cookies or Authorization header
-    const authHeader = request.headers.get('authorization');
-    const sessionToken = authHeader?.replace('Bearer ', '') ||
-                        request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'Authentication required'
-      };
-    }
-
-    // Basic session token validation
-    if (typeof sessionToken !== 'string' || sessionToken.length < 10) {
-      return {
-        success: false,
-        error: 'Invalid session token format'
-      };
-    }
-
-    // Get user information from request headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.error('Error parsing user data header:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User data not found in request headers'
-    };
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
+import { authenticateRequest } from '@/lib/auth/middleware';
+import { hasPermission } from '@/lib/auth/permissions';
 
 // Input validation schema for updates
 const updateCodeSchema = z.object({
@@ -91,11 +41,11 @@ export async function GET(
       }, { status: 401 });
     }
 
-    // Check admin permissions (role 0 = admin)
-    if (authResult.user.role !== 0) {
+    // Check admin permissions
+    if (!hasPermission(authResult.user.permissions, 'codes.read')) {
       return NextResponse.json({
         success: false,
-        message: 'Admin access required'
+        message: 'Insufficient permissions'
       }, { status: 403 });
     }
 
@@ -148,7 +98,7 @@ export async function GET(
  * PUT /api/admin/codes/[id]
  * Update a redeem code
  */
-export async function PUT(
+export const PUT = withCsrf(async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
@@ -162,11 +112,11 @@ export async function PUT(
       }, { status: 401 });
     }
 
-    // Check admin permissions (role 0 = admin)
-    if (authResult.user.role !== 0) {
+    // Check admin permissions
+    if (!hasPermission(authResult.user.permissions, 'codes.write')) {
       return NextResponse.json({
         success: false,
-        message: 'Admin access required'
+        message: 'Insufficient permissions'
       }, { status: 403 });
     }
 
@@ -244,13 +194,13 @@ export async function PUT(
       error: 'INTERNAL_ERROR'
     }, { status: 500 });
   }
-}
+});
 
 /**
  * DELETE /api/admin/codes/[id]
  * Delete a redeem code
  */
-export async function DELETE(
+export const DELETE = withCsrf(async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
@@ -264,11 +214,11 @@ export async function DELETE(
       }, { status: 401 });
     }
 
-    // Check admin permissions (role 0 = admin)
-    if (authResult.user.role !== 0) {
+    // Check admin permissions
+    if (!hasPermission(authResult.user.permissions, 'codes.write')) {
       return NextResponse.json({
         success: false,
-        message: 'Admin access required'
+        message: 'Insufficient permissions'
       }, { status: 403 });
     }
 
@@ -327,7 +277,7 @@ export async function DELETE(
       error: 'INTERNAL_ERROR'
     }, { status: 500 });
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -335,7 +285,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-user-data',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
 }
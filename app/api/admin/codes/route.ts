@@ -5,62 +5,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { z } from 'zod';
 import { codeOperations } from '@/hooks/managers/database/codes';
 import { CodeStatus } from '@/database/tables/cythro_dash_codes';
-
-// Authentication function following the established pattern
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    // Get session token from cookies or Authorization header
-    const authHeader = request.headers.get('authorization');
-    const sessionToken = authHeader?.replace('Bearer ', '') ||
-                        request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'Authentication required'
-      };
-    }
-
-    // Basic session token validation
-    if (typeof sessionToken !== 'string' || sessionToken.length < 10) {
-      return {
-        success: false,
-        error: 'Invalid session token format'
-      };
-    }
-
-    // Get user information from request headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.error('Error parsing user data header:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User data not found in request headers'
-    };
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
+import { authenticateRequest } from '@/lib/auth/middleware';
+import { hasPermission } from '@/lib/auth/permissions';
 
 // Input validation schemas
 const createCodeSchema = z.object({
@@ -97,11 +47,11 @@ export async function GET(request: NextRequest) {
       }, { status: 401 });
     }
 
-    // Check admin permissions (role 0 = admin)
-    if (authResult.user.role !== 0) {
+    // Check admin permissions
+    if (!hasPermission(authResult.user.permissions, 'codes.read')) {
       return NextResponse.json({
         success: false,
-        message: 'Admin access required'
+        message: 'Insufficient permissions'
       }, { status: 403 });
     }
 
@@ -157,7 +107,7 @@ export async function GET(request: NextRequest) {
  * POST /api/admin/codes
  * Create a new redeem code
  */
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     // Authenticate user
     const authResult = await authenticateRequest(request);
@@ -168,11 +118,11 @@ export async function POST(request: NextRequest) {
       }, { status: 401 });
     }
 
-    // Check admin permissions (role 0 = admin)
-    if (authResult.user.role !== 0) {
+    // Check admin permissions
+    if (!hasPermission(authResult.user.permissions, 'codes.write')) {
       return NextResponse.json({
         success: false,
-        message: 'Admin access required'
+        message: 'Insufficient permissions'
       }, { status: 403 });
     }
 
@@ -245,7 +195,7 @@ export async function POST(request: NextRequest) {
       error: 'INTERNAL_ERROR'
     }, { status: 500 });
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -253,7 +203,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-user-data',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
 }
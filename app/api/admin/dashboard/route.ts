@@ -10,46 +10,21 @@ import { transfersCollectionName, TransferStatus } from '@/database/tables/cythr
 import { REFERRAL_CLICKS_COLLECTION, REFERRAL_SIGNUPS_COLLECTION } from '@/database/tables/cythro_dash_referrals'
 import { getPublicFlag } from '@/lib/public-settings'
 import { getCache, setCache, makeKey, shouldBypassCache, makeETagFromObject } from '@/lib/ttlCache'
+import { SessionUser, withAuth } from '@/lib/auth/middleware'
+import { hasPermission } from '@/lib/auth/permissions'
+import { getPterodactylMetrics } from '@/hooks/managers/pterodactyl/client'
+import { capacityAlertsOperations } from '@/hooks/managers/database/capacity-alerts'
 
 export const runtime = 'nodejs'
 
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    const sessionToken = request.cookies.get('session_token')?.value
-    if (!sessionToken) return { success: false, error: 'No session token found' }
-    const userDataHeader = request.headers.get('x-user-data')
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader))
-        if (userData && userData.id && userData.username && userData.email) {
-          return { success: true, user: userData }
-        }
-      } catch {}
-    }
-    const userDataCookie = request.cookies.get('x_user_data')?.value
-    if (userDataCookie) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataCookie))
-        if (userData && userData.id && userData.username && userData.email) {
-          return { success: true, user: userData }
-        }
-      } catch {}
-    }
-    return { success: false, error: 'User identification required' }
-  } catch (e) {
-    return { success: false, error: 'Authentication failed' }
-  }
-}
-
-export async function GET(request: NextRequest) {
-  const auth = await authenticateRequest(request)
-  if (!auth.success || !auth.user) return NextResponse.json({ success: false, message: 'Authentication required' }, { status: 401 })
-  if (auth.user.role !== 0) return NextResponse.json({ success: false, message: 'Admin access required' }, { status: 403 })
+// User, coin and transfer totals need users.read; capacity alerts also need locations.read
+export const GET = withAuth(async function GET(request: NextRequest, admin: SessionUser) {
+  const includeAlerts = hasPermission(admin.permissions, 'locations.read')
 
   // Short TTL cache for hot admin dashboard
   const t0 = Date.now()
   const bypass = shouldBypassCache(request.url)
-  const cacheKey = makeKey(['admin_dashboard'])
+  const cacheKey = makeKey(['admin_dashboard', includeAlerts ? 'alerts' : 'no_alerts'])
   if (!bypass) {
     const cached = getCache<any>(cacheKey)
     const ifNoneMatch = request.headers.get('if-none-match') || ''
@@ -134,6 +109,11 @@ export async function GET(request: NextRequest) {
       .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
       .slice(0, 10)
 
+    // Open capacity alerts, most recent first
+    const capacityAlerts = includeAlerts
+      ? (await capacityAlertsOperations.list({ limit: 10 })).map(({ _id, ...alert }) => ({ id: String(_id), ...alert }))
+      : undefined
+
     const payload = {
       success: true,
       data: {
@@ -141,6 +121,8 @@ export async function GET(request: NextRequest) {
         servers: { total: totalServers, active: activeServers, online: onlineServers, avgMemoryUtilization },
         transfers24h,
         referrals: referralMetrics,
+        panelApi: getPterodactylMetrics(),
+        capacityAlerts,
         activity
       }
     }
@@ -153,5 +135,4 @@ export async function GET(request: NextRequest) {
     console.error('Admin dashboard error:', e)
     return NextResponse.json({ success: false, message: 'Failed to load dashboard data' }, { status: 500 })
   }
-}
-
+}, { permission: 'users.read' })
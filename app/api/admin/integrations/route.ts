@@ -7,7 +7,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { requireAdmin } from '@/lib/auth/middleware';
+import { withCsrf } from '@/lib/security/csrf';
+import { requirePermission } from '@/lib/auth/middleware';
 import { getCurrentIntegrationSettings, updateEnvFile, type IntegrationEnvVars } from '@/lib/env-manager';
 
 
@@ -15,7 +16,7 @@ import { getCurrentIntegrationSettings, updateEnvFile, type IntegrationEnvVars }
 export async function GET(request: NextRequest) {
   try {
     // Require admin authentication
-    const authResult = await requireAdmin(request);
+    const authResult = await requirePermission(request, 'settings.read');
     if (!authResult.success) {
       return authResult.response!;
     }
@@ -66,10 +67,10 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function PATCH(request: NextRequest) {
+export const PATCH = withCsrf(async function PATCH(request: NextRequest) {
   try {
     // Require admin authentication
-    const authResult = await requireAdmin(request);
+    const authResult = await requirePermission(request, 'settings.write');
     if (!authResult.success) {
       return authResult.response!;
     }
@@ -230,7 +231,7 @@ export async function PATCH(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, {
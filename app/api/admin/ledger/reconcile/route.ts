@@ -0,0 +1,101 @@
+/**
+ * CythroDash - Admin Ledger Reconciliation API
+ *
+ * GET  /api/admin/ledger/reconcile?user_id=&include_ok=&format=json|csv  -> report only
+ * POST /api/admin/ledger/reconcile { user_id?, format? }                 -> report and write corrections
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
+import { z } from 'zod'
+import { ledgerReconciliationOperations, reconciliationToCsv, ReconciliationReport } from '@/hooks/managers/database/ledger-reconciliation'
+import { SecurityLogsController } from '@/hooks/managers/controller/Security/Logs'
+import { SecurityLogAction, SecurityLogSeverity } from '@/database/tables/cythro_dash_users_logs'
+import { authenticateRequest } from '@/lib/auth/middleware'
+import { hasPermission } from '@/lib/auth/permissions'
+
+const querySchema = z.object({
+  user_id: z.coerce.number().int().positive().optional(),
+  include_ok: z.enum(['true', 'false']).optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+})
+
+const applySchema = z.object({
+  user_id: z.number().int().positive().optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+})
+
+function respond(report: ReconciliationReport, format: 'json' | 'csv') {
+  if (format === 'csv') {
+    const stamp = report.generated_at.toISOString().replace(/[:.]/g, '-')
+    return new NextResponse(reconciliationToCsv(report), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="ledger-reconciliation-${stamp}.csv"`,
+      },
+    })
+  }
+  return NextResponse.json({ success: true, data: report })
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request)
+    if (!auth.success || !auth.user) return NextResponse.json({ success: false, message: 'Authentication required' }, { status: 401 })
+    if (!hasPermission(auth.user.permissions, 'ledger.read')) return NextResponse.json({ success: false, message: 'Insufficient permissions' }, { status: 403 })
+
+    const parsed = querySchema.safeParse(Object.fromEntries(new URL(request.url).searchParams.entries()))
+    if (!parsed.success) return NextResponse.json({ success: false, message: 'Invalid query params', errors: parsed.error.errors }, { status: 400 })
+
+    const report = await ledgerReconciliationOperations.run({
+      user_id: parsed.data.user_id,
+      include_ok: parsed.data.include_ok === 'true',
+    })
+    return respond(report, parsed.data.format)
+  } catch (error) {
+    console.error('GET /api/admin/ledger/reconcile error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export const POST = withCsrf(async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticateRequest(request)
+    if (!auth.success || !auth.user) return NextResponse.json({ success: false, message: 'Authentication required' }, { status: 401 })
+    if (!hasPermission(auth.user.permissions, 'ledger.reconcile')) return NextResponse.json({ success: false, message: 'Insufficient permissions' }, { status: 403 })
+
+    const body = await request.json().catch(() => ({}))
+    const parsed = applySchema.safeParse(body)
+    if (!parsed.success) return NextResponse.json({ success: false, message: 'Invalid input', errors: parsed.error.errors }, { status: 400 })
+
+    const report = await ledgerReconciliationOperations.run({
+      user_id: parsed.data.user_id,
+      apply: true,
+      admin_id: auth.user.id,
+    })
+
+    if (report.corrected > 0) {
+      try {
+        await SecurityLogsController.createLog({
+          user_id: auth.user.id,
+          action: SecurityLogAction.ADMIN_ACTION_PERFORMED,
+          severity: SecurityLogSeverity.HIGH,
+          description: `Ledger reconciliation corrected ${report.corrected} user(s)`,
+          details: {
+            users_checked: report.users_checked,
+            mismatched: report.mismatched,
+            corrected: report.corrected,
+            skipped: report.skipped,
+            corrected_user_ids: report.rows.filter(r => r.status === 'corrected').map(r => r.user_id),
+          },
+        })
+      } catch {}
+    }
+
+    return respond(report, parsed.data.format)
+  } catch (error) {
+    console.error('POST /api/admin/ledger/reconcile error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+})
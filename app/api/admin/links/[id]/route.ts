@@ -3,10 +3,13 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
 import { z } from 'zod'
 import shortLinksOperations from '@/hooks/managers/database/short-links'
 import { SecurityLogsController } from '@/hooks/managers/controller/Security/Logs'
 import { SecurityLogAction, SecurityLogSeverity } from '@/database/tables/cythro_dash_users_logs'
+import { authenticateRequest } from '@/lib/auth/middleware'
+import { hasPermission } from '@/lib/auth/permissions'
 
 const idParam = z.object({ id: z.coerce.number().min(1) })
 const updateSchema = z.object({
@@ -16,38 +19,10 @@ const updateSchema = z.object({
   is_active: z.boolean().optional(),
 })
 
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    const sessionToken = request.cookies.get('session_token')?.value
-    if (!sessionToken) return { success: false, error: 'No session token found' }
-    const userDataHeader = request.headers.get('x-user-data')
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader))
-        if (userData && userData.id && userData.username && userData.email) {
-          return { success: true, user: userData }
-        }
-      } catch {}
-    }
-    const userDataCookie = request.cookies.get('x_user_data')?.value
-    if (userDataCookie) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataCookie))
-        if (userData && userData.id && userData.username && userData.email) {
-          return { success: true, user: userData }
-        }
-      } catch {}
-    }
-    return { success: false, error: 'User identification required' }
-  } catch (e) {
-    return { success: false, error: 'Authentication failed' }
-  }
-}
-
-export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+export const PUT = withCsrf(async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
   const auth = await authenticateRequest(request)
   if (!auth.success || !auth.user) return NextResponse.json({ success: false, message: 'Authentication required' }, { status: 401 })
-  if (auth.user.role !== 0) return NextResponse.json({ success: false, message: 'Admin access required' }, { status: 403 })
+  if (!hasPermission(auth.user.permissions, 'content.write')) return NextResponse.json({ success: false, message: 'Insufficient permissions' }, { status: 403 })
 
   const parsedId = idParam.safeParse({ id: params.id })
   if (!parsedId.success) return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 })
@@ -66,12 +41,12 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
   } catch (e: any) {
     return NextResponse.json({ success: false, message: e?.message || 'Unexpected error' }, { status: 500 })
   }
-}
+})
 
-export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+export const DELETE = withCsrf(async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
   const auth = await authenticateRequest(request)
   if (!auth.success || !auth.user) return NextResponse.json({ success: false, message: 'Authentication required' }, { status: 401 })
-  if (auth.user.role !== 0) return NextResponse.json({ success: false, message: 'Admin access required' }, { status: 403 })
+  if (!hasPermission(auth.user.permissions, 'content.write')) return NextResponse.json({ success: false, message: 'Insufficient permissions' }, { status: 403 })
 
   const parsedId = idParam.safeParse({ id: params.id })
   if (!parsedId.success) return NextResponse.json({ success: false, message: 'Invalid id' }, { status: 400 })
@@ -85,5 +60,5 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
   } catch (e: any) {
     return NextResponse.json({ success: false, message: e?.message || 'Unexpected error' }, { status: 500 })
   }
-}
+})
 
@@ -3,10 +3,13 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
 import { z } from 'zod'
 import shortLinksOperations from '@/hooks/managers/database/short-links'
 import { SecurityLogsController } from '@/hooks/managers/controller/Security/Logs'
 import { SecurityLogAction, SecurityLogSeverity } from '@/database/tables/cythro_dash_users_logs'
+import { authenticateRequest } from '@/lib/auth/middleware'
+import { hasPermission } from '@/lib/auth/permissions'
 
 const createSchema = z.object({
   slug: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/),
@@ -17,38 +20,10 @@ const createSchema = z.object({
 
 const listSchema = z.object({ page: z.coerce.number().min(1).optional(), limit: z.coerce.number().min(1).max(100).optional(), search: z.string().optional() })
 
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    const sessionToken = request.cookies.get('session_token')?.value
-    if (!sessionToken) return { success: false, error: 'No session token found' }
-    const userDataHeader = request.headers.get('x-user-data')
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader))
-        if (userData && userData.id && userData.username && userData.email) {
-          return { success: true, user: userData }
-        }
-      } catch {}
-    }
-    const userDataCookie = request.cookies.get('x_user_data')?.value
-    if (userDataCookie) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataCookie))
-        if (userData && userData.id && userData.username && userData.email) {
-          return { success: true, user: userData }
-        }
-      } catch {}
-    }
-    return { success: false, error: 'User identification required' }
-  } catch (e) {
-    return { success: false, error: 'Authentication failed' }
-  }
-}
-
 export async function GET(request: NextRequest) {
   const auth = await authenticateRequest(request)
   if (!auth.success || !auth.user) return NextResponse.json({ success: false, message: 'Authentication required' }, { status: 401 })
-  if (auth.user.role !== 0) return NextResponse.json({ success: false, message: 'Admin access required' }, { status: 403 })
+  if (!hasPermission(auth.user.permissions, 'content.read')) return NextResponse.json({ success: false, message: 'Insufficient permissions' }, { status: 403 })
 
   const url = new URL(request.url)
   const qp = Object.fromEntries(url.searchParams.entries())
@@ -59,10 +34,10 @@ export async function GET(request: NextRequest) {
   return NextResponse.json({ success: true, items, total, page, limit }, { status: 200 })
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   const auth = await authenticateRequest(request)
   if (!auth.success || !auth.user) return NextResponse.json({ success: false, message: 'Authentication required' }, { status: 401 })
-  if (auth.user.role !== 0) return NextResponse.json({ success: false, message: 'Admin access required' }, { status: 403 })
+  if (!hasPermission(auth.user.permissions, 'content.write')) return NextResponse.json({ success: false, message: 'Insufficient permissions' }, { status: 403 })
 
   try {
     const body = await request.json()
@@ -78,5 +53,5 @@ export async function POST(request: NextRequest) {
   } catch (e: any) {
     return NextResponse.json({ success: false, message: e?.message || 'Unexpected error' }, { status: 500 })
   }
-}
+})
 
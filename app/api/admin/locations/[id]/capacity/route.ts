@@ -8,59 +8,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { LocationController } from '@/hooks/managers/controller/Admin/LocationController';
-
-// Authentication function following the established pattern
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    // Get session token from cookies
-    const sessionToken = request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    // Validate session token format (should be hex string)
-    const hexTokenRegex = /^[a-f0-9]{64}$/i; // 32 bytes = 64 hex characters
-    if (!hexTokenRegex.test(sessionToken)) {
-      return {
-        success: false,
-        error: 'Invalid session token format'
-      };
-    }
-
-    // Get user information from request headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User identification required'
-    };
-
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
+import { authenticateRequest } from '@/lib/auth/middleware';
+import { hasPermission } from '@/lib/auth/permissions';
 
 /**
  * GET /api/admin/locations/[id]/capacity
@@ -81,10 +30,10 @@ export async function GET(
     }
 
     // Check admin role
-    if (authResult.user.role !== 0) {
+    if (!hasPermission(authResult.user.permissions, 'locations.read')) {
       return NextResponse.json({
         success: false,
-        message: 'Admin access required'
+        message: 'Insufficient permissions'
       }, { status: 403 });
     }
 
@@ -7,8 +7,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { LocationController } from '@/hooks/managers/controller/Admin/LocationController';
 import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth/middleware';
+import { hasPermission } from '@/lib/auth/permissions';
 
 // Input validation schema for POST request (add node)
 const addNodeSchema = z.object({
@@ -20,64 +23,11 @@ const removeNodeSchema = z.object({
   node_id: z.number().int().min(1),
 });
 
-// Authentication function following the established pattern
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    // Get session token from cookies
-    const sessionToken = request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    // Validate session token format (should be hex string)
-    const hexTokenRegex = /^[a-f0-9]{64}$/i; // 32 bytes = 64 hex characters
-    if (!hexTokenRegex.test(sessionToken)) {
-      return {
-        success: false,
-        error: 'Invalid session token format'
-      };
-    }
-
-    // Get user information from request headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User identification required'
-    };
-
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
-
 /**
  * POST /api/admin/locations/[id]/nodes
  * Add a node to a location
  */
-export async function POST(
+export const POST = withCsrf(async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
@@ -92,10 +42,10 @@ export async function POST(
     }
 
     // Check admin role
-    if (authResult.user.role !== 0) {
+    if (!hasPermission(authResult.user.permissions, 'locations.write')) {
       return NextResponse.json({
         success: false,
-        message: 'Admin access required'
+        message: 'Insufficient permissions'
       }, { status: 403 });
     }
 
@@ -144,13 +94,13 @@ export async function POST(
       message: 'An unexpected error occurred while adding node to location'
     }, { status: 500 });
   }
-}
+});
 
 /**
  * DELETE /api/admin/locations/[id]/nodes
  * Remove a node from a location
  */
-export async function DELETE(
+export const DELETE = withCsrf(async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
@@ -165,10 +115,10 @@ export async function DELETE(
     }
 
     // Check admin role
-    if (authResult.user.role !== 0) {
+    if (!hasPermission(authResult.user.permissions, 'locations.write')) {
       return NextResponse.json({
         success: false,
-        message: 'Admin access required'
+        message: 'Insufficient permissions'
       }, { status: 403 });
     }
 
@@ -217,4 +167,4 @@ export async function DELETE(
       message: 'An unexpected error occurred while removing node from location'
     }, { status: 500 });
   }
-}
+});
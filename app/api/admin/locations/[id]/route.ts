@@ -7,10 +7,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { LocationController, UpdateLocationRequest } from '@/hooks/managers/controller/Admin/LocationController';
-import { LocationStatus, LocationVisibility } from '@/database/tables/cythro_dash_locations';
+import { LocationStatus, LocationVisibility, NodePlacementStrategy } from '@/database/tables/cythro_dash_locations';
 import { z } from 'zod';
-import { requireAdmin } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/middleware';
 
 // Input validation schema for PATCH request
 const updateLocationSchema = z.object({
@@ -27,6 +28,11 @@ const updateLocationSchema = z.object({
   priority: z.number().int().min(0).optional(),
   max_servers_per_user: z.number().int().min(1).optional(),
   allowed_server_types: z.array(z.string()).optional(),
+  placement: z.object({
+    strategy: z.nativeEnum(NodePlacementStrategy),
+    node_weights: z.record(z.string().regex(/^\d+$/), z.number().min(0).max(10)).optional(),
+    anti_affinity: z.boolean().optional(),
+  }).optional(),
   features: z.object({
     ddos_protection: z.boolean().optional(),
     backup_storage: z.boolean().optional(),
@@ -53,7 +59,7 @@ export async function GET(
 ) {
   try {
     // Apply authentication
-    const admin = await requireAdmin(request);
+    const admin = await requirePermission(request, 'locations.read');
     if (!admin.success) return admin.response!;
 
     // Await params before accessing properties
@@ -100,13 +106,13 @@ export async function GET(
  * PATCH /api/admin/locations/[id]
  * Update location information
  */
-export async function PATCH(
+export const PATCH = withCsrf(async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     // Apply authentication
-    const admin = await requireAdmin(request);
+    const admin = await requirePermission(request, 'locations.write');
     if (!admin.success) return admin.response!;
 
     // Await params before accessing properties
@@ -160,19 +166,19 @@ export async function PATCH(
       message: 'An unexpected error occurred while updating location'
     }, { status: 500 });
   }
-}
+});
 
 /**
  * DELETE /api/admin/locations/[id]
  * Delete (disable) a location
  */
-export async function DELETE(
+export const DELETE = withCsrf(async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     // Apply authentication
-    const admin = await requireAdmin(request);
+    const admin = await requirePermission(request, 'locations.write');
     if (!admin.success) return admin.response!;
 
     // Await params before accessing properties
@@ -211,4 +217,4 @@ export async function DELETE(
       message: 'An unexpected error occurred while deleting location'
     }, { status: 500 });
   }
-}
+});
@@ -7,12 +7,13 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { LocationController, GetLocationsRequest, CreateLocationRequest } from '@/hooks/managers/controller/Admin/LocationController';
-import { LocationStatus, LocationVisibility } from '@/database/tables/cythro_dash_locations';
+import { LocationStatus, LocationVisibility, NodePlacementStrategy } from '@/database/tables/cythro_dash_locations';
 import { z } from 'zod';
 import { getCache, setCache, makeKey, shouldBypassCache, makeETagFromObject } from '@/lib/ttlCache'
 import { compressedJson } from '@/lib/compress'
-import { requireAdmin } from '@/lib/auth/middleware'
+import { requirePermission } from '@/lib/auth/middleware'
 
 // Input validation schema for GET request
 const getLocationsSchema = z.object({
@@ -42,6 +43,11 @@ const createLocationSchema = z.object({
   priority: z.number().int().min(0).optional(),
   max_servers_per_user: z.number().int().min(1).optional(),
   allowed_server_types: z.array(z.string()).optional(),
+  placement: z.object({
+    strategy: z.nativeEnum(NodePlacementStrategy),
+    node_weights: z.record(z.string().regex(/^\d+$/), z.number().min(0).max(10)).optional(),
+    anti_affinity: z.boolean().optional(),
+  }).optional(),
   features: z.object({
     ddos_protection: z.boolean().optional(),
     backup_storage: z.boolean().optional(),
@@ -65,7 +71,7 @@ const createLocationSchema = z.object({
 export async function GET(request: NextRequest) {
   try {
     // Apply authentication
-    const admin = await requireAdmin(request)
+    const admin = await requirePermission(request, 'locations.read')
     if (!admin.success) return admin.response!
 
     // Parse and validate query parameters
@@ -120,10 +126,10 @@ export async function GET(request: NextRequest) {
  * POST /api/admin/locations
  * Create a new location
  */
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     // Apply authentication
-    const admin = await requireAdmin(request);
+    const admin = await requirePermission(request, 'locations.write');
     if (!admin.success) return admin.response!;
 
     // Parse and validate request body
@@ -165,4 +171,4 @@ export async function POST(request: NextRequest) {
       message: 'An unexpected error occurred while creating location'
     }, { status: 500 });
   }
-}
+});
@@ -0,0 +1,27 @@
+/**
+ * CythroDash - Cancel Server Migration API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
+import { SessionUser, withAuth } from '@/lib/auth/middleware'
+import { MIGRATION_ERROR_STATUS, ServerMigrationController } from '@/hooks/managers/controller/User/server-migration'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * POST /api/admin/migrations/[id]/cancel
+ * Roll back a migration that has not been handed to the panel transfer yet
+ */
+export const POST = withCsrf(withAuth(async function POST(_request: NextRequest, admin: SessionUser, { params }: RouteContext) {
+  try {
+    const result = await ServerMigrationController.cancel((await params).id, admin.id)
+    if (!result.success) {
+      return NextResponse.json(result, { status: result.error ? MIGRATION_ERROR_STATUS[result.error] : 500 })
+    }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('POST /api/admin/migrations/[id]/cancel error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+}, { permission: 'servers.write' }))
@@ -0,0 +1,27 @@
+/**
+ * CythroDash - Delete Retained Migration Source API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
+import { SessionUser, withAuth } from '@/lib/auth/middleware'
+import { MIGRATION_ERROR_STATUS, ServerMigrationController } from '@/hooks/managers/controller/User/server-migration'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * POST /api/admin/migrations/[id]/delete-source
+ * Delete the suspended old server a recreate migration kept
+ */
+export const POST = withCsrf(withAuth(async function POST(_request: NextRequest, admin: SessionUser, { params }: RouteContext) {
+  try {
+    const result = await ServerMigrationController.deleteRetainedSource((await params).id, admin.id)
+    if (!result.success) {
+      return NextResponse.json(result, { status: result.error ? MIGRATION_ERROR_STATUS[result.error] : 500 })
+    }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('POST /api/admin/migrations/[id]/delete-source error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+}, { permission: 'servers.write' }))
@@ -0,0 +1,37 @@
+/**
+ * CythroDash - Server Migrations API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { SessionUser, withAuth } from '@/lib/auth/middleware'
+import { ServerMigrationController, toMigrationView } from '@/hooks/managers/controller/User/server-migration'
+import { serverMigrationsOperations } from '@/hooks/managers/database/server-migrations'
+
+const listSchema = z.object({
+  active: z.enum(['true', 'false']).optional().transform(v => v === undefined ? undefined : v === 'true'),
+  server_id: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(50),
+})
+
+/**
+ * GET /api/admin/migrations?active=true
+ * Server migrations, newest first, and whether migrations currently copy files
+ */
+export const GET = withAuth(async function GET(request: NextRequest, _admin: SessionUser) {
+  try {
+    const parsed = listSchema.safeParse(Object.fromEntries(new URL(request.url).searchParams))
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, message: 'Invalid query parameters', errors: parsed.error.errors }, { status: 400 })
+    }
+
+    const [migrations, modeInfo] = await Promise.all([
+      serverMigrationsOperations.list(parsed.data),
+      ServerMigrationController.getModeInfo()
+    ])
+    return NextResponse.json({ success: true, ...modeInfo, migrations: migrations.map(toMigrationView) })
+  } catch (error) {
+    console.error('GET /api/admin/migrations error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+}, { permission: 'servers.read' })
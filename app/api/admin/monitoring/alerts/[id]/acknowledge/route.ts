@@ -0,0 +1,25 @@
+/**
+ * CythroDash - Acknowledge Capacity Alert API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
+import { SessionUser, withAuth } from '@/lib/auth/middleware'
+import { capacityAlertsOperations } from '@/hooks/managers/database/capacity-alerts'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * POST /api/admin/monitoring/alerts/[id]/acknowledge
+ * Mark an open alert as seen; it stays open until the location recovers
+ */
+export const POST = withCsrf(withAuth(async function POST(_request: NextRequest, admin: SessionUser, { params }: RouteContext) {
+  try {
+    const acknowledged = await capacityAlertsOperations.acknowledge((await params).id, admin.id)
+    if (!acknowledged) return NextResponse.json({ success: false, message: 'Alert not found or already resolved' }, { status: 404 })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('POST /api/admin/monitoring/alerts/[id]/acknowledge error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+}, { permission: 'locations.write' }))
@@ -0,0 +1,32 @@
+/**
+ * CythroDash - Capacity Alerts API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { SessionUser, withAuth } from '@/lib/auth/middleware'
+import { capacityAlertsOperations } from '@/hooks/managers/database/capacity-alerts'
+
+const listSchema = z.object({
+  include_resolved: z.enum(['true', 'false']).optional().transform(v => v === 'true'),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(100),
+})
+
+/**
+ * GET /api/admin/monitoring/alerts?include_resolved=true
+ * Open capacity alerts, newest first, optionally with recently resolved ones
+ */
+export const GET = withAuth(async function GET(request: NextRequest, _admin: SessionUser) {
+  try {
+    const parsed = listSchema.safeParse(Object.fromEntries(new URL(request.url).searchParams))
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, message: 'Invalid query parameters', errors: parsed.error.errors }, { status: 400 })
+    }
+
+    const alerts = await capacityAlertsOperations.list(parsed.data)
+    return NextResponse.json({ success: true, alerts: alerts.map(({ _id, ...alert }) => ({ id: String(_id), ...alert })) })
+  } catch (error) {
+    console.error('GET /api/admin/monitoring/alerts error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+}, { permission: 'locations.read' })
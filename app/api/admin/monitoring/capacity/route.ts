@@ -7,9 +7,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitHeaders, rateLimitExceededResponse } from '@/lib/security/rate-limit';
 import { NodeMonitorService } from '@/hooks/managers/monitoring/node-monitor';
 import { CapacityCalculator } from '@/hooks/managers/monitoring/capacity-calculator';
 import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth/middleware';
+import { hasPermission } from '@/lib/auth/permissions';
 
 // Input validation schema for GET request
 const getCapacitySchema = z.object({
@@ -25,125 +28,16 @@ const getCapacitySchema = z.object({
   required_cpu: z.coerce.number().min(0).optional(),
 });
 
-// Authentication function following the established pattern
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    // Get session token from cookies or Authorization header
-    const authHeader = request.headers.get('authorization');
-    const sessionToken = authHeader?.replace('Bearer ', '') ||
-                        request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    // Validate session token format (should be hex string)
-    const hexTokenRegex = /^[a-f0-9]{64}$/i; // 32 bytes = 64 hex characters
-    if (!hexTokenRegex.test(sessionToken)) {
-      return {
-        success: false,
-        error: 'Invalid session token format'
-      };
-    }
-
-    // Get user information from request headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User identification required'
-    };
-
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
-
-// Rate limiting check (simple implementation)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
-const RATE_LIMIT_MAX_REQUESTS = 30; // 30 requests per minute (lower for monitoring)
-
-function checkRateLimit(clientIP: string): { allowed: boolean; remaining: number; resetTime: number } {
-  const now = Date.now();
-  const clientData = rateLimitMap.get(clientIP);
-
-  if (!clientData || now > clientData.resetTime) {
-    // Reset or initialize rate limit
-    rateLimitMap.set(clientIP, {
-      count: 1,
-      resetTime: now + RATE_LIMIT_WINDOW
-    });
-    return {
-      allowed: true,
-      remaining: RATE_LIMIT_MAX_REQUESTS - 1,
-      resetTime: now + RATE_LIMIT_WINDOW
-    };
-  }
-
-  if (clientData.count >= RATE_LIMIT_MAX_REQUESTS) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetTime: clientData.resetTime
-    };
-  }
-
-  clientData.count++;
-  return {
-    allowed: true,
-    remaining: RATE_LIMIT_MAX_REQUESTS - clientData.count,
-    resetTime: clientData.resetTime
-  };
-}
-
 /**
  * GET /api/admin/monitoring/capacity
  * Retrieve real-time capacity information for nodes and locations
  */
 export async function GET(request: NextRequest) {
   try {
-    // Get client IP for rate limiting
-    const clientIP = request.headers.get('x-forwarded-for') || 
-                    request.headers.get('x-real-ip') || 
-                    'unknown';
-
     // Check rate limit
-    const rateLimitResult = checkRateLimit(clientIP);
+    const rateLimitResult = await checkRateLimit(request, 'MONITORING');
     if (!rateLimitResult.allowed) {
-      return NextResponse.json({
-        success: false,
-        message: 'Rate limit exceeded. Please try again later.',
-        error: 'RATE_LIMIT_EXCEEDED'
-      }, { 
-        status: 429,
-        headers: {
-          'X-RateLimit-Limit': RATE_LIMIT_MAX_REQUESTS.toString(),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': Math.ceil(rateLimitResult.resetTime / 1000).toString()
-        }
-      });
+      return rateLimitExceededResponse(rateLimitResult, 'Rate limit exceeded. Please try again later.');
     }
 
     // Apply authentication
@@ -155,8 +49,8 @@ export async function GET(request: NextRequest) {
       }, { status: 401 });
     }
 
-    // Check admin permissions (role 0 = admin)
-    if (authResult.user.role !== 0) {
+    // Check admin permissions
+    if (!hasPermission(authResult.user.permissions, 'locations.read')) {
       return NextResponse.json({
         success: false,
         message: 'Admin access required for capacity monitoring'
@@ -319,9 +213,7 @@ export async function GET(request: NextRequest) {
 
     // Set rate limit headers
     const responseHeaders = {
-      'X-RateLimit-Limit': RATE_LIMIT_MAX_REQUESTS.toString(),
-      'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-      'X-RateLimit-Reset': Math.ceil(rateLimitResult.resetTime / 1000).toString(),
+      ...rateLimitHeaders(rateLimitResult),
       'Cache-Control': 'no-cache, no-store, must-revalidate',
       'Pragma': 'no-cache',
       'Expires': '0'
@@ -0,0 +1,22 @@
+/**
+ * CythroDash - Capacity Forecast API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { SessionUser, withAuth } from '@/lib/auth/middleware'
+import { CapacityForecaster } from '@/hooks/managers/monitoring/capacity-forecast'
+import { getCapacityPolicy } from '@/lib/capacity-policy'
+
+/**
+ * GET /api/admin/monitoring/forecast
+ * Days until full per location and resource, with the alert thresholds in force
+ */
+export const GET = withAuth(async function GET(_request: NextRequest, _admin: SessionUser) {
+  try {
+    const [forecasts, policy] = await Promise.all([CapacityForecaster.forecastAll(), getCapacityPolicy()])
+    return NextResponse.json({ success: true, forecasts, policy })
+  } catch (error) {
+    console.error('GET /api/admin/monitoring/forecast error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+}, { permission: 'locations.read' })
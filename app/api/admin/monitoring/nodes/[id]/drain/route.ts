@@ -0,0 +1,47 @@
+/**
+ * CythroDash - Drain Node API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withCsrf } from '@/lib/security/csrf'
+import { SessionUser, withAuth } from '@/lib/auth/middleware'
+import { hasPermission } from '@/lib/auth/permissions'
+import { MIGRATION_ERROR_STATUS, ServerMigrationController } from '@/hooks/managers/controller/User/server-migration'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const drainSchema = z.object({
+  target_location_id: z.string().min(1).optional(),
+  acknowledge_data_loss: z.boolean().optional(),
+})
+
+/**
+ * POST /api/admin/monitoring/nodes/[id]/drain
+ * Body: { target_location_id?: string, acknowledge_data_loss?: boolean }. Stops placement on the
+ * node and queues a migration for every server on it; the lifecycle cron works through the queue.
+ * Recreate mode is refused unless the data loss is acknowledged.
+ */
+export const POST = withCsrf(withAuth(async function POST(request: NextRequest, admin: SessionUser, { params }: RouteContext) {
+  try {
+    // Draining also moves servers, so it needs both permissions
+    if (!hasPermission(admin.permissions, 'servers.write')) {
+      return NextResponse.json({ success: false, message: 'Insufficient permissions', error: 'INSUFFICIENT_PERMISSIONS', required_permission: 'servers.write' }, { status: 403 })
+    }
+    const nodeId = Number((await params).id)
+    if (!Number.isInteger(nodeId) || nodeId <= 0) {
+      return NextResponse.json({ success: false, message: 'Invalid node id' }, { status: 400 })
+    }
+    const parsed = drainSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, message: 'Invalid request data', errors: parsed.error.errors }, { status: 400 })
+    }
+
+    const result = await ServerMigrationController.drainNode(nodeId, admin.id, parsed.data.target_location_id, parsed.data.acknowledge_data_loss)
+    if (result.error) return NextResponse.json(result, { status: MIGRATION_ERROR_STATUS[result.error] })
+    return NextResponse.json(result, { status: result.success ? 200 : 404 })
+  } catch (error) {
+    console.error('POST /api/admin/monitoring/nodes/[id]/drain error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+}, { permission: 'locations.write' }))
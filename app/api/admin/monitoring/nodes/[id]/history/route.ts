@@ -0,0 +1,38 @@
+/**
+ * CythroDash - Node Stats History API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { SessionUser, withAuth } from '@/lib/auth/middleware'
+import { NodeStatsCollector, NODE_STATS_RANGES } from '@/hooks/managers/monitoring/node-stats-collector'
+
+const historySchema = z.object({
+  range: z.enum(NODE_STATS_RANGES).optional().default('24h'),
+})
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * GET /api/admin/monitoring/nodes/[id]/history?range=24h|7d|30d|180d
+ * Memory, disk, server and health trend of one Pterodactyl node
+ */
+export const GET = withAuth(async function GET(request: NextRequest, _admin: SessionUser, { params }: RouteContext) {
+  try {
+    const nodeId = Number((await params).id)
+    if (!Number.isInteger(nodeId) || nodeId < 1) {
+      return NextResponse.json({ success: false, message: 'Invalid node id' }, { status: 400 })
+    }
+
+    const parsed = historySchema.safeParse(Object.fromEntries(new URL(request.url).searchParams))
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, message: 'Invalid query parameters', errors: parsed.error.errors }, { status: 400 })
+    }
+
+    const history = await NodeStatsCollector.getNodeHistory(nodeId, parsed.data.range)
+    return NextResponse.json({ success: true, node_id: nodeId, ...history })
+  } catch (error) {
+    console.error('GET /api/admin/monitoring/nodes/[id]/history error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+}, { permission: 'locations.read' })
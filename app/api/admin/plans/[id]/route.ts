@@ -7,9 +7,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { PlanController, UpdatePlanRequest } from '@/hooks/managers/controller/Admin/PlanController';
 import { PlanStatus, BillingCycle } from '@/database/tables/cythro_dash_plans';
 import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth/middleware';
+import { hasPermission } from '@/lib/auth/permissions';
 
 // Input validation schema for PATCH request
 const updatePlanSchema = z.object({
@@ -68,61 +71,13 @@ const updatePlanSchema = z.object({
     valid_until: z.string().datetime().optional(),
     promo_code: z.string().optional(),
   }).optional(),
+  lifecycle: z.object({
+    suspend_grace_hours: z.number().min(0).optional(),
+    delete_after_hours: z.number().min(0).optional(),
+    data_retention_hours: z.number().min(0).optional(),
+  }).optional(),
 });
 
-// Authentication function following the established pattern
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    // Get session token from cookies
-    const sessionToken = request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    // Validate session token format (should be hex string)
-    const hexTokenRegex = /^[a-f0-9]{64}$/i; // 32 bytes = 64 hex characters
-    if (!hexTokenRegex.test(sessionToken)) {
-      return {
-        success: false,
-        error: 'Invalid session token format'
-      };
-    }
-
-    // Get user information from request headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User identification required'
-    };
-
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
-
 /**
  * GET /api/admin/plans/[id]
  * Get individual plan details
@@ -142,10 +97,10 @@ export async function GET(
     }
 
     // Check admin role
-    if (authResult.user.role !== 0) {
+    if (!hasPermission(authResult.user.permissions, 'plans.read')) {
       return NextResponse.json({
         success: false,
-        message: 'Admin access required'
+        message: 'Insufficient permissions'
       }, { status: 403 });
     }
 
@@ -193,7 +148,7 @@ export async function GET(
  * PATCH /api/admin/plans/[id]
  * Update plan information
  */
-export async function PATCH(
+export const PATCH = withCsrf(async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
@@ -208,10 +163,10 @@ export async function PATCH(
     }
 
     // Check admin role
-    if (authResult.user.role !== 0) {
+    if (!hasPermission(authResult.user.permissions, 'plans.write')) {
       return NextResponse.json({
         success: false,
-        message: 'Admin access required'
+        message: 'Insufficient permissions'
       }, { status: 403 });
     }
 
@@ -274,13 +229,13 @@ export async function PATCH(
       message: 'An unexpected error occurred while updating plan'
     }, { status: 500 });
   }
-}
+});
 
 /**
  * DELETE /api/admin/plans/[id]
  * Delete (disable) a plan
  */
-export async function DELETE(
+export const DELETE = withCsrf(async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
@@ -295,10 +250,10 @@ export async function DELETE(
     }
 
     // Check admin role
-    if (authResult.user.role !== 0) {
+    if (!hasPermission(authResult.user.permissions, 'plans.write')) {
       return NextResponse.json({
         success: false,
-        message: 'Admin access required'
+        message: 'Insufficient permissions'
       }, { status: 403 });
     }
 
@@ -338,4 +293,4 @@ export async function DELETE(
       message: 'An unexpected error occurred while deleting plan'
     }, { status: 500 });
   }
-}
+});
@@ -7,11 +7,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { PlanController, GetPlansRequest, CreatePlanRequest } from '@/hooks/managers/controller/Admin/PlanController';
 import { PlanStatus, BillingCycle } from '@/database/tables/cythro_dash_plans';
 import { z } from 'zod';
 import { getCache, setCache, makeKey, shouldBypassCache, makeETagFromObject } from '@/lib/ttlCache'
 import { compressedJson } from '@/lib/compress'
+import { authenticateRequest } from '@/lib/auth/middleware';
+import { hasPermission } from '@/lib/auth/permissions';
 
 // Input validation schema for GET request
 const getPlansSchema = z.object({
@@ -89,61 +92,13 @@ const createPlanSchema = z.object({
     valid_until: z.string().datetime().optional(),
     promo_code: z.string().optional(),
   }).optional(),
+  lifecycle: z.object({
+    suspend_grace_hours: z.number().min(0).optional(),
+    delete_after_hours: z.number().min(0).optional(),
+    data_retention_hours: z.number().min(0).optional(),
+  }).optional(),
 });
 
-// Authentication function following the established pattern
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    // Get session token from cookies
-    const sessionToken = request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    // Validate session token format (should be hex string)
-    const hexTokenRegex = /^[a-f0-9]{64}$/i; // 32 bytes = 64 hex characters
-    if (!hexTokenRegex.test(sessionToken)) {
-      return {
-        success: false,
-        error: 'Invalid session token format'
-      };
-    }
-
-    // Get user information from request headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User identification required'
-    };
-
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
-
 /**
  * GET /api/admin/plans
  * Retrieve plans with filtering, pagination, and sorting
@@ -156,9 +111,9 @@ export async function GET(request: NextRequest) {
       return compressedJson(request, { success: false, message: 'Authentication required' }, 401)
     }
 
-    // Check admin permissions (role 0 = admin)
-    if (authResult.user.role !== 0) {
-      return compressedJson(request, { success: false, message: 'Admin access required' }, 403)
+    // Check admin permissions
+    if (!hasPermission(authResult.user.permissions, 'plans.read')) {
+      return compressedJson(request, { success: false, message: 'Insufficient permissions' }, 403)
     }
 
     // Parse and validate query parameters
@@ -212,7 +167,7 @@ export async function GET(request: NextRequest) {
  * POST /api/admin/plans
  * Create a new plan
  */
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     // Apply authentication
     const authResult = await authenticateRequest(request);
@@ -223,11 +178,11 @@ export async function POST(request: NextRequest) {
       }, { status: 401 });
     }
 
-    // Check admin permissions (role 0 = admin)
-    if (authResult.user.role !== 0) {
+    // Check admin permissions
+    if (!hasPermission(authResult.user.permissions, 'plans.write')) {
       return NextResponse.json({
         success: false,
-        message: 'Admin access required'
+        message: 'Insufficient permissions'
       }, { status: 403 });
     }
 
@@ -278,4 +233,4 @@ export async function POST(request: NextRequest) {
       message: 'An unexpected error occurred while creating plan'
     }, { status: 500 });
   }
-}
+});
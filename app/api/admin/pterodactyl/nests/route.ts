@@ -1,30 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { panelNestGetAll } from '@/hooks/managers/pterodactyl/nests'
-
-// Helper function to check admin authentication
-function checkAdminAuth(request: NextRequest) {
-  try {
-    const userDataHeader = request.headers.get('x-user-data')
-    if (!userDataHeader) {
-      return { success: false, error: 'Authentication required' }
-    }
-
-    const userData = JSON.parse(decodeURIComponent(userDataHeader))
-    if (!userData || userData.role !== 0) {
-      return { success: false, error: 'Admin access required' }
-    }
-
-    return { success: true, user: userData }
-  } catch (error) {
-    return { success: false, error: 'Invalid authentication data' }
-  }
-}
+import { requirePermission } from '@/lib/auth/middleware'
 
 // GET /api/admin/pterodactyl/nests - Get all Pterodactyl nests
 export async function GET(request: NextRequest) {
   try {
     // Check authentication
-    const authResult = checkAdminAuth(request)
+    const authResult = await requirePermission(request, 'plans.read')
     if (!authResult.success) {
       return NextResponse.json(
         { success: false, message: authResult.error },
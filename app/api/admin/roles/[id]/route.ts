@@ -0,0 +1,51 @@
+/**
+ * CythroDash - Admin Role API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withCsrf } from '@/lib/security/csrf'
+import { SessionUser, withAuth } from '@/lib/auth/middleware'
+import { RoleController } from '@/hooks/managers/controller/Admin/RoleController'
+
+const updateRoleSchema = z.object({
+  name: z.string().min(2).max(50).optional(),
+  description: z.string().max(200).optional(),
+  permissions: z.array(z.string()).max(100).optional(),
+})
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+/**
+ * PATCH /api/admin/roles/[id]
+ * Rename a role or change its permissions; takes effect on the holders' next request
+ */
+export const PATCH = withCsrf(withAuth(async function PATCH(request: NextRequest, admin: SessionUser, { params }: RouteContext) {
+  try {
+    const parsed = updateRoleSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, message: 'Invalid input', errors: parsed.error.errors }, { status: 400 })
+    }
+
+    const result = await RoleController.updateRole(admin, (await params).id, parsed.data)
+    if (!result.success) return NextResponse.json({ success: false, message: result.message }, { status: result.not_found ? 404 : 400 })
+    return NextResponse.json({ success: true, role: result.role })
+  } catch (error) {
+    console.error('PATCH /api/admin/roles/[id] error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+}, { permission: 'roles.manage' }))
+
+/**
+ * DELETE /api/admin/roles/[id]
+ * Delete a custom role nobody holds any more
+ */
+export const DELETE = withCsrf(withAuth(async function DELETE(_request: NextRequest, admin: SessionUser, { params }: RouteContext) {
+  try {
+    const result = await RoleController.deleteRole(admin.id, (await params).id)
+    return NextResponse.json(result, { status: result.success ? 200 : result.not_found ? 404 : 400 })
+  } catch (error) {
+    console.error('DELETE /api/admin/roles/[id] error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+}, { permission: 'roles.manage' }))
@@ -0,0 +1,52 @@
+/**
+ * CythroDash - Admin Roles API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withCsrf } from '@/lib/security/csrf'
+import { SessionUser, withAuth } from '@/lib/auth/middleware'
+import { PERMISSIONS } from '@/lib/auth/permissions'
+import { RoleController } from '@/hooks/managers/controller/Admin/RoleController'
+
+const createRoleSchema = z.object({
+  id: z.string().min(2).max(32),
+  name: z.string().min(2).max(50),
+  description: z.string().max(200).optional(),
+  permissions: z.array(z.string()).max(100),
+})
+
+/**
+ * GET /api/admin/roles
+ * Roles with how many users hold each, and the permissions a role can grant
+ */
+export const GET = withAuth(async function GET() {
+  try {
+    const roles = await RoleController.listRoles()
+    return NextResponse.json({ success: true, roles, permissions: PERMISSIONS })
+  } catch (error) {
+    console.error('GET /api/admin/roles error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+}, { permission: 'roles.manage' })
+
+/**
+ * POST /api/admin/roles
+ * Create a custom role
+ */
+export const POST = withCsrf(withAuth(async function POST(request: NextRequest, admin: SessionUser) {
+  try {
+    const parsed = createRoleSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, message: 'Invalid input', errors: parsed.error.errors }, { status: 400 })
+    }
+
+    const { id, ...data } = parsed.data
+    const result = await RoleController.createRole(admin, id, data)
+    if (!result.success) return NextResponse.json({ success: false, message: result.message }, { status: 400 })
+    return NextResponse.json({ success: true, role: result.role }, { status: 201 })
+  } catch (error) {
+    console.error('POST /api/admin/roles error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+}, { permission: 'roles.manage' }))
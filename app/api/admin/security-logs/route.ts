@@ -6,36 +6,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { userLogsOperations } from '@/hooks/managers/database/user-logs'
 import { SecurityLogAction, SecurityLogSeverity, SecurityLogStatus } from '@/database/tables/cythro_dash_users_logs'
-
-// Reuse auth pattern from other admin routes
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    const sessionToken = request.cookies.get('session_token')?.value
-    if (!sessionToken) return { success: false, error: 'No session token found' }
-
-    const userDataHeader = request.headers.get('x-user-data')
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader))
-        if (userData && userData.id && userData.username && userData.email) {
-          return { success: true, user: userData }
-        }
-      } catch {}
-    }
-    const userDataCookie = request.cookies.get('x_user_data')?.value
-    if (userDataCookie) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataCookie))
-        if (userData && userData.id && userData.username && userData.email) {
-          return { success: true, user: userData }
-        }
-      } catch {}
-    }
-    return { success: false, error: 'User identification required' }
-  } catch (e) {
-    return { success: false, error: 'Authentication failed' }
-  }
-}
+import { authenticateRequest } from '@/lib/auth/middleware'
+import { hasPermission } from '@/lib/auth/permissions'
 
 const querySchema = z.object({
   page: z.coerce.number().min(1).optional(),
@@ -72,8 +44,8 @@ export async function GET(request: NextRequest) {
     if (!auth.success || !auth.user) {
       return NextResponse.json({ success: false, message: 'Authentication required' }, { status: 401 })
     }
-    if (auth.user.role !== 0) {
-      return NextResponse.json({ success: false, message: 'Admin access required' }, { status: 403 })
+    if (!hasPermission(auth.user.permissions, 'security.read')) {
+      return NextResponse.json({ success: false, message: 'Insufficient permissions' }, { status: 403 })
     }
 
     const url = new URL(request.url)
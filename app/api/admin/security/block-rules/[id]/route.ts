@@ -0,0 +1,62 @@
+/**
+ * Admin: Update / Delete Automatic IP Block Rule
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
+import { z } from 'zod'
+import { IPBlockingController } from '@/hooks/managers/controller/Admin/IPBlockingController'
+import { authenticateRequest } from '@/lib/auth/middleware'
+import { hasPermission } from '@/lib/auth/permissions'
+import { SecurityLogAction } from '@/database/tables/cythro_dash_users_logs'
+
+const updateSchema = z.object({
+  name: z.string().min(3).max(100).optional(),
+  enabled: z.boolean().optional(),
+  trigger: z.enum(['security_log', 'referral_click', 'rate_limit']).optional(),
+  action: z.nativeEnum(SecurityLogAction).optional(),
+  min_risk_score: z.number().min(0).max(100).optional(),
+  threshold: z.number().int().min(1).max(10000).optional(),
+  window_minutes: z.number().int().min(1).max(7 * 24 * 60).optional(),
+  block_duration_minutes: z.number().int().min(1).max(365 * 24 * 60).optional(),
+})
+
+async function requireBlockPermission(request: NextRequest) {
+  const auth = await authenticateRequest(request)
+  if (!auth.success || !auth.user) return { error: NextResponse.json({ success: false, message: 'Authentication required' }, { status: 401 }) }
+  if (!hasPermission(auth.user.permissions, 'security.block_ip')) return { error: NextResponse.json({ success: false, message: 'Insufficient permissions' }, { status: 403 }) }
+  return { user: auth.user }
+}
+
+export const PATCH = withCsrf(async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireBlockPermission(request)
+  if (auth.error) return auth.error
+
+  try {
+    const id = Number((await params).id)
+    if (!Number.isInteger(id)) return NextResponse.json({ success: false, message: 'Invalid rule id' }, { status: 400 })
+    const body = await request.json()
+    const parsed = updateSchema.safeParse(body)
+    if (!parsed.success) return NextResponse.json({ success: false, message: 'Invalid payload', errors: parsed.error.errors }, { status: 400 })
+
+    const result = await IPBlockingController.updateRule(auth.user.id, id, parsed.data)
+    if (!result.success) return NextResponse.json({ success: false, message: result.message }, { status: result.not_found ? 404 : 400 })
+    return NextResponse.json({ success: true, rule: result.rule }, { status: 200 })
+  } catch (e: any) {
+    return NextResponse.json({ success: false, message: e?.message || 'Unexpected error' }, { status: 500 })
+  }
+})
+
+export const DELETE = withCsrf(async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireBlockPermission(request)
+  if (auth.error) return auth.error
+
+  try {
+    const id = Number((await params).id)
+    if (!Number.isInteger(id)) return NextResponse.json({ success: false, message: 'Invalid rule id' }, { status: 400 })
+    const result = await IPBlockingController.deleteRule(auth.user.id, id)
+    return NextResponse.json(result, { status: result.success ? 200 : 404 })
+  } catch (e: any) {
+    return NextResponse.json({ success: false, message: e?.message || 'Unexpected error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,53 @@
+/**
+ * Admin: Automatic IP Block Rules
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
+import { z } from 'zod'
+import { IPBlockingController } from '@/hooks/managers/controller/Admin/IPBlockingController'
+import { authenticateRequest } from '@/lib/auth/middleware'
+import { hasPermission } from '@/lib/auth/permissions'
+import { SecurityLogAction } from '@/database/tables/cythro_dash_users_logs'
+
+const ruleSchema = z.object({
+  name: z.string().min(3).max(100),
+  enabled: z.boolean().optional(),
+  trigger: z.enum(['security_log', 'referral_click', 'rate_limit']),
+  action: z.nativeEnum(SecurityLogAction).optional(),
+  min_risk_score: z.number().min(0).max(100).optional(),
+  threshold: z.number().int().min(1).max(10000),
+  window_minutes: z.number().int().min(1).max(7 * 24 * 60),
+  block_duration_minutes: z.number().int().min(1).max(365 * 24 * 60),
+})
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request)
+  if (!auth.success || !auth.user) return NextResponse.json({ success: false, message: 'Authentication required' }, { status: 401 })
+  if (!hasPermission(auth.user.permissions, 'security.read')) return NextResponse.json({ success: false, message: 'Insufficient permissions' }, { status: 403 })
+
+  try {
+    const rules = await IPBlockingController.listRules(auth.user.id)
+    return NextResponse.json({ success: true, rules }, { status: 200 })
+  } catch (e: any) {
+    return NextResponse.json({ success: false, message: e?.message || 'Unexpected error' }, { status: 500 })
+  }
+}
+
+export const POST = withCsrf(async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request)
+  if (!auth.success || !auth.user) return NextResponse.json({ success: false, message: 'Authentication required' }, { status: 401 })
+  if (!hasPermission(auth.user.permissions, 'security.block_ip')) return NextResponse.json({ success: false, message: 'Insufficient permissions' }, { status: 403 })
+
+  try {
+    const body = await request.json()
+    const parsed = ruleSchema.safeParse(body)
+    if (!parsed.success) return NextResponse.json({ success: false, message: 'Invalid payload', errors: parsed.error.errors }, { status: 400 })
+
+    const result = await IPBlockingController.createRule(auth.user.id, parsed.data)
+    if (!result.success) return NextResponse.json({ success: false, message: result.message }, { status: 400 })
+    return NextResponse.json({ success: true, rule: result.rule }, { status: 201 })
+  } catch (e: any) {
+    return NextResponse.json({ success: false, message: e?.message || 'Unexpected error' }, { status: 500 })
+  }
+})
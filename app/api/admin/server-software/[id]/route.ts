@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
 import { z } from 'zod'
 import { 
   SoftwareStability, 
@@ -12,6 +13,7 @@ import {
 } from '@/hooks/managers/database/server-software'
 import { panelNestGetAll } from '@/hooks/managers/pterodactyl/nests'
 import { panelEggGetAll } from '@/hooks/managers/pterodactyl/eggs'
+import { requirePermission } from '@/lib/auth/middleware'
 
 // Validation schemas
 const environmentVariableSchema = z.object({
@@ -95,25 +97,6 @@ const updateServerSoftwareSchema = z.object({
   last_modified_by: z.number().optional(),
 })
 
-// Helper function to check admin authentication
-function checkAdminAuth(request: NextRequest) {
-  try {
-    const userDataHeader = request.headers.get('x-user-data')
-    if (!userDataHeader) {
-      return { success: false, error: 'Authentication required' }
-    }
-
-    const userData = JSON.parse(decodeURIComponent(userDataHeader))
-    if (!userData || userData.role !== 0) {
-      return { success: false, error: 'Admin access required' }
-    }
-
-    return { success: true, user: userData }
-  } catch (error) {
-    return { success: false, error: 'Invalid authentication data' }
-  }
-}
-
 // GET /api/admin/server-software/[id] - Get a specific server software
 export async function GET(
   request: NextRequest,
@@ -121,7 +104,7 @@ export async function GET(
 ) {
   try {
     // Check authentication
-    const authResult = checkAdminAuth(request)
+    const authResult = await requirePermission(request, 'plans.read')
     if (!authResult.success) {
       return NextResponse.json(
         { success: false, message: authResult.error },
@@ -163,13 +146,13 @@ export async function GET(
 }
 
 // PATCH /api/admin/server-software/[id] - Update server software
-export async function PATCH(
+export const PATCH = withCsrf(async function PATCH(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
     // Check authentication
-    const authResult = checkAdminAuth(request)
+    const authResult = await requirePermission(request, 'plans.write')
     if (!authResult.success) {
       return NextResponse.json(
         { success: false, message: authResult.error },
@@ -402,16 +385,16 @@ export async function PATCH(
       { status: 500 }
     )
   }
-}
+})
 
 // DELETE /api/admin/server-software/[id] - Delete server software
-export async function DELETE(
+export const DELETE = withCsrf(async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
     // Check authentication
-    const authResult = checkAdminAuth(request)
+    const authResult = await requirePermission(request, 'plans.write')
     if (!authResult.success) {
       return NextResponse.json(
         { success: false, message: authResult.error },
@@ -455,4 +438,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
+})
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
 import { z } from 'zod'
 import {
   CythroDashServerSoftware,
@@ -13,6 +14,7 @@ import {
 import { serverSoftwareGetAll, serverSoftwareCreate } from '@/hooks/managers/database/server-software'
 import { getCache, setCache, makeKey, shouldBypassCache, makeETagFromObject } from '@/lib/ttlCache'
 import { compressedJson } from '@/lib/compress'
+import { requirePermission } from '@/lib/auth/middleware'
 
 // Validation schemas
 const environmentVariableSchema = z.object({
@@ -112,30 +114,11 @@ const getServerSoftwareSchema = z.object({
   include_stats: z.string().transform(val => val === 'true').default('false'),
 })
 
-// Helper function to check admin authentication
-function checkAdminAuth(request: NextRequest) {
-  try {
-    const userDataHeader = request.headers.get('x-user-data')
-    if (!userDataHeader) {
-      return { success: false, error: 'Authentication required' }
-    }
-
-    const userData = JSON.parse(decodeURIComponent(userDataHeader))
-    if (!userData || userData.role !== 0) {
-      return { success: false, error: 'Admin access required' }
-    }
-
-    return { success: true, user: userData }
-  } catch (error) {
-    return { success: false, error: 'Invalid authentication data' }
-  }
-}
-
 // GET /api/admin/server-software - Get all server software with filtering and pagination
 export async function GET(request: NextRequest) {
   try {
     // Check authentication
-    const authResult = checkAdminAuth(request)
+    const authResult = await requirePermission(request, 'plans.read')
     if (!authResult.success) {
       return compressedJson(request, { success: false, message: authResult.error }, 401)
     }
@@ -237,10 +220,10 @@ export async function GET(request: NextRequest) {
 }
 
 // POST /api/admin/server-software - Create new server software
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     // Check authentication
-    const authResult = checkAdminAuth(request)
+    const authResult = await requirePermission(request, 'plans.write')
     if (!authResult.success) {
       return NextResponse.json(
         { success: false, message: authResult.error },
@@ -307,4 +290,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
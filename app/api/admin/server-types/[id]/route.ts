@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
 import { z } from 'zod'
 import { 
   ServerTypeCategory, 
@@ -10,6 +11,7 @@ import {
   serverTypesUpdate, 
   serverTypesDelete 
 } from '@/hooks/managers/database/server-type'
+import { requirePermission } from '@/lib/auth/middleware'
 
 // Validation schemas
 const updateServerTypeSchema = z.object({
@@ -59,25 +61,6 @@ const updateServerTypeSchema = z.object({
   last_modified_by: z.number().optional(),
 })
 
-// Helper function to check admin authentication
-function checkAdminAuth(request: NextRequest) {
-  try {
-    const userDataHeader = request.headers.get('x-user-data')
-    if (!userDataHeader) {
-      return { success: false, error: 'Authentication required' }
-    }
-
-    const userData = JSON.parse(decodeURIComponent(userDataHeader))
-    if (!userData || userData.role !== 0) {
-      return { success: false, error: 'Admin access required' }
-    }
-
-    return { success: true, user: userData }
-  } catch (error) {
-    return { success: false, error: 'Invalid authentication data' }
-  }
-}
-
 // GET /api/admin/server-types/[id] - Get a specific server type
 export async function GET(
   request: NextRequest,
@@ -85,7 +68,7 @@ export async function GET(
 ) {
   try {
     // Check authentication
-    const authResult = checkAdminAuth(request)
+    const authResult = await requirePermission(request, 'plans.read')
     if (!authResult.success) {
       return NextResponse.json(
         { success: false, message: authResult.error },
@@ -127,13 +110,13 @@ export async function GET(
 }
 
 // PATCH /api/admin/server-types/[id] - Update a server type
-export async function PATCH(
+export const PATCH = withCsrf(async function PATCH(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
     // Check authentication
-    const authResult = checkAdminAuth(request)
+    const authResult = await requirePermission(request, 'plans.write')
     if (!authResult.success) {
       return NextResponse.json(
         { success: false, message: authResult.error },
@@ -276,16 +259,16 @@ export async function PATCH(
       { status: 500 }
     )
   }
-}
+})
 
 // DELETE /api/admin/server-types/[id] - Delete a server type
-export async function DELETE(
+export const DELETE = withCsrf(async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
     // Check authentication
-    const authResult = checkAdminAuth(request)
+    const authResult = await requirePermission(request, 'plans.write')
     if (!authResult.success) {
       return NextResponse.json(
         { success: false, message: authResult.error },
@@ -329,4 +312,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
+})
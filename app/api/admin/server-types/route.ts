@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
 import { z } from 'zod'
 import {
   CythroDashServerType,
@@ -10,6 +11,7 @@ import {
 import { serverTypesGetAll, serverTypesCreate } from '@/hooks/managers/database/server-type'
 import { getCache, setCache, makeKey, shouldBypassCache, makeETagFromObject } from '@/lib/ttlCache'
 import { compressedJson } from '@/lib/compress'
+import { requirePermission } from '@/lib/auth/middleware'
 
 // Validation schemas
 const createServerTypeSchema = z.object({
@@ -71,30 +73,11 @@ const getServerTypesSchema = z.object({
   include_stats: z.string().transform(val => val === 'true').default('false'),
 })
 
-// Helper function to check admin authentication
-function checkAdminAuth(request: NextRequest) {
-  try {
-    const userDataHeader = request.headers.get('x-user-data')
-    if (!userDataHeader) {
-      return { success: false, error: 'Authentication required' }
-    }
-
-    const userData = JSON.parse(decodeURIComponent(userDataHeader))
-    if (!userData || userData.role !== 0) {
-      return { success: false, error: 'Admin access required' }
-    }
-
-    return { success: true, user: userData }
-  } catch (error) {
-    return { success: false, error: 'Invalid authentication data' }
-  }
-}
-
 // GET /api/admin/server-types - Get all server types with filtering and pagination
 export async function GET(request: NextRequest) {
   try {
     // Check authentication
-    const authResult = checkAdminAuth(request)
+    const authResult = await requirePermission(request, 'plans.read')
     if (!authResult.success) {
       return compressedJson(request, { success: false, message: authResult.error }, 401)
     }
@@ -187,10 +170,10 @@ export async function GET(request: NextRequest) {
 }
 
 // POST /api/admin/server-types - Create a new server type
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     // Check authentication
-    const authResult = checkAdminAuth(request)
+    const authResult = await requirePermission(request, 'plans.write')
     if (!authResult.success) {
       return NextResponse.json(
         { success: false, message: authResult.error },
@@ -257,4 +240,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,60 @@
+/**
+ * CythroDash - Admin Server Migration API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withCsrf } from '@/lib/security/csrf'
+import { SessionUser, withAuth } from '@/lib/auth/middleware'
+import { MIGRATION_ERROR_STATUS, ServerMigrationController, toMigrationView } from '@/hooks/managers/controller/User/server-migration'
+import { serverMigrationsOperations } from '@/hooks/managers/database/server-migrations'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+const migrateSchema = z.object({
+  location_id: z.string().min(1).optional(),
+  node_id: z.coerce.number().int().positive().optional(),
+  acknowledge_data_loss: z.boolean().optional(),
+})
+
+/**
+ * GET /api/admin/servers/[id]/migrate
+ * Migration history of a server, newest first, and whether a migration now would copy its files
+ */
+export const GET = withAuth(async function GET(_request: NextRequest, _admin: SessionUser, { params }: RouteContext) {
+  try {
+    const [migrations, modeInfo] = await Promise.all([
+      serverMigrationsOperations.list({ server_id: (await params).id, limit: 50 }),
+      ServerMigrationController.getModeInfo()
+    ])
+    return NextResponse.json({ success: true, ...modeInfo, migrations: migrations.map(toMigrationView) })
+  } catch (error) {
+    console.error('GET /api/admin/servers/[id]/migrate error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+}, { permission: 'servers.read' })
+
+/**
+ * POST /api/admin/servers/[id]/migrate
+ * Body: { location_id?: string, node_id?: number, acknowledge_data_loss?: boolean }. Without a
+ * location the server changes node within its own location; without a node the location's
+ * placement strategy picks one. Recreate mode is refused unless the data loss is acknowledged.
+ */
+export const POST = withCsrf(withAuth(async function POST(request: NextRequest, admin: SessionUser, { params }: RouteContext) {
+  try {
+    const parsed = migrateSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, message: 'Invalid request data', errors: parsed.error.errors }, { status: 400 })
+    }
+
+    const { acknowledge_data_loss, ...target } = parsed.data
+    const result = await ServerMigrationController.requestByAdmin((await params).id, admin.id, target, acknowledge_data_loss)
+    if (!result.success) {
+      return NextResponse.json(result, { status: result.error ? MIGRATION_ERROR_STATUS[result.error] : 500 })
+    }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('POST /api/admin/servers/[id]/migrate error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+}, { permission: 'servers.write' }))
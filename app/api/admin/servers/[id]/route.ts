@@ -7,12 +7,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { z } from 'zod';
 import { serverOperations, UpdateServerData } from '@/hooks/managers/database/servers';
 import { ServerStatus, BillingStatus, PowerState } from '@/database/tables/cythro_dash_servers';
 import { getCache, setCache, makeKey, shouldBypassCache, makeETagFromObject } from '@/lib/ttlCache';
 import { compressedJson } from '@/lib/compress';
-import { requireAdmin } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/middleware';
+import { hasPermission } from '@/lib/auth/permissions';
 
 // Input validation schema for PATCH request (coercive and resilient)
 const updateServerSchema = z.object({
@@ -59,7 +61,7 @@ const updateServerSchema = z.object({
 export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
   try {
     // Apply authentication
-    const admin = await requireAdmin(request);
+    const admin = await requirePermission(request, 'servers.read');
     if (!admin.success) return admin.response!;
 
     const serverId = (await params).id;
@@ -136,10 +138,11 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
  * PATCH /api/admin/servers/[id]
  * Update server settings
  */
-export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+export const PATCH = withCsrf(async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
   try {
     // Apply authentication
-    const admin = await requireAdmin(request);
+    // Suspending and unsuspending only needs servers.suspend; anything else needs servers.write
+    const admin = await requirePermission(request, ['servers.write', 'servers.suspend']);
     if (!admin.success) return admin.response!;
 
     const serverId = (await params).id;
@@ -167,6 +170,17 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
 
     const updateData = validation.data as UpdateServerData;
 
+    const onlyStatus = Object.keys(updateData).every(key => key === 'status');
+    const isSuspendToggle = onlyStatus && (updateData.status === ServerStatus.SUSPENDED || updateData.status === ServerStatus.ACTIVE);
+    if (!isSuspendToggle && !hasPermission(admin.user.permissions, 'servers.write')) {
+      return NextResponse.json({
+        success: false,
+        message: 'Insufficient permissions',
+        error: 'INSUFFICIENT_PERMISSIONS',
+        required_permission: 'servers.write'
+      }, { status: 403 });
+    }
+
     // Update server in database
     const updateResult = await serverOperations.updateServer(serverId, updateData);
 
@@ -207,16 +221,16 @@ export async function PATCH(request: NextRequest, { params }: { params: { id: st
       message: 'An unexpected error occurred while updating server'
     }, { status: 500 });
   }
-}
+});
 
 /**
  * DELETE /api/admin/servers/[id]
  * Delete server (admin-initiated)
  */
-export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+export const DELETE = withCsrf(async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
   try {
     // Apply authentication
-    const admin = await requireAdmin(request);
+    const admin = await requirePermission(request, 'servers.write');
     if (!admin.success) return admin.response!;
 
     const serverId = (await params).id;
@@ -249,4 +263,4 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
       message: 'An unexpected error occurred while deleting server'
     }, { status: 500 });
   }
-}
+});
@@ -7,12 +7,13 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { z } from 'zod';
 import { serverOperations, ServerFilters } from '@/hooks/managers/database/servers';
 import { ServerStatus, BillingStatus, PowerState } from '@/database/tables/cythro_dash_servers';
 import { getCache, setCache, makeKey, shouldBypassCache, makeETagFromObject } from '@/lib/ttlCache';
 import { compressedJson } from '@/lib/compress';
-import { requireAdmin } from '@/lib/auth/middleware';
+import { requirePermission } from '@/lib/auth/middleware';
 
 // Input validation schema for GET request
 const getServersSchema = z.object({
@@ -53,7 +54,7 @@ const createServerSchema = z.object({
 export async function GET(request: NextRequest) {
   try {
     // Apply authentication
-    const admin = await requireAdmin(request);
+    const admin = await requirePermission(request, 'servers.read');
     if (!admin.success) return admin.response!;
 
     // Parse and validate query parameters
@@ -165,10 +166,10 @@ export async function GET(request: NextRequest) {
  * POST /api/admin/servers
  * Create a new server (admin-initiated)
  */
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     // Apply authentication
-    const admin = await requireAdmin(request);
+    const admin = await requirePermission(request, 'servers.write');
     if (!admin.success) return admin.response!;
 
     // Parse and validate request body
@@ -213,4 +214,4 @@ export async function POST(request: NextRequest) {
       message: 'An unexpected error occurred while creating server'
     }, { status: 500 });
   }
-}
+});
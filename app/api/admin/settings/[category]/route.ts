@@ -5,14 +5,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import AdminSettingsController from '@/hooks/managers/controller/Admin/SettingsController'
-import { requireAdmin } from '@/lib/auth/middleware'
+import { requirePermission } from '@/lib/auth/middleware'
 
-const paramsSchema = z.object({ category: z.enum(['general','oauth','features','security','appearance']) })
+const paramsSchema = z.object({ category: z.enum(['general','oauth','features','billing','capacity','security','appearance']) })
 
 
 
 export async function GET(request: NextRequest, { params }: { params: Promise<{ category: string }> }) {
-  const admin = await requireAdmin(request)
+  const admin = await requirePermission(request, 'settings.read')
   if (!admin.success) return admin.response!
 
   const { category } = await params
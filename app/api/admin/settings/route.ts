@@ -3,9 +3,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
 import { z } from 'zod'
 import AdminSettingsController from '@/hooks/managers/controller/Admin/SettingsController'
-import { requireAdmin } from '@/lib/auth/middleware'
+import { requirePermission } from '@/lib/auth/middleware'
 
 const listSchema = z.object({})
 const updateSchema = z.object({ key: z.string().min(1), value: z.any() })
@@ -13,15 +14,15 @@ const updateSchema = z.object({ key: z.string().min(1), value: z.any() })
 
 
 export async function GET(request: NextRequest) {
-  const admin = await requireAdmin(request)
+  const admin = await requirePermission(request, 'settings.read')
   if (!admin.success) return admin.response!
 
   const items = await AdminSettingsController.listAll()
   return NextResponse.json({ success: true, items })
 }
 
-export async function PUT(request: NextRequest) {
-  const admin = await requireAdmin(request)
+export const PUT = withCsrf(async function PUT(request: NextRequest) {
+  const admin = await requirePermission(request, 'settings.write')
   if (!admin.success) return admin.response!
 
   const body = await request.json()
@@ -30,5 +31,5 @@ export async function PUT(request: NextRequest) {
 
   const ok = await AdminSettingsController.update(parsed.data.key, parsed.data.value, admin.user!.id)
   return NextResponse.json({ success: ok })
-}
+})
 
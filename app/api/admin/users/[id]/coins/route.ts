@@ -3,9 +3,13 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
 import { z } from 'zod'
-import { userOperations } from '@/hooks/managers/database/user'
 import { rewardsLedgerOperations } from '@/hooks/managers/database/rewards-ledger'
+import { walletOperations } from '@/hooks/managers/database/wallet'
+import { ServerLifecycleController } from '@/hooks/managers/controller/User/server-lifecycle'
+import { authenticateRequest } from '@/lib/auth/middleware'
+import { hasPermission } from '@/lib/auth/permissions'
 
 const adjustSchema = z.object({
   amount: z.number().int().refine(v => v !== 0, 'Amount cannot be zero').refine(v => Math.abs(v) <= 1_000_000, 'Amount too large'),
@@ -14,25 +18,6 @@ const adjustSchema = z.object({
 
 const listSchema = z.object({ page: z.coerce.number().min(1).default(1), limit: z.coerce.number().min(1).max(100).default(50) })
 
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    const sessionToken = request.cookies.get('session_token')?.value
-    if (!sessionToken) return { success: false, error: 'No session token found' }
-    const hexTokenRegex = /^[a-f0-9]{64}$/i
-    if (!hexTokenRegex.test(sessionToken)) return { success: false, error: 'Invalid session token format' }
-    const userDataHeader = request.headers.get('x-user-data')
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader))
-        if (userData && userData.id && userData.username && userData.email) return { success: true, user: userData }
-      } catch {}
-    }
-    return { success: false, error: 'User identification required' }
-  } catch (e) {
-    return { success: false, error: 'Authentication failed' }
-  }
-}
-
 /**
  * GET /api/admin/users/[id]/coins?page=&limit=
  * Returns rewards ledger entries for the user
@@ -41,7 +26,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
   try {
     const auth = await authenticateRequest(request)
     if (!auth.success || !auth.user) return NextResponse.json({ success: false, message: 'Authentication required' }, { status: 401 })
-    if (auth.user.role !== 0) return NextResponse.json({ success: false, message: 'Admin access required' }, { status: 403 })
+    if (!hasPermission(auth.user.permissions, 'users.read')) return NextResponse.json({ success: false, message: 'Insufficient permissions' }, { status: 403 })
 
     const { searchParams } = new URL(request.url)
     const parsed = listSchema.safeParse({ page: searchParams.get('page') || '1', limit: searchParams.get('limit') || '50' })
@@ -62,14 +47,14 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
  * POST /api/admin/users/[id]/coins
  * Body: { amount: number (positive to add, negative to subtract), reason: string }
  */
-export async function POST(
+export const POST = withCsrf(async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const auth = await authenticateRequest(request)
     if (!auth.success || !auth.user) return NextResponse.json({ success: false, message: 'Authentication required' }, { status: 401 })
-    if (auth.user.role !== 0) return NextResponse.json({ success: false, message: 'Admin access required' }, { status: 403 })
+    if (!hasPermission(auth.user.permissions, 'users.coins.adjust')) return NextResponse.json({ success: false, message: 'Insufficient permissions' }, { status: 403 })
 
     const body = await request.json()
     const parsed = adjustSchema.safeParse(body)
@@ -84,36 +69,26 @@ export async function POST(
     if (isNaN(userId)) return NextResponse.json({ success: false, message: 'Invalid user ID' }, { status: 400 })
     if (userId === adminId && amount < 0) return NextResponse.json({ success: false, message: 'Cannot subtract coins from your own account' }, { status: 400 })
 
-    const user = await userOperations.getUserById(userId)
-    if (!user) return NextResponse.json({ success: false, message: 'User not found' }, { status: 404 })
-
-    // Pre-calc balances for ledger
-    const balance_before = user.coins
-    const balance_after = user.coins + amount
-    if (balance_after < 0) return NextResponse.json({ success: false, message: 'Insufficient coins' }, { status: 400 })
-
-    // Update balance
-    const ok = await userOperations.updateUserCoins(userId, amount, `Admin: ${reason}`)
-    if (!ok) return NextResponse.json({ success: false, message: 'Failed to adjust coins' }, { status: 500 })
+    const result = await walletOperations.adjust({
+      user_id: userId,
+      delta: amount,
+      source_category: 'admin_adjustment',
+      reference_id: `admin:${adminId}`,
+      message: reason,
+    })
+    if (!result.success || !result.entry) {
+      if (result.error === 'USER_NOT_FOUND') return NextResponse.json({ success: false, message: 'User not found' }, { status: 404 })
+      if (result.error === 'INSUFFICIENT_FUNDS') return NextResponse.json({ success: false, message: 'Insufficient coins' }, { status: 400 })
+      return NextResponse.json({ success: false, message: 'Failed to adjust coins' }, { status: 500 })
+    }
+    const { balance_before, balance_after } = result.entry
 
-    // Rewards ledger entry (best-effort)
-    try {
-      await rewardsLedgerOperations.add({
-        user_id: userId,
-        delta: amount,
-        balance_before,
-        balance_after,
-        source_category: 'admin_adjustment',
-        source_action: 'adjust',
-        reference_id: `admin:${adminId}`,
-        message: reason,
-      })
-    } catch {}
+    if (amount > 0) await ServerLifecycleController.settleOverdueForUser(userId)
 
     return NextResponse.json({ success: true, message: 'Coins adjusted', data: { user_id: userId, amount, balance_before, balance_after } })
   } catch (error) {
     console.error('POST /api/admin/users/[id]/coins error:', error)
     return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
   }
-}
+})
 
@@ -3,38 +3,17 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
 import { z } from 'zod'
 import { AdminDisableUserController } from '@/hooks/managers/controller/Admin/disableUser'
-
-// Authentication helper (mirrors disable route pattern)
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    const sessionToken = request.cookies.get('session_token')?.value
-    if (!sessionToken) return { success: false, error: 'No session token found' }
-    const hexTokenRegex = /^[a-f0-9]{64}$/i
-    if (!hexTokenRegex.test(sessionToken)) return { success: false, error: 'Invalid session token format' }
-
-    const userDataHeader = request.headers.get('x-user-data')
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader))
-        if (userData && userData.id && userData.username && userData.email) {
-          return { success: true, user: userData }
-        }
-      } catch {}
-    }
-    return { success: false, error: 'User identification required' }
-  } catch (error) {
-    console.error('Authentication error:', error)
-    return { success: false, error: 'Authentication failed' }
-  }
-}
+import { authenticateRequest } from '@/lib/auth/middleware'
+import { hasPermission } from '@/lib/auth/permissions'
 
 /**
  * POST /api/admin/users/[id]/enable
  * Unban/enable a user
  */
-export async function POST(
+export const POST = withCsrf(async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
@@ -43,8 +22,8 @@ export async function POST(
     if (!authResult.success || !authResult.user) {
       return NextResponse.json({ success: false, message: 'Authentication required' }, { status: 401 })
     }
-    if (authResult.user.role !== 0) {
-      return NextResponse.json({ success: false, message: 'Admin access required' }, { status: 403 })
+    if (!hasPermission(authResult.user.permissions, 'users.write')) {
+      return NextResponse.json({ success: false, message: 'Insufficient permissions' }, { status: 403 })
     }
 
     const resolvedParams = await params
@@ -68,5 +47,5 @@ export async function POST(
     console.error('POST /api/admin/users/[id]/enable error:', error)
     return NextResponse.json({ success: false, message: 'An unexpected error occurred while enabling user' }, { status: 500 })
   }
-}
+})
 
@@ -0,0 +1,84 @@
+/**
+ * CythroDash - Admin Impersonate User API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withCsrf, setCsrfCookie } from '@/lib/security/csrf'
+import { requirePermission, resolveRequestSession } from '@/lib/auth/middleware'
+import { ImpersonationController } from '@/hooks/managers/controller/Admin/ImpersonationController'
+import { SECURITY_CONFIG, getClientIP, getSessionCookieOptions } from '@/lib/security/config'
+
+const impersonateSchema = z.object({
+  minutes: z.number().int().min(1).max(SECURITY_CONFIG.IMPERSONATION.MAX_MINUTES).optional(),
+  allow_wallet_actions: z.boolean().optional().default(false),
+  reason: z.string().max(500).optional()
+})
+
+/**
+ * POST /api/admin/users/[id]/impersonate
+ * Switch this browser to a time-boxed session as the user. The admin's own session is kept in
+ * an httpOnly cookie and restored by DELETE /api/auth/impersonation.
+ */
+export const POST = withCsrf(async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const admin = await requirePermission(request, 'users.impersonate')
+    if (!admin.success) return admin.response
+
+    const resolvedParams = await params
+    const userId = parseInt(resolvedParams.id)
+    if (isNaN(userId)) return NextResponse.json({ success: false, message: 'Invalid user ID' }, { status: 400 })
+
+    const parsed = impersonateSchema.safeParse(await request.json().catch(() => ({})))
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, message: 'Invalid input', errors: parsed.error.errors }, { status: 400 })
+    }
+
+    const adminSession = await resolveRequestSession(request)
+    if (!adminSession) return NextResponse.json({ success: false, message: 'Authentication required' }, { status: 401 })
+
+    const result = await ImpersonationController.start(
+      { id: admin.user.id, username: admin.user.username },
+      adminSession.session,
+      userId,
+      parsed.data,
+      { ip_address: getClientIP(request), user_agent: request.headers.get('user-agent') || undefined }
+    )
+    if (!result.success || !result.user || !result.token || !result.session) {
+      return NextResponse.json({ success: false, message: result.message }, { status: result.message === 'User not found' ? 404 : 400 })
+    }
+
+    const user = result.user
+    const response = NextResponse.json({
+      success: true,
+      message: result.message,
+      user: {
+        id: user.id,
+        pterodactyl_uuid: user.id.toString(),
+        username: user.username,
+        email: user.email,
+        first_name: user.first_name,
+        last_name: user.last_name,
+        display_name: `${user.first_name} ${user.last_name}`,
+        role: user.role,
+        verified: user.verified,
+        coins: user.coins || 0,
+        avatar_url: user.avatar_url,
+        created_at: new Date().toISOString(),
+        last_login: new Date().toISOString()
+      },
+      sessionToken: result.token,
+      impersonation: await ImpersonationController.getStatus(result.session)
+    })
+
+    const adminCookieOptions = getSessionCookieOptions(adminSession.session.remember_me)
+    response.cookies.set(SECURITY_CONFIG.IMPERSONATION.COOKIE_NAME, adminSession.token, adminCookieOptions)
+    response.cookies.set('session_token', result.token, getSessionCookieOptions(false))
+    setCsrfCookie(response, result.session.csrf_token!)
+
+    return response
+  } catch (error) {
+    console.error('POST /api/admin/users/[id]/impersonate error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+})
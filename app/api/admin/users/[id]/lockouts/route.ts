@@ -0,0 +1,45 @@
+/**
+ * CythroDash - Admin User Lockouts API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/auth/middleware'
+import { LockoutController } from '@/hooks/managers/controller/Security/Lockout'
+
+/**
+ * GET /api/admin/users/[id]/lockouts
+ * Current lockout state of a user and their recent lock/unlock history
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requirePermission(request, 'users.read')
+    if (!admin.success) return admin.response
+
+    const resolvedParams = await params
+    const userId = parseInt(resolvedParams.id)
+    if (isNaN(userId)) return NextResponse.json({ success: false, message: 'Invalid user ID' }, { status: 400 })
+
+    const status = await LockoutController.getLockoutStatus(userId)
+    if (!status) return NextResponse.json({ success: false, message: 'User not found' }, { status: 404 })
+
+    const history = await LockoutController.getLockoutHistory(userId)
+    return NextResponse.json({
+      success: true,
+      status,
+      history: history.map(log => ({
+        id: log.id,
+        action: log.action,
+        description: log.description,
+        details: log.details,
+        ip_address: log.ip_address,
+        created_at: log.created_at
+      }))
+    })
+  } catch (error) {
+    console.error('GET /api/admin/users/[id]/lockouts error:', error)
+    return NextResponse.json({ success: false, message: 'Failed to load lockouts' }, { status: 500 })
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * CythroDash - Admin Reset Two-Factor API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
+import { requirePermission } from '@/lib/auth/middleware'
+import { TwoFactorController } from '@/hooks/managers/controller/Auth/TwoFactor'
+import { getClientIP } from '@/lib/security/config'
+
+/**
+ * POST /api/admin/users/[id]/reset-two-factor
+ * Disable 2FA for a user who lost access to their authenticator
+ */
+export const POST = withCsrf(async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const admin = await requirePermission(request, 'users.security')
+    if (!admin.success) return admin.response
+
+    const resolvedParams = await params
+    const userId = parseInt(resolvedParams.id)
+    if (isNaN(userId)) return NextResponse.json({ success: false, message: 'Invalid user ID' }, { status: 400 })
+
+    const result = await TwoFactorController.adminResetTwoFactor(userId, admin.user.id, {
+      ip_address: getClientIP(request),
+      user_agent: request.headers.get('user-agent') || undefined
+    })
+
+    return NextResponse.json(result, { status: result.success ? 200 : 400 })
+  } catch (error) {
+    console.error('POST /api/admin/users/[id]/reset-two-factor error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+})
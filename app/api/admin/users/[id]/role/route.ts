@@ -0,0 +1,35 @@
+/**
+ * CythroDash - Admin Assign User Role API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withCsrf } from '@/lib/security/csrf'
+import { SessionUser, withAuth } from '@/lib/auth/middleware'
+import { RoleController } from '@/hooks/managers/controller/Admin/RoleController'
+
+const assignRoleSchema = z.object({
+  role_id: z.string().min(1).max(32).nullable(),
+})
+
+/**
+ * PUT /api/admin/users/[id]/role
+ * Body: { role_id: string | null } — null turns the user back into a regular user
+ */
+export const PUT = withCsrf(withAuth(async function PUT(request: NextRequest, admin: SessionUser, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const userId = parseInt((await params).id)
+    if (isNaN(userId)) return NextResponse.json({ success: false, message: 'Invalid user ID' }, { status: 400 })
+
+    const parsed = assignRoleSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ success: false, message: 'Invalid input', errors: parsed.error.errors }, { status: 400 })
+    }
+
+    const result = await RoleController.assignRole(admin, userId, parsed.data.role_id)
+    return NextResponse.json(result, { status: result.success ? 200 : result.not_found ? 404 : 400 })
+  } catch (error) {
+    console.error('PUT /api/admin/users/[id]/role error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+}, { permission: 'roles.manage' }))
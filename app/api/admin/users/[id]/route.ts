@@ -7,21 +7,21 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { AdminGetUsersController } from '@/hooks/managers/controller/Admin/getUsers';
 import { AdminUpdateUserController } from '@/hooks/managers/controller/Admin/updateUser';
 import { AdminDeleteUserController } from '@/hooks/managers/controller/Admin/deleteUser';
 import { z } from 'zod';
 import { getCache, setCache, makeKey, shouldBypassCache, makeETagFromObject } from '@/lib/ttlCache'
-import { requireAdmin } from '@/lib/auth/middleware'
+import { requirePermission } from '@/lib/auth/middleware'
 
-// Input validation schema for PATCH request
+// Input validation schema for PATCH request. Roles are assigned through PUT /api/admin/users/[id]/role.
 const updateUserSchema = z.object({
   username: z.string().min(3).max(50).optional(),
   email: z.string().email().optional(),
   first_name: z.string().min(1).max(50).optional(),
   last_name: z.string().min(1).max(50).optional(),
   display_name: z.string().max(100).optional(),
-  role: z.number().int().min(0).max(1).optional(),
   verified: z.boolean().optional(),
   banned: z.boolean().optional(),
   two_factor_enabled: z.boolean().optional(),
@@ -39,7 +39,7 @@ export async function GET(
 ) {
   try {
     // Apply authentication
-    const admin = await requireAdmin(request);
+    const admin = await requirePermission(request, 'users.read');
     if (!admin.success) return admin.response!;
 
     // Await params before accessing properties
@@ -107,13 +107,13 @@ export async function GET(
  * PATCH /api/admin/users/[id]
  * Update user information
  */
-export async function PATCH(
+export const PATCH = withCsrf(async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     // Apply authentication
-    const admin = await requireAdmin(request);
+    const admin = await requirePermission(request, 'users.write');
     if (!admin.success) return admin.response!;
 
     // Await params before accessing properties
@@ -169,19 +169,19 @@ export async function PATCH(
       message: 'An unexpected error occurred while updating user'
     }, { status: 500 });
   }
-}
+});
 
 /**
  * DELETE /api/admin/users/[id]
  * Delete user permanently
  */
-export async function DELETE(
+export const DELETE = withCsrf(async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     // Apply authentication
-    const admin = await requireAdmin(request);
+    const admin = await requirePermission(request, 'users.write');
     if (!admin.success) return admin.response!;
 
     // Await params before accessing properties
@@ -228,4 +228,4 @@ export async function DELETE(
       message: 'An unexpected error occurred while deleting user'
     }, { status: 500 });
   }
-}
+});
@@ -0,0 +1,90 @@
+/**
+ * CythroDash - Admin User Sessions API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/auth/middleware'
+import { SessionsController } from '@/hooks/managers/controller/Security/Sessions'
+import { getClientIP } from '@/lib/security/config'
+
+const revokeSchema = z.union([
+  z.object({ session_id: z.string().min(1).max(64) }),
+  z.object({ scope: z.literal('all') }),
+])
+
+async function resolveUserId(params: Promise<{ id: string }>): Promise<number | null> {
+  const resolvedParams = await params
+  const userId = parseInt(resolvedParams.id)
+  return isNaN(userId) ? null : userId
+}
+
+/**
+ * GET /api/admin/users/[id]/sessions
+ * List a user's active sessions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requirePermission(request, 'users.read')
+    if (!admin.success) return admin.response
+
+    const userId = await resolveUserId(params)
+    if (userId === null) {
+      return NextResponse.json({ success: false, message: 'Invalid user ID' }, { status: 400 })
+    }
+
+    const sessions = await SessionsController.listUserSessions(userId)
+    return NextResponse.json({ success: true, sessions })
+  } catch (error) {
+    console.error('GET /api/admin/users/[id]/sessions error:', error)
+    return NextResponse.json({ success: false, message: 'Failed to load sessions' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/admin/users/[id]/sessions
+ * Revoke one session ({ session_id }) or every session of the user ({ scope: "all" })
+ */
+export const DELETE = withCsrf(async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requirePermission(request, 'users.security')
+    if (!admin.success) return admin.response
+
+    const userId = await resolveUserId(params)
+    if (userId === null) {
+      return NextResponse.json({ success: false, message: 'Invalid user ID' }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validation = revokeSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json({ success: false, message: 'Provide a session_id or scope "all"' }, { status: 400 })
+    }
+
+    const context = {
+      actor_id: admin.user.id,
+      is_admin_action: true,
+      ip_address: getClientIP(request),
+      user_agent: request.headers.get('user-agent') || 'unknown'
+    }
+
+    const result = 'session_id' in validation.data
+      ? await SessionsController.revokeSession(userId, validation.data.session_id, context)
+      : await SessionsController.revokeAllSessions(userId, context)
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 404 })
+    }
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('DELETE /api/admin/users/[id]/sessions error:', error)
+    return NextResponse.json({ success: false, message: 'Failed to revoke sessions' }, { status: 500 })
+  }
+})
@@ -10,7 +10,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { AdminGetUsersController, GetUsersRequest } from '@/hooks/managers/controller/Admin/getUsers';
 import { z } from 'zod';
 import { getCache, setCache, makeKey, shouldBypassCache, makeETagFromObject } from '@/lib/ttlCache'
-import { requireAdmin } from '@/lib/auth/middleware'
+import { requirePermission } from '@/lib/auth/middleware'
 
 // Input validation schema for GET request
 const getUsersSchema = z.object({
@@ -41,7 +41,7 @@ const getUsersSchema = z.object({
 export async function GET(request: NextRequest) {
   try {
     // Apply authentication
-    const admin = await requireAdmin(request);
+    const admin = await requirePermission(request, 'users.read');
     if (!admin.success) return admin.response!;
 
     // Parse and validate query parameters
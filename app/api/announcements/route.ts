@@ -6,6 +6,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import announcementsOperations from '@/hooks/managers/database/announcements'
 
 import { getPublicFlag } from '@/lib/public-settings'
+import { authenticateRequest } from '@/lib/auth/middleware'
 async function featureEnabled() {
   // Server-side gate: DB-first with env fallback
   try {
@@ -14,15 +15,8 @@ async function featureEnabled() {
 }
 
 async function getUser(request: NextRequest) {
-  const userDataHeader = request.headers.get('x-user-data')
-  if (userDataHeader) {
-    try { return JSON.parse(decodeURIComponent(userDataHeader)) } catch {}
-  }
-  const userDataCookie = request.cookies.get('x_user_data')?.value
-  if (userDataCookie) {
-    try { return JSON.parse(decodeURIComponent(userDataCookie)) } catch {}
-  }
-  return null
+  const auth = await authenticateRequest(request)
+  return auth.success ? auth.user : null
 }
 
 export async function GET(request: NextRequest) {
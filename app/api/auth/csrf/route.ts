@@ -0,0 +1,35 @@
+/**
+ * CythroDash - CSRF Token API Route
+ *
+ * Returns the current session's CSRF token and refreshes the csrf_token cookie.
+ * Clients call this when the cookie is missing, e.g. for sessions older than CSRF tokens.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/middleware';
+import { sessionOperations } from '@/hooks/managers/database/sessions';
+import { setCsrfCookie } from '@/lib/security/csrf';
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success) {
+      return NextResponse.json({
+        success: false,
+        message: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const csrfToken = await sessionOperations.ensureCsrfToken(authResult.session);
+    const response = NextResponse.json({ success: true, csrf_token: csrfToken });
+    setCsrfCookie(response, csrfToken, authResult.session.remember_me);
+    return response;
+  } catch (error) {
+    console.error('CSRF token error:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Failed to issue CSRF token',
+      error: 'INTERNAL_ERROR'
+    }, { status: 500 });
+  }
+}
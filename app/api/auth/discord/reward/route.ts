@@ -3,35 +3,15 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
 import { z } from 'zod'
 import { UserDetailsController } from '@/hooks/managers/controller/User/Details'
 import { userOperations } from '@/hooks/managers/database/user'
+import { authenticateRequest } from '@/lib/auth/middleware'
 
 // Input validation schema
 const claimSchema = z.object({ action: z.literal('claim') })
 
-// Auth helper (same pattern as others)
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    const authHeader = request.headers.get('authorization')
-    const sessionToken = authHeader?.replace('Bearer ', '') || request.cookies.get('session_token')?.value
-    if (!sessionToken) return { success: false, error: 'Authentication required' }
-
-    const userDataHeader = request.headers.get('x-user-data')
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader))
-        if (userData && userData.id && userData.username && userData.email) {
-          return { success: true, user: userData }
-        }
-      } catch {}
-    }
-    return { success: false, error: 'User data missing' }
-  } catch (e) {
-    return { success: false, error: 'Authentication failed' }
-  }
-}
-
 const REWARD_AMOUNT = 25
 const META_FLAG = 'discord_reward_claimed'
 
@@ -73,7 +53,7 @@ export async function GET(request: NextRequest) {
 }
 
 // POST /api/auth/discord/reward -> claim
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     const auth = await authenticateRequest(request)
     if (!auth.success || !auth.user) {
@@ -100,27 +80,20 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, message: 'Reward already claimed' }, { status: 400 })
     }
 
-    // Award coins
-    const before = user.coins || 0
-    const updated = await UserDetailsController.updateUserCoins(auth.user.id, REWARD_AMOUNT, 'Discord Account Connection Reward')
+    // Award coins (the idempotency key stops a concurrent second claim from paying twice)
+    const updated = await UserDetailsController.updateUserCoins(auth.user.id, REWARD_AMOUNT, 'Discord Account Connection Reward', {
+      source_category: 'promotion',
+      reference_id: 'discord_connection_reward',
+      idempotency_key: `discord_connection_reward:${auth.user.id}`
+    })
     if (!updated.success) {
       return NextResponse.json({ success: false, message: 'Failed to award coins' }, { status: 500 })
     }
+    if (updated.duplicate) {
+      return NextResponse.json({ success: false, message: 'Reward already claimed' }, { status: 400 })
+    }
 
-    // Ledger + security log (best-effort)
-    try {
-      const { rewardsLedgerOperations } = await import('@/hooks/managers/database/rewards-ledger')
-      await rewardsLedgerOperations.add({
-        user_id: auth.user.id,
-        delta: REWARD_AMOUNT,
-        balance_before: before,
-        balance_after: before + REWARD_AMOUNT,
-        source_category: 'promotion',
-        source_action: 'earn',
-        reference_id: 'discord_connection_reward',
-        message: 'Discord Account Connection Reward'
-      })
-    } catch {}
+    // Security log (best-effort)
     try {
       const { SecurityLogsController } = await import('@/hooks/managers/controller/Security/Logs')
       const { SecurityLogAction, SecurityLogSeverity } = await import('@/database/tables/cythro_dash_users_logs')
@@ -141,5 +114,5 @@ export async function POST(request: NextRequest) {
     console.error('Discord reward POST error:', error)
     return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
   }
-}
+})
 
@@ -0,0 +1,66 @@
+/**
+ * CythroDash - Forgot Password API Route
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ForgetPasswordController } from '@/hooks/managers/controller/Auth/Forget-Pass';
+import { getClientIP } from '@/lib/security/config';
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/security/rate-limit';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Please enter a valid email address').max(255)
+});
+
+/**
+ * POST /api/auth/forgot-password
+ * Email a password reset link. Always answers the same way for unknown emails.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const ip = getClientIP(request);
+    // Each request sends an email, so keep a per-IP cap
+    const rateLimit = await checkRateLimit(request, 'EMAIL', { scope: 'forgot-password' });
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const inputValidation = forgotPasswordSchema.safeParse(body);
+    if (!inputValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid input data',
+          errors: inputValidation.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await ForgetPasswordController.forgotPassword({
+      email: inputValidation.data.email,
+      ip_address: ip,
+      user_agent: request.headers.get('user-agent') || undefined
+    });
+
+    return NextResponse.json(result, { status: result.success ? 200 : 400 });
+  } catch (error) {
+    console.error('Forgot password API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An unexpected error occurred',
+        error: 'INTERNAL_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -102,15 +102,43 @@ export async function GET(request: NextRequest) {
           return resp
         }
 
-        const { getSessionCookieOptions } = await import('@/lib/security/config')
+        const { getSessionCookieOptions, getClientIP } = await import('@/lib/security/config')
         const cookieOptions = (getSessionCookieOptions as any)(false)
-        const { randomBytes } = await import('crypto')
-        const sessionToken = randomBytes(32).toString('hex')
-        const minimalUser = { id: user.id, username: user.username, email: user.email, role: user.role }
+        const { LoginController } = await import('@/hooks/managers/controller/Auth/Login')
+        const { setCsrfCookie } = await import('@/lib/security/csrf')
+
+        // Accounts with 2FA finish signing in on the login page with a code
+        if (user.two_factor_enabled) {
+          const challenge = await LoginController.issueTwoFactorChallenge(user.id, {
+            login_method: 'github',
+            remember_me: false,
+            ip_address: getClientIP(request),
+            user_agent: request.headers.get('user-agent') || 'unknown'
+          })
+          const resp = NextResponse.redirect(`${process.env.NEXT_PUBLIC_URL || (request.nextUrl && request.nextUrl.origin)}/login?two_factor=${encodeURIComponent(challenge.two_factor_token || '')}`)
+          resp.cookies.set('github_oauth_state', '', { httpOnly: true, secure: process.env.NODE_ENV === 'production', sameSite: 'lax', maxAge: 0 })
+          resp.cookies.set('github_oauth_flow', '', { httpOnly: true, secure: process.env.NODE_ENV === 'production', sameSite: 'lax', maxAge: 0 })
+          return resp
+        }
+
+        // The provider vouches for the login, so unrecognised devices are only logged and notified
+        const { LoginAnomalyController } = await import('@/hooks/managers/controller/Security/LoginAnomaly')
+        await LoginAnomalyController.recordLogin(user, {
+          login_method: 'github',
+          ip_address: getClientIP(request),
+          user_agent: request.headers.get('user-agent') || 'unknown'
+        })
+
+        const session = await LoginController.createSession(user.id, {
+          login_method: 'github',
+          remember_me: false,
+          ip_address: getClientIP(request),
+          user_agent: request.headers.get('user-agent') || 'unknown'
+        })
 
         const resp = NextResponse.redirect(`${process.env.NEXT_PUBLIC_URL || (request.nextUrl && request.nextUrl.origin)}/auth/processing`)
-        resp.cookies.set('session_token', sessionToken, cookieOptions)
-        resp.cookies.set('x_user_data', encodeURIComponent(JSON.stringify(minimalUser)), cookieOptions)
+        resp.cookies.set('session_token', session.token, cookieOptions)
+        setCsrfCookie(resp, session.csrf_token)
         // Clear state/flow cookies
         resp.cookies.set('github_oauth_state', '', { httpOnly: true, secure: process.env.NODE_ENV === 'production', sameSite: 'lax', maxAge: 0 })
         resp.cookies.set('github_oauth_flow', '', { httpOnly: true, secure: process.env.NODE_ENV === 'production', sameSite: 'lax', maxAge: 0 })
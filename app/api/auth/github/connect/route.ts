@@ -6,55 +6,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-
-// Authentication function
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    const sessionToken = request.cookies.get('session_token')?.value;
-    
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    // Get user data from headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User identification required'
-    };
-
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
+import { withCsrf } from '@/lib/security/csrf';
+import { authenticateRequest } from '@/lib/auth/middleware';
 
 /**
  * POST /api/auth/github/connect
  * Complete GitHub connection by saving pending data to database
  */
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     // Authenticate user
     const authResult = await authenticateRequest(request);
@@ -141,7 +100,7 @@ export async function POST(request: NextRequest) {
       error: 'CONNECTION_FAILED'
     }, { status: 500 });
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -149,7 +108,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-user-data',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
 }
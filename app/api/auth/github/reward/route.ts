@@ -7,94 +7,19 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { z } from 'zod';
 import { UserDetailsController } from '@/hooks/managers/controller/User/Details';
 
 import { userOperations } from '@/hooks/managers/database/user'
+import { authenticateRequest } from '@/lib/auth/middleware';
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/security/rate-limit';
 
 // Input validation schema
 const claimRewardSchema = z.object({
   action: z.literal('claim')
 });
 
-// Rate limiting map (in production, use Redis or database)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-
-// Authentication function following the established pattern
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    // Get session token from cookies or Authorization header
-    const authHeader = request.headers.get('authorization');
-    const sessionToken = authHeader?.replace('Bearer ', '') ||
-                        request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'Authentication required'
-      };
-    }
-
-    // Basic session token validation
-    if (typeof sessionToken !== 'string' || sessionToken.length < 10) {
-      return {
-        success: false,
-        error: 'Invalid session token format'
-      };
-    }
-
-    // Get user information from request headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.error('Error parsing user data header:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User data not found in request headers'
-    };
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
-
-// Rate limiting function
-function checkRateLimit(userId: number): boolean {
-  const key = `github-reward-${userId}`;
-  const now = Date.now();
-  const windowMs = 60 * 60 * 1000; // 1 hour window
-  const maxRequests = 3; // Max 3 attempts per hour
-
-  const current = rateLimitMap.get(key);
-
-  if (!current || now > current.resetTime) {
-    rateLimitMap.set(key, { count: 1, resetTime: now + windowMs });
-    return true;
-  }
-
-  if (current.count >= maxRequests) {
-    return false;
-  }
-
-  current.count++;
-  return true;
-}
-
 // Check if user has GitHub connected (simplified check)
 async function checkGitHubConnection(user: any): Promise<boolean> {
   try {
@@ -141,7 +66,7 @@ async function markGitHubRewardClaimed(userId: number): Promise<boolean> {
  * Claim GitHub connection reward
  * POST /api/auth/github/reward
  */
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     // Authenticate request
     const authResult = await authenticateRequest(request);
@@ -167,11 +92,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Check rate limiting
-    if (!checkRateLimit(user.id)) {
-      return NextResponse.json({
-        success: false,
-        message: 'Rate limit exceeded. Please try again later.'
-      }, { status: 429 });
+    const rateLimit = await checkRateLimit(request, 'GITHUB_REWARD', { user_id: user.id });
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, 'Rate limit exceeded. Please try again later.');
     }
 
     // Check if user has GitHub connected
@@ -196,13 +119,15 @@ export async function POST(request: NextRequest) {
     const rewardAmount = 40; // GitHub connection reward
 
     try {
-      const beforeUser = await userOperations.getUserById(user.id)
-      const before = beforeUser?.coins ?? 0
-
       const updateResult = await UserDetailsController.updateUserCoins(
         user.id,
         rewardAmount,
-        'GitHub Account Connection Reward'
+        'GitHub Account Connection Reward',
+        {
+          source_category: 'promotion',
+          reference_id: 'github_connection_reward',
+          idempotency_key: `github_connection_reward:${user.id}`
+        }
       );
 
       if (!updateResult.success) {
@@ -213,20 +138,12 @@ export async function POST(request: NextRequest) {
         }, { status: 500 });
       }
 
-      // Rewards ledger entry (best-effort)
-      try {
-        const { rewardsLedgerOperations } = await import('@/hooks/managers/database/rewards-ledger')
-        await rewardsLedgerOperations.add({
-          user_id: user.id,
-          delta: rewardAmount,
-          balance_before: before,
-          balance_after: before + rewardAmount,
-          source_category: 'promotion',
-          source_action: 'earn',
-          reference_id: 'github_connection_reward',
-          message: 'GitHub Account Connection Reward'
-        })
-      } catch {}
+      if (updateResult.duplicate) {
+        return NextResponse.json({
+          success: false,
+          message: 'GitHub connection reward has already been claimed.'
+        }, { status: 400 });
+      }
 
       // Security log entry for earning logs UI
       try {
@@ -273,7 +190,7 @@ export async function POST(request: NextRequest) {
       message: 'Internal server error'
     }, { status: 500 });
   }
-}
+});
 
 /**
  * Check GitHub connection and reward status
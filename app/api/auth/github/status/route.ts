@@ -5,49 +5,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-
-// Authentication function
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    const sessionToken = request.cookies.get('session_token')?.value;
-    
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    // Get user data from headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User identification required'
-    };
-
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
+import { withCsrf } from '@/lib/security/csrf';
+import { authenticateRequest } from '@/lib/auth/middleware';
 
 /**
  * GET /api/auth/github/status
@@ -106,7 +65,7 @@ export async function GET(request: NextRequest) {
  * DELETE /api/auth/github/status
  * Disconnect GitHub account from database
  */
-export async function DELETE(request: NextRequest) {
+export const DELETE = withCsrf(async function DELETE(request: NextRequest) {
   try {
     // Authenticate user
     const authResult = await authenticateRequest(request);
@@ -154,7 +113,7 @@ export async function DELETE(request: NextRequest) {
       error: 'DISCONNECT_ERROR'
     }, { status: 500 });
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -162,7 +121,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-user-data',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
 }
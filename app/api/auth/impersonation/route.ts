@@ -0,0 +1,95 @@
+/**
+ * CythroDash - Impersonation Session API Route
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf, setCsrfCookie, clearCsrfCookie } from '@/lib/security/csrf'
+import { resolveRequestSession } from '@/lib/auth/middleware'
+import { ImpersonationController } from '@/hooks/managers/controller/Admin/ImpersonationController'
+import { sessionOperations } from '@/hooks/managers/database/sessions'
+import { userOperations } from '@/hooks/managers/database/user'
+import { SECURITY_CONFIG, getClientIP, getSessionCookieOptions } from '@/lib/security/config'
+
+/**
+ * GET /api/auth/impersonation
+ * Whether the current session is an admin viewing as a user, for the banner
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const resolved = await resolveRequestSession(request)
+    if (!resolved) return NextResponse.json({ success: true, impersonation: { active: false } })
+    return NextResponse.json({ success: true, impersonation: await ImpersonationController.getStatus(resolved.session) })
+  } catch (error) {
+    console.error('GET /api/auth/impersonation error:', error)
+    return NextResponse.json({ success: false, message: 'Failed to load impersonation status' }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/auth/impersonation
+ * Stop viewing as the user and switch back to the admin's own session. Also works after the
+ * impersonation session has expired.
+ */
+export const DELETE = withCsrf(async function DELETE(request: NextRequest) {
+  try {
+    const impersonationToken = request.cookies.get('session_token')?.value
+    const adminToken = request.cookies.get(SECURITY_CONFIG.IMPERSONATION.COOKIE_NAME)?.value
+    const context = { ip_address: getClientIP(request), user_agent: request.headers.get('user-agent') || undefined }
+
+    const ended = impersonationToken
+      ? await ImpersonationController.stop(impersonationToken, context)
+      : null
+    if (!ended && !adminToken) {
+      // Bearer-only clients: the token in the header is the impersonation session
+      const resolved = await resolveRequestSession(request)
+      if (!resolved?.session.impersonation) {
+        return NextResponse.json({ success: false, message: 'Not viewing as another user' }, { status: 400 })
+      }
+      await ImpersonationController.stop(resolved.token, context)
+    }
+
+    const adminSession = adminToken ? await sessionOperations.getActiveSessionByToken(adminToken) : null
+    const admin = adminSession && (!ended || ended.impersonation?.admin_session_id === adminSession.id)
+      ? await userOperations.getUserById(adminSession.user_id)
+      : null
+
+    const response = NextResponse.json(admin && adminSession ? {
+      success: true,
+      message: 'Stopped viewing as user',
+      user: {
+        id: admin.id,
+        pterodactyl_uuid: admin.id.toString(),
+        username: admin.username,
+        email: admin.email,
+        first_name: admin.first_name,
+        last_name: admin.last_name,
+        display_name: `${admin.first_name} ${admin.last_name}`,
+        role: admin.role,
+        verified: admin.verified,
+        coins: admin.coins || 0,
+        avatar_url: admin.avatar_url,
+        created_at: new Date().toISOString(),
+        last_login: new Date().toISOString()
+      },
+      sessionToken: adminToken,
+      return_to: ended ? `/admin/users/${ended.user_id}` : '/admin/users'
+    } : {
+      // The admin session ended meanwhile: sign in again
+      success: true,
+      message: 'Stopped viewing as user. Please sign in again.'
+    })
+
+    response.cookies.set(SECURITY_CONFIG.IMPERSONATION.COOKIE_NAME, '', { ...getSessionCookieOptions(), maxAge: 0 })
+    if (admin && adminSession && adminToken) {
+      response.cookies.set('session_token', adminToken, getSessionCookieOptions(adminSession.remember_me))
+      setCsrfCookie(response, await sessionOperations.ensureCsrfToken(adminSession), adminSession.remember_me)
+    } else {
+      response.cookies.set('session_token', '', { ...getSessionCookieOptions(), maxAge: 0 })
+      clearCsrfCookie(response)
+    }
+    return response
+  } catch (error) {
+    console.error('DELETE /api/auth/impersonation error:', error)
+    return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,110 @@
+/**
+ * CythroDash - Two-Factor Login API Route
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { TwoFactorController } from '@/hooks/managers/controller/Auth/TwoFactor';
+import { getSessionCookieOptions, getClientIP } from '@/lib/security/config';
+import { setCsrfCookie } from '@/lib/security/csrf';
+
+const twoFactorLoginSchema = z.object({
+  two_factor_token: z.string().min(1, 'Sign-in challenge is required'),
+  code: z.string().trim().min(6, 'Verification code is required').max(20)
+});
+
+/**
+ * POST /api/auth/login/2fa
+ * Second login step for accounts with two-factor authentication enabled
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const inputValidation = twoFactorLoginSchema.safeParse(body);
+
+    if (!inputValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid input data',
+          errors: inputValidation.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const { two_factor_token, code } = inputValidation.data;
+
+    const loginResult = await TwoFactorController.completeLoginChallenge(two_factor_token, code, {
+      ip_address: getClientIP(request),
+      user_agent: request.headers.get('user-agent') || 'unknown'
+    });
+
+    if (loginResult.requires_password_change) {
+      // Code accepted, but the password must be replaced before a session is issued
+      return NextResponse.json({
+        success: false,
+        message: loginResult.message,
+        requires_password_change: true,
+        password_change_reason: loginResult.password_change_reason,
+        password_reset_token: loginResult.password_reset_token
+      });
+    }
+
+    if (!loginResult.success || !loginResult.user || !loginResult.session) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: loginResult.message || 'Verification failed',
+          requires_2fa: loginResult.requires_2fa,
+          two_factor_token: loginResult.two_factor_token,
+          errors: loginResult.errors || []
+        },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      message: 'Login successful',
+      user: {
+        id: loginResult.user.id,
+        pterodactyl_uuid: loginResult.user.id.toString(),
+        username: loginResult.user.username,
+        email: loginResult.user.email,
+        first_name: loginResult.user.first_name,
+        last_name: loginResult.user.last_name,
+        display_name: `${loginResult.user.first_name} ${loginResult.user.last_name}`,
+        role: loginResult.user.role,
+        verified: loginResult.user.verified,
+        coins: loginResult.user.coins || 0,
+        avatar_url: loginResult.user.avatar_url,
+        created_at: new Date().toISOString(),
+        last_login: new Date().toISOString()
+      },
+      sessionToken: loginResult.session.token
+    });
+
+    response.cookies.set('session_token', loginResult.session.token, getSessionCookieOptions(!!loginResult.session.remember_me));
+    setCsrfCookie(response, loginResult.session.csrf_token, !!loginResult.session.remember_me);
+
+    return response;
+  } catch (error) {
+    console.error('2FA login API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'An unexpected error occurred',
+        error: 'INTERNAL_ERROR'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * CythroDash - Confirm Login Device API Route
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { LoginAnomalyController } from '@/hooks/managers/controller/Security/LoginAnomaly';
+
+const confirmDeviceSchema = z.object({
+  token: z.string().min(1, 'Confirmation token is required').max(128)
+});
+
+/**
+ * POST /api/auth/login/confirm-device
+ * Mark a flagged device as known with the token from the confirmation email
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const inputValidation = confirmDeviceSchema.safeParse(body);
+    if (!inputValidation.success) {
+      return NextResponse.json(
+        { success: false, message: 'Confirmation token is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await LoginAnomalyController.confirmDevice(inputValidation.data.token);
+    return NextResponse.json(result, { status: result.success ? 200 : 400 });
+  } catch (error) {
+    console.error('Confirm device API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred', error: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
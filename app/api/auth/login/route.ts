@@ -10,6 +10,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { LoginController } from '@/hooks/managers/controller/Auth/Login';
 import { z } from 'zod';
 import { SECURITY_CONFIG, getSessionCookieOptions, getRefreshTokenCookieOptions, getClientIP } from '../../../../lib/security/config';
+import { checkRateLimit, resetRateLimit, rateLimitHeaders, rateLimitExceededResponse } from '@/lib/security/rate-limit';
+import { setCsrfCookie } from '@/lib/security/csrf';
 import { getPublicFlag } from '@/lib/public-settings'
 
 // Input validation schema
@@ -19,41 +21,6 @@ const loginSchema = z.object({
   remember_me: z.boolean().optional().default(false),
 });
 
-// Rate limiting (simple in-memory store - use Redis in production)
-const loginAttempts = new Map<string, { count: number; lastAttempt: number }>();
-
-function checkRateLimit(ip: string): boolean {
-  const now = Date.now();
-  const attempts = loginAttempts.get(ip);
-  const config = SECURITY_CONFIG.RATE_LIMIT.LOGIN;
-
-  if (!attempts) {
-    loginAttempts.set(ip, { count: 1, lastAttempt: now });
-    return true;
-  }
-
-  // Reset if lockout period has passed
-  if (now - attempts.lastAttempt > config.LOCKOUT_DURATION) {
-    loginAttempts.set(ip, { count: 1, lastAttempt: now });
-    return true;
-  }
-
-  // Check if too many attempts
-  if (attempts.count >= config.MAX_ATTEMPTS) {
-    return false;
-  }
-
-  // Increment attempts
-  attempts.count++;
-  attempts.lastAttempt = now;
-  return true;
-}
-
-function resetRateLimit(ip: string): void {
-  loginAttempts.delete(ip);
-}
-
-
 export async function POST(request: NextRequest) {
   try {
     // Maintenance mode: allow login? Typically yes, but we can block if desired
@@ -72,15 +39,9 @@ export async function POST(request: NextRequest) {
     const ip = getClientIP(request);
 
     // Check rate limiting
-    if (!checkRateLimit(ip)) {
-      return NextResponse.json(
-        {
-          success: false,
-          message: 'Too many login attempts. Please try again later.',
-          error: 'RATE_LIMITED'
-        },
-        { status: 429 }
-      );
+    const rateLimit = await checkRateLimit(request, 'LOGIN');
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, 'Too many login attempts. Please try again later.');
     }
 
     // Parse and validate request body
@@ -117,7 +78,7 @@ export async function POST(request: NextRequest) {
 
     if (loginResult.success && loginResult.user && loginResult.session) {
       // Reset rate limiting on successful login
-      resetRateLimit(ip);
+      await resetRateLimit(request, 'LOGIN');
 
       // Prepare response
       const response = NextResponse.json({
@@ -144,19 +105,7 @@ export async function POST(request: NextRequest) {
       // Set secure HTTP-only cookie for session token
       const cookieOptions = getSessionCookieOptions(remember_me);
       response.cookies.set('session_token', loginResult.session.token, cookieOptions);
-
-      // Also set httpOnly cookie with minimal user context to support API auth without headers
-      const minimalUser = {
-        id: loginResult.user.id,
-        username: loginResult.user.username,
-        email: loginResult.user.email,
-        role: loginResult.user.role
-      };
-      response.cookies.set(
-        'x_user_data',
-        encodeURIComponent(JSON.stringify(minimalUser)),
-        cookieOptions
-      );
+      setCsrfCookie(response, loginResult.session.csrf_token, remember_me);
 
       // Set refresh token if available (for future implementation)
       // if (loginResult.refreshToken) {
@@ -164,6 +113,30 @@ export async function POST(request: NextRequest) {
       // }
 
       return response;
+    } else if (loginResult.requires_2fa && loginResult.two_factor_token) {
+      // Password accepted; the client must now submit a code to /api/auth/login/2fa
+      return NextResponse.json({
+        success: false,
+        message: loginResult.message,
+        requires_2fa: true,
+        two_factor_token: loginResult.two_factor_token
+      });
+    } else if (loginResult.requires_password_change) {
+      // Password accepted but expired or reset by an admin; the client sends the user to /reset-password
+      return NextResponse.json({
+        success: false,
+        message: loginResult.message,
+        requires_password_change: true,
+        password_change_reason: loginResult.password_change_reason,
+        password_reset_token: loginResult.password_reset_token
+      });
+    } else if (loginResult.requires_device_confirmation) {
+      // Password accepted from an unrecognised device; the user confirms it from their email
+      return NextResponse.json({
+        success: false,
+        message: loginResult.message,
+        requires_device_confirmation: true
+      });
     } else {
       return NextResponse.json(
         {
@@ -171,7 +144,7 @@ export async function POST(request: NextRequest) {
           message: loginResult.message || 'Login failed',
           errors: loginResult.errors || []
         },
-        { status: 401 }
+        { status: 401, headers: rateLimitHeaders(rateLimit) }
       );
     }
   } catch (error) {
@@ -7,9 +7,30 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { LoginController } from '@/hooks/managers/controller/Auth/Login';
+import { ImpersonationController } from '@/hooks/managers/controller/Admin/ImpersonationController';
+import { SECURITY_CONFIG, getClientIP } from '@/lib/security/config';
+import { clearCsrfCookie } from '@/lib/security/csrf';
 
 export async function POST(request: NextRequest) {
   try {
+    // Revoke the server-side session before clearing cookies
+    const sessionToken = request.cookies.get('session_token')?.value;
+    const impersonatorToken = request.cookies.get(SECURITY_CONFIG.IMPERSONATION.COOKIE_NAME)?.value;
+    const ipAddress = getClientIP(request);
+    const userAgent = request.headers.get('user-agent') || 'unknown';
+
+    // Signing out while viewing as a user ends the impersonation and the admin's own session
+    const impersonation = sessionToken
+      ? await ImpersonationController.stop(sessionToken, { ip_address: ipAddress, user_agent: userAgent }, 'logout')
+      : null;
+    if (sessionToken && !impersonation) {
+      await LoginController.logoutUser(sessionToken, ipAddress, userAgent);
+    }
+    if (impersonatorToken) {
+      await LoginController.logoutUser(impersonatorToken, ipAddress, userAgent);
+    }
+
     // Create response
     const response = NextResponse.json({
       success: true,
@@ -27,6 +48,9 @@ export async function POST(request: NextRequest) {
 
     response.cookies.set('session_token', '', cookieOptions);
     response.cookies.set('refresh_token', '', cookieOptions);
+    response.cookies.set(SECURITY_CONFIG.IMPERSONATION.COOKIE_NAME, '', cookieOptions);
+    clearCsrfCookie(response);
+    // Legacy user context cookie from before server-side sessions
     response.cookies.set('x_user_data', '', cookieOptions);
 
     return response;
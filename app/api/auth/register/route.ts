@@ -10,6 +10,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { RegisterController } from '@/hooks/managers/controller/Auth/Register';
 import { z } from 'zod';
 import { SECURITY_CONFIG, getSessionCookieOptions, getClientIP, validatePassword } from '../../../../lib/security/config';
+import { checkRateLimit, resetRateLimit, rateLimitExceededResponse } from '@/lib/security/rate-limit';
 import { getPublicFlag } from '@/lib/public-settings'
 
 // Input validation schema
@@ -27,10 +28,10 @@ const registerSchema = z.object({
   last_name: z.string()
     .min(1, 'Last name is required')
     .max(50, 'Last name must be at most 50 characters'),
+  // Strength rules come from the password policy, applied by RegisterController
   password: z.string()
-    .min(8, 'Password must be at least 8 characters')
-    .max(128, 'Password must be at most 128 characters')
-    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain at least one lowercase letter, one uppercase letter, and one number'),
+    .min(1, 'Password is required')
+    .max(128, 'Password must be at most 128 characters'),
   password_confirmation: z.string(),
   referral_code: z.string()
     .min(8, 'Referral code must be at least 8 characters')
@@ -42,66 +43,6 @@ const registerSchema = z.object({
   path: ["password_confirmation"],
 });
 
-// Rate limiting for registration - improved with multiple time windows
-const registrationAttempts = new Map<string, {
-  minute: { count: number; resetTime: number };
-  hour: { count: number; resetTime: number };
-  day: { count: number; resetTime: number };
-}>();
-
-function checkRegistrationRateLimit(ip: string): { allowed: boolean; reason?: string } {
-  const now = Date.now();
-  const minuteWindow = 60 * 1000; // 1 minute
-  const hourWindow = 60 * 60 * 1000; // 1 hour
-  const dayWindow = 24 * 60 * 60 * 1000; // 24 hours
-  const maxPerMinute = 2; // Max 2 registrations per minute per IP
-  const maxPerHour = 5; // Max 5 registrations per hour per IP
-  const maxPerDay = 10; // Max 10 registrations per day per IP
-
-  let attempts = registrationAttempts.get(ip);
-
-  if (!attempts) {
-    attempts = {
-      minute: { count: 0, resetTime: now + minuteWindow },
-      hour: { count: 0, resetTime: now + hourWindow },
-      day: { count: 0, resetTime: now + dayWindow }
-    };
-    registrationAttempts.set(ip, attempts);
-  }
-
-  // Reset counters if windows have passed
-  if (now >= attempts.minute.resetTime) {
-    attempts.minute = { count: 0, resetTime: now + minuteWindow };
-  }
-  if (now >= attempts.hour.resetTime) {
-    attempts.hour = { count: 0, resetTime: now + hourWindow };
-  }
-  if (now >= attempts.day.resetTime) {
-    attempts.day = { count: 0, resetTime: now + dayWindow };
-  }
-
-  // Check limits
-  if (attempts.minute.count >= maxPerMinute) {
-    return { allowed: false, reason: 'Too many registration attempts per minute. Please wait.' };
-  }
-  if (attempts.hour.count >= maxPerHour) {
-    return { allowed: false, reason: 'Hourly registration limit exceeded. Please try again later.' };
-  }
-  if (attempts.day.count >= maxPerDay) {
-    return { allowed: false, reason: 'Daily registration limit exceeded. Please try again tomorrow.' };
-  }
-
-  // Increment counters
-  attempts.minute.count++;
-  attempts.hour.count++;
-  attempts.day.count++;
-
-  return { allowed: true };
-}
-
-function resetRegistrationRateLimit(ip: string): void {
-  registrationAttempts.delete(ip);
-}
 export async function POST(request: NextRequest) {
   try {
     // Maintenance mode: block new registrations
@@ -119,16 +60,9 @@ export async function POST(request: NextRequest) {
     const ip = getClientIP(request);
 
     // Check rate limiting
-    const rateLimitResult = checkRegistrationRateLimit(ip);
-    if (!rateLimitResult.allowed) {
-      return NextResponse.json(
-        {
-          success: false,
-          message: rateLimitResult.reason || 'Too many registration attempts. Please try again later.',
-          error: 'RATE_LIMITED'
-        },
-        { status: 429 }
-      );
+    const rateLimit = await checkRateLimit(request, 'REGISTER');
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, 'Too many registration attempts. Please try again later.');
     }
 
     // Parse and validate request body
@@ -171,7 +105,7 @@ export async function POST(request: NextRequest) {
 
     if (registerResult.success && registerResult.user) {
       // Reset rate limiting on successful registration
-      resetRegistrationRateLimit(ip);
+      await resetRateLimit(request, 'REGISTER');
 
       // Return success response without automatic login
       return NextResponse.json({
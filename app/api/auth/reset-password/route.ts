@@ -0,0 +1,81 @@
+/**
+ * CythroDash - Reset Password API Route
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { ForgetPasswordController } from '@/hooks/managers/controller/Auth/Forget-Pass';
+import { getClientIP } from '@/lib/security/config';
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required').max(128),
+  password: z.string().min(1, 'Password is required').max(128),
+  confirm_password: z.string().min(1, 'Please confirm your password').max(128)
+});
+
+/**
+ * GET /api/auth/reset-password?token=...
+ * Check a reset link before showing the form
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token') || '';
+    if (!token) {
+      return NextResponse.json({ success: false, message: 'Reset token is required' }, { status: 400 });
+    }
+
+    const result = await ForgetPasswordController.verifyResetToken(token);
+    return NextResponse.json(
+      { success: result.valid, message: result.message },
+      { status: result.valid ? 200 : 400 }
+    );
+  } catch (error) {
+    console.error('Reset token check API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred', error: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password using the token from the reset email
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const inputValidation = resetPasswordSchema.safeParse(body);
+    if (!inputValidation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid input data',
+          errors: inputValidation.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await ForgetPasswordController.resetPassword({
+      ...inputValidation.data,
+      ip_address: getClientIP(request),
+      user_agent: request.headers.get('user-agent') || undefined
+    });
+
+    return NextResponse.json(result, { status: result.success ? 200 : 400 });
+  } catch (error) {
+    console.error('Reset password API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred', error: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * CythroDash - Resend Verification Email API Route
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { RegisterController } from '@/hooks/managers/controller/Auth/Register';
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/security/rate-limit';
+
+const resendSchema = z.object({
+  email: z.string().email('Please enter a valid email address').max(255)
+});
+
+/**
+ * POST /api/auth/verify-email/resend
+ * Send a fresh verification link to an unverified account
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'EMAIL', { scope: 'verify-email-resend' });
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit);
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const inputValidation = resendSchema.safeParse(body);
+    if (!inputValidation.success) {
+      return NextResponse.json(
+        { success: false, message: 'Please enter a valid email address' },
+        { status: 400 }
+      );
+    }
+
+    const result = await RegisterController.resendVerificationEmail(inputValidation.data.email);
+    return NextResponse.json(result, { status: result.success ? 200 : 400 });
+  } catch (error) {
+    console.error('Resend verification API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred', error: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
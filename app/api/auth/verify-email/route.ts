@@ -0,0 +1,41 @@
+/**
+ * CythroDash - Verify Email API Route
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { RegisterController } from '@/hooks/managers/controller/Auth/Register';
+
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required').max(128)
+});
+
+/**
+ * POST /api/auth/verify-email
+ * Confirm an email address with the token from the verification email
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const inputValidation = verifyEmailSchema.safeParse(body);
+    if (!inputValidation.success) {
+      return NextResponse.json(
+        { success: false, message: 'Verification token is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await RegisterController.verifyEmail(inputValidation.data.token);
+    return NextResponse.json(result, { status: result.success ? 200 : 400 });
+  } catch (error) {
+    console.error('Verify email API error:', error);
+    return NextResponse.json(
+      { success: false, message: 'An unexpected error occurred', error: 'INTERNAL_ERROR' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,50 +5,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { z } from 'zod';
 import { codeOperations } from '@/hooks/managers/database/codes';
-
-// Authentication function
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    const sessionToken = request.cookies.get('session_token')?.value;
-    
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User identification required'
-    };
-
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
+import { ServerLifecycleController } from '@/hooks/managers/controller/User/server-lifecycle';
+import { authenticateRequest } from '@/lib/auth/middleware';
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/security/rate-limit';
 
 // Get client IP
 function getClientIP(request: NextRequest): string {
@@ -75,7 +37,7 @@ const redeemCodeSchema = z.object({
  * POST /api/codes/redeem
  * Redeem a code for coins
  */
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     // Authenticate user
     const authResult = await authenticateRequest(request);
@@ -86,6 +48,12 @@ export async function POST(request: NextRequest) {
       }, { status: 401 });
     }
 
+    // Check rate limit
+    const rateLimit = await checkRateLimit(request, 'REDEEM', { user_id: authResult.user.id });
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, 'Too many redemption attempts. Please try again later.');
+    }
+
     const requestData = await request.json();
     console.log('Redeem code request:', { code: requestData.code, user: authResult.user.username });
 
@@ -122,6 +90,9 @@ export async function POST(request: NextRequest) {
         user: authResult.user.username,
         coins: result.coins_awarded
       });
+
+      // New funds may cover an overdue server
+      await ServerLifecycleController.settleOverdueForUser(authResult.user.id);
       
       return NextResponse.json({
         success: true,
@@ -157,7 +128,7 @@ export async function POST(request: NextRequest) {
       error: 'INTERNAL_ERROR'
     }, { status: 500 });
   }
-}
+});
 
 /**
  * GET /api/codes/redeem
@@ -224,7 +195,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-user-data',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
 }
@@ -92,16 +92,20 @@ async function runCronJob(): Promise<void> {
     // 3. Suspend servers that have expired
     const suspend = await ServerLifecycleController.suspendExpired(now);
     
-    // 4. Delete servers after grace period
+    // 4. Terminate or delete servers after the suspension window
     const deleteResult = await ServerLifecycleController.deleteAfterGrace(now);
+
+    // 5. Purge panel servers whose data retention has ended
+    const purge = await ServerLifecycleController.purgeRetainedData(now);
     
     const duration = Date.now() - startTime;
     
     console.log(`✅ Auto CRON completed in ${duration}ms:`, {
       backfilled,
-      billing: `${billing.processed} processed, ${billing.suspended} suspended`,
-      suspend: `${suspend.processed} suspended`,
-      delete: `${deleteResult.processed} deleted`
+      billing: `${billing.processed} processed, ${billing.overdue} overdue, ${billing.suspended} suspended`,
+      suspend: `${suspend.processed} suspended, ${suspend.in_grace} in grace`,
+      delete: `${deleteResult.processed} deleted, ${deleteResult.terminated} terminated`,
+      purge: `${purge.processed} purged`
     });
 
     // Log significant actions
@@ -114,6 +118,9 @@ async function runCronJob(): Promise<void> {
     if (deleteResult.processed > 0) {
       console.log(`🗑️ ${deleteResult.processed} servers deleted after grace period`);
     }
+    if (deleteResult.terminated > 0) {
+      console.log(`📦 ${deleteResult.terminated} servers terminated with data retained`);
+    }
 
   } catch (error) {
     console.error('❌ Auto CRON job failed:', error);
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ServerLifecycleController } from '@/hooks/managers/controller/User/server-lifecycle';
+import { ServerMigrationController } from '@/hooks/managers/controller/User/server-migration';
+import { getGlobalLifecyclePolicy } from '@/lib/lifecycle-policy';
 
 async function checkCronAuth(request: NextRequest) {
   const { getConfig } = await import('@/database/config-manager.js')
@@ -33,18 +35,25 @@ export async function GET(request: NextRequest) {
     // Backfill any missing expiry_date to avoid special cases
     const backfilled = await ServerLifecycleController.backfillExpiry(1000);
 
-    // Process billing first, then suspend expired and delete after grace
+    // Process billing first, then suspend expired, terminate after the suspension window and purge retained data
     const billing = await ServerLifecycleController.processBillingCycles(now);
     const suspend = await ServerLifecycleController.suspendExpired(now);
     const del = await ServerLifecycleController.deleteAfterGrace(now);
+    const purge = await ServerLifecycleController.purgeRetainedData(now);
+
+    // Advance queued and running server migrations by one step each
+    const migrations = await ServerMigrationController.processActive();
 
     return NextResponse.json({
       success: true,
       timestamp: now.toISOString(),
+      policy: await getGlobalLifecyclePolicy(),
       backfilled,
       billing,
       suspend,
-      delete: del
+      delete: del,
+      purge,
+      migrations
     });
   } catch (error: any) {
     console.error('Cron server-lifecycle error:', error);
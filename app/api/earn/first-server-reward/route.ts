@@ -1,28 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
 import { rewardsLedgerOperations } from '@/hooks/managers/database/rewards-ledger'
-import { userOperations } from '@/hooks/managers/database/user'
+import { walletOperations } from '@/hooks/managers/database/wallet'
 import serverOperations from '@/hooks/managers/database/servers'
 import { SecurityLogsController } from '@/hooks/managers/controller/Security/Logs'
 import { SecurityLogAction, SecurityLogSeverity, SecurityLogStatus } from '@/database/tables/cythro_dash_users_logs'
-
-// Simple auth helper mirroring other user APIs
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    const sessionToken = request.cookies.get('session_token')?.value
-    if (!sessionToken) return { success: false, error: 'Authentication required' }
-
-    const userDataHeader = request.headers.get('x-user-data')
-    if (userDataHeader) {
-      try {
-        const user = JSON.parse(decodeURIComponent(userDataHeader))
-        if (user && user.id && user.username && user.email) return { success: true, user }
-      } catch {}
-    }
-    return { success: false, error: 'User data missing' }
-  } catch (e) {
-    return { success: false, error: 'Authentication failed' }
-  }
-}
+import { authenticateRequest } from '@/lib/auth/middleware'
 
 const REWARD_AMOUNT = 50
 const REFERENCE_ID = 'first_server_reward'
@@ -62,7 +45,7 @@ export async function GET(request: NextRequest) {
 
 // Idempotent reward for creating the first server.
 // POST /api/earn/first-server-reward
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     const auth = await authenticateRequest(request)
     if (!auth.success || !auth.user) {
@@ -85,28 +68,21 @@ export async function POST(request: NextRequest) {
       }
     } catch {}
 
-    // Award coins
-    const beforeUser = await userOperations.getUserById(userId)
-    const before = beforeUser?.coins ?? 0
-
-    const update = await userOperations.updateUserCoins(userId, REWARD_AMOUNT, 'First Server Created Reward')
-    if (!update) {
+    // Award coins; the idempotency key covers claims racing past the check above
+    const update = await walletOperations.credit({
+      user_id: userId,
+      amount: REWARD_AMOUNT,
+      source_category: 'promotion',
+      reference_id: REFERENCE_ID,
+      message: 'First Server Created Reward',
+      idempotency_key: `${REFERENCE_ID}:${userId}`
+    })
+    if (!update.success) {
       return NextResponse.json({ success: false, message: 'Failed to award coins' }, { status: 500 })
     }
-
-    // Record in rewards ledger (best-effort)
-    try {
-      await rewardsLedgerOperations.add({
-        user_id: userId,
-        delta: REWARD_AMOUNT,
-        balance_before: before,
-        balance_after: before + REWARD_AMOUNT,
-        source_category: 'promotion',
-        source_action: 'earn',
-        reference_id: REFERENCE_ID,
-        message: 'First Server Created Reward'
-      })
-    } catch {}
+    if (update.duplicate) {
+      return NextResponse.json({ success: true, message: 'Reward already claimed', data: { coins_awarded: 0 } })
+    }
 
     // Log to security logs so it appears in user earning logs UI
     try {
@@ -124,4 +100,4 @@ export async function POST(request: NextRequest) {
     console.error('first-server-reward error:', error)
     return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
   }
-}
+})
@@ -3,25 +3,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
+import { withCsrf } from '@/lib/security/csrf'
 import { userOperations } from '@/hooks/managers/database/user'
 import { UserDetailsController } from '@/hooks/managers/controller/User/Details'
-
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    const token = request.headers.get('authorization')?.replace('Bearer ', '') || request.cookies.get('session_token')?.value
-    if (!token) return { success: false, error: 'Authentication required' }
-    const hdr = request.headers.get('x-user-data')
-    if (hdr) {
-      try {
-        const user = JSON.parse(decodeURIComponent(hdr))
-        if (user?.id && user?.username && user?.email) return { success: true, user }
-      } catch {}
-    }
-    return { success: false, error: 'User data missing' }
-  } catch {
-    return { success: false, error: 'Authentication failed' }
-  }
-}
+import { authenticateRequest } from '@/lib/auth/middleware'
 
 const REWARD_AMOUNT = 15
 const REFERENCE_ID = 'profile_complete_reward'
@@ -52,7 +37,7 @@ export async function GET(request: NextRequest) {
 }
 
 // POST -> claim
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     const auth = await authenticateRequest(request)
     if (!auth.success || !auth.user) return NextResponse.json({ success: false, message: auth.error || 'Unauthorized' }, { status: 401 })
@@ -69,15 +54,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, message: 'Reward already claimed' }, { status: 400 })
     }
 
-    const before = user.coins || 0
-    const updated = await UserDetailsController.updateUserCoins(auth.user.id, REWARD_AMOUNT, 'Profile Completion Reward')
+    const updated = await UserDetailsController.updateUserCoins(auth.user.id, REWARD_AMOUNT, 'Profile Completion Reward', {
+      source_category: 'promotion',
+      reference_id: REFERENCE_ID,
+      idempotency_key: `${REFERENCE_ID}:${auth.user.id}`
+    })
     if (!updated.success) return NextResponse.json({ success: false, message: 'Failed to award coins' }, { status: 500 })
+    if (updated.duplicate) return NextResponse.json({ success: false, message: 'Reward already claimed' }, { status: 400 })
 
-    // Ledger + security log
-    try {
-      const { rewardsLedgerOperations } = await import('@/hooks/managers/database/rewards-ledger')
-      await rewardsLedgerOperations.add({ user_id: auth.user.id, delta: REWARD_AMOUNT, balance_before: before, balance_after: before + REWARD_AMOUNT, source_category: 'promotion', source_action: 'earn', reference_id: REFERENCE_ID, message: 'Profile Completion Reward' })
-    } catch {}
+    // Security log
     try {
       const { SecurityLogsController } = await import('@/hooks/managers/controller/Security/Logs')
       const { SecurityLogAction, SecurityLogSeverity } = await import('@/database/tables/cythro_dash_users_logs')
@@ -91,5 +76,5 @@ export async function POST(request: NextRequest) {
     console.error('profile-complete POST error', e)
     return NextResponse.json({ success: false, message: 'Internal server error' }, { status: 500 })
   }
-}
+})
 
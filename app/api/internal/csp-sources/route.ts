@@ -0,0 +1,30 @@
+/**
+ * Internal: CSP Sources (Node runtime)
+ * Resolves the settings-derived origins the root middleware adds to the page CSP.
+ */
+
+export const runtime = 'nodejs'
+
+import { NextResponse } from 'next/server'
+import { getPublicSetting } from '@/lib/public-settings'
+import { serverTypeOperations } from '@/hooks/managers/database/server-type'
+import { CspSources, EMPTY_CSP_SOURCES, extractCssSources, originOf } from '@/lib/security/csp'
+
+export async function GET() {
+  try {
+    const [logo, customCss, serverTypes] = await Promise.all([
+      getPublicSetting<string>('NEXT_PUBLIC_LOGO', ''),
+      getPublicSetting<string>('NEXT_PUBLIC_CUSTOM_CSS', ''),
+      serverTypeOperations.getActiveServerTypes().catch(() => [])
+    ])
+
+    const css = extractCssSources(customCss)
+    const artwork = serverTypes.flatMap(t => [t.display_config?.icon, t.display_config?.banner_image, t.display_config?.thumbnail])
+    const img = [originOf(logo), ...artwork.map(originOf), ...css.img].filter((o): o is string => !!o)
+
+    const sources: CspSources = { img: [...new Set(img)], style: css.style, font: css.font }
+    return NextResponse.json(sources)
+  } catch {
+    return NextResponse.json(EMPTY_CSP_SOURCES)
+  }
+}
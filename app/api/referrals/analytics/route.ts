@@ -7,8 +7,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { ReferralLogsController } from '@/hooks/managers/controller/User/ReferralLogs';
 import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth/middleware';
+import { hasPermission } from '@/lib/auth/permissions';
 
 // Input validation schema
 const analyticsSchema = z.object({
@@ -18,58 +21,6 @@ const analyticsSchema = z.object({
   end_date: z.string().optional()
 });
 
-// Simple authentication function
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    // Get session token from cookies
-    const sessionToken = request.cookies.get('session_token')?.value;
-    
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    // Validate session token format (should be hex string)
-    const hexTokenRegex = /^[a-f0-9]{64}$/i; // 32 bytes = 64 hex characters
-    if (!hexTokenRegex.test(sessionToken)) {
-      return {
-        success: false,
-        error: 'Invalid session token format'
-      };
-    }
-
-    // Get user information from request headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-        
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User identification required'
-    };
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
-
 export async function GET(request: NextRequest) {
   try {
     // Validate user session
@@ -118,7 +69,7 @@ export async function GET(request: NextRequest) {
     const targetUserId = user_id || sessionResult.user.id;
 
     // Only allow users to view their own analytics unless they're admin
-    if (targetUserId !== sessionResult.user.id && sessionResult.user.role !== 0) {
+    if (targetUserId !== sessionResult.user.id && !hasPermission(sessionResult.user.permissions, 'users.read')) {
       return NextResponse.json(
         {
           success: false,
@@ -168,7 +119,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     // Validate user session
     const sessionResult = await authenticateRequest(request);
@@ -185,7 +136,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Only allow admins to update analytics
-    if (sessionResult.user.role !== 0) {
+    if (!hasPermission(sessionResult.user.permissions, 'users.write')) {
       return NextResponse.json(
         {
           success: false,
@@ -227,7 +178,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -235,7 +186,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-user-data',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
 }
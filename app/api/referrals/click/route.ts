@@ -11,6 +11,7 @@ import { ReferralsController, ReferralClickRequest } from '@/hooks/managers/cont
 import { ReferralLogsController } from '@/hooks/managers/controller/User/ReferralLogs';
 import { z } from 'zod';
 import { getClientIP } from '../../../../lib/security/config';
+import { checkRateLimit, resetRateLimit, rateLimitExceededResponse } from '@/lib/security/rate-limit';
 
 // Input validation schema
 const referralClickSchema = z.object({
@@ -30,75 +31,15 @@ const referralClickSchema = z.object({
   session_id: z.string().optional()
 });
 
-// Rate limiting for referral clicks - improved with multiple time windows
-const clickAttempts = new Map<string, {
-  minute: { count: number; resetTime: number };
-  hour: { count: number; resetTime: number };
-}>();
-
-function checkClickRateLimit(ip: string): { allowed: boolean; reason?: string } {
-  const now = Date.now();
-  const minuteWindow = 60 * 1000; // 1 minute
-  const hourWindow = 60 * 60 * 1000; // 1 hour
-  const maxPerMinute = 5; // Max 5 clicks per minute per IP
-  const maxPerHour = 30; // Max 30 clicks per hour per IP
-
-  let attempts = clickAttempts.get(ip);
-
-  if (!attempts) {
-    attempts = {
-      minute: { count: 0, resetTime: now + minuteWindow },
-      hour: { count: 0, resetTime: now + hourWindow }
-    };
-    clickAttempts.set(ip, attempts);
-  }
-
-  // Reset minute counter if window has passed
-  if (now >= attempts.minute.resetTime) {
-    attempts.minute = { count: 0, resetTime: now + minuteWindow };
-  }
-
-  // Reset hour counter if window has passed
-  if (now >= attempts.hour.resetTime) {
-    attempts.hour = { count: 0, resetTime: now + hourWindow };
-  }
-
-  // Check limits
-  if (attempts.minute.count >= maxPerMinute) {
-    return { allowed: false, reason: 'Too many clicks per minute. Please wait.' };
-  }
-
-  if (attempts.hour.count >= maxPerHour) {
-    return { allowed: false, reason: 'Hourly click limit exceeded. Please try again later.' };
-  }
-
-  // Increment counters
-  attempts.minute.count++;
-  attempts.hour.count++;
-
-  return { allowed: true };
-}
-
-function resetClickRateLimit(ip: string): void {
-  clickAttempts.delete(ip);
-}
-
 export async function POST(request: NextRequest) {
   try {
     // Get client IP
     const ip = getClientIP(request);
 
     // Check rate limiting
-    const rateLimitResult = checkClickRateLimit(ip);
-    if (!rateLimitResult.allowed) {
-      return NextResponse.json(
-        {
-          success: false,
-          message: rateLimitResult.reason || 'Too many referral clicks. Please try again later.',
-          error: 'RATE_LIMITED'
-        },
-        { status: 429 }
-      );
+    const rateLimit = await checkRateLimit(request, 'REFERRAL_CLICK');
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, 'Too many referral clicks. Please try again later.');
     }
 
     // Parse and validate request body
@@ -156,7 +97,7 @@ export async function POST(request: NextRequest) {
     if (result.success) {
       // Reset rate limiting on successful click (if not blocked)
       if (result.data && !result.data.blocked) {
-        resetClickRateLimit(ip);
+        await resetRateLimit(request, 'REFERRAL_CLICK');
       }
 
       return NextResponse.json({
@@ -0,0 +1,98 @@
+/**
+ * CythroDash - CSP Violation Report API
+ *
+ * Receives Content-Security-Policy violation reports from browsers (both the report-uri
+ * `application/csp-report` format and the Reporting API `application/reports+json` format)
+ * and records them in the security logs. Reports from signed-out visitors are logged
+ * against user 0.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateRequest } from '@/lib/auth/middleware'
+import { getClientIP } from '@/lib/security/config'
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/security/rate-limit'
+import { SecurityLogsController } from '@/hooks/managers/controller/Security/Logs'
+import { SecurityLogAction, SecurityLogSeverity } from '@/database/tables/cythro_dash_users_logs'
+
+const MAX_REPORTS_PER_REQUEST = 10
+const MAX_FIELD_LENGTH = 512
+
+interface CspViolation {
+  document_uri?: string
+  blocked_uri?: string
+  violated_directive?: string
+  effective_directive?: string
+  disposition?: string
+  source_file?: string
+  line_number?: number
+  sample?: string
+}
+
+function field(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value.slice(0, MAX_FIELD_LENGTH) : undefined
+}
+
+// report-uri bodies use dashed keys, Reporting API bodies use camelCase
+function normalizeViolation(raw: any): CspViolation | null {
+  if (!raw || typeof raw !== 'object') return null
+  const violation: CspViolation = {
+    document_uri: field(raw['document-uri'] ?? raw.documentURL),
+    blocked_uri: field(raw['blocked-uri'] ?? raw.blockedURL),
+    violated_directive: field(raw['violated-directive']),
+    effective_directive: field(raw['effective-directive'] ?? raw.effectiveDirective),
+    disposition: field(raw.disposition),
+    source_file: field(raw['source-file'] ?? raw.sourceFile),
+    line_number: Number(raw['line-number'] ?? raw.lineNumber) || undefined,
+    sample: field(raw['script-sample'] ?? raw.sample)
+  }
+  return violation.effective_directive || violation.violated_directive ? violation : null
+}
+
+function parseReports(body: any): CspViolation[] {
+  const raw = Array.isArray(body)
+    ? body.filter(r => r?.type === 'csp-violation').map(r => r.body)
+    : [body?.['csp-report']]
+  return raw.map(normalizeViolation).filter((v): v is CspViolation => !!v).slice(0, MAX_REPORTS_PER_REQUEST)
+}
+
+/**
+ * POST /api/security/csp-report
+ * Record CSP violation reports
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = await checkRateLimit(request, 'CSP_REPORT')
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit)
+    }
+
+    const violations = parseReports(await request.json().catch(() => null))
+    if (violations.length === 0) {
+      return NextResponse.json({ success: false, message: 'No CSP violation report found' }, { status: 400 })
+    }
+
+    const auth = await authenticateRequest(request)
+    const userId = auth.success ? auth.user.id : 0
+    const ipAddress = getClientIP(request)
+    const userAgent = request.headers.get('user-agent') || undefined
+
+    for (const violation of violations) {
+      const directive = violation.effective_directive || violation.violated_directive
+      await SecurityLogsController.createLog({
+        user_id: userId,
+        action: SecurityLogAction.CSP_VIOLATION,
+        severity: SecurityLogSeverity.LOW,
+        description: `Content Security Policy blocked ${violation.blocked_uri || 'a resource'} (${directive})`,
+        details: violation,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        session_id: auth.success ? auth.user.session_id : undefined
+      })
+    }
+
+    return new NextResponse(null, { status: 204 })
+  } catch (error) {
+    console.error('POST /api/security/csp-report error:', error)
+    return NextResponse.json({ success: false, message: 'Failed to record report' }, { status: 500 })
+  }
+}
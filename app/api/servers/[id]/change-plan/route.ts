@@ -0,0 +1,110 @@
+/**
+ * CythroDash - Server Plan Change API Route
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
+import { z } from 'zod';
+import { PlanChangeController, PlanChangeResult } from '@/hooks/managers/controller/User/plan-change';
+import { authenticateRequest } from '@/lib/auth/middleware';
+
+const quoteSchema = z.object({
+  plan_id: z.string().min(1, 'Plan ID is required')
+});
+
+const changePlanSchema = z.object({
+  plan_id: z.string().min(1, 'Plan ID is required'),
+  confirm: z.boolean().refine(val => val === true, 'Confirmation required')
+});
+
+const ERROR_STATUS: Record<string, number> = {
+  SERVER_NOT_FOUND: 404,
+  ACCESS_DENIED: 403,
+  SERVER_NOT_ACTIVE: 400,
+  SAME_PLAN: 400,
+  PLAN_NOT_FOUND: 404,
+  PLAN_UNAVAILABLE: 400,
+  INSUFFICIENT_CAPACITY: 409,
+  DISK_IN_USE: 400,
+  INSUFFICIENT_COINS: 400,
+  PANEL_UPDATE_FAILED: 502,
+  UPDATE_FAILED: 409
+};
+
+function toResponse(result: PlanChangeResult) {
+  if (!result.success) {
+    return NextResponse.json({
+      success: false,
+      message: result.message,
+      error: result.error,
+      quote: result.quote
+    }, { status: ERROR_STATUS[result.error || ''] || 500 });
+  }
+  return NextResponse.json({
+    success: true,
+    message: result.message,
+    quote: result.quote,
+    server: result.server
+  });
+}
+
+/**
+ * GET /api/servers/[id]/change-plan?plan_id=
+ * Prorated price of moving the server to another plan
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ success: false, message: 'Authentication required', error: 'AUTHENTICATION_REQUIRED' }, { status: 401 });
+    }
+
+    const validation = quoteSchema.safeParse({ plan_id: new URL(request.url).searchParams.get('plan_id') || '' });
+    if (!validation.success) {
+      return NextResponse.json({ success: false, message: 'Invalid query parameters', errors: validation.error.errors }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const result = await PlanChangeController.quote(id, authResult.user, validation.data.plan_id);
+    return toResponse(result);
+  } catch (error) {
+    console.error('Plan change quote error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error', error: 'INTERNAL_ERROR' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/servers/[id]/change-plan
+ * Body: { plan_id: string, confirm: true }
+ */
+export const POST = withCsrf(async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ success: false, message: 'Authentication required', error: 'AUTHENTICATION_REQUIRED' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = changePlanSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ success: false, message: 'Invalid request data', errors: validation.error.errors }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const result = await PlanChangeController.changePlan(id, authResult.user, validation.data.plan_id);
+    return toResponse(result);
+  } catch (error) {
+    console.error('Plan change error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error', error: 'INTERNAL_ERROR' }, { status: 500 });
+  }
+});
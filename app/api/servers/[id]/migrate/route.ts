@@ -0,0 +1,100 @@
+/**
+ * CythroDash - Server Migration API Route
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
+import { z } from 'zod';
+import { MIGRATION_ERROR_STATUS, ServerMigrationController, ServerMigrationResult } from '@/hooks/managers/controller/User/server-migration';
+import { serverOperations } from '@/hooks/managers/database/servers';
+import { authenticateRequest } from '@/lib/auth/middleware';
+
+const migrateSchema = z.object({
+  location_id: z.string().min(1, 'Location ID is required'),
+  confirm: z.boolean().refine(val => val === true, 'Confirmation required')
+});
+
+function toResponse(result: ServerMigrationResult) {
+  if (!result.success) {
+    return NextResponse.json({
+      success: false,
+      message: result.message,
+      error: result.error,
+      quote: result.quote
+    }, { status: result.error ? MIGRATION_ERROR_STATUS[result.error] : 500 });
+  }
+  return NextResponse.json({
+    success: true,
+    message: result.message,
+    quote: result.quote,
+    migration: result.migration
+  });
+}
+
+/**
+ * GET /api/servers/[id]/migrate?location_id=
+ * The server's current or latest migration, plus a quote when a location is given
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ success: false, message: 'Authentication required', error: 'AUTHENTICATION_REQUIRED' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const server = await serverOperations.getServerById(id);
+    if (!server || server.user_id !== authResult.user.id) {
+      return NextResponse.json({ success: false, message: 'Server not found', error: 'SERVER_NOT_FOUND' }, { status: 404 });
+    }
+
+    const migration = await ServerMigrationController.getLatest(id);
+    const locationId = new URL(request.url).searchParams.get('location_id');
+    if (!locationId) {
+      return NextResponse.json({ success: true, migration });
+    }
+
+    const result = await ServerMigrationController.quote(id, authResult.user, locationId);
+    if (!result.success) return toResponse(result);
+    return NextResponse.json({ success: true, quote: result.quote, migration });
+  } catch (error) {
+    console.error('Server migration quote error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error', error: 'INTERNAL_ERROR' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/servers/[id]/migrate
+ * Body: { location_id: string, confirm: true }
+ */
+export const POST = withCsrf(async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ success: false, message: 'Authentication required', error: 'AUTHENTICATION_REQUIRED' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = migrateSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json({ success: false, message: 'Invalid request data', errors: validation.error.errors }, { status: 400 });
+    }
+
+    const { id } = await params;
+    const result = await ServerMigrationController.requestByUser(id, authResult.user, validation.data.location_id);
+    return toResponse(result);
+  } catch (error) {
+    console.error('Server migration error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error', error: 'INTERNAL_ERROR' }, { status: 500 });
+  }
+});
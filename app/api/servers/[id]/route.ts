@@ -7,9 +7,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitHeaders, rateLimitExceededResponse } from '@/lib/security/rate-limit';
 import { panelServerGetDetails, panelServerUpdateDetails, panelServerDelete } from '@/hooks/managers/pterodactyl/servers';
 import { serverOperations } from '@/hooks/managers/database/servers';
 import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth/middleware';
+import { hasPermission } from '@/lib/auth/permissions';
 
 // Input validation schema for PATCH request
 const updateServerSchema = z.object({
@@ -26,99 +29,6 @@ const updateServerSchema = z.object({
   }).optional(),
 });
 
-// Authentication function following the established pattern
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    // Get session token from cookies or Authorization header
-    const authHeader = request.headers.get('authorization');
-    const sessionToken = authHeader?.replace('Bearer ', '') ||
-                        request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    // Validate session token format (should be hex string)
-    const hexTokenRegex = /^[a-f0-9]{64}$/i; // 32 bytes = 64 hex characters
-    if (!hexTokenRegex.test(sessionToken)) {
-      return {
-        success: false,
-        error: 'Invalid session token format'
-      };
-    }
-
-    // Get user information from request headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User identification required'
-    };
-
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
-
-// Rate limiting check (simple implementation)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
-const RATE_LIMIT_MAX_REQUESTS = 60; // 60 requests per minute
-
-function checkRateLimit(clientIP: string): { allowed: boolean; remaining: number; resetTime: number } {
-  const now = Date.now();
-  const clientData = rateLimitMap.get(clientIP);
-
-  if (!clientData || now > clientData.resetTime) {
-    // Reset or initialize rate limit
-    rateLimitMap.set(clientIP, {
-      count: 1,
-      resetTime: now + RATE_LIMIT_WINDOW
-    });
-    return {
-      allowed: true,
-      remaining: RATE_LIMIT_MAX_REQUESTS - 1,
-      resetTime: now + RATE_LIMIT_WINDOW
-    };
-  }
-
-  if (clientData.count >= RATE_LIMIT_MAX_REQUESTS) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetTime: clientData.resetTime
-    };
-  }
-
-  clientData.count++;
-  return {
-    allowed: true,
-    remaining: RATE_LIMIT_MAX_REQUESTS - clientData.count,
-    resetTime: clientData.resetTime
-  };
-}
-
 /**
  * GET /api/servers/[id]
  * Retrieve detailed information about a specific server
@@ -128,26 +38,10 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    // Get client IP for rate limiting
-    const clientIP = request.headers.get('x-forwarded-for') || 
-                    request.headers.get('x-real-ip') || 
-                    'unknown';
-
     // Check rate limit
-    const rateLimitResult = checkRateLimit(clientIP);
+    const rateLimitResult = await checkRateLimit(request, 'API', { scope: 'servers/id' });
     if (!rateLimitResult.allowed) {
-      return NextResponse.json({
-        success: false,
-        message: 'Rate limit exceeded. Please try again later.',
-        error: 'RATE_LIMIT_EXCEEDED'
-      }, { 
-        status: 429,
-        headers: {
-          'X-RateLimit-Limit': RATE_LIMIT_MAX_REQUESTS.toString(),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': Math.ceil(rateLimitResult.resetTime / 1000).toString()
-        }
-      });
+      return rateLimitExceededResponse(rateLimitResult, 'Rate limit exceeded. Please try again later.');
     }
 
     // Apply authentication
@@ -205,7 +99,7 @@ export async function GET(
       const server = serverResponse.attributes;
 
       // Check if user owns this server (or is admin)
-      if (user.role > 0 && server.user !== (user.pterodactyl_id || user.id)) {
+      if (server.user !== user.id && !hasPermission(user.permissions, 'servers.read')) {
         return NextResponse.json({
           success: false,
           message: 'You do not have permission to access this server'
@@ -298,14 +192,16 @@ export async function GET(
         expiry_date: billingInfo?.expiry_date?.toISOString(),
         auto_delete_at: billingInfo?.auto_delete_at?.toISOString(),
         overdue_amount: billingInfo?.billing?.overdue_amount,
+        server_id: billingInfo?.id,
+        plan_id: billingInfo?.billing?.plan_id,
+        location_id: billingInfo?.location_id,
+        server_type_id: billingInfo?.server_type_id,
         pterodactyl_identifier: server.identifier || server.uuid
       };
 
       // Set rate limit headers
       const responseHeaders = {
-        'X-RateLimit-Limit': RATE_LIMIT_MAX_REQUESTS.toString(),
-        'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-        'X-RateLimit-Reset': Math.ceil(rateLimitResult.resetTime / 1000).toString()
+        ...rateLimitHeaders(rateLimitResult)
       };
 
       return NextResponse.json({
@@ -313,9 +209,9 @@ export async function GET(
         message: 'Server details retrieved successfully',
         server: transformedServer,
         user_permissions: {
-          can_modify: user.role === 0 || server.user === (user.pterodactyl_id || user.id),
-          can_delete: user.role === 0 || server.user === (user.pterodactyl_id || user.id),
-          is_owner: server.user === (user.pterodactyl_id || user.id),
+          can_modify: server.user === user.id || hasPermission(user.permissions, 'servers.write'),
+          can_delete: server.user === user.id || hasPermission(user.permissions, 'servers.write'),
+          is_owner: server.user === user.id,
           is_admin: user.role === 0
         }
       }, { 
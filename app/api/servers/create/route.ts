@@ -7,9 +7,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
+import { checkRateLimit, rateLimitHeaders, rateLimitExceededResponse } from '@/lib/security/rate-limit';
 import ServersController from '@/hooks/managers/controller/User/Servers';
 import { z } from 'zod';
 import { getPublicFlag } from '@/lib/public-settings'
+import { authenticateRequest } from '@/lib/auth/middleware';
 
 // Input validation schema for POST request
 const createServerSchema = z.object({
@@ -21,129 +24,15 @@ const createServerSchema = z.object({
   environment_variables: z.record(z.string()).optional().default({}),
   startup_command: z.string().optional(),
   docker_image: z.string().optional(),
+  promo_code: z.string().trim().max(64).optional(),
 });
 
-// Authentication function following the established pattern
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    // Get session token from cookies or Authorization header
-    const authHeader = request.headers.get('authorization');
-    const sessionToken = authHeader?.replace('Bearer ', '') ||
-                        request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    // Validate session token format (should be hex string)
-    const hexTokenRegex = /^[a-f0-9]{64}$/i; // 32 bytes = 64 hex characters
-    if (!hexTokenRegex.test(sessionToken)) {
-      return {
-        success: false,
-        error: 'Invalid session token format'
-      };
-    }
-
-    // Get user information from request headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User identification required'
-    };
-
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
-
-// Rate limiting check (simple implementation)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
-const RATE_LIMIT_MAX_REQUESTS = 10; // 10 server creations per minute
-
-function checkRateLimit(clientIP: string): { allowed: boolean; remaining: number; resetTime: number } {
-  const now = Date.now();
-  const clientData = rateLimitMap.get(clientIP);
-
-  if (!clientData || now > clientData.resetTime) {
-    // Reset or initialize rate limit
-    rateLimitMap.set(clientIP, {
-      count: 1,
-      resetTime: now + RATE_LIMIT_WINDOW
-    });
-    return {
-      allowed: true,
-      remaining: RATE_LIMIT_MAX_REQUESTS - 1,
-      resetTime: now + RATE_LIMIT_WINDOW
-    };
-  }
-
-  if (clientData.count >= RATE_LIMIT_MAX_REQUESTS) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetTime: clientData.resetTime
-    };
-  }
-
-  clientData.count++;
-  return {
-    allowed: true,
-    remaining: RATE_LIMIT_MAX_REQUESTS - clientData.count,
-    resetTime: clientData.resetTime
-  };
-}
-
 /**
  * POST /api/servers/create
  * Create a new server
  */
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
-    // Get client IP for rate limiting
-    const clientIP = request.headers.get('x-forwarded-for') ||
-                    request.headers.get('x-real-ip') ||
-                    'unknown';
-
-    // Check rate limit
-    const rateLimitResult = checkRateLimit(clientIP);
-    if (!rateLimitResult.allowed) {
-      return NextResponse.json({
-        success: false,
-        message: 'Rate limit exceeded. Please try again later.',
-        error: 'RATE_LIMIT_EXCEEDED'
-      }, {
-        status: 429,
-        headers: {
-          'X-RateLimit-Limit': RATE_LIMIT_MAX_REQUESTS.toString(),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': Math.ceil(rateLimitResult.resetTime / 1000).toString()
-        }
-      });
-    }
-
     // Feature gate: server creation
     const serverCreationEnabled = await getPublicFlag('NEXT_PUBLIC_SERVER_CREATION', process.env.NEXT_PUBLIC_SERVER_CREATION === 'true')
     if (!serverCreationEnabled) {
@@ -159,6 +48,12 @@ export async function POST(request: NextRequest) {
       }, { status: 401 });
     }
 
+    // Check rate limit
+    const rateLimitResult = await checkRateLimit(request, 'SERVER_CREATE', { user_id: authResult.user.id });
+    if (!rateLimitResult.allowed) {
+      return rateLimitExceededResponse(rateLimitResult, 'Rate limit exceeded. Please try again later.');
+    }
+
     // Parse and validate request body
     const body = await request.json();
     const validation = createServerSchema.safeParse(body);
@@ -195,7 +90,8 @@ export async function POST(request: NextRequest) {
         plan_id: createRequest.plan_id,
         environment_variables: createRequest.environment_variables,
         startup_command: createRequest.startup_command,
-        docker_image: createRequest.docker_image
+        docker_image: createRequest.docker_image,
+        promo_code: createRequest.promo_code || undefined
       };
 
       const result = await ServersController.createServer(user.id, serverCreationRequest);
@@ -216,9 +112,7 @@ export async function POST(request: NextRequest) {
 
       // Set rate limit headers
       const responseHeaders = {
-        'X-RateLimit-Limit': RATE_LIMIT_MAX_REQUESTS.toString(),
-        'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-        'X-RateLimit-Reset': Math.ceil(rateLimitResult.resetTime / 1000).toString()
+        ...rateLimitHeaders(rateLimitResult)
       };
 
       return NextResponse.json({
@@ -236,6 +130,7 @@ export async function POST(request: NextRequest) {
         cost_breakdown: {
           plan_cost: result.server?.billing.monthly_cost || 0,
           setup_fee: result.server?.billing.setup_fee_paid || 0,
+          discount: result.server?.billing.discount || null,
           total_cost: (result.server?.billing.monthly_cost || 0) + (result.server?.billing.setup_fee_paid || 0)
         }
       }, {
@@ -257,4 +152,4 @@ export async function POST(request: NextRequest) {
       message: 'An unexpected error occurred while creating server'
     }, { status: 500 });
   }
-}
+});
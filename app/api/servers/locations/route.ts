@@ -7,10 +7,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitHeaders, rateLimitExceededResponse } from '@/lib/security/rate-limit';
 import { locationOperations } from '@/hooks/managers/database/location';
-import { LocationStatus, LocationVisibility } from '@/database/tables/cythro_dash_locations';
+import { LocationCapacityHold, LocationStatus, LocationVisibility } from '@/database/tables/cythro_dash_locations';
 import { z } from 'zod';
 import { getCache, setCache, makeKey, shouldBypassCache, makeETagFromObject } from '@/lib/ttlCache';
+import { authenticateRequest } from '@/lib/auth/middleware';
 
 // Input validation schema for GET request
 const getServerLocationsSchema = z.object({
@@ -22,99 +24,6 @@ const getServerLocationsSchema = z.object({
   sort_order: z.enum(['asc', 'desc']).optional().default('asc'),
 });
 
-// Authentication function following the established pattern
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    // Get session token from cookies or Authorization header
-    const authHeader = request.headers.get('authorization');
-    const sessionToken = authHeader?.replace('Bearer ', '') ||
-                        request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    // Validate session token format (should be hex string)
-    const hexTokenRegex = /^[a-f0-9]{64}$/i; // 32 bytes = 64 hex characters
-    if (!hexTokenRegex.test(sessionToken)) {
-      return {
-        success: false,
-        error: 'Invalid session token format'
-      };
-    }
-
-    // Get user information from request headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User identification required'
-    };
-
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
-
-// Rate limiting check (simple implementation)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
-const RATE_LIMIT_MAX_REQUESTS = 60; // 60 requests per minute
-
-function checkRateLimit(clientIP: string): { allowed: boolean; remaining: number; resetTime: number } {
-  const now = Date.now();
-  const clientData = rateLimitMap.get(clientIP);
-
-  if (!clientData || now > clientData.resetTime) {
-    // Reset or initialize rate limit
-    rateLimitMap.set(clientIP, {
-      count: 1,
-      resetTime: now + RATE_LIMIT_WINDOW
-    });
-    return {
-      allowed: true,
-      remaining: RATE_LIMIT_MAX_REQUESTS - 1,
-      resetTime: now + RATE_LIMIT_WINDOW
-    };
-  }
-
-  if (clientData.count >= RATE_LIMIT_MAX_REQUESTS) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetTime: clientData.resetTime
-    };
-  }
-
-  clientData.count++;
-  return {
-    allowed: true,
-    remaining: RATE_LIMIT_MAX_REQUESTS - clientData.count,
-    resetTime: clientData.resetTime
-  };
-}
-
 // Calculate capacity status
 function getCapacityStatus(location: any): { status: 'available' | 'limited' | 'full'; percentage: number } {
   if (!location.total_capacity || !location.current_usage) {
@@ -144,26 +53,10 @@ function getCapacityStatus(location: any): { status: 'available' | 'limited' | '
  */
 export async function GET(request: NextRequest) {
   try {
-    // Get client IP for rate limiting
-    const clientIP = request.headers.get('x-forwarded-for') || 
-                    request.headers.get('x-real-ip') || 
-                    'unknown';
-
     // Check rate limit
-    const rateLimitResult = checkRateLimit(clientIP);
+    const rateLimitResult = await checkRateLimit(request, 'API', { scope: 'servers/locations' });
     if (!rateLimitResult.allowed) {
-      return NextResponse.json({
-        success: false,
-        message: 'Rate limit exceeded. Please try again later.',
-        error: 'RATE_LIMIT_EXCEEDED'
-      }, { 
-        status: 429,
-        headers: {
-          'X-RateLimit-Limit': RATE_LIMIT_MAX_REQUESTS.toString(),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': Math.ceil(rateLimitResult.resetTime / 1000).toString()
-        }
-      });
+      return rateLimitExceededResponse(rateLimitResult, 'Rate limit exceeded. Please try again later.');
     }
 
     // Apply authentication
@@ -215,10 +108,11 @@ export async function GET(request: NextRequest) {
     // Get public locations that are active and available for users
     const locations = await locationOperations.getPublicLocations();
     
-    // Filter locations based on status and availability
+    // Filter locations based on status and availability; full locations on a hidden hold are left out
     const availableLocations = locations.filter(location => 
       location.status === LocationStatus.ACTIVE &&
-      location.visibility === LocationVisibility.PUBLIC
+      location.visibility === LocationVisibility.PUBLIC &&
+      location.capacity_hold?.mode !== LocationCapacityHold.HIDDEN
     );
 
     // Transform locations for API response
@@ -236,9 +130,10 @@ export async function GET(request: NextRequest) {
         priority: location.priority,
         status: location.status,
         visibility: location.visibility,
+        waitlisted: location.capacity_hold?.mode === LocationCapacityHold.WAITLIST,
         
         // Capacity information
-        capacity_status: capacityStatus.status,
+        capacity_status: location.capacity_hold ? 'full' : capacityStatus.status,
         capacity_percentage: Math.round(capacityStatus.percentage),
         
         // Available resources (if capacity info is included)
@@ -320,9 +215,7 @@ export async function GET(request: NextRequest) {
 
     // Set rate limit headers
     const responseHeaders = {
-      'X-RateLimit-Limit': RATE_LIMIT_MAX_REQUESTS.toString(),
-      'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-      'X-RateLimit-Reset': Math.ceil(rateLimitResult.resetTime / 1000).toString()
+      ...rateLimitHeaders(rateLimitResult)
     };
 
     const payload = {
@@ -0,0 +1,56 @@
+/**
+ * CythroDash - Plan Price Quote API Route
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { planOperations } from '@/hooks/managers/database/plan';
+import { PlanStatus } from '@/database/tables/cythro_dash_plans';
+import { authenticateRequest } from '@/lib/auth/middleware';
+import { computePlanPrice, promoCodeErrorMessage } from '@/lib/pricing';
+
+const priceQuerySchema = z.object({
+  plan_id: z.string().min(1, 'Plan ID is required'),
+  promo_code: z.string().trim().max(64).optional()
+});
+
+/**
+ * GET /api/servers/plans/price?plan_id=&promo_code=
+ * What creating a server on this plan costs right now, with an optional promo code
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({ success: false, message: 'Authentication required', error: 'AUTHENTICATION_REQUIRED' }, { status: 401 });
+    }
+
+    const validation = priceQuerySchema.safeParse(Object.fromEntries(new URL(request.url).searchParams.entries()));
+    if (!validation.success) {
+      return NextResponse.json({ success: false, message: 'Invalid query parameters', errors: validation.error.errors }, { status: 400 });
+    }
+
+    const plan = await planOperations.getPlanById(validation.data.plan_id);
+    if (!plan || plan.status !== PlanStatus.ACTIVE) {
+      return NextResponse.json({ success: false, message: 'Plan not found', error: 'PLAN_NOT_FOUND' }, { status: 404 });
+    }
+
+    const quote = computePlanPrice(plan, { promo_code: validation.data.promo_code });
+    if (quote.promo_code_error) {
+      return NextResponse.json({
+        success: false,
+        message: promoCodeErrorMessage(quote.promo_code_error),
+        error: quote.promo_code_error
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, quote });
+  } catch (error) {
+    console.error('Plan price quote error:', error);
+    return NextResponse.json({ success: false, message: 'Internal server error', error: 'INTERNAL_ERROR' }, { status: 500 });
+  }
+}
@@ -7,11 +7,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitHeaders, rateLimitExceededResponse } from '@/lib/security/rate-limit';
 import { planOperations } from '@/hooks/managers/database/plan';
 import { locationOperations } from '@/hooks/managers/database/location';
 import { PlanStatus, BillingCycle } from '@/database/tables/cythro_dash_plans';
 import { z } from 'zod';
 import { getCache, setCache, makeKey, shouldBypassCache, makeETagFromObject } from '@/lib/ttlCache';
+import { authenticateRequest } from '@/lib/auth/middleware';
+import { computePlanPrice } from '@/lib/pricing';
 
 // Input validation schema for GET request
 const getServerPlansSchema = z.object({
@@ -27,132 +30,16 @@ const getServerPlansSchema = z.object({
   sort_order: z.enum(['asc', 'desc']).optional().default('asc'),
 });
 
-// Authentication function following the established pattern
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    // Get session token from cookies or Authorization header
-    const authHeader = request.headers.get('authorization');
-    const sessionToken = authHeader?.replace('Bearer ', '') ||
-                        request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    // Validate session token format (should be hex string)
-    const hexTokenRegex = /^[a-f0-9]{64}$/i; // 32 bytes = 64 hex characters
-    if (!hexTokenRegex.test(sessionToken)) {
-      return {
-        success: false,
-        error: 'Invalid session token format'
-      };
-    }
-
-    // Get user information from request headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User identification required'
-    };
-
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
-
-// Rate limiting check (simple implementation)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-const RATE_LIMIT_WINDOW = 60 * 1000; // 1 minute
-const RATE_LIMIT_MAX_REQUESTS = 60; // 60 requests per minute
-
-function checkRateLimit(clientIP: string): { allowed: boolean; remaining: number; resetTime: number } {
-  const now = Date.now();
-  const clientData = rateLimitMap.get(clientIP);
-
-  if (!clientData || now > clientData.resetTime) {
-    // Reset or initialize rate limit
-    rateLimitMap.set(clientIP, {
-      count: 1,
-      resetTime: now + RATE_LIMIT_WINDOW
-    });
-    return {
-      allowed: true,
-      remaining: RATE_LIMIT_MAX_REQUESTS - 1,
-      resetTime: now + RATE_LIMIT_WINDOW
-    };
-  }
-
-  if (clientData.count >= RATE_LIMIT_MAX_REQUESTS) {
-    return {
-      allowed: false,
-      remaining: 0,
-      resetTime: clientData.resetTime
-    };
-  }
-
-  clientData.count++;
-  return {
-    allowed: true,
-    remaining: RATE_LIMIT_MAX_REQUESTS - clientData.count,
-    resetTime: clientData.resetTime
-  };
-}
-
-// Calculate effective price with promotions
-function calculateEffectivePrice(plan: any): { original_price: number; effective_price: number; discount?: { type: string; amount: number } } {
-  const originalPrice = plan.price;
-  let effectivePrice = originalPrice;
-  let discount = null;
-
-  if (plan.promotion) {
-    const now = new Date();
-    const validUntil = plan.promotion.valid_until ? new Date(plan.promotion.valid_until) : null;
-    
-    // Check if promotion is still valid
-    if (!validUntil || now <= validUntil) {
-      if (plan.promotion.discount_percentage && plan.promotion.discount_percentage > 0) {
-        const discountAmount = (originalPrice * plan.promotion.discount_percentage) / 100;
-        effectivePrice = Math.max(0, originalPrice - discountAmount);
-        discount = {
-          type: 'percentage',
-          amount: plan.promotion.discount_percentage
-        };
-      } else if (plan.promotion.discount_amount && plan.promotion.discount_amount > 0) {
-        effectivePrice = Math.max(0, originalPrice - plan.promotion.discount_amount);
-        discount = {
-          type: 'fixed',
-          amount: plan.promotion.discount_amount
-        };
-      }
-    }
-  }
+// Calculate effective price with promotions (promo code promotions are only priced at checkout)
+function calculateEffectivePrice(plan: any): { original_price: number; effective_price: number; discount?: { type: string; amount: number }; promo_code_available: boolean } {
+  const quote = computePlanPrice(plan);
+  const promoValidUntil = plan.promotion?.valid_until ? new Date(plan.promotion.valid_until) : null;
 
   return {
-    original_price: originalPrice,
-    effective_price: effectivePrice,
-    ...(discount && { discount })
+    original_price: quote.base_price,
+    effective_price: quote.price,
+    ...(quote.discount && { discount: { type: quote.discount.type, amount: quote.discount.value } }),
+    promo_code_available: !!plan.promotion?.promo_code && (!promoValidUntil || new Date() <= promoValidUntil)
   };
 }
 
@@ -162,26 +49,10 @@ function calculateEffectivePrice(plan: any): { original_price: number; effective
  */
 export async function GET(request: NextRequest) {
   try {
-    // Get client IP for rate limiting
-    const clientIP = request.headers.get('x-forwarded-for') || 
-                    request.headers.get('x-real-ip') || 
-                    'unknown';
-
     // Check rate limit
-    const rateLimitResult = checkRateLimit(clientIP);
+    const rateLimitResult = await checkRateLimit(request, 'API', { scope: 'servers/plans' });
     if (!rateLimitResult.allowed) {
-      return NextResponse.json({
-        success: false,
-        message: 'Rate limit exceeded. Please try again later.',
-        error: 'RATE_LIMIT_EXCEEDED'
-      }, { 
-        status: 429,
-        headers: {
-          'X-RateLimit-Limit': RATE_LIMIT_MAX_REQUESTS.toString(),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': Math.ceil(rateLimitResult.resetTime / 1000).toString()
-        }
-      });
+      return rateLimitExceededResponse(rateLimitResult, 'Rate limit exceeded. Please try again later.');
     }
 
     // Apply authentication
@@ -299,7 +170,9 @@ export async function GET(request: NextRequest) {
         // Promotion info (if active)
         ...(pricing.discount && {
           promotion: {
-            ...plan.promotion,
+            discount_percentage: plan.promotion?.discount_percentage,
+            discount_amount: plan.promotion?.discount_amount,
+            valid_until: plan.promotion?.valid_until,
             active: true
           }
         }),
@@ -367,9 +240,7 @@ export async function GET(request: NextRequest) {
 
     // Set rate limit headers
     const responseHeaders = {
-      'X-RateLimit-Limit': RATE_LIMIT_MAX_REQUESTS.toString(),
-      'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-      'X-RateLimit-Reset': Math.ceil(rateLimitResult.resetTime / 1000).toString()
+      ...rateLimitHeaders(rateLimitResult)
     };
 
     const payload = {
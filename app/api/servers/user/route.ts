@@ -7,8 +7,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { checkRateLimit, rateLimitHeaders, rateLimitExceededResponse } from '@/lib/security/rate-limit';
 import ServersController from '@/hooks/managers/controller/User/Servers';
 import { z } from 'zod';
+import { authenticateRequest } from '@/lib/auth/middleware';
 
 // Background CRON job trigger function
 async function triggerServerLifecycleCron(): Promise<void> {
@@ -66,122 +68,16 @@ const getUserServersSchema = z.object({
   skip: z.coerce.number().min(0).optional(),
 });
 
-// Authentication function following the established pattern
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    // Get session token from cookies or Authorization header
-    const authHeader = request.headers.get('authorization');
-    const sessionToken = authHeader?.replace('Bearer ', '') ||
-                        request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    // Validate session token format (should be hex string)
-    const hexTokenRegex = /^[a-f0-9]{64}$/i; // 32 bytes = 64 hex characters
-    if (!hexTokenRegex.test(sessionToken)) {
-      return {
-        success: false,
-        error: 'Invalid session token format'
-      };
-    }
-
-    // Get user information from request headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-        return {
-          success: true,
-          user: userData
-        };
-      } catch (parseError) {
-        return {
-          success: false,
-          error: 'Invalid user data format'
-        };
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User data not found in request headers'
-    };
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
-
-// Rate limiting configuration
-const RATE_LIMIT_MAX_REQUESTS = 60; // Max requests per window
-const RATE_LIMIT_WINDOW_MS = 60 * 1000; // 1 minute window
-
-// Simple in-memory rate limiting
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-
-function checkRateLimit(clientIP: string): { allowed: boolean; remaining: number; resetTime: number } {
-  const now = Date.now();
-  const windowStart = Math.floor(now / RATE_LIMIT_WINDOW_MS) * RATE_LIMIT_WINDOW_MS;
-  const resetTime = windowStart + RATE_LIMIT_WINDOW_MS;
-  
-  const key = `${clientIP}:${windowStart}`;
-  const current = rateLimitMap.get(key) || { count: 0, resetTime };
-  
-  if (current.count >= RATE_LIMIT_MAX_REQUESTS) {
-    return { allowed: false, remaining: 0, resetTime };
-  }
-  
-  current.count++;
-  rateLimitMap.set(key, current);
-  
-  // Clean up old entries
-  for (const [mapKey, value] of rateLimitMap.entries()) {
-    if (value.resetTime <= now) {
-      rateLimitMap.delete(mapKey);
-    }
-  }
-  
-  return { 
-    allowed: true, 
-    remaining: RATE_LIMIT_MAX_REQUESTS - current.count, 
-    resetTime 
-  };
-}
-
 /**
  * GET /api/servers/user
  * Get user's servers with optional filtering
  */
 export async function GET(request: NextRequest) {
   try {
-    // Get client IP for rate limiting
-    const clientIP = request.headers.get('x-forwarded-for') || 
-                    request.headers.get('x-real-ip') || 
-                    'unknown';
-
     // Check rate limit
-    const rateLimitResult = checkRateLimit(clientIP);
+    const rateLimitResult = await checkRateLimit(request, 'API', { scope: 'servers/user' });
     if (!rateLimitResult.allowed) {
-      return NextResponse.json({
-        success: false,
-        message: 'Rate limit exceeded. Please try again later.',
-        error: 'RATE_LIMIT_EXCEEDED'
-      }, { 
-        status: 429,
-        headers: {
-          'X-RateLimit-Limit': RATE_LIMIT_MAX_REQUESTS.toString(),
-          'X-RateLimit-Remaining': '0',
-          'X-RateLimit-Reset': Math.ceil(rateLimitResult.resetTime / 1000).toString()
-        }
-      });
+      return rateLimitExceededResponse(rateLimitResult, 'Rate limit exceeded. Please try again later.');
     }
 
     // Authenticate user
@@ -224,9 +120,7 @@ export async function GET(request: NextRequest) {
 
     // Set rate limit headers
     const responseHeaders = {
-      'X-RateLimit-Limit': RATE_LIMIT_MAX_REQUESTS.toString(),
-      'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-      'X-RateLimit-Reset': Math.ceil(rateLimitResult.resetTime / 1000).toString()
+      ...rateLimitHeaders(rateLimitResult)
     };
 
     if (!result.success) {
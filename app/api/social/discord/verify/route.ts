@@ -7,66 +7,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { DiscordVerificationController } from '@/hooks/managers/controller/Social/DiscordVerification';
 import { z } from 'zod';
-
-// Rate limiting map (in production, use Redis)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-
-// Authentication function following the established pattern
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    // Get session token from cookies or Authorization header
-    const authHeader = request.headers.get('authorization');
-    const sessionToken = authHeader?.replace('Bearer ', '') ||
-                        request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    // Validate session token format (should be hex string)
-    const hexTokenRegex = /^[a-f0-9]{64}$/i; // 32 bytes = 64 hex characters
-    if (!hexTokenRegex.test(sessionToken)) {
-      return {
-        success: false,
-        error: 'Invalid session token format'
-      };
-    }
-
-    // Get user information from request headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User identification required'
-    };
-
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
+import { authenticateRequest } from '@/lib/auth/middleware';
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/security/rate-limit';
 
 // Input validation schema
 const verifyDiscordSchema = z.object({
@@ -79,7 +24,7 @@ const verifyDiscordSchema = z.object({
  * POST /api/social/discord/verify
  * Handle Discord verification actions
  */
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     // Authentication
     const authResult = await authenticateRequest(request);
@@ -93,26 +38,9 @@ export async function POST(request: NextRequest) {
     const userId = authResult.user.id;
 
     // Rate limiting
-    const clientIp = request.headers.get('x-forwarded-for') || 
-                     request.headers.get('x-real-ip') || 
-                     'unknown';
-    const rateLimitKey = `discord_verify_${userId}_${clientIp}`;
-    const now = Date.now();
-    const windowMs = 5 * 60 * 1000; // 5 minutes
-    const maxAttempts = 10;
-
-    const current = rateLimitMap.get(rateLimitKey);
-    if (current && current.resetTime > now) {
-      if (current.count >= maxAttempts) {
-        return NextResponse.json({
-          success: false,
-          message: 'Too many verification attempts. Please try again later.',
-          error: 'RATE_LIMITED'
-        }, { status: 429 });
-      }
-      current.count++;
-    } else {
-      rateLimitMap.set(rateLimitKey, { count: 1, resetTime: now + windowMs });
+    const rateLimit = await checkRateLimit(request, 'DISCORD_VERIFY', { user_id: userId });
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, 'Too many verification attempts. Please try again later.');
     }
 
     // Parse and validate request body
@@ -130,6 +58,9 @@ export async function POST(request: NextRequest) {
     const { action, verification_id, guild_id } = validationResult.data;
 
     // Get request metadata
+    const clientIp = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown';
     const userAgent = request.headers.get('user-agent') || 'unknown';
 
     switch (action) {
@@ -226,7 +157,7 @@ export async function POST(request: NextRequest) {
       error: 'INTERNAL_ERROR'
     }, { status: 500 });
   }
-}
+});
 
 /**
  * GET /api/social/discord/verify
@@ -5,51 +5,13 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { z } from 'zod';
 import { transferOperations } from '@/hooks/managers/database/transfers';
+import { ServerLifecycleController } from '@/hooks/managers/controller/User/server-lifecycle';
 import { getPublicFlag } from '@/lib/public-settings'
-
-// Authentication function
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    const sessionToken = request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User identification required'
-    };
-
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
+import { authenticateRequest } from '@/lib/auth/middleware';
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/security/rate-limit';
 
 // Get client IP
 function getClientIP(request: NextRequest): string {
@@ -88,7 +50,7 @@ const getTransfersSchema = z.object({
  * POST /api/transfers
  * Create a new transfer
  */
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     // Feature gate: transfers
     const transfersEnabled = await getPublicFlag('NEXT_PUBLIC_TRANSFERS', process.env.NEXT_PUBLIC_TRANSFERS === 'true')
@@ -109,6 +71,12 @@ export async function POST(request: NextRequest) {
       }, { status: 401 });
     }
 
+    // Check rate limit
+    const rateLimit = await checkRateLimit(request, 'TRANSFER', { user_id: authResult.user.id });
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, 'Too many transfers. Please try again later.');
+    }
+
     const requestData = await request.json();
     console.log('Create transfer request:', { ...requestData, amount: requestData.amount });
 
@@ -142,6 +110,10 @@ export async function POST(request: NextRequest) {
 
     if (result.success) {
       console.log('Transfer created successfully:', result.transfer?.id);
+      // The recipient may now be able to cover an overdue server
+      if (result.transfer?.to_user_id) {
+        await ServerLifecycleController.settleOverdueForUser(result.transfer.to_user_id);
+      }
       return NextResponse.json({
         success: true,
         message: result.message,
@@ -164,7 +136,7 @@ export async function POST(request: NextRequest) {
       error: 'INTERNAL_ERROR'
     }, { status: 500 });
   }
-}
+});
 
 /**
  * GET /api/transfers
@@ -238,7 +210,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-user-data',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
 }
@@ -7,54 +7,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { transferOperations } from '@/hooks/managers/database/transfers';
 import { getPublicFlag } from '@/lib/public-settings'
+import { authenticateRequest } from '@/lib/auth/middleware';
 
 async function maintenanceEnabled() {
   try { return await getPublicFlag('NEXT_PUBLIC_MAINTENANCE_MODE', process.env.NEXT_PUBLIC_MAINTENANCE_MODE === 'true') } catch { return process.env.NEXT_PUBLIC_MAINTENANCE_MODE === 'true' }
 }
 
-// Authentication function
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    const sessionToken = request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User identification required'
-    };
-
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
-
-
 /**
  * GET /api/transfers/search-users
  * Search users for transfer (fast autocomplete)
@@ -122,7 +80,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-user-data',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     },
   });
 }
@@ -10,27 +10,34 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { UserDetailsController, ChangePasswordRequest } from '@/hooks/managers/controller/User/Details';
 import { z } from 'zod';
+import { authMiddleware } from '@/lib/auth/middleware';
 
 // Input validation schema for password changes
 const changePasswordSchema = z.object({
   user_id: z.number().int().positive(),
   current_password: z.string().min(1, 'Current password is required'),
-  new_password: z.string().min(8, 'New password must be at least 8 characters long')
-    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain at least one uppercase letter, one lowercase letter, and one number'),
+  new_password: z.string().min(1, 'New password is required').max(128), // Policy applied by the controller
   confirm_password: z.string().min(1, 'Password confirmation is required')
 }).refine((data) => data.new_password === data.confirm_password, {
   message: "New passwords don't match",
   path: ["confirm_password"],
 });
 
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     console.log('Password change API called');
 
+    // Resolve the user from the session; the body may not pick another account
+    const authResult = await authMiddleware(request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
     // Parse and validate request body
-    const body = await request.json();
+    const body = { ...(await request.json()), user_id: authResult.user.id };
     console.log('Password change request for user:', body.user_id);
 
     const inputValidation = changePasswordSchema.safeParse(body);
@@ -106,7 +113,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -7,9 +7,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { z } from 'zod';
 import { DailyLoginController } from '@/hooks/managers/database/daily-logins';
 import { UserDetailsController } from '@/hooks/managers/controller/User/Details';
+import { checkRateLimit, rateLimitExceededResponse } from '@/lib/security/rate-limit';
 
 // Input validation schemas
 const claimBonusSchema = z.object({
@@ -32,86 +34,9 @@ const requestSchema = z.discriminatedUnion('action', [
   getHistorySchema
 ]);
 
-// Rate limiting map (in production, use Redis or database)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-
-// Authentication function following the established pattern
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    // Get session token from cookies or Authorization header
-    const authHeader = request.headers.get('authorization');
-    const sessionToken = authHeader?.replace('Bearer ', '') ||
-                        request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'Authentication required'
-      };
-    }
-
-    // Basic session token validation
-    if (typeof sessionToken !== 'string' || sessionToken.length < 10) {
-      return {
-        success: false,
-        error: 'Invalid session token format'
-      };
-    }
-
-    // Get user information from request headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-
-        if (userData && userData.id && userData.username && userData.email) {
-          return {
-            success: true,
-            user: userData
-          };
-        }
-      } catch (parseError) {
-        console.error('Error parsing user data header:', parseError);
-      }
-    }
-
-    return {
-      success: false,
-      error: 'User data not found in request headers'
-    };
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
-
-// Rate limiting function
-function checkRateLimit(userId: number, action: string): boolean {
-  const key = `${userId}-${action}`;
-  const now = Date.now();
-  const windowMs = 60 * 1000; // 1 minute window
-  const maxRequests = action === 'claim' ? 5 : 20; // Stricter limit for claims
-
-  const current = rateLimitMap.get(key);
-  
-  if (!current || now > current.resetTime) {
-    rateLimitMap.set(key, { count: 1, resetTime: now + windowMs });
-    return true;
-  }
-
-  if (current.count >= maxRequests) {
-    return false;
-  }
-
-  current.count++;
-  return true;
-}
-
 // Get environment configuration (DB-first with env fallback)
 import { getPublicFlag, getPublicNumber } from '@/lib/public-settings'
+import { authenticateRequest } from '@/lib/auth/middleware';
 async function getDailyLoginConfig() {
   const enabled = await getPublicFlag('NEXT_PUBLIC_DAILY_LOGIN_BONUS', process.env.NEXT_PUBLIC_DAILY_LOGIN_BONUS === 'true');
   const amount = await getPublicNumber('NEXT_PUBLIC_DAILY_LOGIN_BONUS_AMOUNT', Number(process.env.NEXT_PUBLIC_DAILY_LOGIN_BONUS_AMOUNT || '10'));
@@ -126,7 +51,7 @@ async function getDailyLoginConfig() {
  * Handle daily login bonus requests
  * POST /api/user/daily-login
  */
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     // Check if daily login bonus is enabled
     const config = await getDailyLoginConfig();
@@ -163,11 +88,12 @@ export async function POST(request: NextRequest) {
     const { action } = validation.data;
 
     // Check rate limiting
-    if (!checkRateLimit(user.id, action)) {
-      return NextResponse.json({
-        success: false,
-        message: 'Rate limit exceeded. Please try again later.'
-      }, { status: 429 });
+    // Claims are stricter than status and history checks
+    const rateLimit = action === 'claim'
+      ? await checkRateLimit(request, 'DAILY_LOGIN_CLAIM', { user_id: user.id })
+      : await checkRateLimit(request, 'API', { user_id: user.id, scope: `daily-login-${action}` });
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, 'Rate limit exceeded. Please try again later.');
     }
 
     // Get client IP for logging
@@ -231,7 +157,12 @@ export async function POST(request: NextRequest) {
           const updateResult = await UserDetailsController.updateUserCoins( 
             user.id,
             claimResult.data.coins_awarded,
-            'Daily Login Bonus'
+            'Daily Login Bonus',
+            {
+              source_category: 'daily_login',
+              reference_id: claimResult.data.login_id,
+              idempotency_key: `daily_login:${user.id}:${claimResult.data.login_date}`
+            }
           );
 
           if (!updateResult.success) {
@@ -290,7 +221,7 @@ export async function POST(request: NextRequest) {
       message: 'Internal server error'
     }, { status: 500 });
   }
-}
+});
 
 /**
  * Get daily login statistics
@@ -319,11 +250,9 @@ export async function GET(request: NextRequest) {
     const user = authResult.user!;
 
     // Check rate limiting
-    if (!checkRateLimit(user.id, 'stats')) {
-      return NextResponse.json({
-        success: false,
-        message: 'Rate limit exceeded. Please try again later.'
-      }, { status: 429 });
+    const rateLimit = await checkRateLimit(request, 'API', { user_id: user.id, scope: 'daily-login-stats' });
+    if (!rateLimit.allowed) {
+      return rateLimitExceededResponse(rateLimit, 'Rate limit exceeded. Please try again later.');
     }
 
     // Get user's daily login statistics
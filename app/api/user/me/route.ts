@@ -6,64 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { userOperations } from '@/hooks/managers/database/user';
-
-// Authentication function following your existing pattern
-async function authenticateRequest(request: NextRequest): Promise<{ success: boolean; user?: any; error?: string }> {
-  try {
-    // Get session token from cookies
-    const sessionToken = request.cookies.get('session_token')?.value;
-
-    if (!sessionToken) {
-      return {
-        success: false,
-        error: 'No session token found'
-      };
-    }
-
-    // Validate session token format (should be hex string)
-    const hexTokenRegex = /^[a-f0-9]{64}$/i; // 32 bytes = 64 hex characters
-    if (!hexTokenRegex.test(sessionToken)) {
-      return {
-        success: false,
-        error: 'Invalid session token format'
-      };
-    }
-
-    // Get user information from request headers (preferred)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-        if (userData && userData.id && userData.username && userData.email) {
-          return { success: true, user: userData };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
-    }
-
-    // Fallback: try x_user_data cookie set by the server during login/OAuth
-    const userDataCookie = request.cookies.get('x_user_data')?.value;
-    if (userDataCookie) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataCookie));
-        if (userData && userData.id && userData.username && userData.email) {
-          return { success: true, user: userData };
-        }
-      } catch (e) {
-        // ignore parse error
-      }
-    }
-
-    return { success: false, error: 'User identification required' };
-  } catch (error) {
-    console.error('Authentication error:', error);
-    return {
-      success: false,
-      error: 'Authentication failed'
-    };
-  }
-}
+import { authenticateRequest } from '@/lib/auth/middleware';
 
 export async function GET(request: NextRequest) {
   try {
@@ -102,6 +45,8 @@ export async function GET(request: NextRequest) {
         first_name: user.first_name,
         last_name: user.last_name,
         role: user.role,
+        role_id: sessionResult.user.role_id,
+        permissions: sessionResult.user.permissions,
         coins: user.coins || 0,
         avatar_url: user.avatar_url || null,
         created_at: user.created_at,
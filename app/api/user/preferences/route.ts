@@ -7,6 +7,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { authMiddleware } from '@/lib/auth/middleware';
 import { UserDetailsController, UpdateUserProfileRequest } from '@/hooks/managers/controller/User/Details';
 import { UserTheme, UserLanguage } from '@/database/tables/cythro_dash_users';
@@ -55,7 +56,7 @@ const mapLanguageToDatabase = (language: string): UserLanguage => {
   }
 };
 
-export async function PATCH(request: NextRequest) {
+export const PATCH = withCsrf(async function PATCH(request: NextRequest) {
   try {
     console.log('Preferences update API called');
 
@@ -141,7 +142,7 @@ export async function PATCH(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 export async function GET(request: NextRequest) {
   try {
@@ -7,6 +7,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { authMiddleware } from '@/lib/auth/middleware';
 import { UserDetailsController, UpdateUserProfileRequest } from '@/hooks/managers/controller/User/Details';
 import { UserTheme, UserLanguage } from '@/database/tables/cythro_dash_users';
@@ -114,7 +115,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function PATCH(request: NextRequest) {
+export const PATCH = withCsrf(async function PATCH(request: NextRequest) {
   try {
     // Authenticate user
     const authResult = await authMiddleware(request);
@@ -193,7 +194,7 @@ export async function PATCH(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -9,9 +9,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { SecurityLogsController, GetUserLogsRequest } from '@/hooks/managers/controller/Security/Logs';
 import { SecurityLogAction, SecurityLogSeverity, SecurityLogStatus } from '@/database/tables/cythro_dash_users_logs';
 import { z } from 'zod';
+import { authMiddleware } from '@/lib/auth/middleware';
 
 // Input validation schema for getting security logs
 const getLogsSchema = z.object({
@@ -44,12 +46,18 @@ const getBothSchema = z.object({
   days: z.number().int().min(1).max(365).optional(),
 });
 
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     console.log('Security logs API called');
 
+    // Resolve the user from the session; the body may not pick another account
+    const authResult = await authMiddleware(request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
     // Parse and validate request body
-    const body = await request.json();
+    const body = { ...(await request.json()), user_id: authResult.user.id };
     const { action, ...requestData } = body;
 
     if (action === 'get_logs') {
@@ -81,7 +89,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 async function handleGetLogs(requestData: any): Promise<NextResponse> {
   console.log('Getting security logs:', requestData);
@@ -0,0 +1,92 @@
+/**
+ * CythroDash - User Sessions API Route
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
+import { z } from 'zod';
+import { authMiddleware } from '@/lib/auth/middleware';
+import { SessionsController } from '@/hooks/managers/controller/Security/Sessions';
+import { getClientIP } from '@/lib/security/config';
+
+// Either a single session id, or scope "others" to log out everywhere else
+const revokeSchema = z.union([
+  z.object({ session_id: z.string().min(1).max(64) }),
+  z.object({ scope: z.literal('others') }),
+]);
+
+/**
+ * GET /api/user/sessions
+ * List the current user's active sessions
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const sessions = await SessionsController.listUserSessions(authResult.user.id, authResult.user.session_id);
+
+    return NextResponse.json({
+      success: true,
+      sessions
+    });
+  } catch (error) {
+    console.error('GET /api/user/sessions error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to load sessions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/user/sessions
+ * Revoke one session ({ session_id }) or all other sessions ({ scope: "others" })
+ */
+export const DELETE = withCsrf(async function DELETE(request: NextRequest) {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = revokeSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, message: 'Provide a session_id or scope "others"' },
+        { status: 400 }
+      );
+    }
+
+    const user = authResult.user;
+    const context = {
+      actor_id: user.id,
+      current_session_id: user.session_id,
+      ip_address: getClientIP(request),
+      user_agent: request.headers.get('user-agent') || 'unknown'
+    };
+
+    const result = 'session_id' in validation.data
+      ? await SessionsController.revokeSession(user.id, validation.data.session_id, context)
+      : await SessionsController.revokeOtherSessions(user.id, context);
+
+    if (!result.success) {
+      return NextResponse.json(result, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('DELETE /api/user/sessions error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to revoke session' },
+      { status: 500 }
+    );
+  }
+});
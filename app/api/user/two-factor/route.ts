@@ -0,0 +1,138 @@
+/**
+ * CythroDash - User Two-Factor Authentication API Route
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
+import { z } from 'zod';
+import { authMiddleware } from '@/lib/auth/middleware';
+import { TwoFactorController } from '@/hooks/managers/controller/Auth/TwoFactor';
+import { getClientIP } from '@/lib/security/config';
+
+// Enrollment is two steps: "setup" issues a secret, "enable" confirms it with a code
+const enrollSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('setup') }),
+  z.object({ action: z.literal('enable'), code: z.string().trim().min(6).max(10) }),
+]);
+
+const disableSchema = z.object({
+  password: z.string().max(128).optional().default(''),
+  code: z.string().trim().min(6, 'Verification code is required').max(20)
+});
+
+/**
+ * GET /api/user/two-factor
+ * Current 2FA status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const status = await TwoFactorController.getStatus(authResult.user.id);
+    if (!status) {
+      return NextResponse.json({ success: false, message: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, two_factor: status });
+  } catch (error) {
+    console.error('GET /api/user/two-factor error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Failed to load two-factor status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/user/two-factor
+ * { action: "setup" } or { action: "enable", code }
+ */
+export const POST = withCsrf(async function POST(request: NextRequest) {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = enrollSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid request data' },
+        { status: 400 }
+      );
+    }
+
+    const userId = authResult.user.id;
+
+    if (validation.data.action === 'setup') {
+      const result = await TwoFactorController.beginSetup(userId);
+      return NextResponse.json(result, { status: result.success ? 200 : 400 });
+    }
+
+    const result = await TwoFactorController.enableTwoFactor(userId, validation.data.code, {
+      ip_address: getClientIP(request),
+      user_agent: request.headers.get('user-agent') || undefined
+    });
+    return NextResponse.json(result, { status: result.success ? 200 : 400 });
+  } catch (error) {
+    console.error('POST /api/user/two-factor error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/user/two-factor
+ * Disable 2FA; requires the account password and a current code
+ */
+export const DELETE = withCsrf(async function DELETE(request: NextRequest) {
+  try {
+    const authResult = await authMiddleware(request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validation = disableSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid request data',
+          errors: validation.error.errors.map(err => ({
+            field: err.path.join('.'),
+            message: err.message
+          }))
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await TwoFactorController.disableTwoFactor(
+      authResult.user.id,
+      validation.data.password,
+      validation.data.code,
+      {
+        ip_address: getClientIP(request),
+        user_agent: request.headers.get('user-agent') || undefined
+      }
+    );
+    return NextResponse.json(result, { status: result.success ? 200 : 400 });
+  } catch (error) {
+    console.error('DELETE /api/user/two-factor error:', error);
+    return NextResponse.json(
+      { success: false, message: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -10,9 +10,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { withCsrf } from '@/lib/security/csrf';
 import { UserDetailsController, UpdateUserProfileRequest } from '@/hooks/managers/controller/User/Details';
 import { UserTheme, UserLanguage } from '@/database/tables/cythro_dash_users';
 import { z } from 'zod';
+import { authMiddleware } from '@/lib/auth/middleware';
 
 // Input validation schema for profile updates
 const updateProfileSchema = z.object({
@@ -70,12 +72,18 @@ const mapLanguageToDatabase = (language: string): UserLanguage => {
   }
 };
 
-export async function POST(request: NextRequest) {
+export const POST = withCsrf(async function POST(request: NextRequest) {
   try {
     console.log('Profile update API called');
 
+    // Resolve the user from the session; the body may not pick another account
+    const authResult = await authMiddleware(request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
     // Parse and validate request body
-    const body = await request.json();
+    const body = { ...(await request.json()), user_id: authResult.user.id };
     console.log('Request body:', body);
 
     const inputValidation = updateProfileSchema.safeParse(body);
@@ -159,7 +167,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -0,0 +1,62 @@
+"use client"
+
+import React, { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { useSearchParams } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import Icon from "@/components/IconProvider"
+import { apiFetch } from "@/lib/api-fetch"
+
+type ConfirmState = 'confirming' | 'confirmed' | 'failed'
+
+export default function ConfirmLoginPage() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token') || ''
+  const [state, setState] = useState<ConfirmState>(token ? 'confirming' : 'failed')
+  const [message, setMessage] = useState(token ? '' : 'This confirmation link is incomplete.')
+  const started = useRef(false)
+
+  useEffect(() => {
+    // Tokens are single use; avoid a second request from strict-mode double effects
+    if (!token || started.current) return
+    started.current = true
+    apiFetch('/api/auth/login/confirm-device', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token })
+    })
+      .then(res => res.json())
+      .then(json => {
+        setState(json.success ? 'confirmed' : 'failed')
+        setMessage(json.message || '')
+      })
+      .catch(() => {
+        setState('failed')
+        setMessage('Could not confirm this sign-in. Please try again.')
+      })
+  }, [token])
+
+  return (
+    <div className="min-h-screen bg-neutral-900 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-neutral-800/40 border border-neutral-700/50 backdrop-blur">
+        <CardHeader className="space-y-1 text-center">
+          <CardTitle className="text-2xl font-bold text-white">Confirm sign-in</CardTitle>
+          <CardDescription className="text-neutral-400">Approve a sign-in from a new device or location.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {state === 'confirming' && <div className="text-sm text-neutral-400 text-center">Confirming your sign-in...</div>}
+          {(state === 'confirmed' || state === 'failed') && (
+            <Alert className="border-neutral-600/40 bg-neutral-800/60">
+              <Icon name={state === 'confirmed' ? "CheckCircle" : "AlertCircle"} className="h-4 w-4 text-neutral-300" />
+              <AlertDescription className="text-neutral-300">{message}</AlertDescription>
+            </Alert>
+          )}
+          <div className="text-center text-sm">
+            <Link href="/login" className="text-neutral-300 hover:text-white">Go to sign in</Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
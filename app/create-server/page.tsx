@@ -27,6 +27,15 @@ interface WizardState {
   serverName: string
 }
 
+// Response of /api/servers/plans/price
+interface PlanPriceQuote {
+  base_price: number
+  price: number
+  setup_fee: number
+  total: number
+  discount: { type: 'percentage' | 'fixed'; value: number; amount: number; source: 'promotion' | 'promo_code'; promo_code?: string } | null
+}
+
 const STEPS = [
   { id: 1, title: 'Server Type', icon: Server },
   { id: 2, title: 'Software', icon: Package },
@@ -78,12 +87,59 @@ export default function CreateServerPage() {
 
   const { credits, lastFetch: creditsLastFetch, fetchCredits } = useCreditsStore()
 
+  // Checkout price for the selected plan, with the promo code if one was applied
+  const [promoCode, setPromoCode] = useState('')
+  const [priceQuote, setPriceQuote] = useState<PlanPriceQuote | null>(null)
+  const [promoError, setPromoError] = useState<string | null>(null)
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false)
+
+  const fetchPriceQuote = React.useCallback(async (planId: string, code?: string): Promise<{ quote?: PlanPriceQuote; message?: string }> => {
+    try {
+      const qs = new URLSearchParams({ plan_id: planId, ...(code ? { promo_code: code } : {}) })
+      const res = await fetch(`/api/servers/plans/price?${qs.toString()}`, { credentials: 'include' })
+      const data = await res.json()
+      return data.success ? { quote: data.quote } : { message: data.message || 'Invalid promo code' }
+    } catch {
+      return { message: 'Failed to check the price' }
+    }
+  }, [])
+
   // Load initial data
   useEffect(() => {
     void fetchServerTypes()
     void fetchLocations()
   }, [fetchServerTypes, fetchLocations])
 
+  // Re-price whenever the plan changes; a promo code applies to one plan only
+  useEffect(() => {
+    const planId = wizardState.selectedPlan?.id
+    setPriceQuote(null)
+    setPromoError(null)
+    setPromoCode('')
+    if (!planId) return
+    let cancelled = false
+    void fetchPriceQuote(planId).then(({ quote }) => {
+      if (!cancelled && quote) setPriceQuote(quote)
+    })
+    return () => { cancelled = true }
+  }, [wizardState.selectedPlan?.id, fetchPriceQuote])
+
+  const handleApplyPromo = async () => {
+    const planId = wizardState.selectedPlan?.id
+    const code = promoCode.trim()
+    if (!planId || !code) return
+    setIsApplyingPromo(true)
+    setPromoError(null)
+    const { quote, message } = await fetchPriceQuote(planId, code)
+    if (quote) {
+      setPriceQuote(quote)
+      showSuccess('Promo code applied')
+    } else {
+      setPromoError(message || 'Invalid promo code')
+    }
+    setIsApplyingPromo(false)
+  }
+
   // Load software when server type is selected
   useEffect(() => {
     if (wizardState.selectedServerType) {
@@ -148,6 +204,7 @@ export default function CreateServerPage() {
         server_software_id: wizardState.selectedSoftware.id,
         location_id: wizardState.selectedLocation.id,
         plan_id: wizardState.selectedPlan.id,
+        promo_code: priceQuote?.discount?.promo_code,
       })
 
       if (result.success) {
@@ -162,7 +219,7 @@ export default function CreateServerPage() {
   }
 
   const progressPercentage = (wizardState.currentStep / STEPS.length) * 100
-  const totalDueNow = (wizardState.selectedPlan?.setup_fee || 0)
+  const totalDueNow = priceQuote?.total ?? ((wizardState.selectedPlan?.effective_price ?? 0) + (wizardState.selectedPlan?.setup_fee || 0))
   const knownCredits = creditsLastFetch > 0 ? credits : undefined
   const availableCredits = (knownCredits ?? userPermissions?.current_balance ?? currentUser?.coins ?? 0)
   const hasSufficientCredits = availableCredits >= totalDueNow
@@ -376,15 +433,22 @@ export default function CreateServerPage() {
                       {locations.map((location) => (
                         <Card
                           key={location.id}
-                          className={`cursor-pointer transition-all border-2 ${
-                            wizardState.selectedLocation?.id === location.id
-                              ? 'border-blue-500 bg-blue-500/10'
-                              : 'border-neutral-600 hover:border-neutral-500 bg-neutral-700/50'
+                          className={`transition-all border-2 ${
+                            location.waitlisted
+                              ? 'cursor-not-allowed opacity-60 border-neutral-700 bg-neutral-800/50'
+                              : wizardState.selectedLocation?.id === location.id
+                                ? 'cursor-pointer border-blue-500 bg-blue-500/10'
+                                : 'cursor-pointer border-neutral-600 hover:border-neutral-500 bg-neutral-700/50'
                           }`}
-                          onClick={() => setWizardState(prev => ({ ...prev, selectedLocation: location }))}
+                          onClick={() => !location.waitlisted && setWizardState(prev => ({ ...prev, selectedLocation: location }))}
                         >
                           <CardContent className="p-6">
-                            <h3 className="text-lg font-semibold text-white mb-2">{location.name}</h3>
+                            <div className="flex items-start justify-between gap-2">
+                              <h3 className="text-lg font-semibold text-white mb-2">{location.name}</h3>
+                              {location.waitlisted && (
+                                <Badge variant="outline" className="text-xs border-amber-500/40 text-amber-400">Full · waitlist</Badge>
+                              )}
+                            </div>
                             {(location.city || location.country) && (
                               <p className="text-neutral-400 text-sm mb-3">
                                 {location.city}{location.city && location.country ? ', ' : ''}{location.country}
@@ -501,6 +565,29 @@ export default function CreateServerPage() {
                         />
                       </div>
 
+                      <div>
+                        <Label htmlFor="promoCode" className="text-neutral-200">Promo Code</Label>
+                        <div className="flex gap-2">
+                          <Input
+                            id="promoCode"
+                            value={promoCode}
+                            onChange={(e) => { setPromoCode(e.target.value); setPromoError(null) }}
+                            placeholder="Enter promo code"
+                            className="bg-neutral-700/50 border-neutral-600/50"
+                          />
+                          <Button
+                            type="button"
+                            variant="outline"
+                            onClick={handleApplyPromo}
+                            disabled={!promoCode.trim() || isApplyingPromo}
+                            className="border-neutral-600/50"
+                          >
+                            {isApplyingPromo ? 'Checking...' : 'Apply'}
+                          </Button>
+                        </div>
+                        {promoError && <p className="text-sm text-red-400 mt-1">{promoError}</p>}
+                      </div>
+
                       <Card className="border-neutral-600 bg-neutral-700/30">
                         <CardHeader>
                           <CardTitle className="text-white">Order Summary</CardTitle>
@@ -523,16 +610,31 @@ export default function CreateServerPage() {
                             <span className="text-white">{wizardState.selectedPlan?.name}</span>
                           </div>
                           <hr className="border-neutral-600" />
+                          {priceQuote?.discount && (
+                            <div className="flex justify-between text-sm">
+                              <span className="text-neutral-400">
+                                {priceQuote.discount.promo_code ? `Promo ${priceQuote.discount.promo_code}` : 'Promotion'}
+                                {priceQuote.discount.type === 'percentage' ? ` (${priceQuote.discount.value}% off)` : ''}:
+                              </span>
+                              <span className="text-green-400">-${priceQuote.discount.amount.toFixed(2)}</span>
+                            </div>
+                          )}
+                          {(priceQuote?.setup_fee ?? wizardState.selectedPlan?.setup_fee ?? 0) > 0 && (
+                            <div className="flex justify-between text-sm">
+                              <span className="text-neutral-400">Setup fee:</span>
+                              <span className="text-neutral-300">${(priceQuote?.setup_fee ?? wizardState.selectedPlan?.setup_fee ?? 0).toFixed(2)}</span>
+                            </div>
+                          )}
                           <div className="flex justify-between">
                             <span className="text-neutral-400">Due now:</span>
                             <span className="text-white">
-                              ${ (wizardState.selectedPlan?.setup_fee || 0).toFixed(2) }
+                              ${ totalDueNow.toFixed(2) }
                             </span>
                           </div>
                           <div className="flex justify-between text-sm">
                             <span className="text-neutral-500">Recurring:</span>
                             <span className="text-neutral-300">
-                              ${ (wizardState.selectedPlan?.effective_price ?? 0).toFixed(2) }/{wizardState.selectedPlan?.billing_cycle}
+                              ${ (priceQuote?.price ?? wizardState.selectedPlan?.effective_price ?? 0).toFixed(2) }/{wizardState.selectedPlan?.billing_cycle}
                             </span>
                           </div>
                         </CardContent>
@@ -550,7 +652,7 @@ export default function CreateServerPage() {
                             <span className="text-white">${availableCredits.toFixed(2)}</span>
                           </div>
                           <div className="text-sm text-neutral-400">
-                            You need at least the setup fee available to proceed.
+                            You need the amount due now available to proceed.
                           </div>
                         </CardContent>
                       </Card>
@@ -0,0 +1,69 @@
+"use client"
+
+import React, { useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import Icon from "@/components/IconProvider"
+import { showError } from "@/lib/toast"
+import { apiFetch } from "@/lib/api-fetch"
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+  const [sentMessage, setSentMessage] = useState<string | null>(null)
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    try {
+      const res = await apiFetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim() })
+      })
+      const json = await res.json()
+      if (json.success) setSentMessage(json.message)
+      else showError('Request failed', json.message || 'Please try again later')
+    } catch {
+      showError('Request failed', 'Network error occurred')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-900 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-neutral-800/40 border border-neutral-700/50 backdrop-blur">
+        <CardHeader className="space-y-1 text-center">
+          <CardTitle className="text-2xl font-bold text-white">Forgot password</CardTitle>
+          <CardDescription className="text-neutral-400">We will email you a link to choose a new password.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {sentMessage ? (
+            <Alert className="border-neutral-600/40 bg-neutral-800/60">
+              <Icon name="Mail" className="h-4 w-4 text-neutral-300" />
+              <AlertDescription className="text-neutral-300">{sentMessage}</AlertDescription>
+            </Alert>
+          ) : (
+            <form onSubmit={onSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Email</Label>
+                <Input type="email" autoComplete="email" value={email} onChange={e => setEmail(e.target.value)} disabled={submitting} required />
+              </div>
+              <Button type="submit" className="w-full" disabled={submitting || !email.trim()}>
+                {submitting ? "Sending..." : "Send reset link"}
+              </Button>
+            </form>
+          )}
+          <div className="text-center text-sm">
+            <Link href="/login" className="text-neutral-300 hover:text-white">Back to sign in</Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
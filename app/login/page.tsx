@@ -11,6 +11,7 @@ import PerformanceMonitor from "@/components/PerformanceMonitor"
 export default function LoginPage() {
   const router = useRouter()
   const [isCheckingAuth, setIsCheckingAuth] = useState(true)
+  const [twoFactorToken, setTwoFactorToken] = useState<string | undefined>(undefined)
   const { isAuthenticated, checkSession } = useAuthStore()
 
   // Performance monitoring
@@ -22,6 +23,12 @@ export default function LoginPage() {
     preloadCriticalComponents()
   }, [])
 
+  // Social logins for 2FA accounts land here with a pending challenge
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("two_factor")
+    if (token) setTwoFactorToken(token)
+  }, [])
+
   // Check if user is already authenticated
   useEffect(() => {
     const checkAuthStatus = async () => {
@@ -72,6 +79,7 @@ export default function LoginPage() {
         <LoginForm
           onSuccess={handleLoginSuccess}
           onRegisterClick={handleRegisterClick}
+          twoFactorToken={twoFactorToken}
         />
       </div>
 
@@ -12,6 +12,7 @@ import { showSuccess } from "@/lib/toast"
 import type { Server as UiServer } from "@/components/ServerCard"
 import { useAppBootstrap } from "@/hooks/use-bootstrap"
 import LoadingOverlay from "@/components/LoadingOverlay"
+import { apiFetch } from "@/lib/api-fetch"
 
 export default function Dashboard() {
   const router = useRouter()
@@ -94,12 +95,9 @@ export default function Dashboard() {
         return
       }
 
-      const response = await fetch(`/api/servers/${serverId}/renew`, {
+      const response = await apiFetch(`/api/servers/${serverId}/renew`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-user-data': encodeURIComponent(JSON.stringify(user))
-        },
+        headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
         body: JSON.stringify({ confirm: true })
       })
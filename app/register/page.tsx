@@ -8,6 +8,7 @@ import RegisterForm from "@/components/Auth/Register/RegisterForm"
 import { usePerformanceMonitor, useMemoryMonitor } from "@/hooks/usePerformance"
 import { preloadCriticalComponents } from "@/components/LazyComponents"
 import PerformanceMonitor from "@/components/PerformanceMonitor"
+import { apiFetch } from "@/lib/api-fetch"
 
 export default function RegisterPage() {
   const router = useRouter()
@@ -46,7 +47,7 @@ export default function RegisterPage() {
         device_type: typeof navigator !== 'undefined' && /Mobi|Android/i.test(navigator.userAgent) ? 'mobile' : 'desktop' as const,
       }
 
-      fetch('/api/referrals/click', {
+      apiFetch('/api/referrals/click', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
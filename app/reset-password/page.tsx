@@ -0,0 +1,109 @@
+"use client"
+
+import React, { useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import Icon from "@/components/IconProvider"
+import { showError, showSuccess } from "@/lib/toast"
+import { apiFetch } from "@/lib/api-fetch"
+
+type TokenState = 'checking' | 'valid' | 'invalid'
+
+export default function ResetPasswordPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token') || ''
+  const [tokenState, setTokenState] = useState<TokenState>('checking')
+  const [tokenMessage, setTokenMessage] = useState('')
+  const [form, setForm] = useState({ password: '', confirm_password: '' })
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (!token) {
+      setTokenState('invalid')
+      setTokenMessage('This reset link is missing its token.')
+      return
+    }
+    apiFetch(`/api/auth/reset-password?token=${encodeURIComponent(token)}`, { cache: 'no-store' })
+      .then(res => res.json())
+      .then(json => {
+        setTokenState(json.success ? 'valid' : 'invalid')
+        setTokenMessage(json.message || '')
+      })
+      .catch(() => {
+        setTokenState('invalid')
+        setTokenMessage('Could not check this reset link.')
+      })
+  }, [token])
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    try {
+      const res = await apiFetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, ...form })
+      })
+      const json = await res.json()
+      if (json.success) {
+        showSuccess('Password updated', json.message)
+        router.push('/login')
+      } else {
+        const msg = Array.isArray(json.errors) && json.errors.length
+          ? json.errors.map((e: any) => e?.message ?? String(e)).join(', ')
+          : (json.message || 'Password reset failed')
+        showError('Password reset failed', msg)
+      }
+    } catch {
+      showError('Password reset failed', 'Network error occurred')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-900 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-neutral-800/40 border border-neutral-700/50 backdrop-blur">
+        <CardHeader className="space-y-1 text-center">
+          <CardTitle className="text-2xl font-bold text-white">Choose a new password</CardTitle>
+          <CardDescription className="text-neutral-400">You will be signed out of all devices.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {tokenState === 'checking' && <div className="text-sm text-neutral-400 text-center">Checking reset link...</div>}
+          {tokenState === 'invalid' && (
+            <Alert className="border-neutral-600/40 bg-neutral-800/60">
+              <Icon name="AlertCircle" className="h-4 w-4 text-neutral-300" />
+              <AlertDescription className="text-neutral-300">
+                {tokenMessage || 'This reset link is invalid or has expired.'} <Link href="/forgot-password" className="underline">Request a new one</Link>.
+              </AlertDescription>
+            </Alert>
+          )}
+          {tokenState === 'valid' && (
+            <form onSubmit={onSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label>New password</Label>
+                <Input type="password" autoComplete="new-password" value={form.password} onChange={e => setForm(f => ({ ...f, password: e.target.value }))} disabled={submitting} required />
+              </div>
+              <div className="space-y-2">
+                <Label>Confirm password</Label>
+                <Input type="password" autoComplete="new-password" value={form.confirm_password} onChange={e => setForm(f => ({ ...f, confirm_password: e.target.value }))} disabled={submitting} required />
+              </div>
+              <Button type="submit" className="w-full" disabled={submitting || !form.password || !form.confirm_password}>
+                {submitting ? "Updating..." : "Update password"}
+              </Button>
+            </form>
+          )}
+          <div className="text-center text-sm">
+            <Link href="/login" className="text-neutral-300 hover:text-white">Back to sign in</Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
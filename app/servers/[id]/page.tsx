@@ -6,10 +6,14 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Skeleton } from '@/components/ui/skeleton'
-import { ArrowLeft, ExternalLink, DollarSign, Server, AlertTriangle } from 'lucide-react'
+import { ArrowLeft, ExternalLink, DollarSign, Server, AlertTriangle, ArrowUpDown, MapPin } from 'lucide-react'
 import { Sidebar, Header } from '@/components/LazyComponents'
 import { useAuthStore } from '@/stores/user-store'
 import { showError, showSuccess, showConfirm } from '@/lib/toast'
+import ChangePlanDialog from '@/components/servers/ChangePlanDialog'
+import MigrateServerDialog from '@/components/servers/MigrateServerDialog'
+import { useFeatureFlag } from '@/hooks/use-feature-flags'
+import { apiFetch } from '@/lib/api-fetch'
 
 interface ServerDetails {
   id: string
@@ -21,6 +25,10 @@ interface ServerDetails {
   expiry_date?: string
   auto_delete_at?: string
   overdue_amount?: number
+  db_id?: string
+  plan_id?: string
+  location_id?: string
+  server_type_id?: string
   pterodactyl_identifier?: string
   created_at: string
   updated_at: string
@@ -39,6 +47,9 @@ export default function ServerDetailPage({ params }: ServerDetailPageProps) {
   const [error, setError] = useState<string | null>(null)
   const [panelUrl, setPanelUrl] = useState<string | null>(null)
   const [isRenewing, setIsRenewing] = useState(false)
+  const [isChangePlanOpen, setIsChangePlanOpen] = useState(false)
+  const [isMigrateOpen, setIsMigrateOpen] = useState(false)
+  const { enabled: migrationEnabled } = useFeatureFlag('NEXT_PUBLIC_SERVER_MIGRATION_ENABLED')
   
   const { currentUser } = useAuthStore()
 
@@ -50,11 +61,8 @@ export default function ServerDetailPage({ params }: ServerDetailPageProps) {
       setError(null)
 
       // Fetch server details from server API
-      const response = await fetch(`/api/servers/${serverId}`, {
-        credentials: 'include',
-        headers: {
-          'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-        }
+      const response = await apiFetch(`/api/servers/${serverId}`, {
+        credentials: 'include'
       })
 
       if (!response.ok) {
@@ -92,6 +100,10 @@ export default function ServerDetailPage({ params }: ServerDetailPageProps) {
         expiry_date: serverData.expiry_date,
         auto_delete_at: serverData.auto_delete_at,
         overdue_amount: serverData.overdue_amount,
+        db_id: serverData.server_id,
+        plan_id: serverData.plan_id,
+        location_id: serverData.location_id,
+        server_type_id: serverData.server_type_id,
         pterodactyl_identifier: serverData.identifier || serverData.pterodactyl_identifier,
         created_at: serverData.created_at,
         updated_at: serverData.updated_at
@@ -107,7 +119,7 @@ export default function ServerDetailPage({ params }: ServerDetailPageProps) {
 
   const fetchPanelUrl = useCallback(async () => {
     try {
-      const response = await fetch('/api/config/panel_url')
+      const response = await apiFetch('/api/config/panel_url')
       if (response.ok) {
         const result = await response.json()
         if (result.success && result.value) {
@@ -139,12 +151,9 @@ export default function ServerDetailPage({ params }: ServerDetailPageProps) {
     try {
       setIsRenewing(true)
 
-      const response = await fetch(`/api/servers/${serverId}/renew`, {
+      const response = await apiFetch(`/api/servers/${serverId}/renew`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-        },
+        headers: { 'Content-Type': 'application/json' },
         credentials: 'include',
         body: JSON.stringify({ confirm: true })
       })
@@ -361,7 +370,7 @@ export default function ServerDetailPage({ params }: ServerDetailPageProps) {
                       )}
 
                       {/* Renewal Button */}
-                      {server.status === 'suspended' && server.overdue_amount && server.overdue_amount > 0 && (
+                      {(server.status === 'suspended' || server.billing_status === 'overdue') && server.overdue_amount && server.overdue_amount > 0 && (
                         <Button
                           onClick={handleRenewServer}
                           disabled={isRenewing}
@@ -371,9 +380,55 @@ export default function ServerDetailPage({ params }: ServerDetailPageProps) {
                           {isRenewing ? 'Renewing...' : `Renew (${server.overdue_amount} coins)`}
                         </Button>
                       )}
+
+                      {/* Change Plan Button */}
+                      {server.status !== 'suspended' && server.billing_status === 'active' && server.db_id && server.location_id && (
+                        <Button
+                          onClick={() => setIsChangePlanOpen(true)}
+                          className="flex-1 gap-2 bg-purple-500/10 hover:bg-purple-500/20 text-purple-400 border border-purple-500/20"
+                        >
+                          <ArrowUpDown className="h-4 w-4" />
+                          Change Plan
+                        </Button>
+                      )}
+
+                      {/* Move Server Button */}
+                      {migrationEnabled && server.status === 'active' && server.billing_status === 'active' && server.db_id && server.location_id && (
+                        <Button
+                          onClick={() => setIsMigrateOpen(true)}
+                          className="flex-1 gap-2 bg-cyan-500/10 hover:bg-cyan-500/20 text-cyan-400 border border-cyan-500/20"
+                        >
+                          <MapPin className="h-4 w-4" />
+                          Move Server
+                        </Button>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
+
+                {server.db_id && (
+                  <ChangePlanDialog
+                    open={isChangePlanOpen}
+                    onOpenChange={setIsChangePlanOpen}
+                    serverId={server.db_id}
+                    currentPlanId={server.plan_id}
+                    locationId={server.location_id}
+                    serverTypeId={server.server_type_id}
+                    onChanged={fetchServerDetails}
+                  />
+                )}
+
+                {server.db_id && migrationEnabled && (
+                  <MigrateServerDialog
+                    open={isMigrateOpen}
+                    onOpenChange={setIsMigrateOpen}
+                    serverId={server.db_id}
+                    currentLocationId={server.location_id}
+                    planId={server.plan_id}
+                    serverTypeId={server.server_type_id}
+                    onMigrated={fetchServerDetails}
+                  />
+                )}
               </>
             )}
           </div>
@@ -11,6 +11,7 @@ import ConnectionsSection from "@/components/settings/ConnectionsSection"
 import { useAuthStore } from "@/stores/user-store"
 import { useUserSettings } from "@/stores/user-settings-store"
 import { showError, showSuccess } from "@/lib/toast"
+import { apiFetch } from "@/lib/api-fetch"
 
 function useUserHeader() {
   const user = useAuthStore(s => s.currentUser)
@@ -45,12 +46,12 @@ export default function SettingsPage() {
     const run = async () => {
       try {
         if (discordPending && user) {
-          const res = await fetch("/api/auth/discord/connect", { method: "POST", headers: { "x-user-data": encodeURIComponent(JSON.stringify(user)), "Content-Type": "application/json" }, credentials: "include" })
+          const res = await apiFetch("/api/auth/discord/connect", { method: "POST", headers: { "Content-Type": "application/json" }, credentials: "include" })
           const j = await res.json()
           if (j.success) showSuccess("Discord connected", j.message); else showError("Discord connection failed", j.message)
         }
         if (githubPending && user) {
-          const res = await fetch("/api/auth/github/connect", { method: "POST", headers: { "x-user-data": encodeURIComponent(JSON.stringify(user)), "Content-Type": "application/json" }, credentials: "include" })
+          const res = await apiFetch("/api/auth/github/connect", { method: "POST", headers: { "Content-Type": "application/json" }, credentials: "include" })
           const j = await res.json()
           if (j.success) showSuccess("GitHub connected", j.message); else showError("GitHub connection failed", j.message)
         }
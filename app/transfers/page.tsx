@@ -11,6 +11,7 @@ import { Skeleton } from "@/components/ui/skeleton"
 import Icon from "@/components/IconProvider"
 import { useAuthStore } from "@/stores/user-store"
 import { TransfersProtectedRoute } from "@/components/FeatureProtectedRoute"
+import { apiFetch } from "@/lib/api-fetch"
 
 export default function TransfersPage() {
   const user = useAuthStore(s => s.currentUser)
@@ -34,15 +35,14 @@ export default function TransfersPage() {
 
   const headers = React.useMemo(() => ({
     'Content-Type': 'application/json',
-    ...(token ? { Authorization: `Bearer ${token}` } : {}),
-    ...(user ? { 'x-user-data': encodeURIComponent(JSON.stringify(user)) } : {})
-  }), [token, user])
+    ...(token ? { Authorization: `Bearer ${token}` } : {})
+  }), [token])
 
   // Fetch transfers history
   const fetchTransfers = React.useCallback(async () => {
     try {
       setIsLoadingTransfers(true)
-      const res = await fetch('/api/transfers?limit=50&offset=0', { headers, credentials: 'include' })
+      const res = await apiFetch('/api/transfers?limit=50&offset=0', { headers, credentials: 'include' })
       const json = await res.json()
       if (json?.success) setTransfers(json.transfers || [])
     } catch (e) {
@@ -63,7 +63,7 @@ export default function TransfersPage() {
       const q = search.trim()
       if (!q || q.length < 2) { setSuggestions([]); return }
       try {
-        const res = await fetch(`/api/transfers/search-users?q=${encodeURIComponent(q)}`, { headers, credentials: 'include', signal: controller.signal })
+        const res = await apiFetch(`/api/transfers/search-users?q=${encodeURIComponent(q)}`, { headers, credentials: 'include', signal: controller.signal })
         const json = await res.json()
         if (Array.isArray(json?.users)) setSuggestions(json.users)
       } catch (e) { /* noop */ }
@@ -89,7 +89,7 @@ export default function TransfersPage() {
     if (error) { alert(error); return }
     setIsSubmitting(true)
     try {
-      const res = await fetch('/api/transfers', {
+      const res = await apiFetch('/api/transfers', {
         method: 'POST',
         headers,
         credentials: 'include',
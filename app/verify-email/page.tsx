@@ -0,0 +1,98 @@
+"use client"
+
+import React, { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { useSearchParams } from "next/navigation"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import Icon from "@/components/IconProvider"
+import { showError, showSuccess } from "@/lib/toast"
+import { apiFetch } from "@/lib/api-fetch"
+
+type VerifyState = 'verifying' | 'verified' | 'failed' | 'idle'
+
+export default function VerifyEmailPage() {
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token') || ''
+  const [state, setState] = useState<VerifyState>(token ? 'verifying' : 'idle')
+  const [message, setMessage] = useState('')
+  const [email, setEmail] = useState('')
+  const [resending, setResending] = useState(false)
+  const started = useRef(false)
+
+  useEffect(() => {
+    // Tokens are single use; avoid a second request from strict-mode double effects
+    if (!token || started.current) return
+    started.current = true
+    apiFetch('/api/auth/verify-email', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token })
+    })
+      .then(res => res.json())
+      .then(json => {
+        setState(json.success ? 'verified' : 'failed')
+        setMessage(json.message || '')
+      })
+      .catch(() => {
+        setState('failed')
+        setMessage('Could not verify your email. Please try again.')
+      })
+  }, [token])
+
+  const onResend = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setResending(true)
+    try {
+      const res = await apiFetch('/api/auth/verify-email/resend', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim() })
+      })
+      const json = await res.json()
+      if (json.success) showSuccess('Check your inbox', json.message)
+      else showError('Request failed', json.message || 'Please try again later')
+    } catch {
+      showError('Request failed', 'Network error occurred')
+    } finally {
+      setResending(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-900 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-neutral-800/40 border border-neutral-700/50 backdrop-blur">
+        <CardHeader className="space-y-1 text-center">
+          <CardTitle className="text-2xl font-bold text-white">Email verification</CardTitle>
+          <CardDescription className="text-neutral-400">Confirm your email address to sign in.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {state === 'verifying' && <div className="text-sm text-neutral-400 text-center">Verifying your email...</div>}
+          {(state === 'verified' || state === 'failed') && (
+            <Alert className="border-neutral-600/40 bg-neutral-800/60">
+              <Icon name={state === 'verified' ? "CheckCircle" : "AlertCircle"} className="h-4 w-4 text-neutral-300" />
+              <AlertDescription className="text-neutral-300">{message}</AlertDescription>
+            </Alert>
+          )}
+          {(state === 'failed' || state === 'idle') && (
+            <form onSubmit={onResend} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Send a new verification link</Label>
+                <Input type="email" autoComplete="email" placeholder="you@example.com" value={email} onChange={e => setEmail(e.target.value)} disabled={resending} required />
+              </div>
+              <Button type="submit" className="w-full" disabled={resending || !email.trim()}>
+                {resending ? "Sending..." : "Resend verification email"}
+              </Button>
+            </form>
+          )}
+          <div className="text-center text-sm">
+            <Link href="/login" className="text-neutral-300 hover:text-white">Go to sign in</Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -7,6 +7,8 @@ import { cn } from '@/lib/utils'
 import Icon from '@/components/IconProvider'
 import { Button } from '@/components/ui/button'
 import { useAppConfig } from '@/hooks/use-feature-flags'
+import { useAdminPermissions } from '@/hooks/use-admin-auth'
+import type { Permission } from '@/lib/auth/permissions'
 
 interface AdminSidebarProps {
   isOpen: boolean
@@ -16,8 +18,9 @@ interface AdminSidebarProps {
 const AdminSidebar = memo(({ isOpen, onToggle }: AdminSidebarProps) => {
   const pathname = usePathname()
   const { appName, loading: configLoading } = useAppConfig()
+  const { can } = useAdminPermissions()
 
-  const navigationItems = [
+  const navigationItems: Array<{ title: string; href: string; icon: string; exact?: boolean; permission?: Permission | Permission[] }> = [
     {
       title: 'Dashboard',
       href: '/admin',
@@ -26,50 +29,72 @@ const AdminSidebar = memo(({ isOpen, onToggle }: AdminSidebarProps) => {
     },
     {
       title: 'User Management',
+      permission: 'users.read',
       href: '/admin/users',
       icon: 'Users'
     },
     {
       title: 'Server Management',
+      permission: 'servers.read',
       href: '/admin/servers',
       icon: 'Server'
     },
     {
       title: 'Location Management',
+      permission: 'locations.read',
       href: '/admin/locations',
       icon: 'MapPin'
     },
+    {
+      title: 'Monitoring',
+      permission: 'locations.read',
+      href: '/admin/monitoring',
+      icon: 'Activity'
+    },
     {
       title: 'Server Types',
+      permission: 'plans.read',
       href: '/admin/server-types',
       icon: 'Package'
     },
     {
       title: 'Server Software',
+      permission: 'plans.read',
       href: '/admin/server-software',
       icon: 'Code'
     },
     {
       title: 'Plans Management',
+      permission: 'plans.read',
       href: '/admin/plans',
       icon: 'CreditCard'
     },
     {
       title: 'Redeem Codes',
+      permission: 'codes.read',
       href: '/admin/codes',
       icon: 'Gift'
     },
     {
       title: 'Settings',
+      permission: 'settings.read',
       href: '/admin/settings',
       icon: 'Settings'
     },
     {
       title: 'Security & Logs',
+      permission: 'security.read',
       href: '/admin/security-logs',
       icon: 'Shield'
+    },
+    {
+      title: 'Roles',
+      permission: 'roles.manage',
+      href: '/admin/roles',
+      icon: 'KeyRound'
     }
   ]
+  const visibleItems = navigationItems.filter(item => !item.permission || can(item.permission))
 
   const isActive = (href: string, exact?: boolean) => {
     if (exact) {
@@ -125,7 +150,7 @@ const AdminSidebar = memo(({ isOpen, onToggle }: AdminSidebarProps) => {
 
           {/* Navigation */}
           <nav className="flex-1 p-4 space-y-2 overflow-y-auto">
-            {navigationItems.map((item) => (
+            {visibleItems.map((item) => (
               <Link
                 key={item.href}
                 href={item.href}
@@ -0,0 +1,142 @@
+"use client"
+
+import React, { useEffect, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Switch } from '@/components/ui/switch'
+import { Ban, Plus, Trash2 } from 'lucide-react'
+import { showError, showSuccess } from '@/lib/toast'
+import { useAdminSecurityStore, IPBlockRuleInput, IPBlockRuleTrigger, IPBlockRule } from '@/stores/admin-security-store'
+import { SecurityLogAction } from '@/database/tables/cythro_dash_users_logs'
+
+const TRIGGER_LABELS: Record<IPBlockRuleTrigger, string> = {
+  security_log: 'Security event',
+  referral_click: 'Risky referral click',
+  rate_limit: 'Rate limit violation'
+}
+
+const EMPTY_RULE: IPBlockRuleInput = {
+  name: '',
+  enabled: true,
+  trigger: 'security_log',
+  action: SecurityLogAction.LOGIN_FAILED,
+  threshold: 10,
+  window_minutes: 15,
+  block_duration_minutes: 60
+}
+
+function describeRule(rule: IPBlockRule): string {
+  const what = rule.trigger === 'security_log' ? rule.action
+    : rule.trigger === 'referral_click' ? `referral clicks with risk > ${rule.min_risk_score ?? 0}`
+    : 'rate limit violations'
+  return `${rule.threshold} ${what} in ${rule.window_minutes} min → block ${rule.block_duration_minutes} min`
+}
+
+export default function IPBlockRulesCard() {
+  const { rules, rulesLoading, fetchRules, createRule, updateRule, deleteRule } = useAdminSecurityStore()
+  const [draft, setDraft] = useState<IPBlockRuleInput>(EMPTY_RULE)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => { void fetchRules() }, [fetchRules])
+
+  const setNumber = (key: 'threshold' | 'window_minutes' | 'block_duration_minutes' | 'min_risk_score', value: string) =>
+    setDraft(d => ({ ...d, [key]: value === '' ? undefined : Number(value) }))
+
+  const handleCreate = async () => {
+    setSaving(true)
+    const ok = await createRule({
+      ...draft,
+      action: draft.trigger === 'security_log' ? draft.action : undefined,
+      min_risk_score: draft.trigger === 'referral_click' ? (draft.min_risk_score ?? 80) : undefined
+    })
+    setSaving(false)
+    if (ok) { showSuccess('Rule created'); setDraft(EMPTY_RULE) }
+    else showError('Failed to create rule', useAdminSecurityStore.getState().error)
+  }
+
+  const handleToggle = async (rule: IPBlockRule, enabled: boolean) => {
+    if (!(await updateRule(rule.id, { enabled }))) showError('Failed to update rule', useAdminSecurityStore.getState().error)
+  }
+
+  const handleDelete = async (rule: IPBlockRule) => {
+    if (!confirm(`Delete rule "${rule.name}"? Existing blocks stay until they expire.`)) return
+    if (await deleteRule(rule.id)) showSuccess('Rule deleted')
+    else showError('Failed to delete rule', useAdminSecurityStore.getState().error)
+  }
+
+  return (
+    <Card className="border-neutral-700/50 bg-neutral-800/40">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium text-neutral-200">Automatic IP Block Rules</CardTitle>
+        <Ban className="h-4 w-4 text-neutral-400" />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-3">
+          <Input placeholder="Rule name" value={draft.name} onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))} className="bg-neutral-800/50 border-neutral-700/50 md:col-span-2" />
+          <Select value={draft.trigger} onValueChange={(v) => setDraft(d => ({ ...d, trigger: v as IPBlockRuleTrigger }))}>
+            <SelectTrigger className="bg-neutral-800/50 border-neutral-700/50"><SelectValue /></SelectTrigger>
+            <SelectContent className="bg-neutral-800 border-neutral-700">
+              {(Object.keys(TRIGGER_LABELS) as IPBlockRuleTrigger[]).map(t => <SelectItem key={t} value={t}>{TRIGGER_LABELS[t]}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          {draft.trigger === 'security_log' ? (
+            <Select value={draft.action} onValueChange={(v) => setDraft(d => ({ ...d, action: v }))}>
+              <SelectTrigger className="bg-neutral-800/50 border-neutral-700/50"><SelectValue placeholder="Action" /></SelectTrigger>
+              <SelectContent className="bg-neutral-800 border-neutral-700 max-h-60 overflow-y-auto">
+                {Object.values(SecurityLogAction).map(a => <SelectItem key={a} value={a}>{a}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          ) : draft.trigger === 'referral_click' ? (
+            <Input type="number" min={0} max={100} placeholder="Risk score above" value={draft.min_risk_score ?? ''} onChange={(e) => setNumber('min_risk_score', e.target.value)} className="bg-neutral-800/50 border-neutral-700/50" />
+          ) : <div />}
+          <Input type="number" min={1} placeholder="Events" title="Events from one IP" value={draft.threshold ?? ''} onChange={(e) => setNumber('threshold', e.target.value)} className="bg-neutral-800/50 border-neutral-700/50" />
+          <Input type="number" min={1} placeholder="Window (min)" title="Within this many minutes" value={draft.window_minutes ?? ''} onChange={(e) => setNumber('window_minutes', e.target.value)} className="bg-neutral-800/50 border-neutral-700/50" />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-3">
+          <Input type="number" min={1} placeholder="Block for (min)" title="Block duration in minutes" value={draft.block_duration_minutes ?? ''} onChange={(e) => setNumber('block_duration_minutes', e.target.value)} className="bg-neutral-800/50 border-neutral-700/50" />
+          <Button onClick={handleCreate} disabled={saving || draft.name.trim().length < 3} className="bg-neutral-700 hover:bg-neutral-600"><Plus className="w-4 h-4 mr-2" />Add Rule</Button>
+        </div>
+
+        {rulesLoading && rules.length === 0 ? (
+          <div className="h-10 bg-neutral-700/40 rounded animate-pulse" />
+        ) : rules.length === 0 ? (
+          <div className="text-neutral-400 text-sm">No rules yet. Nothing is blocked automatically.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Enabled</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Blocks</TableHead>
+                  <TableHead>Last Triggered</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id} className="hover:bg-neutral-800/60">
+                    <TableCell><Switch checked={rule.enabled} onCheckedChange={(v) => void handleToggle(rule, v)} /></TableCell>
+                    <TableCell className="text-neutral-300">{rule.name}</TableCell>
+                    <TableCell className="text-neutral-300">{TRIGGER_LABELS[rule.trigger]}</TableCell>
+                    <TableCell className="text-neutral-300">{describeRule(rule)}</TableCell>
+                    <TableCell className="text-neutral-300">{rule.blocks_created}</TableCell>
+                    <TableCell className="whitespace-nowrap text-neutral-300">{rule.last_triggered_at ? new Date(rule.last_triggered_at).toLocaleString() : '-'}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => void handleDelete(rule)} className="text-red-400 hover:bg-red-500/10"><Trash2 className="w-4 h-4" /></Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,246 @@
+"use client"
+
+import React from 'react'
+import { MapPin } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { useAdminLocationsStore, type AdminLocationSummary } from '@/stores/admin-locations-store'
+import { apiFetch } from '@/lib/api-fetch'
+import { showConfirm, showError, showSuccess } from '@/lib/toast'
+
+interface MigrationEntry {
+  id: string
+  reason: string
+  mode: string
+  state: string
+  active: boolean
+  source: { location_id: string; node_id?: number }
+  target: { location_id: string; node_id?: number; node_name?: string; strategy?: string }
+  price: number
+  source_retained: boolean
+  error?: string
+  created_at: string
+}
+
+const SAME_LOCATION = '__same__'
+
+const STATE_CLASSES: Record<string, string> = {
+  completed: 'bg-green-500/10 text-green-400 border-green-500/20',
+  rolled_back: 'bg-amber-500/10 text-amber-400 border-amber-500/20',
+  failed: 'bg-red-500/10 text-red-400 border-red-500/20',
+}
+
+export default function MigrateServerDialog({ serverId, locationId, disabled, onMigrated }: { serverId: string; locationId?: string; disabled?: boolean; onMigrated: () => void }) {
+  const { getLocationsList } = useAdminLocationsStore()
+  const [open, setOpen] = React.useState(false)
+  const [locations, setLocations] = React.useState<AdminLocationSummary[]>([])
+  const [history, setHistory] = React.useState<MigrationEntry[]>([])
+  const [filesCopied, setFilesCopied] = React.useState<boolean | null>(null)
+  const [acknowledged, setAcknowledged] = React.useState(false)
+  const [targetLocation, setTargetLocation] = React.useState(SAME_LOCATION)
+  const [nodeId, setNodeId] = React.useState('')
+  const [working, setWorking] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const loadHistory = React.useCallback(async () => {
+    const res = await apiFetch(`/api/admin/servers/${serverId}/migrate`, { credentials: 'include' })
+    const data = await res.json()
+    if (data.success) {
+      setHistory(data.migrations || [])
+      setFilesCopied(data.files_copied)
+    }
+  }, [serverId])
+
+  React.useEffect(() => {
+    if (!open) return
+    setTargetLocation(SAME_LOCATION)
+    setNodeId('')
+    setAcknowledged(false)
+    setError(null)
+    ;(async () => {
+      try {
+        const [list] = await Promise.all([getLocationsList({ limit: 100 }), loadHistory()])
+        setLocations(list.locations || [])
+      } catch {
+        setError('Failed to load locations')
+      }
+    })()
+  }, [open, getLocationsList, loadHistory])
+
+  const nodeOptions = React.useMemo(() => {
+    const id = targetLocation === SAME_LOCATION ? locationId : targetLocation
+    return locations.find(l => l.id === id)?.associated_nodes || []
+  }, [locations, targetLocation, locationId])
+
+  const active = history.find(m => m.active)
+  const needsAcknowledgement = filesCopied === false && !acknowledged
+
+  const handleMigrate = async () => {
+    setWorking(true)
+    setError(null)
+    try {
+      const res = await apiFetch(`/api/admin/servers/${serverId}/migrate`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          location_id: targetLocation === SAME_LOCATION ? undefined : targetLocation,
+          node_id: nodeId ? Number(nodeId) : undefined,
+          acknowledge_data_loss: filesCopied === false && acknowledged,
+        }),
+      })
+      const data = await res.json()
+      if (!data.success) {
+        setError(data.message || 'Migration failed')
+        return
+      }
+      showSuccess('Migration started', data.message)
+      await loadHistory()
+      onMigrated()
+    } catch {
+      setError('Migration failed')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleCancel = async (migrationId: string) => {
+    try {
+      const res = await apiFetch(`/api/admin/migrations/${migrationId}/cancel`, { method: 'POST', credentials: 'include' })
+      const data = await res.json()
+      if (!data.success) showError('Cancel failed', data.message)
+      else showSuccess('Migration cancelled')
+      await loadHistory()
+      onMigrated()
+    } catch {
+      showError('Cancel failed')
+    }
+  }
+
+  const handleDeleteSource = async (migration: MigrationEntry) => {
+    const confirmed = await showConfirm('Delete the old server?', `The suspended server left on node #${migration.source.node_id} and its files are deleted for good.`)
+    if (!confirmed) return
+    try {
+      const res = await apiFetch(`/api/admin/migrations/${migration.id}/delete-source`, { method: 'POST', credentials: 'include' })
+      const data = await res.json()
+      if (!data.success) showError('Delete failed', data.message)
+      else showSuccess('Old server deleted')
+      await loadHistory()
+    } catch {
+      showError('Delete failed')
+    }
+  }
+
+  const locationName = (id: string) => locations.find(l => l.id === id)?.name || id
+
+  return (
+    <>
+      <Button variant="outline" size="sm" disabled={disabled} onClick={() => setOpen(true)} className="border-neutral-600 hover:bg-neutral-700">
+        <MapPin className="h-4 w-4 mr-2" />
+        Migrate
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="bg-neutral-800 border-neutral-700 max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-white">Migrate server</DialogTitle>
+            <DialogDescription className="text-neutral-400">
+              Moves the server to another node. Without a node, the target location's placement strategy picks one. Every step is written to the server logs and a failed migration is rolled back.{filesCopied === null ? '' : filesCopied ? ' Files move with the server.' : ' Files are not copied.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Location</Label>
+                <Select value={targetLocation} onValueChange={(v) => { setTargetLocation(v); setNodeId('') }} disabled={!!active}>
+                  <SelectTrigger className="bg-neutral-700/50 border-neutral-600/50 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-neutral-800 border-neutral-700">
+                    <SelectItem value={SAME_LOCATION}>Current location{locationId ? ` (${locationName(locationId)})` : ''}</SelectItem>
+                    {locations.filter(l => l.id !== locationId).map(l => (
+                      <SelectItem key={l.id} value={l.id}>{l.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Node (optional)</Label>
+                {nodeOptions.length > 0 ? (
+                  <Select value={nodeId || 'auto'} onValueChange={(v) => setNodeId(v === 'auto' ? '' : v)} disabled={!!active}>
+                    <SelectTrigger className="bg-neutral-700/50 border-neutral-600/50 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-neutral-800 border-neutral-700">
+                      <SelectItem value="auto">Pick automatically</SelectItem>
+                      {nodeOptions.map(n => <SelectItem key={n} value={String(n)}>Node #{n}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input type="number" min={1} placeholder="Pick automatically" value={nodeId} onChange={(e) => setNodeId(e.target.value)} disabled={!!active} />
+                )}
+              </div>
+            </div>
+
+            {filesCopied === false && !active && (
+              <div className="space-y-2 rounded-md border border-amber-500/20 bg-amber-500/10 p-3 text-sm text-amber-300">
+                <p>Files are not copied: the panel cannot transfer servers, so the server is recreated empty on the target node. The old server is kept suspended until you delete it.</p>
+                <label className="flex items-center gap-2">
+                  <Checkbox checked={acknowledged} onCheckedChange={(v) => setAcknowledged(!!v)} />
+                  <span>I understand the server&apos;s files will not be moved</span>
+                </label>
+              </div>
+            )}
+
+            {active && (
+              <div className="flex items-center justify-between rounded-md border border-blue-500/20 bg-blue-500/10 p-3 text-sm text-blue-300">
+                <span>Migration in progress: {active.state} to {active.target.node_name || `node #${active.target.node_id}`}</span>
+                {(active.state === 'pending' || active.state === 'provisioning') && (
+                  <Button size="sm" variant="ghost" onClick={() => handleCancel(active.id)} className="text-red-400">Cancel</Button>
+                )}
+              </div>
+            )}
+
+            {history.length > 0 && (
+              <div className="space-y-2 max-h-56 overflow-y-auto">
+                <Label>History</Label>
+                {history.map(m => (
+                  <div key={m.id} className="rounded-md border border-neutral-700/50 bg-neutral-900/40 p-2 text-xs text-neutral-300">
+                    <div className="flex items-center justify-between gap-2">
+                      <span>
+                        {new Date(m.created_at).toLocaleString()}: {locationName(m.source.location_id)} (node #{m.source.node_id}) to {locationName(m.target.location_id)} ({m.target.node_name || `node #${m.target.node_id}`})
+                      </span>
+                      <Badge variant="outline" className={STATE_CLASSES[m.state] || 'text-blue-400 border-blue-500/20'}>{m.state.replace('_', ' ')}</Badge>
+                    </div>
+                    <div className="text-neutral-500">
+                      {m.reason.replace('_', ' ')}, {m.mode}{m.target.strategy ? `, ${m.target.strategy.replace('_', ' ')}` : ''}{m.price > 0 ? `, ${m.price} coins` : ''}
+                    </div>
+                    {m.error && <div className="text-red-400">{m.error}</div>}
+                    {m.source_retained && (
+                      <div className="flex items-center justify-between gap-2 text-amber-300">
+                        <span>Old server on node #{m.source.node_id} is suspended and kept</span>
+                        <Button size="sm" variant="ghost" onClick={() => handleDeleteSource(m)} className="text-red-400">Delete old server</Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {error && <div className="text-sm text-red-400">{error}</div>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setOpen(false)}>Close</Button>
+            <Button disabled={working || !!active || needsAcknowledgement} onClick={handleMigrate}>{working ? 'Starting…' : 'Migrate'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
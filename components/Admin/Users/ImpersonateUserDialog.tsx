@@ -0,0 +1,86 @@
+"use client"
+
+import React from 'react'
+import { useRouter } from 'next/navigation'
+import { Eye } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { useAdminStore } from '@/stores/admin-store'
+import { SECURITY_CONFIG } from '@/lib/security/config'
+
+const { DEFAULT_MINUTES, MAX_MINUTES } = SECURITY_CONFIG.IMPERSONATION
+
+export default function ImpersonateUserDialog({ userId, username, disabled }: { userId: number; username?: string; disabled?: boolean }) {
+  const router = useRouter()
+  const { startImpersonation } = useAdminStore()
+  const [open, setOpen] = React.useState(false)
+  const [minutes, setMinutes] = React.useState(DEFAULT_MINUTES)
+  const [reason, setReason] = React.useState('')
+  const [allowWallet, setAllowWallet] = React.useState(false)
+  const [working, setWorking] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const handleStart = async () => {
+    setWorking(true)
+    setError(null)
+    try {
+      const res = await startImpersonation(userId, {
+        minutes: Math.min(MAX_MINUTES, Math.max(1, Math.floor(minutes) || DEFAULT_MINUTES)),
+        allow_wallet_actions: allowWallet,
+        reason: reason.trim() || undefined
+      })
+      if (!res.success) {
+        setError(res.message)
+        return
+      }
+      setOpen(false)
+      router.push('/')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  return (
+    <>
+      <Button variant="outline" disabled={disabled} onClick={() => setOpen(true)}>
+        <Eye className="h-4 w-4" />
+        View as user
+      </Button>
+      <Dialog open={open} onOpenChange={(o) => { setOpen(o); if (!o) setError(null) }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>View as {username || `user #${userId}`}</DialogTitle>
+            <DialogDescription>
+              Your browser switches to a temporary session as this user. Everything you change is logged against your account, and you return here when you stop.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div>
+              <Label>Duration (minutes, max {MAX_MINUTES})</Label>
+              <Input type="number" min={1} max={MAX_MINUTES} value={minutes} onChange={(e) => setMinutes(Number(e.target.value))} />
+            </div>
+            <div>
+              <Label>Reason (optional)</Label>
+              <Input placeholder="e.g. Support ticket #1234" value={reason} onChange={(e) => setReason(e.target.value)} />
+            </div>
+            <label className="flex items-start gap-2 text-sm">
+              <Checkbox checked={allowWallet} onCheckedChange={(v) => setAllowWallet(v === true)} className="mt-0.5" />
+              <span>
+                Allow wallet actions
+                <span className="block text-xs text-neutral-400">Transfers, redeeming codes, creating or renewing servers and claiming rewards spend or earn this user's coins.</span>
+              </span>
+            </label>
+            {error && <div className="text-sm text-red-400">{error}</div>}
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button disabled={working} onClick={handleStart}>{working ? 'Starting…' : 'Start'}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
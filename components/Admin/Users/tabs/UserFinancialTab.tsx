@@ -5,7 +5,7 @@ import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
 import { useAdminStore } from '@/stores/admin-store'
-import { useAuthStore } from '@/stores/user-store'
+import { apiFetch } from '@/lib/api-fetch'
 
 interface LedgerEntry {
   id: string
@@ -17,7 +17,6 @@ interface LedgerEntry {
 
 export default function UserFinancialTab({ userId }: { userId: number }) {
   const { selectedUser, isLoadingSelectedUser, getUserById, adjustUserCoins } = useAdminStore()
-  const { currentUser } = useAuthStore()
   const [entries, setEntries] = React.useState<LedgerEntry[]>([])
   const [loading, setLoading] = React.useState(true)
   const [page, setPage] = React.useState(1)
@@ -32,10 +31,8 @@ export default function UserFinancialTab({ userId }: { userId: number }) {
   const loadEntries = React.useCallback(async () => {
     setLoading(true)
     try {
-      const res = await fetch(`/api/admin/users/${userId}/coins?page=${page}&limit=20`, {
-        headers: {
-          'x-user-data': JSON.stringify(currentUser || {}),
-        },
+      const res = await apiFetch(`/api/admin/users/${userId}/coins?page=${page}&limit=20`, {
+        credentials: 'include',
         cache: 'no-store',
       })
       if (res.ok) {
@@ -45,7 +42,7 @@ export default function UserFinancialTab({ userId }: { userId: number }) {
     } finally {
       setLoading(false)
     }
-  }, [userId, page, currentUser])
+  }, [userId, page])
 
   React.useEffect(() => { loadEntries() }, [loadEntries])
 
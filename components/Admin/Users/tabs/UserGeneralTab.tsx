@@ -7,9 +7,14 @@ import { Checkbox } from '@/components/ui/checkbox'
 import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
 import { useAdminStore, type AdminUserSummary } from '@/stores/admin-store'
+import { useAdminPermissions } from '@/hooks/use-admin-auth'
+
+const NO_ROLE = 'none'
 
 export default function UserGeneralTab({ userId }: { userId: number }) {
-  const { selectedUser, isLoadingSelectedUser, getUserById, updateUser } = useAdminStore()
+  const { selectedUser, isLoadingSelectedUser, getUserById, updateUser, roles, getRoles, assignUserRole } = useAdminStore()
+  const { can } = useAdminPermissions()
+  const canManageRoles = can('roles.manage')
   const [local, setLocal] = React.useState<Partial<AdminUserSummary> | null>(null)
   const [saving, setSaving] = React.useState(false)
   const [msg, setMsg] = React.useState<{ type: 'success'|'error'; text: string }|null>(null)
@@ -26,6 +31,22 @@ export default function UserGeneralTab({ userId }: { userId: number }) {
     if (selectedUser && selectedUser.id === userId) setLocal(selectedUser)
   }, [selectedUser, userId])
 
+  React.useEffect(() => {
+    if (canManageRoles) getRoles()
+  }, [canManageRoles, getRoles])
+
+  const changeRole = async (value: string) => {
+    const roleId = value === NO_ROLE ? null : value
+    if ((selectedUser?.role_id || null) === roleId) return
+    const label = roleId ? roles.find(r => r.id === roleId)?.name || roleId : 'a regular user'
+    if (!window.confirm(`Change this user's role to ${label}? This changes what they can do in the admin panel.`)) return
+    setMsg(null)
+    setSaving(true)
+    const res = await assignUserRole(userId, roleId)
+    setSaving(false)
+    setMsg({ type: res.success ? 'success' : 'error', text: res.message })
+  }
+
   if (isLoadingSelectedUser && !local) {
     return (
       <div className="space-y-3">
@@ -50,7 +71,6 @@ export default function UserGeneralTab({ userId }: { userId: number }) {
     original.first_name !== local.first_name ||
     original.last_name !== local.last_name ||
     (original.display_name || '') !== (local.display_name || '') ||
-    original.role !== local.role ||
     !!original.verified !== !!local.verified
   )
   const invalid = !local?.username || local.username!.length < 3 || !local?.email || !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(local.email!)
@@ -105,13 +125,19 @@ export default function UserGeneralTab({ userId }: { userId: number }) {
         </div>
         <div>
           <label className="text-xs text-neutral-400 mb-1 block">Role</label>
-          <Select value={String(local.role ?? 1)} onValueChange={(v) => setLocal({ ...local, role: Number(v) as any })}>
-            <SelectTrigger className="bg-neutral-800/50 border-neutral-700/50"><SelectValue placeholder="Select role" /></SelectTrigger>
-            <SelectContent>
-              <SelectItem value="0">Admin</SelectItem>
-              <SelectItem value="1">User</SelectItem>
-            </SelectContent>
-          </Select>
+          {canManageRoles ? (
+            <Select value={local.role_id || NO_ROLE} onValueChange={changeRole} disabled={saving}>
+              <SelectTrigger className="bg-neutral-800/50 border-neutral-700/50"><SelectValue placeholder="Select role" /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ROLE}>User (no admin access)</SelectItem>
+                {roles.map((r) => (
+                  <SelectItem key={r.id} value={r.id}>{r.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <div className="text-sm text-neutral-300 py-2">{local.role_id ? roles.find(r => r.id === local.role_id)?.name || local.role_id : 'User'}</div>
+          )}
         </div>
         <div>
           <label className="text-xs text-neutral-400 mb-1 block">Status</label>
@@ -131,11 +157,6 @@ export default function UserGeneralTab({ userId }: { userId: number }) {
         <Button disabled={saving || !dirty || invalid} onClick={async () => {
           if (!local) return
           setMsg(null)
-          // Confirmation for sensitive changes
-          if (original && original.role !== local.role) {
-            const ok = window.confirm('You are about to change user role. Continue?')
-            if (!ok) return
-          }
           setSaving(true)
           const res = await updateUser(userId, {
             username: local.username,
@@ -143,7 +164,6 @@ export default function UserGeneralTab({ userId }: { userId: number }) {
             first_name: local.first_name,
             last_name: local.last_name,
             display_name: local.display_name,
-            role: local.role as any,
             verified: local.verified as any,
           } as any)
           setSaving(false)
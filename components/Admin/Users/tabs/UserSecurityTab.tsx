@@ -4,9 +4,149 @@ import React from 'react'
 import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
 import { useAdminStore } from '@/stores/admin-store'
+import type { AdminUserLockoutStatus, AdminLockoutEvent } from '@/stores/admin-store'
+import type { UserSessionInfo } from '@/stores/user-store'
+
+function UserSessionsPanel({ userId }: { userId: number }) {
+  const { getUserSessions, revokeUserSession, revokeAllUserSessions } = useAdminStore()
+  const [sessions, setSessions] = React.useState<UserSessionInfo[]>([])
+  const [loading, setLoading] = React.useState(false)
+  const [working, setWorking] = React.useState<string | null>(null)
+
+  const load = React.useCallback(async () => {
+    setLoading(true)
+    const r = await getUserSessions(userId)
+    setSessions(r.success ? (r.sessions || []) : [])
+    setLoading(false)
+  }, [userId, getUserSessions])
+
+  React.useEffect(() => { load() }, [load])
+
+  return (
+    <div className="rounded-md border border-neutral-800 p-4 bg-neutral-900/60">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm text-neutral-300">Active Sessions</div>
+          <div className="text-xs text-neutral-400">{loading ? 'Loading...' : `${sessions.length} active`}</div>
+        </div>
+        <Button variant="outline" disabled={working !== null || sessions.length === 0} onClick={async () => {
+          setWorking('all')
+          try {
+            const r = await revokeAllUserSessions(userId)
+            if (r.success) setSessions([])
+          } finally {
+            setWorking(null)
+          }
+        }}>Revoke all</Button>
+      </div>
+      {sessions.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {sessions.map(s => (
+            <div key={s.id} className="flex items-center justify-between rounded border border-neutral-800 px-3 py-2">
+              <div className="text-xs">
+                <div className="text-neutral-300">{[s.browser, s.os].filter(Boolean).join(' on ') || 'Unknown device'} · {s.login_method}</div>
+                <div className="text-neutral-500">{s.ip_address || 'unknown IP'} · last seen {new Date(s.last_seen_at).toLocaleString()}</div>
+              </div>
+              <Button size="sm" variant="outline" disabled={working !== null} onClick={async () => {
+                setWorking(s.id)
+                try {
+                  const r = await revokeUserSession(userId, s.id)
+                  if (r.success) setSessions(list => list.filter(x => x.id !== s.id))
+                } finally {
+                  setWorking(null)
+                }
+              }}>Revoke</Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function UserLockoutPanel({ userId }: { userId: number }) {
+  const { getUserLockouts, unlockUser } = useAdminStore()
+  const [status, setStatus] = React.useState<AdminUserLockoutStatus | null>(null)
+  const [history, setHistory] = React.useState<AdminLockoutEvent[]>([])
+  const [loading, setLoading] = React.useState(false)
+  const [working, setWorking] = React.useState(false)
+  const [message, setMessage] = React.useState<string | null>(null)
+
+  const load = React.useCallback(async () => {
+    setLoading(true)
+    const r = await getUserLockouts(userId)
+    setStatus(r.success ? (r.status || null) : null)
+    setHistory(r.success ? (r.history || []) : [])
+    setLoading(false)
+  }, [userId, getUserLockouts])
+
+  React.useEffect(() => { load() }, [load])
+
+  const isLocked = !!status && (status.account_locked || status.ip_locks.length > 0)
+  const summary = !status
+    ? (loading ? 'Loading...' : 'Unavailable')
+    : status.account_locked
+      ? `Locked until ${new Date(status.locked_until!).toLocaleString()}`
+      : status.ip_locks.length > 0
+        ? `Locked for ${status.ip_locks.length} address${status.ip_locks.length === 1 ? '' : 'es'}`
+        : `Not locked · ${status.failed_login_attempts}/${status.policy.max_attempts} failed attempts`
+
+  return (
+    <div className="rounded-md border border-neutral-800 p-4 bg-neutral-900/60">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm text-neutral-300">Login Lockout</div>
+          <div className="text-xs text-neutral-400 mt-1">{summary}</div>
+          {status && (
+            <div className="text-xs text-neutral-500 mt-1">
+              Policy: {status.policy.max_attempts} attempts, {status.policy.duration_minutes} min lock ×{status.policy.backoff_multiplier} (max {status.policy.max_duration_minutes} min), per {status.policy.mode === 'ip' ? 'address' : 'account'}
+            </div>
+          )}
+        </div>
+        {isLocked && (
+          <Button variant="outline" disabled={working} onClick={async () => {
+            setWorking(true)
+            try {
+              const r = await unlockUser(userId)
+              setMessage(r.message)
+              if (r.success) await load()
+            } finally {
+              setWorking(false)
+            }
+          }}>Unlock</Button>
+        )}
+      </div>
+      {message && <div className="text-xs text-neutral-400 mt-2">{message}</div>}
+      {status && status.ip_locks.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {status.ip_locks.map(l => (
+            <div key={l.ip_address} className="text-xs text-neutral-400">
+              {l.ip_address} · until {l.locked_until ? new Date(l.locked_until).toLocaleString() : 'unknown'}
+            </div>
+          ))}
+        </div>
+      )}
+      {history.length > 0 && (
+        <div className="mt-3 space-y-2">
+          <div className="text-xs text-neutral-400">History</div>
+          {history.map(h => (
+            <div key={h.id} className="rounded border border-neutral-800 px-3 py-2 text-xs">
+              <div className="text-neutral-300">
+                {h.action === 'account_unlocked'
+                  ? `Unlocked by ${h.details?.unlocked_by_username || `admin #${h.details?.unlocked_by ?? '?'}`}`
+                  : `Locked for ${h.details?.lock_duration_minutes ?? '?'} min after ${h.details?.failed_attempts ?? '?'} failed attempts`}
+              </div>
+              <div className="text-neutral-500">{h.ip_address || 'unknown IP'} · {new Date(h.created_at).toLocaleString()}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
 
 export default function UserSecurityTab({ userId }: { userId: number }) {
-  const { selectedUser, isLoadingSelectedUser, getUserById, banUser, unbanUser } = useAdminStore()
+  const { selectedUser, isLoadingSelectedUser, getUserById, banUser, unbanUser, resetUserTwoFactor, forcePasswordReset } = useAdminStore()
   const [working, setWorking] = React.useState(false)
 
   React.useEffect(() => {
@@ -38,10 +178,43 @@ export default function UserSecurityTab({ userId }: { userId: number }) {
         }}>{isBanned ? 'Enable' : 'Disable'}</Button>
       </div>
 
-      <div className="rounded-md border border-neutral-800 p-4 bg-neutral-900/60">
-        <div className="text-sm text-neutral-300">Two-Factor Authentication (2FA)</div>
-        <div className="text-xs text-neutral-400 mt-1">{selectedUser.two_factor_enabled ? 'Enabled' : 'Disabled'}</div>
+      <div className="flex items-center justify-between rounded-md border border-neutral-800 p-4 bg-neutral-900/60">
+        <div>
+          <div className="text-sm text-neutral-300">Two-Factor Authentication (2FA)</div>
+          <div className="text-xs text-neutral-400 mt-1">{selectedUser.two_factor_enabled ? 'Enabled' : 'Disabled'}</div>
+        </div>
+        {selectedUser.two_factor_enabled && (
+          <Button variant="outline" disabled={working} onClick={async () => {
+            if (!window.confirm('Reset 2FA for this user? They will be able to sign in with just their password.')) return
+            setWorking(true)
+            try {
+              await resetUserTwoFactor(userId)
+            } finally {
+              setWorking(false)
+            }
+          }}>Reset 2FA</Button>
+        )}
       </div>
+
+      <div className="flex items-center justify-between rounded-md border border-neutral-800 p-4 bg-neutral-900/60">
+        <div>
+          <div className="text-sm text-neutral-300">Password</div>
+          <div className="text-xs text-neutral-400 mt-1">Require a new password at next login. Signs the user out everywhere.</div>
+        </div>
+        <Button variant="outline" disabled={working} onClick={async () => {
+          if (!window.confirm('Require this user to choose a new password at their next login?')) return
+          setWorking(true)
+          try {
+            await forcePasswordReset(userId)
+          } finally {
+            setWorking(false)
+          }
+        }}>Require change</Button>
+      </div>
+
+      <UserLockoutPanel userId={userId} />
+
+      <UserSessionsPanel userId={userId} />
     </div>
   )
 }
@@ -41,12 +41,19 @@ interface LoginFormProps {
   onSuccess?: () => void
   onRegisterClick?: () => void
   className?: string
+  twoFactorToken?: string // Pending 2FA challenge, e.g. after a social login
 }
 
-const LoginForm = memo(({ onSuccess, onRegisterClick, className = "" }: LoginFormProps) => {
+const LoginForm = memo(({ onSuccess, onRegisterClick, className = "", twoFactorToken: initialTwoFactorToken }: LoginFormProps) => {
   const router = useRouter()
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [serverError, setServerError] = useState<string | null>(null)
+  const [twoFactorToken, setTwoFactorToken] = useState<string | null>(initialTwoFactorToken || null)
+  const [twoFactorCode, setTwoFactorCode] = useState("")
+
+  React.useEffect(() => {
+    if (initialTwoFactorToken) setTwoFactorToken(initialTwoFactorToken)
+  }, [initialTwoFactorToken])
   const { settings: integrationSettings } = useIntegrationSettings()
 
   // Performance monitoring
@@ -56,7 +63,7 @@ const LoginForm = memo(({ onSuccess, onRegisterClick, className = "" }: LoginFor
   const { elementRef } = useIntersectionAnimation({}, 'animate-fade-in')
 
   // Auth store
-  const { login, isLoading } = useAuthStore()
+  const { login, verifyTwoFactorLogin, isLoading } = useAuthStore()
 
   // App config
   const { appName } = useAppConfig()
@@ -122,6 +129,16 @@ const LoginForm = memo(({ onSuccess, onRegisterClick, className = "" }: LoginFor
         } else {
           router.push("/")
         }
+      } else if (result.requires_2fa && result.two_factor_token) {
+        setTwoFactorToken(result.two_factor_token)
+        setTwoFactorCode("")
+      } else if (result.requires_device_confirmation) {
+        const msg = result.message || "Check your email to confirm this sign-in."
+        setServerError(msg)
+        showSuccess('Check your inbox', msg)
+      } else if (result.requires_password_change && result.password_reset_token) {
+        showError('Password change required', result.message || "Please choose a new password.")
+        router.push(`/reset-password?token=${encodeURIComponent(result.password_reset_token)}`)
       } else {
         const msg = Array.isArray(result.errors)
           ? result.errors.map((e: any) => typeof e === 'string' ? e : (e?.message ?? JSON.stringify(e))).join(", ")
@@ -137,6 +154,52 @@ const LoginForm = memo(({ onSuccess, onRegisterClick, className = "" }: LoginFor
     }
   }, [isSubmitting, isLoading, login, reset, onSuccess, router])
 
+  // Second step for accounts with two-factor authentication
+  const onSubmitTwoFactor = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!twoFactorToken || isSubmitting || isLoading) return
+
+    setIsSubmitting(true)
+    setServerError(null)
+
+    try {
+      const result = await verifyTwoFactorLogin(twoFactorToken, twoFactorCode.trim())
+
+      if (result.success) {
+        reset()
+        setTwoFactorToken(null)
+        showSuccess('Signed in successfully')
+        if (onSuccess) {
+          onSuccess()
+        } else {
+          router.push("/")
+        }
+      } else if (result.requires_password_change && result.password_reset_token) {
+        setTwoFactorToken(null)
+        showError('Password change required', result.message || "Please choose a new password.")
+        router.push(`/reset-password?token=${encodeURIComponent(result.password_reset_token)}`)
+      } else {
+        // The challenge is gone (expired or too many attempts): start over
+        if (!result.requires_2fa) setTwoFactorToken(null)
+        setTwoFactorCode("")
+        const msg = result.message || "Verification failed. Please try again."
+        setServerError(msg)
+        showError('Verification failed', msg)
+      }
+    } catch (error) {
+      console.error("2FA login error:", error)
+      setServerError("An unexpected error occurred. Please try again.")
+    } finally {
+      setIsSubmitting(false)
+    }
+  }, [twoFactorToken, twoFactorCode, isSubmitting, isLoading, verifyTwoFactorLogin, reset, onSuccess, router])
+
+  const handleCancelTwoFactor = useCallback(() => {
+    setTwoFactorToken(null)
+    setTwoFactorCode("")
+    setServerError(null)
+  }, [])
+
   // Memoized field change handlers
   const handleIdentifierChange = useCallback((value: string) => {
     setValue("identifier", value, { shouldValidate: true })
@@ -202,6 +265,50 @@ const LoginForm = memo(({ onSuccess, onRegisterClick, className = "" }: LoginFor
           </Alert>
         )}
 
+        {twoFactorToken ? (
+          <form onSubmit={onSubmitTwoFactor} className="space-y-4">
+            <InputField
+              label="Verification code"
+              type="text"
+              placeholder="6-digit code or backup code"
+              value={twoFactorCode}
+              onChange={(value: string) => { setTwoFactorCode(value); if (serverError) setServerError(null) }}
+              disabled={isFormDisabled}
+              autoComplete="one-time-code"
+              icon={<Icon name="Shield" className="h-4 w-4" />}
+              description="Enter the code from your authenticator app, or one of your backup codes."
+              required
+            />
+
+            <Button
+              type="submit"
+              className="w-full h-12 bg-neutral-700 hover:bg-neutral-600 text-white font-medium rounded-xl transition-colors-fast shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed border border-neutral-600/40"
+              disabled={twoFactorCode.trim().length < 6 || isFormDisabled}
+            >
+              {isSubmitting || isLoading ? (
+                <>
+                  <Icon name="Loader" className="h-4 w-4 mr-2 animate-spin" />
+                  Verifying...
+                </>
+              ) : (
+                <>
+                  <Icon name="LogIn" className="h-4 w-4 mr-2" />
+                  Verify
+                </>
+              )}
+            </Button>
+
+            <Button
+              type="button"
+              variant="link"
+              className="w-full text-neutral-300 hover:text-white p-0 h-auto text-sm"
+              onClick={handleCancelTwoFactor}
+              disabled={isFormDisabled}
+            >
+              Back to sign in
+            </Button>
+          </form>
+        ) : (
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <InputField
             {...register("identifier")}
@@ -246,6 +353,7 @@ const LoginForm = memo(({ onSuccess, onRegisterClick, className = "" }: LoginFor
               variant="link"
               className="text-neutral-300 hover:text-white p-0 h-auto text-sm"
               disabled={isFormDisabled}
+              onClick={() => router.push("/forgot-password")}
             >
               Forgot password?
             </Button>
@@ -269,9 +377,10 @@ const LoginForm = memo(({ onSuccess, onRegisterClick, className = "" }: LoginFor
             )}
           </Button>
         </form>
+        )}
 
         {/* Social Login Buttons */}
-        {(isDiscordLoginEnabled || isGithubLoginEnabled) && (
+        {!twoFactorToken && (isDiscordLoginEnabled || isGithubLoginEnabled) && (
           <div className="space-y-3">
             <div className="relative">
               <div className="absolute inset-0 flex items-center">
@@ -30,10 +30,10 @@ const registerSchema = z.object({
   last_name: z.string()
     .min(1, "Last name is required")
     .max(50, "Last name is too long"),
+  // The server applies the admin-configured password policy
   password: z.string()
-    .min(8, "Password must be at least 8 characters")
-    .max(128, "Password is too long")
-    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, "Password must contain at least one uppercase letter, one lowercase letter, and one number"),
+    .min(1, "Password is required")
+    .max(128, "Password is too long"),
   password_confirmation: z.string()
     .min(1, "Please confirm your password"),
   terms: z.boolean()
@@ -0,0 +1,73 @@
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Eye, Loader2 } from "lucide-react"
+import { useAuthStore } from "@/stores/user-store"
+
+function formatRemaining(ms: number) {
+  const total = Math.max(0, Math.floor(ms / 1000))
+  const minutes = Math.floor(total / 60)
+  const seconds = total % 60
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`
+}
+
+// Shown on every page while an admin is viewing the dashboard as another user
+export default function ImpersonationBanner() {
+  const router = useRouter()
+  const impersonation = useAuthStore((s) => s.impersonation)
+  const getImpersonationStatus = useAuthStore((s) => s.getImpersonationStatus)
+  const stopImpersonation = useAuthStore((s) => s.stopImpersonation)
+  const [now, setNow] = useState(() => Date.now())
+  const [stopping, setStopping] = useState(false)
+
+  const active = !!impersonation?.active
+  const expiresAt = impersonation?.expires_at ? new Date(impersonation.expires_at).getTime() : null
+  const remaining = expiresAt ? expiresAt - now : null
+
+  // The persisted flag may be stale, e.g. the session was stopped from another tab
+  useEffect(() => {
+    if (active) getImpersonationStatus()
+  }, [active, getImpersonationStatus])
+
+  useEffect(() => {
+    if (!active) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [active])
+
+  const stop = async () => {
+    if (stopping) return
+    setStopping(true)
+    const result = await stopImpersonation()
+    setStopping(false)
+    if (result.success) router.push(result.return_to || "/login")
+  }
+
+  useEffect(() => {
+    if (active && remaining !== null && remaining <= 0) stop()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [active, remaining !== null && remaining <= 0])
+
+  if (!active) return null
+
+  return (
+    <div className="sticky top-0 z-[1100] flex flex-wrap items-center justify-center gap-x-4 gap-y-1 bg-amber-500 px-4 py-2 text-sm font-medium text-neutral-950">
+      <span className="flex items-center gap-2">
+        <Eye className="h-4 w-4" />
+        Viewing as <strong>{impersonation?.username || `user #${impersonation?.user_id}`}</strong>
+        {impersonation?.admin_username ? ` (signed in as ${impersonation.admin_username})` : ""}
+      </span>
+      {remaining !== null && <span className="tabular-nums">{formatRemaining(remaining)} left</span>}
+      {!impersonation?.allow_wallet_actions && <span className="opacity-80">Wallet actions disabled</span>}
+      <button
+        onClick={stop}
+        disabled={stopping}
+        className="inline-flex items-center gap-1 rounded-md bg-neutral-950 px-3 py-1 text-xs font-semibold text-amber-400 hover:bg-neutral-800 disabled:opacity-60"
+      >
+        {stopping && <Loader2 className="h-3 w-3 animate-spin" />}
+        Stop viewing
+      </button>
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import React from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { useAuthStore } from "@/stores/user-store"
+import { apiFetch } from "@/lib/api-fetch"
 
 export default function EarnActivity({ preloadedLogs, suppressFetch = false }: { preloadedLogs?: any[] | null; suppressFetch?: boolean } = {}) {
   const user = useAuthStore(s => s.currentUser)
@@ -14,19 +15,8 @@ export default function EarnActivity({ preloadedLogs, suppressFetch = false }: {
     if (!user) return
     setLoading(true)
     try {
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-        'x-user-data': encodeURIComponent(JSON.stringify({
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          role: user.role
-        }))
-      }
-
-      const response = await fetch('/api/user/earn-logs?limit=50', {
+      const response = await apiFetch('/api/user/earn-logs?limit=50', {
         method: 'GET',
-        headers,
         credentials: 'include'
       })
 
@@ -10,6 +10,7 @@ import { useSocialConnections } from "@/hooks/useSocialConnections"
 import { useServerStore } from "@/stores/server-store"
 import { showError, showSuccess } from "@/lib/toast"
 import Link from "next/link"
+import { apiFetch } from "@/lib/api-fetch"
 
 function TaskRow({ title, description, reward, status, action }: { title: string, description: string, reward: number | string, status: 'completed'|'available'|'locked', action?: React.ReactNode }) {
   return (
@@ -29,6 +30,8 @@ function TaskRow({ title, description, reward, status, action }: { title: string
   )
 }
 
+const JSON_HEADERS: HeadersInit = { 'Content-Type': 'application/json' }
+
 export default function EarnTasksCard({ preloaded, suppressFetch = false }: { preloaded?: { dailyLoginStatus?: any | null; discordReward?: any | null; githubReward?: any | null; firstServerStatus?: any | null; discord?: any | null; github?: any | null; serversCount?: number; referralCode?: string | null; referralStats?: any | null }; suppressFetch?: boolean } = {}) {
   const user = useAuthStore(s => s.currentUser)
   const updateCoins = useAuthStore(s => s.updateCoins)
@@ -50,24 +53,17 @@ export default function EarnTasksCard({ preloaded, suppressFetch = false }: { pr
   const [githubReward, setGithubReward] = React.useState<{ github_connected: boolean; reward_claimed: boolean; can_claim: boolean; reward_amount: number } | null>(preloaded?.githubReward ?? null)
   const [discordReward, setDiscordReward] = React.useState<{ discord_connected: boolean; reward_claimed: boolean; can_claim: boolean; reward_amount: number } | null>(preloaded?.discordReward ?? null)
 
-  const headersFor = React.useCallback((): HeadersInit => {
-    if (!user) return { 'Content-Type': 'application/json' }
-    return {
-      'Content-Type': 'application/json',
-      'x-user-data': encodeURIComponent(JSON.stringify({ id: user.id, username: user.username, email: user.email, role: user.role }))
-    }
-  }, [user])
 
   React.useEffect(() => { if (!suppressFetch) { void checkDailyLoginStatus?.(true); void refresh(); void fetchServers(); } }, [checkDailyLoginStatus, refresh, fetchServers, suppressFetch])
 
   const reloadStatuses = React.useCallback(async () => {
     if (!user) return
-    const headers = headersFor()
+    const headers = JSON_HEADERS
     try {
       const [fs, gh, dc] = await Promise.all([
-        fetch('/api/earn/first-server-reward', { method: 'GET', headers, credentials: 'include' }).then(r=>r.json()).catch(()=>null),
-        fetch('/api/auth/github/reward', { method: 'GET', headers, credentials: 'include' }).then(r=>r.json()).catch(()=>null),
-        fetch('/api/auth/discord/reward', { method: 'GET', headers, credentials: 'include' }).then(r=>r.json()).catch(()=>null),
+        apiFetch('/api/earn/first-server-reward', { method: 'GET', headers, credentials: 'include' }).then(r=>r.json()).catch(()=>null),
+        apiFetch('/api/auth/github/reward', { method: 'GET', headers, credentials: 'include' }).then(r=>r.json()).catch(()=>null),
+        apiFetch('/api/auth/discord/reward', { method: 'GET', headers, credentials: 'include' }).then(r=>r.json()).catch(()=>null),
       ])
       if (fs?.success) setFirstServerStatus(fs.data)
       if (gh?.success) setGithubReward(gh.data)
@@ -75,7 +71,7 @@ export default function EarnTasksCard({ preloaded, suppressFetch = false }: { pr
     } catch (e) {
       console.warn('Failed reloading task statuses', e)
     }
-  }, [user, headersFor])
+  }, [user])
 
   // Initial load of task statuses
   React.useEffect(() => { if (!suppressFetch) { void reloadStatuses() } }, [reloadStatuses, suppressFetch])
@@ -90,8 +86,8 @@ export default function EarnTasksCard({ preloaded, suppressFetch = false }: { pr
   // Actions
   const claimFirstServer = async () => {
     if (!user) return
-    const headers = headersFor()
-    const resp = await fetch('/api/earn/first-server-reward', { method: 'POST', headers, credentials: 'include' })
+    const headers = JSON_HEADERS
+    const resp = await apiFetch('/api/earn/first-server-reward', { method: 'POST', headers, credentials: 'include' })
     const json = await resp.json()
     if (json?.success) {
       const awarded = json?.data?.coins_awarded || 0
@@ -108,8 +104,8 @@ export default function EarnTasksCard({ preloaded, suppressFetch = false }: { pr
 
   const claimGithub = async () => {
     if (!user) return
-    const headers = headersFor()
-    const resp = await fetch('/api/auth/github/reward', { method: 'POST', headers, credentials: 'include', body: JSON.stringify({ action: 'claim' }) })
+    const headers = JSON_HEADERS
+    const resp = await apiFetch('/api/auth/github/reward', { method: 'POST', headers, credentials: 'include', body: JSON.stringify({ action: 'claim' }) })
     const json = await resp.json()
     if (json?.success) {
       const awarded = json?.data?.coins_awarded || 0
@@ -123,8 +119,8 @@ export default function EarnTasksCard({ preloaded, suppressFetch = false }: { pr
 
   const claimDiscord = async () => {
     if (!user) return
-    const headers = headersFor()
-    const resp = await fetch('/api/auth/discord/reward', { method: 'POST', headers, credentials: 'include', body: JSON.stringify({ action: 'claim' }) })
+    const headers = JSON_HEADERS
+    const resp = await apiFetch('/api/auth/discord/reward', { method: 'POST', headers, credentials: 'include', body: JSON.stringify({ action: 'claim' }) })
     const json = await resp.json()
     if (json?.success) {
       const awarded = json?.data?.coins_awarded || 0
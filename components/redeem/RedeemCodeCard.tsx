@@ -7,7 +7,7 @@ import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { showError, showSuccess, showInfo } from "@/lib/toast"
 import { useAuthStore } from "@/stores/user-store"
-import { setAuthHeaders, useUserCodeStore } from "@/stores/code-store"
+import { useUserCodeStore } from "@/stores/code-store"
 
 export default function RedeemCodeCard() {
   const user = useAuthStore(s => s.currentUser)
@@ -18,15 +18,6 @@ export default function RedeemCodeCard() {
   const [code, setCode] = React.useState("")
   const [initialLoaded, setInitialLoaded] = React.useState(false)
 
-  // Provide auth headers to the code store using the existing pattern
-  React.useEffect(() => {
-    if (!user) return
-    setAuthHeaders(() => ({
-      'Content-Type': 'application/json',
-      'x-user-data': encodeURIComponent(JSON.stringify({ id: user.id, username: user.username, email: user.email, role: user.role }))
-    }))
-  }, [user])
-
   // Initial load of redemption history
   React.useEffect(() => {
     ;(async () => {
@@ -46,6 +37,7 @@ export default function RedeemCodeCard() {
       case 'USER_NOT_ALLOWED': return 'You are not allowed to redeem this code'
       case 'RATE_LIMITED_USER': return 'Too many attempts. Please try again later'
       case 'RATE_LIMITED_IP': return 'Too many attempts from your IP. Please try again later'
+      case 'RATE_LIMITED': return 'Too many attempts. Please try again later'
       default: return 'Redemption failed'
     }
   }
@@ -0,0 +1,184 @@
+"use client"
+
+import React from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Button } from "@/components/ui/button"
+import { showError, showSuccess } from "@/lib/toast"
+import { useAuthStore } from "@/stores/user-store"
+import { apiFetch } from "@/lib/api-fetch"
+
+interface PlanOption {
+  id: string
+  name: string
+  original_price: number
+  effective_price?: number
+  billing_cycle: string
+  resources: { memory: number; disk: number; cpu: number }
+}
+
+interface PlanChangeQuote {
+  credit: number
+  cost: number
+  difference: number
+  remaining_fraction: number
+  next_billing_date: string
+  to_plan: { id: string; name: string; price: number; billing_cycle: string }
+}
+
+interface ChangePlanDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  serverId: string
+  currentPlanId?: string
+  locationId?: string
+  serverTypeId?: string
+  onChanged: () => void
+}
+
+export default function ChangePlanDialog({ open, onOpenChange, serverId, currentPlanId, locationId, serverTypeId, onChanged }: ChangePlanDialogProps) {
+  const updateCoins = useAuthStore(s => s.updateCoins)
+
+  const [plans, setPlans] = React.useState<PlanOption[]>([])
+  const [isLoadingPlans, setIsLoadingPlans] = React.useState(false)
+  const [selectedPlanId, setSelectedPlanId] = React.useState("")
+  const [quote, setQuote] = React.useState<PlanChangeQuote | null>(null)
+  const [quoteError, setQuoteError] = React.useState<string | null>(null)
+  const [isQuoting, setIsQuoting] = React.useState(false)
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+
+  // Load the plans offered in this server's location when the dialog opens
+  React.useEffect(() => {
+    if (!open || !locationId) return
+    setSelectedPlanId("")
+    setQuote(null)
+    setQuoteError(null)
+    ;(async () => {
+      try {
+        setIsLoadingPlans(true)
+        const qs = new URLSearchParams({ location_id: locationId, ...(serverTypeId ? { server_type_id: serverTypeId } : {}) })
+        const res = await apiFetch(`/api/servers/plans?${qs.toString()}`, { credentials: 'include' })
+        const data = await res.json()
+        if (!data.success) throw new Error(data.message || 'Failed to load plans')
+        setPlans((data.plans || []).filter((p: PlanOption) => p.id !== currentPlanId))
+      } catch (e) {
+        showError('Failed to load plans', e instanceof Error ? e.message : undefined)
+      } finally {
+        setIsLoadingPlans(false)
+      }
+    })()
+  }, [open, locationId, serverTypeId, currentPlanId])
+
+  // Price the selected plan
+  React.useEffect(() => {
+    if (!selectedPlanId) return
+    let cancelled = false
+    ;(async () => {
+      try {
+        setIsQuoting(true)
+        setQuote(null)
+        setQuoteError(null)
+        const res = await apiFetch(`/api/servers/${serverId}/change-plan?plan_id=${encodeURIComponent(selectedPlanId)}`, { credentials: 'include' })
+        const data = await res.json()
+        if (cancelled) return
+        if (!data.success) setQuoteError(data.message || 'This plan is not available')
+        else setQuote(data.quote)
+      } catch {
+        if (!cancelled) setQuoteError('Failed to price this plan')
+      } finally {
+        if (!cancelled) setIsQuoting(false)
+      }
+    })()
+    return () => { cancelled = true }
+  }, [selectedPlanId, serverId])
+
+  const handleConfirm = async () => {
+    if (!quote) return
+    try {
+      setIsSubmitting(true)
+      const res = await apiFetch(`/api/servers/${serverId}/change-plan`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ plan_id: quote.to_plan.id, confirm: true })
+      })
+      const data = await res.json()
+      if (!data.success) {
+        showError('Plan change failed', data.message)
+        return
+      }
+      updateCoins?.(-data.quote.difference)
+      showSuccess('Plan changed', data.message)
+      onOpenChange(false)
+      onChanged()
+    } catch {
+      showError('Plan change failed')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-neutral-800 border-neutral-700">
+        <DialogHeader>
+          <DialogTitle className="text-white">Change Plan</DialogTitle>
+          <DialogDescription className="text-neutral-400">
+            The rest of the current billing period is prorated. Your next billing date stays the same.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Select value={selectedPlanId} onValueChange={setSelectedPlanId} disabled={isLoadingPlans || plans.length === 0}>
+            <SelectTrigger className="bg-neutral-700/50 border-neutral-600/50 text-white">
+              <SelectValue placeholder={isLoadingPlans ? 'Loading plans...' : plans.length === 0 ? 'No other plans available' : 'Select a plan'} />
+            </SelectTrigger>
+            <SelectContent className="bg-neutral-800 border-neutral-700">
+              {plans.map(plan => (
+                <SelectItem key={plan.id} value={plan.id}>
+                  {plan.name} ({plan.resources.memory} MB RAM, {plan.resources.disk} MB disk) - {plan.effective_price ?? plan.original_price} coins / {plan.billing_cycle}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {isQuoting && <p className="text-sm text-neutral-400">Calculating price...</p>}
+          {quoteError && <p className="text-sm text-red-400">{quoteError}</p>}
+
+          {quote && (
+            <div className="rounded-md border border-neutral-700/50 bg-neutral-900/40 p-4 space-y-2 text-sm">
+              <div className="flex justify-between text-neutral-300">
+                <span>Unused time on current plan</span>
+                <span>-{quote.credit} coins</span>
+              </div>
+              <div className="flex justify-between text-neutral-300">
+                <span>{quote.to_plan.name} until {new Date(quote.next_billing_date).toLocaleString()}</span>
+                <span>{quote.cost} coins</span>
+              </div>
+              <div className="flex justify-between font-semibold text-white border-t border-neutral-700/50 pt-2">
+                <span>{quote.difference >= 0 ? 'Charged now' : 'Refunded now'}</span>
+                <span className={quote.difference >= 0 ? 'text-amber-300' : 'text-green-400'}>{Math.abs(quote.difference)} coins</span>
+              </div>
+              <p className="text-xs text-neutral-500">
+                After that, {quote.to_plan.name} renews at {quote.to_plan.price} coins per {quote.to_plan.billing_cycle}.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} className="text-neutral-400">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!quote || isSubmitting}
+            className="bg-blue-500/10 hover:bg-blue-500/20 text-blue-400 border border-blue-500/20"
+          >
+            {isSubmitting ? 'Changing...' : 'Confirm Change'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,210 @@
+"use client"
+
+import React from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Button } from "@/components/ui/button"
+import { showError, showSuccess } from "@/lib/toast"
+import { useAuthStore } from "@/stores/user-store"
+import { apiFetch } from "@/lib/api-fetch"
+
+interface LocationOption {
+  id: string
+  name: string
+  country?: string
+  city?: string
+  capacity_status: 'available' | 'limited' | 'full'
+}
+
+interface MigrationQuote {
+  price: number
+  mode: 'transfer' | 'recreate'
+  files_copied: boolean
+  from_location: { id: string; name: string }
+  to_location: { id: string; name: string }
+}
+
+interface MigrationSummary {
+  id: string
+  state: string
+  active: boolean
+  target: { location_id: string; node_name?: string }
+  error?: string
+  updated_at: string
+}
+
+interface MigrateServerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  serverId: string
+  currentLocationId?: string
+  planId?: string
+  serverTypeId?: string
+  onMigrated: () => void
+}
+
+const STATE_LABELS: Record<string, string> = {
+  pending: 'Waiting to start',
+  provisioning: 'Setting up the new server',
+  transferring: 'Transferring',
+  switching: 'Switching over',
+  completed: 'Completed',
+  rolled_back: 'Rolled back',
+  failed: 'Failed'
+}
+
+export default function MigrateServerDialog({ open, onOpenChange, serverId, currentLocationId, planId, serverTypeId, onMigrated }: MigrateServerDialogProps) {
+  const updateCoins = useAuthStore(s => s.updateCoins)
+
+  const [locations, setLocations] = React.useState<LocationOption[]>([])
+  const [isLoadingLocations, setIsLoadingLocations] = React.useState(false)
+  const [activeMigration, setActiveMigration] = React.useState<MigrationSummary | null>(null)
+  const [selectedLocationId, setSelectedLocationId] = React.useState("")
+  const [quote, setQuote] = React.useState<MigrationQuote | null>(null)
+  const [quoteError, setQuoteError] = React.useState<string | null>(null)
+  const [isQuoting, setIsQuoting] = React.useState(false)
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+
+  // Load the other locations this server's plan is offered in, and any migration already running
+  React.useEffect(() => {
+    if (!open) return
+    setSelectedLocationId("")
+    setQuote(null)
+    setQuoteError(null)
+    ;(async () => {
+      try {
+        setIsLoadingLocations(true)
+        const qs = new URLSearchParams({ ...(planId ? { plan_id: planId } : {}), ...(serverTypeId ? { server_type_id: serverTypeId } : {}) })
+        const [locationsRes, migrationRes] = await Promise.all([
+          apiFetch(`/api/servers/locations?${qs.toString()}`, { credentials: 'include' }),
+          apiFetch(`/api/servers/${serverId}/migrate`, { credentials: 'include' })
+        ])
+        const [locationsData, migrationData] = await Promise.all([locationsRes.json(), migrationRes.json()])
+        if (!locationsData.success) throw new Error(locationsData.message || 'Failed to load locations')
+        setLocations((locationsData.locations || []).filter((l: LocationOption) => l.id !== currentLocationId))
+        setActiveMigration(migrationData.success && migrationData.migration?.active ? migrationData.migration : null)
+      } catch (e) {
+        showError('Failed to load locations', e instanceof Error ? e.message : undefined)
+      } finally {
+        setIsLoadingLocations(false)
+      }
+    })()
+  }, [open, serverId, currentLocationId, planId, serverTypeId])
+
+  // Price the selected location
+  React.useEffect(() => {
+    if (!selectedLocationId) return
+    let cancelled = false
+    ;(async () => {
+      try {
+        setIsQuoting(true)
+        setQuote(null)
+        setQuoteError(null)
+        const res = await apiFetch(`/api/servers/${serverId}/migrate?location_id=${encodeURIComponent(selectedLocationId)}`, { credentials: 'include' })
+        const data = await res.json()
+        if (cancelled) return
+        if (!data.success) setQuoteError(data.message || 'This location is not available')
+        else setQuote(data.quote)
+      } catch {
+        if (!cancelled) setQuoteError('Failed to check this location')
+      } finally {
+        if (!cancelled) setIsQuoting(false)
+      }
+    })()
+    return () => { cancelled = true }
+  }, [selectedLocationId, serverId])
+
+  const handleConfirm = async () => {
+    if (!quote) return
+    try {
+      setIsSubmitting(true)
+      const res = await apiFetch(`/api/servers/${serverId}/migrate`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ location_id: quote.to_location.id, confirm: true })
+      })
+      const data = await res.json()
+      if (!data.success) {
+        showError('Migration failed', data.message)
+        return
+      }
+      if (quote.price > 0) updateCoins?.(-quote.price)
+      showSuccess('Migration started', data.message)
+      onOpenChange(false)
+      onMigrated()
+    } catch {
+      showError('Migration failed')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-neutral-800 border-neutral-700">
+        <DialogHeader>
+          <DialogTitle className="text-white">Move Server</DialogTitle>
+          <DialogDescription className="text-neutral-400">
+            Move this server to another location. If the move fails, the server stays where it is and you are refunded.
+          </DialogDescription>
+        </DialogHeader>
+
+        {activeMigration ? (
+          <div className="rounded-md border border-blue-500/20 bg-blue-500/10 p-4 text-sm text-blue-300">
+            A move is already in progress: {STATE_LABELS[activeMigration.state] || activeMigration.state}
+            {activeMigration.target.node_name ? ` (to ${activeMigration.target.node_name})` : ''}.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Select value={selectedLocationId} onValueChange={setSelectedLocationId} disabled={isLoadingLocations || locations.length === 0}>
+              <SelectTrigger className="bg-neutral-700/50 border-neutral-600/50 text-white">
+                <SelectValue placeholder={isLoadingLocations ? 'Loading locations...' : locations.length === 0 ? 'No other locations available' : 'Select a location'} />
+              </SelectTrigger>
+              <SelectContent className="bg-neutral-800 border-neutral-700">
+                {locations.map(location => (
+                  <SelectItem key={location.id} value={location.id} disabled={location.capacity_status === 'full'}>
+                    {location.name}{location.city ? ` - ${location.city}` : ''}{location.capacity_status === 'full' ? ' (full)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {isQuoting && <p className="text-sm text-neutral-400">Checking capacity...</p>}
+            {quoteError && <p className="text-sm text-red-400">{quoteError}</p>}
+
+            {quote && (
+              <div className="rounded-md border border-neutral-700/50 bg-neutral-900/40 p-4 space-y-2 text-sm">
+                <div className="flex justify-between text-neutral-300">
+                  <span>{quote.from_location.name} to {quote.to_location.name}</span>
+                  <span className={quote.price > 0 ? 'text-amber-300' : 'text-green-400'}>{quote.price > 0 ? `${quote.price} coins` : 'Free'}</span>
+                </div>
+                {!quote.files_copied && (
+                  <p className="text-xs text-amber-300">
+                    Files are not copied. The server is reinstalled fresh in the new location, so download anything you want to keep first.
+                  </p>
+                )}
+                <p className="text-xs text-neutral-500">
+                  The server address changes after the move. Billing and expiry stay the same.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} className="text-neutral-400">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!quote || isSubmitting || !!activeMigration}
+            className="bg-blue-500/10 hover:bg-blue-500/20 text-blue-400 border border-blue-500/20"
+          >
+            {isSubmitting ? 'Starting...' : 'Confirm Move'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -4,6 +4,7 @@ import React from "react"
 import SocialAccountCard from "./SocialAccountCard"
 import { useAuthStore } from "@/stores/user-store"
 import { showError, showSuccess } from "@/lib/toast"
+import { apiFetch } from "@/lib/api-fetch"
 
 export default function ConnectionsSection() {
   const user = useAuthStore(s => s.currentUser)
@@ -12,21 +13,11 @@ export default function ConnectionsSection() {
   const [githubConnected, setGithubConnected] = React.useState<boolean>(false)
   const [loading, setLoading] = React.useState<boolean>(true)
 
-  const authHeaders = React.useMemo(() => {
-    const h: HeadersInit = { "Content-Type": "application/json" }
-    if (user) {
-      try {
-        ;(h as any)["x-user-data"] = encodeURIComponent(JSON.stringify({ id: user.id, username: user.username, email: user.email }))
-      } catch {}
-    }
-    return h
-  }, [user])
-
   const refreshStatus = React.useCallback(async () => {
     if (!providers) return
     try {
       if (providers.discord.login && user) {
-        const dr = await fetch("/api/auth/discord/status", { headers: authHeaders, credentials: "include" })
+        const dr = await apiFetch("/api/auth/discord/status", { credentials: "include" })
         const dj = await dr.json()
         setDiscordConnected(!!dj?.connected)
       } else {
@@ -34,7 +25,7 @@ export default function ConnectionsSection() {
       }
 
       if (providers.github.login && user) {
-        const gr = await fetch("/api/auth/github/status", { headers: authHeaders, credentials: "include" })
+        const gr = await apiFetch("/api/auth/github/status", { credentials: "include" })
         const gj = await gr.json()
         setGithubConnected(!!gj?.connected)
       } else {
@@ -43,13 +34,13 @@ export default function ConnectionsSection() {
     } catch (e) {
       // swallow
     }
-  }, [providers, user, authHeaders])
+  }, [providers, user])
 
   React.useEffect(() => {
     const load = async () => {
       setLoading(true)
       try {
-        const res = await fetch("/api/auth/providers", { cache: "no-store" })
+        const res = await apiFetch("/api/auth/providers", { cache: "no-store" })
         const json = await res.json()
         if (json?.success && json.providers) setProviders(json.providers)
       } finally {
@@ -68,7 +59,7 @@ export default function ConnectionsSection() {
   const disconnect = async (provider: 'discord' | 'github') => {
     try {
       const url = `/api/auth/${provider}/status`
-      const res = await fetch(url, { method: 'DELETE', headers: authHeaders, credentials: 'include' })
+      const res = await apiFetch(url, { method: 'DELETE', credentials: 'include' })
       const j = await res.json()
       if (j?.success) {
         showSuccess(`${provider === 'discord' ? 'Discord' : 'GitHub'} disconnected`)
@@ -5,17 +5,234 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
-import { useAuthStore } from "@/stores/user-store"
+import { Badge } from "@/components/ui/badge"
+import { useAuthStore, UserSessionInfo, TwoFactorStatus } from "@/stores/user-store"
 import { showError, showSuccess } from "@/lib/toast"
 
+function describeDevice(s: UserSessionInfo) {
+  const parts = [s.browser, s.os].filter(Boolean)
+  return parts.length ? parts.join(" on ") : (s.user_agent || "Unknown device")
+}
+
+function TwoFactorPanel() {
+  const getTwoFactorStatus = useAuthStore(s => s.getTwoFactorStatus)
+  const setupTwoFactor = useAuthStore(s => s.setupTwoFactor)
+  const enableTwoFactor = useAuthStore(s => s.enableTwoFactor)
+  const disableTwoFactor = useAuthStore(s => s.disableTwoFactor)
+  const [status, setStatus] = React.useState<TwoFactorStatus | null>(null)
+  const [setup, setSetup] = React.useState<{ secret: string; otpauth_uri: string } | null>(null)
+  const [backupCodes, setBackupCodes] = React.useState<string[] | null>(null)
+  const [code, setCode] = React.useState("")
+  const [password, setPassword] = React.useState("")
+  const [working, setWorking] = React.useState(false)
+
+  const load = async () => {
+    const r = await getTwoFactorStatus()
+    if (r.success && r.two_factor) setStatus(r.two_factor)
+  }
+
+  React.useEffect(() => { load() }, [])
+
+  const onStartSetup = async () => {
+    setWorking(true)
+    const r = await setupTwoFactor()
+    setWorking(false)
+    if (r.success && r.secret && r.otpauth_uri) {
+      setSetup({ secret: r.secret, otpauth_uri: r.otpauth_uri })
+      setCode("")
+    } else {
+      showError("Failed to start 2FA setup", r.message)
+    }
+  }
+
+  const onEnable = async () => {
+    setWorking(true)
+    const r = await enableTwoFactor(code.trim())
+    setWorking(false)
+    if (r.success) {
+      showSuccess("Two-factor authentication enabled")
+      setSetup(null)
+      setCode("")
+      setBackupCodes(r.backup_codes || [])
+      load()
+    } else {
+      showError("Failed to enable 2FA", r.message)
+    }
+  }
+
+  const onDisable = async () => {
+    setWorking(true)
+    const r = await disableTwoFactor(password, code.trim())
+    setWorking(false)
+    if (r.success) {
+      showSuccess("Two-factor authentication disabled")
+      setPassword("")
+      setCode("")
+      load()
+    } else {
+      showError("Failed to disable 2FA", r.message)
+    }
+  }
+
+  return (
+    <Card className="bg-neutral-900/40 border-neutral-700/40">
+      <CardHeader className="flex flex-row items-center justify-between gap-3">
+        <CardTitle>Two-factor authentication</CardTitle>
+        {status && <Badge variant="secondary">{status.enabled ? "Enabled" : "Disabled"}</Badge>}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {backupCodes && (
+          <div className="p-3 rounded-lg bg-neutral-800/40 border border-neutral-700/30 space-y-2">
+            <div className="text-sm font-medium">Backup codes</div>
+            <div className="text-xs text-neutral-400">Each code works once. Store them somewhere safe; they will not be shown again.</div>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {backupCodes.map(c => <div key={c}>{c}</div>)}
+            </div>
+            <div className="flex justify-end"><Button variant="outline" onClick={() => setBackupCodes(null)}>I have saved these</Button></div>
+          </div>
+        )}
+
+        {status && !status.enabled && !setup && (
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-sm text-neutral-400">Require a code from an authenticator app when signing in.</div>
+            <Button onClick={onStartSetup} disabled={working}>{working ? "Preparing..." : "Set up 2FA"}</Button>
+          </div>
+        )}
+
+        {status && !status.enabled && setup && (
+          <div className="space-y-3">
+            <div className="text-sm text-neutral-400">
+              Add this account to your authenticator app using the <a href={setup.otpauth_uri} className="underline text-neutral-200">setup link</a>, or enter the key manually:
+            </div>
+            <div className="font-mono text-sm break-all p-2 rounded bg-neutral-800/60 border border-neutral-700/30">{setup.secret}</div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <Label>Verification code</Label>
+                <Input inputMode="numeric" autoComplete="one-time-code" maxLength={6} value={code} onChange={e => setCode(e.target.value)} />
+              </div>
+              <div className="md:col-span-2 flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setSetup(null)} disabled={working}>Cancel</Button>
+                <Button onClick={onEnable} disabled={working || code.trim().length !== 6}>{working ? "Verifying..." : "Enable 2FA"}</Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {status && status.enabled && (
+          <div className="space-y-3">
+            <div className="text-sm text-neutral-400">Backup codes remaining: {status.backup_codes_remaining}</div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div>
+                <Label>Current password</Label>
+                <Input type="password" value={password} onChange={e => setPassword(e.target.value)} />
+              </div>
+              <div>
+                <Label>Authenticator or backup code</Label>
+                <Input autoComplete="one-time-code" value={code} onChange={e => setCode(e.target.value)} />
+              </div>
+              <div className="flex justify-end">
+                <Button variant="destructive" onClick={onDisable} disabled={working || !code.trim()}>{working ? "Disabling..." : "Disable 2FA"}</Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function SessionsPanel() {
+  const getSessions = useAuthStore(s => s.getSessions)
+  const revokeSession = useAuthStore(s => s.revokeSession)
+  const revokeOtherSessions = useAuthStore(s => s.revokeOtherSessions)
+  const [sessions, setSessions] = React.useState<UserSessionInfo[]>([])
+  const [loading, setLoading] = React.useState(false)
+  const [working, setWorking] = React.useState<string | null>(null)
+
+  const load = async () => {
+    setLoading(true)
+    const r = await getSessions()
+    if (r.success) setSessions(r.sessions || [])
+    else showError("Failed to load sessions", r.message)
+    setLoading(false)
+  }
+
+  React.useEffect(() => { load() }, [])
+
+  const onRevoke = async (id: string) => {
+    setWorking(id)
+    const r = await revokeSession(id)
+    setWorking(null)
+    if (r.success) {
+      showSuccess("Session revoked", r.message)
+      setSessions(list => list.filter(s => s.id !== id))
+    } else {
+      showError("Failed to revoke session", r.message)
+    }
+  }
+
+  const onRevokeOthers = async () => {
+    setWorking("others")
+    const r = await revokeOtherSessions()
+    setWorking(null)
+    if (r.success) {
+      showSuccess("Signed out other devices", r.message)
+      setSessions(list => list.filter(s => s.current))
+    } else {
+      showError("Failed to sign out other devices", r.message)
+    }
+  }
+
+  const hasOthers = sessions.some(s => !s.current)
+
+  return (
+    <Card className="bg-neutral-900/40 border-neutral-700/40">
+      <CardHeader className="flex flex-row items-center justify-between gap-3">
+        <CardTitle>Sessions</CardTitle>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={load} disabled={loading}>{loading ? "Refreshing..." : "Refresh"}</Button>
+          <Button variant="destructive" onClick={onRevokeOthers} disabled={!hasOthers || working !== null}>
+            {working === "others" ? "Signing out..." : "Log out everywhere else"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!sessions.length ? (
+          <div className="text-sm text-neutral-400">{loading ? "Loading sessions..." : "No active sessions."}</div>
+        ) : (
+          <div className="space-y-2">
+            {sessions.map(s => (
+              <div key={s.id} className="p-3 rounded-lg bg-neutral-800/40 border border-neutral-700/30 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    <span className="truncate">{describeDevice(s)}</span>
+                    {s.current && <Badge variant="secondary">This device</Badge>}
+                  </div>
+                  <div className="text-xs text-neutral-400 mt-1">IP: {s.ip_address || "unknown"} · Signed in via {s.login_method}</div>
+                  <div className="text-xs text-neutral-500">Last seen {new Date(s.last_seen_at).toLocaleString()}</div>
+                </div>
+                {!s.current && (
+                  <Button variant="outline" size="sm" onClick={() => onRevoke(s.id)} disabled={working !== null}>
+                    {working === s.id ? "Revoking..." : "Revoke"}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
 export default function SecuritySection() {
   const changePassword = useAuthStore(s => s.changePassword)
   const [pwd, setPwd] = React.useState({ current_password: "", new_password: "", confirm_password: "" })
   const [loading, setLoading] = React.useState(false)
 
   const onChangePassword = async () => {
-    if (!pwd.new_password || pwd.new_password.length < 8) {
-      showError("Password too short", "Use at least 8 characters"); return
+    if (!pwd.new_password) {
+      showError("Password required", "Enter a new password"); return
     }
     if (pwd.new_password !== pwd.confirm_password) {
       showError("Passwords don't match", "Confirm your new password"); return
@@ -32,6 +249,7 @@ export default function SecuritySection() {
   }
 
   return (
+    <div className="space-y-6">
     <Card className="bg-neutral-900/40 border-neutral-700/40">
       <CardHeader><CardTitle>Change password</CardTitle></CardHeader>
       <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -50,6 +268,11 @@ export default function SecuritySection() {
         <div className="md:col-span-3 flex justify-end"><Button onClick={onChangePassword} disabled={loading}>{loading?"Updating...":"Update password"}</Button></div>
       </CardContent>
     </Card>
+
+    <TwoFactorPanel />
+
+    <SessionsPanel />
+    </div>
   )
 }
 
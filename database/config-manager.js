@@ -91,7 +91,14 @@ function envFallbackFor(key, defVal) {
     'integrations.pterodactyl.client_api_key': 'PANEL_CLIENT_API_KEY',
     'app.jwt_secret': 'JWT_SECRET',
     'app.session_secret': 'SESSION_SECRET',
-    'security.cron_secret': 'CRON_SECRET'
+    'security.cron_secret': 'CRON_SECRET',
+    'app.url': 'NEXT_PUBLIC_URL',
+    'mail.from': 'MAIL_FROM',
+    'mail.smtp.host': 'SMTP_HOST',
+    'mail.smtp.port': 'SMTP_PORT',
+    'mail.smtp.secure': 'SMTP_SECURE',
+    'mail.smtp.user': 'SMTP_USER',
+    'mail.smtp.password': 'SMTP_PASSWORD'
   }
   if (map[key]) envKeyCandidates.unshift(map[key])
   for (const k of envKeyCandidates) {
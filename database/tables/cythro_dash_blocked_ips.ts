@@ -14,8 +14,9 @@ export interface CythroDashBlockedIP {
   expires_at?: Date | null
   metadata?: {
     source?: 'referral' | 'security' | 'api' | 'manual'
-    cidr?: string
+    cidr?: string // Canonical range (IPv4 or IPv6) for range blocks
     notes?: string
+    rule_id?: number // Automatic block rule that created this block
     hit_count?: number
   }
 }
@@ -0,0 +1,43 @@
+/**
+ * CythroDash - Capacity Alerts Schema
+ *
+ * One open alert per location and resource, raised by the capacity forecast. An alert is
+ * escalated in place (warning -> critical -> full) and resolved once the location recovers.
+ */
+
+import { ObjectId } from 'mongodb'
+
+export type CapacityResource = 'memory' | 'disk'
+
+export type CapacityAlertLevel = 'warning' | 'critical' | 'full'
+
+export interface CythroDashCapacityAlert {
+  _id?: ObjectId
+  location_id: string // CythroDash location id
+  pterodactyl_location_id: number
+  location_name: string
+  resource: CapacityResource
+  level: CapacityAlertLevel
+  message: string
+  usage_percentage: number
+  days_until_full: number | null // null when usage is flat or shrinking
+  created_at: Date
+  updated_at: Date
+  notified_at?: Date // Last webhook/email delivery, on raise or escalation
+  acknowledged_at?: Date
+  acknowledged_by?: number
+  resolved_at?: Date
+}
+
+export const CAPACITY_ALERTS_COLLECTION = 'cythro_dash_capacity_alerts'
+
+// Resolved alerts are kept this long for the alert history
+export const CAPACITY_ALERT_RETENTION_SECONDS = 90 * 24 * 60 * 60
+
+export const CAPACITY_ALERT_LEVELS: CapacityAlertLevel[] = ['warning', 'critical', 'full']
+
+export const CAPACITY_ALERTS_INDEXES = [
+  { key: { location_id: 1, resource: 1, resolved_at: 1 }, name: 'location_resource_open' },
+  { key: { resolved_at: 1, created_at: -1 }, name: 'open_recent' },
+  { key: { resolved_at: 1 }, name: 'resolved_ttl', expireAfterSeconds: CAPACITY_ALERT_RETENTION_SECONDS },
+]
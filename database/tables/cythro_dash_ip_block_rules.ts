@@ -0,0 +1,50 @@
+/**
+ * CythroDash - Automatic IP Block Rules Schema
+ *
+ * A rule blocks an IP once it produced `threshold` matching events within `window_minutes`.
+ * Matching events are recorded as hits that expire with the window.
+ */
+
+import { SecurityLogAction } from './cythro_dash_users_logs'
+
+// security_log: security log entries with `action`
+// referral_click: referral clicks scored above `min_risk_score`
+// rate_limit: requests rejected by a rate limiter
+export type IPBlockRuleTrigger = 'security_log' | 'referral_click' | 'rate_limit'
+
+export interface CythroDashIPBlockRule {
+  id: number
+  name: string
+  enabled: boolean
+  trigger: IPBlockRuleTrigger
+  action?: SecurityLogAction // security_log only
+  min_risk_score?: number // referral_click only
+  threshold: number // Events from one IP...
+  window_minutes: number // ...within this many minutes...
+  block_duration_minutes: number // ...block it for this long
+  created_by_admin_id: number
+  created_at: Date
+  updated_at: Date
+  blocks_created: number
+  last_triggered_at?: Date
+}
+
+export interface CythroDashIPBlockRuleHit {
+  rule_id: number
+  ip_address: string
+  created_at: Date
+  expires_at: Date // Removed by the TTL index once outside the rule's window
+}
+
+export const IP_BLOCK_RULES_COLLECTION = 'cythro_dash_ip_block_rules'
+export const IP_BLOCK_RULE_HITS_COLLECTION = 'cythro_dash_ip_block_rule_hits'
+
+export const IP_BLOCK_RULES_INDEXES = [
+  { key: { id: 1 }, name: 'id_unique', unique: true },
+  { key: { enabled: 1, trigger: 1 }, name: 'enabled_trigger' },
+]
+
+export const IP_BLOCK_RULE_HITS_INDEXES = [
+  { key: { rule_id: 1, ip_address: 1, created_at: -1 }, name: 'rule_ip_time' },
+  { key: { expires_at: 1 }, name: 'expires_ttl', expireAfterSeconds: 0 },
+]
@@ -0,0 +1,35 @@
+/**
+ * CythroDash - Known Login Devices Schema
+ *
+ * One record per user and device fingerprint (browser, OS and device type plus the IP
+ * prefix). Logins from an unknown fingerprint or a country the user has not signed in from
+ * before are treated as anomalous. Unconfirmed records hold a pending email confirmation.
+ */
+
+import { DeviceInfo } from './cythro_dash_referrals'
+
+export interface CythroDashKnownDevice {
+  user_id: number
+  fingerprint: string
+  device_info: DeviceInfo
+  ip_prefix: string // /24 for IPv4, /48 for IPv6
+  last_ip?: string
+  countries: string[] // ISO 3166-1 alpha-2 codes this device signed in from, when GeoIP knows them
+
+  confirmed: boolean // False until the first login or emailed confirmation
+  confirmation_token_hash?: string // sha256(token) hex
+  confirmation_expires_at?: Date
+  pending_country?: string // Added to countries once the pending confirmation is redeemed
+
+  login_count: number
+  first_seen_at: Date
+  last_seen_at: Date
+}
+
+export const KNOWN_DEVICES_COLLECTION = 'cythro_dash_known_devices'
+
+export const KNOWN_DEVICES_INDEXES = [
+  { key: { user_id: 1, fingerprint: 1 }, name: 'user_fingerprint_unique', unique: true },
+  { key: { user_id: 1, last_seen_at: -1 }, name: 'user_last_seen' },
+  { key: { confirmation_token_hash: 1 }, name: 'confirmation_token_hash', sparse: true },
+]
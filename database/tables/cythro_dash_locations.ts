@@ -21,6 +21,28 @@ export enum LocationVisibility {
   PRIVATE = 'private'  // Admin only
 }
 
+// Capacity hold enumeration (set automatically while a location is full)
+export enum LocationCapacityHold {
+  WAITLIST = 'waitlist', // Listed, but closed to new servers
+  HIDDEN = 'hidden'      // Left out of the user location list
+}
+
+// Node placement strategy enumeration (how a node is picked for new servers)
+export enum NodePlacementStrategy {
+  BALANCED = 'balanced',           // Best fit, then lowest load
+  BIN_PACKING = 'bin_packing',     // Fullest node that still fits
+  SPREAD = 'spread',               // Emptiest node
+  LEAST_SERVERS = 'least_servers', // Node hosting the fewest servers
+  CPU_AWARE = 'cpu_aware'          // Node with the least CPU committed
+}
+
+// Node placement configuration
+export interface LocationPlacement {
+  strategy: NodePlacementStrategy;
+  node_weights?: Record<string, number>; // Pterodactyl node ID -> score multiplier (default 1, 0 excludes the node)
+  anti_affinity?: boolean; // Never put two servers of the same user on one node
+}
+
 // Resource capacity interface
 export interface ResourceCapacity {
   memory: number; // Total MB
@@ -57,6 +79,11 @@ export interface CythroDashLocation {
   // Status and visibility
   status: LocationStatus;
   visibility: LocationVisibility;
+  capacity_hold?: {
+    mode: LocationCapacityHold;
+    since: Date;
+    reason: string;
+  };
   
   // Resource monitoring
   total_capacity: ResourceCapacity;
@@ -66,6 +93,7 @@ export interface CythroDashLocation {
   max_servers_per_user?: number; // Optional limit on servers per user in this location
   allowed_server_types?: string[]; // Optional restriction to certain server types
   priority: number; // Display priority (lower = higher priority)
+  placement?: LocationPlacement; // Defaults to the balanced strategy
   
   // Features and capabilities
   features: {
@@ -148,6 +176,7 @@ export const LocationHelpers = {
     return (
       location.status === LocationStatus.ACTIVE &&
       location.visibility === LocationVisibility.PUBLIC &&
+      !location.capacity_hold &&
       LocationHelpers.getCapacityStatus(location) !== 'full'
     );
   },
@@ -229,6 +258,8 @@ export const LOCATIONS_COLLECTION = 'cythro_dash_locations';
 export default {
   LocationStatus,
   LocationVisibility,
+  LocationCapacityHold,
+  NodePlacementStrategy,
   LocationHelpers,
   LOCATIONS_COLLECTION,
 };
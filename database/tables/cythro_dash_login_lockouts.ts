@@ -0,0 +1,26 @@
+/**
+ * CythroDash - Per-IP Login Lockouts Schema
+ *
+ * Failed logins counted per account and client address, used when the lockout mode is `ip`.
+ * In `account` mode the counters live on the user (failed_login_attempts / locked_until).
+ */
+
+export interface CythroDashLoginLockout {
+  user_id: number
+  ip_address: string // Normalized client address
+  failed_attempts: number // Since the last lockout or successful login
+  lockout_count: number // Consecutive lockouts, drives backoff
+  locked_until?: Date
+  last_failed_at: Date
+  updated_at: Date
+}
+
+export const LOGIN_LOCKOUTS_COLLECTION = 'cythro_dash_login_lockouts'
+
+// Records left alone this long are dropped, which also ends their backoff
+export const LOGIN_LOCKOUT_RETENTION_SECONDS = 30 * 24 * 60 * 60
+
+export const LOGIN_LOCKOUTS_INDEXES = [
+  { key: { user_id: 1, ip_address: 1 }, name: 'user_ip_unique', unique: true },
+  { key: { updated_at: 1 }, name: 'updated_at_ttl', expireAfterSeconds: LOGIN_LOCKOUT_RETENTION_SECONDS },
+]
@@ -25,6 +25,13 @@ export enum ResourceStatus {
   FULL = 'full'           // > 95% usage
 }
 
+// Sample granularity. Raw samples are rolled up into hourly and then daily averages.
+export enum NodeStatsGranularity {
+  RAW = 'raw',
+  HOURLY = 'hourly',
+  DAILY = 'daily'
+}
+
 // Resource metrics interface
 export interface ResourceMetrics {
   total: number;      // Total available
@@ -73,6 +80,7 @@ export interface CythroDashNodeStats {
   // Node identification
   pterodactyl_node_id: number; // Pterodactyl node ID
   location_id: string; // Reference to CythroDashLocation
+  pterodactyl_location_id?: number; // Pterodactyl location ID
   node_name: string; // Node display name
   node_fqdn: string; // Node FQDN
   
@@ -149,6 +157,11 @@ export interface CythroDashNodeStats {
     auto_suspend_on_overload: boolean; // Auto-suspend new servers on overload
   };
   
+  // Sampling
+  granularity?: NodeStatsGranularity; // Raw sample or hourly/daily rollup
+  sample_count?: number; // Raw samples averaged into this record
+  expires_at?: Date;     // Removed by the TTL index after this time
+
   // Metadata
   recorded_at: Date;    // When this data was recorded
   updated_at: Date;     // When this record was last updated
@@ -176,6 +189,20 @@ export interface NodeSummary {
   last_ping: Date;
 }
 
+// One point of a node or location trend (charts)
+export interface NodeStatsPoint {
+  recorded_at: Date;
+  memory_used: number;
+  memory_total: number;
+  memory_percentage: number;
+  disk_used: number;
+  disk_total: number;
+  disk_percentage: number;
+  servers: number;
+  health: number;
+  nodes?: number; // Nodes reporting, for location trends
+}
+
 // Aggregated location stats interface
 export interface LocationAggregateStats {
   location_id: string;
@@ -464,10 +491,27 @@ export const NodeStatsHelpers = {
 // Export collection name constant
 export const NODE_STATS_COLLECTION = 'cythro_dash_node_stats';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long each granularity is kept. Hourly and daily match the default retention_policy.
+export const NODE_STATS_RETENTION_MS: Record<NodeStatsGranularity, number> = {
+  [NodeStatsGranularity.RAW]: 2 * DAY_MS,
+  [NodeStatsGranularity.HOURLY]: 7 * DAY_MS,
+  [NodeStatsGranularity.DAILY]: 183 * DAY_MS,
+};
+
+export const NODE_STATS_INDEXES = [
+  { key: { pterodactyl_node_id: 1, granularity: 1, recorded_at: -1 }, name: 'node_granularity_recorded', unique: true },
+  { key: { pterodactyl_location_id: 1, granularity: 1, recorded_at: -1 }, name: 'location_granularity_recorded' },
+  { key: { granularity: 1, recorded_at: -1 }, name: 'granularity_recorded' },
+  { key: { expires_at: 1 }, name: 'expires_ttl', expireAfterSeconds: 0 },
+];
+
 // Export default
 export default {
   NodeStatus,
   ResourceStatus,
+  NodeStatsGranularity,
   NodeStatsHelpers,
   NODE_STATS_COLLECTION,
 };
@@ -7,6 +7,7 @@
  */
 
 import { ObjectId } from 'mongodb';
+import { computePlanPrice } from '@/lib/pricing';
 
 // Plan status enumeration
 export enum PlanStatus {
@@ -60,6 +61,13 @@ export interface PlanRestrictions {
   requires_verification?: boolean; // Require email verification
 }
 
+// Server lifecycle overrides, in hours. Unset fields fall back to the global billing settings.
+export interface PlanLifecyclePolicy {
+  suspend_grace_hours?: number; // Time an unpaid/expired server keeps running before suspension
+  delete_after_hours?: number; // Time a suspended server is kept before termination
+  data_retention_hours?: number; // Time a terminated server's files are kept (0 = delete immediately)
+}
+
 // Hosting plan interface definition
 export interface CythroDashPlan {
   _id?: ObjectId;
@@ -111,6 +119,9 @@ export interface CythroDashPlan {
     valid_until?: Date; // Promotion expiry
     promo_code?: string; // Required promo code
   };
+
+  // Lifecycle policy overrides
+  lifecycle?: PlanLifecyclePolicy;
   
   // Metadata
   created_at: Date;
@@ -185,24 +196,7 @@ export const PlanHelpers = {
 
   // Get effective price (with promotions)
   getEffectivePrice: (plan: CythroDashPlan): number => {
-    if (!plan.promotion) return plan.price;
-
-    const now = new Date();
-    if (plan.promotion.valid_until && now > plan.promotion.valid_until) {
-      return plan.price; // Promotion expired
-    }
-
-    let discountedPrice = plan.price;
-
-    if (plan.promotion.discount_percentage) {
-      discountedPrice = plan.price * (1 - plan.promotion.discount_percentage / 100);
-    }
-
-    if (plan.promotion.discount_amount) {
-      discountedPrice = Math.max(0, plan.price - plan.promotion.discount_amount);
-    }
-
-    return Math.round(discountedPrice);
+    return computePlanPrice(plan).price;
   },
 
   // Get plan features as array
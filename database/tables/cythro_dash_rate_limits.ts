@@ -0,0 +1,20 @@
+/**
+ * CythroDash - Rate Limit Counters Schema
+ *
+ * One counter per limiter key and fixed window; the limiter weighs the previous window's
+ * counter to get a sliding window. Counters are removed by the TTL index once unused.
+ */
+
+export interface CythroDashRateLimitCounter {
+  key: string // policy:key_type:identifier:window_ms
+  window_start: Date
+  count: number
+  expires_at: Date // End of the following window, after which the counter is never read
+}
+
+export const RATE_LIMITS_COLLECTION = 'cythro_dash_rate_limits'
+
+export const RATE_LIMITS_INDEXES = [
+  { key: { key: 1, window_start: 1 }, name: 'key_window_unique', unique: true },
+  { key: { expires_at: 1 }, name: 'expires_ttl', expireAfterSeconds: 0 },
+]
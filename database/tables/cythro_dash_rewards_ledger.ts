@@ -2,7 +2,7 @@
  * CythroDash - Rewards/Earnings Ledger Schema
  */
 
-export type RewardSourceCategory = 'referral' | 'daily_login' | 'promotion' | 'transfer' | 'redeem_code' | 'admin_adjustment'
+export type RewardSourceCategory = 'referral' | 'daily_login' | 'promotion' | 'transfer' | 'redeem_code' | 'admin_adjustment' | 'server_billing'
 export type RewardAction = 'earn' | 'spend' | 'adjust'
 
 export interface CythroDashRewardLedgerEntry {
@@ -15,6 +15,8 @@ export interface CythroDashRewardLedgerEntry {
   source_action: RewardAction
   reference_id?: string | number // e.g., code redemption id, transfer id
   message?: string
+  idempotency_key?: string // Same key = same mutation; a retry returns the first entry instead of applying twice
+  reverses_entry_id?: number // Set on entries that undo an earlier entry (e.g. a refund)
   created_at: Date
 }
 
@@ -24,5 +26,6 @@ export const REWARDS_LEDGER_INDEXES = [
   { key: { user_id: 1, created_at: -1 }, name: 'user_time' },
   { key: { source_category: 1, created_at: -1 }, name: 'source_time' },
   { key: { created_at: -1 }, name: 'created_desc' },
+  { key: { idempotency_key: 1 }, name: 'idempotency_key_unique', unique: true, sparse: true },
 ]
 
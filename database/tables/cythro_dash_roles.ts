@@ -0,0 +1,52 @@
+/**
+ * CythroDash - Admin Roles Schema
+ *
+ * A role is a named set of admin permissions (see lib/auth/permissions.ts). Users with a
+ * `role_id` are staff and get the admin panel; what they can do there is decided by the role.
+ */
+
+export interface CythroDashRole {
+  id: string // Slug, e.g. 'support'
+  name: string
+  description?: string
+  permissions: string[] // Permission keys, or '*' for all
+  builtin: boolean // Seeded roles; superadmin cannot be edited or deleted
+  created_at: Date
+  updated_at: Date
+}
+
+export const ROLES_COLLECTION = 'cythro_dash_roles'
+
+export const SUPERADMIN_ROLE_ID = 'superadmin'
+
+export const ROLES_INDEXES = [
+  { key: { id: 1 }, name: 'id_unique', unique: true },
+]
+
+// Seeded on first use; only superadmin is protected, the others can be edited like custom roles
+export const DEFAULT_ROLES: Array<Pick<CythroDashRole, 'id' | 'name' | 'description' | 'permissions'>> = [
+  {
+    id: SUPERADMIN_ROLE_ID,
+    name: 'Super Admin',
+    description: 'Full access to everything, including roles',
+    permissions: ['*'],
+  },
+  {
+    id: 'support',
+    name: 'Support',
+    description: 'Helps users with their accounts and servers',
+    permissions: ['users.read', 'users.security', 'users.impersonate', 'servers.read', 'locations.read', 'plans.read', 'security.read'],
+  },
+  {
+    id: 'billing',
+    name: 'Billing',
+    description: 'Handles coins, codes and plans',
+    permissions: ['users.read', 'users.coins.adjust', 'codes.write', 'plans.write', 'servers.read', 'ledger.read', 'ledger.reconcile'],
+  },
+  {
+    id: 'moderator',
+    name: 'Moderator',
+    description: 'Deals with abuse',
+    permissions: ['users.read', 'users.write', 'servers.read', 'servers.suspend', 'security.read', 'security.block_ip', 'content.write'],
+  },
+]
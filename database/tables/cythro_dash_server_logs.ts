@@ -10,7 +10,9 @@ export enum ServerLogAction {
   POWER_START = 'start',
   POWER_STOP = 'stop',
   POWER_RESTART = 'restart',
-  POWER_KILL = 'kill'
+  POWER_KILL = 'kill',
+  PLAN_CHANGE = 'plan_change',
+  MIGRATION = 'migration'
 }
 
 export interface CythroDashServerLog {
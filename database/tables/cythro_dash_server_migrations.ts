@@ -0,0 +1,68 @@
+/**
+ * CythroDash - Server Migrations Schema
+ *
+ * A migration moves a server to another node, optionally in another location. It is a small
+ * state machine advanced by the lifecycle cron; at most one migration per server is active.
+ */
+
+import { ObjectId } from 'mongodb'
+import type { CythroDashRewardLedgerEntry } from './cythro_dash_rewards_ledger'
+import type { NodePlacementStrategy } from './cythro_dash_locations'
+
+export enum ServerMigrationState {
+  PENDING = 'pending',           // Target picked, nothing changed yet
+  PROVISIONING = 'provisioning', // Target server created, waiting for its install (recreate mode)
+  TRANSFERRING = 'transferring', // Panel transfer running (transfer mode)
+  SWITCHING = 'switching',       // Pointing the CythroDash server at the target
+  COMPLETED = 'completed',
+  ROLLED_BACK = 'rolled_back',   // Failed or cancelled; the server stayed where it was
+  FAILED = 'failed'              // Rollback did not finish; needs an admin
+}
+
+export enum ServerMigrationMode {
+  TRANSFER = 'transfer', // Panel moves the server and its files
+  RECREATE = 'recreate'  // New server with the same egg and limits, old one kept suspended (files are not copied)
+}
+
+export type ServerMigrationReason = 'user_request' | 'admin' | 'node_drain'
+
+export interface ServerMigrationEndpoint {
+  location_id: string // CythroDash location id
+  pterodactyl_location_id: number
+  node_id?: number
+  node_name?: string
+  allocation_id?: number
+  pterodactyl_server_id?: number
+  pterodactyl_uuid?: string
+  pterodactyl_identifier?: string
+}
+
+export interface CythroDashServerMigration {
+  _id?: ObjectId
+  server_id: string // CythroDash server id
+  user_id: number // Server owner
+  requested_by: number
+  reason: ServerMigrationReason
+  mode: ServerMigrationMode
+  state: ServerMigrationState
+  active: boolean // True until completed, rolled back or failed
+  source: ServerMigrationEndpoint
+  target: ServerMigrationEndpoint & { strategy?: NodePlacementStrategy }
+  charge?: CythroDashRewardLedgerEntry // What the owner paid, refunded on rollback
+  source_retained?: boolean // Recreate mode: the old server is suspended, not deleted, until an admin deletes it
+  source_deleted_at?: Date
+  error?: string
+  created_at: Date
+  updated_at: Date
+  state_changed_at: Date // Timeouts count from here
+  completed_at?: Date
+}
+
+export const SERVER_MIGRATIONS_COLLECTION = 'cythro_dash_server_migrations'
+
+export const SERVER_MIGRATIONS_INDEXES = [
+  { key: { server_id: 1 }, name: 'one_active_per_server', unique: true, partialFilterExpression: { active: true } },
+  { key: { server_id: 1, created_at: -1 }, name: 'server_time' },
+  { key: { active: 1, created_at: 1 }, name: 'active_queue' },
+  { key: { created_at: -1 }, name: 'created_desc' },
+]
@@ -46,6 +46,16 @@ export interface ResourceUsage {
   network_tx?: number; // Network transmitted in bytes
 }
 
+// Discount applied to a server's price (see lib/pricing.ts)
+export interface AppliedDiscount {
+  type: 'percentage' | 'fixed';
+  value: number; // Percentage or coins, as configured on the plan
+  amount: number; // Coins taken off each cycle
+  source: 'promotion' | 'promo_code';
+  promo_code?: string; // Code entered at checkout
+  valid_until?: Date; // Promotion expiry at the time it was applied
+}
+
 // Billing information interface
 export interface BillingInfo {
   plan_id: string; // Current plan ID
@@ -56,6 +66,7 @@ export interface BillingInfo {
   setup_fee_paid?: number; // Setup fee paid in coins
   overdue_amount?: number; // Amount overdue in coins
   billing_cycle: string; // Billing cycle (monthly, weekly, etc.)
+  discount?: AppliedDiscount | null; // Discount used for the last charge
 }
 
 // Server configuration interface
@@ -185,6 +196,8 @@ export interface CythroDashServer {
     terminated_by?: number; // Admin user ID (if manual)
     termination_reason: string;
     data_retention_until?: Date; // When data will be permanently deleted
+    data_retained?: boolean; // Panel server is kept (suspended) until data_retention_until
+    data_purged_at?: Date; // When the retained panel server was deleted
   };
 
   // Tags and categorization
@@ -0,0 +1,44 @@
+/**
+ * CythroDash - User Sessions Schema
+ *
+ * Sessions are identified by an opaque random token handed to the client in the
+ * `session_token` cookie. Only the SHA-256 hash of that token is stored here.
+ */
+
+export type SessionLoginMethod = 'password' | 'discord' | 'github' | 'refresh' | 'impersonation'
+
+// Set on sessions an admin opened to view the dashboard as another user
+export interface SessionImpersonation {
+  admin_id: number
+  admin_username: string
+  admin_session_id: string // The admin's own session, restored when impersonation stops
+  allow_wallet_actions: boolean
+  reason?: string
+}
+
+export interface CythroDashSession {
+  id: string // public, non-secret identifier (safe to expose in listings)
+  user_id: number
+  token_hash: string // sha256(token) hex
+  csrf_token?: string // Synchronizer token, mirrored to the client in the readable `csrf_token` cookie
+  login_method: SessionLoginMethod
+  remember_me: boolean
+  ip_address?: string
+  user_agent?: string
+  created_at: Date
+  last_seen_at: Date
+  expires_at: Date
+  revoked: boolean
+  revoked_at?: Date
+  revoked_reason?: string
+  impersonation?: SessionImpersonation
+}
+
+export const SESSIONS_COLLECTION = 'cythro_dash_sessions'
+
+export const SESSIONS_INDEXES = [
+  { key: { token_hash: 1 }, name: 'token_hash_unique', unique: true },
+  { key: { id: 1 }, name: 'id_unique', unique: true },
+  { key: { user_id: 1, revoked: 1, expires_at: -1 }, name: 'user_active' },
+  { key: { expires_at: 1 }, name: 'expires_at' },
+]
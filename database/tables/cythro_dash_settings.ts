@@ -7,7 +7,7 @@ export type SettingDataType = 'string' | 'number' | 'boolean' | 'json'
 export interface CythroDashSetting {
   key: string
   value: string // stored as string; parse based on data_type
-  category: 'general' | 'oauth' | 'features' | 'security' | 'appearance'
+  category: 'general' | 'oauth' | 'features' | 'billing' | 'capacity' | 'security' | 'appearance'
   description?: string
   data_type: SettingDataType
   updated_at: Date
@@ -50,10 +50,39 @@ export const SAFE_SETTINGS: Array<{ key: string; category: CythroDashSetting['ca
   { key: 'NEXT_PUBLIC_SERVER_CREATION_LIMIT', category: 'features', data_type: 'number', description: 'Max servers per user', default: 1 },
   { key: 'NEXT_PUBLIC_DISCORD_GUILD_ID', category: 'features', data_type: 'string', description: 'Discord guild id (public)', default: '' },
 
+  // Billing (server lifecycle policy; plans can override each value)
+  { key: 'NEXT_PUBLIC_SERVER_SUSPEND_GRACE_HOURS', category: 'billing', data_type: 'number', description: 'Hours an expired or unpaid server keeps running before it is suspended', default: 24 },
+  { key: 'NEXT_PUBLIC_SERVER_DELETE_AFTER_HOURS', category: 'billing', data_type: 'number', description: 'Hours a suspended server is kept before it is terminated', default: 72 },
+  { key: 'NEXT_PUBLIC_SERVER_DATA_RETENTION_HOURS', category: 'billing', data_type: 'number', description: 'Hours files of a terminated server are retained before permanent deletion (0 = delete immediately)', default: 0 },
+  { key: 'NEXT_PUBLIC_AUTO_SETTLE_OVERDUE', category: 'billing', data_type: 'boolean', description: 'Automatically pay overdue servers and unsuspend them when the owner\'s balance increases', default: true },
+  { key: 'NEXT_PUBLIC_SERVER_MIGRATION_ENABLED', category: 'billing', data_type: 'boolean', description: 'Let users move their own servers to another location', default: false },
+  { key: 'NEXT_PUBLIC_SERVER_MIGRATION_PRICE', category: 'billing', data_type: 'number', description: 'Coins charged when a user moves a server to another location (0 = free)', default: 0 },
+
   // Security (non-sensitive public knobs only)
   { key: 'NEXT_PUBLIC_RATE_LIMIT', category: 'security', data_type: 'number', description: 'Global rate limit (req/min)', default: 60 },
   { key: 'NEXT_PUBLIC_SESSION_TIMEOUT_MIN', category: 'security', data_type: 'number', description: 'Session timeout (minutes)', default: 60 },
   { key: 'NEXT_PUBLIC_IP_RESTRICTIONS', category: 'security', data_type: 'json', description: 'Allowed IP ranges (array)', default: [] },
+  { key: 'NEXT_PUBLIC_LOCKOUT_MAX_ATTEMPTS', category: 'security', data_type: 'number', description: 'Failed logins before sign-in is locked', default: 5 },
+  { key: 'NEXT_PUBLIC_LOCKOUT_DURATION_MIN', category: 'security', data_type: 'number', description: 'Length of the first lockout (minutes)', default: 15 },
+  { key: 'NEXT_PUBLIC_LOCKOUT_BACKOFF_MULTIPLIER', category: 'security', data_type: 'number', description: 'Each further lockout lasts this many times longer (1 = no backoff)', default: 2 },
+  { key: 'NEXT_PUBLIC_LOCKOUT_MAX_DURATION_MIN', category: 'security', data_type: 'number', description: 'Longest lockout after backoff (minutes)', default: 1440 },
+  { key: 'NEXT_PUBLIC_LOCKOUT_MODE', category: 'security', data_type: 'string', description: 'What gets locked: account (every sign-in to the account) or ip (only the address with the failures)', default: 'account' },
+  { key: 'NEXT_PUBLIC_PASSWORD_MIN_LENGTH', category: 'security', data_type: 'number', description: 'Minimum password length', default: 8 },
+  { key: 'NEXT_PUBLIC_PASSWORD_REQUIRE_UPPERCASE', category: 'security', data_type: 'boolean', description: 'Passwords need an uppercase letter', default: true },
+  { key: 'NEXT_PUBLIC_PASSWORD_REQUIRE_LOWERCASE', category: 'security', data_type: 'boolean', description: 'Passwords need a lowercase letter', default: true },
+  { key: 'NEXT_PUBLIC_PASSWORD_REQUIRE_NUMBERS', category: 'security', data_type: 'boolean', description: 'Passwords need a number', default: true },
+  { key: 'NEXT_PUBLIC_PASSWORD_REQUIRE_SPECIAL', category: 'security', data_type: 'boolean', description: 'Passwords need a special character', default: false },
+  { key: 'NEXT_PUBLIC_PASSWORD_BLOCK_PERSONAL_INFO', category: 'security', data_type: 'boolean', description: 'Reject passwords containing the username or email name', default: true },
+  { key: 'NEXT_PUBLIC_PASSWORD_HISTORY_COUNT', category: 'security', data_type: 'number', description: 'Recent passwords that cannot be reused (0 = no history)', default: 5 },
+  { key: 'NEXT_PUBLIC_PASSWORD_MAX_AGE_DAYS', category: 'security', data_type: 'number', description: 'Days before a password must be changed at login (0 = never)', default: 0 },
+  { key: 'NEXT_PUBLIC_PASSWORD_BREACH_CHECK', category: 'security', data_type: 'boolean', description: 'Reject passwords found in the breached password list', default: true },
+  { key: 'NEXT_PUBLIC_LOGIN_ANOMALY_ACTION', category: 'security', data_type: 'string', description: 'Logins from a new device or country: off, notify (log and email the user) or challenge (also require 2FA or email confirmation)', default: 'notify' },
+
+  // Capacity (forecasting, alerts and what happens to full locations)
+  { key: 'NEXT_PUBLIC_CAPACITY_WARNING_DAYS', category: 'capacity', data_type: 'number', description: 'Raise a warning when a location is forecast to fill within this many days', default: 14 },
+  { key: 'NEXT_PUBLIC_CAPACITY_CRITICAL_DAYS', category: 'capacity', data_type: 'number', description: 'Raise a critical alert when a location is forecast to fill within this many days', default: 3 },
+  { key: 'NEXT_PUBLIC_CAPACITY_WARNING_PERCENT', category: 'capacity', data_type: 'number', description: 'Raise a warning when a location\'s memory or disk allocation reaches this percentage', default: 85 },
+  { key: 'NEXT_PUBLIC_CAPACITY_FULL_ACTION', category: 'capacity', data_type: 'string', description: 'What happens to a full location: none, waitlist (shown but closed to new servers) or hidden (removed from the location list) until capacity frees up', default: 'waitlist' },
 
   // Appearance
   { key: 'NEXT_PUBLIC_THEME', category: 'appearance', data_type: 'string', description: 'Theme name', default: 'default' },
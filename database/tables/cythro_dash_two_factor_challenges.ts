@@ -0,0 +1,29 @@
+/**
+ * CythroDash - Two-Factor Login Challenges Schema
+ *
+ * A challenge is issued once the first login factor (password or OAuth) has
+ * succeeded for an account with 2FA enabled. The client exchanges the challenge
+ * token plus a TOTP or backup code for a real session.
+ */
+
+import { SessionLoginMethod } from './cythro_dash_sessions'
+
+export interface CythroDashTwoFactorChallenge {
+  token_hash: string // sha256(token) hex
+  user_id: number
+  login_method: SessionLoginMethod
+  remember_me: boolean
+  ip_address?: string
+  user_agent?: string
+  attempts: number
+  created_at: Date
+  expires_at: Date
+}
+
+export const TWO_FACTOR_CHALLENGES_COLLECTION = 'cythro_dash_two_factor_challenges'
+
+export const TWO_FACTOR_CHALLENGES_INDEXES = [
+  { key: { token_hash: 1 }, name: 'token_hash_unique', unique: true },
+  // Let MongoDB drop stale challenges on its own
+  { key: { expires_at: 1 }, name: 'expires_at_ttl', expireAfterSeconds: 0 },
+]
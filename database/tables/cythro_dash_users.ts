@@ -8,7 +8,7 @@
 
 import { ObjectId } from 'mongodb';
 
-// User role enumeration
+// User role enumeration. What staff may do is decided by their `role_id` (see cythro_dash_roles).
 export enum UserRole {
   ADMIN = 0,
   USER = 1
@@ -64,14 +64,21 @@ export interface CythroDashUser {
   email_verification_token?: string; // Token for email verification
   password_reset_token?: string; // Token for password reset
   password_reset_expires?: Date; // Password reset token expiration
+  password_changed_at?: Date; // When the current password was set, for the max age rule
+  password_history?: string[]; // Previous password hashes, oldest first
+  password_change_required?: boolean; // Set by an admin; the next password login must choose a new one
   
   // Two-Factor Authentication
   two_factor_enabled: boolean;
   two_factor_secret?: string; // TOTP secret
-  two_factor_backup_codes?: string[]; // Backup codes for 2FA
+  two_factor_backup_codes?: string[]; // Backup codes for 2FA (sha256 hashes, removed once used)
+  two_factor_pending_secret?: string; // Secret generated during enrollment, promoted once a code is confirmed
+  two_factor_enabled_at?: Date;
+  two_factor_last_step?: number; // Last accepted TOTP time step; codes at or before it are replays
   
   // Account status
-  role: UserRole; // 0 = admin, 1 = user
+  role: UserRole; // 0 = staff (has admin panel access), 1 = user
+  role_id?: string; // Admin role granting permissions; staff without one are treated as superadmin
   banned: boolean;
   banned_at?: Date;
   banned_reason?: string;
@@ -85,6 +92,7 @@ export interface CythroDashUser {
   last_login_ip?: string;
   failed_login_attempts: number;
   locked_until?: Date; // Account lockout expiration
+  lockout_count?: number; // Consecutive lockouts since the last successful login, drives backoff
   
   // OAuth integrations
   oauth?: {
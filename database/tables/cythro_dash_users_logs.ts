@@ -19,6 +19,7 @@ export enum SecurityLogAction {
   PASSWORD_RESET_REQUESTED = 'password_reset_requested',
   PASSWORD_RESET_COMPLETED = 'password_reset_completed',
   PASSWORD_RESET_FAILED = 'password_reset_failed',
+  PASSWORD_CHANGE_REQUIRED = 'password_change_required',
   
   // Profile actions
   PROFILE_UPDATED = 'profile_updated',
@@ -47,6 +48,9 @@ export enum SecurityLogAction {
   API_KEY_DELETED = 'api_key_deleted',
   API_RATE_LIMIT_EXCEEDED = 'api_rate_limit_exceeded',
   
+  // Browser security reports
+  CSP_VIOLATION = 'csp_violation',
+  
   // Admin actions
   ADMIN_ACCESS_GRANTED = 'admin_access_granted',
   ADMIN_ACCESS_REVOKED = 'admin_access_revoked',
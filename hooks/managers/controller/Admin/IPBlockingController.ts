@@ -3,6 +3,7 @@
  */
 
 import blockedIPsOperations from '@/hooks/managers/database/blocked-ips'
+import ipBlockRulesOperations, { IPBlockRuleInput } from '@/hooks/managers/database/ip-block-rules'
 import { SecurityLogsController } from '@/hooks/managers/controller/Security/Logs'
 import { SecurityLogAction, SecurityLogSeverity } from '@/database/tables/cythro_dash_users_logs'
 
@@ -11,13 +12,14 @@ export class IPBlockingController {
     const expires_at = data.expires_at ? new Date(data.expires_at) : null
     const safeType = data.block_type === 'automatic' ? 'manual' : (data.block_type || 'manual')
     const result = await blockedIPsOperations.blockIP({ ip_address: data.ip_address, reason: data.reason, blocked_by_admin_id: adminId, expires_at, block_type: safeType as any, metadata: { source: safeType } })
+    if (!result.success) return result
     try {
       await SecurityLogsController.createLog({
         user_id: adminId,
         action: SecurityLogAction.ADMIN_ACTION_PERFORMED,
         severity: SecurityLogSeverity.MEDIUM,
-        description: `Blocked IP ${data.ip_address}: ${data.reason}`,
-        details: { ip: data.ip_address, expires_at }
+        description: `Blocked IP ${result.record?.ip_address || data.ip_address}: ${data.reason}`,
+        details: { ip: result.record?.ip_address || data.ip_address, cidr: result.record?.metadata?.cidr, expires_at }
       })
     } catch {}
     return result
@@ -37,6 +39,49 @@ export class IPBlockingController {
     return result
   }
 
+  static async listRules(_adminId: number) {
+    return ipBlockRulesOperations.listRules()
+  }
+
+  static async createRule(adminId: number, data: IPBlockRuleInput) {
+    try {
+      const rule = await ipBlockRulesOperations.createRule(data, adminId)
+      await this.logRuleChange(adminId, `Created automatic IP block rule "${rule.name}"`, { rule })
+      return { success: true, rule }
+    } catch (e: any) {
+      return { success: false, message: e?.message || 'Failed to create rule' }
+    }
+  }
+
+  static async updateRule(adminId: number, id: number, updates: Partial<IPBlockRuleInput>) {
+    try {
+      const rule = await ipBlockRulesOperations.updateRule(id, updates)
+      if (!rule) return { success: false, message: 'Rule not found', not_found: true }
+      await this.logRuleChange(adminId, `Updated automatic IP block rule "${rule.name}"`, { rule_id: id, updates })
+      return { success: true, rule }
+    } catch (e: any) {
+      return { success: false, message: e?.message || 'Failed to update rule' }
+    }
+  }
+
+  static async deleteRule(adminId: number, id: number) {
+    const deleted = await ipBlockRulesOperations.deleteRule(id)
+    if (deleted) await this.logRuleChange(adminId, `Deleted automatic IP block rule ${id}`, { rule_id: id })
+    return { success: deleted, message: deleted ? 'Rule deleted' : 'Rule not found' }
+  }
+
+  private static async logRuleChange(adminId: number, description: string, details: any) {
+    try {
+      await SecurityLogsController.createLog({
+        user_id: adminId,
+        action: SecurityLogAction.ADMIN_ACTION_PERFORMED,
+        severity: SecurityLogSeverity.MEDIUM,
+        description,
+        details
+      })
+    } catch {}
+  }
+
   static async listBlockedIPs(_adminId: number, query: { page?: number; limit?: number; search?: string }) {
     const page = Math.max(1, Number(query.page) || 1)
     const limit = Math.min(100, Math.max(1, Number(query.limit) || 25))
@@ -0,0 +1,202 @@
+/**
+ * CythroDash - Admin Impersonation Controller
+ *
+ * An admin can open a short-lived session as another user to see the dashboard as they do.
+ * It is an ordinary session of that user carrying an `impersonation` marker: requests that move
+ * coins are refused unless the admin allowed them, the account's credentials and sessions can
+ * never be changed, and every mutating request is logged against the admin.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { sessionOperations } from '@/hooks/managers/database/sessions'
+import { userOperations } from '@/hooks/managers/database/user'
+import { SecurityLogsController } from '@/hooks/managers/controller/Security/Logs'
+import { SecurityLogAction, SecurityLogSeverity } from '@/database/tables/cythro_dash_users_logs'
+import { CythroDashSession } from '@/database/tables/cythro_dash_sessions'
+import { CythroDashUser, UserRole } from '@/database/tables/cythro_dash_users'
+import { SECURITY_CONFIG, getClientIP } from '@/lib/security/config'
+import { resolveRequestSession } from '@/lib/auth/middleware'
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS']
+// Starting and stopping log themselves
+const UNLOGGED_PATHS = ['/api/auth/impersonation']
+
+export interface ImpersonationContext {
+  ip_address?: string
+  user_agent?: string
+}
+
+export interface StartImpersonationOptions {
+  minutes?: number
+  allow_wallet_actions?: boolean
+  reason?: string
+}
+
+export interface ImpersonationStatus {
+  active: boolean
+  admin_id?: number
+  admin_username?: string
+  user_id?: number
+  username?: string
+  expires_at?: Date
+  allow_wallet_actions?: boolean
+}
+
+export class ImpersonationController {
+  /**
+   * Open an impersonation session for `targetUserId` on behalf of the admin behind `adminSession`
+   */
+  static async start(
+    admin: { id: number; username: string },
+    adminSession: CythroDashSession,
+    targetUserId: number,
+    options: StartImpersonationOptions = {},
+    context: ImpersonationContext = {}
+  ): Promise<{ success: boolean; message: string; user?: CythroDashUser; token?: string; session?: CythroDashSession }> {
+    if (adminSession.impersonation) {
+      return { success: false, message: 'Stop the current impersonation first' }
+    }
+    if (targetUserId === admin.id) {
+      return { success: false, message: 'You cannot impersonate yourself' }
+    }
+
+    const user = await userOperations.getUserById(targetUserId)
+    if (!user) return { success: false, message: 'User not found' }
+    if (user.role === UserRole.ADMIN) return { success: false, message: 'Administrators cannot be impersonated' }
+    if (user.banned) return { success: false, message: 'Disabled users cannot be impersonated' }
+
+    const { DEFAULT_MINUTES, MAX_MINUTES } = SECURITY_CONFIG.IMPERSONATION
+    const minutes = Math.min(MAX_MINUTES, Math.max(1, Math.floor(options.minutes || DEFAULT_MINUTES)))
+    const reason = options.reason?.trim().slice(0, 500) || undefined
+
+    const { token, session } = await sessionOperations.createSession({
+      user_id: user.id,
+      login_method: 'impersonation',
+      remember_me: false,
+      ip_address: context.ip_address,
+      user_agent: context.user_agent,
+      expires_in_ms: minutes * 60 * 1000,
+      impersonation: {
+        admin_id: admin.id,
+        admin_username: admin.username,
+        admin_session_id: adminSession.id,
+        allow_wallet_actions: !!options.allow_wallet_actions,
+        reason
+      }
+    })
+
+    await this.log(admin.id, {
+      severity: SecurityLogSeverity.MEDIUM,
+      description: `Started impersonating ${user.username} (#${user.id}) for ${minutes} minutes`,
+      details: {
+        impersonation: 'start',
+        impersonated_user_id: user.id,
+        session_id: session.id,
+        expires_at: session.expires_at,
+        allow_wallet_actions: !!options.allow_wallet_actions,
+        reason
+      }
+    }, context)
+
+    return { success: true, message: `Viewing as ${user.username}`, user, token, session }
+  }
+
+  /**
+   * End an impersonation session. Returns the revoked session, or null when the token does not
+   * belong to one.
+   */
+  static async stop(token: string, context: ImpersonationContext = {}, cause: 'stopped' | 'logout' = 'stopped'): Promise<CythroDashSession | null> {
+    const session = await sessionOperations.revokeSessionByToken(token, 'impersonation_ended', { impersonation_only: true })
+    if (!session?.impersonation) return null
+
+    const expired = new Date(session.expires_at) <= new Date()
+    await this.log(session.impersonation.admin_id, {
+      severity: SecurityLogSeverity.LOW,
+      description: `Stopped impersonating user #${session.user_id}`,
+      details: {
+        impersonation: 'stop',
+        impersonated_user_id: session.user_id,
+        session_id: session.id,
+        cause: expired ? 'expired' : cause,
+        duration_seconds: Math.round((Date.now() - new Date(session.created_at).getTime()) / 1000)
+      }
+    }, context)
+
+    return session
+  }
+
+  /**
+   * Log every mutating request made while impersonating and refuse the ones the session may not
+   * make. Returns a 403 response when refused, or undefined when the request may proceed.
+   */
+  static async guardRequest(request: NextRequest): Promise<NextResponse | undefined> {
+    if (SAFE_METHODS.includes(request.method)) return undefined
+    const path = request.nextUrl.pathname
+    if (UNLOGGED_PATHS.some(p => path.startsWith(p))) return undefined
+
+    const resolved = await resolveRequestSession(request)
+    const impersonation = resolved?.session.impersonation
+    if (!resolved || !impersonation) return undefined
+
+    const { ACCOUNT_ROUTES, WALLET_ROUTES } = SECURITY_CONFIG.IMPERSONATION
+    const blocked = ACCOUNT_ROUTES.some(r => r.test(path))
+      ? 'account'
+      : !impersonation.allow_wallet_actions && WALLET_ROUTES.some(r => r.test(path)) ? 'wallet' : null
+
+    await this.log(impersonation.admin_id, {
+      severity: blocked ? SecurityLogSeverity.MEDIUM : SecurityLogSeverity.LOW,
+      description: `${blocked ? 'Blocked' : 'Performed'} ${request.method} ${path} while impersonating user #${resolved.session.user_id}`,
+      details: {
+        impersonation: 'request',
+        impersonated_user_id: resolved.session.user_id,
+        session_id: resolved.session.id,
+        method: request.method,
+        path,
+        blocked: blocked || undefined
+      }
+    }, { ip_address: getClientIP(request), user_agent: request.headers.get('user-agent') || undefined })
+
+    if (!blocked) return undefined
+    return NextResponse.json({
+      success: false,
+      message: blocked === 'wallet'
+        ? 'Wallet actions are disabled while viewing as this user'
+        : 'Account credentials cannot be changed while viewing as this user',
+      error: 'IMPERSONATION_ACTION_BLOCKED'
+    }, { status: 403 })
+  }
+
+  static async getStatus(session: CythroDashSession): Promise<ImpersonationStatus> {
+    if (!session.impersonation) return { active: false }
+    const user = await userOperations.getUserById(session.user_id)
+    return {
+      active: true,
+      admin_id: session.impersonation.admin_id,
+      admin_username: session.impersonation.admin_username,
+      user_id: session.user_id,
+      username: user?.username,
+      expires_at: session.expires_at,
+      allow_wallet_actions: session.impersonation.allow_wallet_actions
+    }
+  }
+
+  private static async log(
+    adminId: number,
+    entry: { severity: SecurityLogSeverity; description: string; details: Record<string, any> },
+    context: ImpersonationContext
+  ) {
+    try {
+      await SecurityLogsController.createLog({
+        user_id: adminId,
+        action: SecurityLogAction.ADMIN_ACTION_PERFORMED,
+        severity: entry.severity,
+        description: entry.description,
+        details: { admin_id: adminId, ...entry.details },
+        ip_address: context.ip_address,
+        user_agent: context.user_agent
+      })
+    } catch (error) {
+      console.error('Failed to log impersonation event:', error)
+    }
+  }
+}
@@ -8,13 +8,14 @@
 
 import { locationOperations, CreateLocationData, UpdateLocationData } from '@/hooks/managers/database/location';
 import { panelLocationGetAll, panelLocationGetDetails } from '@/hooks/managers/pterodactyl/locations';
-import { panelNodeGetAll, panelNodeGetByLocation, type PterodactylNode } from '@/hooks/managers/pterodactyl/nodes';
+import { panelNodeGetAllPages, panelNodeGetByLocation, type PterodactylNode } from '@/hooks/managers/pterodactyl/nodes';
 import { userOperations } from '@/hooks/managers/database/user';
 import { 
   CythroDashLocation, 
   LocationStatus, 
   LocationVisibility, 
   LocationHelpers,
+  LocationPlacement,
   ResourceCapacity,
   ResourceUsage
 } from '@/database/tables/cythro_dash_locations';
@@ -35,6 +36,7 @@ export interface CreateLocationRequest {
   priority?: number;
   max_servers_per_user?: number;
   allowed_server_types?: string[];
+  placement?: LocationPlacement;
   features?: {
     ddos_protection?: boolean;
     backup_storage?: boolean;
@@ -63,6 +65,7 @@ export interface UpdateLocationRequest {
   priority?: number;
   max_servers_per_user?: number;
   allowed_server_types?: string[];
+  placement?: LocationPlacement;
   features?: {
     ddos_protection?: boolean;
     backup_storage?: boolean;
@@ -198,10 +201,8 @@ export class LocationController {
       let totalCapacity: ResourceCapacity = { memory: 0, disk: 0, cpu: 0 };
       if (associatedNodes.length > 0) {
         try {
-          const allNodes = await panelNodeGetAll();
-          const locationNodes = allNodes.data
-            .filter(nodeResponse => associatedNodes.includes(nodeResponse.attributes!.id))
-            .map(nodeResponse => nodeResponse.attributes!);
+          const allNodes = await panelNodeGetAllPages();
+          const locationNodes = allNodes.filter(node => associatedNodes.includes(node.id));
 
           totalCapacity = locationNodes.reduce((acc, node: PterodactylNode) => ({
             memory: acc.memory + node.memory,
@@ -230,6 +231,7 @@ export class LocationController {
         priority: locationData.priority || 100,
         max_servers_per_user: locationData.max_servers_per_user,
         allowed_server_types: locationData.allowed_server_types,
+        placement: locationData.placement,
         features: {
           ddos_protection: locationData.features?.ddos_protection || false,
           backup_storage: locationData.features?.backup_storage || false,
@@ -453,10 +455,8 @@ export class LocationController {
       let totalCapacity = currentLocation.total_capacity;
       if (updateData.associated_nodes) {
         try {
-          const allNodes = await panelNodeGetAll();
-          const locationNodes = allNodes.data
-            .filter(nodeResponse => updateData.associated_nodes!.includes(nodeResponse.attributes!.id))
-            .map(nodeResponse => nodeResponse.attributes!);
+          const allNodes = await panelNodeGetAllPages();
+          const locationNodes = allNodes.filter(node => updateData.associated_nodes!.includes(node.id));
 
           totalCapacity = locationNodes.reduce((acc, node: PterodactylNode) => ({
             memory: acc.memory + node.memory,
@@ -616,11 +616,10 @@ export class LocationController {
       // Get node information
       const associatedNodes = [];
       try {
-        const allNodes = await panelNodeGetAll();
+        const allNodes = await panelNodeGetAllPages();
         for (const nodeId of location.associated_nodes) {
-          const nodeResponse = allNodes.data.find(n => n.attributes?.id === nodeId);
-          if (nodeResponse?.attributes) {
-            const node = nodeResponse.attributes;
+          const node = allNodes.find(n => n.id === nodeId);
+          if (node) {
             associatedNodes.push({
               id: node.id,
               name: node.name,
@@ -683,8 +682,8 @@ export class LocationController {
 
       // Verify node exists
       try {
-        const allNodes = await panelNodeGetAll();
-        const nodeExists = allNodes.data.some(n => n.attributes?.id === nodeId);
+        const allNodes = await panelNodeGetAllPages();
+        const nodeExists = allNodes.some(n => n.id === nodeId);
         if (!nodeExists) {
           return {
             success: false,
@@ -16,6 +16,7 @@ import {
   ResourceLimits,
   PlanFeatures,
   PlanRestrictions,
+  PlanLifecyclePolicy,
   PlanHelpers
 } from '@/database/tables/cythro_dash_plans';
 import { UserRole } from '@/database/tables/cythro_dash_users';
@@ -51,6 +52,7 @@ export interface CreatePlanRequest {
     valid_until?: Date;
     promo_code?: string;
   };
+  lifecycle?: PlanLifecyclePolicy;
 }
 
 export interface UpdatePlanRequest {
@@ -82,6 +84,7 @@ export interface UpdatePlanRequest {
     valid_until?: Date;
     promo_code?: string;
   };
+  lifecycle?: PlanLifecyclePolicy;
 }
 
 export interface GetPlansRequest {
@@ -214,6 +217,7 @@ export class PlanController {
         restrictions: planData.restrictions || {},
         quotas: planData.quotas,
         promotion: planData.promotion,
+        lifecycle: planData.lifecycle,
         created_by: adminUserId
       };
 
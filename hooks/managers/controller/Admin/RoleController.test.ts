@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('@/hooks/managers/database/roles', () => ({ default: { get: vi.fn() } }))
+vi.mock('@/hooks/managers/database/user', () => ({ userOperations: { getUserById: vi.fn(), setUserRole: vi.fn() } }))
+vi.mock('@/hooks/managers/controller/Security/Logs', () => ({ SecurityLogsController: { createLog: vi.fn() } }))
+
+import rolesOperations from '@/hooks/managers/database/roles'
+import { userOperations } from '@/hooks/managers/database/user'
+import { RoleController } from '@/hooks/managers/controller/Admin/RoleController'
+import { UserRole } from '@/database/tables/cythro_dash_users'
+
+const roles: Record<string, { id: string; name: string; permissions: string[] }> = {
+  support: { id: 'support', name: 'Support', permissions: ['users.read', 'roles.manage'] },
+  billing: { id: 'billing', name: 'Billing', permissions: ['users.read', 'users.coins.adjust'] }
+}
+
+// Holds roles.manage but not users.coins.adjust
+const editor = { id: 1, role_id: 'support', permissions: ['users.read', 'roles.manage'] }
+
+function mockUser(role: UserRole, roleId?: string) {
+  vi.mocked(userOperations.getUserById).mockResolvedValue({ id: 2, username: 'target', role, role_id: roleId } as any)
+}
+
+describe('RoleController.assignRole', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(rolesOperations.get).mockImplementation(async (id: string) => (roles[id] ?? null) as any)
+  })
+
+  it('rejects a new role with permissions the editor does not hold', async () => {
+    mockUser(UserRole.USER)
+
+    const result = await RoleController.assignRole(editor, 2, 'billing')
+
+    expect(result.success).toBe(false)
+    expect(result.message).toContain('users.coins.adjust')
+    expect(userOperations.setUserRole).not.toHaveBeenCalled()
+  })
+
+  it('rejects replacing a current role with permissions the editor does not hold', async () => {
+    mockUser(UserRole.ADMIN, 'billing')
+
+    const result = await RoleController.assignRole(editor, 2, 'support')
+
+    expect(result.success).toBe(false)
+    expect(result.message).toContain('users.coins.adjust')
+    expect(userOperations.setUserRole).not.toHaveBeenCalled()
+  })
+
+  it('rejects removing a current role with permissions the editor does not hold', async () => {
+    mockUser(UserRole.ADMIN, 'billing')
+
+    const result = await RoleController.assignRole(editor, 2, null)
+
+    expect(result.success).toBe(false)
+    expect(userOperations.setUserRole).not.toHaveBeenCalled()
+  })
+
+  it('assigns a role within the editor\'s permissions', async () => {
+    mockUser(UserRole.USER)
+
+    const result = await RoleController.assignRole(editor, 2, 'support')
+
+    expect(result.success).toBe(true)
+    expect(userOperations.setUserRole).toHaveBeenCalledWith(2, 'support')
+  })
+})
@@ -0,0 +1,159 @@
+/**
+ * CythroDash - Admin Role Controller
+ */
+
+import rolesOperations from '@/hooks/managers/database/roles'
+import { userOperations } from '@/hooks/managers/database/user'
+import { SecurityLogsController } from '@/hooks/managers/controller/Security/Logs'
+import { SecurityLogAction, SecurityLogSeverity } from '@/database/tables/cythro_dash_users_logs'
+import { CythroDashUser, UserRole } from '@/database/tables/cythro_dash_users'
+import { CythroDashRole, SUPERADMIN_ROLE_ID } from '@/database/tables/cythro_dash_roles'
+import { WILDCARD_PERMISSION, hasPermission, isPermission } from '@/lib/auth/permissions'
+
+const ROLE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{1,31}$/
+
+export interface RoleInput {
+  name: string
+  description?: string
+  permissions: string[]
+}
+
+export type RoleWithUsage = CythroDashRole & { user_count: number }
+
+type RoleEditor = { id: number; role_id?: string; permissions: string[] }
+
+export class RoleController {
+  /**
+   * Permissions the user holds in the admin panel. Staff without a role predate custom roles
+   * and keep full access.
+   */
+  static async getUserPermissions(user: Pick<CythroDashUser, 'role' | 'role_id'>): Promise<string[]> {
+    if (user.role !== UserRole.ADMIN) return []
+    if (!user.role_id) return [WILDCARD_PERMISSION]
+    const role = await rolesOperations.get(user.role_id)
+    return role ? role.permissions : []
+  }
+
+  static async listRoles(): Promise<RoleWithUsage[]> {
+    const roles = await rolesOperations.list()
+    const counts = await Promise.all(roles.map(r => userOperations.countUsersWithRole(r.id)))
+    return roles.map((r, i) => ({ ...r, user_count: counts[i] }))
+  }
+
+  /** Roles can only grant what the editor holds, so roles.manage cannot be used to escalate */
+  static async createRole(admin: RoleEditor, id: string, data: RoleInput) {
+    if (!ROLE_ID_PATTERN.test(id)) {
+      return { success: false, message: 'Role id must be 2-32 lowercase letters, digits, dashes or underscores' }
+    }
+    const invalid = this.invalidPermissions(data.permissions)
+    if (invalid.length) return { success: false, message: `Unknown permissions: ${invalid.join(', ')}` }
+    const notHeld = this.permissionsNotHeld(admin, data.permissions)
+    if (notHeld.length) return { success: false, message: `You cannot grant permissions you do not hold: ${notHeld.join(', ')}` }
+    if (await rolesOperations.get(id)) return { success: false, message: 'A role with this id already exists' }
+
+    const role = await rolesOperations.create({ id, name: data.name.trim(), description: data.description?.trim() || undefined, permissions: [...new Set(data.permissions)] })
+    await this.log(admin.id, SecurityLogSeverity.MEDIUM, `Created role "${role.name}"`, { role_id: role.id, permissions: role.permissions })
+    return { success: true, role }
+  }
+
+  /** Like assignRole, admins cannot edit the role they hold themselves */
+  static async updateRole(admin: RoleEditor, id: string, data: Partial<RoleInput>) {
+    const existing = await rolesOperations.get(id)
+    if (!existing) return { success: false, message: 'Role not found', not_found: true }
+    if (id === SUPERADMIN_ROLE_ID) return { success: false, message: 'The superadmin role cannot be changed' }
+    if (admin.role_id === id) return { success: false, message: 'You cannot change your own role' }
+    if (data.permissions) {
+      const invalid = this.invalidPermissions(data.permissions)
+      if (invalid.length) return { success: false, message: `Unknown permissions: ${invalid.join(', ')}` }
+      // Permissions already on the role may stay; only new grants must be held by the editor
+      const notHeld = this.permissionsNotHeld(admin, data.permissions.filter(p => !existing.permissions.includes(p)))
+      if (notHeld.length) return { success: false, message: `You cannot grant permissions you do not hold: ${notHeld.join(', ')}` }
+    }
+
+    const role = await rolesOperations.update(id, {
+      name: data.name?.trim(),
+      description: data.description === undefined ? undefined : data.description.trim(),
+      permissions: data.permissions ? [...new Set(data.permissions)] : undefined
+    })
+    if (!role) return { success: false, message: 'Role not found', not_found: true }
+    await this.log(admin.id, SecurityLogSeverity.MEDIUM, `Updated role "${role.name}"`, {
+      role_id: id,
+      permissions_before: existing.permissions,
+      permissions_after: role.permissions
+    })
+    return { success: true, role }
+  }
+
+  static async deleteRole(adminId: number, id: string) {
+    if (id === SUPERADMIN_ROLE_ID) return { success: false, message: 'The superadmin role cannot be deleted' }
+    const existing = await rolesOperations.get(id)
+    if (!existing) return { success: false, message: 'Role not found', not_found: true }
+    const users = await userOperations.countUsersWithRole(id)
+    if (users > 0) return { success: false, message: `Reassign the ${users} user(s) with this role first` }
+
+    await rolesOperations.delete(id)
+    await this.log(adminId, SecurityLogSeverity.MEDIUM, `Deleted role "${existing.name}"`, { role_id: id })
+    return { success: true, message: 'Role deleted' }
+  }
+
+  /**
+   * Give a user an admin role, or take it away with `null`. Admins cannot change their own role,
+   * so the last superadmin cannot lock everyone out, and only superadmins hand out superadmin.
+   * Both the new and the current role must be within the editor's own permissions.
+   */
+  static async assignRole(admin: RoleEditor, userId: number, roleId: string | null) {
+    if (userId === admin.id) return { success: false, message: 'You cannot change your own role' }
+    const user = await userOperations.getUserById(userId)
+    if (!user) return { success: false, message: 'User not found', not_found: true }
+
+    const role = roleId ? await rolesOperations.get(roleId) : null
+    if (roleId && !role) return { success: false, message: 'Role not found' }
+
+    const isSuperadmin = admin.permissions.includes(WILDCARD_PERMISSION)
+    const currentRoleId = user.role === UserRole.ADMIN ? (user.role_id || SUPERADMIN_ROLE_ID) : null
+    if (!isSuperadmin && (roleId === SUPERADMIN_ROLE_ID || currentRoleId === SUPERADMIN_ROLE_ID)) {
+      return { success: false, message: 'Only superadmins can grant or remove the superadmin role' }
+    }
+    if (currentRoleId === roleId) return { success: true, message: 'Role unchanged', role_id: roleId }
+
+    if (role) {
+      const notHeld = this.permissionsNotHeld(admin, role.permissions)
+      if (notHeld.length) return { success: false, message: `You cannot assign a role with permissions you do not hold: ${notHeld.join(', ')}` }
+    }
+    if (currentRoleId) {
+      const currentRole = await rolesOperations.get(currentRoleId)
+      const notHeld = this.permissionsNotHeld(admin, currentRole?.permissions ?? [])
+      if (notHeld.length) return { success: false, message: `You cannot change the role of an admin with permissions you do not hold: ${notHeld.join(', ')}` }
+    }
+
+    await userOperations.setUserRole(userId, roleId)
+    await this.log(admin.id, SecurityLogSeverity.HIGH, roleId
+      ? `Assigned role "${role!.name}" to ${user.username} (#${user.id})`
+      : `Removed admin role from ${user.username} (#${user.id})`, {
+      target_user_id: user.id,
+      role_before: currentRoleId,
+      role_after: roleId
+    })
+    return { success: true, message: roleId ? `Role set to ${role!.name}` : 'Admin role removed', role_id: roleId }
+  }
+
+  private static invalidPermissions(permissions: string[]): string[] {
+    return permissions.filter(p => !isPermission(p))
+  }
+
+  private static permissionsNotHeld(admin: RoleEditor, permissions: string[]): string[] {
+    return permissions.filter(p => isPermission(p) && !hasPermission(admin.permissions, p))
+  }
+
+  private static async log(adminId: number, severity: SecurityLogSeverity, description: string, details: any) {
+    try {
+      await SecurityLogsController.createLog({
+        user_id: adminId,
+        action: SecurityLogAction.ADMIN_ACTION_PERFORMED,
+        severity,
+        description,
+        details
+      })
+    } catch {}
+  }
+}
@@ -29,7 +29,7 @@ export class AdminSettingsController {
       return { ...s, value: typedVal }
     })
   }
-  static async listByCategory(category: 'general'|'oauth'|'features'|'security'|'appearance') {
+  static async listByCategory(category: 'general'|'oauth'|'features'|'billing'|'capacity'|'security'|'appearance') {
     const raw = await settingsOperations.getByCategory(category)
     return raw.map(s => {
       const def = SAFE_SETTINGS.find(d => d.key === s.key)
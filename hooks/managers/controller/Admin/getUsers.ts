@@ -13,6 +13,7 @@ import {
   UserTheme, 
   UserLanguage 
 } from '../../../../database/tables/cythro_dash_users';
+import { SUPERADMIN_ROLE_ID } from '../../../../database/tables/cythro_dash_roles';
 import { SecurityLogsController } from '../Security/Logs';
 import { SecurityLogAction, SecurityLogSeverity } from '../../../../database/tables/cythro_dash_users_logs';
 
@@ -54,6 +55,7 @@ export interface AdminUserSummary {
   last_name: string;
   display_name?: string;
   role: UserRole;
+  role_id?: string; // Admin role, set for staff
   verified: boolean;
   banned: boolean;
   deleted: boolean;
@@ -222,6 +224,7 @@ export class AdminGetUsersController {
           last_name: user.last_name,
           display_name: user.display_name,
           role: user.role,
+          role_id: user.role === UserRole.ADMIN ? (user.role_id || SUPERADMIN_ROLE_ID) : undefined,
           verified: user.verified,
           banned: user.banned,
           deleted: user.deleted,
@@ -398,6 +401,7 @@ export class AdminGetUsersController {
         last_name: user.last_name,
         display_name: user.display_name,
         role: user.role,
+        role_id: user.role === UserRole.ADMIN ? (user.role_id || SUPERADMIN_ROLE_ID) : undefined,
         verified: user.verified,
         banned: user.banned,
         deleted: user.deleted,
@@ -12,10 +12,20 @@ import {
   panelUserUpdate,
   PterodactylError
 } from '../../pterodactyl/users';
+import { sessionOperations } from '../../database/sessions';
+import { SecurityLogsController } from '../Security/Logs';
+import { PasswordPolicyController } from '../Security/PasswordPolicy';
+import { SecurityLogAction } from '../../../../database/tables/cythro_dash_users_logs';
+import { mailService } from '@/lib/mail';
+
+// Must match the expiry set by userOperations.setPasswordResetToken
+const RESET_TOKEN_TTL_MINUTES = 60;
 
 // Password reset interfaces
 export interface ForgotPasswordRequest {
   email: string;
+  ip_address?: string;
+  user_agent?: string;
 }
 
 export interface ForgotPasswordResponse {
@@ -31,6 +41,8 @@ export interface ResetPasswordRequest {
   token: string;
   password: string;
   confirm_password: string;
+  ip_address?: string;
+  user_agent?: string;
 }
 
 export interface ResetPasswordResponse {
@@ -86,8 +98,20 @@ export class ForgetPasswordController {
         // Generate password reset token
         const resetToken = await userOperations.setPasswordResetToken(user.id);
 
-        // TODO: Send password reset email with token
-        console.log(`Password reset token for ${user.email}: ${resetToken}`);
+        const appUrl = await mailService.getAppUrl();
+        await mailService.sendTemplate(user.email, 'password_reset', {
+          name: user.display_name || user.first_name || user.username,
+          reset_url: `${appUrl}/reset-password?token=${encodeURIComponent(resetToken)}`,
+          expires_minutes: RESET_TOKEN_TTL_MINUTES
+        });
+
+        await SecurityLogsController.logAuthEvent(
+          user.id,
+          SecurityLogAction.PASSWORD_RESET_REQUESTED,
+          true,
+          request.ip_address,
+          request.user_agent
+        );
       }
 
       return {
@@ -148,6 +172,16 @@ export class ForgetPasswordController {
         };
       }
 
+      // Apply the password policy, including the user's password history
+      const passwordErrors = await PasswordPolicyController.validateNewPassword(request.password, { user });
+      if (passwordErrors.length > 0) {
+        return {
+          success: false,
+          message: 'Validation failed',
+          errors: passwordErrors
+        };
+      }
+
       // Update password in our database
       const passwordUpdated = await userOperations.updatePassword(user.id, request.password);
       if (!passwordUpdated) {
@@ -172,6 +206,17 @@ export class ForgetPasswordController {
       // Reset failed login attempts
       await userOperations.updateFailedLoginAttempts(user.id, false);
 
+      // Whoever held the old password should not keep a live session
+      await sessionOperations.revokeAllUserSessions(user.id, { reason: 'password_reset' });
+
+      await SecurityLogsController.logAuthEvent(
+        user.id,
+        SecurityLogAction.PASSWORD_RESET_COMPLETED,
+        true,
+        request.ip_address,
+        request.user_agent
+      );
+
       return {
         success: true,
         message: 'Password has been reset successfully. You can now log in with your new password.'
@@ -199,10 +244,9 @@ export class ForgetPasswordController {
       errors.push({ field: 'token', message: 'Reset token is required' });
     }
 
-    // Validate password
-    const passwordError = UserValidation.validatePassword(request.password);
-    if (passwordError) {
-      errors.push(passwordError);
+    // Validate password (the policy is applied once the token resolves to a user)
+    if (!request.password) {
+      errors.push({ field: 'password', message: 'Password is required' });
     }
 
     // Check password confirmation
@@ -261,16 +305,6 @@ export class ForgetPasswordController {
     confirmPassword: string
   ): Promise<{ success: boolean; message: string; errors?: Array<{ field: string; message: string }> }> {
     try {
-      // Validate new password
-      const passwordError = UserValidation.validatePassword(newPassword);
-      if (passwordError) {
-        return {
-          success: false,
-          message: 'Invalid new password',
-          errors: [passwordError]
-        };
-      }
-
       // Check password confirmation
       if (newPassword !== confirmPassword) {
         return {
@@ -290,6 +324,19 @@ export class ForgetPasswordController {
         };
       }
 
+      // Validate new password
+      const user = await userOperations.getUserById(userId);
+      const passwordErrors = user
+        ? await PasswordPolicyController.validateNewPassword(newPassword, { user, field: 'new_password' })
+        : [{ field: 'general', message: 'User not found' }];
+      if (passwordErrors.length > 0) {
+        return {
+          success: false,
+          message: 'Invalid new password',
+          errors: passwordErrors
+        };
+      }
+
       // Update password
       const passwordUpdated = await userOperations.updatePassword(userId, newPassword);
       if (!passwordUpdated) {
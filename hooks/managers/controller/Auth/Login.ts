@@ -11,9 +11,16 @@ import {
   panelUserGetDetails,
   PterodactylError
 } from '../../pterodactyl/users';
-import { CythroDashUser, UserHelpers } from '../../../../database/tables/cythro_dash_users';
+import { CythroDashUser } from '../../../../database/tables/cythro_dash_users';
 import { SecurityLogsController } from '../Security/Logs';
 import { SecurityLogAction } from '../../../../database/tables/cythro_dash_users_logs';
+import { sessionOperations } from '../../database/sessions';
+import { SessionLoginMethod } from '../../../../database/tables/cythro_dash_sessions';
+import { twoFactorChallengeOperations } from '../../database/two-factor-challenges';
+import { RegisterController } from './Register';
+import { LoginAnomalyController } from '../Security/LoginAnomaly';
+import { LockoutController } from '../Security/Lockout';
+import { PasswordPolicyController, PasswordChangeReason } from '../Security/PasswordPolicy';
 
 // Login interfaces
 export interface LoginRequest {
@@ -42,13 +49,20 @@ export interface LoginResponse {
   };
   session?: {
     token: string;
+    csrf_token: string;
     expires_at: Date;
+    remember_me?: boolean;
   };
   errors?: Array<{
     field: string;
     message: string;
   }>;
   requires_2fa?: boolean;
+  two_factor_token?: string; // Exchanged with a TOTP/backup code at /api/auth/login/2fa
+  requires_device_confirmation?: boolean; // New device or country; confirmed from an emailed link
+  requires_password_change?: boolean; // Expired or admin-forced password; set a new one with password_reset_token
+  password_change_reason?: PasswordChangeReason;
+  password_reset_token?: string;
   account_locked?: boolean;
   lock_expires?: Date;
 }
@@ -102,14 +116,16 @@ export class LoginController {
         };
       }
 
-      // Check if account is locked
-      const isLocked = await userOperations.isUserLocked(user.id);
-      if (isLocked) {
+      // Check if sign-in is locked for this account (or, in ip mode, for this address)
+      const lock = await LockoutController.getActiveLock(user, request.ip_address);
+      if (lock.locked) {
         return {
           success: false,
-          message: 'Account is temporarily locked due to too many failed login attempts',
+          message: lock.scope === 'ip'
+            ? 'Too many failed login attempts from your network. Please try again later.'
+            : 'Account is temporarily locked due to too many failed login attempts',
           account_locked: true,
-          lock_expires: user.locked_until
+          lock_expires: lock.locked_until
         };
       }
 
@@ -134,7 +150,7 @@ export class LoginController {
       // Verify password
       const passwordValid = await userOperations.verifyPassword(user.id, request.password);
       if (!passwordValid) {
-        await this.handleFailedLogin(request.identifier, request.ip_address, user.id);
+        await this.handleFailedLogin(request.identifier, request.ip_address, user, request.user_agent);
 
         return {
           success: false,
@@ -144,7 +160,7 @@ export class LoginController {
       }
 
       // Check email verification if required
-      if (!user.verified && UserHelpers.isVerificationRequired()) {
+      if (!user.verified && await RegisterController.isVerificationRequired()) {
         return {
           success: false,
           message: 'Please verify your email address before logging in',
@@ -152,17 +168,6 @@ export class LoginController {
         };
       }
 
-      // Check 2FA if enabled
-      if (user.two_factor_enabled) {
-        // For now, return that 2FA is required
-        // In a full implementation, you'd handle the 2FA token here
-        return {
-          success: false,
-          message: 'Two-factor authentication required',
-          requires_2fa: true
-        };
-      }
-
       // Sync with Pterodactyl panel to ensure user still exists
       try {
         await panelUserGetDetails(user.id);
@@ -180,50 +185,40 @@ export class LoginController {
         console.error('Panel sync error during login:', error);
       }
 
-      // Reset failed login attempts
-      await userOperations.updateFailedLoginAttempts(user.id, false);
-
-      // Update last activity and login info
-      await userOperations.updateLastActivity(user.id, request.ip_address);
-
-      // Log successful login
-      await SecurityLogsController.logAuthEvent(
-        user.id,
-        SecurityLogAction.LOGIN_SUCCESS,
-        true,
-        request.ip_address,
-        request.user_agent,
-        {
+      // Second factor: hand out a short-lived challenge instead of a session
+      if (user.two_factor_enabled) {
+        return await this.issueTwoFactorChallenge(user.id, {
+          login_method: 'password',
           remember_me: request.remember_me,
-          login_method: isEmail ? 'email' : 'username'
-        }
-      );
-
-      // Generate session token (simplified - in production use proper JWT or session management)
-      const sessionToken = this.generateSessionToken();
-      const expiresAt = new Date(Date.now() + (request.remember_me ? 30 * 24 * 60 * 60 * 1000 : 24 * 60 * 60 * 1000)); // 30 days or 1 day
+          ip_address: request.ip_address,
+          user_agent: request.user_agent
+        });
+      }
 
-      return {
-        success: true,
-        message: 'Login successful',
-        user: {
-          id: user.id,
-          username: user.username,
-          email: user.email,
-          first_name: user.first_name,
-          last_name: user.last_name,
-          role: user.role,
-          verified: user.verified,
-          coins: user.coins,
-          theme: user.theme,
-          language: user.language,
-          avatar_url: user.avatar_url
-        },
-        session: {
-          token: sessionToken,
-          expires_at: expiresAt
+      // Expired or admin-forced password: no session until a new one is chosen
+      const passwordChange = await this.requirePasswordChange(user);
+      if (passwordChange) return passwordChange;
+
+      // Unrecognised device or country: accounts without 2FA confirm by email when the admin asks for it
+      if (await LoginAnomalyController.getAction() === 'challenge') {
+        const assessment = await LoginAnomalyController.assess(user, request.ip_address, request.user_agent);
+        if (assessment.anomalous) {
+          return await LoginAnomalyController.requireConfirmation(user, assessment, {
+            login_method: 'password',
+            ip_address: request.ip_address,
+            user_agent: request.user_agent
+          });
         }
-      };
+      }
+
+      return await this.completeLogin(user, {
+        login_method: 'password',
+        remember_me: request.remember_me,
+        ip_address: request.ip_address,
+        user_agent: request.user_agent
+      }, {
+        login_method: isEmail ? 'email' : 'username'
+      });
 
     } catch (error) {
       console.error('Login error:', error);
@@ -236,6 +231,110 @@ export class LoginController {
     }
   }
 
+  /**
+   * Issue a 2FA challenge once the first factor has been verified
+   */
+  static async issueTwoFactorChallenge(
+    userId: number,
+    options: { login_method: SessionLoginMethod; remember_me?: boolean; ip_address?: string; user_agent?: string }
+  ): Promise<LoginResponse> {
+    const challenge = await twoFactorChallengeOperations.createChallenge({
+      user_id: userId,
+      login_method: options.login_method,
+      remember_me: options.remember_me,
+      ip_address: options.ip_address,
+      user_agent: options.user_agent
+    });
+
+    return {
+      success: false,
+      message: 'Two-factor authentication required',
+      requires_2fa: true,
+      two_factor_token: challenge.token
+    };
+  }
+
+  /**
+   * Stop a password login whose password has expired or was reset by an admin. The response
+   * carries a password reset token, so the new password goes through the normal reset flow.
+   */
+  static async requirePasswordChange(user: CythroDashUser): Promise<LoginResponse | null> {
+    const reason = await PasswordPolicyController.getChangeReason(user);
+    if (!reason) return null;
+
+    const token = await userOperations.setPasswordResetToken(user.id);
+    return {
+      success: false,
+      message: reason === 'expired'
+        ? 'Your password has expired. Please choose a new one to continue.'
+        : 'You must choose a new password before signing in.',
+      requires_password_change: true,
+      password_change_reason: reason,
+      password_reset_token: token
+    };
+  }
+
+  /**
+   * Finish a login once every required factor has been verified:
+   * resets failed attempts, records activity, logs the login and issues a session.
+   */
+  static async completeLogin(
+    user: CythroDashUser,
+    options: { login_method: SessionLoginMethod; remember_me?: boolean; ip_address?: string; user_agent?: string },
+    logDetails: Record<string, any> = {}
+  ): Promise<LoginResponse> {
+    // Reset failed login attempts and lockout backoff
+    await LockoutController.recordSuccess(user, options.ip_address);
+
+    // Flag new devices and countries against the previous login before it is overwritten
+    const anomaly = await LoginAnomalyController.recordLogin(user, options);
+
+    // Update last activity and login info
+    await userOperations.updateLastActivity(user.id, options.ip_address);
+
+    // Log successful login
+    await SecurityLogsController.logAuthEvent(
+      user.id,
+      SecurityLogAction.LOGIN_SUCCESS,
+      true,
+      options.ip_address,
+      options.user_agent,
+      {
+        remember_me: options.remember_me,
+        new_device: anomaly?.new_device,
+        new_country: anomaly?.new_country,
+        ...logDetails
+      }
+    );
+
+    // Issue a server-side session
+    const session = await this.createSession(user.id, options);
+
+    return {
+      success: true,
+      message: 'Login successful',
+      user: {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        first_name: user.first_name,
+        last_name: user.last_name,
+        role: user.role,
+        verified: user.verified,
+        coins: user.coins,
+        theme: user.theme,
+        language: user.language,
+        avatar_url: user.avatar_url
+      },
+      session: {
+        token: session.token,
+        csrf_token: session.csrf_token,
+        expires_at: session.expires_at,
+        remember_me: !!options.remember_me
+      }
+    };
+  }
+
   /**
    * Validate login data
    */
@@ -259,44 +358,24 @@ export class LoginController {
   /**
    * Handle failed login attempts
    */
-  private static async handleFailedLogin(identifier: string, ipAddress?: string, userId?: number): Promise<void> {
+  private static async handleFailedLogin(identifier: string, ipAddress?: string, user?: CythroDashUser, userAgent?: string): Promise<void> {
     try {
-      if (userId) {
-        // Increment failed attempts for known user
-        await userOperations.updateFailedLoginAttempts(userId, true);
-
+      if (user) {
         // Log failed login attempt
         await SecurityLogsController.logAuthEvent(
-          userId,
+          user.id,
           SecurityLogAction.LOGIN_FAILED,
           false,
           ipAddress,
-          undefined,
+          userAgent,
           {
             identifier: identifier,
             reason: 'invalid_credentials'
           }
         );
 
-        // Check if we should lock the account
-        const user = await userOperations.getUserById(userId);
-        if (user && user.failed_login_attempts >= 5) {
-          await userOperations.lockUserAccount(userId, 30); // Lock for 30 minutes
-
-          // Log account lock event
-          await SecurityLogsController.createLog({
-            user_id: userId,
-            action: SecurityLogAction.ACCOUNT_LOCKED,
-            description: 'Account locked due to multiple failed login attempts',
-            details: {
-              failed_attempts: user.failed_login_attempts,
-              lock_duration_minutes: 30
-            },
-            ip_address: ipAddress,
-            is_suspicious: true,
-            requires_attention: true
-          });
-        }
+        // Count it against the lockout policy, which locks and logs once the threshold is hit
+        await LockoutController.recordFailure(user, { ip_address: ipAddress, user_agent: userAgent });
       } else {
         // Log failed attempt for unknown user (security monitoring)
         console.warn(`Failed login attempt for unknown user ${identifier} from IP: ${ipAddress || 'unknown'}`);
@@ -307,30 +386,45 @@ export class LoginController {
   }
 
   /**
-   * Generate session token (simplified implementation)
+   * Create a persisted session for a user and return the raw token.
+   * Used by password login and the OAuth login callbacks.
    */
-  private static generateSessionToken(): string {
-    return require('crypto').randomBytes(32).toString('hex');
+  static async createSession(
+    userId: number,
+    options: { login_method: SessionLoginMethod; remember_me?: boolean; ip_address?: string; user_agent?: string }
+  ): Promise<{ token: string; csrf_token: string; session_id: string; expires_at: Date }> {
+    const { token, session } = await sessionOperations.createSession({
+      user_id: userId,
+      login_method: options.login_method,
+      remember_me: options.remember_me,
+      ip_address: options.ip_address,
+      user_agent: options.user_agent
+    });
+
+    return {
+      token,
+      csrf_token: session.csrf_token!,
+      session_id: session.id,
+      expires_at: session.expires_at
+    };
   }
 
   /**
    * Logout user (invalidate session)
    */
-  static async logoutUser(sessionToken: string, userId?: number, ipAddress?: string, userAgent?: string): Promise<{ success: boolean; message: string }> {
+  static async logoutUser(sessionToken: string, ipAddress?: string, userAgent?: string): Promise<{ success: boolean; message: string }> {
     try {
-      // In a full implementation, you would invalidate the session token
-      // For now, we'll just return success
+      const session = sessionToken ? await sessionOperations.revokeSessionByToken(sessionToken, 'logout') : null;
 
-      // Log logout event if user ID is provided
-      if (userId) {
+      if (session) {
         await SecurityLogsController.logAuthEvent(
-          userId,
+          session.user_id,
           SecurityLogAction.LOGOUT,
           true,
           ipAddress,
           userAgent,
           {
-            session_token: sessionToken.substring(0, 8) + '...' // Log partial token for tracking
+            session_id: session.id
           }
         );
       }
@@ -348,22 +442,31 @@ export class LoginController {
     }
   }
 
-
-
   /**
    * Refresh session token
+   * Rotates the token: the old session is revoked and a new one is issued with the same settings.
    */
   static async refreshSession(sessionToken: string): Promise<{ success: boolean; newToken?: string; expiresAt?: Date }> {
     try {
-      // In a full implementation, you would validate the old token
-      // and generate a new one
-      const newToken = this.generateSessionToken();
-      const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000); // 1 day
+      const current = await sessionOperations.getActiveSessionByToken(sessionToken);
+      // Impersonation sessions are time-boxed and never turn into ordinary sessions
+      if (!current || current.impersonation) {
+        return { success: false };
+      }
+
+      const { token, session } = await sessionOperations.createSession({
+        user_id: current.user_id,
+        login_method: 'refresh',
+        remember_me: current.remember_me,
+        ip_address: current.ip_address,
+        user_agent: current.user_agent
+      });
+      await sessionOperations.revokeSession(current.id, 'rotated');
 
       return {
         success: true,
-        newToken,
-        expiresAt
+        newToken: token,
+        expiresAt: session.expires_at
       };
     } catch (error) {
       console.error('Session refresh error:', error);
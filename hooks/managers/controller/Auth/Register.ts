@@ -7,7 +7,9 @@
  */
 
 import { userOperations, CreateUserData } from '../../database/user';
+import { walletOperations } from '../../database/wallet';
 import { UserValidation, ValidationResult } from '../../database/user-validation';
+import { PasswordPolicyController } from '../Security/PasswordPolicy';
 import {
   panelUserCreate,
   panelUserExistsByEmail,
@@ -19,8 +21,11 @@ import {
   UserRole,
   UserTheme,
   UserLanguage,
-  UserHelpers
+  UserHelpers,
+  CythroDashUser
 } from '../../../../database/tables/cythro_dash_users';
+import { getPublicFlag } from '@/lib/public-settings';
+import { mailService } from '@/lib/mail';
 
 // Registration interfaces
 export interface RegisterRequest {
@@ -67,8 +72,8 @@ export class RegisterController {
       }
 
       // Log verification setting for debugging
-      const verificationRequired = UserHelpers.isVerificationRequired();
-      console.log(`Registration attempt for ${request.email}. Verification required: ${verificationRequired} (ACCOUNT_VERIFICATION=${process.env.ACCOUNT_VERIFICATION})`);
+      const verificationRequired = await this.isVerificationRequired();
+      console.log(`Registration attempt for ${request.email}. Verification required: ${verificationRequired}`);
 
       // Validate input data
       const validation = await this.validateRegistrationData(request);
@@ -167,7 +172,8 @@ export class RegisterController {
         role: UserRole.USER,
         theme: UserTheme.DARK,
         language: UserLanguage.EN,
-        referred_by: referredBy
+        referred_by: referredBy,
+        verified: !verificationRequired
       };
 
       const dashUser = await userOperations.createUser(dashUserData);
@@ -178,8 +184,7 @@ export class RegisterController {
       if (verificationRequired && !dashUser.verified) {
         // Only set verification token if verification is required and user is not already verified
         verificationToken = await userOperations.setEmailVerificationToken(dashUser.id);
-        // TODO: Send verification email with token
-        console.log(`Verification required for ${dashUser.email}. Token: ${verificationToken}`);
+        await this.sendVerificationEmail(dashUser, verificationToken);
       }
 
       // Award referral bonus if applicable
@@ -188,7 +193,13 @@ export class RegisterController {
       }
 
       // Award welcome bonus
-      await userOperations.updateCoins(dashUser.id, 100, 'Welcome bonus');
+      await walletOperations.credit({
+        user_id: dashUser.id,
+        amount: 100,
+        source_category: 'promotion',
+        message: 'Welcome bonus',
+        idempotency_key: `welcome_bonus:${dashUser.id}`
+      });
 
       // Prepare response message based on verification status
       let responseMessage: string;
@@ -256,8 +267,10 @@ export class RegisterController {
     const usernameError = UserValidation.validateUsername(request.username);
     if (usernameError) errors.push(usernameError);
 
-    const passwordError = UserValidation.validatePassword(request.password);
-    if (passwordError) errors.push(passwordError);
+    errors.push(...await PasswordPolicyController.validateNewPassword(request.password, {
+      username: request.username,
+      email: request.email
+    }));
 
     const firstNameError = UserValidation.validateName(request.first_name, 'first_name');
     if (firstNameError) errors.push(firstNameError);
@@ -305,7 +318,14 @@ export class RegisterController {
 
           // Award coins to referrer if signup was verified
           if (result.data && result.data.verified) {
-            await userOperations.updateCoins(referrer.id, result.data.reward_earned, 'Referral signup bonus');
+            await walletOperations.credit({
+              user_id: referrer.id,
+              amount: result.data.reward_earned,
+              source_category: 'referral',
+              reference_id: newUserId,
+              message: 'Referral signup bonus',
+              idempotency_key: `referral_signup:${newUserId}`
+            });
 
             // Update referrer's referral earnings
             await userOperations.updateUser(referrer.id, {
@@ -315,7 +335,14 @@ export class RegisterController {
         } else {
           console.warn(`Referral signup processing failed: ${result.message}`);
           // Fallback to old system
-          await userOperations.updateCoins(referrer.id, 50, 'Referral bonus (fallback)');
+          await walletOperations.credit({
+            user_id: referrer.id,
+            amount: 50,
+            source_category: 'referral',
+            reference_id: newUserId,
+            message: 'Referral bonus (fallback)',
+            idempotency_key: `referral_signup:${newUserId}`
+          });
         }
       }
     } catch (error) {
@@ -324,6 +351,26 @@ export class RegisterController {
     }
   }
 
+  /**
+   * Whether new accounts must verify their email before logging in.
+   * Controlled by the NEXT_PUBLIC_ACCOUNT_VERIFICATION setting, with ACCOUNT_VERIFICATION as the env fallback.
+   */
+  static async isVerificationRequired(): Promise<boolean> {
+    return getPublicFlag('NEXT_PUBLIC_ACCOUNT_VERIFICATION', UserHelpers.isVerificationRequired());
+  }
+
+  /**
+   * Email a verification link for the given token
+   */
+  private static async sendVerificationEmail(user: CythroDashUser, token: string): Promise<boolean> {
+    const appUrl = await mailService.getAppUrl();
+    const result = await mailService.sendTemplate(user.email, 'email_verification', {
+      name: user.display_name || user.first_name || user.username,
+      verify_url: `${appUrl}/verify-email?token=${encodeURIComponent(token)}`
+    });
+    return result.success;
+  }
+
   /**
    * Verify email with token
    */
@@ -340,7 +387,13 @@ export class RegisterController {
       const success = await userOperations.verifyUserEmail(user.id);
       if (success) {
         // Award email verification bonus
-        await userOperations.updateCoins(user.id, 25, 'Email verification bonus');
+        await walletOperations.credit({
+          user_id: user.id,
+          amount: 25,
+          source_category: 'promotion',
+          message: 'Email verification bonus',
+          idempotency_key: `email_verification_bonus:${user.id}`
+        });
 
         return {
           success: true,
@@ -367,26 +420,16 @@ export class RegisterController {
   static async resendVerificationEmail(email: string): Promise<{ success: boolean; message: string }> {
     try {
       const user = await userOperations.getUserByEmail(email);
-      if (!user) {
-        return {
-          success: false,
-          message: 'No account found with this email address'
-        };
-      }
 
-      if (user.verified) {
-        return {
-          success: false,
-          message: 'This account is already verified'
-        };
+      // Same answer whether or not the account exists, so this cannot be used to probe emails
+      if (user && !user.verified && !user.deleted && !user.banned) {
+        const token = await userOperations.setEmailVerificationToken(user.id);
+        await this.sendVerificationEmail(user, token);
       }
 
-      await userOperations.setEmailVerificationToken(user.id);
-      // TODO: Send verification email with token
-
       return {
         success: true,
-        message: 'Verification email sent successfully'
+        message: 'If an unverified account exists for this email, a verification link has been sent.'
       };
     } catch (error) {
       console.error('Resend verification error:', error);
@@ -0,0 +1,349 @@
+/**
+ * CythroDash - Two-Factor Authentication Controller
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { userOperations } from '../../database/user';
+import { twoFactorChallengeOperations } from '../../database/two-factor-challenges';
+import { SecurityLogsController } from '../Security/Logs';
+import { LockoutController } from '../Security/Lockout';
+import { LoginController, LoginResponse } from './Login';
+import { SecurityLogAction, SecurityLogSeverity } from '../../../../database/tables/cythro_dash_users_logs';
+import { CythroDashUser } from '../../../../database/tables/cythro_dash_users';
+import { LogCategory } from '@/types/errors-and-logs';
+import { getPublicSetting } from '@/lib/public-settings';
+import {
+  generateTotpSecret,
+  buildOtpAuthUri,
+  matchTotpStep,
+  generateBackupCodes,
+  hashBackupCode
+} from '@/lib/security/totp';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabled_at?: Date;
+  backup_codes_remaining: number;
+}
+
+export interface TwoFactorSetupResponse {
+  success: boolean;
+  message: string;
+  secret?: string;
+  otpauth_uri?: string;
+}
+
+export interface TwoFactorEnableResponse {
+  success: boolean;
+  message: string;
+  backup_codes?: string[]; // Shown to the user once, only hashes are stored
+}
+
+export interface TwoFactorActionResponse {
+  success: boolean;
+  message: string;
+}
+
+// Where the request came from, for security logs
+export interface TwoFactorRequestContext {
+  ip_address?: string;
+  user_agent?: string;
+}
+
+export class TwoFactorController {
+
+  /**
+   * Current 2FA state for the settings page
+   */
+  static async getStatus(userId: number): Promise<TwoFactorStatus | null> {
+    const user = await userOperations.getUserById(userId);
+    if (!user) return null;
+
+    return {
+      enabled: !!user.two_factor_enabled,
+      enabled_at: user.two_factor_enabled_at,
+      backup_codes_remaining: user.two_factor_enabled ? (user.two_factor_backup_codes?.length || 0) : 0
+    };
+  }
+
+  /**
+   * Start enrollment: generate a secret and return it with the otpauth URI.
+   * Nothing is enforced until the user confirms a code with enableTwoFactor.
+   */
+  static async beginSetup(userId: number): Promise<TwoFactorSetupResponse> {
+    try {
+      const user = await userOperations.getUserById(userId);
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      if (user.two_factor_enabled) {
+        return { success: false, message: 'Two-factor authentication is already enabled' };
+      }
+
+      const secret = generateTotpSecret();
+      await userOperations.setTwoFactorPendingSecret(userId, secret);
+
+      const issuer = (await getPublicSetting<string>('NEXT_PUBLIC_NAME', 'CythroDash')) || 'CythroDash';
+
+      return {
+        success: true,
+        message: 'Scan the QR code with your authenticator app, then enter a code to confirm',
+        secret,
+        otpauth_uri: buildOtpAuthUri(secret, user.email, issuer)
+      };
+    } catch (error) {
+      console.error('2FA setup error:', error);
+      return { success: false, message: 'Failed to start two-factor setup' };
+    }
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app and issue backup codes
+   */
+  static async enableTwoFactor(userId: number, code: string, context: TwoFactorRequestContext = {}): Promise<TwoFactorEnableResponse> {
+    try {
+      const user = await userOperations.getUserById(userId);
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      if (user.two_factor_enabled) {
+        return { success: false, message: 'Two-factor authentication is already enabled' };
+      }
+      if (!user.two_factor_pending_secret) {
+        return { success: false, message: 'Start two-factor setup first' };
+      }
+      const step = matchTotpStep(user.two_factor_pending_secret, code);
+      if (step === null) {
+        return { success: false, message: 'Invalid verification code' };
+      }
+
+      const backupCodes = generateBackupCodes();
+      await userOperations.enableTwoFactor(userId, user.two_factor_pending_secret, backupCodes.map(hashBackupCode), step);
+
+      await SecurityLogsController.createLog({
+        user_id: userId,
+        action: SecurityLogAction.TWO_FACTOR_ENABLED,
+        severity: SecurityLogSeverity.MEDIUM,
+        description: 'Two-factor authentication enabled',
+        details: { category: LogCategory.ACCOUNT },
+        ip_address: context.ip_address,
+        user_agent: context.user_agent
+      });
+
+      return {
+        success: true,
+        message: 'Two-factor authentication enabled',
+        backup_codes: backupCodes
+      };
+    } catch (error) {
+      console.error('2FA enable error:', error);
+      return { success: false, message: 'Failed to enable two-factor authentication' };
+    }
+  }
+
+  /**
+   * Turn 2FA off. Requires the account password and a current TOTP or backup code.
+   */
+  static async disableTwoFactor(userId: number, password: string, code: string, context: TwoFactorRequestContext = {}): Promise<TwoFactorActionResponse> {
+    try {
+      const user = await userOperations.getUserById(userId);
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      if (!user.two_factor_enabled) {
+        return { success: false, message: 'Two-factor authentication is not enabled' };
+      }
+
+      // OAuth-only accounts have no password; the second factor alone is enough for them
+      if (user.password) {
+        const passwordValid = await userOperations.verifyPassword(userId, password);
+        if (!passwordValid) {
+          return { success: false, message: 'Incorrect password' };
+        }
+      }
+
+      if (!(await this.verifyUserCode(user, code, context))) {
+        return { success: false, message: 'Invalid verification code' };
+      }
+
+      await userOperations.disableTwoFactor(userId);
+
+      await SecurityLogsController.createLog({
+        user_id: userId,
+        action: SecurityLogAction.TWO_FACTOR_DISABLED,
+        severity: SecurityLogSeverity.MEDIUM,
+        description: 'Two-factor authentication disabled',
+        details: { category: LogCategory.ACCOUNT },
+        ip_address: context.ip_address,
+        user_agent: context.user_agent
+      });
+
+      return { success: true, message: 'Two-factor authentication disabled' };
+    } catch (error) {
+      console.error('2FA disable error:', error);
+      return { success: false, message: 'Failed to disable two-factor authentication' };
+    }
+  }
+
+  /**
+   * Admin reset for users who lost their authenticator and backup codes
+   */
+  static async adminResetTwoFactor(userId: number, adminId: number, context: TwoFactorRequestContext = {}): Promise<TwoFactorActionResponse> {
+    try {
+      const user = await userOperations.getUserById(userId);
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      if (!user.two_factor_enabled && !user.two_factor_pending_secret) {
+        return { success: false, message: 'Two-factor authentication is not enabled for this user' };
+      }
+
+      await userOperations.disableTwoFactor(userId);
+      await twoFactorChallengeOperations.deleteUserChallenges(userId);
+
+      await SecurityLogsController.createLog({
+        user_id: userId,
+        action: SecurityLogAction.TWO_FACTOR_DISABLED,
+        severity: SecurityLogSeverity.HIGH,
+        description: 'Two-factor authentication reset by an administrator',
+        details: {
+          reset_by: adminId,
+          admin_action: true,
+          category: LogCategory.ACCOUNT
+        },
+        ip_address: context.ip_address,
+        user_agent: context.user_agent,
+        requires_attention: true
+      });
+
+      return { success: true, message: 'Two-factor authentication has been reset' };
+    } catch (error) {
+      console.error('2FA admin reset error:', error);
+      return { success: false, message: 'Failed to reset two-factor authentication' };
+    }
+  }
+
+  /**
+   * Second login step: exchange a challenge token and a code for a session
+   */
+  static async completeLoginChallenge(token: string, code: string, context: TwoFactorRequestContext = {}): Promise<LoginResponse> {
+    try {
+      const challenge = await twoFactorChallengeOperations.getChallengeForAttempt(token);
+      if (!challenge) {
+        return {
+          success: false,
+          message: 'Your sign-in attempt has expired. Please sign in again.',
+          errors: [{ field: 'general', message: 'Challenge expired' }]
+        };
+      }
+
+      const user = await userOperations.getUserById(challenge.user_id);
+      if (!user || user.banned || user.deleted || !user.two_factor_enabled) {
+        await twoFactorChallengeOperations.deleteChallenge(token);
+        return {
+          success: false,
+          message: 'Unable to complete sign-in',
+          errors: [{ field: 'general', message: 'Account unavailable' }]
+        };
+      }
+
+      const lock = await LockoutController.getActiveLock(user, context.ip_address || challenge.ip_address);
+      if (lock.locked) {
+        await twoFactorChallengeOperations.deleteChallenge(token);
+        return {
+          success: false,
+          message: 'Too many failed login attempts. Please try again later.',
+          account_locked: true,
+          lock_expires: lock.locked_until
+        };
+      }
+
+      const method = await this.verifyUserCode(user, code, context);
+      if (!method) {
+        await SecurityLogsController.logAuthEvent(
+          user.id,
+          SecurityLogAction.LOGIN_FAILED,
+          false,
+          context.ip_address,
+          context.user_agent,
+          {
+            reason: 'invalid_2fa_code',
+            attempt: challenge.attempts
+          }
+        );
+        await LockoutController.recordFailure(user, {
+          ip_address: context.ip_address || challenge.ip_address,
+          user_agent: context.user_agent
+        });
+
+        return {
+          success: false,
+          message: 'Invalid verification code',
+          requires_2fa: true,
+          two_factor_token: token,
+          errors: [{ field: 'code', message: 'Invalid verification code' }]
+        };
+      }
+
+      await twoFactorChallengeOperations.deleteChallenge(token);
+
+      if (challenge.login_method === 'password') {
+        const passwordChange = await LoginController.requirePasswordChange(user);
+        if (passwordChange) return passwordChange;
+      }
+
+      return await LoginController.completeLogin(user, {
+        login_method: challenge.login_method,
+        remember_me: challenge.remember_me,
+        ip_address: context.ip_address || challenge.ip_address,
+        user_agent: context.user_agent || challenge.user_agent
+      }, {
+        login_method: challenge.login_method,
+        two_factor_method: method
+      });
+    } catch (error) {
+      console.error('2FA login error:', error);
+      return {
+        success: false,
+        message: 'An unexpected error occurred during login',
+        errors: [{ field: 'general', message: 'Login failed' }]
+      };
+    }
+  }
+
+  /**
+   * Check a TOTP code, falling back to a one-time backup code.
+   * A TOTP code is accepted once: its time step must be later than the last accepted one.
+   * Backup codes are consumed on use and logged.
+   */
+  private static async verifyUserCode(user: CythroDashUser, code: string, context: TwoFactorRequestContext): Promise<'totp' | 'backup' | null> {
+    if (!user.two_factor_secret || !code) return null;
+
+    const step = matchTotpStep(user.two_factor_secret, code);
+    if (step !== null) {
+      return (await userOperations.claimTwoFactorStep(user.id, step)) ? 'totp' : null;
+    }
+
+    const consumed = await userOperations.consumeTwoFactorBackupCode(user.id, hashBackupCode(code));
+    if (!consumed) return null;
+
+    const remaining = Math.max(0, (user.two_factor_backup_codes?.length || 1) - 1);
+    await SecurityLogsController.createLog({
+      user_id: user.id,
+      action: SecurityLogAction.TWO_FACTOR_BACKUP_USED,
+      severity: remaining <= 2 ? SecurityLogSeverity.MEDIUM : SecurityLogSeverity.LOW,
+      description: 'Two-factor backup code used',
+      details: {
+        backup_codes_remaining: remaining,
+        category: LogCategory.ACCOUNT
+      },
+      ip_address: context.ip_address,
+      user_agent: context.user_agent
+    });
+
+    return 'backup';
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * CythroDash - Login Lockout Controller
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { userOperations } from '../../database/user';
+import { loginLockoutsOperations } from '../../database/login-lockouts';
+import { SecurityLogsController } from './Logs';
+import { CythroDashUser } from '../../../../database/tables/cythro_dash_users';
+import { CythroDashUserLog, SecurityLogAction, SecurityLogSeverity } from '../../../../database/tables/cythro_dash_users_logs';
+import { LogCategory } from '@/types/errors-and-logs';
+import { LockoutMode, LockoutPolicy, getLockoutPolicy, lockoutDurationMinutes } from '@/lib/security/lockout-policy';
+import { normalizeIP } from '@/lib/security/ip-matcher';
+
+export interface LoginLockState {
+  locked: boolean;
+  scope?: LockoutMode; // Whether the whole account or only this address is locked
+  locked_until?: Date;
+}
+
+export interface LockoutRequestContext {
+  ip_address?: string;
+  user_agent?: string;
+}
+
+export interface LockoutStatus {
+  policy: LockoutPolicy;
+  account_locked: boolean;
+  locked_until?: Date;
+  failed_login_attempts: number;
+  lockout_count: number;
+  ip_locks: Array<{ ip_address: string; locked_until?: Date; lockout_count: number }>;
+}
+
+export class LockoutController {
+
+  private static ipKey(ipAddress?: string): string {
+    return (ipAddress && normalizeIP(ipAddress)) || ipAddress || 'unknown';
+  }
+
+  /**
+   * Whether this user may attempt to sign in from this address. An account-wide lock always
+   * applies, so locks set before a switch to `ip` mode run out as normal.
+   */
+  static async getActiveLock(user: CythroDashUser, ipAddress?: string): Promise<LoginLockState> {
+    const now = new Date();
+    if (user.locked_until && user.locked_until > now) {
+      return { locked: true, scope: 'account', locked_until: user.locked_until };
+    }
+
+    const policy = await getLockoutPolicy();
+    if (policy.mode === 'ip') {
+      const record = await loginLockoutsOperations.get(user.id, this.ipKey(ipAddress));
+      if (record?.locked_until && record.locked_until > now) {
+        return { locked: true, scope: 'ip', locked_until: record.locked_until };
+      }
+    }
+
+    return { locked: false };
+  }
+
+  /**
+   * Count a failed password or 2FA attempt and lock once the policy threshold is reached
+   */
+  static async recordFailure(user: CythroDashUser, context: LockoutRequestContext = {}): Promise<LoginLockState> {
+    try {
+      const policy = await getLockoutPolicy();
+
+      let failedAttempts: number;
+      let lockoutNumber: number;
+      if (policy.mode === 'ip') {
+        const record = await loginLockoutsOperations.recordFailure(user.id, this.ipKey(context.ip_address));
+        failedAttempts = record.failed_attempts;
+        lockoutNumber = record.lockout_count + 1;
+      } else {
+        await userOperations.updateFailedLoginAttempts(user.id, true);
+        const fresh = await userOperations.getUserById(user.id);
+        failedAttempts = fresh?.failed_login_attempts ?? user.failed_login_attempts + 1;
+        lockoutNumber = (fresh?.lockout_count ?? 0) + 1;
+      }
+
+      if (failedAttempts < policy.max_attempts) {
+        return { locked: false };
+      }
+
+      const minutes = lockoutDurationMinutes(policy, lockoutNumber);
+      const lockedUntil = new Date(Date.now() + minutes * 60000);
+      if (policy.mode === 'ip') {
+        await loginLockoutsOperations.lock(user.id, this.ipKey(context.ip_address), lockedUntil);
+      } else {
+        await userOperations.lockUserAccount(user.id, minutes);
+      }
+
+      await SecurityLogsController.createLog({
+        user_id: user.id,
+        action: SecurityLogAction.ACCOUNT_LOCKED,
+        description: policy.mode === 'ip'
+          ? `Sign-in from ${context.ip_address || 'an unknown address'} locked due to multiple failed login attempts`
+          : 'Account locked due to multiple failed login attempts',
+        details: {
+          mode: policy.mode,
+          failed_attempts: failedAttempts,
+          lockout_number: lockoutNumber,
+          lock_duration_minutes: minutes,
+          locked_until: lockedUntil
+        },
+        ip_address: context.ip_address,
+        user_agent: context.user_agent,
+        is_suspicious: true,
+        requires_attention: true
+      });
+
+      return { locked: true, scope: policy.mode, locked_until: lockedUntil };
+    } catch (error) {
+      console.error('Error recording failed login:', error);
+      return { locked: false };
+    }
+  }
+
+  /**
+   * Reset failed attempts and backoff after a successful sign-in
+   */
+  static async recordSuccess(user: CythroDashUser, ipAddress?: string): Promise<void> {
+    await userOperations.updateFailedLoginAttempts(user.id, false);
+    await loginLockoutsOperations.clear(user.id, this.ipKey(ipAddress));
+  }
+
+  /**
+   * Lift every lockout on an account, recording which administrator did it
+   */
+  static async adminUnlock(
+    userId: number,
+    admin: { id: number; username: string },
+    context: LockoutRequestContext = {}
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const user = await userOperations.getUserById(userId);
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+
+      const accountLocked = !!user.locked_until && user.locked_until > new Date();
+      const ipLocks = await loginLockoutsOperations.getActiveLocks(userId);
+      if (!accountLocked && ipLocks.length === 0) {
+        return { success: false, message: 'This account is not locked' };
+      }
+
+      await userOperations.unlockUserAccount(userId);
+      await loginLockoutsOperations.clearUser(userId);
+
+      await SecurityLogsController.createLog({
+        user_id: userId,
+        action: SecurityLogAction.ACCOUNT_UNLOCKED,
+        severity: SecurityLogSeverity.MEDIUM,
+        description: `Account unlocked by administrator ${admin.username}`,
+        details: {
+          unlocked_by: admin.id,
+          unlocked_by_username: admin.username,
+          admin_action: true,
+          account_lock_cleared: accountLocked,
+          locked_until: accountLocked ? user.locked_until : undefined,
+          ip_locks_cleared: ipLocks.map(l => l.ip_address),
+          category: LogCategory.ACCOUNT
+        },
+        ip_address: context.ip_address,
+        user_agent: context.user_agent
+      });
+
+      return { success: true, message: 'Account unlocked' };
+    } catch (error) {
+      console.error('Admin unlock error:', error);
+      return { success: false, message: 'Failed to unlock account' };
+    }
+  }
+
+  /**
+   * Current lockout state of an account, for the admin user view
+   */
+  static async getLockoutStatus(userId: number): Promise<LockoutStatus | null> {
+    const user = await userOperations.getUserById(userId);
+    if (!user) return null;
+
+    const [policy, ipLocks] = await Promise.all([
+      getLockoutPolicy(),
+      loginLockoutsOperations.getActiveLocks(userId)
+    ]);
+    const accountLocked = !!user.locked_until && user.locked_until > new Date();
+
+    return {
+      policy,
+      account_locked: accountLocked,
+      locked_until: accountLocked ? user.locked_until : undefined,
+      failed_login_attempts: user.failed_login_attempts || 0,
+      lockout_count: user.lockout_count || 0,
+      ip_locks: ipLocks.map(l => ({ ip_address: l.ip_address, locked_until: l.locked_until, lockout_count: l.lockout_count }))
+    };
+  }
+
+  /**
+   * Recent lock and unlock events for an account, newest first
+   */
+  static async getLockoutHistory(userId: number, limit: number = 20): Promise<CythroDashUserLog[]> {
+    const result = await SecurityLogsController.getUserLogs({
+      user_id: userId,
+      action: [SecurityLogAction.ACCOUNT_LOCKED, SecurityLogAction.ACCOUNT_UNLOCKED],
+      limit
+    });
+    return result.logs || [];
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * CythroDash - Login Anomaly Controller
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import crypto from 'crypto';
+import { knownDevicesOperations, DeviceSighting } from '../../database/known-devices';
+import { SecurityLogsController } from './Logs';
+import { SecurityLogAction } from '../../../../database/tables/cythro_dash_users_logs';
+import { CythroDashUser } from '../../../../database/tables/cythro_dash_users';
+import { DeviceInfo } from '../../../../database/tables/cythro_dash_referrals';
+import { SessionLoginMethod } from '../../../../database/tables/cythro_dash_sessions';
+import { parseIP, formatIP } from '@/lib/security/ip-matcher';
+import { lookupCountry } from '@/lib/security/geoip';
+import { getPublicSetting } from '@/lib/public-settings';
+import { mailService } from '@/lib/mail';
+
+// What happens when a login is flagged, set by the NEXT_PUBLIC_LOGIN_ANOMALY_ACTION setting
+export type LoginAnomalyAction = 'off' | 'notify' | 'challenge';
+
+export interface LoginAssessment {
+  sighting: DeviceSighting;
+  new_device: boolean;
+  new_country: boolean;
+  anomalous: boolean;
+  known_countries: string[];
+}
+
+export interface LoginContext {
+  login_method: SessionLoginMethod;
+  ip_address?: string;
+  user_agent?: string;
+}
+
+// Addresses in the same /24 (IPv4) or /48 (IPv6) count as the same network
+const IPV4_PREFIX_BITS = 24;
+const IPV6_PREFIX_BITS = 48;
+
+export class LoginAnomalyController {
+
+  /**
+   * Configured response to flagged logins
+   */
+  static async getAction(): Promise<LoginAnomalyAction> {
+    const value = await getPublicSetting<string>('NEXT_PUBLIC_LOGIN_ANOMALY_ACTION', 'notify');
+    return value === 'off' || value === 'challenge' ? value : 'notify';
+  }
+
+  /**
+   * Network prefix of an address, e.g. 203.0.113.0/24
+   */
+  static ipPrefix(ipAddress?: string): string {
+    const ip = ipAddress ? parseIP(ipAddress) : null;
+    if (!ip) return 'unknown';
+    const bits = ip.version === 4 ? IPV4_PREFIX_BITS : IPV6_PREFIX_BITS;
+    const bytes = ip.bytes.map((b, i) => b & ((0xff << (8 - Math.max(0, Math.min(8, bits - i * 8)))) & 0xff));
+    return `${formatIP({ version: ip.version, bytes })}/${bits}`;
+  }
+
+  /**
+   * Describe the device behind a login. The fingerprint covers browser, OS and device type
+   * rather than the raw user agent, so browser updates do not look like a new device.
+   */
+  static fingerprintDevice(userAgent: string | undefined, ipAddress: string | undefined): { device_info: DeviceInfo; ip_prefix: string } {
+    const parsed = SecurityLogsController.parseUserAgent(userAgent);
+    const ip_prefix = this.ipPrefix(ipAddress);
+    const fingerprint = crypto
+      .createHash('sha256')
+      .update([parsed.browser || 'unknown', parsed.os || 'unknown', parsed.device_type || 'desktop', ip_prefix].join('|'))
+      .digest('hex')
+      .substring(0, 32);
+
+    return {
+      device_info: {
+        user_agent: userAgent || 'unknown',
+        browser: parsed.browser,
+        os: parsed.os,
+        device_type: parsed.device_type as DeviceInfo['device_type'],
+        fingerprint
+      },
+      ip_prefix
+    };
+  }
+
+  /**
+   * Compare a login against the user's known devices and countries. Users without any
+   * recorded device are not flagged for the device; their last login IP still provides a
+   * country to compare against.
+   */
+  static async assess(user: CythroDashUser, ipAddress?: string, userAgent?: string): Promise<LoginAssessment> {
+    const { device_info, ip_prefix } = this.fingerprintDevice(userAgent, ipAddress);
+    const [devices, country, lastCountry] = await Promise.all([
+      knownDevicesOperations.getKnownDevices(user.id),
+      lookupCountry(ipAddress),
+      user.last_login_ip ? lookupCountry(user.last_login_ip) : Promise.resolve(null)
+    ]);
+
+    const known_countries = [...new Set([...devices.flatMap(d => d.countries || []), ...(lastCountry ? [lastCountry] : [])])];
+    const new_device = devices.length > 0 && !devices.some(d => d.fingerprint === device_info.fingerprint);
+    const new_country = !!country && known_countries.length > 0 && !known_countries.includes(country);
+
+    return {
+      sighting: {
+        user_id: user.id,
+        fingerprint: device_info.fingerprint!,
+        device_info,
+        ip_prefix,
+        ip_address: ipAddress,
+        country: country || undefined
+      },
+      new_device,
+      new_country,
+      anomalous: new_device || new_country,
+      known_countries
+    };
+  }
+
+  /**
+   * Hold a flagged password login until the user confirms it from the emailed link
+   */
+  static async requireConfirmation(user: CythroDashUser, assessment: LoginAssessment, context: LoginContext): Promise<{ success: false; message: string; requires_device_confirmation: true }> {
+    const { token, expires_at } = await knownDevicesOperations.createConfirmation(assessment.sighting);
+    await this.logAnomaly(user, assessment, context, { confirmation_required: true });
+
+    const appUrl = await mailService.getAppUrl();
+    await mailService.sendTemplate(user.email, 'login_confirmation', {
+      name: this.displayName(user),
+      device: this.describeDevice(assessment.sighting.device_info),
+      location: assessment.sighting.country || 'Unknown location',
+      ip_address: context.ip_address || 'unknown',
+      confirm_url: `${appUrl}/confirm-login?token=${encodeURIComponent(token)}`,
+      expires_minutes: Math.round((expires_at.getTime() - Date.now()) / 60000)
+    });
+
+    return {
+      success: false,
+      message: 'We do not recognise this device or location. Check your email to confirm this sign-in, then log in again.',
+      requires_device_confirmation: true
+    };
+  }
+
+  /**
+   * Record a completed login: flagged logins are logged and the user is emailed, then the
+   * device and country become known. Never throws, so it cannot block a login.
+   */
+  static async recordLogin(user: CythroDashUser, context: LoginContext): Promise<LoginAssessment | null> {
+    try {
+      const action = await this.getAction();
+      const assessment = await this.assess(user, context.ip_address, context.user_agent);
+
+      if (assessment.anomalous && action !== 'off') {
+        await this.logAnomaly(user, assessment, context);
+        const appUrl = await mailService.getAppUrl();
+        await mailService.sendTemplate(user.email, 'new_login_alert', {
+          name: this.displayName(user),
+          device: this.describeDevice(assessment.sighting.device_info),
+          location: assessment.sighting.country || 'Unknown location',
+          ip_address: context.ip_address || 'unknown',
+          signed_in_at: new Date(),
+          security_url: `${appUrl}/settings`
+        });
+      }
+
+      await knownDevicesOperations.recordLogin(assessment.sighting);
+      return assessment;
+    } catch (error) {
+      console.error('Error recording login device:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Redeem an emailed confirmation link
+   */
+  static async confirmDevice(token: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const device = await knownDevicesOperations.confirmDevice(token);
+      if (!device) {
+        return {
+          success: false,
+          message: 'This confirmation link is invalid or has expired. Please sign in again.'
+        };
+      }
+
+      await SecurityLogsController.createLog({
+        user_id: device.user_id,
+        action: SecurityLogAction.UNUSUAL_ACTIVITY,
+        description: 'New sign-in device confirmed by email',
+        details: {
+          fingerprint: device.fingerprint,
+          ip_prefix: device.ip_prefix,
+          device: this.describeDevice(device.device_info)
+        },
+        ip_address: device.last_ip,
+        user_agent: device.device_info.user_agent
+      });
+
+      return {
+        success: true,
+        message: 'Sign-in confirmed. You can now log in from this device.'
+      };
+    } catch (error) {
+      console.error('Error confirming login device:', error);
+      return {
+        success: false,
+        message: 'An unexpected error occurred'
+      };
+    }
+  }
+
+  private static async logAnomaly(user: CythroDashUser, assessment: LoginAssessment, context: LoginContext, extra: Record<string, any> = {}): Promise<void> {
+    const { sighting } = assessment;
+    await SecurityLogsController.createLog({
+      user_id: user.id,
+      action: assessment.new_country ? SecurityLogAction.SUSPICIOUS_LOGIN_LOCATION : SecurityLogAction.UNUSUAL_ACTIVITY,
+      description: assessment.new_country
+        ? `Login from a new country (${sighting.country})`
+        : 'Login from a new device',
+      details: {
+        login_method: context.login_method,
+        new_device: assessment.new_device,
+        new_country: assessment.new_country,
+        country: sighting.country,
+        known_countries: assessment.known_countries,
+        fingerprint: sighting.fingerprint,
+        ip_prefix: sighting.ip_prefix,
+        previous_ip: user.last_login_ip,
+        ...extra
+      },
+      ip_address: context.ip_address,
+      user_agent: context.user_agent,
+      is_suspicious: true
+    });
+  }
+
+  private static describeDevice(device: DeviceInfo): string {
+    return [device.browser, device.os && `on ${device.os}`].filter(Boolean).join(' ') || 'Unknown device';
+  }
+
+  private static displayName(user: CythroDashUser): string {
+    return user.display_name || user.first_name || user.username;
+  }
+}
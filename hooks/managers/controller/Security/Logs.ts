@@ -7,6 +7,7 @@
  */
 
 import { userLogsOperations } from '../../database/user-logs';
+import { ipBlockRulesOperations } from '../../database/ip-block-rules';
 import { LogCategory } from '@/types/errors-and-logs';
 import {
   CythroDashUserLog,
@@ -112,6 +113,13 @@ export class SecurityLogsController {
 
       console.log(`Security log created successfully: ${log.id}`);
 
+      // Automatic IP block rules count this event against its IP
+      await ipBlockRulesOperations.recordEvent({
+        trigger: request.action === SecurityLogAction.API_RATE_LIMIT_EXCEEDED ? 'rate_limit' : 'security_log',
+        action: request.action,
+        ip_address: request.ip_address
+      });
+
       return {
         success: true,
         message: 'Security log created successfully',
@@ -311,7 +319,9 @@ export class SecurityLogsController {
   private static validateCreateLogRequest(request: CreateLogRequest): { isValid: boolean; errors: Array<{ field: string; message: string }> } {
     const errors: Array<{ field: string; message: string }> = [];
 
-    if (!request.user_id || request.user_id <= 0) {
+    // Browser reports may come from signed-out visitors, logged against user 0
+    const allowsAnonymous = request.action === SecurityLogAction.CSP_VIOLATION && request.user_id === 0;
+    if (!allowsAnonymous && (!request.user_id || request.user_id <= 0)) {
       errors.push({ field: 'user_id', message: 'Valid user ID is required' });
     }
 
@@ -367,7 +377,7 @@ export class SecurityLogsController {
     return severity === SecurityLogSeverity.HIGH || severity === SecurityLogSeverity.CRITICAL;
   }
 
-  private static parseUserAgent(userAgent?: string): { device_type?: string; browser?: string; os?: string } {
+  static parseUserAgent(userAgent?: string): { device_type?: string; browser?: string; os?: string } {
     if (!userAgent) return {};
 
     // Simple user agent parsing (you might want to use a library like 'ua-parser-js' for better parsing)
@@ -419,6 +429,10 @@ export class SecurityLogsController {
         return 'User logged out';
       case SecurityLogAction.SESSION_EXPIRED:
         return 'User session expired';
+      case SecurityLogAction.PASSWORD_RESET_REQUESTED:
+        return 'Password reset requested';
+      case SecurityLogAction.PASSWORD_RESET_COMPLETED:
+        return 'Password reset completed';
       default:
         return success ? 'Authentication event succeeded' : 'Authentication event failed';
     }
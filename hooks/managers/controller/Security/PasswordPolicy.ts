@@ -0,0 +1,114 @@
+/**
+ * CythroDash - Password Policy Controller
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { userOperations } from '../../database/user';
+import { sessionOperations } from '../../database/sessions';
+import { SecurityLogsController } from './Logs';
+import { ValidationError } from '../../database/user-validation';
+import { CythroDashUser } from '../../../../database/tables/cythro_dash_users';
+import { SecurityLogAction, SecurityLogSeverity } from '../../../../database/tables/cythro_dash_users_logs';
+import { LogCategory } from '@/types/errors-and-logs';
+import { PasswordPolicy, getPasswordPolicy, checkPasswordRules, passwordExpiresAt } from '@/lib/security/password-policy';
+import { isBreachedPassword } from '@/lib/security/breached-passwords';
+
+// Why a password login has to pick a new password before it gets a session
+export type PasswordChangeReason = 'required_by_admin' | 'expired';
+
+export interface PasswordCandidate {
+  user?: CythroDashUser; // Existing account, for the history rule
+  username?: string;
+  email?: string;
+  field?: string; // Form field the errors are reported against
+}
+
+export class PasswordPolicyController {
+
+  /**
+   * Check a newly chosen password against every rule of the policy
+   */
+  static async validateNewPassword(password: string, candidate: PasswordCandidate = {}): Promise<ValidationError[]> {
+    const field = candidate.field || 'password';
+    if (!password) {
+      return [{ field, message: 'Password is required' }];
+    }
+
+    const policy = await getPasswordPolicy();
+    const owner = {
+      username: candidate.username ?? candidate.user?.username,
+      email: candidate.email ?? candidate.user?.email
+    };
+    const errors: ValidationError[] = checkPasswordRules(password, policy, owner).map(message => ({ field, message }));
+    if (errors.length > 0) return errors;
+
+    if (policy.breach_check && await isBreachedPassword(password)) {
+      errors.push({ field, message: 'This password is too common or has appeared in a data breach. Please choose another.' });
+    } else if (candidate.user && await userOperations.isPasswordReused(candidate.user.id, password, policy.history_count)) {
+      errors.push({
+        field,
+        message: policy.history_count === 1
+          ? 'New password must be different from your current password'
+          : `Password must not match any of your last ${policy.history_count} passwords`
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Whether the user must choose a new password before signing in with their current one
+   */
+  static async getChangeReason(user: CythroDashUser, policy?: PasswordPolicy): Promise<PasswordChangeReason | null> {
+    if (!user.password) return null;
+    if (user.password_change_required) return 'required_by_admin';
+
+    const expiresAt = passwordExpiresAt(policy || await getPasswordPolicy(), user.password_changed_at || user.created_at);
+    return expiresAt && expiresAt <= new Date() ? 'expired' : null;
+  }
+
+  /**
+   * Make a user choose a new password at their next login and sign them out everywhere
+   */
+  static async requirePasswordChange(
+    userId: number,
+    adminId: number,
+    context: { ip_address?: string; user_agent?: string } = {}
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const user = await userOperations.getUserById(userId);
+      if (!user) {
+        return { success: false, message: 'User not found' };
+      }
+      if (!user.password) {
+        return { success: false, message: 'This user signs in with OAuth only and has no password' };
+      }
+
+      await userOperations.setPasswordChangeRequired(userId, true);
+      const revoked = await sessionOperations.revokeAllUserSessions(userId, { reason: 'password_change_required' });
+
+      await SecurityLogsController.createLog({
+        user_id: userId,
+        action: SecurityLogAction.PASSWORD_CHANGE_REQUIRED,
+        severity: SecurityLogSeverity.MEDIUM,
+        description: 'Password change required at next login by administrator',
+        details: {
+          admin_id: adminId,
+          admin_action: true,
+          sessions_revoked: revoked.length,
+          category: LogCategory.SECURITY
+        },
+        ip_address: context.ip_address,
+        user_agent: context.user_agent
+      });
+
+      return { success: true, message: 'The user must choose a new password at their next login' };
+    } catch (error) {
+      console.error('Require password change error:', error);
+      return { success: false, message: 'Failed to require a password change' };
+    }
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * CythroDash - Session Management Controller
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { sessionOperations } from '../../database/sessions';
+import { SecurityLogsController } from './Logs';
+import { SecurityLogAction, SecurityLogSeverity } from '../../../../database/tables/cythro_dash_users_logs';
+import { CythroDashSession, SessionLoginMethod } from '../../../../database/tables/cythro_dash_sessions';
+import { LogCategory } from '@/types/errors-and-logs';
+
+// Session as exposed to clients (never includes the token hash)
+export interface SessionSummary {
+  id: string;
+  login_method: SessionLoginMethod;
+  ip_address?: string;
+  user_agent?: string;
+  device_type?: string;
+  browser?: string;
+  os?: string;
+  created_at: Date;
+  last_seen_at: Date;
+  expires_at: Date;
+  current: boolean;
+}
+
+// Who is revoking, and from where
+export interface RevocationContext {
+  actor_id: number;
+  is_admin_action?: boolean;
+  current_session_id?: string;
+  ip_address?: string;
+  user_agent?: string;
+}
+
+export interface SessionRevocationResponse {
+  success: boolean;
+  message: string;
+  revoked?: number;
+}
+
+export class SessionsController {
+
+  /**
+   * List active sessions for a user, most recently used first
+   */
+  static async listUserSessions(userId: number, currentSessionId?: string): Promise<SessionSummary[]> {
+    const sessions = await sessionOperations.getUserSessions(userId);
+    return sessions.map(session => this.toSummary(session, currentSessionId));
+  }
+
+  /**
+   * Revoke a single session belonging to a user
+   */
+  static async revokeSession(userId: number, sessionId: string, context: RevocationContext): Promise<SessionRevocationResponse> {
+    try {
+      const session = await sessionOperations.getSessionById(sessionId);
+      if (!session || session.user_id !== userId || session.revoked) {
+        return { success: false, message: 'Session not found' };
+      }
+
+      await sessionOperations.revokeSession(sessionId, context.is_admin_action ? 'admin_revoked' : 'user_revoked');
+      await this.logRevocation(userId, [sessionId], context);
+
+      return { success: true, message: 'Session revoked', revoked: 1 };
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      return { success: false, message: 'Failed to revoke session' };
+    }
+  }
+
+  /**
+   * Revoke all sessions of a user except the current one ("log out everywhere else")
+   */
+  static async revokeOtherSessions(userId: number, context: RevocationContext): Promise<SessionRevocationResponse> {
+    try {
+      const revokedIds = await sessionOperations.revokeAllUserSessions(userId, {
+        except_session_id: context.current_session_id,
+        reason: context.is_admin_action ? 'admin_revoked' : 'user_revoked_others'
+      });
+
+      if (revokedIds.length > 0) {
+        await this.logRevocation(userId, revokedIds, context);
+      }
+
+      return {
+        success: true,
+        message: revokedIds.length > 0 ? `Revoked ${revokedIds.length} session(s)` : 'No other active sessions',
+        revoked: revokedIds.length
+      };
+    } catch (error) {
+      console.error('Error revoking sessions:', error);
+      return { success: false, message: 'Failed to revoke sessions' };
+    }
+  }
+
+  /**
+   * Revoke every session of a user (admin action, or account-level security events)
+   */
+  static async revokeAllSessions(userId: number, context: RevocationContext): Promise<SessionRevocationResponse> {
+    return this.revokeOtherSessions(userId, { ...context, current_session_id: undefined });
+  }
+
+  private static async logRevocation(userId: number, sessionIds: string[], context: RevocationContext): Promise<void> {
+    // A user ending their own sessions is a logout; an admin ending them expires the session for the user
+    const action = context.is_admin_action ? SecurityLogAction.SESSION_EXPIRED : SecurityLogAction.LOGOUT;
+    const plural = sessionIds.length === 1 ? 'session' : `${sessionIds.length} sessions`;
+
+    await SecurityLogsController.createLog({
+      user_id: userId,
+      action,
+      severity: context.is_admin_action ? SecurityLogSeverity.MEDIUM : SecurityLogSeverity.LOW,
+      description: context.is_admin_action
+        ? `Administrator revoked ${plural}`
+        : `User revoked ${plural}`,
+      details: {
+        session_ids: sessionIds,
+        revoked_by: context.actor_id,
+        admin_action: !!context.is_admin_action,
+        category: LogCategory.ACCOUNT
+      },
+      ip_address: context.ip_address,
+      user_agent: context.user_agent,
+      session_id: context.current_session_id
+    });
+  }
+
+  private static toSummary(session: CythroDashSession, currentSessionId?: string): SessionSummary {
+    const device = SecurityLogsController.parseUserAgent(session.user_agent);
+    return {
+      id: session.id,
+      login_method: session.login_method,
+      ip_address: session.ip_address,
+      user_agent: session.user_agent,
+      device_type: device.device_type,
+      browser: device.browser,
+      os: device.os,
+      created_at: session.created_at,
+      last_seen_at: session.last_seen_at,
+      expires_at: session.expires_at,
+      current: !!currentSessionId && session.id === currentSessionId
+    };
+  }
+}
@@ -14,6 +14,7 @@ import {
 } from '@/database/tables/cythro_dash_social_verifications';
 import { socialVerificationOperations } from '@/hooks/managers/database/social-verifications';
 import { userOperations } from '@/hooks/managers/database/user';
+import { walletOperations } from '@/hooks/managers/database/wallet';
 
 // Discord API interfaces
 interface DiscordGuildMember {
@@ -259,23 +260,23 @@ export class DiscordVerificationController {
         };
       }
 
-      const before = user.coins || 0
-      await userOperations.updateCoins(userId, verification.coins_reward, 'Discord server verification reward');
+      const credit = await walletOperations.credit({
+        user_id: userId,
+        amount: verification.coins_reward,
+        source_category: 'promotion',
+        reference_id: `discord_verify_${verificationId}`,
+        message: 'Discord Server Verification Reward',
+        idempotency_key: `discord_verify_${verificationId}`
+      });
+      if (!credit.success) {
+        return {
+          success: false,
+          message: 'Failed to award coins',
+          errors: [credit.error || 'BALANCE_UPDATE_FAILED']
+        };
+      }
 
-      // Rewards ledger + security log (best-effort)
-      try {
-        const { rewardsLedgerOperations } = await import('@/hooks/managers/database/rewards-ledger')
-        await rewardsLedgerOperations.add({
-          user_id: userId,
-          delta: verification.coins_reward,
-          balance_before: before,
-          balance_after: before + verification.coins_reward,
-          source_category: 'promotion',
-          source_action: 'earn',
-          reference_id: `discord_verify_${verificationId}`,
-          message: 'Discord Server Verification Reward'
-        })
-      } catch {}
+      // Security log (best-effort)
       try {
         const { SecurityLogsController } = await import('@/hooks/managers/controller/Security/Logs')
         const { SecurityLogAction, SecurityLogSeverity } = await import('@/database/tables/cythro_dash_users_logs')
@@ -22,6 +22,10 @@ import {
 } from '../../../../database/tables/cythro_dash_users';
 import bcrypt from 'bcrypt';
 import { SecurityLogsController } from '../Security/Logs';
+import { PasswordPolicyController } from '../Security/PasswordPolicy';
+import { ServerLifecycleController } from './server-lifecycle';
+import { walletOperations } from '../../database/wallet';
+import { RewardSourceCategory } from '../../../../database/tables/cythro_dash_rewards_ledger';
 
 // User details interfaces
 export interface UserDetailsRequest {
@@ -581,10 +585,9 @@ export class UserDetailsController {
       errors.push({ field: 'current_password', message: 'Current password is required' });
     }
 
-    // Validate new password
-    if (request.new_password !== undefined) {
-      const passwordError = UserValidation.validatePassword(request.new_password);
-      if (passwordError) errors.push(passwordError);
+    // Validate new password (the policy is applied once the user is loaded)
+    if (!request.new_password) {
+      errors.push({ field: 'new_password', message: 'New password is required' });
     }
 
     return {
@@ -664,25 +667,41 @@ export class UserDetailsController {
   }
 
   /**
-   * Update user coins
+   * Update user coins through the wallet, which writes the ledger entry.
+   * Pass an idempotency key for one-off rewards so a repeated claim is not paid twice.
    */
   static async updateUserCoins(
     userId: number,
     amount: number,
-    reason: string
-  ): Promise<{ success: boolean; message: string }> {
+    reason: string,
+    options: { source_category?: RewardSourceCategory; reference_id?: string | number; idempotency_key?: string } = {}
+  ): Promise<{ success: boolean; message: string; duplicate?: boolean; balance?: number }> {
     try {
-      const success = await userOperations.updateUserCoins(userId, amount, reason);
+      const mutation = {
+        user_id: userId,
+        amount: Math.abs(amount),
+        source_category: options.source_category || 'admin_adjustment',
+        reference_id: options.reference_id,
+        message: reason,
+        idempotency_key: options.idempotency_key
+      };
+      const result = amount >= 0 ? await walletOperations.credit(mutation) : await walletOperations.debit(mutation);
 
-      if (success) {
+      if (result.success) {
+        if (result.duplicate) {
+          return { success: true, message: 'Coins were already awarded', duplicate: true, balance: result.balance };
+        }
+        // New funds may cover an overdue server
+        if (amount > 0) await ServerLifecycleController.settleOverdueForUser(userId);
         return {
           success: true,
-          message: 'User coins updated successfully'
+          message: 'User coins updated successfully',
+          balance: result.balance
         };
       } else {
         return {
           success: false,
-          message: 'Failed to update user coins'
+          message: result.error === 'INSUFFICIENT_FUNDS' ? 'Insufficient coins' : 'Failed to update user coins'
         };
       }
     } catch (error) {
@@ -789,16 +808,22 @@ export class UserDetailsController {
         };
       }
 
-      // Hash new password
-      const saltRounds = 12;
-      const newPasswordHash = await bcrypt.hash(request.new_password, saltRounds);
-
-      // Update password in database
-      const updateData = {
-        password: newPasswordHash
-      };
+      // Apply the password policy, including the user's password history
+      const passwordErrors = await PasswordPolicyController.validateNewPassword(request.new_password, {
+        user: currentUser,
+        field: 'new_password'
+      });
+      if (passwordErrors.length > 0) {
+        return {
+          success: false,
+          message: passwordErrors[0].message,
+          errors: passwordErrors
+        };
+      }
 
-      const updatedUser = await userOperations.updateUser(request.user_id, updateData);
+      // Update password in database; the old hash moves into the password history
+      const passwordUpdated = await userOperations.updatePassword(request.user_id, request.new_password);
+      const updatedUser = passwordUpdated ? await userOperations.getUserById(request.user_id) : null;
 
       if (!updatedUser) {
         return {
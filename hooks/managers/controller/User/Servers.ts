@@ -8,6 +8,7 @@
 
 import { serverOperations, CreateServerData, UpdateServerData, ServerFilters } from '../../database/servers';
 import { userOperations } from '../../database/user';
+import { walletOperations } from '../../database/wallet';
 import { planOperations } from '../../database/plan';
 import { locationOperations } from '../../database/location';
 import { serverTypeOperations } from '../../database/server-type';
@@ -22,7 +23,9 @@ import {
   panelServerRestart,
   panelServerKill
 } from '../../pterodactyl/servers';
+import { CapacityCalculator } from '../../monitoring/capacity-calculator';
 import { parseBillingCycle } from '@/lib/billing-cycle';
+import { computePlanPrice, promoCodeErrorMessage } from '@/lib/pricing';
 import {
   CythroDashServer,
   ServerStatus,
@@ -42,6 +45,7 @@ export interface ServerCreationRequest {
   environment_variables?: Record<string, string>;
   startup_command?: string;
   docker_image?: string;
+  promo_code?: string;
 }
 
 // Server management response interface
@@ -120,9 +124,13 @@ export const ServersController = {
       }
 
       // Calculate total cost
-      const planPrice = plan.price || 0;
-      const setupFee = plan.setup_fee || 0;
-      const totalCost = planPrice + setupFee;
+      const pricing = computePlanPrice(plan, { promo_code: request.promo_code });
+      if (pricing.promo_code_error) {
+        return { success: false, message: promoCodeErrorMessage(pricing.promo_code_error) };
+      }
+      const planPrice = pricing.price;
+      const setupFee = pricing.setup_fee;
+      const totalCost = pricing.total;
       console.log('Cost calculation:', { planPrice, setupFee, totalCost, userCoins: user.coins });
 
       // Check user balance
@@ -158,6 +166,28 @@ export const ServersController = {
         return { success: false, message: 'Invalid server configuration references' };
       }
 
+      // Full locations are closed to new servers until capacity frees up
+      if (location.capacity_hold) {
+        return { success: false, message: `${location.name} is full right now. Please pick another location or try again later.` };
+      }
+
+      // Pick the node and allocation with the location's placement strategy
+      const nodeSelection = await CapacityCalculator.selectOptimalNode(
+        location.pterodactyl_location_id,
+        {
+          memory: plan.resources?.memory || 1024,
+          disk: plan.resources?.disk || 10240,
+          cpu: (plan.resources?.cpu || 1) * 100
+        },
+        true,
+        { user_id: userId }
+      );
+      if (!nodeSelection.success || !nodeSelection.selected_node) {
+        console.log('Node placement failed:', nodeSelection.error);
+        return { success: false, message: `No node in ${location.name} can host this server right now. Please pick another location or try again later.` };
+      }
+      const selectedNode = nodeSelection.selected_node;
+
       console.log('All references validated successfully, proceeding to server creation...');
 
       // Generate unique server ID
@@ -214,7 +244,8 @@ export const ServersController = {
           total_cost: 0,
           monthly_cost: planPrice,
           setup_fee_paid: setupFee,
-          billing_cycle: (plan as any).billing_cycle_value || plan.billing_cycle || 'monthly'
+          billing_cycle: (plan as any).billing_cycle_value || plan.billing_cycle || 'monthly',
+          discount: pricing.discount
         }
       } as any;
 
@@ -255,6 +286,34 @@ export const ServersController = {
         return { success: false, message: dbResult.message || 'Database operation failed' };
       }
 
+      // Charge before touching the panel; every failure below refunds this entry.
+      // A fully discounted plan without a setup fee has nothing to charge.
+      const charge = totalCost > 0
+        ? await walletOperations.debit({
+            user_id: userId,
+            amount: totalCost,
+            source_category: 'server_billing',
+            reference_id: serverId,
+            message: `Server creation: ${request.name} (Plan: ${plan.name}, Cost: ${totalCost} coins)`,
+            idempotency_key: `server_create:${serverId}`
+          })
+        : null;
+      if (charge && (!charge.success || !charge.entry)) {
+        await serverOperations.deleteServer(serverId, 'Payment failed', userId);
+        return {
+          success: false,
+          message: charge.error === 'INSUFFICIENT_FUNDS'
+            ? `Insufficient coins. You need ${totalCost} coins.`
+            : 'Failed to charge for the server'
+        };
+      }
+      const chargeEntry = charge?.entry;
+      const refundCreation = async () => {
+        if (!chargeEntry) return;
+        const refund = await walletOperations.reverse(chargeEntry, { message: `Refund: server ${request.name} could not be created` });
+        if (!refund.success) console.error(`Failed to refund server creation ${serverId}:`, refund.error);
+      };
+
       console.log('Server created in database successfully, proceeding to Pterodactyl...');
 
       try {
@@ -306,10 +365,8 @@ export const ServersController = {
             allocations: 1,
             backups: serverData.limits.backups
           },
-          deploy: {
-            locations: [location.pterodactyl_location_id],
-            dedicated_ip: false,
-            port_range: []
+          allocation: {
+            default: selectedNode.allocation_id
           }
         };
 
@@ -318,7 +375,9 @@ export const ServersController = {
           user: pterodactylData.user,
           egg: pterodactylData.egg,
           limits: pterodactylData.limits,
-          locations: pterodactylData.deploy.locations
+          node: selectedNode.node_id,
+          allocation: selectedNode.allocation_address,
+          strategy: nodeSelection.strategy
         });
 
         console.log('Calling Pterodactyl API to create server...');
@@ -333,7 +392,18 @@ export const ServersController = {
               server_id: serverId,
               user_id: userId,
               action: ServerLogAction.CREATE,
-              message: 'Server created',
+              message: `Server created on ${selectedNode.node_name} (${nodeSelection.strategy} placement)`,
+              details: {
+                placement: {
+                  strategy: nodeSelection.strategy,
+                  node_id: selectedNode.node_id,
+                  node_name: selectedNode.node_name,
+                  allocation_id: selectedNode.allocation_id,
+                  allocation: selectedNode.allocation_address,
+                  score: selectedNode.placement_score,
+                  reason: selectedNode.selection_reason
+                }
+              }
             })
           } catch {}
           console.log('Pterodactyl result:', {
@@ -355,6 +425,7 @@ export const ServersController = {
           });
 
           // Clean up database entry since Pterodactyl creation failed
+          await refundCreation();
           try {
             await serverOperations.deleteServer(serverId, 'Pterodactyl creation failed', userId);
             console.log('Cleaned up database entry after Pterodactyl failure');
@@ -377,10 +448,6 @@ export const ServersController = {
             status: ServerStatus.ACTIVE
           });
 
-          // Deduct coins from user
-          const deductionNote = `Server creation: ${request.name} (Plan: ${plan.name}, Cost: ${totalCost} coins)`;
-          await userOperations.updateCoins(userId, -totalCost, deductionNote);
-
           // Get updated server data
           const updatedServer = await serverOperations.getServerById(serverId);
 
@@ -399,6 +466,7 @@ export const ServersController = {
             status: ServerStatus.ERROR,
             creation_error: 'Failed to create server in game panel - no attributes returned'
           });
+          await refundCreation();
 
           return {
             success: false,
@@ -414,6 +482,7 @@ export const ServersController = {
           status: ServerStatus.ERROR,
           creation_error: `Pterodactyl error: ${pterodactylError instanceof Error ? pterodactylError.message : String(pterodactylError)}`
         });
+        await refundCreation();
 
         return {
           success: false,
@@ -0,0 +1,291 @@
+import { serverOperations } from '../../database/servers';
+import { walletOperations } from '../../database/wallet';
+import { planOperations } from '../../database/plan';
+import { userOperations } from '../../database/user';
+import { locationOperations } from '../../database/location';
+import { serverTypeOperations } from '../../database/server-type';
+import { panelServerGetDetails, panelServerUpdateBuild } from '../../pterodactyl/servers';
+import { CapacityCalculator } from '../../monitoring/capacity-calculator';
+import { CythroDashServer, ServerLimits, ServerStatus, BillingStatus } from '@/database/tables/cythro_dash_servers';
+import { CythroDashPlan, PlanHelpers } from '@/database/tables/cythro_dash_plans';
+import { ServerTypeHelpers } from '@/database/tables/cythro_dash_server_types';
+import { prorateRemaining, ProrationQuote } from '@/lib/billing-cycle';
+import { computeRecurringPrice, PlanPriceQuote } from '@/lib/pricing';
+import { hasPermission } from '@/lib/auth/permissions';
+
+export type PlanChangeError =
+  | 'SERVER_NOT_FOUND'
+  | 'ACCESS_DENIED'
+  | 'SERVER_NOT_ACTIVE'
+  | 'SAME_PLAN'
+  | 'PLAN_NOT_FOUND'
+  | 'PLAN_UNAVAILABLE'
+  | 'INSUFFICIENT_CAPACITY'
+  | 'DISK_IN_USE'
+  | 'INSUFFICIENT_COINS'
+  | 'PANEL_UPDATE_FAILED'
+  | 'UPDATE_FAILED';
+
+export interface PlanChangeQuote extends ProrationQuote {
+  from_plan: { id: string; name: string; price: number; billing_cycle: string };
+  to_plan: { id: string; name: string; price: number; billing_cycle: string };
+  next_billing_date: Date;
+  limits: ServerLimits;
+}
+
+export interface PlanChangeResult {
+  success: boolean;
+  message: string;
+  error?: PlanChangeError;
+  quote?: PlanChangeQuote;
+  server?: CythroDashServer;
+}
+
+interface PlanChangeRequester {
+  id: number;
+  permissions: string[];
+}
+
+interface PreparedChange {
+  server: CythroDashServer;
+  currentPlan: CythroDashPlan;
+  targetPlan: CythroDashPlan;
+  targetPricing: PlanPriceQuote;
+  quote: PlanChangeQuote;
+}
+
+function planCycle(plan: CythroDashPlan): string {
+  return String((plan as any).billing_cycle_value || plan.billing_cycle || '1month');
+}
+
+function limitsForPlan(plan: CythroDashPlan, current: ServerLimits): ServerLimits {
+  return {
+    memory: plan.resources?.memory || 1024,
+    disk: plan.resources?.disk || 10240,
+    cpu: plan.resources?.cpu || 1,
+    swap: plan.resources?.swap || 0,
+    io: plan.resources?.io || 500,
+    databases: plan.resources?.databases || 0,
+    allocations: current.allocations, // Allocations are managed separately from plans
+    backups: plan.resources?.backups || 0
+  };
+}
+
+export class PlanChangeController {
+  /**
+   * Price a plan change without applying it (for the confirmation dialog)
+   */
+  static async quote(serverId: string, requester: PlanChangeRequester, targetPlanId: string, now = new Date()): Promise<PlanChangeResult> {
+    const prepared = await this.prepare(serverId, requester, targetPlanId, now);
+    if ('error' in prepared) return prepared;
+    return { success: true, message: 'Plan change quote', quote: prepared.quote };
+  }
+
+  /**
+   * Move a server to another plan for the rest of its cycle. The owner pays (or gets back) the
+   * prorated difference, the panel build is updated, then the server record. Each step undoes the
+   * earlier ones if it fails, and the record only changes if nobody changed the plan meanwhile.
+   */
+  static async changePlan(serverId: string, requester: PlanChangeRequester, targetPlanId: string, now = new Date()): Promise<PlanChangeResult> {
+    const prepared = await this.prepare(serverId, requester, targetPlanId, now);
+    if ('error' in prepared) return prepared;
+    const { server, currentPlan, targetPlan, targetPricing, quote } = prepared;
+
+    // Same key for a double-submitted request; a later change starts from a newer updated_at
+    const changeKey = `${server.id}:${new Date(server.updated_at).getTime()}:${targetPlan.id}`;
+
+    const charge = quote.difference > 0
+      ? await walletOperations.debit({
+          user_id: server.user_id,
+          amount: quote.difference,
+          source_category: 'server_billing',
+          reference_id: server.id,
+          message: `Plan change ${currentPlan.name} -> ${targetPlan.name}`,
+          idempotency_key: `plan_change:${changeKey}`
+        })
+      : null;
+    if (charge && (!charge.success || !charge.entry)) {
+      return {
+        success: false,
+        message: charge.error === 'INSUFFICIENT_FUNDS' ? `Insufficient coins. Required: ${quote.difference}` : 'Failed to charge for the plan change',
+        error: 'INSUFFICIENT_COINS',
+        quote
+      };
+    }
+    if (charge?.duplicate) {
+      return { success: false, message: 'This plan change was already applied', error: 'UPDATE_FAILED', quote };
+    }
+    const refundCharge = async (reason: string) => {
+      if (!charge?.entry) return;
+      const refund = await walletOperations.reverse(charge.entry, { message: `Refund: ${reason}` });
+      if (!refund.success) console.error(`Failed to refund plan change for ${server.id}:`, refund.error);
+    };
+
+    if (server.pterodactyl_server_id) {
+      try {
+        await this.pushBuild(server.pterodactyl_server_id, quote.limits);
+      } catch (e) {
+        console.error(`Plan change: panel build update failed for ${server.id}:`, e);
+        await refundCharge('plan change could not be applied in the panel');
+        return { success: false, message: 'Failed to update server resources in the game panel', error: 'PANEL_UPDATE_FAILED', quote };
+      }
+    }
+
+    const applied = await serverOperations.applyPlanChange(server, {
+      plan_id: targetPlan.id,
+      limits: quote.limits,
+      monthly_cost: targetPricing.price,
+      billing_cycle: planCycle(targetPlan),
+      amount: quote.difference,
+      discount: targetPricing.discount
+    }, now);
+    if (!applied) {
+      if (server.pterodactyl_server_id) {
+        try { await this.pushBuild(server.pterodactyl_server_id, server.limits); } catch (e) {
+          console.error(`Plan change: failed to restore panel build for ${server.id}:`, e);
+        }
+      }
+      await refundCharge('server was changed by another request');
+      return { success: false, message: 'Server was updated by another request, nothing was charged', error: 'UPDATE_FAILED', quote };
+    }
+
+    if (quote.difference < 0) {
+      const refund = await walletOperations.credit({
+        user_id: server.user_id,
+        amount: -quote.difference,
+        source_category: 'server_billing',
+        reference_id: server.id,
+        message: `Plan change credit ${currentPlan.name} -> ${targetPlan.name}`,
+        idempotency_key: `plan_change_credit:${changeKey}`
+      });
+      if (!refund.success) console.error(`Plan change: failed to credit ${server.user_id} for ${server.id}:`, refund.error);
+    }
+
+    try {
+      const { serverLogsOperations } = await import('@/hooks/managers/database/server-logs');
+      const { ServerLogAction } = await import('@/database/tables/cythro_dash_server_logs');
+      await serverLogsOperations.log({
+        server_id: server.id,
+        user_id: requester.id,
+        action: ServerLogAction.PLAN_CHANGE,
+        message: `Plan changed from ${currentPlan.name} to ${targetPlan.name}`,
+        details: {
+          from_plan: currentPlan.id,
+          to_plan: targetPlan.id,
+          credit: quote.credit,
+          cost: quote.cost,
+          difference: quote.difference
+        }
+      });
+    } catch {}
+
+    return {
+      success: true,
+      message: `Plan changed to ${targetPlan.name}`,
+      quote,
+      server: await serverOperations.getServerById(server.id) || undefined
+    };
+  }
+
+  /** Load everything and run every check that does not change state */
+  private static async prepare(serverId: string, requester: PlanChangeRequester, targetPlanId: string, now: Date): Promise<PreparedChange | PlanChangeResult & { error: PlanChangeError }> {
+    const server = await serverOperations.getServerById(serverId);
+    if (!server) return { success: false, message: 'Server not found', error: 'SERVER_NOT_FOUND' };
+    if (server.user_id !== requester.id && !hasPermission(requester.permissions, 'servers.write')) {
+      return { success: false, message: 'Access denied', error: 'ACCESS_DENIED' };
+    }
+    if (server.status !== ServerStatus.ACTIVE || server.billing_status !== BillingStatus.ACTIVE) {
+      return { success: false, message: 'Only active servers with no overdue balance can change plans', error: 'SERVER_NOT_ACTIVE' };
+    }
+    if (server.billing.plan_id === targetPlanId) {
+      return { success: false, message: 'Server is already on this plan', error: 'SAME_PLAN' };
+    }
+
+    const [currentPlan, targetPlan, owner, serverType, location] = await Promise.all([
+      planOperations.getPlanById(server.billing.plan_id),
+      planOperations.getPlanById(targetPlanId),
+      userOperations.getUserById(server.user_id),
+      serverTypeOperations.getServerTypeById(server.server_type_id),
+      locationOperations.getLocationById(server.location_id)
+    ]);
+    if (!currentPlan || !targetPlan) return { success: false, message: 'Plan not found', error: 'PLAN_NOT_FOUND' };
+    if (!owner) return { success: false, message: 'Server owner not found', error: 'SERVER_NOT_FOUND' };
+
+    // Same restrictions as picking the plan for a new server here
+    const unavailable = (message: string) => ({ success: false as const, message, error: 'PLAN_UNAVAILABLE' as const });
+    if (!PlanHelpers.isAvailableInLocation(targetPlan, server.location_id)) return unavailable('Plan is not available in this server\'s location');
+    if (!PlanHelpers.canUserAccessPlan(targetPlan, owner.role, owner.verified)) return unavailable('Plan is not available for this account');
+    const restrictions = targetPlan.restrictions || {};
+    if (restrictions.allowed_server_types?.length && !restrictions.allowed_server_types.includes(server.server_type_id)) {
+      return unavailable('Plan does not support this server type');
+    }
+    if (restrictions.blocked_server_types?.includes(server.server_type_id)) return unavailable('Plan does not support this server type');
+    if (serverType) {
+      if (!ServerTypeHelpers.isCompatibleWithPlan(serverType, targetPlan.id)) return unavailable('Server type does not support this plan');
+      const min = serverType.resource_requirements;
+      if (min && ((targetPlan.resources?.memory || 0) < min.min_memory || (targetPlan.resources?.disk || 0) < min.min_disk)) {
+        return unavailable('Plan does not meet the minimum resources of this server type');
+      }
+    }
+
+    const limits = limitsForPlan(targetPlan, server.limits);
+    if ((server.current_usage?.disk || 0) > limits.disk) {
+      return { success: false, message: `Server uses ${server.current_usage.disk} MB of disk, more than the plan allows`, error: 'DISK_IN_USE' };
+    }
+
+    const extraMemory = Math.max(0, limits.memory - server.limits.memory);
+    const extraDisk = Math.max(0, limits.disk - server.limits.disk);
+    if ((extraMemory > 0 || extraDisk > 0) && location) {
+      const capacity = await CapacityCalculator.checkLocationCapacity(location.pterodactyl_location_id, { memory: extraMemory, disk: extraDisk });
+      if (!capacity.can_accommodate) {
+        return { success: false, message: 'Not enough capacity in this location for the new plan', error: 'INSUFFICIENT_CAPACITY' };
+      }
+    }
+
+    // The unused part of the cycle is credited at what was charged for it; a promo code used on
+    // the current plan carries over if the new plan accepts it
+    const currentPrice = server.billing.monthly_cost ?? computeRecurringPrice(currentPlan, server.billing.discount, now).price;
+    const targetPricing = computeRecurringPrice(targetPlan, server.billing.discount, now);
+    const nextBillingDate = new Date(server.billing.next_billing_date);
+    const proration = prorateRemaining(
+      { price: currentPrice, cycle: planCycle(currentPlan) },
+      { price: targetPricing.price, cycle: planCycle(targetPlan) },
+      nextBillingDate,
+      now
+    );
+
+    return {
+      server,
+      currentPlan,
+      targetPlan,
+      targetPricing,
+      quote: {
+        ...proration,
+        from_plan: { id: currentPlan.id, name: currentPlan.name, price: currentPrice, billing_cycle: planCycle(currentPlan) },
+        to_plan: { id: targetPlan.id, name: targetPlan.name, price: targetPricing.price, billing_cycle: planCycle(targetPlan) },
+        next_billing_date: nextBillingDate,
+        limits
+      }
+    };
+  }
+
+  /** Push limits to the panel; the build endpoint needs the current primary allocation */
+  private static async pushBuild(panelServerId: number, limits: ServerLimits): Promise<void> {
+    const details = await panelServerGetDetails(panelServerId);
+    const allocation = details.attributes?.allocation;
+    if (!allocation) throw new Error('Primary allocation not found');
+    await panelServerUpdateBuild(panelServerId, {
+      allocation,
+      memory: limits.memory,
+      swap: limits.swap,
+      disk: limits.disk,
+      io: limits.io,
+      cpu: limits.cpu * 100,
+      feature_limits: {
+        databases: limits.databases,
+        allocations: limits.allocations,
+        backups: limits.backups
+      }
+    });
+  }
+}
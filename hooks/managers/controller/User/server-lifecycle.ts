@@ -1,8 +1,29 @@
 import { serverOperations } from '../../database/servers';
+import { walletOperations, WalletResult } from '../../database/wallet';
 import { planOperations } from '../../database/plan';
-import { CythroDashServer, ServerStatus, BillingStatus } from '@/database/tables/cythro_dash_servers';
+import { CythroDashServer, ServerStatus, BillingStatus, AppliedDiscount } from '@/database/tables/cythro_dash_servers';
 import { parseBillingCycle, addCycle } from '@/lib/billing-cycle';
-import { panelServerSuspend, panelServerDelete } from '../../pterodactyl/servers';
+import { computeRecurringPrice } from '@/lib/pricing';
+import { panelServerSuspend, panelServerUnsuspend, panelServerDelete } from '../../pterodactyl/servers';
+import { mailService } from '@/lib/mail';
+import { getPublicFlag } from '@/lib/public-settings';
+import {
+  LifecyclePolicy,
+  getGlobalLifecyclePolicy,
+  resolveLifecyclePolicy,
+  suspensionDueAt,
+  deletionDueAt,
+  retentionEndsAt
+} from '@/lib/lifecycle-policy';
+
+export interface SettleOverdueResult {
+  success: boolean;
+  message: string;
+  error?: 'SERVER_NOT_FOUND' | 'NOT_OVERDUE' | 'PLAN_NOT_FOUND' | 'INSUFFICIENT_COINS' | 'UPDATE_FAILED';
+  amount_charged?: number;
+  new_expiry_date?: Date;
+  discount?: AppliedDiscount | null;
+}
 
 export class ServerLifecycleController {
   /**
@@ -36,80 +57,116 @@ export class ServerLifecycleController {
 
   /**
    * Process recurring billing for servers with next_billing_date due. Attempts to charge per cycle.
-   * On insufficient balance, marks server as suspended and sets overdue amount.
+   * On insufficient balance the server is marked overdue and retried on later runs; it is only
+   * suspended once the policy's suspension grace period has passed.
    */
-  static async processBillingCycles(now = new Date()): Promise<{ processed: number; charged: number; suspended: number; errors: number; logs: string[] }> {
+  static async processBillingCycles(now = new Date()): Promise<{ processed: number; charged: number; overdue: number; suspended: number; errors: number; logs: string[] }> {
     const logs: string[] = []
-    let processed = 0, charged = 0, suspended = 0, errors = 0
+    let processed = 0, charged = 0, overdue = 0, suspended = 0, errors = 0
     try {
       const due = await serverOperations.findServersBillingDue(now)
+      const globalPolicy = await getGlobalLifecyclePolicy()
       for (const s of due) {
         processed++
         try {
           const plan = await planOperations.getPlanById(s.billing.plan_id)
           if (!plan) { logs.push(`No plan for server ${s.id}`); continue }
+          const policy = resolveLifecyclePolicy(globalPolicy, plan)
           const cycleStr = (plan as any).billing_cycle_value || (plan as any).billing_cycle || 'monthly'
           const parsed = parseBillingCycle(String(cycleStr))
 
           // Walk cycles until next_billing_date is in the future
           let next = s.billing.next_billing_date ? new Date(s.billing.next_billing_date) : now
           if (isNaN(next.getTime())) next = now
+          let paid = false
+          // What the server record says the last charged cycle cost, restored if a debit fails
+          let recordedPricing = { monthly_cost: s.billing.monthly_cost, discount: s.billing.discount }
 
           while (next <= now) {
-            // Attempt to charge user
-            const amount = plan.price
+            // Attempt to charge user at the price in effect when the cycle started
+            const pricing = computeRecurringPrice(plan, s.billing.discount, next)
+            const amount = pricing.price
             try {
-              const { userOperations } = await import('../../database/user')
-              const ok = await userOperations.updateCoins(s.user_id, -amount, `Server ${s.id} billing`)
-              if (!ok) throw new Error('Debit failed')
+              // Claim the cycle first so overlapping runs cannot charge it twice
               const newNext = addCycle(next, String(cycleStr))
-              const ok2 = await serverOperations.applyBillingCharge(s.id, amount, newNext, now)
-              if (!ok2) throw new Error('applyBillingCharge failed')
+              const claimed = await serverOperations.applyBillingCharge(s.id, amount, newNext, now, next, pricing.discount)
+              if (!claimed) {
+                logs.push(`Billing for ${s.id} already processed`)
+                break
+              }
+              const charge = amount > 0
+                ? await walletOperations.debit({
+                    user_id: s.user_id,
+                    amount,
+                    source_category: 'server_billing',
+                    reference_id: s.id,
+                    message: `Server ${s.id} billing`,
+                    idempotency_key: `server_billing:${s.id}:${next.getTime()}`
+                  })
+                : { success: true } as WalletResult // Nothing to charge for a fully discounted cycle
+              if (!charge.success) {
+                await serverOperations.revertBillingCharge(s.id, amount, next, newNext, recordedPricing)
+                throw new Error(`Debit failed: ${charge.error}`)
+              }
               // Optionally align expiry_date to next billing date
               await serverOperations.updateServer(s.id, { expiry_date: newNext } as any)
               charged++
+              paid = true
+              recordedPricing = { monthly_cost: amount, discount: pricing.discount }
               next = newNext
             } catch (e) {
-              // Insufficient balance or debit error: compute overdue and suspend
+              // Insufficient balance or debit error: record overdue, suspend once the grace period is over
               const remainingCycles = Math.max(1, Math.ceil((now.getTime() - next.getTime()) / parsed.ms))
-              const overdueAmount = plan.price * remainingCycles
-              const autoDeleteAt = new Date(now.getTime() + 24 * 60 * 60 * 1000)
+              const overdueAmount = computeRecurringPrice(plan, s.billing.discount, now).price * remainingCycles
+              const suspendAt = suspensionDueAt(next, policy)
+              if (now < suspendAt) {
+                await serverOperations.markServerOverdue(s.id, overdueAmount)
+                logs.push(`Server ${s.id} overdue (${overdueAmount}), suspends at ${suspendAt.toISOString()}`)
+                overdue++
+                break
+              }
               await serverOperations.updateServer(s.id, { billing: { overdue_amount: overdueAmount } as any } as any)
-              const okSuspend = await serverOperations.markServerSuspended(s.id, 'Insufficient balance', 0, autoDeleteAt)
+              const okSuspend = await this.suspendServer(s, 'Insufficient balance', 'insufficient balance', policy, now, logs, overdueAmount)
               if (!okSuspend) logs.push(`Failed to mark suspended ${s.id}`)
               suspended++
               break
             }
           }
+
+          // Caught up within the grace period
+          if (paid && next > now && s.billing_status === BillingStatus.OVERDUE) {
+            await serverOperations.clearServerOverdue(s.id)
+          }
         } catch (err) {
           errors++
           logs.push(`Billing error for ${s.id}: ${String(err)}`)
         }
       }
-      return { processed, charged, suspended, errors, logs }
+      return { processed, charged, overdue, suspended, errors, logs }
     } catch (e) {
       logs.push(`processBillingCycles fatal: ${String(e)}`)
-      return { processed, charged, suspended, errors: ++errors, logs }
+      return { processed, charged, overdue, suspended, errors: ++errors, logs }
     }
   }
 
   /**
-   * Suspend servers whose expiry_date has passed. Sets auto_delete_at to +24h.
+   * Suspend servers whose expiry_date is past the policy's suspension grace period.
+   * auto_delete_at is set from the policy's suspension-to-deletion window.
    */
-  static async suspendExpired(now = new Date()): Promise<{ processed: number; errors: number; logs: string[] }> {
+  static async suspendExpired(now = new Date()): Promise<{ processed: number; in_grace: number; errors: number; logs: string[] }> {
     const logs: string[] = [];
-    let processed = 0, errors = 0;
+    let processed = 0, inGrace = 0, errors = 0;
     try {
       const servers = await serverOperations.findExpiredActiveServers(now);
+      const policyFor = await this.createPolicyLookup();
       for (const server of servers) {
         try {
-          if (server.pterodactyl_server_id) {
-            try { await panelServerSuspend(server.pterodactyl_server_id); } catch (e) {
-              logs.push(`Suspend panel failed for ${server.id}: ${String(e)}`);
-            }
+          const policy = await policyFor(server.billing?.plan_id);
+          if (server.expiry_date && now < suspensionDueAt(new Date(server.expiry_date), policy)) {
+            inGrace++;
+            continue;
           }
-          const autoDeleteAt = new Date(now.getTime() + 24 * 60 * 60 * 1000);
-          const ok = await serverOperations.markServerSuspended(server.id, 'Billing expired', 0, autoDeleteAt);
+          const ok = await this.suspendServer(server, 'Billing expired', 'billing period expired', policy, now, logs);
           if (!ok) throw new Error('DB update failed');
           processed++;
         } catch (err) {
@@ -117,37 +174,242 @@ export class ServerLifecycleController {
           logs.push(`Error suspending ${server.id}: ${String(err)}`);
         }
       }
-      return { processed, errors, logs };
+      return { processed, in_grace: inGrace, errors, logs };
     } catch (e) {
       logs.push(`suspendExpired fatal: ${String(e)}`);
-      return { processed, errors: ++errors, logs };
+      return { processed, in_grace: inGrace, errors: ++errors, logs };
     }
   }
 
   /**
-   * Permanently delete servers suspended for >24h.
+   * Terminate servers whose suspension window has ended. With data retention enabled the panel
+   * server stays suspended until purgeRetainedData removes it; otherwise it is deleted right away.
    */
-  static async deleteAfterGrace(now = new Date()): Promise<{ processed: number; errors: number; logs: string[] }> {
+  static async deleteAfterGrace(now = new Date()): Promise<{ processed: number; terminated: number; errors: number; logs: string[] }> {
     const logs: string[] = [];
-    let processed = 0, errors = 0;
+    let processed = 0, terminated = 0, errors = 0;
     try {
       const servers = await serverOperations.findSuspendedDueDeletion(now);
+      const policyFor = await this.createPolicyLookup();
       const { ServersController } = await import('./Servers');
       for (const server of servers) {
         try {
+          const policy = await policyFor(server.billing?.plan_id);
+          const retainUntil = retentionEndsAt(now, policy);
+          if (retainUntil) {
+            const ok = await serverOperations.markServerTerminated(server.id, 'Not renewed before the suspension period ended', retainUntil);
+            if (!ok) throw new Error('DB update failed');
+            await this.notifyTerminated(server, 'it was not renewed before the suspension period ended', retainUntil);
+            terminated++;
+            continue;
+          }
           const result = await ServersController.deleteServer(server.user_id, server.id);
           if (!result.success) throw new Error(result.message || 'Delete failed');
+          await this.notifyDeleted(server, 'it was not renewed before the grace period ended');
           processed++;
         } catch (err) {
           errors++;
           logs.push(`Error deleting ${server.id}: ${String(err)}`);
         }
       }
-      return { processed, errors, logs };
+      return { processed, terminated, errors, logs };
     } catch (e) {
       logs.push(`deleteAfterGrace fatal: ${String(e)}`);
+      return { processed, terminated, errors: ++errors, logs };
+    }
+  }
+
+  /**
+   * Delete the panel servers of terminated servers whose data retention has ended.
+   */
+  static async purgeRetainedData(now = new Date()): Promise<{ processed: number; errors: number; logs: string[] }> {
+    const logs: string[] = [];
+    let processed = 0, errors = 0;
+    try {
+      const servers = await serverOperations.findTerminatedDueDataPurge(now);
+      for (const server of servers) {
+        try {
+          if (server.pterodactyl_server_id) {
+            await panelServerDelete(server.pterodactyl_server_id);
+          }
+          const ok = await serverOperations.markServerDataPurged(server.id);
+          if (!ok) throw new Error('DB update failed');
+          await this.notifyDeleted(server, 'its data retention period ended');
+          processed++;
+        } catch (err) {
+          errors++;
+          logs.push(`Error purging ${server.id}: ${String(err)}`);
+        }
+      }
+      return { processed, errors, logs };
+    } catch (e) {
+      logs.push(`purgeRetainedData fatal: ${String(e)}`);
       return { processed, errors: ++errors, logs };
     }
   }
+
+  /**
+   * Pay a server's overdue amount from its owner's balance and bring it back: the charge is a
+   * conditional debit, the server update only applies if nobody settled it in the meantime
+   * (otherwise the charge is refunded), and billing-suspended servers are unsuspended on the panel.
+   */
+  static async settleOverdue(serverId: string, now = new Date()): Promise<SettleOverdueResult> {
+    const server = await serverOperations.getServerById(serverId);
+    if (!server) return { success: false, message: 'Server not found', error: 'SERVER_NOT_FOUND' };
+
+    const amount = server.billing?.overdue_amount || 0;
+    const billingSuspended = server.status === ServerStatus.SUSPENDED && server.billing_status === BillingStatus.SUSPENDED;
+    const inGrace = server.status === ServerStatus.ACTIVE && server.billing_status === BillingStatus.OVERDUE;
+    if (amount <= 0 || (!billingSuspended && !inGrace)) {
+      return { success: false, message: 'No overdue amount to pay', error: 'NOT_OVERDUE' };
+    }
+
+    const plan = await planOperations.getPlanById(server.billing.plan_id);
+    if (!plan) return { success: false, message: 'Server plan not found', error: 'PLAN_NOT_FOUND' };
+
+    const charge = await walletOperations.debit({
+      user_id: server.user_id,
+      amount,
+      source_category: 'server_billing',
+      reference_id: server.id,
+      message: `Server ${server.id} overdue payment`
+    });
+    if (!charge.success || !charge.entry) {
+      return { success: false, message: `Insufficient coins. Required: ${amount}`, error: 'INSUFFICIENT_COINS' };
+    }
+
+    const cycleStr = (plan as any).billing_cycle_value || (plan as any).billing_cycle || '1month';
+    const nextBillingDate = addCycle(now, String(cycleStr));
+    const settled = await serverOperations.settleOverdueServer(server, now, nextBillingDate);
+    if (!settled) {
+      await walletOperations.reverse(charge.entry, { message: `Refund: server ${server.id} was already settled` });
+      return { success: false, message: 'Server was updated by another request, nothing was charged', error: 'UPDATE_FAILED' };
+    }
+
+    if (billingSuspended && server.pterodactyl_server_id) {
+      try { await panelServerUnsuspend(server.pterodactyl_server_id); } catch (e) {
+        // The database is already settled; the panel can be unsuspended by an admin
+        console.warn(`Failed to unsuspend server ${server.id} in panel:`, e);
+      }
+    }
+
+    try {
+      const { serverLogsOperations } = await import('@/hooks/managers/database/server-logs');
+      const { ServerLogAction } = await import('@/database/tables/cythro_dash_server_logs');
+      await serverLogsOperations.log({
+        server_id: server.id,
+        user_id: server.user_id,
+        action: ServerLogAction.UNSUSPEND,
+        message: `Overdue balance of ${amount} coins paid`,
+        details: { amount, was_suspended: billingSuspended }
+      });
+    } catch {}
+
+    return { success: true, message: 'Overdue balance paid', amount_charged: amount, new_expiry_date: nextBillingDate, discount: server.billing.discount || null };
+  }
+
+  /**
+   * Settle as many of a user's overdue servers as their balance allows, most urgent first.
+   * Called after balance increases; never throws.
+   */
+  static async settleOverdueForUser(userId: number): Promise<{ settled: string[] }> {
+    const settled: string[] = [];
+    try {
+      if (!(await getPublicFlag('NEXT_PUBLIC_AUTO_SETTLE_OVERDUE', true))) return { settled };
+      const servers = await serverOperations.findOverdueServersByUser(userId);
+      for (const server of servers) {
+        const result = await this.settleOverdue(server.id);
+        if (result.success) settled.push(server.id);
+      }
+    } catch (e) {
+      console.error('settleOverdueForUser error:', e);
+    }
+    return { settled };
+  }
+
+  /** Suspend in the panel and the database, schedule deletion per policy and notify the owner */
+  private static async suspendServer(server: CythroDashServer, reason: string, notifyReason: string, policy: LifecyclePolicy, now: Date, logs: string[], amountDue?: number): Promise<boolean> {
+    if (server.pterodactyl_server_id) {
+      try { await panelServerSuspend(server.pterodactyl_server_id); } catch (e) {
+        logs.push(`Suspend panel failed for ${server.id}: ${String(e)}`);
+      }
+    }
+    const autoDeleteAt = deletionDueAt(now, policy);
+    const ok = await serverOperations.markServerSuspended(server.id, reason, 0, autoDeleteAt);
+    if (ok) await this.notifySuspended(server, notifyReason, autoDeleteAt, amountDue);
+    return ok;
+  }
+
+  /** Per-run policy lookup so each plan is only loaded once */
+  private static async createPolicyLookup(): Promise<(planId?: string) => Promise<LifecyclePolicy>> {
+    const global = await getGlobalLifecyclePolicy();
+    const cache = new Map<string, LifecyclePolicy>();
+    return async (planId?: string) => {
+      if (!planId) return global;
+      let policy = cache.get(planId);
+      if (!policy) {
+        policy = resolveLifecyclePolicy(global, await planOperations.getPlanById(planId));
+        cache.set(planId, policy);
+      }
+      return policy;
+    };
+  }
+
+  /** Email the owner that their server is suspended and when it will be deleted */
+  private static async notifySuspended(server: CythroDashServer, reason: string, deleteAt?: Date, amountDue?: number): Promise<void> {
+    try {
+      const owner = await this.getOwner(server.user_id);
+      if (!owner) return;
+      const appUrl = await mailService.getAppUrl();
+      await mailService.sendTemplate(owner.email, 'suspension_warning', {
+        name: owner.name,
+        server_name: server.name,
+        reason,
+        delete_at: deleteAt,
+        amount_due: amountDue,
+        renew_url: `${appUrl}/servers/${server.id}`
+      });
+    } catch (e) {
+      console.error('notifySuspended error:', e);
+    }
+  }
+
+  /** Email the owner that their server was terminated and how long its files are kept */
+  private static async notifyTerminated(server: CythroDashServer, reason: string, retainedUntil: Date): Promise<void> {
+    try {
+      const owner = await this.getOwner(server.user_id);
+      if (!owner) return;
+      await mailService.sendTemplate(owner.email, 'server_terminated', {
+        name: owner.name,
+        server_name: server.name,
+        reason,
+        retained_until: retainedUntil
+      });
+    } catch (e) {
+      console.error('notifyTerminated error:', e);
+    }
+  }
+
+  /** Email the owner that their server was removed */
+  private static async notifyDeleted(server: CythroDashServer, reason: string): Promise<void> {
+    try {
+      const owner = await this.getOwner(server.user_id);
+      if (!owner) return;
+      await mailService.sendTemplate(owner.email, 'server_deleted', {
+        name: owner.name,
+        server_name: server.name,
+        reason
+      });
+    } catch (e) {
+      console.error('notifyDeleted error:', e);
+    }
+  }
+
+  private static async getOwner(userId: number): Promise<{ email: string; name: string } | null> {
+    const { userOperations } = await import('../../database/user');
+    const user = await userOperations.getUserById(userId);
+    if (!user || user.deleted) return null;
+    return { email: user.email, name: user.display_name || user.first_name || user.username };
+  }
 }
 
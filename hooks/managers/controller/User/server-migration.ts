@@ -0,0 +1,777 @@
+import { serverOperations } from '../../database/servers';
+import { walletOperations } from '../../database/wallet';
+import { planOperations } from '../../database/plan';
+import { locationOperations } from '../../database/location';
+import { serverMigrationsOperations } from '../../database/server-migrations';
+import {
+  panelServerCreate,
+  panelServerDelete,
+  panelServerGetByNode,
+  panelServerGetDetails,
+  panelServerSuspend,
+  panelServerTransfer,
+  PterodactylError
+} from '../../pterodactyl/servers';
+import { panelNodeGetDetails } from '../../pterodactyl/nodes';
+import { CapacityCalculator, NodeSelectionResult } from '../../monitoring/capacity-calculator';
+import { CythroDashServer, ServerStatus, BillingStatus } from '@/database/tables/cythro_dash_servers';
+import { CythroDashLocation, LocationHelpers, NodePlacementStrategy } from '@/database/tables/cythro_dash_locations';
+import { PlanHelpers } from '@/database/tables/cythro_dash_plans';
+import {
+  CythroDashServerMigration,
+  ServerMigrationMode,
+  ServerMigrationReason,
+  ServerMigrationState
+} from '@/database/tables/cythro_dash_server_migrations';
+import { getMigrationPolicy } from '@/lib/migration-policy';
+
+// How long a step may take before the migration is rolled back
+const PROVISION_TIMEOUT_MS = 60 * 60 * 1000;
+const TRANSFER_TIMEOUT_MS = 6 * 60 * 60 * 1000;
+
+export type ServerMigrationError =
+  | 'SERVER_NOT_FOUND'
+  | 'ACCESS_DENIED'
+  | 'MIGRATION_DISABLED'
+  | 'SERVER_NOT_ACTIVE'
+  | 'MIGRATION_IN_PROGRESS'
+  | 'LOCATION_NOT_FOUND'
+  | 'LOCATION_UNAVAILABLE'
+  | 'SAME_LOCATION'
+  | 'NO_CAPACITY'
+  | 'INSUFFICIENT_COINS'
+  | 'MIGRATION_NOT_FOUND'
+  | 'CANNOT_CANCEL'
+  | 'ACKNOWLEDGEMENT_REQUIRED'
+  | 'SOURCE_NOT_RETAINED'
+  | 'PANEL_ERROR';
+
+/** HTTP status for each error, shared by the user and admin routes */
+export const MIGRATION_ERROR_STATUS: Record<ServerMigrationError, number> = {
+  SERVER_NOT_FOUND: 404,
+  ACCESS_DENIED: 403,
+  MIGRATION_DISABLED: 403,
+  SERVER_NOT_ACTIVE: 400,
+  MIGRATION_IN_PROGRESS: 409,
+  LOCATION_NOT_FOUND: 404,
+  LOCATION_UNAVAILABLE: 400,
+  SAME_LOCATION: 400,
+  NO_CAPACITY: 409,
+  INSUFFICIENT_COINS: 400,
+  MIGRATION_NOT_FOUND: 404,
+  CANNOT_CANCEL: 409,
+  ACKNOWLEDGEMENT_REQUIRED: 400,
+  SOURCE_NOT_RETAINED: 409,
+  PANEL_ERROR: 502
+};
+
+export interface ServerMigrationQuote {
+  price: number;
+  mode: ServerMigrationMode;
+  files_copied: boolean;
+  from_location: { id: string; name: string };
+  to_location: { id: string; name: string };
+}
+
+export interface ServerMigrationView {
+  id: string;
+  server_id: string;
+  user_id: number;
+  requested_by: number;
+  reason: ServerMigrationReason;
+  mode: ServerMigrationMode;
+  state: ServerMigrationState;
+  active: boolean;
+  source: CythroDashServerMigration['source'];
+  target: CythroDashServerMigration['target'];
+  price: number;
+  source_retained: boolean;
+  error?: string;
+  created_at: Date;
+  updated_at: Date;
+  completed_at?: Date;
+}
+
+export interface ServerMigrationResult {
+  success: boolean;
+  message: string;
+  error?: ServerMigrationError;
+  quote?: ServerMigrationQuote;
+  migration?: ServerMigrationView;
+}
+
+export interface MigrationModeInfo {
+  mode: ServerMigrationMode;
+  files_copied: boolean;
+}
+
+export interface NodeDrainResult extends MigrationModeInfo {
+  success: boolean;
+  message: string;
+  error?: ServerMigrationError;
+  queued: Array<{ server_id: string; migration_id: string; target_node?: string }>;
+  skipped: Array<{ pterodactyl_server_id: number; server_id?: string; reason: string }>;
+}
+
+export interface MigrationProcessingResult {
+  processed: number;
+  completed: number;
+  rolled_back: number;
+  failed: number;
+}
+
+interface MigrationRequester {
+  id: number;
+}
+
+interface PreparedMigration {
+  server: CythroDashServer;
+  sourceLocation: CythroDashLocation;
+  targetLocation: CythroDashLocation;
+  sourceNodeId: number;
+  selection: NonNullable<NodeSelectionResult['selected_node']>;
+  strategy: NodePlacementStrategy;
+  mode: ServerMigrationMode;
+}
+
+type Failure = ServerMigrationResult & { success: false; error: ServerMigrationError };
+
+const fail = (error: ServerMigrationError, message: string): Failure => ({ success: false, message, error });
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function toMigrationView(migration: CythroDashServerMigration): ServerMigrationView {
+  return {
+    id: String(migration._id),
+    server_id: migration.server_id,
+    user_id: migration.user_id,
+    requested_by: migration.requested_by,
+    reason: migration.reason,
+    mode: migration.mode,
+    state: migration.state,
+    active: migration.active,
+    source: migration.source,
+    target: migration.target,
+    price: migration.charge ? Math.abs(migration.charge.delta) : 0,
+    source_retained: migration.source_retained === true,
+    error: migration.error,
+    created_at: migration.created_at,
+    updated_at: migration.updated_at,
+    completed_at: migration.completed_at
+  };
+}
+
+async function logStep(migration: CythroDashServerMigration, message: string, details: Record<string, any> = {}, actorId?: number): Promise<void> {
+  try {
+    const { serverLogsOperations } = await import('@/hooks/managers/database/server-logs');
+    const { ServerLogAction } = await import('@/database/tables/cythro_dash_server_logs');
+    await serverLogsOperations.log({
+      server_id: migration.server_id,
+      user_id: actorId ?? migration.requested_by,
+      action: ServerLogAction.MIGRATION,
+      message,
+      details: { migration_id: String(migration._id), mode: migration.mode, ...details },
+      pterodactyl_server_id: migration.source.pterodactyl_server_id
+    });
+  } catch {}
+}
+
+export class ServerMigrationController {
+  /** How migrations are currently carried out; recreate mode does not copy files */
+  static async getModeInfo(): Promise<MigrationModeInfo> {
+    const policy = await getMigrationPolicy();
+    const mode = policy.panel_transfer ? ServerMigrationMode.TRANSFER : ServerMigrationMode.RECREATE;
+    return { mode, files_copied: mode === ServerMigrationMode.TRANSFER };
+  }
+
+  /**
+   * Price a user's move to another location without starting it (for the confirmation dialog)
+   */
+  static async quote(serverId: string, requester: MigrationRequester, targetLocationId: string): Promise<ServerMigrationResult> {
+    const policy = await getMigrationPolicy();
+    if (!policy.user_enabled) return fail('MIGRATION_DISABLED', 'Server migration is not available');
+
+    const prepared = await this.prepare(serverId, { location_id: targetLocationId }, requester, false);
+    if ('error' in prepared) return prepared;
+    return { success: true, message: 'Migration quote', quote: this.buildQuote(prepared, policy.price) };
+  }
+
+  /**
+   * Move a user's own server to another location. The price is charged up front and refunded
+   * if the migration rolls back.
+   */
+  static async requestByUser(serverId: string, requester: MigrationRequester, targetLocationId: string): Promise<ServerMigrationResult> {
+    const policy = await getMigrationPolicy();
+    if (!policy.user_enabled) return fail('MIGRATION_DISABLED', 'Server migration is not available');
+
+    const prepared = await this.prepare(serverId, { location_id: targetLocationId }, requester, false);
+    if ('error' in prepared) return prepared;
+    const quote = this.buildQuote(prepared, policy.price);
+
+    // Same key for a double-submitted request; a retry after a rollback follows a newer migration
+    const [previous] = await serverMigrationsOperations.list({ server_id: prepared.server.id, limit: 1 });
+    const requestKey = `${prepared.server.id}:${previous ? String(previous._id) : 'first'}:${prepared.targetLocation.id}`;
+    const charge = quote.price > 0
+      ? await walletOperations.debit({
+          user_id: prepared.server.user_id,
+          amount: quote.price,
+          source_category: 'server_billing',
+          reference_id: prepared.server.id,
+          message: `Server migration to ${prepared.targetLocation.name}`,
+          idempotency_key: `server_migration:${requestKey}`
+        })
+      : null;
+    if (charge && (!charge.success || !charge.entry)) {
+      return {
+        ...fail('INSUFFICIENT_COINS', charge.error === 'INSUFFICIENT_FUNDS' ? `Insufficient coins. Required: ${quote.price}` : 'Failed to charge for the migration'),
+        quote
+      };
+    }
+    if (charge?.duplicate) return { ...fail('MIGRATION_IN_PROGRESS', 'This migration was already requested'), quote };
+
+    const result = await this.queue(prepared, requester.id, 'user_request', true, charge?.entry);
+    if (!result.success && charge?.entry) {
+      const refund = await walletOperations.reverse(charge.entry, { message: 'Refund: server migration could not be queued' });
+      if (!refund.success) console.error(`Failed to refund migration charge for ${prepared.server.id}:`, refund.error);
+    }
+    return { ...result, quote };
+  }
+
+  /**
+   * Admin migration to any node. Without a location the server stays in its location and only
+   * changes node; without a node the location's placement strategy picks one. In recreate mode
+   * the server starts empty, so the admin has to acknowledge the data loss.
+   */
+  static async requestByAdmin(
+    serverId: string,
+    adminId: number,
+    target: { location_id?: string; node_id?: number },
+    acknowledgeDataLoss = false,
+    reason: ServerMigrationReason = 'admin',
+    startNow = true
+  ): Promise<ServerMigrationResult> {
+    const prepared = await this.prepare(serverId, target, { id: adminId }, true);
+    if ('error' in prepared) return prepared;
+    if (prepared.mode === ServerMigrationMode.RECREATE && !acknowledgeDataLoss) {
+      return {
+        ...fail('ACKNOWLEDGEMENT_REQUIRED', 'Files are not copied: the server is recreated empty on the target node. Acknowledge the data loss to migrate'),
+        quote: this.buildQuote(prepared, 0)
+      };
+    }
+    return await this.queue(prepared, adminId, reason, startNow);
+  }
+
+  /**
+   * Queue migrations for every server on a node and stop new servers landing on it. Servers move
+   * to other nodes in their location unless a target location is given. The cron starts them.
+   * Like requestByAdmin, recreate mode needs the data loss acknowledged.
+   */
+  static async drainNode(nodeId: number, adminId: number, targetLocationId?: string, acknowledgeDataLoss = false): Promise<NodeDrainResult> {
+    const modeInfo = await this.getModeInfo();
+    if (!modeInfo.files_copied && !acknowledgeDataLoss) {
+      return {
+        ...modeInfo,
+        success: false,
+        message: 'Files are not copied: every server is recreated empty on its new node. Acknowledge the data loss to drain',
+        error: 'ACKNOWLEDGEMENT_REQUIRED',
+        queued: [],
+        skipped: []
+      };
+    }
+
+    const node = (await panelNodeGetDetails(nodeId)).attributes;
+    if (!node) return { ...modeInfo, success: false, message: 'Node not found', queued: [], skipped: [] };
+
+    // Weight 0 keeps the placement strategy away from the node while it drains
+    const location = await locationOperations.getLocationByPterodactylId(node.location_id);
+    if (location) {
+      const placement = location.placement ?? { strategy: NodePlacementStrategy.BALANCED };
+      await locationOperations.updateLocation(location.id, {
+        placement: { ...placement, node_weights: { ...placement.node_weights, [String(nodeId)]: 0 } }
+      });
+    }
+
+    const result: NodeDrainResult = { ...modeInfo, success: true, message: '', queued: [], skipped: [] };
+    for (const panelServer of await panelServerGetByNode(nodeId)) {
+      const server = await serverOperations.getServerByPterodactylId(panelServer.id);
+      if (!server) {
+        result.skipped.push({ pterodactyl_server_id: panelServer.id, reason: 'Not managed by CythroDash' });
+        continue;
+      }
+      const queued = await this.requestByAdmin(server.id, adminId, { location_id: targetLocationId }, acknowledgeDataLoss, 'node_drain', false);
+      if (queued.success && queued.migration) {
+        result.queued.push({ server_id: server.id, migration_id: queued.migration.id, target_node: queued.migration.target.node_name });
+      } else {
+        result.skipped.push({ pterodactyl_server_id: panelServer.id, server_id: server.id, reason: queued.message });
+      }
+    }
+
+    result.message = `Queued ${result.queued.length} migration(s) off ${node.name}, skipped ${result.skipped.length}`
+      + (modeInfo.files_copied ? '' : '. Files are not copied; the old servers stay suspended until deleted');
+    return result;
+  }
+
+  /** Stop a migration that has not reached the panel hand-off yet */
+  static async cancel(migrationId: string, adminId: number): Promise<ServerMigrationResult> {
+    const migration = await serverMigrationsOperations.getById(migrationId);
+    if (!migration) return fail('MIGRATION_NOT_FOUND', 'Migration not found');
+    if (migration.state !== ServerMigrationState.PENDING && migration.state !== ServerMigrationState.PROVISIONING) {
+      return fail('CANNOT_CANCEL', `A migration that is ${migration.state} cannot be cancelled`);
+    }
+
+    await this.rollback(migration, `Cancelled by admin ${adminId}`, adminId);
+    const updated = await serverMigrationsOperations.getById(migrationId);
+    return { success: true, message: 'Migration cancelled', migration: updated ? toMigrationView(updated) : undefined };
+  }
+
+  /** The active migration of a server, or its most recent one */
+  static async getLatest(serverId: string): Promise<ServerMigrationView | null> {
+    const [latest] = await serverMigrationsOperations.list({ server_id: serverId, limit: 1 });
+    return latest ? toMigrationView(latest) : null;
+  }
+
+  /**
+   * Delete the suspended old server a recreate migration kept, once an admin has checked nothing
+   * on it is still needed
+   */
+  static async deleteRetainedSource(migrationId: string, adminId: number): Promise<ServerMigrationResult> {
+    const migration = await serverMigrationsOperations.getById(migrationId);
+    if (!migration) return fail('MIGRATION_NOT_FOUND', 'Migration not found');
+    const sourceId = migration.source.pterodactyl_server_id;
+    if (!migration.source_retained || !sourceId) return fail('SOURCE_NOT_RETAINED', 'This migration has no old server waiting to be deleted');
+
+    // Never delete the panel server the CythroDash server points at
+    const server = await serverOperations.getServerById(migration.server_id);
+    if (server?.pterodactyl_server_id === sourceId) return fail('SOURCE_NOT_RETAINED', 'The server still runs on this panel server');
+
+    try {
+      await panelServerDelete(sourceId, true);
+    } catch (error) {
+      if (!(error instanceof PterodactylError && error.status === 404)) {
+        return fail('PANEL_ERROR', `Old server ${sourceId} could not be deleted: ${errorMessage(error)}`);
+      }
+    }
+    await serverMigrationsOperations.update(migration._id!, { source_retained: false, source_deleted_at: new Date() });
+    await logStep(migration, 'Old server deleted', { pterodactyl_server_id: sourceId }, adminId);
+
+    const updated = await serverMigrationsOperations.getById(migrationId);
+    return { success: true, message: 'Old server deleted', migration: updated ? toMigrationView(updated) : undefined };
+  }
+
+  /** Advance every active migration by one step (lifecycle cron) */
+  static async processActive(): Promise<MigrationProcessingResult> {
+    const result: MigrationProcessingResult = { processed: 0, completed: 0, rolled_back: 0, failed: 0 };
+    for (const migration of await serverMigrationsOperations.listActive()) {
+      const state = await this.advance(migration);
+      result.processed++;
+      if (state === ServerMigrationState.COMPLETED) result.completed++;
+      else if (state === ServerMigrationState.ROLLED_BACK) result.rolled_back++;
+      else if (state === ServerMigrationState.FAILED) result.failed++;
+    }
+    return result;
+  }
+
+  /** Run the next step of a migration; any error rolls it back */
+  static async advance(migration: CythroDashServerMigration): Promise<ServerMigrationState> {
+    try {
+      switch (migration.state) {
+        case ServerMigrationState.PENDING:
+          return await this.start(migration);
+        case ServerMigrationState.PROVISIONING:
+          return await this.checkProvisioning(migration);
+        case ServerMigrationState.TRANSFERRING:
+          return await this.checkTransfer(migration);
+        case ServerMigrationState.SWITCHING:
+          return await this.switchOver(migration);
+        default:
+          return migration.state;
+      }
+    } catch (error) {
+      console.error(`Server migration ${migration._id} failed in ${migration.state}:`, error);
+      return await this.rollback(migration, errorMessage(error));
+    }
+  }
+
+  // STEPS
+
+  /** Hand the server to the panel's transfer, or create the target server */
+  private static async start(migration: CythroDashServerMigration): Promise<ServerMigrationState> {
+    const server = await serverOperations.getServerById(migration.server_id);
+    if (!server || server.status === ServerStatus.TERMINATED) return await this.rollback(migration, 'Server no longer exists');
+    if (server.pterodactyl_server_id !== migration.source.pterodactyl_server_id) {
+      return await this.rollback(migration, 'Server changed since the migration was requested');
+    }
+
+    const { node_id, allocation_id } = migration.target;
+    if (!node_id || !allocation_id) return await this.rollback(migration, 'Migration has no target node');
+
+    if (migration.mode === ServerMigrationMode.TRANSFER) {
+      // Claim the step first so a concurrent run cannot start a second transfer
+      if (!await serverMigrationsOperations.transition(migration._id!, ServerMigrationState.PENDING, ServerMigrationState.TRANSFERRING)) {
+        return migration.state;
+      }
+      const transferring = { ...migration, state: ServerMigrationState.TRANSFERRING };
+      try {
+        await panelServerTransfer(migration.source.pterodactyl_server_id!, { node_id, allocation_id });
+      } catch (error) {
+        return await this.rollback(transferring, `Panel transfer failed: ${errorMessage(error)}`);
+      }
+      await logStep(transferring, `Panel transfer to ${migration.target.node_name} started`, { node_id, allocation_id });
+      return ServerMigrationState.TRANSFERRING;
+    }
+
+    if (!await serverMigrationsOperations.transition(migration._id!, ServerMigrationState.PENDING, ServerMigrationState.PROVISIONING)) {
+      return migration.state;
+    }
+    const provisioning = { ...migration, state: ServerMigrationState.PROVISIONING };
+
+    // Same egg, image, startup, environment and limits as the server being moved
+    const source = (await panelServerGetDetails(migration.source.pterodactyl_server_id!)).attributes;
+    if (!source) return await this.rollback(provisioning, 'Source server not found in the panel');
+
+    let created;
+    try {
+      created = await panelServerCreate({
+        name: source.name,
+        user: source.user,
+        egg: source.egg,
+        docker_image: source.container?.image,
+        startup: source.container?.startup_command,
+        environment: source.container?.environment || {},
+        limits: {
+          memory: source.limits.memory,
+          swap: source.limits.swap,
+          disk: source.limits.disk,
+          io: source.limits.io,
+          cpu: source.limits.cpu,
+          threads: source.limits.threads ?? undefined,
+          oom_disabled: source.limits.oom_disabled
+        },
+        feature_limits: { ...source.feature_limits },
+        allocation: { default: allocation_id }
+      });
+    } catch (error) {
+      return await this.rollback(provisioning, `Target server could not be created: ${errorMessage(error)}`);
+    }
+    if (!created?.attributes) return await this.rollback(provisioning, 'Panel returned no target server');
+
+    const target = {
+      ...migration.target,
+      pterodactyl_server_id: created.attributes.id,
+      pterodactyl_uuid: created.attributes.uuid,
+      pterodactyl_identifier: created.attributes.identifier
+    };
+    await serverMigrationsOperations.update(migration._id!, { target });
+    await logStep({ ...provisioning, target }, `Target server created on ${migration.target.node_name}`, {
+      node_id,
+      pterodactyl_server_id: target.pterodactyl_server_id
+    });
+    return ServerMigrationState.PROVISIONING;
+  }
+
+  /** Wait for the target server to finish installing */
+  private static async checkProvisioning(migration: CythroDashServerMigration): Promise<ServerMigrationState> {
+    const timedOut = Date.now() - new Date(migration.state_changed_at).getTime() > PROVISION_TIMEOUT_MS;
+    const targetId = migration.target.pterodactyl_server_id;
+    if (!targetId) {
+      return timedOut ? await this.rollback(migration, 'Target server was never created') : migration.state;
+    }
+
+    const target = (await panelServerGetDetails(targetId)).attributes;
+    if (!target) return await this.rollback(migration, 'Target server disappeared from the panel');
+    if (target.status === 'install_failed' || target.status === 'reinstall_failed') {
+      return await this.rollback(migration, 'Target server failed to install');
+    }
+    if (target.status) {
+      return timedOut ? await this.rollback(migration, 'Target server install timed out') : migration.state;
+    }
+
+    if (!await serverMigrationsOperations.transition(migration._id!, ServerMigrationState.PROVISIONING, ServerMigrationState.SWITCHING)) {
+      return migration.state;
+    }
+    const switching = { ...migration, state: ServerMigrationState.SWITCHING };
+    await logStep(switching, 'Target server installed');
+    return await this.switchOver(switching);
+  }
+
+  /** Wait for the panel to report the server on the target node */
+  private static async checkTransfer(migration: CythroDashServerMigration): Promise<ServerMigrationState> {
+    const server = (await panelServerGetDetails(migration.source.pterodactyl_server_id!)).attributes;
+    if (!server) return await this.rollback(migration, 'Server disappeared from the panel during the transfer');
+
+    if (server.node !== migration.target.node_id) {
+      const timedOut = Date.now() - new Date(migration.state_changed_at).getTime() > TRANSFER_TIMEOUT_MS;
+      return timedOut ? await this.rollback(migration, 'Panel transfer did not finish in time') : migration.state;
+    }
+
+    if (!await serverMigrationsOperations.transition(migration._id!, ServerMigrationState.TRANSFERRING, ServerMigrationState.SWITCHING)) {
+      return migration.state;
+    }
+    const switching = { ...migration, state: ServerMigrationState.SWITCHING };
+    await logStep(switching, `Panel transfer to ${migration.target.node_name} finished`);
+    return await this.switchOver(switching);
+  }
+
+  /** Point the CythroDash server at the target and retire the source (suspended, not deleted, in recreate mode) */
+  private static async switchOver(migration: CythroDashServerMigration): Promise<ServerMigrationState> {
+    const recreated = migration.mode === ServerMigrationMode.RECREATE;
+    const panel = recreated ? migration.target : migration.source;
+    const sourceId = migration.source.pterodactyl_server_id!;
+
+    const server = await serverOperations.getServerById(migration.server_id);
+    if (!server || server.status === ServerStatus.TERMINATED) return await this.rollback(migration, 'Server was deleted during the migration');
+
+    // A retry after a crash finds the record already switched
+    const alreadySwitched = server.pterodactyl_server_id === panel.pterodactyl_server_id && server.location_id === migration.target.location_id;
+    if (!alreadySwitched) {
+      const switched = await serverOperations.switchPanelServer(server.id, sourceId, {
+        pterodactyl_server_id: panel.pterodactyl_server_id!,
+        pterodactyl_uuid: panel.pterodactyl_uuid,
+        pterodactyl_identifier: panel.pterodactyl_identifier,
+        location_id: migration.target.location_id
+      }, new Date());
+      if (!switched) return await this.rollback(migration, 'Server record changed during the migration');
+    }
+    await logStep(migration, `Server switched to ${migration.target.node_name}`, {
+      location_id: migration.target.location_id,
+      pterodactyl_server_id: panel.pterodactyl_server_id,
+      pterodactyl_identifier: panel.pterodactyl_identifier
+    });
+
+    let warning: string | undefined;
+    let sourceRetained = false;
+    if (recreated) {
+      // The new server inherits the suspension of the one it replaces
+      if (server.status === ServerStatus.SUSPENDED) {
+        try { await panelServerSuspend(panel.pterodactyl_server_id!); } catch (error) {
+          warning = `Target server could not be suspended: ${errorMessage(error)}`;
+        }
+      }
+      // Files are not copied, so the old server is kept until an admin deletes it
+      sourceRetained = true;
+      try {
+        await panelServerSuspend(sourceId);
+        await logStep(migration, 'Source server suspended and kept until an admin deletes it', { pterodactyl_server_id: sourceId });
+      } catch (error) {
+        if (error instanceof PterodactylError && error.status === 404) sourceRetained = false;
+        else warning = `Source server ${sourceId} could not be suspended: ${errorMessage(error)}`;
+      }
+    }
+
+    const completed = await serverMigrationsOperations.transition(migration._id!, ServerMigrationState.SWITCHING, ServerMigrationState.COMPLETED, {
+      active: false,
+      completed_at: new Date(),
+      ...(sourceRetained ? { source_retained: true } : {}),
+      ...(warning ? { error: warning } : {})
+    });
+    if (!completed) return migration.state;
+
+    await logStep(migration, warning ? `Migration completed with a warning: ${warning}` : 'Migration completed', {
+      from_location: migration.source.location_id,
+      to_location: migration.target.location_id,
+      to_node: migration.target.node_id
+    });
+    return ServerMigrationState.COMPLETED;
+  }
+
+  /** Undo what the migration changed, refund the owner and close it */
+  private static async rollback(migration: CythroDashServerMigration, reason: string, actorId?: number): Promise<ServerMigrationState> {
+    await logStep(migration, `Migration failed in ${migration.state}: ${reason}`, {}, actorId);
+
+    // A created target is removed unless the server was already switched to it
+    let cleanupError: string | undefined;
+    const targetId = migration.target.pterodactyl_server_id;
+    if (migration.mode === ServerMigrationMode.RECREATE && targetId && targetId !== migration.source.pterodactyl_server_id) {
+      const server = await serverOperations.getServerById(migration.server_id);
+      if (server?.pterodactyl_server_id !== targetId) {
+        try {
+          await panelServerDelete(targetId, true);
+          await logStep(migration, 'Target server deleted', { pterodactyl_server_id: targetId }, actorId);
+        } catch (error) {
+          if (!(error instanceof PterodactylError && error.status === 404)) {
+            cleanupError = `target server ${targetId} could not be deleted: ${errorMessage(error)}`;
+          }
+        }
+      }
+    }
+
+    const state = cleanupError ? ServerMigrationState.FAILED : ServerMigrationState.ROLLED_BACK;
+    const closed = await serverMigrationsOperations.transition(migration._id!, migration.state, state, {
+      active: false,
+      completed_at: new Date(),
+      error: cleanupError ? `${reason}; ${cleanupError}` : reason
+    });
+    if (!closed) {
+      // Another run moved it on; report where it is now
+      const current = await serverMigrationsOperations.getById(String(migration._id));
+      return current?.state ?? migration.state;
+    }
+
+    if (migration.charge) {
+      const refund = await walletOperations.reverse(migration.charge, {
+        message: 'Refund: server migration failed',
+        idempotency_key: `server_migration_refund:${migration._id}`
+      });
+      if (!refund.success) console.error(`Failed to refund migration ${migration._id}:`, refund.error);
+    }
+
+    await logStep(migration, state === ServerMigrationState.FAILED
+      ? `Rollback incomplete, ${cleanupError}`
+      : 'Migration rolled back, server stays where it was', {}, actorId);
+    return state;
+  }
+
+  // REQUESTS
+
+  /** Load everything and run every check that does not change state */
+  private static async prepare(
+    serverId: string,
+    target: { location_id?: string; node_id?: number },
+    requester: MigrationRequester,
+    asAdmin: boolean
+  ): Promise<PreparedMigration | Failure> {
+    const server = await serverOperations.getServerById(serverId);
+    if (!server) return fail('SERVER_NOT_FOUND', 'Server not found');
+    // The user flow is owner-only; staff move servers through the admin route (servers.write)
+    if (!asAdmin && server.user_id !== requester.id) return fail('ACCESS_DENIED', 'Access denied');
+
+    // Admins also move suspended servers (draining a node); users only active, paid-up ones
+    const movable = asAdmin
+      ? server.status === ServerStatus.ACTIVE || server.status === ServerStatus.SUSPENDED
+      : server.status === ServerStatus.ACTIVE && server.billing_status === BillingStatus.ACTIVE;
+    if (!movable || !server.pterodactyl_server_id) {
+      return fail('SERVER_NOT_ACTIVE', asAdmin ? 'Only active or suspended servers can be migrated' : 'Only active servers with no overdue balance can be migrated');
+    }
+    if (await serverMigrationsOperations.getActiveByServer(server.id)) {
+      return fail('MIGRATION_IN_PROGRESS', 'This server is already being migrated');
+    }
+
+    const targetLocationId = target.location_id || server.location_id;
+    const [sourceLocation, targetLocation, plan, policy] = await Promise.all([
+      locationOperations.getLocationById(server.location_id),
+      locationOperations.getLocationById(targetLocationId),
+      planOperations.getPlanById(server.billing.plan_id),
+      getMigrationPolicy()
+    ]);
+    if (!sourceLocation || !targetLocation) return fail('LOCATION_NOT_FOUND', 'Location not found');
+
+    if (!asAdmin) {
+      if (targetLocation.id === sourceLocation.id) return fail('SAME_LOCATION', 'Server is already in this location');
+      if (!LocationHelpers.isAvailableForUsers(targetLocation)) return fail('LOCATION_UNAVAILABLE', `${targetLocation.name} is not accepting servers right now`);
+      if (plan && !PlanHelpers.isAvailableInLocation(plan, targetLocation.id)) {
+        return fail('LOCATION_UNAVAILABLE', `Your plan is not offered in ${targetLocation.name}`);
+      }
+      if (targetLocation.allowed_server_types?.length && !targetLocation.allowed_server_types.includes(server.server_type_id)) {
+        return fail('LOCATION_UNAVAILABLE', `${targetLocation.name} does not host this server type`);
+      }
+    }
+
+    let sourceNodeId: number;
+    try {
+      const panelServer = (await panelServerGetDetails(server.pterodactyl_server_id)).attributes;
+      if (!panelServer) return fail('PANEL_ERROR', 'Server not found in the game panel');
+      sourceNodeId = panelServer.node;
+    } catch (error) {
+      console.error(`Migration: failed to load panel server for ${server.id}:`, error);
+      return fail('PANEL_ERROR', 'Failed to load the server from the game panel');
+    }
+
+    const selection = await CapacityCalculator.selectOptimalNode(
+      targetLocation.pterodactyl_location_id,
+      { memory: server.limits.memory, disk: server.limits.disk, cpu: server.limits.cpu * 100 },
+      true,
+      { user_id: server.user_id, node_id: target.node_id, exclude_node_ids: [sourceNodeId] }
+    );
+    if (!selection.success || !selection.selected_node) {
+      return fail('NO_CAPACITY', asAdmin
+        ? `No target node: ${selection.error || 'no node can take the server'}`
+        : `${targetLocation.name} has no room for this server right now`);
+    }
+
+    return {
+      server,
+      sourceLocation,
+      targetLocation,
+      sourceNodeId,
+      selection: selection.selected_node,
+      strategy: selection.strategy ?? NodePlacementStrategy.BALANCED,
+      mode: policy.panel_transfer ? ServerMigrationMode.TRANSFER : ServerMigrationMode.RECREATE
+    };
+  }
+
+  private static buildQuote(prepared: PreparedMigration, price: number): ServerMigrationQuote {
+    return {
+      price,
+      mode: prepared.mode,
+      files_copied: prepared.mode === ServerMigrationMode.TRANSFER,
+      from_location: { id: prepared.sourceLocation.id, name: prepared.sourceLocation.name },
+      to_location: { id: prepared.targetLocation.id, name: prepared.targetLocation.name }
+    };
+  }
+
+  /** Record the migration and, unless the cron should pick it up, run its first step */
+  private static async queue(
+    prepared: PreparedMigration,
+    requestedBy: number,
+    reason: ServerMigrationReason,
+    startNow: boolean,
+    charge?: CythroDashServerMigration['charge']
+  ): Promise<ServerMigrationResult> {
+    const { server, sourceLocation, targetLocation, sourceNodeId, selection, strategy, mode } = prepared;
+    const now = new Date();
+
+    const migration = await serverMigrationsOperations.create({
+      server_id: server.id,
+      user_id: server.user_id,
+      requested_by: requestedBy,
+      reason,
+      mode,
+      state: ServerMigrationState.PENDING,
+      active: true,
+      source: {
+        location_id: sourceLocation.id,
+        pterodactyl_location_id: sourceLocation.pterodactyl_location_id,
+        node_id: sourceNodeId,
+        pterodactyl_server_id: server.pterodactyl_server_id,
+        pterodactyl_uuid: server.pterodactyl_uuid,
+        pterodactyl_identifier: server.pterodactyl_identifier
+      },
+      target: {
+        location_id: targetLocation.id,
+        pterodactyl_location_id: targetLocation.pterodactyl_location_id,
+        node_id: selection.node_id,
+        node_name: selection.node_name,
+        allocation_id: selection.allocation_id,
+        strategy
+      },
+      charge,
+      created_at: now,
+      updated_at: now,
+      state_changed_at: now
+    });
+    if (!migration) return fail('MIGRATION_IN_PROGRESS', 'This server is already being migrated');
+
+    await logStep(migration, `Migration to ${targetLocation.name} (${selection.node_name}) requested`, {
+      reason,
+      from_location: sourceLocation.id,
+      from_node: sourceNodeId,
+      to_location: targetLocation.id,
+      to_node: selection.node_id,
+      allocation: selection.allocation_address,
+      strategy,
+      selection_reason: selection.selection_reason,
+      price: charge ? Math.abs(charge.delta) : 0
+    }, requestedBy);
+
+    if (startNow) await this.advance(migration);
+
+    const current = await serverMigrationsOperations.getById(String(migration._id));
+    return {
+      success: true,
+      message: `Migration to ${targetLocation.name} started`,
+      migration: toMigrationView(current ?? migration)
+    };
+  }
+}
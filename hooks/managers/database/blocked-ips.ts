@@ -5,10 +5,17 @@
 import { Collection } from 'mongodb'
 import { connectToDatabase } from '@/database/index'
 import { BLOCKED_IPS_COLLECTION, BLOCKED_IPS_INDEXES, CythroDashBlockedIP, BlockType } from '@/database/tables/cythro_dash_blocked_ips'
+import { IPPrefixTrie, parseCidr, parseIP } from '@/lib/security/ip-matcher'
+
+// Blocks added by another instance are picked up after this long at the latest
+const MATCHER_TTL_MS = 60 * 1000
 
 class BlockedIPsOps {
   private collection!: Collection<CythroDashBlockedIP>
   private initialized = false
+  private matcher: { trie: IPPrefixTrie<CythroDashBlockedIP>; loadedAt: number } | null = null
+  private matcherLoading: Promise<IPPrefixTrie<CythroDashBlockedIP>> | null = null
+  private matcherGeneration = 0
 
   private async init() {
     if (this.initialized) return
@@ -24,10 +31,52 @@ class BlockedIPsOps {
     return !!doc.expires_at && new Date(doc.expires_at) < new Date()
   }
 
+  /** Drop the in-memory matcher so the next check reloads active blocks */
+  invalidateMatcher() {
+    this.matcher = null
+    this.matcherLoading = null
+    this.matcherGeneration++
+  }
+
+  // Every active block, keyed by its range; single addresses are /32 or /128 ranges
+  private async getMatcher(): Promise<IPPrefixTrie<CythroDashBlockedIP>> {
+    if (this.matcher && Date.now() - this.matcher.loadedAt < MATCHER_TTL_MS) return this.matcher.trie
+    if (!this.matcherLoading) {
+      const generation = this.matcherGeneration
+      this.matcherLoading = this.loadMatcher().then(trie => {
+        // Only cache if nothing invalidated the matcher while it was loading
+        if (this.matcherGeneration === generation) {
+          this.matcher = { trie, loadedAt: Date.now() }
+          this.matcherLoading = null
+        }
+        return trie
+      }, err => {
+        if (this.matcherGeneration === generation) this.matcherLoading = null
+        throw err
+      })
+    }
+    return this.matcherLoading
+  }
+
+  private async loadMatcher(): Promise<IPPrefixTrie<CythroDashBlockedIP>> {
+    await this.init()
+    const trie = new IPPrefixTrie<CythroDashBlockedIP>()
+    for await (const doc of this.collection.find({ is_active: true })) {
+      const range = parseCidr(doc.metadata?.cidr || doc.ip_address)
+      if (range) trie.insert(range, doc)
+    }
+    return trie
+  }
+
+  /**
+   * Block an address or a CIDR range (IPv4 or IPv6). Both are stored in canonical form;
+   * ranges also keep it in metadata.cidr.
+   */
   async blockIP(params: { ip_address: string; reason: string; blocked_by_admin_id?: number; expires_at?: Date | null; block_type?: BlockType; metadata?: CythroDashBlockedIP['metadata'] }): Promise<{ success: boolean; record?: CythroDashBlockedIP; message?: string }>{
     await this.init()
-    const ip = String(params.ip_address).trim()
-    if (!ip) return { success: false, message: 'Invalid IP address' }
+    const range = parseCidr(params.ip_address)
+    if (!range) return { success: false, message: 'Invalid IP address or CIDR range' }
+    const ip = range.single ? range.address : range.cidr
 
     const now = new Date()
     const record: CythroDashBlockedIP = {
@@ -38,58 +87,43 @@ class BlockedIPsOps {
       is_active: true,
       blocked_at: now,
       expires_at: params.expires_at ?? null,
-      metadata: { ...params.metadata, hit_count: 0 }
+      metadata: { ...params.metadata, ...(range.single ? {} : { cidr: range.cidr }), hit_count: 0 }
     }
 
     const existing = await this.collection.findOne({ ip_address: ip, is_active: true })
     if (existing) {
-      await this.collection.updateOne({ ip_address: ip, is_active: true }, { $set: { reason: record.reason, expires_at: record.expires_at, metadata: record.metadata } })
+      await this.collection.updateOne({ ip_address: ip, is_active: true }, { $set: { reason: record.reason, expires_at: record.expires_at, metadata: { ...record.metadata, hit_count: existing.metadata?.hit_count || 0 } } })
+      this.invalidateMatcher()
       return { success: true, record: { ...existing, ...record } }
     }
 
     await this.collection.insertOne(record)
+    this.invalidateMatcher()
     return { success: true, record }
   }
 
   async unblockIP(ip_address: string): Promise<{ success: boolean; message?: string }>{
     await this.init()
-    const res = await this.collection.updateMany({ ip_address: ip_address.trim(), is_active: true }, { $set: { is_active: false } })
+    const raw = ip_address.trim()
+    const range = parseCidr(raw)
+    const canonical = range ? (range.single ? range.address : range.cidr) : raw
+    const res = await this.collection.updateMany({ ip_address: { $in: [raw, canonical] }, is_active: true }, { $set: { is_active: false } })
+    if (res.modifiedCount > 0) this.invalidateMatcher()
     return { success: res.modifiedCount > 0, message: res.modifiedCount > 0 ? 'Unblocked' : 'Not found' }
   }
 
-  private ipInCidr(ip: string, cidr: string): boolean {
-    try {
-      // Simple IPv4 CIDR check
-      const [range, bitsStr] = cidr.split('/')
-      const bits = parseInt(bitsStr, 10)
-      const ipToLong = (x: string) => x.split('.').reduce((acc, o) => (acc << 8) + parseInt(o, 10), 0) >>> 0
-      const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0
-      const base = ipToLong(range)
-      const num = ipToLong(ip)
-      return (base & mask) === (num & mask)
-    } catch { return false }
-  }
-
+  /** Most specific active, unexpired block covering the address */
   async isIPBlocked(ip_address: string): Promise<{ blocked: boolean; record?: CythroDashBlockedIP }>{
-    await this.init()
-    const ip = ip_address.trim()
-
-    // Exact match first
-    let rec = await this.collection.findOne({ ip_address: ip, is_active: true })
+    const ip = parseIP(ip_address)
+    if (!ip) return { blocked: false }
 
-    // CIDR match if not found
-    if (!rec) {
-      const cursor = this.collection.find({ is_active: true, 'metadata.cidr': { $exists: true, $ne: null } })
-      for await (const doc of cursor) {
-        if (doc.metadata?.cidr && this.ipInCidr(ip, doc.metadata.cidr)) { rec = doc; break }
-      }
+    const matches = (await this.getMatcher()).match(ip)
+    const rec = matches.find(doc => !this.isExpired(doc))
+    if (matches.some(doc => this.isExpired(doc))) {
+      await this.cleanupExpiredBlocks()
     }
 
     if (!rec) return { blocked: false }
-    if (this.isExpired(rec)) {
-      await this.collection.updateOne({ ip_address: rec.ip_address, is_active: true }, { $set: { is_active: false } })
-      return { blocked: false }
-    }
     return { blocked: true, record: rec }
   }
 
@@ -109,9 +143,11 @@ class BlockedIPsOps {
     await this.init()
     const now = new Date()
     const res = await this.collection.updateMany({ is_active: true, expires_at: { $ne: null, $lt: now } }, { $set: { is_active: false } })
+    if (res.modifiedCount > 0) this.invalidateMatcher()
     return res.modifiedCount
   }
 
+  /** Count a blocked request against the block that matched it (pass record.ip_address) */
   async incrementHit(ip: string) {
     await this.init()
     await this.collection.updateOne({ ip_address: ip, is_active: true }, { $inc: { 'metadata.hit_count': 1 } })
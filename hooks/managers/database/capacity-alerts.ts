@@ -0,0 +1,82 @@
+/**
+ * CythroDash - Capacity Alert Operations
+ */
+
+import { Collection, ObjectId } from 'mongodb'
+import { connectToDatabase } from '@/database/index'
+import {
+  CapacityResource,
+  CythroDashCapacityAlert,
+  CAPACITY_ALERTS_COLLECTION,
+  CAPACITY_ALERTS_INDEXES
+} from '@/database/tables/cythro_dash_capacity_alerts'
+
+class CapacityAlertsOps {
+  private collection!: Collection<CythroDashCapacityAlert>
+  private initialized = false
+
+  private async init() {
+    if (this.initialized) return
+    const db = await connectToDatabase()
+    this.collection = db.collection<CythroDashCapacityAlert>(CAPACITY_ALERTS_COLLECTION)
+    for (const idx of CAPACITY_ALERTS_INDEXES) {
+      try {
+        await this.collection.createIndex(idx.key as any, { name: idx.name, unique: (idx as any).unique, expireAfterSeconds: (idx as any).expireAfterSeconds })
+      } catch {}
+    }
+    this.initialized = true
+  }
+
+  /** The unresolved alert for a location and resource, if any */
+  async getOpen(location_id: string, resource: CapacityResource): Promise<CythroDashCapacityAlert | null> {
+    await this.init()
+    return this.collection.findOne({ location_id, resource, resolved_at: { $exists: false } })
+  }
+
+  /** Newest first; resolved alerts only when asked for */
+  async list(options: { include_resolved?: boolean; limit?: number } = {}): Promise<CythroDashCapacityAlert[]> {
+    await this.init()
+    const filter = options.include_resolved ? {} : { resolved_at: { $exists: false } }
+    return this.collection.find(filter).sort({ created_at: -1 }).limit(options.limit ?? 100).toArray()
+  }
+
+  async create(alert: Omit<CythroDashCapacityAlert, '_id'>): Promise<CythroDashCapacityAlert> {
+    await this.init()
+    const result = await this.collection.insertOne(alert)
+    return { ...alert, _id: result.insertedId }
+  }
+
+  async update(id: ObjectId, fields: Partial<Omit<CythroDashCapacityAlert, '_id'>>): Promise<void> {
+    await this.init()
+    await this.collection.updateOne({ _id: id }, { $set: { ...fields, updated_at: new Date() } })
+  }
+
+  /** Raise an open alert to a higher level; it needs acknowledging again */
+  async escalate(id: ObjectId, fields: Partial<Omit<CythroDashCapacityAlert, '_id'>>): Promise<void> {
+    await this.init()
+    await this.collection.updateOne({ _id: id }, {
+      $set: { ...fields, updated_at: new Date() },
+      $unset: { acknowledged_at: '', acknowledged_by: '' }
+    })
+  }
+
+  async resolve(id: ObjectId): Promise<void> {
+    await this.init()
+    const now = new Date()
+    await this.collection.updateOne({ _id: id }, { $set: { resolved_at: now, updated_at: now } })
+  }
+
+  /** Mark an open alert as seen by an admin; returns false when it does not exist or is resolved */
+  async acknowledge(id: string, adminId: number): Promise<boolean> {
+    await this.init()
+    if (!ObjectId.isValid(id)) return false
+    const now = new Date()
+    const result = await this.collection.updateOne(
+      { _id: new ObjectId(id), resolved_at: { $exists: false } },
+      { $set: { acknowledged_at: now, acknowledged_by: adminId, updated_at: now } }
+    )
+    return result.matchedCount > 0
+  }
+}
+
+export const capacityAlertsOperations = new CapacityAlertsOps()
@@ -19,6 +19,7 @@ import {
   CODE_REDEMPTIONS_INDEXES
 } from '@/database/tables/cythro_dash_codes';
 import { userOperations } from './user';
+import { walletOperations } from './wallet';
 
 class CodeOperations {
   private client: MongoClient | null = null;
@@ -288,6 +289,21 @@ class CodeOperations {
         }
       }
 
+      // Claim a use before crediting; the conditional $inc lets only max_uses requests through
+      const claimed = await collection.findOneAndUpdate(
+        { id: code.id, is_active: true, ...(code.max_uses > 0 ? { current_uses: { $lt: code.max_uses } } : {}) },
+        { $inc: { current_uses: 1 }, $set: { last_used_at: now, updated_at: now } },
+        { returnDocument: 'after' }
+      );
+      if (!claimed) {
+        return {
+          success: false,
+          message: 'Code has reached maximum uses',
+          error: 'CODE_UNAVAILABLE'
+        };
+      }
+      const releaseClaim = () => collection.updateOne({ id: code.id }, { $inc: { current_uses: -1 }, $set: { updated_at: new Date() } });
+
       // Create redemption record
       const redemption: CythroDashCodeRedemption = {
         ...defaultRedemptionValues,
@@ -307,59 +323,57 @@ class CodeOperations {
         updated_at: now
       } as CythroDashCodeRedemption;
 
-      // Execute redemption (update user balance, increment code usage, create redemption record)
-      await redemptionsCollection.insertOne(redemption);
-
-      // Update user coins
-      const updateSuccess = await userOperations.updateUserCoins(
-        redemptionData.user_id,
-        code.coins_value,
-        `Redeemed code: ${code.code}`
-      );
+      // Execute redemption (create redemption record, update user balance, then code status)
       try {
-        const { rewardsLedgerOperations } = await import('@/hooks/managers/database/rewards-ledger')
-        await rewardsLedgerOperations.add({
-          user_id: redemptionData.user_id,
-          delta: code.coins_value,
-          balance_before: redemption.user_balance_before,
-          balance_after: redemption.user_balance_after,
-          source_category: 'redeem_code',
-          source_action: 'earn',
-          reference_id: redemption.id,
-          message: `Redeemed ${code.code}`,
-        })
-      } catch {}
+        await redemptionsCollection.insertOne(redemption);
+      } catch (error) {
+        await releaseClaim();
+        throw error;
+      }
 
-      if (!updateSuccess) {
-        // Rollback redemption record
+      // Credit the user; a single-use code has one key so it can never pay out twice
+      const credit = await walletOperations.credit({
+        user_id: redemptionData.user_id,
+        amount: code.coins_value,
+        source_category: 'redeem_code',
+        reference_id: redemption.id,
+        message: `Redeemed ${code.code}`,
+        idempotency_key: code.max_uses === 1 ? `redeem:${code.id}` : `redeem:${redemption.id}`
+      });
+
+      if (!credit.success || credit.duplicate) {
+        // Rollback redemption record and give the claimed use back
+        await releaseClaim();
         await redemptionsCollection.updateOne(
           { id: redemption.id },
-          { $set: { status: 'failed', error_message: 'Failed to update user balance' } }
+          { $set: { status: 'failed', error_message: credit.duplicate ? 'Code already redeemed' : 'Failed to update user balance' } }
         );
 
-        return {
+        return credit.duplicate ? {
+          success: false,
+          message: 'You have already redeemed this code',
+          error: 'ALREADY_REDEEMED'
+        } : {
           success: false,
           message: 'Failed to update user balance',
           error: 'BALANCE_UPDATE_FAILED'
         };
       }
 
-      // Update code usage count and status
-      const newUsageCount = code.current_uses + 1;
-      const newStatus = codeHelpers.updateCodeStatus({
-        ...code,
-        current_uses: newUsageCount
-      });
+      if (credit.entry) {
+        await redemptionsCollection.updateOne(
+          { id: redemption.id },
+          { $set: { user_balance_before: credit.entry.balance_before, user_balance_after: credit.entry.balance_after } }
+        );
+      }
 
+      // Update code status from the claimed usage count
       await collection.updateOne(
         { id: code.id },
         {
           $set: {
-            current_uses: newUsageCount,
-            status: newStatus,
-            last_used_at: now,
-            updated_at: now,
-            ...(code.current_uses === 0 ? { first_used_at: now } : {})
+            status: codeHelpers.updateCodeStatus(claimed),
+            ...(claimed.current_uses === 1 ? { first_used_at: now } : {})
           }
         }
       );
@@ -231,9 +231,9 @@ export class DailyLoginController {
         };
       }
 
-      // Update status to claimed
-      await collection.updateOne(
-        { _id: loginRecord._id },
+      // Update status to claimed; only one concurrent claim can flip it from pending
+      const claimed = await collection.updateOne(
+        { _id: loginRecord._id, status: DailyLoginStatus.PENDING },
         { 
           $set: { 
             status: DailyLoginStatus.CLAIMED,
@@ -243,10 +243,19 @@ export class DailyLoginController {
         }
       );
 
+      if (claimed.modifiedCount === 0) {
+        return {
+          success: false,
+          message: 'Daily login bonus already claimed'
+        };
+      }
+
       return {
         success: true,
         message: 'Daily login bonus claimed successfully',
         data: {
+          login_id: loginRecord._id?.toString(),
+          login_date: loginRecord.login_date,
           coins_awarded: loginRecord.coins_awarded,
           claimed_at: now
         }
@@ -0,0 +1,208 @@
+/**
+ * CythroDash - Automatic IP Block Rules Operations
+ */
+
+import { Collection } from 'mongodb'
+import { connectToDatabase } from '@/database/index'
+import {
+  CythroDashIPBlockRule,
+  CythroDashIPBlockRuleHit,
+  IPBlockRuleTrigger,
+  IP_BLOCK_RULES_COLLECTION,
+  IP_BLOCK_RULES_INDEXES,
+  IP_BLOCK_RULE_HITS_COLLECTION,
+  IP_BLOCK_RULE_HITS_INDEXES
+} from '@/database/tables/cythro_dash_ip_block_rules'
+import { SecurityLogAction } from '@/database/tables/cythro_dash_users_logs'
+import { CythroDashBlockedIP } from '@/database/tables/cythro_dash_blocked_ips'
+import { normalizeIP } from '@/lib/security/ip-matcher'
+import blockedIPsOperations from './blocked-ips'
+
+// Rules edited on another instance are picked up after this long at the latest
+const RULES_TTL_MS = 60 * 1000
+
+export type IPBlockRuleInput = Pick<CythroDashIPBlockRule, 'name' | 'trigger' | 'threshold' | 'window_minutes' | 'block_duration_minutes'> &
+  Partial<Pick<CythroDashIPBlockRule, 'enabled' | 'action' | 'min_risk_score'>>
+
+export interface IPBlockEvent {
+  trigger: IPBlockRuleTrigger
+  ip_address?: string
+  action?: SecurityLogAction
+  risk_score?: number
+}
+
+const BLOCK_SOURCE: Record<IPBlockRuleTrigger, NonNullable<CythroDashBlockedIP['metadata']>['source']> = {
+  security_log: 'security',
+  referral_click: 'referral',
+  rate_limit: 'api'
+}
+
+class IPBlockRulesOps {
+  private rules!: Collection<CythroDashIPBlockRule>
+  private hits!: Collection<CythroDashIPBlockRuleHit>
+  private initialized = false
+  private counter = 0
+  private enabledCache: { rules: CythroDashIPBlockRule[]; loadedAt: number } | null = null
+
+  private async init() {
+    if (this.initialized) return
+    const db = await connectToDatabase()
+    this.rules = db.collection<CythroDashIPBlockRule>(IP_BLOCK_RULES_COLLECTION)
+    this.hits = db.collection<CythroDashIPBlockRuleHit>(IP_BLOCK_RULE_HITS_COLLECTION)
+    for (const idx of IP_BLOCK_RULES_INDEXES) {
+      try { await this.rules.createIndex(idx.key as any, { name: idx.name, unique: (idx as any).unique }) } catch {}
+    }
+    for (const idx of IP_BLOCK_RULE_HITS_INDEXES) {
+      try { await this.hits.createIndex(idx.key as any, { name: idx.name, expireAfterSeconds: (idx as any).expireAfterSeconds }) } catch {}
+    }
+    const last = await this.rules.findOne({}, { sort: { id: -1 } })
+    this.counter = last?.id || 0
+    this.initialized = true
+  }
+  private nextId() { return ++this.counter }
+
+  private validate(rule: Partial<IPBlockRuleInput>, trigger: IPBlockRuleTrigger) {
+    if (trigger === 'security_log' && !rule.action) throw new Error('Security log rules need an action')
+    for (const key of ['threshold', 'window_minutes', 'block_duration_minutes'] as const) {
+      const value = rule[key]
+      if (value !== undefined && !(Number.isInteger(value) && value >= 1)) throw new Error(`${key} must be a positive whole number`)
+    }
+  }
+
+  // Fields that do not apply to the trigger are dropped so a rule never matches on stale settings
+  private triggerFields(trigger: IPBlockRuleTrigger, rule: Partial<IPBlockRuleInput>) {
+    return {
+      action: trigger === 'security_log' ? rule.action : undefined,
+      min_risk_score: trigger === 'referral_click' ? (rule.min_risk_score ?? 0) : undefined
+    }
+  }
+
+  async listRules(): Promise<CythroDashIPBlockRule[]> {
+    await this.init()
+    return this.rules.find({}).sort({ id: 1 }).toArray()
+  }
+
+  async getRule(id: number): Promise<CythroDashIPBlockRule | null> {
+    await this.init()
+    return this.rules.findOne({ id })
+  }
+
+  async createRule(data: IPBlockRuleInput, adminId: number): Promise<CythroDashIPBlockRule> {
+    await this.init()
+    this.validate(data, data.trigger)
+    const now = new Date()
+    const rule: CythroDashIPBlockRule = {
+      id: this.nextId(),
+      name: data.name.trim(),
+      enabled: data.enabled ?? true,
+      trigger: data.trigger,
+      ...this.triggerFields(data.trigger, data),
+      threshold: data.threshold,
+      window_minutes: data.window_minutes,
+      block_duration_minutes: data.block_duration_minutes,
+      created_by_admin_id: adminId,
+      created_at: now,
+      updated_at: now,
+      blocks_created: 0
+    }
+    await this.rules.insertOne(rule)
+    this.enabledCache = null
+    return rule
+  }
+
+  async updateRule(id: number, updates: Partial<IPBlockRuleInput>): Promise<CythroDashIPBlockRule | null> {
+    await this.init()
+    const current = await this.rules.findOne({ id })
+    if (!current) return null
+    const trigger = updates.trigger ?? current.trigger
+    const merged = { ...current, ...updates }
+    this.validate(merged, trigger)
+
+    const set: any = { updated_at: new Date() }
+    for (const key of ['name', 'enabled', 'threshold', 'window_minutes', 'block_duration_minutes', 'trigger'] as const) {
+      if (updates[key] !== undefined) set[key] = key === 'name' ? String(updates.name).trim() : updates[key]
+    }
+    const fields = this.triggerFields(trigger, merged)
+    const unset: any = {}
+    for (const [key, value] of Object.entries(fields)) {
+      if (value === undefined) unset[key] = ''
+      else set[key] = value
+    }
+
+    const updated = await this.rules.findOneAndUpdate({ id }, { $set: set, ...(Object.keys(unset).length ? { $unset: unset } : {}) }, { returnDocument: 'after' })
+    // Counts toward the old settings no longer apply
+    await this.hits.deleteMany({ rule_id: id })
+    this.enabledCache = null
+    return updated
+  }
+
+  async deleteRule(id: number): Promise<boolean> {
+    await this.init()
+    const res = await this.rules.deleteOne({ id })
+    await this.hits.deleteMany({ rule_id: id })
+    this.enabledCache = null
+    return res.deletedCount > 0
+  }
+
+  private async getEnabledRules(): Promise<CythroDashIPBlockRule[]> {
+    if (this.enabledCache && Date.now() - this.enabledCache.loadedAt < RULES_TTL_MS) return this.enabledCache.rules
+    await this.init()
+    const rules = await this.rules.find({ enabled: true }).toArray()
+    this.enabledCache = { rules, loadedAt: Date.now() }
+    return rules
+  }
+
+  private matches(rule: CythroDashIPBlockRule, event: IPBlockEvent): boolean {
+    if (rule.trigger !== event.trigger) return false
+    if (rule.trigger === 'security_log') return rule.action === event.action
+    if (rule.trigger === 'referral_click') return (event.risk_score ?? 0) > (rule.min_risk_score ?? 0)
+    return true
+  }
+
+  private isWhitelisted(ip: string): boolean {
+    const list = (process.env.ADMIN_IP_WHITELIST || '').split(',').map(s => normalizeIP(s)).filter(Boolean)
+    return list.includes(ip)
+  }
+
+  /**
+   * Count an event against every enabled rule it matches and block the IP when a rule's
+   * threshold is reached. Called from the paths that write security and referral events;
+   * never throws, so it cannot break the request that produced the event.
+   */
+  async recordEvent(event: IPBlockEvent): Promise<void> {
+    try {
+      const ip = normalizeIP(event.ip_address || '')
+      if (!ip || this.isWhitelisted(ip)) return
+      const rules = (await this.getEnabledRules()).filter(rule => this.matches(rule, event))
+      if (!rules.length) return
+
+      const now = new Date()
+      for (const rule of rules) {
+        const windowMs = rule.window_minutes * 60 * 1000
+        await this.hits.insertOne({ rule_id: rule.id, ip_address: ip, created_at: now, expires_at: new Date(now.getTime() + windowMs) })
+        const count = await this.hits.countDocuments({ rule_id: rule.id, ip_address: ip, created_at: { $gte: new Date(now.getTime() - windowMs) } })
+        if (count < rule.threshold) continue
+
+        // Start counting from zero again whether or not this call is the one that blocks
+        await this.hits.deleteMany({ rule_id: rule.id, ip_address: ip })
+        if ((await blockedIPsOperations.isIPBlocked(ip)).blocked) continue
+
+        const result = await blockedIPsOperations.blockIP({
+          ip_address: ip,
+          reason: `Automatic block by rule "${rule.name}": ${count} events in ${rule.window_minutes} min`,
+          block_type: 'automatic',
+          expires_at: new Date(now.getTime() + rule.block_duration_minutes * 60 * 1000),
+          metadata: { source: BLOCK_SOURCE[rule.trigger], rule_id: rule.id, notes: `Triggered by ${event.action || rule.trigger}` }
+        })
+        if (result.success) {
+          await this.rules.updateOne({ id: rule.id }, { $inc: { blocks_created: 1 }, $set: { last_triggered_at: now } })
+        }
+      }
+    } catch (e) {
+      console.warn('IP block rule evaluation failed:', e)
+    }
+  }
+}
+
+export const ipBlockRulesOperations = new IPBlockRulesOps()
+export default ipBlockRulesOperations
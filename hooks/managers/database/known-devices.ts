@@ -0,0 +1,142 @@
+/**
+ * CythroDash - Known Login Devices Operations
+ */
+
+import { Collection } from 'mongodb'
+import crypto from 'crypto'
+import { connectToDatabase } from '@/database/index'
+import {
+  CythroDashKnownDevice,
+  KNOWN_DEVICES_COLLECTION,
+  KNOWN_DEVICES_INDEXES
+} from '@/database/tables/cythro_dash_known_devices'
+import { DeviceInfo } from '@/database/tables/cythro_dash_referrals'
+
+const CONFIRMATION_TTL_MS = 30 * 60 * 1000
+export const MAX_KNOWN_DEVICES = 20
+
+export interface DeviceSighting {
+  user_id: number
+  fingerprint: string
+  device_info: DeviceInfo
+  ip_prefix: string
+  ip_address?: string
+  country?: string
+}
+
+class KnownDevicesOps {
+  private collection!: Collection<CythroDashKnownDevice>
+  private initialized = false
+
+  private async init() {
+    if (this.initialized) return
+    const db = await connectToDatabase()
+    this.collection = db.collection<CythroDashKnownDevice>(KNOWN_DEVICES_COLLECTION)
+    for (const idx of KNOWN_DEVICES_INDEXES) {
+      try {
+        await this.collection.createIndex(idx.key as any, { name: idx.name, unique: (idx as any).unique, sparse: (idx as any).sparse })
+      } catch {}
+    }
+    this.initialized = true
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex')
+  }
+
+  /** Confirmed devices, most recently used first */
+  async getKnownDevices(user_id: number): Promise<CythroDashKnownDevice[]> {
+    await this.init()
+    return this.collection.find({ user_id, confirmed: true }).sort({ last_seen_at: -1 }).toArray()
+  }
+
+  /**
+   * Record a completed login from a device, marking it known. Only the most recently used
+   * MAX_KNOWN_DEVICES are kept per user.
+   */
+  async recordLogin(sighting: DeviceSighting): Promise<void> {
+    await this.init()
+    const now = new Date()
+    await this.collection.updateOne(
+      { user_id: sighting.user_id, fingerprint: sighting.fingerprint },
+      {
+        $set: {
+          device_info: sighting.device_info,
+          ip_prefix: sighting.ip_prefix,
+          last_ip: sighting.ip_address,
+          confirmed: true,
+          last_seen_at: now
+        },
+        $unset: { confirmation_token_hash: '', confirmation_expires_at: '', pending_country: '' },
+        $addToSet: { countries: { $each: sighting.country ? [sighting.country] : [] } },
+        $inc: { login_count: 1 },
+        $setOnInsert: { first_seen_at: now }
+      },
+      { upsert: true }
+    )
+
+    const stale = await this.collection.find({ user_id: sighting.user_id }, { projection: { _id: 1 } })
+      .sort({ last_seen_at: -1 }).skip(MAX_KNOWN_DEVICES).toArray()
+    if (stale.length > 0) {
+      await this.collection.deleteMany({ _id: { $in: stale.map(d => d._id) } })
+    }
+  }
+
+  /**
+   * Hold a pending confirmation for an unrecognised device and return the raw token for the
+   * confirmation email. A new request replaces any earlier token for the same device.
+   */
+  async createConfirmation(sighting: DeviceSighting): Promise<{ token: string; expires_at: Date }> {
+    await this.init()
+    const token = crypto.randomBytes(32).toString('hex')
+    const now = new Date()
+    const expires_at = new Date(now.getTime() + CONFIRMATION_TTL_MS)
+    await this.collection.updateOne(
+      { user_id: sighting.user_id, fingerprint: sighting.fingerprint },
+      {
+        $set: {
+          confirmation_token_hash: this.hashToken(token),
+          confirmation_expires_at: expires_at,
+          ...(sighting.country ? { pending_country: sighting.country } : {})
+        },
+        $setOnInsert: {
+          device_info: sighting.device_info,
+          ip_prefix: sighting.ip_prefix,
+          last_ip: sighting.ip_address,
+          countries: [],
+          confirmed: false,
+          login_count: 0,
+          first_seen_at: now,
+          last_seen_at: now
+        }
+      },
+      { upsert: true }
+    )
+    return { token, expires_at }
+  }
+
+  /**
+   * Redeem a confirmation token, marking the device and the country it was flagged from as
+   * known. Returns the device, or null when the token is invalid or expired.
+   */
+  async confirmDevice(token: string): Promise<CythroDashKnownDevice | null> {
+    await this.init()
+    if (!token) return null
+    const device = await this.collection.findOneAndUpdate(
+      { confirmation_token_hash: this.hashToken(token), confirmation_expires_at: { $gt: new Date() } },
+      {
+        $set: { confirmed: true },
+        $unset: { confirmation_token_hash: '', confirmation_expires_at: '', pending_country: '' }
+      },
+      { returnDocument: 'before' }
+    )
+    if (!device) return null
+    if (device.pending_country) {
+      await this.collection.updateOne({ _id: device._id }, { $addToSet: { countries: device.pending_country } })
+    }
+    return { ...device, confirmed: true }
+  }
+}
+
+export const knownDevicesOperations = new KnownDevicesOps()
+export default knownDevicesOperations
@@ -0,0 +1,193 @@
+/**
+ * CythroDash - Ledger Reconciliation
+ *
+ * Replays `cythro_dash_rewards_ledger` per user and compares the result with the stored
+ * `coins`, `total_coins_earned` and `total_coins_spent`. Lifetime totals follow the wallet:
+ * positive entries count as earned, negative ones as spent, and reversals undo the side
+ * of the entry they reverse.
+ *
+ * Corrections never move coins. They write an `admin_adjustment` entry for the unexplained
+ * difference (so the ledger replays to the stored balance) and reset the totals to the replay.
+ * scripts/reconcile-ledger.js implements the same replay for the CLI.
+ */
+
+import { Collection } from 'mongodb'
+import { connectToDatabase } from '@/database/index'
+import { CythroDashUser } from '@/database/tables/cythro_dash_users'
+import { CythroDashRewardLedgerEntry, REWARDS_LEDGER_COLLECTION } from '@/database/tables/cythro_dash_rewards_ledger'
+import { rewardsLedgerOperations } from './rewards-ledger'
+
+export type ReconciliationStatus = 'ok' | 'mismatch' | 'corrected' | 'skipped'
+
+export interface ReconciliationRow {
+  user_id: number
+  username: string
+  entries: number
+  stored_coins: number
+  ledger_coins: number
+  coins_diff: number // stored - ledger
+  stored_earned: number
+  ledger_earned: number
+  earned_diff: number
+  stored_spent: number
+  ledger_spent: number
+  spent_diff: number
+  status: ReconciliationStatus
+  correction_entry_id?: number
+}
+
+export interface ReconciliationReport {
+  generated_at: Date
+  users_checked: number
+  mismatched: number
+  corrected: number
+  skipped: number
+  rows: ReconciliationRow[]
+}
+
+export interface ReconciliationOptions {
+  user_id?: number
+  include_ok?: boolean // Include users whose balances match (default: mismatches only)
+  apply?: boolean // Write correcting entries
+  admin_id?: number // Recorded on correcting entries
+}
+
+interface LedgerTotals { coins: number; earned: number; spent: number; entries: number }
+
+export const RECONCILIATION_CSV_COLUMNS: (keyof ReconciliationRow)[] = [
+  'user_id', 'username', 'entries',
+  'stored_coins', 'ledger_coins', 'coins_diff',
+  'stored_earned', 'ledger_earned', 'earned_diff',
+  'stored_spent', 'ledger_spent', 'spent_diff',
+  'status', 'correction_entry_id',
+]
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  const s = String(value)
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+export function reconciliationToCsv(report: ReconciliationReport): string {
+  const lines = [RECONCILIATION_CSV_COLUMNS.join(',')]
+  for (const row of report.rows) lines.push(RECONCILIATION_CSV_COLUMNS.map(c => csvCell(row[c])).join(','))
+  return lines.join('\n') + '\n'
+}
+
+class LedgerReconciliationOps {
+  private users!: Collection<CythroDashUser>
+  private ledger!: Collection<CythroDashRewardLedgerEntry>
+  private initialized = false
+
+  private async init() {
+    if (this.initialized) return
+    const db = await connectToDatabase()
+    this.users = db.collection<CythroDashUser>('cythro_dash_users')
+    this.ledger = db.collection<CythroDashRewardLedgerEntry>(REWARDS_LEDGER_COLLECTION)
+    this.initialized = true
+  }
+
+  async run(options: ReconciliationOptions = {}): Promise<ReconciliationReport> {
+    await this.init()
+    const totals = await this.replay(options.user_id)
+
+    const report: ReconciliationReport = { generated_at: new Date(), users_checked: 0, mismatched: 0, corrected: 0, skipped: 0, rows: [] }
+    const userFilter = options.user_id !== undefined ? { id: options.user_id } : {}
+    const cursor = this.users.find(userFilter, { projection: { id: 1, username: 1, coins: 1, total_coins_earned: 1, total_coins_spent: 1 } }).sort({ id: 1 })
+
+    for await (const user of cursor) {
+      report.users_checked++
+      const t = totals.get(user.id) || { coins: 0, earned: 0, spent: 0, entries: 0 }
+      const row: ReconciliationRow = {
+        user_id: user.id,
+        username: user.username,
+        entries: t.entries,
+        stored_coins: user.coins || 0,
+        ledger_coins: t.coins,
+        coins_diff: (user.coins || 0) - t.coins,
+        stored_earned: user.total_coins_earned || 0,
+        ledger_earned: t.earned,
+        earned_diff: (user.total_coins_earned || 0) - t.earned,
+        stored_spent: user.total_coins_spent || 0,
+        ledger_spent: t.spent,
+        spent_diff: (user.total_coins_spent || 0) - t.spent,
+        status: 'ok',
+      }
+
+      if (row.coins_diff !== 0 || row.earned_diff !== 0 || row.spent_diff !== 0) {
+        row.status = 'mismatch'
+        report.mismatched++
+        if (options.apply) {
+          row.status = await this.correct(row, options.admin_id)
+          if (row.status === 'corrected') report.corrected++
+          else report.skipped++
+        }
+      }
+
+      if (row.status !== 'ok' || options.include_ok) report.rows.push(row)
+    }
+
+    return report
+  }
+
+  /** Sum every user's ledger in one pass */
+  private async replay(userId?: number): Promise<Map<number, LedgerTotals>> {
+    const isReversal = { $ne: [{ $type: '$reverses_entry_id' }, 'missing'] }
+    const pipeline: any[] = []
+    if (userId !== undefined) pipeline.push({ $match: { user_id: userId } })
+    pipeline.push({
+      $group: {
+        _id: '$user_id',
+        coins: { $sum: '$delta' },
+        entries: { $sum: 1 },
+        earned: { $sum: { $cond: [isReversal, { $min: ['$delta', 0] }, { $max: ['$delta', 0] }] } },
+        spent: { $sum: { $cond: [isReversal, { $multiply: [{ $max: ['$delta', 0] }, -1] }, { $multiply: [{ $min: ['$delta', 0] }, -1] }] } },
+      },
+    })
+
+    const map = new Map<number, LedgerTotals>()
+    for await (const g of this.ledger.aggregate<{ _id: number; coins: number; earned: number; spent: number; entries: number }>(pipeline)) {
+      map.set(g._id, { coins: g.coins, earned: g.earned, spent: g.spent, entries: g.entries })
+    }
+    return map
+  }
+
+  /**
+   * Make the ledger explain the stored balance. Skipped when the balance moved since it was read.
+   */
+  private async correct(row: ReconciliationRow, adminId?: number): Promise<'corrected' | 'skipped'> {
+    const diff = row.coins_diff
+    const earned = row.ledger_earned + Math.max(diff, 0)
+    const spent = row.ledger_spent + Math.max(-diff, 0)
+
+    const res = await this.users.updateOne(
+      { id: row.user_id, coins: row.stored_coins },
+      { $set: { total_coins_earned: earned, total_coins_spent: spent, updated_at: new Date() } }
+    )
+    if (res.matchedCount === 0) return 'skipped'
+
+    if (diff !== 0) {
+      try {
+        const entry = await rewardsLedgerOperations.add({
+          user_id: row.user_id,
+          delta: diff,
+          balance_before: row.ledger_coins,
+          balance_after: row.stored_coins,
+          source_category: 'admin_adjustment',
+          source_action: 'adjust',
+          reference_id: adminId !== undefined ? `reconciliation:${adminId}` : 'reconciliation',
+          message: 'Ledger reconciliation: balance not explained by ledger history',
+        })
+        row.correction_entry_id = entry.id
+      } catch (error) {
+        console.error(`Ledger reconciliation: failed to write correction for user ${row.user_id}:`, error)
+        return 'skipped'
+      }
+    }
+
+    return 'corrected'
+  }
+}
+
+export const ledgerReconciliationOperations = new LedgerReconciliationOps()
+export default ledgerReconciliationOperations
@@ -12,6 +12,7 @@ import {
   CythroDashLocation,
   LocationStatus,
   LocationVisibility,
+  LocationPlacement,
   ResourceCapacity,
   ResourceUsage,
   LocationHelpers,
@@ -35,6 +36,7 @@ export interface CreateLocationData {
   priority?: number;
   max_servers_per_user?: number;
   allowed_server_types?: string[];
+  placement?: LocationPlacement;
   features?: {
     ddos_protection: boolean;
     backup_storage: boolean;
@@ -67,6 +69,7 @@ export interface UpdateLocationData {
   priority?: number;
   max_servers_per_user?: number;
   allowed_server_types?: string[];
+  placement?: LocationPlacement;
   features?: {
     ddos_protection?: boolean;
     backup_storage?: boolean;
@@ -246,6 +249,20 @@ class LocationOperations {
     return result.modifiedCount > 0;
   }
 
+  // Put a location on a capacity hold, or lift it with null
+  async setCapacityHold(id: string, hold: CythroDashLocation['capacity_hold'] | null): Promise<boolean> {
+    const collection = await locationsCollection.getCollection();
+
+    const result = await collection.updateOne(
+      { id },
+      hold
+        ? { $set: { capacity_hold: hold, updated_at: new Date() } }
+        : { $unset: { capacity_hold: '' }, $set: { updated_at: new Date() } }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
   // Delete location (soft delete by setting status to disabled)
   async deleteLocation(id: string): Promise<boolean> {
     const collection = await locationsCollection.getCollection();
@@ -0,0 +1,81 @@
+/**
+ * CythroDash - Per-IP Login Lockout Operations
+ */
+
+import { Collection } from 'mongodb'
+import { connectToDatabase } from '@/database/index'
+import {
+  CythroDashLoginLockout,
+  LOGIN_LOCKOUTS_COLLECTION,
+  LOGIN_LOCKOUTS_INDEXES
+} from '@/database/tables/cythro_dash_login_lockouts'
+
+class LoginLockoutsOps {
+  private collection!: Collection<CythroDashLoginLockout>
+  private initialized = false
+
+  private async init() {
+    if (this.initialized) return
+    const db = await connectToDatabase()
+    this.collection = db.collection<CythroDashLoginLockout>(LOGIN_LOCKOUTS_COLLECTION)
+    for (const idx of LOGIN_LOCKOUTS_INDEXES) {
+      try {
+        await this.collection.createIndex(idx.key as any, { name: idx.name, unique: (idx as any).unique, expireAfterSeconds: (idx as any).expireAfterSeconds })
+      } catch {}
+    }
+    this.initialized = true
+  }
+
+  async get(user_id: number, ip_address: string): Promise<CythroDashLoginLockout | null> {
+    await this.init()
+    return this.collection.findOne({ user_id, ip_address })
+  }
+
+  /** Count a failed login and return the updated record */
+  async recordFailure(user_id: number, ip_address: string): Promise<CythroDashLoginLockout> {
+    await this.init()
+    const now = new Date()
+    const record = await this.collection.findOneAndUpdate(
+      { user_id, ip_address },
+      {
+        $inc: { failed_attempts: 1 },
+        $set: { last_failed_at: now, updated_at: now },
+        $setOnInsert: { lockout_count: 0 }
+      },
+      { upsert: true, returnDocument: 'after' }
+    )
+    return record!
+  }
+
+  /** Lock the address out until the given time and start counting failures afresh */
+  async lock(user_id: number, ip_address: string, locked_until: Date): Promise<void> {
+    await this.init()
+    await this.collection.updateOne(
+      { user_id, ip_address },
+      { $set: { locked_until, failed_attempts: 0, updated_at: new Date() }, $inc: { lockout_count: 1 } }
+    )
+  }
+
+  /** Forget an address after a successful login */
+  async clear(user_id: number, ip_address: string): Promise<void> {
+    await this.init()
+    await this.collection.deleteOne({ user_id, ip_address })
+  }
+
+  /** Addresses currently locked out of an account */
+  async getActiveLocks(user_id: number): Promise<CythroDashLoginLockout[]> {
+    await this.init()
+    return this.collection.find({ user_id, locked_until: { $gt: new Date() } }).sort({ locked_until: -1 }).toArray()
+  }
+
+  /** Drop every lockout and counter for an account; returns how many addresses were locked */
+  async clearUser(user_id: number): Promise<number> {
+    await this.init()
+    const locked = await this.collection.countDocuments({ user_id, locked_until: { $gt: new Date() } })
+    await this.collection.deleteMany({ user_id })
+    return locked
+  }
+}
+
+export const loginLockoutsOperations = new LoginLockoutsOps()
+export default loginLockoutsOperations
@@ -0,0 +1,154 @@
+/**
+ * CythroDash - Node Statistics History Operations
+ */
+
+import { AnyBulkWriteOperation, Collection } from 'mongodb'
+import { connectToDatabase } from '@/database/index'
+import {
+  CythroDashNodeStats,
+  NodeStatsGranularity,
+  NodeStatsPoint,
+  NODE_STATS_COLLECTION,
+  NODE_STATS_INDEXES
+} from '@/database/tables/cythro_dash_node_stats'
+
+/** Averages of one node's samples within one time bucket */
+export interface NodeStatsBucket {
+  node_id: number
+  bucket_start: Date
+  latest: CythroDashNodeStats
+  memory_used: number
+  memory_total: number
+  disk_used: number
+  disk_total: number
+  servers_total: number
+  servers_running: number
+  servers_suspended: number
+  health: number
+  sample_count: number
+}
+
+class NodeStatsOps {
+  private collection!: Collection<CythroDashNodeStats>
+  private initialized = false
+
+  private async init() {
+    if (this.initialized) return
+    const db = await connectToDatabase()
+    this.collection = db.collection<CythroDashNodeStats>(NODE_STATS_COLLECTION)
+    for (const idx of NODE_STATS_INDEXES) {
+      try {
+        await this.collection.createIndex(idx.key as any, { name: idx.name, unique: (idx as any).unique, expireAfterSeconds: (idx as any).expireAfterSeconds })
+      } catch {}
+    }
+    this.initialized = true
+  }
+
+  /** Insert or replace records, keyed by node, granularity and time */
+  async upsertMany(records: CythroDashNodeStats[]): Promise<number> {
+    await this.init()
+    if (records.length === 0) return 0
+    const ops: AnyBulkWriteOperation<CythroDashNodeStats>[] = records.map(({ _id, ...record }) => ({
+      replaceOne: {
+        filter: { pterodactyl_node_id: record.pterodactyl_node_id, granularity: record.granularity, recorded_at: record.recorded_at },
+        replacement: record,
+        upsert: true
+      }
+    }))
+    const result = await this.collection.bulkWrite(ops, { ordered: false })
+    return result.upsertedCount + result.modifiedCount
+  }
+
+  /** Time of the newest record with this granularity */
+  async latestRecordedAt(granularity: NodeStatsGranularity): Promise<Date | null> {
+    await this.init()
+    const latest = await this.collection.find({ granularity }).project<{ recorded_at: Date }>({ recorded_at: 1 }).sort({ recorded_at: -1 }).limit(1).toArray()
+    return latest[0]?.recorded_at ?? null
+  }
+
+  /** Group `granularity` records in [since, before) into buckets of `bucketMs` per node */
+  async aggregateBuckets(granularity: NodeStatsGranularity, since: Date, before: Date, bucketMs: number): Promise<NodeStatsBucket[]> {
+    await this.init()
+    const time = { $toLong: '$recorded_at' }
+    const rows = await this.collection.aggregate<any>([
+      { $match: { granularity, recorded_at: { $gte: since, $lt: before } } },
+      { $sort: { recorded_at: 1 } },
+      {
+        $group: {
+          _id: { node: '$pterodactyl_node_id', bucket: { $subtract: [time, { $mod: [time, bucketMs] }] } },
+          latest: { $last: '$$ROOT' },
+          memory_used: { $avg: '$resources.memory.used' },
+          memory_total: { $avg: '$resources.memory.total' },
+          disk_used: { $avg: '$resources.disk.used' },
+          disk_total: { $avg: '$resources.disk.total' },
+          servers_total: { $avg: '$servers.total' },
+          servers_running: { $avg: '$servers.running' },
+          servers_suspended: { $avg: '$servers.suspended' },
+          health: { $avg: '$health.overall_score' },
+          sample_count: { $sum: { $ifNull: ['$sample_count', 1] } }
+        }
+      }
+    ]).toArray()
+
+    return rows.map(({ _id, ...row }) => ({ ...row, node_id: _id.node, bucket_start: new Date(Number(_id.bucket)) }))
+  }
+
+  /** A node's records since `from`, oldest first */
+  async getNodeSeries(nodeId: number, granularity: NodeStatsGranularity, from: Date): Promise<NodeStatsPoint[]> {
+    await this.init()
+    const records = await this.collection
+      .find({ pterodactyl_node_id: nodeId, granularity, recorded_at: { $gte: from } })
+      .project<Pick<CythroDashNodeStats, 'recorded_at' | 'resources' | 'servers' | 'health'>>({ recorded_at: 1, resources: 1, servers: 1, health: 1 })
+      .sort({ recorded_at: 1 })
+      .toArray()
+
+    return records.map(r => ({
+      recorded_at: r.recorded_at,
+      memory_used: r.resources.memory.used,
+      memory_total: r.resources.memory.total,
+      memory_percentage: r.resources.memory.percentage,
+      disk_used: r.resources.disk.used,
+      disk_total: r.resources.disk.total,
+      disk_percentage: r.resources.disk.percentage,
+      servers: r.servers.total,
+      health: r.health.overall_score
+    }))
+  }
+
+  /** Totals across a location's nodes at each recorded time since `from`, oldest first */
+  async getLocationSeries(pterodactylLocationId: number, granularity: NodeStatsGranularity, from: Date): Promise<NodeStatsPoint[]> {
+    await this.init()
+    const rows = await this.collection.aggregate<any>([
+      { $match: { pterodactyl_location_id: pterodactylLocationId, granularity, recorded_at: { $gte: from } } },
+      {
+        $group: {
+          _id: '$recorded_at',
+          memory_used: { $sum: '$resources.memory.used' },
+          memory_total: { $sum: '$resources.memory.total' },
+          disk_used: { $sum: '$resources.disk.used' },
+          disk_total: { $sum: '$resources.disk.total' },
+          servers: { $sum: '$servers.total' },
+          health: { $avg: '$health.overall_score' },
+          nodes: { $sum: 1 }
+        }
+      },
+      { $sort: { _id: 1 } }
+    ]).toArray()
+
+    const percentage = (used: number, total: number) => total > 0 ? Math.round((used / total) * 10000) / 100 : 0
+    return rows.map(r => ({
+      recorded_at: r._id,
+      memory_used: r.memory_used,
+      memory_total: r.memory_total,
+      memory_percentage: percentage(r.memory_used, r.memory_total),
+      disk_used: r.disk_used,
+      disk_total: r.disk_total,
+      disk_percentage: percentage(r.disk_used, r.disk_total),
+      servers: r.servers,
+      health: Math.round(r.health),
+      nodes: r.nodes
+    }))
+  }
+}
+
+export const nodeStatsOperations = new NodeStatsOps()
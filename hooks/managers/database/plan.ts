@@ -15,6 +15,7 @@ import {
   ResourceLimits,
   PlanFeatures,
   PlanRestrictions,
+  PlanLifecyclePolicy,
   PlanHelpers,
   PLANS_COLLECTION
 } from '../../../database/tables/cythro_dash_plans';
@@ -51,6 +52,7 @@ export interface CreatePlanData {
     valid_until?: Date;
     promo_code?: string;
   };
+  lifecycle?: PlanLifecyclePolicy;
   created_by: number;
 }
 
@@ -85,6 +87,7 @@ export interface UpdatePlanData {
     valid_until?: Date;
     promo_code?: string;
   };
+  lifecycle?: PlanLifecyclePolicy;
   last_modified_by?: number;
 }
 
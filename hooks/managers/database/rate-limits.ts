@@ -0,0 +1,54 @@
+/**
+ * CythroDash - Rate Limit Counters Operations
+ */
+
+import { Collection } from 'mongodb'
+import { connectToDatabase } from '@/database/index'
+import { CythroDashRateLimitCounter, RATE_LIMITS_COLLECTION, RATE_LIMITS_INDEXES } from '@/database/tables/cythro_dash_rate_limits'
+
+class RateLimitsOps {
+  private collection!: Collection<CythroDashRateLimitCounter>
+  private initialized = false
+
+  private async init() {
+    if (this.initialized) return
+    const db = await connectToDatabase()
+    this.collection = db.collection<CythroDashRateLimitCounter>(RATE_LIMITS_COLLECTION)
+    for (const idx of RATE_LIMITS_INDEXES) {
+      try { await this.collection.createIndex(idx.key as any, { name: idx.name, unique: (idx as any).unique, expireAfterSeconds: (idx as any).expireAfterSeconds }) } catch {}
+    }
+    this.initialized = true
+  }
+
+  /** Add `amount` to the key's counter for the window and return the new count */
+  async increment(key: string, windowStart: number, windowMs: number, amount = 1): Promise<number> {
+    await this.init()
+    const update = {
+      $inc: { count: amount },
+      $setOnInsert: { expires_at: new Date(windowStart + 2 * windowMs) }
+    }
+    try {
+      const doc = await this.collection.findOneAndUpdate({ key, window_start: new Date(windowStart) }, update, { upsert: true, returnDocument: 'after' })
+      return doc?.count ?? amount
+    } catch (e: any) {
+      // Two instances inserted the same counter at once; the other insert won, so update it
+      if (e?.code !== 11000) throw e
+      const doc = await this.collection.findOneAndUpdate({ key, window_start: new Date(windowStart) }, update, { returnDocument: 'after' })
+      return doc?.count ?? amount
+    }
+  }
+
+  async getCount(key: string, windowStart: number): Promise<number> {
+    await this.init()
+    const doc = await this.collection.findOne({ key, window_start: new Date(windowStart) })
+    return doc?.count ?? 0
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.init()
+    await this.collection.deleteMany({ key })
+  }
+}
+
+export const rateLimitsOperations = new RateLimitsOps()
+export default rateLimitsOperations
@@ -171,22 +171,6 @@ class LoggingOperations {
 
       await collection.insertOne(logEntry);
 
-      // Auto-block IP if risk score exceeds threshold
-      try {
-        if (riskScore >= (Number(process.env.SECURITY_AUTO_BLOCK_RISK_THRESHOLD) || 85)) {
-          const { blockedIPsOperations } = await import('@/hooks/managers/database/blocked-ips')
-          await blockedIPsOperations.blockIP({
-            ip_address: securityInfo.ip_address || 'unknown',
-            reason: `Automatic block via referral risk score ${riskScore}`,
-            block_type: 'automatic',
-            expires_at: new Date(Date.now() + ((Number(process.env.SECURITY_AUTO_BLOCK_DURATION_HOURS) || 24) * 60 * 60 * 1000)),
-            metadata: { source: 'referral', notes: 'Auto-block from referral risk scoring' }
-          })
-        }
-      } catch (e) {
-        console.warn('Auto-block referral IP failed:', e)
-      }
-
       return true;
     } catch (error) {
       console.error('Error logging referral activity:', error);
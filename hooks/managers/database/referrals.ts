@@ -9,6 +9,8 @@
 import { Collection } from 'mongodb';
 import { connectToDatabase } from '../../../database/index';
 import { userOperations } from './user';
+import { walletOperations } from './wallet';
+import { ipBlockRulesOperations } from './ip-block-rules';
 import {
   CythroDashReferralClick,
   CythroDashReferralSignup,
@@ -250,6 +252,13 @@ class ReferralOperations {
     
     // Update user stats
     await this.updateUserStats(clickData.referrer_id);
+
+    // Automatic IP block rules count risky clicks against the clicking IP
+    await ipBlockRulesOperations.recordEvent({
+      trigger: 'referral_click',
+      ip_address: securityInfo.ip_address,
+      risk_score: riskScore
+    });
     
     return createdClick;
   }
@@ -514,23 +523,25 @@ class ReferralOperations {
       // Update user's coin balance if there are rewards to claim
       let newBalance = 0;
       if (totalClaimed > 0) {
-        const coinsUpdated = await userOperations.updateCoins(userId, totalClaimed, 'Referral rewards claim');
-        if (coinsUpdated) {
-          // Get updated user to get new balance
-          const updatedUser = await userOperations.getUserById(userId);
-          if (updatedUser) {
-            newBalance = updatedUser.coins;
-
-            // Update user's referral earnings
-            await userOperations.updateUser(userId, {
-              referral_earnings: (updatedUser.referral_earnings || 0) + totalClaimed
-            });
-          } else {
-            throw new Error('Failed to retrieve updated user');
-          }
-        } else {
+        const credit = await walletOperations.credit({
+          user_id: userId,
+          amount: totalClaimed,
+          source_category: 'referral',
+          message: 'Referral rewards claim'
+        });
+        if (!credit.success) {
           throw new Error('Failed to update user coins');
         }
+        newBalance = credit.balance ?? 0;
+
+        // Update user's referral earnings
+        const updatedUser = await userOperations.getUserById(userId);
+        if (!updatedUser) {
+          throw new Error('Failed to retrieve updated user');
+        }
+        await userOperations.updateUser(userId, {
+          referral_earnings: (updatedUser.referral_earnings || 0) + totalClaimed
+        });
       } else {
         const user = await userOperations.getUserById(userId);
         newBalance = user?.coins || 0;
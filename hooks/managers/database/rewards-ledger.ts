@@ -16,7 +16,7 @@ class RewardsLedgerOps {
     const db = await connectToDatabase()
     this.collection = db.collection<CythroDashRewardLedgerEntry>(REWARDS_LEDGER_COLLECTION)
     for (const idx of REWARDS_LEDGER_INDEXES) {
-      try { await this.collection.createIndex(idx.key as any, { name: idx.name }) } catch {}
+      try { await this.collection.createIndex(idx.key as any, { name: idx.name, unique: (idx as any).unique, sparse: (idx as any).sparse }) } catch {}
     }
     const last = await this.collection.findOne({}, { sort: { id: -1 } })
     this.counter = last?.id || 0
@@ -32,6 +32,11 @@ class RewardsLedgerOps {
     return doc
   }
 
+  async findByIdempotencyKey(key: string): Promise<CythroDashRewardLedgerEntry | null> {
+    await this.init()
+    return this.collection.findOne({ idempotency_key: key })
+  }
+
   async query(params: { user_id?: number; source_category?: RewardSourceCategory; page?: number; limit?: number; }): Promise<{ entries: CythroDashRewardLedgerEntry[]; total: number; }> {
     await this.init()
     const filter: any = {}
@@ -0,0 +1,97 @@
+/**
+ * CythroDash - Admin Roles Operations
+ */
+
+import { Collection } from 'mongodb'
+import { connectToDatabase } from '@/database/index'
+import {
+  CythroDashRole,
+  DEFAULT_ROLES,
+  ROLES_COLLECTION,
+  ROLES_INDEXES
+} from '@/database/tables/cythro_dash_roles'
+
+// Permission lookups happen on every admin request
+const CACHE_TTL_MS = 30 * 1000
+
+class RolesOps {
+  private collection!: Collection<CythroDashRole>
+  private initialized = false
+  private cache: { roles: Map<string, CythroDashRole>; loaded_at: number } | null = null
+
+  private async init() {
+    if (this.initialized) return
+    const db = await connectToDatabase()
+    this.collection = db.collection<CythroDashRole>(ROLES_COLLECTION)
+    for (const idx of ROLES_INDEXES) {
+      try {
+        await this.collection.createIndex(idx.key as any, { name: idx.name, unique: (idx as any).unique })
+      } catch {}
+    }
+    const now = new Date()
+    for (const role of DEFAULT_ROLES) {
+      try {
+        await this.collection.updateOne(
+          { id: role.id },
+          { $setOnInsert: { ...role, builtin: true, created_at: now, updated_at: now } },
+          { upsert: true }
+        )
+      } catch {}
+    }
+    this.initialized = true
+  }
+
+  private invalidate() {
+    this.cache = null
+  }
+
+  async list(): Promise<CythroDashRole[]> {
+    await this.init()
+    return this.collection.find({}, { projection: { _id: 0 } }).sort({ builtin: -1, name: 1 }).toArray()
+  }
+
+  /** Role by id, served from a short-lived cache */
+  async get(id: string): Promise<CythroDashRole | null> {
+    await this.init()
+    if (!this.cache || Date.now() - this.cache.loaded_at > CACHE_TTL_MS) {
+      const roles = await this.list()
+      this.cache = { roles: new Map(roles.map(r => [r.id, r])), loaded_at: Date.now() }
+    }
+    return this.cache.roles.get(id) || null
+  }
+
+  async create(role: Pick<CythroDashRole, 'id' | 'name' | 'description' | 'permissions'>): Promise<CythroDashRole> {
+    await this.init()
+    const now = new Date()
+    const doc: CythroDashRole = { ...role, builtin: false, created_at: now, updated_at: now }
+    if (doc.description === undefined) delete doc.description
+    await this.collection.insertOne({ ...doc })
+    this.invalidate()
+    return doc
+  }
+
+  async update(id: string, patch: Partial<Pick<CythroDashRole, 'name' | 'description' | 'permissions'>>): Promise<CythroDashRole | null> {
+    await this.init()
+    const $set: Partial<CythroDashRole> = { updated_at: new Date() }
+    for (const [key, value] of Object.entries(patch)) {
+      if (value !== undefined) ($set as any)[key] = value
+    }
+    const updated = await this.collection.findOneAndUpdate(
+      { id },
+      { $set },
+      { returnDocument: 'after', projection: { _id: 0 } }
+    )
+    this.invalidate()
+    return updated
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.init()
+    const result = await this.collection.deleteOne({ id })
+    this.invalidate()
+    return result.deletedCount > 0
+  }
+}
+
+export const rolesOperations = new RolesOps()
+export default rolesOperations
@@ -0,0 +1,88 @@
+/**
+ * CythroDash - Server Migration Operations
+ */
+
+import { Collection, ObjectId } from 'mongodb'
+import { connectToDatabase } from '@/database/index'
+import {
+  CythroDashServerMigration,
+  ServerMigrationState,
+  SERVER_MIGRATIONS_COLLECTION,
+  SERVER_MIGRATIONS_INDEXES
+} from '@/database/tables/cythro_dash_server_migrations'
+
+class ServerMigrationsOps {
+  private collection!: Collection<CythroDashServerMigration>
+  private initialized = false
+
+  private async init() {
+    if (this.initialized) return
+    const db = await connectToDatabase()
+    this.collection = db.collection<CythroDashServerMigration>(SERVER_MIGRATIONS_COLLECTION)
+    for (const idx of SERVER_MIGRATIONS_INDEXES) {
+      try {
+        await this.collection.createIndex(idx.key as any, { name: idx.name, unique: (idx as any).unique, partialFilterExpression: (idx as any).partialFilterExpression })
+      } catch {}
+    }
+    this.initialized = true
+  }
+
+  /** Insert a migration; returns null when the server already has an active one */
+  async create(migration: Omit<CythroDashServerMigration, '_id'>): Promise<CythroDashServerMigration | null> {
+    await this.init()
+    try {
+      const result = await this.collection.insertOne(migration)
+      return { ...migration, _id: result.insertedId }
+    } catch (error: any) {
+      if (error?.code === 11000) return null
+      throw error
+    }
+  }
+
+  async getById(id: string): Promise<CythroDashServerMigration | null> {
+    await this.init()
+    if (!ObjectId.isValid(id)) return null
+    return this.collection.findOne({ _id: new ObjectId(id) })
+  }
+
+  async getActiveByServer(server_id: string): Promise<CythroDashServerMigration | null> {
+    await this.init()
+    return this.collection.findOne({ server_id, active: true })
+  }
+
+  /** Oldest first, so the queue drains in request order */
+  async listActive(limit = 50): Promise<CythroDashServerMigration[]> {
+    await this.init()
+    return this.collection.find({ active: true }).sort({ created_at: 1 }).limit(limit).toArray()
+  }
+
+  /** Newest first */
+  async list(options: { server_id?: string; active?: boolean; limit?: number } = {}): Promise<CythroDashServerMigration[]> {
+    await this.init()
+    const filter: any = {}
+    if (options.server_id) filter.server_id = options.server_id
+    if (options.active !== undefined) filter.active = options.active
+    return this.collection.find(filter).sort({ created_at: -1 }).limit(options.limit ?? 100).toArray()
+  }
+
+  /**
+   * Move a migration from one state to the next. Conditional on the current state so a cron run
+   * and a request (or two cron runs) cannot both apply the same step; returns false if it lost.
+   */
+  async transition(id: ObjectId, from: ServerMigrationState, to: ServerMigrationState, fields: Partial<Omit<CythroDashServerMigration, '_id' | 'state'>> = {}): Promise<boolean> {
+    await this.init()
+    const now = new Date()
+    const result = await this.collection.updateOne(
+      { _id: id, state: from },
+      { $set: { ...fields, state: to, updated_at: now, state_changed_at: now } }
+    )
+    return result.modifiedCount > 0
+  }
+
+  async update(id: ObjectId, fields: Partial<Omit<CythroDashServerMigration, '_id' | 'state'>>): Promise<void> {
+    await this.init()
+    await this.collection.updateOne({ _id: id }, { $set: { ...fields, updated_at: new Date() } })
+  }
+}
+
+export const serverMigrationsOperations = new ServerMigrationsOps()
@@ -17,6 +17,7 @@ import {
   ServerHelpers,
   SERVERS_COLLECTION,
   ResourceUsage,
+  AppliedDiscount,
   BillingInfo,
   ServerConfiguration,
   ServerLimits
@@ -443,6 +444,136 @@ export const serverOperations = {
     }
   },
 
+  async markServerOverdue(serverId: string, overdueAmount: number): Promise<boolean> {
+    try {
+      const collection = await serversCollection.getCollection();
+      const result = await collection.updateOne({ id: serverId, status: ServerStatus.ACTIVE }, {
+        $set: {
+          billing_status: BillingStatus.OVERDUE,
+          'billing.overdue_amount': overdueAmount,
+          updated_at: new Date()
+        }
+      });
+      return result.matchedCount > 0;
+    } catch (error) {
+      console.error('Error marking server overdue:', error);
+      return false;
+    }
+  },
+
+  async clearServerOverdue(serverId: string): Promise<boolean> {
+    try {
+      const collection = await serversCollection.getCollection();
+      const result = await collection.updateOne({ id: serverId, billing_status: BillingStatus.OVERDUE }, {
+        $set: {
+          billing_status: BillingStatus.ACTIVE,
+          'billing.overdue_amount': 0,
+          updated_at: new Date()
+        }
+      });
+      return result.modifiedCount > 0;
+    } catch (error) {
+      console.error('Error clearing server overdue:', error);
+      return false;
+    }
+  },
+
+  // Servers with an unpaid balance: billing-suspended, or still active inside the grace period
+  async findOverdueServersByUser(userId: number): Promise<CythroDashServer[]> {
+    try {
+      const collection = await serversCollection.getCollection();
+      return await collection.find({
+        user_id: userId,
+        'billing.overdue_amount': { $gt: 0 },
+        $or: [
+          { status: ServerStatus.SUSPENDED, billing_status: BillingStatus.SUSPENDED },
+          { status: ServerStatus.ACTIVE, billing_status: BillingStatus.OVERDUE }
+        ]
+      }).sort({ auto_delete_at: 1, 'billing.next_billing_date': 1 }).toArray();
+    } catch (error) {
+      console.error('Error finding overdue servers:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Mark an overdue server as paid and active again. Only applies if the server is still in the
+   * state it was read in, so two concurrent settlements cannot both succeed.
+   */
+  async settleOverdueServer(server: CythroDashServer, paidAt: Date, nextBillingDate: Date): Promise<boolean> {
+    try {
+      const collection = await serversCollection.getCollection();
+      const amount = server.billing?.overdue_amount || 0;
+      const result = await collection.updateOne({
+        id: server.id,
+        status: server.status,
+        billing_status: server.billing_status,
+        'billing.overdue_amount': amount
+      }, {
+        $set: {
+          status: ServerStatus.ACTIVE,
+          billing_status: BillingStatus.ACTIVE,
+          expiry_date: nextBillingDate,
+          'billing.overdue_amount': 0,
+          'billing.next_billing_date': nextBillingDate,
+          'billing.last_billing_date': paidAt,
+          updated_at: paidAt
+        },
+        $inc: { 'billing.total_cost': amount },
+        $unset: { auto_delete_at: '', suspension_info: '' }
+      });
+      return result.modifiedCount > 0;
+    } catch (error) {
+      console.error('Error settling overdue server:', error);
+      return false;
+    }
+  },
+
+  // Switch plans; only applies if the plan and billing date are still the ones the change was priced on
+  async applyPlanChange(server: CythroDashServer, change: { plan_id: string; limits: ServerLimits; monthly_cost: number; billing_cycle: string; amount: number; discount: AppliedDiscount | null }, changedAt: Date): Promise<boolean> {
+    try {
+      const collection = await serversCollection.getCollection();
+      const result = await collection.updateOne({
+        id: server.id,
+        status: ServerStatus.ACTIVE,
+        'billing.plan_id': server.billing.plan_id,
+        'billing.next_billing_date': server.billing.next_billing_date
+      }, {
+        $set: {
+          limits: change.limits,
+          'billing.plan_id': change.plan_id,
+          'billing.monthly_cost': change.monthly_cost,
+          'billing.billing_cycle': change.billing_cycle,
+          'billing.discount': change.discount,
+          expiry_date: server.billing.next_billing_date,
+          updated_at: changedAt
+        },
+        $inc: { 'billing.total_cost': change.amount }
+      });
+      return result.modifiedCount > 0;
+    } catch (error) {
+      console.error('Error applying plan change:', error);
+      return false;
+    }
+  },
+
+  // Point a server at its migrated panel server; only applies if it still has the one the migration started from
+  async switchPanelServer(serverId: string, fromPterodactylId: number, target: { pterodactyl_server_id: number; pterodactyl_uuid?: string; pterodactyl_identifier?: string; location_id: string }, switchedAt: Date): Promise<boolean> {
+    try {
+      const collection = await serversCollection.getCollection();
+      const result = await collection.updateOne({
+        id: serverId,
+        pterodactyl_server_id: fromPterodactylId
+      }, {
+        $set: { ...target, updated_at: switchedAt }
+      });
+      return result.modifiedCount > 0;
+    } catch (error) {
+      console.error('Error switching server panel identifiers:', error);
+      return false;
+    }
+  },
+
   async findSuspendedDueDeletion(cutoff: Date): Promise<CythroDashServer[]> {
     try {
       const collection = await serversCollection.getCollection();
@@ -453,6 +584,79 @@ export const serverOperations = {
     }
   },
 
+  // Terminate but keep the (suspended) panel server until retentionUntil
+  async markServerTerminated(serverId: string, reason: string, retentionUntil: Date): Promise<boolean> {
+    try {
+      const collection = await serversCollection.getCollection();
+      const now = new Date();
+      const result = await collection.updateOne({ id: serverId, status: ServerStatus.SUSPENDED }, {
+        $set: {
+          status: ServerStatus.TERMINATED,
+          billing_status: BillingStatus.TERMINATED,
+          termination_info: {
+            terminated_at: now,
+            termination_reason: reason,
+            data_retention_until: retentionUntil,
+            data_retained: true
+          },
+          updated_at: now
+        },
+        $unset: { auto_delete_at: '' }
+      });
+      return result.modifiedCount > 0;
+    } catch (error) {
+      console.error('Error marking server terminated:', error);
+      return false;
+    }
+  },
+
+  async findTerminatedDueDataPurge(cutoff: Date): Promise<CythroDashServer[]> {
+    try {
+      const collection = await serversCollection.getCollection();
+      return await collection.find({
+        status: ServerStatus.TERMINATED,
+        'termination_info.data_retained': true,
+        'termination_info.data_retention_until': { $lte: cutoff }
+      }).toArray();
+    } catch (error) {
+      console.error('Error finding servers due data purge:', error);
+      return [];
+    }
+  },
+
+  async markServerDataPurged(serverId: string): Promise<boolean> {
+    try {
+      const collection = await serversCollection.getCollection();
+      const now = new Date();
+      const result = await collection.updateOne({ id: serverId, 'termination_info.data_retained': true }, {
+        $set: {
+          'termination_info.data_retained': false,
+          'termination_info.data_purged_at': now,
+          updated_at: now
+        }
+      });
+      return result.modifiedCount > 0;
+    } catch (error) {
+      console.error('Error marking server data purged:', error);
+      return false;
+    }
+  },
+
+  // Servers created per location since a date, with the memory and disk they were given
+  async getCreationHistoryByLocation(since: Date): Promise<Array<{ location_id: string; count: number; memory: number; disk: number }>> {
+    try {
+      const collection = await serversCollection.getCollection();
+      const rows = await collection.aggregate<{ _id: string; count: number; memory: number; disk: number }>([
+        { $match: { created_at: { $gte: since } } },
+        { $group: { _id: '$location_id', count: { $sum: 1 }, memory: { $sum: '$limits.memory' }, disk: { $sum: '$limits.disk' } } }
+      ]).toArray();
+      return rows.map(({ _id, ...row }) => ({ location_id: _id, ...row }));
+    } catch (error) {
+      console.error('Error getting server creation history:', error);
+      return [];
+    }
+  },
+
   async findServersMissingExpiry(limit: number = 500): Promise<CythroDashServer[]> {
     try {
       const collection = await serversCollection.getCollection();
@@ -468,7 +672,8 @@ export const serverOperations = {
       const collection = await serversCollection.getCollection();
       return await collection.find({
         status: ServerStatus.ACTIVE,
-        billing_status: BillingStatus.ACTIVE,
+        // Overdue servers are still in their grace period and get retried
+        billing_status: { $in: [BillingStatus.ACTIVE, BillingStatus.OVERDUE] },
         'billing.next_billing_date': { $lte: cutoff },
       }).toArray();
     } catch (error) {
@@ -477,18 +682,50 @@ export const serverOperations = {
     }
   },
 
-  async applyBillingCharge(serverId: string, amount: number, nextBillingDate: Date, billedAt: Date): Promise<boolean> {
+  // When expectedNextBillingDate is given the charge only applies if the cycle was not billed yet
+  async applyBillingCharge(serverId: string, amount: number, nextBillingDate: Date, billedAt: Date, expectedNextBillingDate?: Date, discount?: AppliedDiscount | null): Promise<boolean> {
     try {
       const collection = await serversCollection.getCollection();
-      const result = await collection.updateOne({ id: serverId }, {
+      const filter: any = { id: serverId };
+      if (expectedNextBillingDate) filter['billing.next_billing_date'] = expectedNextBillingDate;
+      const set: any = { 'billing.last_billing_date': billedAt, 'billing.next_billing_date': nextBillingDate, updated_at: billedAt };
+      // Record what this cycle was priced at when the caller priced it
+      if (discount !== undefined) {
+        set['billing.monthly_cost'] = amount;
+        set['billing.discount'] = discount;
+      }
+      const result = await collection.updateOne(filter, {
         $inc: { 'billing.total_cost': amount },
-        $set: { 'billing.last_billing_date': billedAt, 'billing.next_billing_date': nextBillingDate, updated_at: billedAt },
+        $set: set,
       });
       return result.modifiedCount > 0;
     } catch (error) {
       console.error('Error applying billing charge:', error);
       return false;
     }
+  },
+
+  // Undo applyBillingCharge when the payment itself failed, including the price it recorded
+  async revertBillingCharge(serverId: string, amount: number, previousNextBillingDate: Date, appliedNextBillingDate: Date, previousPricing?: { monthly_cost: number; discount?: AppliedDiscount | null }): Promise<boolean> {
+    try {
+      const collection = await serversCollection.getCollection();
+      const set: any = { 'billing.next_billing_date': previousNextBillingDate, updated_at: new Date() };
+      const unset: any = {};
+      if (previousPricing) {
+        set['billing.monthly_cost'] = previousPricing.monthly_cost;
+        if (previousPricing.discount === undefined) unset['billing.discount'] = '';
+        else set['billing.discount'] = previousPricing.discount;
+      }
+      const result = await collection.updateOne({ id: serverId, 'billing.next_billing_date': appliedNextBillingDate }, {
+        $inc: { 'billing.total_cost': -amount },
+        $set: set,
+        ...(Object.keys(unset).length ? { $unset: unset } : {}),
+      });
+      return result.modifiedCount > 0;
+    } catch (error) {
+      console.error('Error reverting billing charge:', error);
+      return false;
+    }
   }
 };
 
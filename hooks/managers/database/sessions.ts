@@ -0,0 +1,161 @@
+/**
+ * CythroDash - User Sessions Operations
+ */
+
+import { Collection } from 'mongodb'
+import crypto from 'crypto'
+import { connectToDatabase } from '@/database/index'
+import { CythroDashSession, SESSIONS_COLLECTION, SESSIONS_INDEXES, SessionImpersonation, SessionLoginMethod } from '@/database/tables/cythro_dash_sessions'
+import { SECURITY_CONFIG } from '@/lib/security/config'
+
+// Avoid a write on every request; last_seen_at only needs minute-level accuracy
+const TOUCH_INTERVAL_MS = 60 * 1000
+
+class SessionsOps {
+  private collection!: Collection<CythroDashSession>
+  private initialized = false
+  private lastCleanup = 0
+
+  private async init() {
+    if (this.initialized) return
+    const db = await connectToDatabase()
+    this.collection = db.collection<CythroDashSession>(SESSIONS_COLLECTION)
+    for (const idx of SESSIONS_INDEXES) {
+      try { await this.collection.createIndex(idx.key as any, { name: idx.name, unique: (idx as any).unique }) } catch {}
+    }
+    this.initialized = true
+  }
+
+  hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex')
+  }
+
+  generateCsrfToken(): string {
+    return crypto.randomBytes(SECURITY_CONFIG.CSRF.TOKEN_LENGTH).toString('hex')
+  }
+
+  /** CSRF token of the session, issuing one for sessions created before tokens existed */
+  async ensureCsrfToken(session: CythroDashSession): Promise<string> {
+    await this.init()
+    if (session.csrf_token) return session.csrf_token
+    const csrf_token = this.generateCsrfToken()
+    const updated = await this.collection.findOneAndUpdate(
+      { id: session.id, csrf_token: { $exists: false } },
+      { $set: { csrf_token } },
+      { returnDocument: 'after' }
+    )
+    // Another request issued one first
+    return updated?.csrf_token || (await this.collection.findOne({ id: session.id }))?.csrf_token || csrf_token
+  }
+
+  getExpiryMs(rememberMe: boolean): number {
+    return rememberMe ? SECURITY_CONFIG.SESSION.REMEMBER_ME_EXPIRY : SECURITY_CONFIG.SESSION.DEFAULT_EXPIRY
+  }
+
+  async createSession(params: {
+    user_id: number
+    login_method: SessionLoginMethod
+    remember_me?: boolean
+    ip_address?: string
+    user_agent?: string
+    expires_in_ms?: number // Overrides the remember-me based lifetime
+    impersonation?: SessionImpersonation
+  }): Promise<{ token: string; session: CythroDashSession }> {
+    await this.init()
+    await this.maybeCleanup()
+
+    const token = crypto.randomBytes(32).toString('hex')
+    const now = new Date()
+    const rememberMe = !!params.remember_me
+    const session: CythroDashSession = {
+      id: crypto.randomBytes(12).toString('hex'),
+      user_id: params.user_id,
+      token_hash: this.hashToken(token),
+      csrf_token: this.generateCsrfToken(),
+      login_method: params.login_method,
+      remember_me: rememberMe,
+      ip_address: params.ip_address,
+      user_agent: params.user_agent,
+      created_at: now,
+      last_seen_at: now,
+      expires_at: new Date(now.getTime() + (params.expires_in_ms ?? this.getExpiryMs(rememberMe))),
+      revoked: false,
+      ...(params.impersonation ? { impersonation: params.impersonation } : {})
+    }
+    await this.collection.insertOne(session)
+    return { token, session }
+  }
+
+  /**
+   * Resolve a raw token to an active session. Returns null for unknown, revoked or expired tokens.
+   */
+  async getActiveSessionByToken(token: string): Promise<CythroDashSession | null> {
+    await this.init()
+    if (!token) return null
+    const now = new Date()
+    const session = await this.collection.findOne({ token_hash: this.hashToken(token), revoked: false, expires_at: { $gt: now } })
+    if (!session) return null
+
+    if (now.getTime() - new Date(session.last_seen_at).getTime() > TOUCH_INTERVAL_MS) {
+      try { await this.collection.updateOne({ id: session.id }, { $set: { last_seen_at: now } }) } catch {}
+    }
+    return session
+  }
+
+  async getSessionById(id: string): Promise<CythroDashSession | null> {
+    await this.init()
+    return this.collection.findOne({ id })
+  }
+
+  async getUserSessions(user_id: number): Promise<CythroDashSession[]> {
+    await this.init()
+    return this.collection
+      .find({ user_id, revoked: false, expires_at: { $gt: new Date() } })
+      .sort({ last_seen_at: -1 })
+      .toArray()
+  }
+
+  async revokeSession(id: string, reason = 'revoked'): Promise<boolean> {
+    await this.init()
+    const res = await this.collection.updateOne({ id, revoked: false }, { $set: { revoked: true, revoked_at: new Date(), revoked_reason: reason } })
+    return res.modifiedCount > 0
+  }
+
+  async revokeSessionByToken(token: string, reason = 'logout', options: { impersonation_only?: boolean } = {}): Promise<CythroDashSession | null> {
+    await this.init()
+    const filter: any = { token_hash: this.hashToken(token), revoked: false }
+    if (options.impersonation_only) filter.impersonation = { $exists: true }
+    const session = await this.collection.findOne(filter)
+    if (!session) return null
+    await this.collection.updateOne({ id: session.id }, { $set: { revoked: true, revoked_at: new Date(), revoked_reason: reason } })
+    return session
+  }
+
+  /**
+   * Revoke every active session of a user, optionally keeping one. Returns the ids that were revoked.
+   */
+  async revokeAllUserSessions(user_id: number, options: { except_session_id?: string; reason?: string } = {}): Promise<string[]> {
+    await this.init()
+    const filter: any = { user_id, revoked: false, expires_at: { $gt: new Date() } }
+    if (options.except_session_id) filter.id = { $ne: options.except_session_id }
+    const ids = (await this.collection.find(filter, { projection: { id: 1 } }).toArray()).map(s => s.id)
+    if (ids.length === 0) return []
+    await this.collection.updateMany({ id: { $in: ids }, revoked: false }, { $set: { revoked: true, revoked_at: new Date(), revoked_reason: options.reason || 'revoked' } })
+    return ids
+  }
+
+  async cleanupExpiredSessions(): Promise<number> {
+    await this.init()
+    const res = await this.collection.deleteMany({ expires_at: { $lt: new Date() } })
+    this.lastCleanup = Date.now()
+    return res.deletedCount
+  }
+
+  private async maybeCleanup() {
+    if (Date.now() - this.lastCleanup < SECURITY_CONFIG.SESSION.CLEANUP_INTERVAL) return
+    try { await this.cleanupExpiredSessions() } catch {}
+  }
+}
+
+export const sessionOperations = new SessionsOps()
+export default sessionOperations
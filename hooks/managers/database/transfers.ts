@@ -8,6 +8,7 @@ import { Collection, ObjectId } from 'mongodb';
 import { connectToDatabase } from '../../../database/index';
 import { CythroDashTransfer, transfersCollectionName, defaultTransferValues, TransferStatus, transferValidation, TRANSFERS_INDEXES } from '@/database/tables/cythro_dash_transfers';
 import { userOperations } from './user';
+import { walletOperations } from './wallet';
 
 class TransferOperations {
   private collection: Collection<CythroDashTransfer> | null = null;
@@ -137,22 +138,43 @@ class TransferOperations {
 
         console.log(`Transfer ${transfer.id}: Created transfer record for ${transferData.amount} coins from ${fromUser.username} to ${toUser.username}`);
 
-        // Update sender balance
-        const senderUpdateSuccess = await userOperations.updateUserCoins(fromUser.id, -transferData.amount, `Transfer to ${toUser.username}`);
-        if (!senderUpdateSuccess) {
-          throw new Error('Failed to update sender balance');
+        // Debit sender (fails instead of going negative if the balance changed since the check above)
+        const debit = await walletOperations.debit({
+          user_id: fromUser.id,
+          amount: transferData.amount,
+          source_category: 'transfer',
+          reference_id: transfer.id,
+          message: `Transfer to ${toUser.username}`,
+          idempotency_key: `transfer:${transfer.id}:out`
+        });
+        if (!debit.success || !debit.entry) {
+          throw new Error(debit.error === 'INSUFFICIENT_FUNDS' ? 'Insufficient balance' : 'Failed to update sender balance');
         }
 
         console.log(`Transfer ${transfer.id}: Updated sender ${fromUser.username} balance (-${transferData.amount} coins)`);
 
-        // Update recipient balance
-        const recipientUpdateSuccess = await userOperations.updateUserCoins(toUser.id, transferData.amount, `Transfer from ${fromUser.username}`);
-        if (!recipientUpdateSuccess) {
+        // Credit recipient, returning the coins to the sender if that fails
+        const credit = await walletOperations.credit({
+          user_id: toUser.id,
+          amount: transferData.amount,
+          source_category: 'transfer',
+          reference_id: transfer.id,
+          message: `Transfer from ${fromUser.username}`,
+          idempotency_key: `transfer:${transfer.id}:in`
+        });
+        if (!credit.success || !credit.entry) {
+          await walletOperations.reverse(debit.entry, { message: `Refund: transfer to ${toUser.username} failed` });
           throw new Error('Failed to update recipient balance');
         }
 
         console.log(`Transfer ${transfer.id}: Updated recipient ${toUser.username} balance (+${transferData.amount} coins)`);
 
+        // Record the balances the wallet actually observed
+        transfer.from_balance_before = debit.entry.balance_before;
+        transfer.from_balance_after = debit.entry.balance_after;
+        transfer.to_balance_before = credit.entry.balance_before;
+        transfer.to_balance_after = credit.entry.balance_after;
+
         // Mark transfer as completed
         transfer.status = TransferStatus.COMPLETED;
         transfer.completed_at = new Date();
@@ -163,6 +185,10 @@ class TransferOperations {
           {
             $set: {
               status: TransferStatus.COMPLETED,
+              from_balance_before: transfer.from_balance_before,
+              from_balance_after: transfer.from_balance_after,
+              to_balance_before: transfer.to_balance_before,
+              to_balance_after: transfer.to_balance_after,
               completed_at: new Date(),
               updated_at: new Date()
             }
@@ -171,13 +197,6 @@ class TransferOperations {
 
         console.log(`Transfer ${transfer.id}: Successfully completed transfer of ${transferData.amount} coins from ${fromUser.username} to ${toUser.username}`);
 
-        // Rewards ledger entries
-        try {
-          const { rewardsLedgerOperations } = await import('@/hooks/managers/database/rewards-ledger')
-          await rewardsLedgerOperations.add({ user_id: fromUser.id, delta: -transferData.amount, balance_before: transfer.from_balance_before, balance_after: transfer.from_balance_after, source_category: 'transfer', source_action: 'spend', reference_id: transfer.id, message: `Transfer to ${toUser.username}` })
-          await rewardsLedgerOperations.add({ user_id: toUser.id, delta: transferData.amount, balance_before: transfer.to_balance_before, balance_after: transfer.to_balance_after, source_category: 'transfer', source_action: 'earn', reference_id: transfer.id, message: `Transfer from ${fromUser.username}` })
-        } catch {}
-
         // Log successful transfer for audit trail
         await this.logTransferActivity({
           transfer_id: transfer.id,
@@ -189,10 +208,10 @@ class TransferOperations {
             from_username: fromUser.username,
             to_username: toUser.username,
             note: transferData.note,
-            from_balance_before: fromUser.coins,
-            from_balance_after: fromUser.coins - transferData.amount,
-            to_balance_before: toUser.coins,
-            to_balance_after: toUser.coins + transferData.amount
+            from_balance_before: transfer.from_balance_before,
+            from_balance_after: transfer.from_balance_after,
+            to_balance_before: transfer.to_balance_before,
+            to_balance_after: transfer.to_balance_after
           }
         });
 
@@ -0,0 +1,85 @@
+/**
+ * CythroDash - Two-Factor Login Challenge Operations
+ */
+
+import { Collection } from 'mongodb'
+import crypto from 'crypto'
+import { connectToDatabase } from '@/database/index'
+import {
+  CythroDashTwoFactorChallenge,
+  TWO_FACTOR_CHALLENGES_COLLECTION,
+  TWO_FACTOR_CHALLENGES_INDEXES
+} from '@/database/tables/cythro_dash_two_factor_challenges'
+import { SessionLoginMethod } from '@/database/tables/cythro_dash_sessions'
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000
+export const MAX_CHALLENGE_ATTEMPTS = 5
+
+class TwoFactorChallengesOps {
+  private collection!: Collection<CythroDashTwoFactorChallenge>
+  private initialized = false
+
+  private async init() {
+    if (this.initialized) return
+    const db = await connectToDatabase()
+    this.collection = db.collection<CythroDashTwoFactorChallenge>(TWO_FACTOR_CHALLENGES_COLLECTION)
+    for (const idx of TWO_FACTOR_CHALLENGES_INDEXES) {
+      try {
+        await this.collection.createIndex(idx.key as any, { name: idx.name, unique: (idx as any).unique, expireAfterSeconds: (idx as any).expireAfterSeconds })
+      } catch {}
+    }
+    this.initialized = true
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex')
+  }
+
+  async createChallenge(params: { user_id: number; login_method: SessionLoginMethod; remember_me?: boolean; ip_address?: string; user_agent?: string }): Promise<{ token: string; expires_at: Date }> {
+    await this.init()
+    const token = crypto.randomBytes(32).toString('hex')
+    const now = new Date()
+    const expires_at = new Date(now.getTime() + CHALLENGE_TTL_MS)
+    await this.collection.insertOne({
+      token_hash: this.hashToken(token),
+      user_id: params.user_id,
+      login_method: params.login_method,
+      remember_me: !!params.remember_me,
+      ip_address: params.ip_address,
+      user_agent: params.user_agent,
+      attempts: 0,
+      created_at: now,
+      expires_at
+    })
+    return { token, expires_at }
+  }
+
+  /**
+   * Look up a live challenge and count the attempt against it.
+   * Returns null once the challenge is expired or out of attempts.
+   */
+  async getChallengeForAttempt(token: string): Promise<CythroDashTwoFactorChallenge | null> {
+    await this.init()
+    if (!token) return null
+    return this.collection.findOneAndUpdate(
+      { token_hash: this.hashToken(token), expires_at: { $gt: new Date() }, attempts: { $lt: MAX_CHALLENGE_ATTEMPTS } },
+      { $inc: { attempts: 1 } },
+      { returnDocument: 'after' }
+    )
+  }
+
+  async deleteChallenge(token: string): Promise<boolean> {
+    await this.init()
+    const res = await this.collection.deleteOne({ token_hash: this.hashToken(token) })
+    return res.deletedCount > 0
+  }
+
+  async deleteUserChallenges(user_id: number): Promise<number> {
+    await this.init()
+    const res = await this.collection.deleteMany({ user_id })
+    return res.deletedCount
+  }
+}
+
+export const twoFactorChallengeOperations = new TwoFactorChallengesOps()
+export default twoFactorChallengeOperations
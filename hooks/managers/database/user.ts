@@ -9,6 +9,7 @@
 import { Collection, Filter, UpdateFilter } from 'mongodb';
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
+import { SECURITY_CONFIG } from '@/lib/security/config';
 import { connectToDatabase } from '../../../database/index';
 import { 
   CythroDashUser, 
@@ -17,6 +18,7 @@ import {
   UserLanguage,
   UserHelpers 
 } from '../../../database/tables/cythro_dash_users';
+import { SUPERADMIN_ROLE_ID } from '../../../database/tables/cythro_dash_roles';
 
 // User creation interface
 export interface CreateUserData {
@@ -36,6 +38,7 @@ export interface CreateUserData {
   display_name?: string;
   referral_code?: string;
   referred_by?: string;
+  verified?: boolean; // Overrides the env-based default when the caller already knows
 }
 
 // User update interface
@@ -82,9 +85,25 @@ class CythroDashUsersCollection {
     
     // Create indexes for better performance
     await this.createIndexes();
+    await this.migrateAdminRoles();
     this.initialized = true;
   }
 
+  // Admins from before custom roles become superadmins
+  private async migrateAdminRoles(): Promise<void> {
+    try {
+      const result = await this.collection.updateMany(
+        { role: UserRole.ADMIN, role_id: { $exists: false } },
+        { $set: { role_id: SUPERADMIN_ROLE_ID } }
+      );
+      if (result.modifiedCount > 0) {
+        console.log(`Assigned the superadmin role to ${result.modifiedCount} existing admin(s)`);
+      }
+    } catch (error) {
+      console.error('Error migrating admin roles:', error);
+    }
+  }
+
   private async createIndexes(): Promise<void> {
     try {
       // Unique indexes
@@ -96,6 +115,7 @@ class CythroDashUsersCollection {
       
       // Performance indexes
       await this.collection.createIndex({ role: 1 });
+      await this.collection.createIndex({ role_id: 1 }, { sparse: true });
       await this.collection.createIndex({ banned: 1 });
       await this.collection.createIndex({ deleted: 1 });
       await this.collection.createIndex({ verified: 1 });
@@ -155,7 +175,9 @@ export class UserOperations {
       ...UserHelpers.getDefaultUserValues(),
       ...userData,
       password: hashedPassword,
+      ...(hashedPassword ? { password_changed_at: new Date() } : {}),
       referral_code: referralCode,
+      ...(userData.verified !== undefined ? { verified_at: userData.verified ? new Date() : undefined } : {}),
       created_at: new Date(),
       updated_at: new Date()
     } as CythroDashUser;
@@ -228,6 +250,25 @@ export class UserOperations {
     return await this.getUserById(id);
   }
 
+  // Assign an admin role, or remove it (null) to make the user a regular user again
+  async setUserRole(id: number, roleId: string | null): Promise<boolean> {
+    const collection = await this.getCollection();
+    const result = await collection.updateOne(
+      { id, deleted: false },
+      roleId
+        ? { $set: { role: UserRole.ADMIN, role_id: roleId, updated_at: new Date() } }
+        : { $set: { role: UserRole.USER, updated_at: new Date() }, $unset: { role_id: "" } }
+    );
+
+    return result.matchedCount > 0;
+  }
+
+  // Count users holding an admin role
+  async countUsersWithRole(roleId: string): Promise<number> {
+    const collection = await this.getCollection();
+    return await collection.countDocuments({ role_id: roleId, deleted: false });
+  }
+
   // Verify user email
   async verifyUserEmail(id: number): Promise<boolean> {
     const collection = await this.getCollection();
@@ -249,23 +290,57 @@ export class UserOperations {
     return result.modifiedCount > 0;
   }
 
-  // Update user password
+  // Update user password, moving the old hash into the password history
   async updatePassword(id: number, newPassword: string): Promise<boolean> {
     const collection = await this.getCollection();
+    const current = await collection.findOne({ id }, { projection: { password: 1 } });
     const hashedPassword = await bcrypt.hash(newPassword, 12);
     
+    const updateDoc: UpdateFilter<CythroDashUser> = {
+      $set: {
+        password: hashedPassword,
+        password_changed_at: new Date(),
+        updated_at: new Date()
+      },
+      $unset: {
+        password_reset_token: "",
+        password_reset_expires: "",
+        password_change_required: ""
+      }
+    };
+    if (current?.password) {
+      updateDoc.$push = {
+        password_history: { $each: [current.password], $slice: -SECURITY_CONFIG.PASSWORD.HISTORY_LIMIT }
+      };
+    }
+
+    const result = await collection.updateOne({ id }, updateDoc);
+
+    return result.modifiedCount > 0;
+  }
+
+  // Whether a password matches the current one or any of the last `count - 1` previous ones
+  async isPasswordReused(id: number, password: string, count: number): Promise<boolean> {
+    if (count < 1) return false;
+    const user = await this.getUserById(id);
+    if (!user) return false;
+
+    const previous = count > 1 ? (user.password_history || []).slice(-(count - 1)) : [];
+    const hashes = [user.password, ...previous].filter((hash): hash is string => !!hash);
+    for (const hash of hashes) {
+      if (await bcrypt.compare(password, hash)) return true;
+    }
+    return false;
+  }
+
+  // Require (or stop requiring) a new password at the next password login
+  async setPasswordChangeRequired(id: number, required: boolean): Promise<boolean> {
+    const collection = await this.getCollection();
     const result = await collection.updateOne(
       { id },
-      {
-        $set: {
-          password: hashedPassword,
-          updated_at: new Date()
-        },
-        $unset: {
-          password_reset_token: "",
-          password_reset_expires: ""
-        }
-      }
+      required
+        ? { $set: { password_change_required: true, updated_at: new Date() } }
+        : { $set: { updated_at: new Date() }, $unset: { password_change_required: "" } }
     );
 
     return result.modifiedCount > 0;
@@ -361,34 +436,6 @@ export class UserOperations {
     return result.modifiedCount > 0;
   }
 
-  // Update user coins
-  async updateCoins(id: number, amount: number, _note: string): Promise<boolean> {
-    const collection = await this.getCollection();
-    const user = await this.getUserById(id);
-    if (!user) return false;
-
-    const newBalance = user.coins + amount;
-    if (newBalance < 0) {
-      throw new Error('Insufficient coins');
-    }
-
-    const updateDoc: UpdateFilter<CythroDashUser> = {
-      $set: {
-        coins: newBalance,
-        updated_at: new Date()
-      }
-    };
-
-    if (amount > 0) {
-      updateDoc.$inc = { total_coins_earned: amount };
-    } else {
-      updateDoc.$inc = { total_coins_spent: Math.abs(amount) };
-    }
-
-    const result = await collection.updateOne({ id }, updateDoc);
-    return result.modifiedCount > 0;
-  }
-
   // Update last activity
   async updateLastActivity(id: number, ipAddress?: string): Promise<boolean> {
     const collection = await this.getCollection();
@@ -520,6 +567,69 @@ export class UserOperations {
     return token;
   }
 
+  // Store a TOTP secret awaiting confirmation (2FA enrollment)
+  async setTwoFactorPendingSecret(id: number, secret: string): Promise<boolean> {
+    const collection = await this.getCollection();
+    const result = await collection.updateOne(
+      { id },
+      { $set: { two_factor_pending_secret: secret, updated_at: new Date() } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  // Enable 2FA with a confirmed secret and hashed backup codes; the confirming code's step is spent
+  async enableTwoFactor(id: number, secret: string, backupCodeHashes: string[], lastStep: number): Promise<boolean> {
+    const collection = await this.getCollection();
+    const result = await collection.updateOne(
+      { id },
+      {
+        $set: {
+          two_factor_enabled: true,
+          two_factor_secret: secret,
+          two_factor_backup_codes: backupCodeHashes,
+          two_factor_enabled_at: new Date(),
+          two_factor_last_step: lastStep,
+          updated_at: new Date()
+        },
+        $unset: { two_factor_pending_secret: '' }
+      }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  // Disable 2FA and drop all related secrets
+  async disableTwoFactor(id: number): Promise<boolean> {
+    const collection = await this.getCollection();
+    const result = await collection.updateOne(
+      { id },
+      {
+        $set: { two_factor_enabled: false, updated_at: new Date() },
+        $unset: { two_factor_secret: '', two_factor_backup_codes: '', two_factor_pending_secret: '', two_factor_enabled_at: '', two_factor_last_step: '' }
+      }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  // Consume a backup code; only succeeds once per code even under concurrent requests
+  async consumeTwoFactorBackupCode(id: number, codeHash: string): Promise<boolean> {
+    const collection = await this.getCollection();
+    const result = await collection.updateOne(
+      { id, two_factor_backup_codes: codeHash },
+      { $pull: { two_factor_backup_codes: codeHash }, $set: { updated_at: new Date() } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  // Accept a TOTP time step once; fails for a step at or before the last accepted one, even under concurrent requests
+  async claimTwoFactorStep(id: number, step: number): Promise<boolean> {
+    const collection = await this.getCollection();
+    const result = await collection.updateOne(
+      { id, $or: [{ two_factor_last_step: { $exists: false } }, { two_factor_last_step: { $lt: step } }] },
+      { $set: { two_factor_last_step: step, updated_at: new Date() } }
+    );
+    return result.modifiedCount > 0;
+  }
+
   // Verify email verification token
   async verifyEmailToken(token: string): Promise<CythroDashUser | null> {
     const collection = await this.getCollection();
@@ -554,7 +664,8 @@ export class UserOperations {
     } else {
       updateDoc.$set = {
         ...updateDoc.$set,
-        failed_login_attempts: 0
+        failed_login_attempts: 0,
+        lockout_count: 0
       };
     }
 
@@ -562,7 +673,7 @@ export class UserOperations {
     return result.modifiedCount > 0;
   }
 
-  // Lock user account
+  // Lock user account; failed attempts start over and the lockout counts towards backoff
   async lockUserAccount(id: number, lockDurationMinutes: number = 30): Promise<boolean> {
     const collection = await this.getCollection();
     const lockUntil = new Date(Date.now() + lockDurationMinutes * 60000);
@@ -572,8 +683,29 @@ export class UserOperations {
       {
         $set: {
           locked_until: lockUntil,
+          failed_login_attempts: 0,
           updated_at: new Date()
-        }
+        },
+        $inc: { lockout_count: 1 }
+      }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  // Unlock user account and reset its failed attempts and backoff
+  async unlockUserAccount(id: number): Promise<boolean> {
+    const collection = await this.getCollection();
+
+    const result = await collection.updateOne(
+      { id },
+      {
+        $set: {
+          failed_login_attempts: 0,
+          lockout_count: 0,
+          updated_at: new Date()
+        },
+        $unset: { locked_until: '' }
       }
     );
 
@@ -864,29 +996,6 @@ export class UserOperations {
     return user?.oauth?.github || null;
   }
 
-  // Update user coins (for transfers)
-  async updateUserCoins(userId: number, amount: number, reason: string): Promise<boolean> {
-    const collection = await this.getCollection();
-
-    const result = await collection.updateOne(
-      { id: userId },
-      {
-        $inc: { coins: amount },
-        $set: { updated_at: new Date() },
-        $push: {
-          coin_history: {
-            amount,
-            reason,
-            timestamp: new Date(),
-            balance_after: 0 // Will be updated by a separate query if needed
-          }
-        }
-      }
-    );
-
-    return result.modifiedCount > 0;
-  }
-
 
 }
 
@@ -0,0 +1,151 @@
+/**
+ * CythroDash - Coin Wallet
+ *
+ * The only place that changes `cythro_dash_users.coins`. Every mutation is a single conditional
+ * `$inc` (debits require `coins >= amount`), so concurrent billing, transfers and redemptions
+ * cannot lose or double money, and every mutation writes a rewards ledger entry with the exact
+ * balance before/after taken from the updated document.
+ *
+ * Idempotency: with an `idempotency_key`, a repeated call returns the original ledger entry. If two
+ * calls race past the lookup, the unique index rejects the second entry and its `$inc` is reverted.
+ */
+
+import { Collection } from 'mongodb'
+import { connectToDatabase } from '@/database/index'
+import { CythroDashUser } from '@/database/tables/cythro_dash_users'
+import { CythroDashRewardLedgerEntry, RewardAction, RewardSourceCategory } from '@/database/tables/cythro_dash_rewards_ledger'
+import { rewardsLedgerOperations } from './rewards-ledger'
+
+export interface WalletMutation {
+  user_id: number
+  amount: number // Always positive; direction comes from the method
+  source_category: RewardSourceCategory
+  reference_id?: string | number
+  message?: string
+  idempotency_key?: string
+}
+
+export type WalletError = 'INVALID_AMOUNT' | 'USER_NOT_FOUND' | 'INSUFFICIENT_FUNDS' | 'LEDGER_WRITE_FAILED'
+
+export interface WalletResult {
+  success: boolean
+  error?: WalletError
+  duplicate?: boolean // The idempotency key was already used; `entry` is the original
+  entry?: CythroDashRewardLedgerEntry
+  balance?: number
+}
+
+type StatsInc = { total_coins_earned?: number; total_coins_spent?: number }
+
+function isDuplicateKeyError(error: any): boolean {
+  return error?.code === 11000
+}
+
+class WalletOps {
+  private users!: Collection<CythroDashUser>
+  private initialized = false
+
+  private async init() {
+    if (this.initialized) return
+    const db = await connectToDatabase()
+    this.users = db.collection<CythroDashUser>('cythro_dash_users')
+    this.initialized = true
+  }
+
+  async getBalance(user_id: number): Promise<number | null> {
+    await this.init()
+    const user = await this.users.findOne({ id: user_id }, { projection: { coins: 1 } })
+    return user ? (user.coins || 0) : null
+  }
+
+  /** Add coins (rewards, redemptions, incoming transfers) */
+  async credit(m: WalletMutation): Promise<WalletResult> {
+    if (!(m.amount > 0)) return { success: false, error: 'INVALID_AMOUNT' }
+    return this.apply(m.amount, 'earn', m, { total_coins_earned: m.amount })
+  }
+
+  /** Remove coins; fails with INSUFFICIENT_FUNDS instead of going negative */
+  async debit(m: WalletMutation): Promise<WalletResult> {
+    if (!(m.amount > 0)) return { success: false, error: 'INVALID_AMOUNT' }
+    return this.apply(-m.amount, 'spend', m, { total_coins_spent: m.amount })
+  }
+
+  /** Signed manual correction (admin adjustments, reconciliation); never takes a balance below zero */
+  async adjust(m: Omit<WalletMutation, 'amount'> & { delta: number }): Promise<WalletResult> {
+    if (!m.delta || !Number.isFinite(m.delta)) return { success: false, error: 'INVALID_AMOUNT' }
+    const stats: StatsInc = m.delta > 0 ? { total_coins_earned: m.delta } : { total_coins_spent: -m.delta }
+    return this.apply(m.delta, 'adjust', { ...m, amount: Math.abs(m.delta) }, stats)
+  }
+
+  /** Undo an earlier entry (refunds, failed follow-up steps). Lifetime totals are corrected too. */
+  async reverse(entry: CythroDashRewardLedgerEntry, options: { message?: string; idempotency_key?: string } = {}): Promise<WalletResult> {
+    const delta = -entry.delta
+    const stats: StatsInc = entry.delta < 0 ? { total_coins_spent: entry.delta } : { total_coins_earned: -entry.delta }
+    return this.apply(delta, 'adjust', {
+      user_id: entry.user_id,
+      amount: Math.abs(delta),
+      source_category: entry.source_category,
+      reference_id: entry.reference_id,
+      message: options.message || `Reversal of ledger entry ${entry.id}`,
+      idempotency_key: options.idempotency_key ?? `reverse:${entry.id}`
+    }, stats, entry.id)
+  }
+
+  private async apply(delta: number, action: RewardAction, m: WalletMutation, stats: StatsInc, reversesEntryId?: number): Promise<WalletResult> {
+    await this.init()
+
+    if (m.idempotency_key) {
+      const existing = await rewardsLedgerOperations.findByIdempotencyKey(m.idempotency_key)
+      if (existing) return { success: true, duplicate: true, entry: existing, balance: existing.balance_after }
+    }
+
+    const filter: any = { id: m.user_id }
+    if (delta < 0) filter.coins = { $gte: -delta }
+
+    const updated = await this.users.findOneAndUpdate(
+      filter,
+      { $inc: { coins: delta, ...stats }, $set: { updated_at: new Date() } },
+      { returnDocument: 'after', projection: { coins: 1 } }
+    )
+    if (!updated) {
+      const exists = await this.users.countDocuments({ id: m.user_id }, { limit: 1 })
+      return { success: false, error: exists ? 'INSUFFICIENT_FUNDS' : 'USER_NOT_FOUND' }
+    }
+
+    const balanceAfter = updated.coins
+    try {
+      const entry = await rewardsLedgerOperations.add({
+        user_id: m.user_id,
+        delta,
+        balance_before: balanceAfter - delta,
+        balance_after: balanceAfter,
+        source_category: m.source_category,
+        source_action: action,
+        reference_id: m.reference_id,
+        message: m.message,
+        ...(m.idempotency_key ? { idempotency_key: m.idempotency_key } : {}),
+        ...(reversesEntryId !== undefined ? { reverses_entry_id: reversesEntryId } : {})
+      })
+      return { success: true, entry, balance: balanceAfter }
+    } catch (error) {
+      // Undo the balance change so the ledger and balances stay in step
+      await this.users.updateOne({ id: m.user_id }, { $inc: { coins: -delta, ...this.negate(stats) } })
+      if (isDuplicateKeyError(error) && m.idempotency_key) {
+        const existing = await rewardsLedgerOperations.findByIdempotencyKey(m.idempotency_key)
+        if (existing) return { success: true, duplicate: true, entry: existing, balance: existing.balance_after }
+      }
+      console.error('Wallet ledger write failed:', error)
+      return { success: false, error: 'LEDGER_WRITE_FAILED' }
+    }
+  }
+
+  private negate(stats: StatsInc): StatsInc {
+    const out: StatsInc = {}
+    if (stats.total_coins_earned) out.total_coins_earned = -stats.total_coins_earned
+    if (stats.total_coins_spent) out.total_coins_spent = -stats.total_coins_spent
+    return out
+  }
+}
+
+export const walletOperations = new WalletOps()
+export default walletOperations
@@ -0,0 +1,179 @@
+/**
+ * CythroDash - Capacity Alerts
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { CapacityForecaster, type LocationForecast, type ResourceForecast } from '@/hooks/managers/monitoring/capacity-forecast';
+import { capacityAlertsOperations } from '@/hooks/managers/database/capacity-alerts';
+import { locationOperations } from '@/hooks/managers/database/location';
+import { mailService } from '@/lib/mail';
+import { CAPACITY_FULL_PERCENT, CapacityPolicy, getCapacityAlertRecipients, getCapacityPolicy } from '@/lib/capacity-policy';
+import { LocationCapacityHold } from '@/database/tables/cythro_dash_locations';
+import { CapacityAlertLevel, CAPACITY_ALERT_LEVELS, CythroDashCapacityAlert } from '@/database/tables/cythro_dash_capacity_alerts';
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export interface CapacityEvaluationResult {
+  locations: number;
+  raised: number;
+  escalated: number;
+  resolved: number;
+  holds_set: number;
+  holds_lifted: number;
+}
+
+// Alert level for one resource, or null when it is healthy
+function alertLevel(forecast: ResourceForecast, policy: CapacityPolicy): CapacityAlertLevel | null {
+  const days = forecast.days_until_full;
+  if (forecast.usage_percentage >= CAPACITY_FULL_PERCENT) return 'full';
+  if (days !== null && days <= policy.critical_days) return 'critical';
+  if (forecast.usage_percentage >= policy.warning_percent || (days !== null && days <= policy.warning_days)) return 'warning';
+  return null;
+}
+
+function alertMessage(locationName: string, forecast: ResourceForecast, level: CapacityAlertLevel): string {
+  const usage = `${Math.round(forecast.usage_percentage * 10) / 10}% allocated`;
+  if (level === 'full') return `${locationName} is out of ${forecast.resource} (${usage}).`;
+  if (forecast.days_until_full !== null) return `${locationName} ${forecast.resource} is forecast to fill in ${forecast.days_until_full} days (${usage}).`;
+  return `${locationName} ${forecast.resource} is ${usage}.`;
+}
+
+const rank = (level: CapacityAlertLevel) => CAPACITY_ALERT_LEVELS.indexOf(level);
+
+// Capacity alert service
+export class CapacityAlertService {
+  // Raise, escalate and resolve alerts from a fresh forecast, then apply the full-location action
+  static async evaluate(): Promise<CapacityEvaluationResult> {
+    const [forecasts, policy] = await Promise.all([CapacityForecaster.forecastAll(), getCapacityPolicy()]);
+    const result: CapacityEvaluationResult = { locations: forecasts.length, raised: 0, escalated: 0, resolved: 0, holds_set: 0, holds_lifted: 0 };
+
+    for (const forecast of forecasts) {
+      // Panel locations without a CythroDash location are never offered to users
+      if (!forecast.location_id) continue;
+
+      for (const resource of forecast.resources) {
+        await this.evaluateResource(forecast, resource, policy, result);
+      }
+      await this.applyHold(forecast, policy, result);
+    }
+
+    return result;
+  }
+
+  private static async evaluateResource(forecast: LocationForecast, resource: ResourceForecast, policy: CapacityPolicy, result: CapacityEvaluationResult): Promise<void> {
+    const level = alertLevel(resource, policy);
+    const open = await capacityAlertsOperations.getOpen(forecast.location_id!, resource.resource);
+
+    if (!level) {
+      if (open?._id) {
+        await capacityAlertsOperations.resolve(open._id);
+        result.resolved++;
+      }
+      return;
+    }
+
+    const message = alertMessage(forecast.location_name, resource, level);
+    const metrics = { level, message, usage_percentage: resource.usage_percentage, days_until_full: resource.days_until_full };
+
+    if (!open) {
+      const now = new Date();
+      const alert = await capacityAlertsOperations.create({
+        location_id: forecast.location_id!,
+        pterodactyl_location_id: forecast.pterodactyl_location_id,
+        location_name: forecast.location_name,
+        resource: resource.resource,
+        ...metrics,
+        created_at: now,
+        updated_at: now,
+      });
+      await this.notify(alert);
+      result.raised++;
+      return;
+    }
+
+    // Escalations notify again and need a fresh acknowledgement; anything else just refreshes the figures
+    if (rank(level) > rank(open.level)) {
+      await capacityAlertsOperations.escalate(open._id!, metrics);
+      await this.notify({ ...open, ...metrics });
+      result.escalated++;
+    } else {
+      await capacityAlertsOperations.update(open._id!, metrics);
+    }
+  }
+
+  // Put full locations on the configured hold and lift it once they recover
+  private static async applyHold(forecast: LocationForecast, policy: CapacityPolicy, result: CapacityEvaluationResult): Promise<void> {
+    const hold = forecast.capacity_hold;
+
+    // Nodes in maintenance say nothing about capacity; leave any hold as it is
+    if (forecast.status === 'maintenance') return;
+
+    if (forecast.status === 'full' && policy.full_action !== 'none') {
+      const mode = policy.full_action === 'hidden' ? LocationCapacityHold.HIDDEN : LocationCapacityHold.WAITLIST;
+      if (hold?.mode === mode) return;
+      await locationOperations.setCapacityHold(forecast.location_id!, {
+        mode,
+        since: hold?.since ?? new Date(),
+        reason: 'Location is full',
+      });
+      result.holds_set++;
+      return;
+    }
+
+    if (hold) {
+      await locationOperations.setCapacityHold(forecast.location_id!, null);
+      result.holds_lifted++;
+    }
+  }
+
+  // Send an alert to the configured webhook and email recipients. Failures are logged, never thrown.
+  private static async notify(alert: CythroDashCapacityAlert): Promise<void> {
+    const { webhook_url, emails } = await getCapacityAlertRecipients();
+    if (!webhook_url && emails.length === 0) return;
+
+    const monitoringUrl = `${await mailService.getAppUrl()}/admin/monitoring`;
+
+    if (webhook_url) {
+      try {
+        const response = await fetch(webhook_url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            event: 'capacity_alert',
+            content: `[${alert.level}] ${alert.message}`, // Chat webhooks (Discord, Slack-compatible) display this
+            level: alert.level,
+            location_id: alert.location_id,
+            location_name: alert.location_name,
+            resource: alert.resource,
+            usage_percentage: alert.usage_percentage,
+            days_until_full: alert.days_until_full,
+            message: alert.message,
+            monitoring_url: monitoringUrl,
+            raised_at: alert.created_at,
+          }),
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        });
+        if (!response.ok) console.error(`Capacity alert webhook returned ${response.status}`);
+      } catch (error) {
+        console.error('Capacity alert webhook failed:', error);
+      }
+    }
+
+    for (const email of emails) {
+      await mailService.sendTemplate(email, 'capacity_alert', {
+        location_name: alert.location_name,
+        resource: alert.resource,
+        level: alert.level,
+        message: alert.message,
+        usage_percentage: Math.round(alert.usage_percentage * 10) / 10,
+        days_until_full: alert.days_until_full,
+        monitoring_url: monitoringUrl,
+      });
+    }
+
+    if (alert._id) await capacityAlertsOperations.update(alert._id, { notified_at: new Date() });
+  }
+}
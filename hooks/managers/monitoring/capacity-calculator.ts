@@ -7,6 +7,10 @@
  */
 
 import { NodeMonitorService, type NodeResourceUsage, type LocationCapacitySummary } from './node-monitor';
+import { locationOperations } from '@/hooks/managers/database/location';
+import { panelNodeGetAllWithAllocations, panelNodeGetAllocations, type PterodactylAllocation } from '@/hooks/managers/pterodactyl/nodes';
+import { panelServerGetByUser } from '@/hooks/managers/pterodactyl/servers';
+import { NodePlacementStrategy, type CythroDashLocation, type LocationPlacement } from '@/database/tables/cythro_dash_locations';
 
 // Resource requirements interface
 export interface ResourceRequirements {
@@ -15,9 +19,17 @@ export interface ResourceRequirements {
   cpu?: number;   // Percentage (optional)
 }
 
+// Extra context for node placement
+export interface PlacementOptions {
+  user_id?: number; // Owner of the new server, needed for anti-affinity
+  node_id?: number; // Only consider this node (admin-picked migration target)
+  exclude_node_ids?: number[]; // Never pick these (a migrating server's current node)
+}
+
 // Node selection result
 export interface NodeSelectionResult {
   success: boolean;
+  strategy?: NodePlacementStrategy;
   selected_node?: {
     node_id: number;
     node_name: string;
@@ -27,6 +39,9 @@ export interface NodeSelectionResult {
     available_memory: number;
     available_disk: number;
     current_load_score: number;
+    placement_score: number;
+    allocation_id: number;
+    allocation_address: string;
     selection_reason: string;
   };
   error?: string;
@@ -270,11 +285,44 @@ export class CapacityCalculator {
     }
   }
 
-  // Select the best node for server creation
+  // Score a node under a placement strategy (higher is better)
+  static calculatePlacementScore(strategy: NodePlacementStrategy, nodeUsage: NodeResourceUsage, requirements: ResourceRequirements): number {
+    const memoryAfter = nodeUsage.effective_memory_limit > 0
+      ? ((nodeUsage.allocated_memory + requirements.memory) / nodeUsage.effective_memory_limit) * 100 : 100;
+    const diskAfter = nodeUsage.effective_disk_limit > 0
+      ? ((nodeUsage.allocated_disk + requirements.disk) / nodeUsage.effective_disk_limit) * 100 : 100;
+
+    let score: number;
+    switch (strategy) {
+      case NodePlacementStrategy.BIN_PACKING:
+        score = Math.max(memoryAfter, diskAfter);
+        break;
+      case NodePlacementStrategy.SPREAD:
+        score = 100 - Math.max(memoryAfter, diskAfter);
+        break;
+      case NodePlacementStrategy.LEAST_SERVERS:
+        score = 100 / (1 + nodeUsage.total_servers);
+        break;
+      case NodePlacementStrategy.CPU_AWARE: {
+        // The panel has no CPU capacity per node, so CPU committed per GB of memory stands in for contention
+        const memoryGb = Math.max(1, nodeUsage.effective_memory_limit / 1024);
+        const cpuPerGb = (nodeUsage.allocated_cpu + (requirements.cpu || 100)) / memoryGb;
+        score = 100 / (1 + cpuPerGb / 100);
+        break;
+      }
+      default:
+        score = this.calculateFitScore(nodeUsage, requirements);
+    }
+
+    return Math.max(0, Math.round(score * 100) / 100);
+  }
+
+  // Select the best node for server creation using the location's placement strategy
   static async selectOptimalNode(
     locationId: number,
     requirements: ResourceRequirements,
-    forceRefresh: boolean = false
+    forceRefresh: boolean = false,
+    options: PlacementOptions = {}
   ): Promise<NodeSelectionResult> {
     try {
       // First check if location can accommodate
@@ -287,6 +335,10 @@ export class CapacityCalculator {
         };
       }
 
+      const location = await locationOperations.getLocationByPterodactylId(locationId);
+      const placement: LocationPlacement = location?.placement ?? { strategy: NodePlacementStrategy.BALANCED };
+      const strategy = placement.strategy;
+
       // Get all node usages for the location
       const allNodeUsages = await NodeMonitorService.getAllNodesUsage(forceRefresh);
       const locationNodes = allNodeUsages.filter(node => 
@@ -302,30 +354,66 @@ export class CapacityCalculator {
       if (viableNodes.length === 0) {
         return {
           success: false,
+          strategy,
           error: 'No viable nodes found that can accommodate the requirements'
         };
       }
 
-      // Calculate scores for all viable nodes
-      const scoredNodes = viableNodes.map(node => ({
-        node,
-        loadScore: this.calculateLoadScore(node),
-        fitScore: this.calculateFitScore(node, requirements)
-      }));
+      const [freeAllocations, userNodeIds] = await Promise.all([
+        this.getFreeAllocations(viableNodes.map(node => node.node_id), location?.network),
+        placement.anti_affinity && options.user_id !== undefined
+          ? this.getUserNodeIds(options.user_id)
+          : Promise.resolve(new Set<number>())
+      ]);
+
+      // Apply weights and hard constraints, then score what is left
+      const excluded: NonNullable<NodeSelectionResult['alternatives']> = [];
+      const scoredNodes: Array<{ node: NodeResourceUsage; loadScore: number; score: number; allocation: PterodactylAllocation }> = [];
+
+      for (const node of viableNodes) {
+        const loadScore = this.calculateLoadScore(node);
+        const weight = placement.node_weights?.[String(node.node_id)] ?? 1;
+        const allocation = freeAllocations.get(node.node_id)?.[0];
+
+        let reason: string | null = null;
+        if (options.exclude_node_ids?.includes(node.node_id)) reason = 'Excluded for this request';
+        else if (options.node_id !== undefined && node.node_id !== options.node_id) reason = 'Not the requested node';
+        else if (weight <= 0) reason = 'Excluded by node weight';
+        else if (userNodeIds.has(node.node_id)) reason = 'Already hosts a server of this user';
+        else if (!allocation) reason = 'No free allocation';
+
+        if (reason || !allocation) {
+          excluded.push({ node_id: node.node_id, node_name: node.node_name, load_score: loadScore, reason_not_selected: reason ?? 'No free allocation' });
+          continue;
+        }
+
+        const score = Math.round(this.calculatePlacementScore(strategy, node, requirements) * weight * 100) / 100;
+        scoredNodes.push({ node, loadScore, score, allocation });
+      }
 
-      // Sort by fit score (descending) then load score (ascending)
+      if (scoredNodes.length === 0) {
+        return {
+          success: false,
+          strategy,
+          error: `No node can take the server: ${[...new Set(excluded.map(e => e.reason_not_selected.toLowerCase()))].join(', ')}`,
+          alternatives: excluded
+        };
+      }
+
+      // Sort by placement score (descending) then load score (ascending)
       scoredNodes.sort((a, b) => {
-        if (a.fitScore !== b.fitScore) {
-          return b.fitScore - a.fitScore;
+        if (a.score !== b.score) {
+          return b.score - a.score;
         }
         return a.loadScore - b.loadScore;
       });
 
       const selectedNodeData = scoredNodes[0];
       const selectedNode = selectedNodeData.node;
+      const allocation = selectedNodeData.allocation;
 
       // Generate selection reason
-      let selectionReason = `Selected based on optimal fit score (${selectedNodeData.fitScore}) and load score (${selectedNodeData.loadScore})`;
+      let selectionReason = `Selected by ${strategy} placement with score ${selectedNodeData.score} and load score ${selectedNodeData.loadScore}`;
       if (selectedNode.status === 'available') {
         selectionReason += '. Node has excellent availability';
       } else if (selectedNode.status === 'limited') {
@@ -333,16 +421,20 @@ export class CapacityCalculator {
       }
 
       // Generate alternatives list
-      const alternatives = scoredNodes.slice(1, 4).map(scored => ({
-        node_id: scored.node.node_id,
-        node_name: scored.node.node_name,
-        load_score: scored.loadScore,
-        reason_not_selected: scored.fitScore < selectedNodeData.fitScore ? 
-          'Lower fit score' : 'Higher load score'
-      }));
+      const alternatives = [
+        ...scoredNodes.slice(1, 4).map(scored => ({
+          node_id: scored.node.node_id,
+          node_name: scored.node.node_name,
+          load_score: scored.loadScore,
+          reason_not_selected: scored.score < selectedNodeData.score ?
+            `Lower ${strategy} score` : 'Higher load score'
+        })),
+        ...excluded
+      ];
 
       return {
         success: true,
+        strategy,
         selected_node: {
           node_id: selectedNode.node_id,
           node_name: selectedNode.node_name,
@@ -352,6 +444,9 @@ export class CapacityCalculator {
           available_memory: selectedNode.available_memory,
           available_disk: selectedNode.available_disk,
           current_load_score: selectedNodeData.loadScore,
+          placement_score: selectedNodeData.score,
+          allocation_id: allocation.id,
+          allocation_address: `${allocation.ip_alias || allocation.ip}:${allocation.port}`,
           selection_reason: selectionReason
         },
         alternatives: alternatives.length > 0 ? alternatives : undefined
@@ -366,6 +461,55 @@ export class CapacityCalculator {
     }
   }
 
+  // Unassigned allocations per node, preferring ports inside the location's range
+  private static async getFreeAllocations(
+    nodeIds: number[],
+    network?: CythroDashLocation['network']
+  ): Promise<Map<number, PterodactylAllocation[]>> {
+    const byNode = new Map<number, PterodactylAllocation[]>();
+
+    const listing = await panelNodeGetAllWithAllocations();
+    for (const item of listing.data) {
+      const node = item.attributes;
+      if (!node || !nodeIds.includes(node.id)) continue;
+      const allocations = node.relationships?.allocations?.data ?? [];
+      byNode.set(node.id, allocations.map((allocation: { attributes: PterodactylAllocation }) => allocation.attributes));
+    }
+
+    // The listing is a single page of nodes; look up any node it missed directly
+    for (const nodeId of nodeIds) {
+      if (!byNode.has(nodeId)) {
+        byNode.set(nodeId, await panelNodeGetAllocations(nodeId));
+      }
+    }
+
+    const rangeStart = network?.port_range_start;
+    const rangeEnd = network?.port_range_end;
+    const free = new Map<number, PterodactylAllocation[]>();
+
+    for (const [nodeId, allocations] of byNode) {
+      const unassigned = allocations
+        .filter(allocation => allocation && !allocation.assigned)
+        .sort((a, b) => a.port - b.port);
+      const inRange = rangeStart && rangeEnd
+        ? unassigned.filter(allocation => allocation.port >= rangeStart && allocation.port <= rangeEnd)
+        : unassigned;
+      free.set(nodeId, inRange.length > 0 ? inRange : unassigned);
+    }
+
+    return free;
+  }
+
+  // Nodes already hosting one of the user's panel servers
+  private static async getUserNodeIds(userId: number): Promise<Set<number>> {
+    const servers = await panelServerGetByUser(userId);
+    return new Set(
+      servers.data
+        .map(server => server.attributes?.node)
+        .filter((nodeId): nodeId is number => typeof nodeId === 'number')
+    );
+  }
+
   // Get capacity status for multiple locations
   static async getMultiLocationCapacity(
     locationIds: number[],
@@ -0,0 +1,148 @@
+/**
+ * CythroDash - Location Capacity Forecasting
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { NodeMonitorService, type LocationCapacitySummary } from '@/hooks/managers/monitoring/node-monitor';
+import { nodeStatsOperations } from '@/hooks/managers/database/node-stats';
+import { locationOperations } from '@/hooks/managers/database/location';
+import { serverOperations } from '@/hooks/managers/database/servers';
+import { NodeStatsGranularity, NodeStatsPoint } from '@/database/tables/cythro_dash_node_stats';
+import type { CythroDashLocation } from '@/database/tables/cythro_dash_locations';
+import type { CapacityResource } from '@/database/tables/cythro_dash_capacity_alerts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far back growth is measured
+const FORECAST_WINDOW_DAYS = 14;
+
+// Snapshot trends shorter than this fall back to the server creation rate
+const MIN_TREND_SPAN_MS = DAY_MS;
+
+export interface ResourceForecast {
+  resource: CapacityResource;
+  total: number;              // Effective limit in MB
+  used: number;               // Allocated MB
+  available: number;          // MB
+  usage_percentage: number;
+  growth_per_day: number;     // MB per day, negative when shrinking
+  days_until_full: number | null; // null when not growing
+  source: 'snapshots' | 'creations' | 'none';
+}
+
+export interface LocationForecast {
+  pterodactyl_location_id: number;
+  location_id: string | null; // CythroDash location, null for unmapped panel locations
+  location_name: string;
+  status: LocationCapacitySummary['status'];
+  capacity_hold?: CythroDashLocation['capacity_hold'];
+  servers_created_per_day: number;
+  resources: ResourceForecast[];
+  forecast_at: Date;
+}
+
+// Least-squares slope of `value` per day
+function slopePerDay(points: NodeStatsPoint[], value: (p: NodeStatsPoint) => number): number {
+  const xs = points.map(p => new Date(p.recorded_at).getTime() / DAY_MS);
+  const ys = points.map(value);
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < n; i++) {
+    num += (xs[i] - meanX) * (ys[i] - meanY);
+    den += (xs[i] - meanX) ** 2;
+  }
+  return den > 0 ? num / den : 0;
+}
+
+// Capacity forecaster
+export class CapacityForecaster {
+  // Forecast "days until full" for every location the panel reports
+  static async forecastAll(): Promise<LocationForecast[]> {
+    const now = new Date();
+    const since = new Date(now.getTime() - FORECAST_WINDOW_DAYS * DAY_MS);
+
+    const [summaries, locations, creations] = await Promise.all([
+      NodeMonitorService.getAllLocationsCapacity(),
+      locationOperations.getAllLocations(),
+      serverOperations.getCreationHistoryByLocation(since),
+    ]);
+
+    const byPterodactylId = new Map(locations.map(l => [l.pterodactyl_location_id, l]));
+    const creationsByLocation = new Map(creations.map(c => [c.location_id, c]));
+
+    return await Promise.all(summaries.map(async (summary) => {
+      const location = byPterodactylId.get(summary.location_id);
+      const created = location ? creationsByLocation.get(location.id) : undefined;
+      const series = await this.getTrendSeries(summary.location_id, since);
+
+      // Totals include overallocation, like the node monitor's available_* figures
+      const resources: ResourceForecast[] = [
+        this.forecastResource('memory', summary.allocated_memory, summary.allocated_memory + summary.available_memory, summary.memory_usage_percentage, series, p => p.memory_used, created?.memory),
+        this.forecastResource('disk', summary.allocated_disk, summary.allocated_disk + summary.available_disk, summary.disk_usage_percentage, series, p => p.disk_used, created?.disk),
+      ];
+
+      return {
+        pterodactyl_location_id: summary.location_id,
+        location_id: location?.id ?? null,
+        location_name: location?.name ?? `Location #${summary.location_id}`,
+        status: summary.status,
+        capacity_hold: location?.capacity_hold,
+        servers_created_per_day: Math.round(((created?.count ?? 0) / FORECAST_WINDOW_DAYS) * 100) / 100,
+        resources,
+        forecast_at: now,
+      };
+    }));
+  }
+
+  // Hourly history when there is enough of it, otherwise the recent raw samples
+  private static async getTrendSeries(pterodactylLocationId: number, since: Date): Promise<NodeStatsPoint[]> {
+    const hourly = await nodeStatsOperations.getLocationSeries(pterodactylLocationId, NodeStatsGranularity.HOURLY, since);
+    if (hourly.length >= 24) return hourly;
+    return await nodeStatsOperations.getLocationSeries(pterodactylLocationId, NodeStatsGranularity.RAW, since);
+  }
+
+  private static forecastResource(
+    resource: CapacityResource,
+    used: number,
+    total: number,
+    usagePercentage: number,
+    series: NodeStatsPoint[],
+    value: (p: NodeStatsPoint) => number,
+    createdInWindow?: number
+  ): ResourceForecast {
+    const available = Math.max(0, total - used);
+    const span = series.length > 1
+      ? new Date(series[series.length - 1].recorded_at).getTime() - new Date(series[0].recorded_at).getTime()
+      : 0;
+
+    // Net growth from snapshots accounts for deletions; the creation rate is the fallback for new installs
+    let source: ResourceForecast['source'] = 'none';
+    let growth = 0;
+    if (series.length >= 3 && span >= MIN_TREND_SPAN_MS) {
+      source = 'snapshots';
+      growth = slopePerDay(series, value);
+    } else if (createdInWindow) {
+      source = 'creations';
+      growth = createdInWindow / FORECAST_WINDOW_DAYS;
+    }
+
+    const daysUntilFull = available <= 0 ? 0 : growth > 0 ? Math.round((available / growth) * 10) / 10 : null;
+
+    return {
+      resource,
+      total,
+      used,
+      available,
+      usage_percentage: usagePercentage,
+      growth_per_day: Math.round(growth),
+      days_until_full: daysUntilFull,
+      source,
+    };
+  }
+}
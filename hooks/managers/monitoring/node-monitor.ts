@@ -6,8 +6,8 @@
  * are not the responsibility of the original developers.
  */
 
-import { panelNodeGetAll, panelNodeGetDetails, type PterodactylNode } from '@/hooks/managers/pterodactyl/nodes';
-import { panelServerGetAll, panelServerGetByNode, type PterodactylServer } from '@/hooks/managers/pterodactyl/servers';
+import { panelNodeGetAllPages, panelNodeGetDetails, type PterodactylNode } from '@/hooks/managers/pterodactyl/nodes';
+import { panelServerGetAllPages, panelServerGetByNode, type PterodactylServer } from '@/hooks/managers/pterodactyl/servers';
 
 // Node resource monitoring interfaces
 export interface NodeResourceUsage {
@@ -27,6 +27,7 @@ export interface NodeResourceUsage {
   // Current allocation
   allocated_memory: number;
   allocated_disk: number;
+  allocated_cpu: number; // Percent of one core, summed (unlimited servers count as one core)
   
   // Server count
   total_servers: number;
@@ -187,6 +188,7 @@ export class NodeMonitorService {
     // Calculate allocated resources from servers
     const allocatedMemory = servers.reduce((total, server) => total + (server.limits?.memory || 0), 0);
     const allocatedDisk = servers.reduce((total, server) => total + (server.limits?.disk || 0), 0);
+    const allocatedCpu = servers.reduce((total, server) => total + (server.limits?.cpu || 100), 0);
 
     // Calculate usage percentages
     const memoryUsagePercentage = effectiveMemoryLimit > 0 ? (allocatedMemory / effectiveMemoryLimit) * 100 : 0;
@@ -230,6 +232,7 @@ export class NodeMonitorService {
       
       allocated_memory: allocatedMemory,
       allocated_disk: allocatedDisk,
+      allocated_cpu: allocatedCpu,
       
       total_servers: servers.length,
       active_servers: activeServers,
@@ -293,14 +296,11 @@ export class NodeMonitorService {
       console.log('Performing full nodes monitoring update...');
 
       // Fetch all nodes and servers
-      const [nodesResponse, serversResponse] = await Promise.all([
-        panelNodeGetAll({ per_page: 100 }),
-        panelServerGetAll({ per_page: 100, include: "node" })
+      const [nodes, allServers] = await Promise.all([
+        panelNodeGetAllPages(),
+        panelServerGetAllPages()
       ]);
 
-      const nodes = nodesResponse.data.map(n => n.attributes!).filter(Boolean);
-      const allServers = serversResponse.data.map(s => s.attributes!).filter(Boolean);
-
       // Group servers by node
       const serversByNode = new Map<number, PterodactylServer[]>();
       allServers.forEach(server => {
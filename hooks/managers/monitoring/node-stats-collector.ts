@@ -0,0 +1,165 @@
+/**
+ * CythroDash - Node Statistics Collector
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { NodeMonitorService, type NodeResourceUsage } from '@/hooks/managers/monitoring/node-monitor';
+import { nodeStatsOperations, type NodeStatsBucket } from '@/hooks/managers/database/node-stats';
+import { locationOperations } from '@/hooks/managers/database/location';
+import {
+  CythroDashNodeStats,
+  NodeStatsGranularity,
+  NodeStatsHelpers,
+  NodeStatsPoint,
+  NodeStatus,
+  NODE_STATS_RETENTION_MS,
+} from '@/database/tables/cythro_dash_node_stats';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const NODE_STATS_RANGES = ['24h', '7d', '30d', '180d'] as const;
+
+export type NodeStatsRange = typeof NODE_STATS_RANGES[number];
+
+// Which granularity serves each chart range
+const RANGE_SOURCES: Record<NodeStatsRange, { granularity: NodeStatsGranularity; duration: number }> = {
+  '24h': { granularity: NodeStatsGranularity.RAW, duration: DAY_MS },
+  '7d': { granularity: NodeStatsGranularity.HOURLY, duration: 7 * DAY_MS },
+  '30d': { granularity: NodeStatsGranularity.DAILY, duration: 30 * DAY_MS },
+  '180d': { granularity: NodeStatsGranularity.DAILY, duration: 180 * DAY_MS },
+};
+
+export interface NodeStatsCollectionResult {
+  recorded_at: Date;
+  nodes: number;
+  hourly_rollups: number;
+  daily_rollups: number;
+}
+
+export interface NodeStatsHistory {
+  range: NodeStatsRange;
+  granularity: NodeStatsGranularity;
+  points: NodeStatsPoint[];
+}
+
+// Node statistics collector
+export class NodeStatsCollector {
+  // Snapshot current node usage and roll older samples up into hourly and daily averages
+  static async collect(): Promise<NodeStatsCollectionResult> {
+    const recordedAt = new Date();
+    const usages = await NodeMonitorService.getAllNodesUsage(true);
+
+    // Map Pterodactyl location ids to CythroDash location ids
+    const locations = await locationOperations.getAllLocations();
+    const locationIds = new Map(locations.map(l => [l.pterodactyl_location_id, l.id]));
+
+    const samples = usages.map(usage => this.buildSample(usage, locationIds.get(usage.location_id) ?? String(usage.location_id), recordedAt));
+    await nodeStatsOperations.upsertMany(samples);
+
+    const hourly = await this.rollup(NodeStatsGranularity.RAW, NodeStatsGranularity.HOURLY, HOUR_MS, recordedAt);
+    const daily = await this.rollup(NodeStatsGranularity.HOURLY, NodeStatsGranularity.DAILY, DAY_MS, recordedAt);
+
+    return { recorded_at: recordedAt, nodes: samples.length, hourly_rollups: hourly, daily_rollups: daily };
+  }
+
+  // Trend of one node over a chart range
+  static async getNodeHistory(nodeId: number, range: NodeStatsRange): Promise<NodeStatsHistory> {
+    const { granularity, duration } = RANGE_SOURCES[range];
+    const points = await nodeStatsOperations.getNodeSeries(nodeId, granularity, new Date(Date.now() - duration));
+    return { range, granularity, points };
+  }
+
+  // Trend of a location (summed across its nodes) over a chart range
+  static async getLocationHistory(pterodactylLocationId: number, range: NodeStatsRange): Promise<NodeStatsHistory> {
+    const { granularity, duration } = RANGE_SOURCES[range];
+    const points = await nodeStatsOperations.getLocationSeries(pterodactylLocationId, granularity, new Date(Date.now() - duration));
+    return { range, granularity, points };
+  }
+
+  // Build a raw sample from the monitor's view of a node
+  private static buildSample(usage: NodeResourceUsage, locationId: string, recordedAt: Date): CythroDashNodeStats {
+    const defaults = NodeStatsHelpers.getDefaultNodeStatsValues(usage.node_id, locationId, usage.node_name, usage.fqdn);
+    const memory = NodeStatsHelpers.createResourceMetrics(usage.effective_memory_limit, usage.allocated_memory);
+    const disk = NodeStatsHelpers.createResourceMetrics(usage.effective_disk_limit, usage.allocated_disk);
+
+    const status = usage.status === 'maintenance'
+      ? NodeStatus.MAINTENANCE
+      : usage.status === 'full' ? NodeStatus.OVERLOADED : NodeStatus.ONLINE;
+
+    const sample = {
+      ...defaults,
+      pterodactyl_location_id: usage.location_id,
+      status,
+      last_ping: usage.last_updated,
+      resources: { ...defaults.resources!, memory, disk },
+      servers: {
+        ...defaults.servers!,
+        total: usage.total_servers,
+        running: usage.active_servers,
+        suspended: usage.suspended_servers,
+      },
+      capacity: {
+        ...defaults.capacity!,
+        current_allocation_percentage: Math.max(memory.percentage, disk.percentage),
+      },
+      configuration: { ...defaults.configuration!, maintenance_mode: usage.maintenance_mode },
+      granularity: NodeStatsGranularity.RAW,
+      sample_count: 1,
+      recorded_at: recordedAt,
+      updated_at: recordedAt,
+      created_at: recordedAt,
+      expires_at: new Date(recordedAt.getTime() + NODE_STATS_RETENTION_MS[NodeStatsGranularity.RAW]),
+    } as CythroDashNodeStats;
+
+    sample.health = {
+      ...sample.health,
+      overall_score: NodeStatsHelpers.calculateHealthScore(sample),
+      memory_health: 100 - memory.percentage,
+      disk_health: 100 - disk.percentage,
+      cpu_health: 100,
+      network_health: 100,
+      last_health_check: recordedAt,
+    };
+
+    return sample;
+  }
+
+  // Average every complete `bucketMs` bucket of `source` records not yet rolled up into `target`
+  private static async rollup(source: NodeStatsGranularity, target: NodeStatsGranularity, bucketMs: number, now: Date): Promise<number> {
+    const lastRollup = await nodeStatsOperations.latestRecordedAt(target);
+    const since = lastRollup ? new Date(lastRollup.getTime() + bucketMs) : new Date(now.getTime() - NODE_STATS_RETENTION_MS[source]);
+    const before = new Date(Math.floor(now.getTime() / bucketMs) * bucketMs);
+    if (since >= before) return 0;
+
+    const buckets = await nodeStatsOperations.aggregateBuckets(source, since, before, bucketMs);
+    const records = buckets.map(bucket => this.buildRollup(bucket, target, now));
+    return await nodeStatsOperations.upsertMany(records);
+  }
+
+  private static buildRollup(bucket: NodeStatsBucket, granularity: NodeStatsGranularity, now: Date): CythroDashNodeStats {
+    const { _id, ...latest } = bucket.latest;
+    const memory = NodeStatsHelpers.createResourceMetrics(Math.round(bucket.memory_total), Math.round(bucket.memory_used));
+    const disk = NodeStatsHelpers.createResourceMetrics(Math.round(bucket.disk_total), Math.round(bucket.disk_used));
+
+    return {
+      ...latest,
+      resources: { ...latest.resources, memory, disk },
+      servers: {
+        ...latest.servers,
+        total: Math.round(bucket.servers_total),
+        running: Math.round(bucket.servers_running),
+        suspended: Math.round(bucket.servers_suspended),
+      },
+      health: { ...latest.health, overall_score: Math.round(bucket.health) },
+      granularity,
+      sample_count: bucket.sample_count,
+      recorded_at: bucket.bucket_start,
+      updated_at: now,
+      expires_at: new Date(bucket.bucket_start.getTime() + NODE_STATS_RETENTION_MS[granularity]),
+    };
+  }
+}
@@ -0,0 +1,396 @@
+/**
+ * CythroDash - Pterodactyl Panel API Client
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ */
+
+import { getMockPanel } from "./mock-panel";
+
+// TYPE DEFINITIONS
+
+export interface PterodactylResponse<T> {
+  object: string;
+  attributes?: T;
+  relationships?: Record<string, any>;
+}
+
+export interface PterodactylListResponse<T> {
+  object: "list";
+  data: PterodactylResponse<T>[];
+  meta: {
+    pagination: {
+      total: number;
+      count: number;
+      per_page: number;
+      current_page: number;
+      total_pages: number;
+      links: Record<string, any>;
+    };
+  };
+}
+
+export class PterodactylError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string,
+    public details?: any
+  ) {
+    super(message);
+    this.name = "PterodactylError";
+  }
+}
+
+export type PterodactylApi = "application" | "client";
+
+export interface PterodactylRequestOptions {
+  method?: "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+  params?: Record<string, any>;
+  body?: unknown;
+  /** Which panel API to call. The client API uses PANEL_CLIENT_API_KEY. */
+  api?: PterodactylApi;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+export type PterodactylFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface PterodactylResourceMetrics {
+  requests: number;
+  failures: number;
+  avg_latency_ms: number;
+}
+
+export interface PterodactylMetrics {
+  since: string;
+  mock: boolean;
+  requests: number;
+  failures: number;
+  retries: number;
+  rate_limited: number;
+  timeouts: number;
+  avg_latency_ms: number;
+  last_error: { message: string; status: number; code?: string; at: string } | null;
+  by_resource: Record<string, PterodactylResourceMetrics>;
+}
+
+// CONFIGURATION
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_RETRIES = 3;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8_000;
+// A Retry-After longer than this is not worth holding the caller for
+const MAX_RETRY_AFTER_MS = 30_000;
+const MAX_PAGE_SIZE = 100;
+// Stops a misbehaving panel from paging forever
+const MAX_PAGES = 500;
+// POST is only retried on 429, where the panel has not processed the request
+const IDEMPOTENT_METHODS = new Set(["GET", "PUT", "PATCH", "DELETE"]);
+
+export const MOCK_PANEL_URL = "http://mock-panel.local";
+
+function isMockEnabled(): boolean {
+  return process.env.PANEL_MOCK === "true";
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function getPterodactylConfig() {
+  const mock = isMockEnabled();
+  const panelUrl = process.env.PANEL_URL || process.env.NEXT_PUBLIC_PANEL_URL || (mock ? MOCK_PANEL_URL : undefined);
+  const apiKey = process.env.PANEL_API_KEY || process.env.NEXT_PUBLIC_PANEL_API_KEY || (mock ? "mock-application-key" : undefined);
+  const clientApiKey = process.env.PANEL_CLIENT_API_KEY || process.env.NEXT_PUBLIC_PANEL_CLIENT_API_KEY || (mock ? "mock-client-key" : undefined);
+
+  if (!panelUrl || !apiKey) {
+    throw new PterodactylError(
+      "Missing Pterodactyl configuration. Please set PANEL_URL and PANEL_API_KEY environment variables.",
+      500,
+      "MISSING_CONFIG"
+    );
+  }
+
+  return {
+    baseUrl: panelUrl.endsWith("/") ? panelUrl.slice(0, -1) : panelUrl,
+    apiKey: apiKey,
+    clientApiKey: clientApiKey,
+    timeoutMs: envNumber("PANEL_TIMEOUT_MS", DEFAULT_TIMEOUT_MS),
+    maxRetries: envNumber("PANEL_MAX_RETRIES", DEFAULT_MAX_RETRIES),
+  };
+}
+
+// TRANSPORT
+
+let fetchOverride: PterodactylFetch | null = null;
+
+/** Send panel requests through `impl` instead of the network. Pass null to restore the default. */
+export function setPterodactylFetch(impl: PterodactylFetch | null): void {
+  fetchOverride = impl;
+}
+
+function getTransport(): PterodactylFetch {
+  if (fetchOverride) return fetchOverride;
+  if (isMockEnabled()) return getMockPanel().fetch;
+  return fetch;
+}
+
+// METRICS
+
+function emptyMetrics() {
+  return {
+    since: new Date(),
+    requests: 0,
+    failures: 0,
+    retries: 0,
+    rate_limited: 0,
+    timeouts: 0,
+    total_latency_ms: 0,
+    last_error: null as PterodactylMetrics["last_error"],
+    by_resource: new Map<string, { requests: number; failures: number; total_latency_ms: number }>(),
+  };
+}
+
+let metrics = emptyMetrics();
+
+function resourceOf(api: PterodactylApi, endpoint: string): string {
+  const segment = endpoint.split("?")[0].split("/").filter(Boolean)[0] || "root";
+  return api === "client" ? `client.${segment}` : segment;
+}
+
+function recordAttempt(resource: string, latencyMs: number, failed: boolean): void {
+  metrics.requests++;
+  metrics.total_latency_ms += latencyMs;
+  if (failed) metrics.failures++;
+
+  const entry = metrics.by_resource.get(resource) || { requests: 0, failures: 0, total_latency_ms: 0 };
+  entry.requests++;
+  entry.total_latency_ms += latencyMs;
+  if (failed) entry.failures++;
+  metrics.by_resource.set(resource, entry);
+}
+
+function recordError(error: PterodactylError): void {
+  metrics.last_error = { message: error.message, status: error.status, code: error.code, at: new Date().toISOString() };
+}
+
+/** Request counters since the process started or since the last reset. */
+export function getPterodactylMetrics(): PterodactylMetrics {
+  const byResource: Record<string, PterodactylResourceMetrics> = {};
+  metrics.by_resource.forEach((entry, resource) => {
+    byResource[resource] = {
+      requests: entry.requests,
+      failures: entry.failures,
+      avg_latency_ms: entry.requests ? Math.round(entry.total_latency_ms / entry.requests) : 0,
+    };
+  });
+
+  return {
+    since: metrics.since.toISOString(),
+    mock: !fetchOverride && isMockEnabled(),
+    requests: metrics.requests,
+    failures: metrics.failures,
+    retries: metrics.retries,
+    rate_limited: metrics.rate_limited,
+    timeouts: metrics.timeouts,
+    avg_latency_ms: metrics.requests ? Math.round(metrics.total_latency_ms / metrics.requests) : 0,
+    last_error: metrics.last_error,
+    by_resource: byResource,
+  };
+}
+
+export function resetPterodactylMetrics(): void {
+  metrics = emptyMetrics();
+}
+
+// REQUEST HELPERS
+
+export function buildUrl(baseUrl: string, endpoint: string, params?: Record<string, any>): string {
+  const url = new URL(`${baseUrl}${endpoint}`);
+
+  if (params) {
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        url.searchParams.append(key, value.toString());
+      }
+    });
+  }
+
+  return url.toString();
+}
+
+export async function handleApiResponse<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+    let errorCode = response.status.toString();
+    let errorDetails: any = null;
+
+    try {
+      const errorData = await response.json();
+      if (errorData.errors && Array.isArray(errorData.errors)) {
+        errorMessage = errorData.errors.map((err: any) => err.detail || err.message).join(", ");
+        errorCode = errorData.errors[0]?.code || errorCode;
+        errorDetails = errorData.errors;
+      }
+    } catch {
+      // If we can't parse the error response, use the default message
+    }
+
+    throw new PterodactylError(errorMessage, response.status, errorCode, errorDetails);
+  }
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
+  try {
+    return await response.json();
+  } catch (error) {
+    throw new PterodactylError(
+      "Failed to parse API response",
+      500,
+      "PARSE_ERROR",
+      error
+    );
+  }
+}
+
+function backoffDelay(attempt: number): number {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  // Jitter keeps parallel callers from retrying in lockstep
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/** Retry-After is either a number of seconds or an HTTP date. */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Send a request to the panel. Each attempt is bounded by a timeout. 429 responses are retried
+ * after Retry-After (or exponential backoff), and 5xx, timeouts and network errors are retried
+ * with exponential backoff for idempotent methods. Resolves to undefined for 204 responses.
+ */
+export async function pterodactylRequest<T = void>(
+  endpoint: string,
+  options: PterodactylRequestOptions = {}
+): Promise<T> {
+  const method = options.method || "GET";
+  const api = options.api || "application";
+  const config = getPterodactylConfig();
+  const apiKey = api === "client" ? config.clientApiKey : config.apiKey;
+
+  if (!apiKey) {
+    throw new PterodactylError("Client API key not configured", 500, "CONFIG_ERROR");
+  }
+
+  const url = buildUrl(config.baseUrl, `/api/${api}${endpoint}`, options.params);
+  const headers: Record<string, string> = {
+    "Authorization": `Bearer ${apiKey}`,
+    "Accept": api === "client" ? "application/json" : "Application/vnd.pterodactyl.v1+json",
+  };
+  if (options.body !== undefined) {
+    headers["Content-Type"] = "application/json";
+  }
+
+  const timeoutMs = options.timeoutMs ?? config.timeoutMs;
+  const maxRetries = options.retries ?? config.maxRetries;
+  const resource = resourceOf(api, endpoint);
+  const transport = getTransport();
+
+  for (let attempt = 0; ; attempt++) {
+    const startedAt = Date.now();
+    let response: Response;
+
+    try {
+      response = await transport(url, {
+        method,
+        headers,
+        body: options.body === undefined ? undefined : JSON.stringify(options.body),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      const timedOut = error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError");
+      const failure = timedOut
+        ? new PterodactylError(`Panel request timed out after ${timeoutMs}ms`, 504, "TIMEOUT")
+        : new PterodactylError("Could not reach the panel", 502, "NETWORK_ERROR", error);
+
+      recordAttempt(resource, Date.now() - startedAt, true);
+      if (timedOut) metrics.timeouts++;
+
+      if (attempt < maxRetries && IDEMPOTENT_METHODS.has(method)) {
+        metrics.retries++;
+        await sleep(backoffDelay(attempt));
+        continue;
+      }
+      recordError(failure);
+      throw failure;
+    }
+
+    recordAttempt(resource, Date.now() - startedAt, !response.ok);
+
+    if (attempt < maxRetries) {
+      let delay: number | null = null;
+      if (response.status === 429) {
+        metrics.rate_limited++;
+        const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+        delay = retryAfter === null ? backoffDelay(attempt) : retryAfter <= MAX_RETRY_AFTER_MS ? retryAfter : null;
+      } else if (response.status >= 500 && IDEMPOTENT_METHODS.has(method)) {
+        delay = backoffDelay(attempt);
+      }
+
+      if (delay !== null) {
+        metrics.retries++;
+        await sleep(delay);
+        continue;
+      }
+    } else if (response.status === 429) {
+      metrics.rate_limited++;
+    }
+
+    try {
+      return await handleApiResponse<T>(response);
+    } catch (error) {
+      if (error instanceof PterodactylError) recordError(error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Walk every page of a list endpoint and return the attributes of all items.
+ * `per_page` defaults to the panel maximum of 100.
+ */
+export async function pterodactylListAll<T>(
+  endpoint: string,
+  params: Record<string, any> = {}
+): Promise<T[]> {
+  const items: T[] = [];
+
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const response = await pterodactylRequest<PterodactylListResponse<T>>(endpoint, {
+      params: { per_page: MAX_PAGE_SIZE, ...params, page },
+    });
+
+    for (const item of response.data) {
+      if (item.attributes) items.push(item.attributes);
+    }
+
+    const pagination = response.meta?.pagination;
+    if (!pagination || pagination.current_page >= pagination.total_pages) break;
+  }
+
+  return items;
+}
@@ -6,28 +6,18 @@
  * are not the responsibility of the original developers.
  */
 
-// TYPE DEFINITIONS
+import {
+  PterodactylError,
+  pterodactylRequest,
+  pterodactylListAll,
+  type PterodactylResponse,
+  type PterodactylListResponse,
+} from "./client";
 
-export interface PterodactylResponse<T> {
-  object: string;
-  attributes?: T;
-  relationships?: Record<string, any>;
-}
+export { PterodactylError };
+export type { PterodactylResponse, PterodactylListResponse };
 
-export interface PterodactylListResponse<T> {
-  object: "list";
-  data: PterodactylResponse<T>[];
-  meta: {
-    pagination: {
-      total: number;
-      count: number;
-      per_page: number;
-      current_page: number;
-      total_pages: number;
-      links: Record<string, any>;
-    };
-  };
-}
+// TYPE DEFINITIONS
 
 export interface PterodactylEgg {
   id: number;
@@ -82,93 +72,6 @@ export interface EggDetailsParams {
   include?: "variables" | "nest";
 }
 
-export class PterodactylError extends Error {
-  constructor(
-    message: string,
-    public status: number,
-    public code?: string,
-    public details?: any
-  ) {
-    super(message);
-    this.name = "PterodactylError";
-  }
-}
-
-// API CLIENT UTILITIES
-
-function getPterodactylConfig() {
-  const panelUrl = process.env.PANEL_URL || process.env.NEXT_PUBLIC_PANEL_URL;
-  const apiKey = process.env.PANEL_API_KEY || process.env.NEXT_PUBLIC_PANEL_API_KEY;
-
-  if (!panelUrl || !apiKey) {
-    throw new PterodactylError(
-      "Missing Pterodactyl configuration. Please set PANEL_URL and PANEL_API_KEY environment variables.",
-      500,
-      "MISSING_CONFIG"
-    );
-  }
-
-  return {
-    baseUrl: panelUrl.endsWith("/") ? panelUrl.slice(0, -1) : panelUrl,
-    apiKey: apiKey,
-  };
-}
-
-function getDefaultHeaders(): HeadersInit {
-  const { apiKey } = getPterodactylConfig();
-
-  return {
-    "Authorization": `Bearer ${apiKey}`,
-    "Accept": "Application/vnd.pterodactyl.v1+json",
-  };
-}
-
-async function handleApiResponse<T>(response: Response): Promise<T> {
-  if (!response.ok) {
-    let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-    let errorCode = response.status.toString();
-    let errorDetails: any = null;
-
-    try {
-      const errorData = await response.json();
-      if (errorData.errors && Array.isArray(errorData.errors)) {
-        errorMessage = errorData.errors.map((err: any) => err.detail || err.message).join(", ");
-        errorCode = errorData.errors[0]?.code || errorCode;
-        errorDetails = errorData.errors;
-      }
-    } catch {
-      // If we can't parse the error response, use the default message
-    }
-
-    throw new PterodactylError(errorMessage, response.status, errorCode, errorDetails);
-  }
-
-  try {
-    return await response.json();
-  } catch (error) {
-    throw new PterodactylError(
-      "Failed to parse API response",
-      500,
-      "PARSE_ERROR",
-      error
-    );
-  }
-}
-
-function buildUrl(baseUrl: string, endpoint: string, params?: Record<string, any>): string {
-  const url = new URL(`${baseUrl}${endpoint}`);
-
-  if (params) {
-    Object.entries(params).forEach(([key, value]) => {
-      if (value !== undefined && value !== null) {
-        url.searchParams.append(key, value.toString());
-      }
-    });
-  }
-
-  return url.toString();
-}
-
 // EGG MANAGEMENT FUNCTIONS
 
 /** Get all eggs within a specific nest */
@@ -176,15 +79,7 @@ export async function panelEggGetAll(
   nestId: number,
   params?: EggListParams
 ): Promise<PterodactylListResponse<PterodactylEgg>> {
-  const { baseUrl } = getPterodactylConfig();
-  const url = buildUrl(baseUrl, `/api/application/nests/${nestId}/eggs`, params);
-
-  const response = await fetch(url, {
-    method: "GET",
-    headers: getDefaultHeaders(),
-  });
-
-  return handleApiResponse<PterodactylListResponse<PterodactylEgg>>(response);
+  return pterodactylRequest<PterodactylListResponse<PterodactylEgg>>(`/nests/${nestId}/eggs`, { params });
 }
 
 /** Get details of a specific egg within a nest */
@@ -193,15 +88,15 @@ export async function panelEggGetDetails(
   eggId: number,
   params?: EggDetailsParams
 ): Promise<PterodactylResponse<PterodactylEgg>> {
-  const { baseUrl } = getPterodactylConfig();
-  const url = buildUrl(baseUrl, `/api/application/nests/${nestId}/eggs/${eggId}`, params);
-
-  const response = await fetch(url, {
-    method: "GET",
-    headers: getDefaultHeaders(),
-  });
+  return pterodactylRequest<PterodactylResponse<PterodactylEgg>>(`/nests/${nestId}/eggs/${eggId}`, { params });
+}
 
-  return handleApiResponse<PterodactylResponse<PterodactylEgg>>(response);
+/** Get every egg within a nest, walking all pages */
+export async function panelEggGetAllPages(
+  nestId: number,
+  params?: Omit<EggListParams, "page" | "per_page">
+): Promise<PterodactylEgg[]> {
+  return pterodactylListAll<PterodactylEgg>(`/nests/${nestId}/eggs`, params);
 }
 
 // UTILITY FUNCTIONS
@@ -211,12 +106,8 @@ export async function panelEggSearchByName(
   nestId: number,
   name: string
 ): Promise<PterodactylEgg[]> {
-  const response = await panelEggGetAll(nestId, { per_page: 100 });
-
-  return response.data
-    .filter(egg => egg.attributes?.name.toLowerCase().includes(name.toLowerCase()))
-    .map(egg => egg.attributes!)
-    .filter(Boolean);
+  const eggs = await panelEggGetAllPages(nestId);
+  return eggs.filter(egg => egg.name.toLowerCase().includes(name.toLowerCase()));
 }
 
 /** Get egg by UUID within a specific nest */
@@ -224,10 +115,8 @@ export async function panelEggGetByUuid(
   nestId: number,
   uuid: string
 ): Promise<PterodactylEgg | null> {
-  const response = await panelEggGetAll(nestId, { per_page: 100 });
-
-  const egg = response.data.find(egg => egg.attributes?.uuid === uuid);
-  return egg?.attributes || null;
+  const eggs = await panelEggGetAllPages(nestId);
+  return eggs.find(egg => egg.uuid === uuid) || null;
 }
 
 /** Check if an egg exists by name within a specific nest */
@@ -258,31 +147,24 @@ export async function panelEggGetByDockerImage(
   nestId: number,
   dockerImage: string
 ): Promise<PterodactylEgg[]> {
-  const response = await panelEggGetAll(nestId, { per_page: 100 });
-
-  return response.data
-    .filter(egg => egg.attributes?.docker_image === dockerImage)
-    .map(egg => egg.attributes!)
-    .filter(Boolean);
+  const eggs = await panelEggGetAllPages(nestId);
+  return eggs.filter(egg => egg.docker_image === dockerImage);
 }
 
 /** Search for eggs across all nests by name */
 export async function panelEggSearchGlobalByName(name: string): Promise<Array<{ nestId: number; egg: PterodactylEgg }>> {
   // First get all nests
-  const { panelNestGetAll } = await import('./nests');
-  const nestsResponse = await panelNestGetAll({ per_page: 100 });
+  const { panelNestGetAllPages } = await import('./nests');
+  const nests = await panelNestGetAllPages();
 
   const results: Array<{ nestId: number; egg: PterodactylEgg }> = [];
 
   // Search in each nest
-  for (const nestResponse of nestsResponse.data) {
-    if (nestResponse.attributes) {
-      const nestId = nestResponse.attributes.id;
-      const eggs = await panelEggSearchByName(nestId, name);
-
-      for (const egg of eggs) {
-        results.push({ nestId, egg });
-      }
+  for (const nest of nests) {
+    const eggs = await panelEggSearchByName(nest.id, name);
+
+    for (const egg of eggs) {
+      results.push({ nestId: nest.id, egg });
     }
   }
 
@@ -292,22 +174,17 @@ export async function panelEggSearchGlobalByName(name: string): Promise<Array<{
 /** Get all eggs across all nests */
 export async function panelEggGetAllGlobal(): Promise<Array<{ nestId: number; egg: PterodactylEgg }>> {
   // First get all nests
-  const { panelNestGetAll } = await import('./nests');
-  const nestsResponse = await panelNestGetAll({ per_page: 100 });
+  const { panelNestGetAllPages } = await import('./nests');
+  const nests = await panelNestGetAllPages();
 
   const results: Array<{ nestId: number; egg: PterodactylEgg }> = [];
 
   // Get eggs from each nest
-  for (const nestResponse of nestsResponse.data) {
-    if (nestResponse.attributes) {
-      const nestId = nestResponse.attributes.id;
-      const eggsResponse = await panelEggGetAll(nestId, { per_page: 100 });
-
-      for (const eggResponse of eggsResponse.data) {
-        if (eggResponse.attributes) {
-          results.push({ nestId, egg: eggResponse.attributes });
-        }
-      }
+  for (const nest of nests) {
+    const eggs = await panelEggGetAllPages(nest.id);
+
+    for (const egg of eggs) {
+      results.push({ nestId: nest.id, egg });
     }
   }
 
@@ -322,12 +199,10 @@ export interface EggStats {
 }
 
 export async function panelEggGetStats(nestId: number): Promise<EggStats> {
-  const response = await panelEggGetAll(nestId, { per_page: 100 });
-
-  const eggs = response.data.map(egg => egg.attributes!).filter(Boolean);
+  const eggs = await panelEggGetAllPages(nestId);
 
   const stats: EggStats = {
-    total: response.meta.pagination.total,
+    total: eggs.length,
     byAuthor: {},
     byDockerImage: {},
   };
@@ -350,22 +225,17 @@ export async function panelEggGetByDockerImageSupport(
   nestId: number,
   dockerImage: string
 ): Promise<PterodactylEgg[]> {
-  const response = await panelEggGetAll(nestId, { per_page: 100 });
-
-  return response.data
-    .filter(egg => {
-      if (!egg.attributes) return false;
+  const eggs = await panelEggGetAllPages(nestId);
 
-      // Check primary docker image
-      if (egg.attributes.docker_image === dockerImage) return true;
+  return eggs.filter(egg => {
+    // Check primary docker image
+    if (egg.docker_image === dockerImage) return true;
 
-      // Check additional docker images if available
-      if (egg.attributes.docker_images) {
-        return Object.values(egg.attributes.docker_images).includes(dockerImage);
-      }
+    // Check additional docker images if available
+    if (egg.docker_images) {
+      return Object.values(egg.docker_images).includes(dockerImage);
+    }
 
-      return false;
-    })
-    .map(egg => egg.attributes!)
-    .filter(Boolean);
+    return false;
+  });
 }
\ No newline at end of file
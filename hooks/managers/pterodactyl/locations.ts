@@ -6,28 +6,18 @@
  * are not the responsibility of the original developers.
  */
 
-// TYPE DEFINITIONS
+import {
+  PterodactylError,
+  pterodactylRequest,
+  pterodactylListAll,
+  type PterodactylResponse,
+  type PterodactylListResponse,
+} from "./client";
 
-export interface PterodactylResponse<T> {
-  object: string;
-  attributes?: T;
-  relationships?: Record<string, any>;
-}
+export { PterodactylError };
+export type { PterodactylResponse, PterodactylListResponse };
 
-export interface PterodactylListResponse<T> {
-  object: "list";
-  data: PterodactylResponse<T>[];
-  meta: {
-    pagination: {
-      total: number;
-      count: number;
-      per_page: number;
-      current_page: number;
-      total_pages: number;
-      links: Record<string, any>;
-    };
-  };
-}
+// TYPE DEFINITIONS
 
 export interface PterodactylLocation {
   id: number;
@@ -50,108 +40,13 @@ export interface LocationDetailsParams {
   include?: "nodes" | "servers";
 }
 
-export class PterodactylError extends Error {
-  constructor(
-    message: string,
-    public status: number,
-    public code?: string,
-    public details?: any
-  ) {
-    super(message);
-    this.name = "PterodactylError";
-  }
-}
-
-// API CLIENT UTILITIES
-
-function getPterodactylConfig() {
-  const panelUrl = process.env.PANEL_URL || process.env.NEXT_PUBLIC_PANEL_URL;
-  const apiKey = process.env.PANEL_API_KEY || process.env.NEXT_PUBLIC_PANEL_API_KEY;
-
-  if (!panelUrl || !apiKey) {
-    throw new PterodactylError(
-      "Missing Pterodactyl configuration. Please set PANEL_URL and PANEL_API_KEY environment variables.",
-      500,
-      "MISSING_CONFIG"
-    );
-  }
-
-  return {
-    baseUrl: panelUrl.endsWith("/") ? panelUrl.slice(0, -1) : panelUrl,
-    apiKey: apiKey,
-  };
-}
-
-function getDefaultHeaders(): HeadersInit {
-  const { apiKey } = getPterodactylConfig();
-
-  return {
-    "Authorization": `Bearer ${apiKey}`,
-    "Accept": "Application/vnd.pterodactyl.v1+json",
-  };
-}
-
-async function handleApiResponse<T>(response: Response): Promise<T> {
-  if (!response.ok) {
-    let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-    let errorCode = response.status.toString();
-    let errorDetails: any = null;
-
-    try {
-      const errorData = await response.json();
-      if (errorData.errors && Array.isArray(errorData.errors)) {
-        errorMessage = errorData.errors.map((err: any) => err.detail || err.message).join(", ");
-        errorCode = errorData.errors[0]?.code || errorCode;
-        errorDetails = errorData.errors;
-      }
-    } catch {
-      // If we can't parse the error response, use the default message
-    }
-
-    throw new PterodactylError(errorMessage, response.status, errorCode, errorDetails);
-  }
-
-  try {
-    return await response.json();
-  } catch (error) {
-    throw new PterodactylError(
-      "Failed to parse API response",
-      500,
-      "PARSE_ERROR",
-      error
-    );
-  }
-}
-
-function buildUrl(baseUrl: string, endpoint: string, params?: Record<string, any>): string {
-  const url = new URL(`${baseUrl}${endpoint}`);
-
-  if (params) {
-    Object.entries(params).forEach(([key, value]) => {
-      if (value !== undefined && value !== null) {
-        url.searchParams.append(key, value.toString());
-      }
-    });
-  }
-
-  return url.toString();
-}
-
 // LOCATION MANAGEMENT FUNCTIONS
 
 /** Get all locations from the Pterodactyl panel with optional filtering and pagination */
 export async function panelLocationGetAll(
   params?: LocationListParams
 ): Promise<PterodactylListResponse<PterodactylLocation>> {
-  const { baseUrl } = getPterodactylConfig();
-  const url = buildUrl(baseUrl, "/api/application/locations", params);
-
-  const response = await fetch(url, {
-    method: "GET",
-    headers: getDefaultHeaders(),
-  });
-
-  return handleApiResponse<PterodactylListResponse<PterodactylLocation>>(response);
+  return pterodactylRequest<PterodactylListResponse<PterodactylLocation>>("/locations", { params });
 }
 
 /** Get details of a specific location from the Pterodactyl panel */
@@ -159,41 +54,26 @@ export async function panelLocationGetDetails(
   locationId: number,
   params?: LocationDetailsParams
 ): Promise<PterodactylResponse<PterodactylLocation>> {
-  const { baseUrl } = getPterodactylConfig();
-  const url = buildUrl(baseUrl, `/api/application/locations/${locationId}`, params);
-
-  const response = await fetch(url, {
-    method: "GET",
-    headers: getDefaultHeaders(),
-  });
+  return pterodactylRequest<PterodactylResponse<PterodactylLocation>>(`/locations/${locationId}`, { params });
+}
 
-  return handleApiResponse<PterodactylResponse<PterodactylLocation>>(response);
+/** Get every location, walking all pages */
+export async function panelLocationGetAllPages(
+  params?: Omit<LocationListParams, "page" | "per_page">
+): Promise<PterodactylLocation[]> {
+  return pterodactylListAll<PterodactylLocation>("/locations", params);
 }
 
 // UTILITY FUNCTIONS
 
 /** Search for locations by short code */
 export async function panelLocationSearchByShort(short: string): Promise<PterodactylLocation[]> {
-  const response = await panelLocationGetAll({
-    "filter[short]": short,
-    per_page: 100,
-  });
-
-  return response.data
-    .map(location => location.attributes!)
-    .filter(Boolean);
+  return panelLocationGetAllPages({ "filter[short]": short });
 }
 
 /** Search for locations by long name */
 export async function panelLocationSearchByLong(long: string): Promise<PterodactylLocation[]> {
-  const response = await panelLocationGetAll({
-    "filter[long]": long,
-    per_page: 100,
-  });
-
-  return response.data
-    .map(location => location.attributes!)
-    .filter(Boolean);
+  return panelLocationGetAllPages({ "filter[long]": long });
 }
 
 /** Get locations with their nodes included */
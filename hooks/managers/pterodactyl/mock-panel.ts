@@ -0,0 +1,632 @@
+/**
+ * CythroDash - In-process Mock Pterodactyl Panel
+ *
+ * DISCLAIMER: This code is provided as-is for CythroDash.
+ * Any modifications or issues arising from the use of this code
+ * are not the responsibility of the original developers.
+ *
+ * Answers application and client API requests from memory so server creation, the lifecycle
+ * cron and node monitoring can run without a panel. Enabled with PANEL_MOCK=true, or by passing
+ * a panel's `fetch` to setPterodactylFetch(). Only the endpoints CythroDash calls are covered.
+ */
+
+import { randomUUID } from "crypto";
+import type { PterodactylUser } from "./users";
+import type { PterodactylServer, ServerCreateData, ServerTransferData, ServerUpdateBuildData, ServerUpdateDetailsData, ServerUpdateStartupData } from "./servers";
+import type { PterodactylNode, PterodactylAllocation } from "./nodes";
+import type { PterodactylLocation } from "./locations";
+import type { PterodactylNest } from "./nests";
+import type { PterodactylEgg, PterodactylEggVariable } from "./eggs";
+
+type MockAllocation = PterodactylAllocation & { node: number; server: number | null };
+type MockEgg = PterodactylEgg & { variables: PterodactylEggVariable[] };
+
+export interface MockPanelSeed {
+  users?: PterodactylUser[];
+  locations?: PterodactylLocation[];
+  nodes?: PterodactylNode[];
+  allocations?: MockAllocation[];
+  nests?: PterodactylNest[];
+  eggs?: MockEgg[];
+  servers?: PterodactylServer[];
+}
+
+export interface MockFailure {
+  status: number;
+  /** How many matching requests fail before the panel recovers. Defaults to 1. */
+  times?: number;
+  /** Sent as the Retry-After header, in seconds. */
+  retryAfter?: number;
+  /** Only fail requests whose path contains this string. */
+  path?: string;
+}
+
+type Handler = (match: RegExpMatchArray, body: any, query: URLSearchParams) => Response;
+
+const MAX_PAGE_SIZE = 100;
+
+function timestamp(): string {
+  return new Date().toISOString();
+}
+
+function uuid(): string {
+  return randomUUID();
+}
+
+function json(status: number, payload: unknown): Response {
+  return new Response(JSON.stringify(payload), { status, headers: { "Content-Type": "application/json" } });
+}
+
+function noContent(): Response {
+  return new Response(null, { status: 204 });
+}
+
+function error(status: number, code: string, detail: string): Response {
+  return json(status, { errors: [{ code, status: String(status), detail }] });
+}
+
+function notFound(): Response {
+  return error(404, "NotFoundHttpException", "The requested resource could not be found on the server.");
+}
+
+function validationError(detail: string): Response {
+  return error(422, "ValidationException", detail);
+}
+
+function nextId(items: Array<{ id: number }>): number {
+  return items.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+}
+
+function defaultSeed(): Required<MockPanelSeed> {
+  const now = timestamp();
+  const eggId = 1;
+
+  return {
+    users: [{
+      id: 1, external_id: null, uuid: uuid(), username: "admin", email: "admin@mock-panel.local",
+      first_name: "Mock", last_name: "Admin", language: "en", root_admin: true, "2fa": false,
+      created_at: now, updated_at: now,
+    }],
+    locations: [{ id: 1, short: "mock", long: "Mock Location", created_at: now, updated_at: now }],
+    nodes: [{
+      id: 1, uuid: uuid(), public: true, name: "mock-node-1", description: "In-process mock node",
+      location_id: 1, fqdn: "node1.mock-panel.local", scheme: "https", behind_proxy: false,
+      maintenance_mode: false, memory: 16384, memory_overallocate: 0, disk: 102400, disk_overallocate: 0,
+      upload_size: 100, daemon_listen: 8080, daemon_sftp: 2022, daemon_base: "/var/lib/pterodactyl/volumes",
+      created_at: now, updated_at: now, allocated_resources: { memory: 0, disk: 0 },
+    }],
+    allocations: Array.from({ length: 20 }, (_, i) => ({
+      id: i + 1, ip: "10.0.0.1", ip_alias: null, port: 25565 + i, notes: null, assigned: false, node: 1, server: null,
+    })),
+    nests: [{ id: 1, uuid: uuid(), author: "support@pterodactyl.io", name: "Minecraft", description: null, created_at: now, updated_at: now }],
+    eggs: [{
+      id: eggId, uuid: uuid(), name: "Paper", nest: 1, author: "support@pterodactyl.io", description: "Paper server",
+      docker_image: "ghcr.io/pterodactyl/yolks:java_17", docker_images: { "Java 17": "ghcr.io/pterodactyl/yolks:java_17" },
+      config: { files: {}, startup: {}, stop: "stop", logs: [], file_denylist: [], extends: null },
+      startup: "java -Xms128M -Xmx{{SERVER_MEMORY}}M -jar {{SERVER_JARFILE}}",
+      script: { privileged: true, install: "", entry: "ash", container: "alpine:3.4", extends: null },
+      created_at: now, updated_at: now,
+      variables: [{
+        id: 1, egg_id: eggId, name: "Server Jar File", description: "The name of the server jarfile to run.",
+        env_variable: "SERVER_JARFILE", default_value: "server.jar", user_viewable: true, user_editable: true,
+        rules: "required|string|max:20", created_at: now, updated_at: now,
+      }],
+    }],
+    servers: [],
+  };
+}
+
+export class MockPterodactylPanel {
+  users: PterodactylUser[] = [];
+  locations: PterodactylLocation[] = [];
+  nodes: PterodactylNode[] = [];
+  allocations: MockAllocation[] = [];
+  nests: PterodactylNest[] = [];
+  eggs: MockEgg[] = [];
+  servers: PterodactylServer[] = [];
+  /** Every request received, newest last. */
+  requests: Array<{ method: string; path: string; body: any }> = [];
+
+  private failures: MockFailure[] = [];
+  private latencyMs = 0;
+  private readonly routes: Array<[string, RegExp, Handler]>;
+
+  constructor(seed?: MockPanelSeed) {
+    this.reset(seed);
+    this.routes = [
+      ["GET", /^\/api\/application\/users$/, (_m, _b, q) => this.list("user", this.users, q, this.userRelations)],
+      ["GET", /^\/api\/application\/users\/(\d+)$/, (m, _b, q) => this.show("user", this.users, m[1], q, this.userRelations)],
+      ["POST", /^\/api\/application\/users$/, (_m, b) => this.createUser(b)],
+      ["PATCH", /^\/api\/application\/users\/(\d+)$/, (m, b) => this.updateUser(Number(m[1]), b)],
+      ["DELETE", /^\/api\/application\/users\/(\d+)$/, (m) => this.deleteUser(Number(m[1]))],
+
+      ["GET", /^\/api\/application\/locations$/, (_m, _b, q) => this.list("location", this.locations, q, this.locationRelations)],
+      ["GET", /^\/api\/application\/locations\/(\d+)$/, (m, _b, q) => this.show("location", this.locations, m[1], q, this.locationRelations)],
+
+      ["GET", /^\/api\/application\/nodes$/, (_m, _b, q) => this.list("node", this.nodes.map(n => this.nodeView(n)), q, this.nodeRelations)],
+      ["GET", /^\/api\/application\/nodes\/(\d+)$/, (m, _b, q) => this.show("node", this.nodes.map(n => this.nodeView(n)), m[1], q, this.nodeRelations)],
+      ["GET", /^\/api\/application\/nodes\/(\d+)\/allocations$/, (m, _b, q) => this.findById(this.nodes, m[1])
+        ? this.list("allocation", this.allocations.filter(a => a.node === Number(m[1])).map(a => this.allocationView(a)), q)
+        : notFound()],
+
+      ["GET", /^\/api\/application\/nests$/, (_m, _b, q) => this.list("nest", this.nests, q, this.nestRelations)],
+      ["GET", /^\/api\/application\/nests\/(\d+)$/, (m, _b, q) => this.show("nest", this.nests, m[1], q, this.nestRelations)],
+      ["GET", /^\/api\/application\/nests\/(\d+)\/eggs$/, (m, _b, q) => this.findById(this.nests, m[1])
+        ? this.list("egg", this.eggs.filter(e => e.nest === Number(m[1])).map(e => this.eggView(e)), q, this.eggRelations)
+        : notFound()],
+      ["GET", /^\/api\/application\/nests\/(\d+)\/eggs\/(\d+)$/, (m, _b, q) => {
+        const egg = this.eggs.find(e => e.nest === Number(m[1]) && e.id === Number(m[2]));
+        return egg ? json(200, this.serialize("egg", this.eggView(egg), q, this.eggRelations)) : notFound();
+      }],
+
+      ["GET", /^\/api\/application\/servers$/, (_m, _b, q) => this.list("server", this.servers, q, this.serverRelations)],
+      ["GET", /^\/api\/application\/servers\/(\d+)$/, (m, _b, q) => this.show("server", this.servers, m[1], q, this.serverRelations)],
+      ["POST", /^\/api\/application\/servers$/, (_m, b) => this.createServer(b)],
+      ["PATCH", /^\/api\/application\/servers\/(\d+)\/details$/, (m, b) => this.updateServerDetails(Number(m[1]), b)],
+      ["PATCH", /^\/api\/application\/servers\/(\d+)\/build$/, (m, b) => this.updateServerBuild(Number(m[1]), b)],
+      ["PATCH", /^\/api\/application\/servers\/(\d+)\/startup$/, (m, b) => this.updateServerStartup(Number(m[1]), b)],
+      ["POST", /^\/api\/application\/servers\/(\d+)\/(suspend|unsuspend|reinstall)$/, (m) => this.serverAction(Number(m[1]), m[2])],
+      ["POST", /^\/api\/application\/servers\/(\d+)\/transfer$/, (m, b) => this.transferServer(Number(m[1]), b)],
+      ["DELETE", /^\/api\/application\/servers\/(\d+)(?:\/force)?$/, (m) => this.deleteServer(Number(m[1]))],
+      ["GET", /^\/api\/application\/servers\/(\d+)\/databases$/, (m, _b, q) => this.findById(this.servers, m[1]) ? this.list("server_database", [], q) : notFound()],
+
+      ["POST", /^\/api\/client\/servers\/([\w-]+)\/power$/, (m, b) => this.power(m[1], b)],
+      ["GET", /^\/api\/client\/servers\/([\w-]+)\/resources$/, (m) => this.resources(m[1])],
+    ];
+  }
+
+  /** Replace all panel state with `seed`, or with one location, node, nest, egg and admin user. */
+  reset(seed?: MockPanelSeed): void {
+    const base = defaultSeed();
+    const data = seed ? { ...base, ...seed } : base;
+    this.users = [...data.users];
+    this.locations = [...data.locations];
+    this.nodes = [...data.nodes];
+    this.allocations = [...data.allocations];
+    this.nests = [...data.nests];
+    this.eggs = [...data.eggs];
+    this.servers = [...data.servers];
+    this.requests = [];
+    this.failures = [];
+    this.latencyMs = 0;
+  }
+
+  /** Answer matching requests with `status` until the failure has been used up. */
+  failNext(failure: MockFailure): void {
+    this.failures.push({ times: 1, ...failure });
+  }
+
+  /** Delay every response, e.g. to exercise client timeouts. */
+  setLatency(ms: number): void {
+    this.latencyMs = Math.max(0, ms);
+  }
+
+  /** Drop-in replacement for fetch(). Bound so it can be handed to setPterodactylFetch(). */
+  fetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+    const url = new URL(input);
+    const method = (init.method || "GET").toUpperCase();
+    const body = typeof init.body === "string" && init.body ? JSON.parse(init.body) : undefined;
+    this.requests.push({ method, path: url.pathname, body });
+
+    if (this.latencyMs > 0) {
+      await this.wait(this.latencyMs, init.signal);
+    }
+
+    const failure = this.failures.find(f => !f.path || url.pathname.includes(f.path));
+    if (failure) {
+      failure.times = (failure.times ?? 1) - 1;
+      if (failure.times <= 0) this.failures.splice(this.failures.indexOf(failure), 1);
+      const response = error(failure.status, "MockFailure", `Mock panel failure (${failure.status})`);
+      if (failure.retryAfter !== undefined) response.headers.set("Retry-After", String(failure.retryAfter));
+      return response;
+    }
+
+    if (!new Headers(init.headers).get("Authorization")) {
+      return error(401, "AuthenticationException", "Unauthenticated.");
+    }
+
+    for (const [routeMethod, pattern, handler] of this.routes) {
+      if (routeMethod !== method) continue;
+      const match = url.pathname.match(pattern);
+      if (match) return handler(match, body, url.searchParams);
+    }
+    return notFound();
+  };
+
+  private wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener("abort", () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      }, { once: true });
+    });
+  }
+
+  // SERIALIZATION
+
+  private findById<T extends { id: number }>(items: T[], id: string | number): T | undefined {
+    return items.find(item => item.id === Number(id));
+  }
+
+  private serialize(object: string, attributes: any, query?: URLSearchParams, relations?: Record<string, (item: any) => any>) {
+    const includes = (query?.get("include") || "").split(",").map(s => s.trim()).filter(Boolean);
+    const relationships: Record<string, any> = {};
+    for (const name of includes) {
+      const resolve = relations?.[name];
+      if (resolve) relationships[name] = resolve(attributes);
+    }
+    return {
+      object,
+      attributes: includes.length ? { ...attributes, relationships } : attributes,
+    };
+  }
+
+  private serializeList(object: string, items: any[]) {
+    return { object: "list", data: items.map(item => ({ object, attributes: item })) };
+  }
+
+  private show<T extends { id: number }>(object: string, items: T[], id: string, query: URLSearchParams, relations?: Record<string, (item: any) => any>): Response {
+    const item = this.findById(items, id);
+    return item ? json(200, this.serialize(object, item, query, relations)) : notFound();
+  }
+
+  /** Filtering, sorting and pagination the way the panel's list endpoints apply them. */
+  private list<T>(object: string, items: T[], query: URLSearchParams, relations?: Record<string, (item: any) => any>): Response {
+    let results = [...items];
+
+    query.forEach((value, key) => {
+      const field = key.match(/^filter\[(\w+)\]$/)?.[1];
+      if (!field) return;
+      const needle = value.replace(/\*/g, "").toLowerCase();
+      results = results.filter(item => String((item as any)[field] ?? "").toLowerCase().includes(needle));
+    });
+
+    const sort = query.get("sort");
+    if (sort) {
+      const field = sort.replace(/^-/, "");
+      const direction = sort.startsWith("-") ? -1 : 1;
+      results.sort((a: any, b: any) => (a[field] > b[field] ? 1 : a[field] < b[field] ? -1 : 0) * direction);
+    }
+
+    const perPage = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(query.get("per_page")) || 50));
+    const totalPages = Math.max(1, Math.ceil(results.length / perPage));
+    const page = Math.max(1, Number(query.get("page")) || 1);
+    const pageItems = results.slice((page - 1) * perPage, page * perPage);
+
+    return json(200, {
+      object: "list",
+      data: pageItems.map(item => this.serialize(object, item, query, relations)),
+      meta: {
+        pagination: {
+          total: results.length,
+          count: pageItems.length,
+          per_page: perPage,
+          current_page: page,
+          total_pages: totalPages,
+          links: page < totalPages ? { next: `?page=${page + 1}` } : {},
+        },
+      },
+    });
+  }
+
+  private nodeView(node: PterodactylNode): PterodactylNode {
+    const hosted = this.servers.filter(s => s.node === node.id);
+    return {
+      ...node,
+      allocated_resources: {
+        memory: hosted.reduce((sum, s) => sum + s.limits.memory, 0),
+        disk: hosted.reduce((sum, s) => sum + s.limits.disk, 0),
+      },
+    };
+  }
+
+  private allocationView(allocation: MockAllocation): PterodactylAllocation {
+    const { node: _node, server: _server, ...view } = allocation;
+    return view;
+  }
+
+  private eggView(egg: MockEgg): PterodactylEgg {
+    const { variables: _variables, ...view } = egg;
+    return view;
+  }
+
+  private userRelations = {
+    servers: (user: PterodactylUser) => this.serializeList("server", this.servers.filter(s => s.user === user.id)),
+  };
+
+  private locationRelations = {
+    nodes: (location: PterodactylLocation) => this.serializeList("node", this.nodes.filter(n => n.location_id === location.id).map(n => this.nodeView(n))),
+    servers: (location: PterodactylLocation) => {
+      const nodeIds = new Set(this.nodes.filter(n => n.location_id === location.id).map(n => n.id));
+      return this.serializeList("server", this.servers.filter(s => nodeIds.has(s.node)));
+    },
+  };
+
+  private nodeRelations = {
+    allocations: (node: PterodactylNode) => this.serializeList("allocation", this.allocations.filter(a => a.node === node.id).map(a => this.allocationView(a))),
+    location: (node: PterodactylNode) => ({ object: "location", attributes: this.findById(this.locations, node.location_id) }),
+    servers: (node: PterodactylNode) => this.serializeList("server", this.servers.filter(s => s.node === node.id)),
+  };
+
+  private nestRelations = {
+    eggs: (nest: PterodactylNest) => this.serializeList("egg", this.eggs.filter(e => e.nest === nest.id).map(e => this.eggView(e))),
+    servers: (nest: PterodactylNest) => this.serializeList("server", this.servers.filter(s => s.nest === nest.id)),
+  };
+
+  private eggRelations = {
+    variables: (egg: PterodactylEgg) => this.serializeList("egg_variable", this.eggs.find(e => e.id === egg.id)?.variables || []),
+    nest: (egg: PterodactylEgg) => ({ object: "nest", attributes: this.findById(this.nests, egg.nest) }),
+    servers: (egg: PterodactylEgg) => this.serializeList("server", this.servers.filter(s => s.egg === egg.id)),
+  };
+
+  private serverRelations = {
+    allocations: (server: PterodactylServer) => this.serializeList("allocation", this.allocations.filter(a => a.server === server.id).map(a => this.allocationView(a))),
+    user: (server: PterodactylServer) => ({ object: "user", attributes: this.findById(this.users, server.user) }),
+    node: (server: PterodactylServer) => {
+      const node = this.findById(this.nodes, server.node);
+      return { object: "node", attributes: node && this.nodeView(node) };
+    },
+    location: (server: PterodactylServer) => ({ object: "location", attributes: this.findById(this.locations, this.findById(this.nodes, server.node)?.location_id ?? 0) }),
+    egg: (server: PterodactylServer) => {
+      const egg = this.findById(this.eggs, server.egg);
+      return { object: "egg", attributes: egg && this.eggView(egg) };
+    },
+    nest: (server: PterodactylServer) => ({ object: "nest", attributes: this.findById(this.nests, server.nest) }),
+  };
+
+  // USERS
+
+  private createUser(data: any): Response {
+    if (!data?.email || !data?.username || !data?.first_name || !data?.last_name) {
+      return validationError("The email, username, first name and last name fields are required.");
+    }
+    if (this.users.some(u => u.email === data.email)) return validationError("The email has already been taken.");
+    if (this.users.some(u => u.username === data.username)) return validationError("The username has already been taken.");
+
+    const now = timestamp();
+    const user: PterodactylUser = {
+      id: nextId(this.users), external_id: data.external_id ?? null, uuid: uuid(), username: data.username,
+      email: data.email, first_name: data.first_name, last_name: data.last_name, language: data.language || "en",
+      root_admin: !!data.root_admin, "2fa": false, created_at: now, updated_at: now,
+    };
+    this.users.push(user);
+    return json(201, { object: "user", attributes: user });
+  }
+
+  private updateUser(id: number, data: any): Response {
+    const user = this.findById(this.users, id);
+    if (!user) return notFound();
+    if (data?.email && this.users.some(u => u.id !== id && u.email === data.email)) return validationError("The email has already been taken.");
+    if (data?.username && this.users.some(u => u.id !== id && u.username === data.username)) return validationError("The username has already been taken.");
+
+    const { password: _password, ...changes } = data || {};
+    Object.assign(user, changes, { updated_at: timestamp() });
+    return json(200, { object: "user", attributes: user });
+  }
+
+  private deleteUser(id: number): Response {
+    if (!this.findById(this.users, id)) return notFound();
+    if (this.servers.some(s => s.user === id)) {
+      return error(400, "DisplayException", "Cannot delete a user with active servers attached to their account.");
+    }
+    this.users = this.users.filter(u => u.id !== id);
+    return noContent();
+  }
+
+  // SERVERS
+
+  /** Pick a node in one of `locationIds` with room for the server and a free allocation. */
+  private deploy(locationIds: number[], memory: number, disk: number): MockAllocation | undefined {
+    for (const node of this.nodes) {
+      if (!locationIds.includes(node.location_id) || node.maintenance_mode) continue;
+      const { allocated_resources } = this.nodeView(node);
+      const memoryLimit = node.memory * (1 + Math.max(0, node.memory_overallocate) / 100);
+      const diskLimit = node.disk * (1 + Math.max(0, node.disk_overallocate) / 100);
+      if (node.memory_overallocate !== -1 && allocated_resources.memory + memory > memoryLimit) continue;
+      if (node.disk_overallocate !== -1 && allocated_resources.disk + disk > diskLimit) continue;
+      const allocation = this.allocations.find(a => a.node === node.id && !a.assigned);
+      if (allocation) return allocation;
+    }
+    return undefined;
+  }
+
+  private createServer(data: ServerCreateData): Response {
+    if (!data?.name || !data.limits || !data.feature_limits) {
+      return validationError("The name, limits and feature limits fields are required.");
+    }
+    if (!this.findById(this.users, data.user)) return validationError("The selected user is invalid.");
+    const egg = this.findById(this.eggs, data.egg);
+    if (!egg) return validationError("The selected egg is invalid.");
+
+    let allocation: MockAllocation | undefined;
+    if (data.allocation?.default) {
+      allocation = this.findById(this.allocations, data.allocation.default);
+      if (!allocation || allocation.assigned) return validationError("The selected allocation is invalid.");
+    } else if (data.deploy?.locations?.length) {
+      allocation = this.deploy(data.deploy.locations, data.limits.memory, data.limits.disk);
+      if (!allocation) {
+        return error(422, "NoViableNodeException", "No nodes satisfying the requirements specified for automatic deployment could be found.");
+      }
+    } else {
+      return validationError("Either an allocation or deployment locations must be provided.");
+    }
+
+    const now = timestamp();
+    const serverUuid = uuid();
+    const server: PterodactylServer = {
+      id: nextId(this.servers), external_id: null, uuid: serverUuid, identifier: serverUuid.slice(0, 8),
+      name: data.name, description: "", status: null, suspended: false,
+      limits: {
+        memory: data.limits.memory, swap: data.limits.swap, disk: data.limits.disk, io: data.limits.io,
+        cpu: data.limits.cpu, threads: data.limits.threads ?? null, oom_disabled: data.limits.oom_disabled ?? false,
+      },
+      feature_limits: { ...data.feature_limits },
+      user: data.user, node: allocation.node, allocation: allocation.id, nest: egg.nest, egg: egg.id,
+      container: {
+        startup_command: data.startup || egg.startup, image: data.docker_image || egg.docker_image,
+        installed: true, environment: { ...(data.environment || {}) },
+      },
+      current_state: "offline",
+      created_at: now, updated_at: now,
+    };
+
+    allocation.assigned = true;
+    allocation.server = server.id;
+    this.servers.push(server);
+    return json(201, { object: "server", attributes: server });
+  }
+
+  private updateServerDetails(id: number, data: ServerUpdateDetailsData): Response {
+    const server = this.findById(this.servers, id);
+    if (!server) return notFound();
+    if (data?.user !== undefined && !this.findById(this.users, data.user)) return validationError("The selected user is invalid.");
+    Object.assign(server, data, { updated_at: timestamp() });
+    return json(200, { object: "server", attributes: server });
+  }
+
+  private updateServerBuild(id: number, data: ServerUpdateBuildData): Response {
+    const server = this.findById(this.servers, id);
+    if (!server) return notFound();
+
+    if (data.allocation !== undefined && data.allocation !== server.allocation) {
+      const allocation = this.findById(this.allocations, data.allocation);
+      if (!allocation || allocation.node !== server.node || (allocation.assigned && allocation.server !== id)) {
+        return validationError("The selected allocation is invalid.");
+      }
+      allocation.assigned = true;
+      allocation.server = id;
+      server.allocation = allocation.id;
+    }
+
+    server.limits = {
+      ...server.limits,
+      memory: data.memory, swap: data.swap, disk: data.disk, io: data.io, cpu: data.cpu,
+      threads: data.threads ?? server.limits.threads, oom_disabled: data.oom_disabled ?? server.limits.oom_disabled,
+    };
+    if (data.feature_limits) server.feature_limits = { ...data.feature_limits };
+    server.updated_at = timestamp();
+    return json(200, { object: "server", attributes: server });
+  }
+
+  private updateServerStartup(id: number, data: ServerUpdateStartupData): Response {
+    const server = this.findById(this.servers, id);
+    if (!server) return notFound();
+    const egg = this.findById(this.eggs, data.egg);
+    if (!egg) return validationError("The selected egg is invalid.");
+
+    server.egg = egg.id;
+    server.nest = egg.nest;
+    server.container = {
+      ...server.container,
+      startup_command: data.startup,
+      image: data.image || server.container.image,
+      environment: { ...data.environment },
+    };
+    server.updated_at = timestamp();
+    return json(200, { object: "server", attributes: server });
+  }
+
+  private serverAction(id: number, action: string): Response {
+    const server = this.findById(this.servers, id);
+    if (!server) return notFound();
+
+    if (action === "suspend") {
+      server.suspended = true;
+      server.status = "suspended";
+      server.current_state = "offline";
+    } else if (action === "unsuspend") {
+      server.suspended = false;
+      server.status = null;
+    } else {
+      server.current_state = "offline";
+    }
+    server.updated_at = timestamp();
+    return noContent();
+  }
+
+  /** Transfers finish instantly here; a real panel moves the files in the background. */
+  private transferServer(id: number, data: ServerTransferData): Response {
+    const server = this.findById(this.servers, id);
+    if (!server) return notFound();
+    if (!data?.node_id || !this.findById(this.nodes, data.node_id)) return validationError("The selected node is invalid.");
+    const allocation = this.findById(this.allocations, data.allocation_id);
+    if (!allocation || allocation.assigned || allocation.node !== data.node_id) {
+      return validationError("The selected allocation is invalid.");
+    }
+
+    for (const previous of this.allocations) {
+      if (previous.server === id) {
+        previous.assigned = false;
+        previous.server = null;
+      }
+    }
+    allocation.assigned = true;
+    allocation.server = id;
+    server.node = data.node_id;
+    server.allocation = allocation.id;
+    server.updated_at = timestamp();
+    return noContent();
+  }
+
+  private deleteServer(id: number): Response {
+    if (!this.findById(this.servers, id)) return notFound();
+    this.servers = this.servers.filter(s => s.id !== id);
+    for (const allocation of this.allocations) {
+      if (allocation.server === id) {
+        allocation.assigned = false;
+        allocation.server = null;
+      }
+    }
+    return noContent();
+  }
+
+  // CLIENT API
+
+  private findByIdentifier(identifier: string): PterodactylServer | undefined {
+    return this.servers.find(s => s.identifier === identifier || s.uuid === identifier || String(s.id) === identifier);
+  }
+
+  private power(identifier: string, data: any): Response {
+    const server = this.findByIdentifier(identifier);
+    if (!server) return notFound();
+    if (server.suspended) return error(409, "ServerStateConflictException", "This server is currently suspended and the functionality requested is unavailable.");
+
+    const states: Record<string, string> = { start: "running", restart: "running", stop: "offline", kill: "offline" };
+    const state = states[data?.signal];
+    if (!state) return validationError("The selected signal is invalid.");
+    server.current_state = state;
+    return noContent();
+  }
+
+  private resources(identifier: string): Response {
+    const server = this.findByIdentifier(identifier);
+    if (!server) return notFound();
+
+    const running = server.current_state === "running";
+    return json(200, {
+      object: "stats",
+      attributes: {
+        current_state: server.current_state || "offline",
+        is_suspended: server.suspended,
+        resources: {
+          memory_bytes: running ? Math.round(server.limits.memory * 1024 * 1024 * 0.5) : 0,
+          cpu_absolute: running ? Math.min(server.limits.cpu || 100, 25) : 0,
+          disk_bytes: Math.round(server.limits.disk * 1024 * 1024 * 0.1),
+          network_rx_bytes: 0,
+          network_tx_bytes: 0,
+          uptime: 0,
+        },
+      },
+    });
+  }
+}
+
+let panel: MockPterodactylPanel | null = null;
+
+/** The shared mock panel used when PANEL_MOCK=true. */
+export function getMockPanel(): MockPterodactylPanel {
+  if (!panel) panel = new MockPterodactylPanel();
+  return panel;
+}
@@ -6,28 +6,18 @@
  * are not the responsibility of the original developers.
  */
 
-// TYPE DEFINITIONS
+import {
+  PterodactylError,
+  pterodactylRequest,
+  pterodactylListAll,
+  type PterodactylResponse,
+  type PterodactylListResponse,
+} from "./client";
 
-export interface PterodactylResponse<T> {
-  object: string;
-  attributes?: T;
-  relationships?: Record<string, any>;
-}
+export { PterodactylError };
+export type { PterodactylResponse, PterodactylListResponse };
 
-export interface PterodactylListResponse<T> {
-  object: "list";
-  data: PterodactylResponse<T>[];
-  meta: {
-    pagination: {
-      total: number;
-      count: number;
-      per_page: number;
-      current_page: number;
-      total_pages: number;
-      links: Record<string, any>;
-    };
-  };
-}
+// TYPE DEFINITIONS
 
 export interface PterodactylNest {
   id: number;
@@ -49,108 +39,13 @@ export interface NestDetailsParams {
   include?: "eggs" | "servers";
 }
 
-export class PterodactylError extends Error {
-  constructor(
-    message: string,
-    public status: number,
-    public code?: string,
-    public details?: any
-  ) {
-    super(message);
-    this.name = "PterodactylError";
-  }
-}
-
-// API CLIENT UTILITIES
-
-function getPterodactylConfig() {
-  const panelUrl = process.env.PANEL_URL || process.env.NEXT_PUBLIC_PANEL_URL;
-  const apiKey = process.env.PANEL_API_KEY || process.env.NEXT_PUBLIC_PANEL_API_KEY;
-
-  if (!panelUrl || !apiKey) {
-    throw new PterodactylError(
-      "Missing Pterodactyl configuration. Please set PANEL_URL and PANEL_API_KEY environment variables.",
-      500,
-      "MISSING_CONFIG"
-    );
-  }
-
-  return {
-    baseUrl: panelUrl.endsWith("/") ? panelUrl.slice(0, -1) : panelUrl,
-    apiKey: apiKey,
-  };
-}
-
-function getDefaultHeaders(): HeadersInit {
-  const { apiKey } = getPterodactylConfig();
-
-  return {
-    "Authorization": `Bearer ${apiKey}`,
-    "Accept": "Application/vnd.pterodactyl.v1+json",
-  };
-}
-
-async function handleApiResponse<T>(response: Response): Promise<T> {
-  if (!response.ok) {
-    let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-    let errorCode = response.status.toString();
-    let errorDetails: any = null;
-
-    try {
-      const errorData = await response.json();
-      if (errorData.errors && Array.isArray(errorData.errors)) {
-        errorMessage = errorData.errors.map((err: any) => err.detail || err.message).join(", ");
-        errorCode = errorData.errors[0]?.code || errorCode;
-        errorDetails = errorData.errors;
-      }
-    } catch {
-      // If we can't parse the error response, use the default message
-    }
-
-    throw new PterodactylError(errorMessage, response.status, errorCode, errorDetails);
-  }
-
-  try {
-    return await response.json();
-  } catch (error) {
-    throw new PterodactylError(
-      "Failed to parse API response",
-      500,
-      "PARSE_ERROR",
-      error
-    );
-  }
-}
-
-function buildUrl(baseUrl: string, endpoint: string, params?: Record<string, any>): string {
-  const url = new URL(`${baseUrl}${endpoint}`);
-
-  if (params) {
-    Object.entries(params).forEach(([key, value]) => {
-      if (value !== undefined && value !== null) {
-        url.searchParams.append(key, value.toString());
-      }
-    });
-  }
-
-  return url.toString();
-}
-
 // NEST MANAGEMENT FUNCTIONS
 
 /** Get all nests from the Pterodactyl panel with optional filtering and pagination */
 export async function panelNestGetAll(
   params?: NestListParams
 ): Promise<PterodactylListResponse<PterodactylNest>> {
-  const { baseUrl } = getPterodactylConfig();
-  const url = buildUrl(baseUrl, "/api/application/nests", params);
-
-  const response = await fetch(url, {
-    method: "GET",
-    headers: getDefaultHeaders(),
-  });
-
-  return handleApiResponse<PterodactylListResponse<PterodactylNest>>(response);
+  return pterodactylRequest<PterodactylListResponse<PterodactylNest>>("/nests", { params });
 }
 
 /** Get details of a specific nest from the Pterodactyl panel */
@@ -158,35 +53,28 @@ export async function panelNestGetDetails(
   nestId: number,
   params?: NestDetailsParams
 ): Promise<PterodactylResponse<PterodactylNest>> {
-  const { baseUrl } = getPterodactylConfig();
-  const url = buildUrl(baseUrl, `/api/application/nests/${nestId}`, params);
-
-  const response = await fetch(url, {
-    method: "GET",
-    headers: getDefaultHeaders(),
-  });
+  return pterodactylRequest<PterodactylResponse<PterodactylNest>>(`/nests/${nestId}`, { params });
+}
 
-  return handleApiResponse<PterodactylResponse<PterodactylNest>>(response);
+/** Get every nest, walking all pages */
+export async function panelNestGetAllPages(
+  params?: Omit<NestListParams, "page" | "per_page">
+): Promise<PterodactylNest[]> {
+  return pterodactylListAll<PterodactylNest>("/nests", params);
 }
 
 // UTILITY FUNCTIONS
 
 /** Search for nests by name */
 export async function panelNestSearchByName(name: string): Promise<PterodactylNest[]> {
-  const response = await panelNestGetAll({ per_page: 100 });
-
-  return response.data
-    .filter(nest => nest.attributes?.name.toLowerCase().includes(name.toLowerCase()))
-    .map(nest => nest.attributes!)
-    .filter(Boolean);
+  const nests = await panelNestGetAllPages();
+  return nests.filter(nest => nest.name.toLowerCase().includes(name.toLowerCase()));
 }
 
 /** Get nest by UUID */
 export async function panelNestGetByUuid(uuid: string): Promise<PterodactylNest | null> {
-  const response = await panelNestGetAll({ per_page: 100 });
-
-  const nest = response.data.find(nest => nest.attributes?.uuid === uuid);
-  return nest?.attributes || null;
+  const nests = await panelNestGetAllPages();
+  return nests.find(nest => nest.uuid === uuid) || null;
 }
 
 /** Check if a nest exists by name */
@@ -6,28 +6,18 @@
  * are not the responsibility of the original developers.
  */
 
-// TYPE DEFINITIONS
+import {
+  PterodactylError,
+  pterodactylRequest,
+  pterodactylListAll,
+  type PterodactylResponse,
+  type PterodactylListResponse,
+} from "./client";
 
-export interface PterodactylResponse<T> {
-  object: string;
-  attributes?: T;
-  relationships?: Record<string, any>;
-}
+export { PterodactylError };
+export type { PterodactylResponse, PterodactylListResponse };
 
-export interface PterodactylListResponse<T> {
-  object: "list";
-  data: PterodactylResponse<T>[];
-  meta: {
-    pagination: {
-      total: number;
-      count: number;
-      per_page: number;
-      current_page: number;
-      total_pages: number;
-      links: Record<string, any>;
-    };
-  };
-}
+// TYPE DEFINITIONS
 
 export interface PterodactylNode {
   id: number;
@@ -54,6 +44,7 @@ export interface PterodactylNode {
     memory: number;
     disk: number;
   };
+  relationships?: Record<string, any>;
 }
 
 export interface PterodactylAllocation {
@@ -79,108 +70,13 @@ export interface NodeDetailsParams {
   include?: "allocations" | "location" | "servers";
 }
 
-export class PterodactylError extends Error {
-  constructor(
-    message: string,
-    public status: number,
-    public code?: string,
-    public details?: any
-  ) {
-    super(message);
-    this.name = "PterodactylError";
-  }
-}
-
-// API CLIENT UTILITIES
-
-function getPterodactylConfig() {
-  const panelUrl = process.env.PANEL_URL || process.env.NEXT_PUBLIC_PANEL_URL;
-  const apiKey = process.env.PANEL_API_KEY || process.env.NEXT_PUBLIC_PANEL_API_KEY;
-
-  if (!panelUrl || !apiKey) {
-    throw new PterodactylError(
-      "Missing Pterodactyl configuration. Please set PANEL_URL and PANEL_API_KEY environment variables.",
-      500,
-      "MISSING_CONFIG"
-    );
-  }
-
-  return {
-    baseUrl: panelUrl.endsWith("/") ? panelUrl.slice(0, -1) : panelUrl,
-    apiKey: apiKey,
-  };
-}
-
-function getDefaultHeaders(): HeadersInit {
-  const { apiKey } = getPterodactylConfig();
-
-  return {
-    "Authorization": `Bearer ${apiKey}`,
-    "Accept": "Application/vnd.pterodactyl.v1+json",
-  };
-}
-
-async function handleApiResponse<T>(response: Response): Promise<T> {
-  if (!response.ok) {
-    let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-    let errorCode = response.status.toString();
-    let errorDetails: any = null;
-
-    try {
-      const errorData = await response.json();
-      if (errorData.errors && Array.isArray(errorData.errors)) {
-        errorMessage = errorData.errors.map((err: any) => err.detail || err.message).join(", ");
-        errorCode = errorData.errors[0]?.code || errorCode;
-        errorDetails = errorData.errors;
-      }
-    } catch {
-      // If we can't parse the error response, use the default message
-    }
-
-    throw new PterodactylError(errorMessage, response.status, errorCode, errorDetails);
-  }
-
-  try {
-    return await response.json();
-  } catch (error) {
-    throw new PterodactylError(
-      "Failed to parse API response",
-      500,
-      "PARSE_ERROR",
-      error
-    );
-  }
-}
-
-function buildUrl(baseUrl: string, endpoint: string, params?: Record<string, any>): string {
-  const url = new URL(`${baseUrl}${endpoint}`);
-
-  if (params) {
-    Object.entries(params).forEach(([key, value]) => {
-      if (value !== undefined && value !== null) {
-        url.searchParams.append(key, value.toString());
-      }
-    });
-  }
-
-  return url.toString();
-}
-
 // NODE MANAGEMENT FUNCTIONS
 
 /** Get all nodes from the Pterodactyl panel with optional filtering and pagination */
 export async function panelNodeGetAll(
   params?: NodeListParams
 ): Promise<PterodactylListResponse<PterodactylNode>> {
-  const { baseUrl } = getPterodactylConfig();
-  const url = buildUrl(baseUrl, "/api/application/nodes", params);
-
-  const response = await fetch(url, {
-    method: "GET",
-    headers: getDefaultHeaders(),
-  });
-
-  return handleApiResponse<PterodactylListResponse<PterodactylNode>>(response);
+  return pterodactylRequest<PterodactylListResponse<PterodactylNode>>("/nodes", { params });
 }
 
 /** Get details of a specific node from the Pterodactyl panel */
@@ -188,41 +84,31 @@ export async function panelNodeGetDetails(
   nodeId: number,
   params?: NodeDetailsParams
 ): Promise<PterodactylResponse<PterodactylNode>> {
-  const { baseUrl } = getPterodactylConfig();
-  const url = buildUrl(baseUrl, `/api/application/nodes/${nodeId}`, params);
+  return pterodactylRequest<PterodactylResponse<PterodactylNode>>(`/nodes/${nodeId}`, { params });
+}
 
-  const response = await fetch(url, {
-    method: "GET",
-    headers: getDefaultHeaders(),
-  });
+/** Get every node, walking all pages */
+export async function panelNodeGetAllPages(
+  params?: Omit<NodeListParams, "page" | "per_page">
+): Promise<PterodactylNode[]> {
+  return pterodactylListAll<PterodactylNode>("/nodes", params);
+}
 
-  return handleApiResponse<PterodactylResponse<PterodactylNode>>(response);
+/** Get every allocation on a node, walking all pages */
+export async function panelNodeGetAllocations(nodeId: number): Promise<PterodactylAllocation[]> {
+  return pterodactylListAll<PterodactylAllocation>(`/nodes/${nodeId}/allocations`);
 }
 
 // UTILITY FUNCTIONS
 
 /** Search for nodes by name */
 export async function panelNodeSearchByName(name: string): Promise<PterodactylNode[]> {
-  const response = await panelNodeGetAll({
-    "filter[name]": name,
-    per_page: 100,
-  });
-
-  return response.data
-    .map(node => node.attributes!)
-    .filter(Boolean);
+  return panelNodeGetAllPages({ "filter[name]": name });
 }
 
 /** Search for nodes by FQDN */
 export async function panelNodeSearchByFqdn(fqdn: string): Promise<PterodactylNode[]> {
-  const response = await panelNodeGetAll({
-    "filter[fqdn]": fqdn,
-    per_page: 100,
-  });
-
-  return response.data
-    .map(node => node.attributes!)
-    .filter(Boolean);
+  return panelNodeGetAllPages({ "filter[fqdn]": fqdn });
 }
 
 /** Get node by UUID */
@@ -253,22 +139,14 @@ export async function panelNodeGetAllWithServers(): Promise<PterodactylListRespo
 
 /** Get nodes by location ID */
 export async function panelNodeGetByLocation(locationId: number): Promise<PterodactylNode[]> {
-  const response = await panelNodeGetAll({ per_page: 100 });
-
-  return response.data
-    .filter(node => node.attributes?.location_id === locationId)
-    .map(node => node.attributes!)
-    .filter(Boolean);
+  const nodes = await panelNodeGetAllPages();
+  return nodes.filter(node => node.location_id === locationId);
 }
 
 /** Get nodes in maintenance mode */
 export async function panelNodeGetInMaintenance(): Promise<PterodactylNode[]> {
-  const response = await panelNodeGetAll({ per_page: 100 });
-
-  return response.data
-    .filter(node => node.attributes?.maintenance_mode === true)
-    .map(node => node.attributes!)
-    .filter(Boolean);
+  const nodes = await panelNodeGetAllPages();
+  return nodes.filter(node => node.maintenance_mode === true);
 }
 
 /** Check if a node exists by name */
@@ -6,28 +6,18 @@
  * are not the responsibility of the original developers.
  */
 
-// TYPE DEFINITIONS
+import {
+  PterodactylError,
+  pterodactylRequest,
+  pterodactylListAll,
+  type PterodactylResponse,
+  type PterodactylListResponse,
+} from "./client";
 
-export interface PterodactylResponse<T> {
-  object: string;
-  attributes?: T;
-  relationships?: Record<string, any>;
-}
+export { PterodactylError };
+export type { PterodactylResponse, PterodactylListResponse };
 
-export interface PterodactylListResponse<T> {
-  object: "list";
-  data: PterodactylResponse<T>[];
-  meta: {
-    pagination: {
-      total: number;
-      count: number;
-      per_page: number;
-      current_page: number;
-      total_pages: number;
-      links: Record<string, any>;
-    };
-  };
-}
+// TYPE DEFINITIONS
 
 export interface PterodactylServer {
   id: number;
@@ -140,6 +130,12 @@ export interface ServerCreateData {
   };
 }
 
+export interface ServerTransferData {
+  node_id: number;
+  allocation_id: number;
+  allocation_additional?: number[];
+}
+
 export interface ServerUpdateDetailsData {
   name?: string;
   user?: number;
@@ -198,116 +194,20 @@ export interface DatabaseUpdateData {
   remote?: string;
 }
 
-export class PterodactylError extends Error {
-  constructor(
-    message: string,
-    public status: number,
-    public code?: string,
-    public details?: any
-  ) {
-    super(message);
-    this.name = "PterodactylError";
-  }
-}
-
-// API CLIENT UTILITIES
-
-function getPterodactylConfig() {
-  const panelUrl = process.env.PANEL_URL || process.env.NEXT_PUBLIC_PANEL_URL;
-  const apiKey = process.env.PANEL_API_KEY || process.env.NEXT_PUBLIC_PANEL_API_KEY;
-  const clientApiKey = process.env.PANEL_CLIENT_API_KEY || process.env.NEXT_PUBLIC_PANEL_CLIENT_API_KEY;
-
-  if (!panelUrl || !apiKey) {
-    throw new PterodactylError(
-      "Missing Pterodactyl configuration. Please set PANEL_URL and PANEL_API_KEY environment variables.",
-      500,
-      "MISSING_CONFIG"
-    );
-  }
-
-  return {
-    baseUrl: panelUrl.endsWith("/") ? panelUrl.slice(0, -1) : panelUrl,
-    apiKey: apiKey,
-    clientApiKey: clientApiKey,
-  };
-}
-
-function getDefaultHeaders(includeContentType = false): HeadersInit {
-  const { apiKey } = getPterodactylConfig();
-
-  const headers: HeadersInit = {
-    "Authorization": `Bearer ${apiKey}`,
-    "Accept": "Application/vnd.pterodactyl.v1+json",
-  };
-
-  if (includeContentType) {
-    headers["Content-Type"] = "application/json";
-  }
-
-  return headers;
-}
-
-async function handleApiResponse<T>(response: Response): Promise<T> {
-  if (!response.ok) {
-    let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-    let errorCode = response.status.toString();
-    let errorDetails: any = null;
-
-    try {
-      const errorData = await response.json();
-      if (errorData.errors && Array.isArray(errorData.errors)) {
-        errorMessage = errorData.errors.map((err: any) => err.detail || err.message).join(", ");
-        errorCode = errorData.errors[0]?.code || errorCode;
-        errorDetails = errorData.errors;
-      }
-    } catch {
-      // If we can't parse the error response, use the default message
-    }
-
-    throw new PterodactylError(errorMessage, response.status, errorCode, errorDetails);
-  }
-
-  try {
-    return await response.json();
-  } catch (error) {
-    throw new PterodactylError(
-      "Failed to parse API response",
-      500,
-      "PARSE_ERROR",
-      error
-    );
-  }
-}
-
-function buildUrl(baseUrl: string, endpoint: string, params?: Record<string, any>): string {
-  const url = new URL(`${baseUrl}${endpoint}`);
-
-  if (params) {
-    Object.entries(params).forEach(([key, value]) => {
-      if (value !== undefined && value !== null) {
-        url.searchParams.append(key, value.toString());
-      }
-    });
-  }
-
-  return url.toString();
-}
-
 // SERVER MANAGEMENT FUNCTIONS
 
 /** Get all servers from the Pterodactyl panel with optional filtering and pagination */
 export async function panelServerGetAll(
   params?: ServerListParams
 ): Promise<PterodactylListResponse<PterodactylServer>> {
-  const { baseUrl } = getPterodactylConfig();
-  const url = buildUrl(baseUrl, "/api/application/servers", params);
-
-  const response = await fetch(url, {
-    method: "GET",
-    headers: getDefaultHeaders(),
-  });
+  return pterodactylRequest<PterodactylListResponse<PterodactylServer>>("/servers", { params });
+}
 
-  return handleApiResponse<PterodactylListResponse<PterodactylServer>>(response);
+/** Get every server, walking all pages */
+export async function panelServerGetAllPages(
+  params?: Omit<ServerListParams, "page" | "per_page">
+): Promise<PterodactylServer[]> {
+  return pterodactylListAll<PterodactylServer>("/servers", params);
 }
 
 /** Get details of a specific server from the Pterodactyl panel */
@@ -315,30 +215,14 @@ export async function panelServerGetDetails(
   serverId: number,
   params?: ServerDetailsParams
 ): Promise<PterodactylResponse<PterodactylServer>> {
-  const { baseUrl } = getPterodactylConfig();
-  const url = buildUrl(baseUrl, `/api/application/servers/${serverId}`, params);
-
-  const response = await fetch(url, {
-    method: "GET",
-    headers: getDefaultHeaders(),
-  });
-
-  return handleApiResponse<PterodactylResponse<PterodactylServer>>(response);
+  return pterodactylRequest<PterodactylResponse<PterodactylServer>>(`/servers/${serverId}`, { params });
 }
 
 /** Create a new server in the Pterodactyl panel */
 export async function panelServerCreate(
   serverData: ServerCreateData
 ): Promise<PterodactylResponse<PterodactylServer>> {
-  const { baseUrl } = getPterodactylConfig();
-
-  const response = await fetch(`${baseUrl}/api/application/servers`, {
-    method: "POST",
-    headers: getDefaultHeaders(true),
-    body: JSON.stringify(serverData),
-  });
-
-  return handleApiResponse<PterodactylResponse<PterodactylServer>>(response);
+  return pterodactylRequest<PterodactylResponse<PterodactylServer>>("/servers", { method: "POST", body: serverData });
 }
 
 /** Update server details in the Pterodactyl panel */
@@ -346,15 +230,7 @@ export async function panelServerUpdateDetails(
   serverId: number,
   updateData: ServerUpdateDetailsData
 ): Promise<PterodactylResponse<PterodactylServer>> {
-  const { baseUrl } = getPterodactylConfig();
-
-  const response = await fetch(`${baseUrl}/api/application/servers/${serverId}/details`, {
-    method: "PATCH",
-    headers: getDefaultHeaders(true),
-    body: JSON.stringify(updateData),
-  });
-
-  return handleApiResponse<PterodactylResponse<PterodactylServer>>(response);
+  return pterodactylRequest<PterodactylResponse<PterodactylServer>>(`/servers/${serverId}/details`, { method: "PATCH", body: updateData });
 }
 
 /** Update server build configuration in the Pterodactyl panel */
@@ -362,15 +238,7 @@ export async function panelServerUpdateBuild(
   serverId: number,
   buildData: ServerUpdateBuildData
 ): Promise<PterodactylResponse<PterodactylServer>> {
-  const { baseUrl } = getPterodactylConfig();
-
-  const response = await fetch(`${baseUrl}/api/application/servers/${serverId}/build`, {
-    method: "PATCH",
-    headers: getDefaultHeaders(true),
-    body: JSON.stringify(buildData),
-  });
-
-  return handleApiResponse<PterodactylResponse<PterodactylServer>>(response);
+  return pterodactylRequest<PterodactylResponse<PterodactylServer>>(`/servers/${serverId}/build`, { method: "PATCH", body: buildData });
 }
 
 /** Update server startup configuration in the Pterodactyl panel */
@@ -378,172 +246,76 @@ export async function panelServerUpdateStartup(
   serverId: number,
   startupData: ServerUpdateStartupData
 ): Promise<PterodactylResponse<PterodactylServer>> {
-  const { baseUrl } = getPterodactylConfig();
-
-  const response = await fetch(`${baseUrl}/api/application/servers/${serverId}/startup`, {
-    method: "PATCH",
-    headers: getDefaultHeaders(true),
-    body: JSON.stringify(startupData),
-  });
-
-  return handleApiResponse<PterodactylResponse<PterodactylServer>>(response);
+  return pterodactylRequest<PterodactylResponse<PterodactylServer>>(`/servers/${serverId}/startup`, { method: "PATCH", body: startupData });
 }
 
 /** Suspend a server in the Pterodactyl panel */
 export async function panelServerSuspend(serverId: number): Promise<void> {
-  const { baseUrl } = getPterodactylConfig();
-
-  const response = await fetch(`${baseUrl}/api/application/servers/${serverId}/suspend`, {
-    method: "POST",
-    headers: getDefaultHeaders(),
-  });
-
-  if (response.status !== 204) {
-    await handleApiResponse(response);
-  }
+  await pterodactylRequest(`/servers/${serverId}/suspend`, { method: "POST" });
 }
 
 /** Unsuspend a server in the Pterodactyl panel */
 export async function panelServerUnsuspend(serverId: number): Promise<void> {
-  const { baseUrl } = getPterodactylConfig();
-
-  const response = await fetch(`${baseUrl}/api/application/servers/${serverId}/unsuspend`, {
-    method: "POST",
-    headers: getDefaultHeaders(),
-  });
-
-  if (response.status !== 204) {
-    await handleApiResponse(response);
-  }
+  await pterodactylRequest(`/servers/${serverId}/unsuspend`, { method: "POST" });
 }
 
 /** Reinstall a server in the Pterodactyl panel */
 export async function panelServerReinstall(serverId: number): Promise<void> {
-  const { baseUrl } = getPterodactylConfig();
-
-  const response = await fetch(`${baseUrl}/api/application/servers/${serverId}/reinstall`, {
-    method: "POST",
-    headers: getDefaultHeaders(),
-  });
+  await pterodactylRequest(`/servers/${serverId}/reinstall`, { method: "POST" });
+}
 
-  if (response.status !== 204) {
-    await handleApiResponse(response);
-  }
+/**
+ * Move a server to another node. Stock Pterodactyl only offers transfers in the admin UI; this
+ * is the endpoint exposed by panels with an application API transfer extension.
+ */
+export async function panelServerTransfer(serverId: number, transferData: ServerTransferData): Promise<void> {
+  await pterodactylRequest(`/servers/${serverId}/transfer`, { method: "POST", body: transferData });
 }
 
 /** Delete a server from the Pterodactyl panel */
 export async function panelServerDelete(serverId: number, force = false): Promise<void> {
-  const { baseUrl } = getPterodactylConfig();
-  const url = force
-    ? `${baseUrl}/api/application/servers/${serverId}?force=true`
-    : `${baseUrl}/api/application/servers/${serverId}`;
-
-  const response = await fetch(url, {
+  await pterodactylRequest(`/servers/${serverId}`, {
     method: "DELETE",
-    headers: getDefaultHeaders(),
+    params: force ? { force: "true" } : undefined,
   });
-
-  if (response.status !== 204) {
-    await handleApiResponse(response);
-  }
 }
 
 // SERVER POWER MANAGEMENT FUNCTIONS (Client API)
 
 /** Start a server using the client API */
 export async function panelServerStart(server: number | string): Promise<void> {
-  const { baseUrl, clientApiKey } = getPterodactylConfig();
-  const identifier = String(server);
-
-  if (!clientApiKey) {
-    throw new PterodactylError("Client API key not configured", 500, "CONFIG_ERROR");
-  }
-
-  const response = await fetch(`${baseUrl}/api/client/servers/${identifier}/power`, {
+  await pterodactylRequest(`/servers/${String(server)}/power`, {
+    api: "client",
     method: "POST",
-    headers: {
-      "Authorization": `Bearer ${clientApiKey}`,
-      "Content-Type": "application/json",
-      "Accept": "application/json",
-    },
-    body: JSON.stringify({ signal: "start" }),
+    body: { signal: "start" },
   });
-
-  if (response.status !== 204) {
-    await handleApiResponse(response);
-  }
 }
 
 /** Stop a server using the client API */
 export async function panelServerStop(server: number | string): Promise<void> {
-  const { baseUrl, clientApiKey } = getPterodactylConfig();
-  const identifier = String(server);
-
-  if (!clientApiKey) {
-    throw new PterodactylError("Client API key not configured", 500, "CONFIG_ERROR");
-  }
-
-  const response = await fetch(`${baseUrl}/api/client/servers/${identifier}/power`, {
+  await pterodactylRequest(`/servers/${String(server)}/power`, {
+    api: "client",
     method: "POST",
-    headers: {
-      "Authorization": `Bearer ${clientApiKey}`,
-      "Content-Type": "application/json",
-      "Accept": "application/json",
-    },
-    body: JSON.stringify({ signal: "stop" }),
+    body: { signal: "stop" },
   });
-
-  if (response.status !== 204) {
-    await handleApiResponse(response);
-  }
 }
 
 /** Restart a server using the client API */
 export async function panelServerRestart(server: number | string): Promise<void> {
-  const { baseUrl, clientApiKey } = getPterodactylConfig();
-  const identifier = String(server);
-
-  if (!clientApiKey) {
-    throw new PterodactylError("Client API key not configured", 500, "CONFIG_ERROR");
-  }
-
-  const response = await fetch(`${baseUrl}/api/client/servers/${identifier}/power`, {
+  await pterodactylRequest(`/servers/${String(server)}/power`, {
+    api: "client",
     method: "POST",
-    headers: {
-      "Authorization": `Bearer ${clientApiKey}`,
-      "Content-Type": "application/json",
-      "Accept": "application/json",
-    },
-    body: JSON.stringify({ signal: "restart" }),
+    body: { signal: "restart" },
   });
-
-  if (response.status !== 204) {
-    await handleApiResponse(response);
-  }
 }
 
 /** Kill a server using the client API */
 export async function panelServerKill(server: number | string): Promise<void> {
-  const { baseUrl, clientApiKey } = getPterodactylConfig();
-  const identifier = String(server);
-
-  if (!clientApiKey) {
-    throw new PterodactylError("Client API key not configured", 500, "CONFIG_ERROR");
-  }
-
-  const response = await fetch(`${baseUrl}/api/client/servers/${identifier}/power`, {
+  await pterodactylRequest(`/servers/${String(server)}/power`, {
+    api: "client",
     method: "POST",
-    headers: {
-      "Authorization": `Bearer ${clientApiKey}`,
-      "Content-Type": "application/json",
-      "Accept": "application/json",
-    },
-    body: JSON.stringify({ signal: "kill" }),
+    body: { signal: "kill" },
   });
-
-  if (response.status !== 204) {
-    await handleApiResponse(response);
-  }
 }
 
 // DATABASE MANAGEMENT FUNCTIONS
@@ -552,14 +324,7 @@ export async function panelServerKill(server: number | string): Promise<void> {
 export async function panelServerGetDatabases(
   serverId: number
 ): Promise<PterodactylListResponse<PterodactylDatabase>> {
-  const { baseUrl } = getPterodactylConfig();
-
-  const response = await fetch(`${baseUrl}/api/application/servers/${serverId}/databases`, {
-    method: "GET",
-    headers: getDefaultHeaders(),
-  });
-
-  return handleApiResponse<PterodactylListResponse<PterodactylDatabase>>(response);
+  return pterodactylRequest<PterodactylListResponse<PterodactylDatabase>>(`/servers/${serverId}/databases`);
 }
 
 /** Get details of a specific database for a server */
@@ -567,14 +332,7 @@ export async function panelServerGetDatabaseDetails(
   serverId: number,
   databaseId: number
 ): Promise<PterodactylResponse<PterodactylDatabase>> {
-  const { baseUrl } = getPterodactylConfig();
-
-  const response = await fetch(`${baseUrl}/api/application/servers/${serverId}/databases/${databaseId}`, {
-    method: "GET",
-    headers: getDefaultHeaders(),
-  });
-
-  return handleApiResponse<PterodactylResponse<PterodactylDatabase>>(response);
+  return pterodactylRequest<PterodactylResponse<PterodactylDatabase>>(`/servers/${serverId}/databases/${databaseId}`);
 }
 
 /** Create a new database for a server */
@@ -582,15 +340,7 @@ export async function panelServerCreateDatabase(
   serverId: number,
   databaseData: DatabaseCreateData
 ): Promise<PterodactylResponse<PterodactylDatabase>> {
-  const { baseUrl } = getPterodactylConfig();
-
-  const response = await fetch(`${baseUrl}/api/application/servers/${serverId}/databases`, {
-    method: "POST",
-    headers: getDefaultHeaders(true),
-    body: JSON.stringify(databaseData),
-  });
-
-  return handleApiResponse<PterodactylResponse<PterodactylDatabase>>(response);
+  return pterodactylRequest<PterodactylResponse<PterodactylDatabase>>(`/servers/${serverId}/databases`, { method: "POST", body: databaseData });
 }
 
 /** Update a database for a server */
@@ -599,15 +349,7 @@ export async function panelServerUpdateDatabase(
   databaseId: number,
   updateData: DatabaseUpdateData
 ): Promise<PterodactylResponse<PterodactylDatabase>> {
-  const { baseUrl } = getPterodactylConfig();
-
-  const response = await fetch(`${baseUrl}/api/application/servers/${serverId}/databases/${databaseId}`, {
-    method: "PATCH",
-    headers: getDefaultHeaders(true),
-    body: JSON.stringify(updateData),
-  });
-
-  return handleApiResponse<PterodactylResponse<PterodactylDatabase>>(response);
+  return pterodactylRequest<PterodactylResponse<PterodactylDatabase>>(`/servers/${serverId}/databases/${databaseId}`, { method: "PATCH", body: updateData });
 }
 
 /** Reset password for a database */
@@ -615,14 +357,7 @@ export async function panelServerResetDatabasePassword(
   serverId: number,
   databaseId: number
 ): Promise<PterodactylResponse<PterodactylDatabase>> {
-  const { baseUrl } = getPterodactylConfig();
-
-  const response = await fetch(`${baseUrl}/api/application/servers/${serverId}/databases/${databaseId}/reset-password`, {
-    method: "POST",
-    headers: getDefaultHeaders(),
-  });
-
-  return handleApiResponse<PterodactylResponse<PterodactylDatabase>>(response);
+  return pterodactylRequest<PterodactylResponse<PterodactylDatabase>>(`/servers/${serverId}/databases/${databaseId}/reset-password`, { method: "POST" });
 }
 
 /** Delete a database from a server */
@@ -630,16 +365,7 @@ export async function panelServerDeleteDatabase(
   serverId: number,
   databaseId: number
 ): Promise<void> {
-  const { baseUrl } = getPterodactylConfig();
-
-  const response = await fetch(`${baseUrl}/api/application/servers/${serverId}/databases/${databaseId}`, {
-    method: "DELETE",
-    headers: getDefaultHeaders(),
-  });
-
-  if (response.status !== 204) {
-    await handleApiResponse(response);
-  }
+  await pterodactylRequest(`/servers/${serverId}/databases/${databaseId}`, { method: "DELETE" });
 }
 
 // UTILITY FUNCTIONS
@@ -670,23 +396,26 @@ export async function panelServerGetByUser(
   userId: number,
   includeRelationships = false
 ): Promise<PterodactylListResponse<PterodactylServer>> {
-  const response = await panelServerGetAll({
-    per_page: 100,
+  const servers = await panelServerGetAllPages({
     include: includeRelationships ? "user,node,allocations" : undefined,
   });
 
   // Filter by user ID since there's no direct filter for user in the API
-  const filteredData = response.data.filter(server => server.attributes?.user === userId);
+  const filteredData = servers
+    .filter(server => server.user === userId)
+    .map(server => ({ object: "server", attributes: server }));
 
   return {
-    ...response,
+    object: "list",
     data: filteredData,
     meta: {
-      ...response.meta,
       pagination: {
-        ...response.meta.pagination,
         total: filteredData.length,
         count: filteredData.length,
+        per_page: filteredData.length,
+        current_page: 1,
+        total_pages: 1,
+        links: {},
       }
     }
   };
@@ -694,27 +423,16 @@ export async function panelServerGetByUser(
 
 /** Get suspended servers */
 export async function panelServerGetSuspended(): Promise<PterodactylServer[]> {
-  const response = await panelServerGetAll({ per_page: 100 });
-
-  return response.data
-    .filter(server => server.attributes?.suspended === true)
-    .map(server => server.attributes!)
-    .filter(Boolean);
+  const servers = await panelServerGetAllPages();
+  return servers.filter(server => server.suspended === true);
 }
 
 /** Get servers by node ID */
 export async function panelServerGetByNode(
   nodeId: number
 ): Promise<PterodactylServer[]> {
-  const response = await panelServerGetAll({
-    per_page: 100,
-    include: "node"
-  });
-
-  return response.data
-    .filter(server => server.attributes?.node === nodeId)
-    .map(server => server.attributes!)
-    .filter(Boolean);
+  const servers = await panelServerGetAllPages();
+  return servers.filter(server => server.node === nodeId);
 }
 
 /** Check if a server exists by name */
@@ -740,15 +458,10 @@ export interface ServerStats {
 }
 
 export async function panelServerGetStats(): Promise<ServerStats> {
-  const response = await panelServerGetAll({
-    per_page: 100,
-    include: "user,node"
-  });
-
-  const servers = response.data.map(server => server.attributes!).filter(Boolean);
+  const servers = await panelServerGetAllPages();
 
   const stats: ServerStats = {
-    total: response.meta.pagination.total,
+    total: servers.length,
     suspended: servers.filter(server => server.suspended).length,
     active: servers.filter(server => !server.suspended).length,
     byNode: {},
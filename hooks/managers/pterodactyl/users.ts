@@ -6,28 +6,18 @@
  * are not the responsibility of the original developers.
  */
 
-// TYPE DEFINITIONS
-export interface PterodactylResponse<T> {
-  object: string;
-  attributes?: T;
-  relationships?: Record<string, any>;
-}
+import {
+  PterodactylError,
+  pterodactylRequest,
+  pterodactylListAll,
+  type PterodactylResponse,
+  type PterodactylListResponse,
+} from "./client";
 
-export interface PterodactylListResponse<T> {
-  object: "list";
-  data: PterodactylResponse<T>[];
-  meta: {
-    pagination: {
-      total: number;
-      count: number;
-      per_page: number;
-      current_page: number;
-      total_pages: number;
-      links: Record<string, any>;
-    };
-  };
-}
+export { PterodactylError };
+export type { PterodactylResponse, PterodactylListResponse };
 
+// TYPE DEFINITIONS
 export interface PterodactylUser {
   id: number;
   external_id: string | null;
@@ -117,98 +107,6 @@ export interface UserListParams {
 export interface UserDetailsParams {
   include?: "servers";
 }
-export class PterodactylError extends Error {
-  constructor(
-    message: string,
-    public status: number,
-    public code?: string,
-    public details?: any
-  ) {
-    super(message);
-    this.name = "PterodactylError";
-  }
-}
-
-// API CLIENT UTILITIES
-
-function getPterodactylConfig() {
-  const panelUrl = process.env.PANEL_URL || process.env.NEXT_PUBLIC_PANEL_URL;
-  const apiKey = process.env.PANEL_API_KEY || process.env.NEXT_PUBLIC_PANEL_API_KEY;
-
-  if (!panelUrl || !apiKey) {
-    throw new PterodactylError(
-      "Missing Pterodactyl configuration. Please set PANEL_URL and PANEL_API_KEY environment variables.",
-      500,
-      "MISSING_CONFIG"
-    );
-  }
-
-  return {
-    baseUrl: panelUrl.endsWith("/") ? panelUrl.slice(0, -1) : panelUrl,
-    apiKey: apiKey,
-  };
-}
-
-function getDefaultHeaders(includeContentType = false): HeadersInit {
-  const { apiKey } = getPterodactylConfig();
-
-  const headers: HeadersInit = {
-    "Authorization": `Bearer ${apiKey}`,
-    "Accept": "Application/vnd.pterodactyl.v1+json",
-  };
-
-  if (includeContentType) {
-    headers["Content-Type"] = "application/json";
-  }
-
-  return headers;
-}
-
-async function handleApiResponse<T>(response: Response): Promise<T> {
-  if (!response.ok) {
-    let errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-    let errorCode = response.status.toString();
-    let errorDetails: any = null;
-
-    try {
-      const errorData = await response.json();
-      if (errorData.errors && Array.isArray(errorData.errors)) {
-        errorMessage = errorData.errors.map((err: any) => err.detail || err.message).join(", ");
-        errorCode = errorData.errors[0]?.code || errorCode;
-        errorDetails = errorData.errors;
-      }
-    } catch {
-      // If we can't parse the error response, use the default message
-    }
-
-    throw new PterodactylError(errorMessage, response.status, errorCode, errorDetails);
-  }
-
-  try {
-    return await response.json();
-  } catch (error) {
-    throw new PterodactylError(
-      "Failed to parse API response",
-      500,
-      "PARSE_ERROR",
-      error
-    );
-  }
-}
-
-function buildUrl(baseUrl: string, endpoint: string, params?: Record<string, any>): string {
-  const url = new URL(`${baseUrl}${endpoint}`);
-
-  if (params) {
-    Object.entries(params).forEach(([key, value]) => {
-      if (value !== undefined && value !== null) {
-        url.searchParams.append(key, value.toString());
-      }
-    });
-  }
-
-  return url.toString();
-}
 
 // USER MANAGEMENT FUNCTIONS
 
@@ -216,15 +114,7 @@ function buildUrl(baseUrl: string, endpoint: string, params?: Record<string, any
 export async function panelUserCreate(
   userData: UserCreateData
 ): Promise<PterodactylResponse<PterodactylUser>> {
-  const { baseUrl } = getPterodactylConfig();
-
-  const response = await fetch(`${baseUrl}/api/application/users`, {
-    method: "POST",
-    headers: getDefaultHeaders(true),
-    body: JSON.stringify(userData),
-  });
-
-  return handleApiResponse<PterodactylResponse<PterodactylUser>>(response);
+  return pterodactylRequest<PterodactylResponse<PterodactylUser>>("/users", { method: "POST", body: userData });
 }
 
 /** Update an existing user in the Pterodactyl panel */
@@ -232,15 +122,7 @@ export async function panelUserUpdate(
   userId: number,
   updateData: UserUpdateData
 ): Promise<PterodactylResponse<PterodactylUser>> {
-  const { baseUrl } = getPterodactylConfig();
-
-  const response = await fetch(`${baseUrl}/api/application/users/${userId}`, {
-    method: "PATCH",
-    headers: getDefaultHeaders(true),
-    body: JSON.stringify(updateData),
-  });
-
-  return handleApiResponse<PterodactylResponse<PterodactylUser>>(response);
+  return pterodactylRequest<PterodactylResponse<PterodactylUser>>(`/users/${userId}`, { method: "PATCH", body: updateData });
 }
 
 /** Get details of a specific user from the Pterodactyl panel */
@@ -248,30 +130,21 @@ export async function panelUserGetDetails(
   userId: number,
   params?: UserDetailsParams
 ): Promise<PterodactylResponse<PterodactylUser>> {
-  const { baseUrl } = getPterodactylConfig();
-  const url = buildUrl(baseUrl, `/api/application/users/${userId}`, params);
-
-  const response = await fetch(url, {
-    method: "GET",
-    headers: getDefaultHeaders(),
-  });
-
-  return handleApiResponse<PterodactylResponse<PterodactylUser>>(response);
+  return pterodactylRequest<PterodactylResponse<PterodactylUser>>(`/users/${userId}`, { params });
 }
 
 /** Get all users from the Pterodactyl panel with optional filtering and pagination */
 export async function panelUserGetAll(
   params?: UserListParams
 ): Promise<PterodactylListResponse<PterodactylUser>> {
-  const { baseUrl } = getPterodactylConfig();
-  const url = buildUrl(baseUrl, "/api/application/users", params);
-
-  const response = await fetch(url, {
-    method: "GET",
-    headers: getDefaultHeaders(),
-  });
+  return pterodactylRequest<PterodactylListResponse<PterodactylUser>>("/users", { params });
+}
 
-  return handleApiResponse<PterodactylListResponse<PterodactylUser>>(response);
+/** Get every user, walking all pages */
+export async function panelUserGetAllPages(
+  params?: Omit<UserListParams, "page" | "per_page">
+): Promise<PterodactylUser[]> {
+  return pterodactylListAll<PterodactylUser>("/users", params);
 }
 
 /** Get servers associated with a specific user */
@@ -283,16 +156,7 @@ export async function panelUserGetServers(
 
 /** Delete a user from the Pterodactyl panel */
 export async function panelUserDelete(userId: number): Promise<void> {
-  const { baseUrl } = getPterodactylConfig();
-
-  const response = await fetch(`${baseUrl}/api/application/users/${userId}`, {
-    method: "DELETE",
-    headers: getDefaultHeaders(),
-  });
-
-  if (response.status !== 204) {
-    await handleApiResponse(response);
-  }
+  await pterodactylRequest(`/users/${userId}`, { method: "DELETE" });
 }
 
 // UTILITY FUNCTIONS
@@ -333,15 +197,11 @@ export async function panelUserGetByUuid(
 export async function panelUserGetAdmins(
   includeServers = false
 ): Promise<PterodactylUser[]> {
-  const response = await panelUserGetAll({
-    per_page: 100,
+  const users = await panelUserGetAllPages({
     include: includeServers ? "servers" : undefined,
   });
 
-  return response.data
-    .filter(user => user.attributes?.root_admin === true)
-    .map(user => user.attributes!)
-    .filter(Boolean);
+  return users.filter(user => user.root_admin === true);
 }
 
 /** Check if a user exists by email */
@@ -380,12 +240,10 @@ export interface UserStats {
 
 /** Get user statistics */
 export async function panelUserGetStats(): Promise<UserStats> {
-  const response = await panelUserGetAll({ per_page: 100 });
-
-  const users = response.data.map(user => user.attributes!).filter(Boolean);
+  const users = await panelUserGetAllPages();
 
   const stats: UserStats = {
-    total: response.meta.pagination.total,
+    total: users.length,
     admins: users.filter(user => user.root_admin).length,
     regular: users.filter(user => !user.root_admin).length,
     with2fa: users.filter(user => user["2fa"]).length,
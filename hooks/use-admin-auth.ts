@@ -12,6 +12,7 @@ import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuthStore } from '@/stores/user-store'
 import { useAdminRoleMonitoring, useRealTimeUserData } from '@/hooks/use-realtime-user'
+import { Permission, hasPermission } from '@/lib/auth/permissions'
 
 const isDev = typeof process !== 'undefined' && process.env.NODE_ENV !== 'production'
 
@@ -128,3 +129,18 @@ export function useAdminCheck(): UseAdminAuthResult {
 export function useAdminGuard(): UseAdminAuthResult {
   return useAdminAuth(true)
 }
+
+/**
+ * Admin permissions of the current user, for hiding what their role cannot use.
+ * `loaded` is false until the permissions have been fetched with the user data.
+ */
+export function useAdminPermissions() {
+  const currentUser = useAuthStore((s) => s.currentUser)
+  const permissions = currentUser?.permissions
+
+  return {
+    loaded: !!permissions,
+    permissions: permissions || [],
+    can: (permission: Permission | Permission[]) => hasPermission(permissions, permission)
+  }
+}
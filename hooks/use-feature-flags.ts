@@ -19,6 +19,7 @@ export type FeatureFlag =
   | 'NEXT_PUBLIC_DAILY_LOGIN_BONUS'
   | 'NEXT_PUBLIC_OAUTH_ENABLED'
   | 'NEXT_PUBLIC_ACCOUNT_VERIFICATION'
+  | 'NEXT_PUBLIC_SERVER_MIGRATION_ENABLED'
 
 export type FeatureConfig = {
   enabled: boolean
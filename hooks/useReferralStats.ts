@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { useAuthStore } from '@/stores/user-store'
+import { apiFetch } from '@/lib/api-fetch'
 
 interface ReferralStats {
   user_id: number
@@ -84,15 +85,7 @@ export function useReferralStats(): UseReferralStatsReturn {
         'Content-Type': 'application/json',
       }
 
-      // Add user data to headers for authentication
-      headers['x-user-data'] = encodeURIComponent(JSON.stringify({
-        id: currentUser.id,
-        username: currentUser.username,
-        email: currentUser.email,
-        role: currentUser.role
-      }))
-
-      const response = await fetch('/api/user/referral-code', {
+      const response = await apiFetch('/api/user/referral-code', {
         method: 'POST',
         credentials: 'include',
         headers
@@ -148,22 +141,14 @@ export function useReferralStats(): UseReferralStatsReturn {
         'Content-Type': 'application/json',
       }
 
-      // Add user data to headers for authentication
-      headers['x-user-data'] = encodeURIComponent(JSON.stringify({
-        id: currentUser.id,
-        username: currentUser.username,
-        email: currentUser.email,
-        role: currentUser.role
-      }))
-
       // Fetch both stats and users in parallel for faster loading
       const [statsResponse, usersResponse] = await Promise.all([
-        fetch('/api/referrals/stats', {
+        apiFetch('/api/referrals/stats', {
           method: 'GET',
           credentials: 'include',
           headers
         }),
-        fetch('/api/referrals/users', {
+        apiFetch('/api/referrals/users', {
           method: 'GET',
           credentials: 'include',
           headers
@@ -208,24 +193,11 @@ export function useReferralStats(): UseReferralStatsReturn {
 
     setIsClaimingRewards(true)
     try {
-      // Get current user from store
-      const { currentUser } = useAuthStore.getState()
-
       const headers: HeadersInit = {
         'Content-Type': 'application/json',
       }
 
-      // Add user data to headers for authentication
-      if (currentUser) {
-        headers['x-user-data'] = encodeURIComponent(JSON.stringify({
-          id: currentUser.id,
-          username: currentUser.username,
-          email: currentUser.email,
-          role: currentUser.role
-        }))
-      }
-
-      const response = await fetch('/api/referrals/claim', {
+      const response = await apiFetch('/api/referrals/claim', {
         method: 'POST',
         headers,
         credentials: 'include',
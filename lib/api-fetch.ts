@@ -0,0 +1,56 @@
+/**
+ * CythroDash - Client API Fetch
+ *
+ * Drop-in replacement for fetch() in stores and components. Mutating same-origin requests
+ * carry the session's CSRF token from the csrf_token cookie; when the server reports it
+ * missing or invalid, a fresh one is fetched from /api/auth/csrf and the request retried once.
+ */
+
+import { SECURITY_CONFIG } from '@/lib/security/config'
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+let refreshing: Promise<string | null> | null = null
+
+function readCsrfCookie(): string | null {
+  const prefix = `${SECURITY_CONFIG.CSRF.COOKIE_NAME}=`
+  const cookie = document.cookie.split('; ').find(row => row.startsWith(prefix))
+  return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null
+}
+
+function refreshCsrfToken(): Promise<string | null> {
+  if (!refreshing) {
+    refreshing = fetch('/api/auth/csrf', { credentials: 'include', cache: 'no-store' })
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => data?.csrf_token ?? null)
+      .catch(() => null)
+      .finally(() => { refreshing = null })
+  }
+  return refreshing
+}
+
+function isSameOrigin(input: RequestInfo | URL): boolean {
+  const href = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+  return new URL(href, window.location.origin).origin === window.location.origin
+}
+
+export async function apiFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const method = (init.method || (input instanceof Request ? input.method : 'GET')).toUpperCase()
+  if (typeof window === 'undefined' || SAFE_METHODS.includes(method) || !isSameOrigin(input)) {
+    return fetch(input, init)
+  }
+
+  const send = (token: string | null) => {
+    const headers = new Headers(init.headers)
+    if (token) headers.set(SECURITY_CONFIG.CSRF.HEADER_NAME, token)
+    return fetch(input, { ...init, headers })
+  }
+
+  const response = await send(readCsrfCookie())
+  if (response.status !== 403) return response
+  const body = await response.clone().json().catch(() => null)
+  if (body?.error !== 'CSRF_TOKEN_MISSING' && body?.error !== 'CSRF_TOKEN_INVALID') return response
+  return send(await refreshCsrfToken())
+}
+
+export default apiFetch
@@ -7,108 +7,165 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { sessionOperations } from '@/hooks/managers/database/sessions';
+import { userOperations } from '@/hooks/managers/database/user';
+import { CythroDashSession } from '@/database/tables/cythro_dash_sessions';
+import { RoleController } from '@/hooks/managers/controller/Admin/RoleController';
+import { Permission, hasPermission } from '@/lib/auth/permissions';
 
 export interface AuthenticatedRequest extends NextRequest {
   user?: any;
 }
 
+export interface SessionUser {
+  id: number;
+  username: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  display_name?: string;
+  pterodactyl_uuid: string;
+  role: number;
+  role_id?: string;
+  permissions: string[]; // Admin permissions granted by the user's role, empty for regular users
+  verified: boolean;
+  coins: number;
+  max_servers: number;
+  theme: string;
+  language: string;
+  avatar_url?: string;
+  session_id: string;
+  impersonator_id?: number; // Admin viewing the dashboard as this user
+}
+
+/** Where a request's session token came from */
+export type SessionTokenSource = 'bearer' | 'cookie';
+
+export type AuthenticationResult =
+  | { success: true; user: SessionUser; session: CythroDashSession; source: SessionTokenSource; error?: undefined }
+  | { success: false; user?: undefined; session?: undefined; error: string };
+
+export type AuthMiddlewareResult =
+  | { success: true; user: SessionUser; session?: CythroDashSession; error?: undefined; response?: undefined }
+  | { success: false; user?: undefined; session?: undefined; error: string; response: NextResponse };
+
 /**
- * Authentication middleware for API routes
- * Validates session token and extracts user information from request headers
+ * Collect candidate session tokens from the request.
+ * The Authorization header is checked first, then the httpOnly session cookie.
  */
-export async function authMiddleware(request: NextRequest): Promise<{
-  success: boolean;
-  user?: any;
-  error?: string;
-  response?: NextResponse
-}> {
+function getRequestSessionTokens(request: NextRequest): Array<{ token: string; source: SessionTokenSource }> {
+  const tokens: Array<{ token: string; source: SessionTokenSource }> = [];
+  const authHeader = request.headers.get('authorization');
+  if (authHeader?.startsWith('Bearer ')) {
+    tokens.push({ token: authHeader.slice('Bearer '.length).trim(), source: 'bearer' });
+  }
+  const cookieToken = request.cookies.get('session_token')?.value;
+  if (cookieToken) tokens.push({ token: cookieToken, source: 'cookie' });
+  return tokens.filter(({ token }, i) => token && tokens.findIndex(t => t.token === token) === i);
+}
+
+/**
+ * Active session behind a request, from the Bearer token or the session cookie, with the raw
+ * token that matched and where it came from
+ */
+export async function resolveRequestSession(request: NextRequest): Promise<{ session: CythroDashSession; token: string; source: SessionTokenSource } | null> {
+  for (const { token, source } of getRequestSessionTokens(request)) {
+    const session = await sessionOperations.getActiveSessionByToken(token);
+    if (session) return { session, token, source };
+  }
+  return null;
+}
+
+/**
+ * Resolve the authenticated user for a request.
+ * This is the single server-side path: the session token is looked up in the
+ * sessions collection and the user is loaded from the database. Client-supplied
+ * user data (headers or cookies) is never trusted.
+ */
+export async function authenticateRequest(request: NextRequest): Promise<AuthenticationResult> {
   try {
-    // Get token from Authorization header or cookies
-    const authHeader = request.headers.get('authorization');
-    const sessionToken = authHeader?.replace('Bearer ', '') ||
-                        request.cookies.get('session_token')?.value;
-
-    // Require at least some auth context: session token OR x_user_data
-    const hasUserHeader = !!request.headers.get('x-user-data')
-    const hasUserCookie = !!request.cookies.get('x_user_data')?.value
-    if (!sessionToken && !hasUserHeader && !hasUserCookie) {
-      return {
-        success: false,
-        error: 'No authentication context provided',
-        response: NextResponse.json(
-          { success: false, message: 'Authentication required', error: 'NO_AUTH_CONTEXT' },
-          { status: 401 }
-        )
-      };
+    if (getRequestSessionTokens(request).length === 0) {
+      return { success: false, error: 'No session token found' };
     }
 
-    // Note: Do not strictly validate session token format here.
-    // Some environments may use non-hex tokens (JWT or other). We rely on user context cookie/header for now.
-
-    // Get user information from request headers (sent by client)
-    const userDataHeader = request.headers.get('x-user-data');
-    if (userDataHeader) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataHeader));
-        if (userData && userData.id && userData.username && userData.email) {
-          return { success: true, user: userData };
-        }
-      } catch (parseError) {
-        console.log('User data header parsing failed:', parseError);
-      }
+    const resolved = await resolveRequestSession(request);
+    if (!resolved) {
+      return { success: false, error: 'Invalid or expired session' };
     }
+    const { session, source } = resolved;
 
-    // Fallback: try x_user_data cookie (set at login)
-    const userDataCookie = request.cookies.get('x_user_data')?.value;
-    if (userDataCookie) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(userDataCookie));
-        if (userData && userData.id && userData.username && userData.email) {
-          return { success: true, user: userData };
-        }
-      } catch (e) {
-        // ignore
-      }
+    const user = await userOperations.getUserById(session.user_id);
+    if (!user) {
+      await sessionOperations.revokeSession(session.id, 'user_not_found');
+      return { success: false, error: 'User not found' };
     }
-
-    // Fallback: Try to parse session token as JSON (legacy compatibility)
-    if (sessionToken) {
-      try {
-        const userData = JSON.parse(decodeURIComponent(sessionToken));
-        if (userData && userData.id) {
-          return { success: true, user: userData };
-        }
-      } catch (parseError) {
-        // ignore; not JSON-encoded
-      }
+    if (user.banned) {
+      await sessionOperations.revokeSession(session.id, 'user_banned');
+      return { success: false, error: 'Account banned' };
     }
 
-    // No user available; require header or cookie until session store is implemented
     return {
-      success: false,
-      error: 'Session validation not implemented - user data required',
-      response: NextResponse.json(
-        {
-          success: false,
-          message: 'Authentication failed - user context missing',
-          error: 'SESSION_VALIDATION_NOT_IMPLEMENTED',
-          hint: 'Include x-user-data header or ensure x_user_data cookie is set at login'
-        },
-        { status: 401 }
-      )
+      success: true,
+      session,
+      source,
+      user: {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        first_name: user.first_name,
+        last_name: user.last_name,
+        display_name: user.display_name,
+        pterodactyl_uuid: user.pterodactyl_uuid,
+        role: user.role,
+        role_id: user.role_id,
+        permissions: await RoleController.getUserPermissions(user),
+        verified: user.verified,
+        coins: user.coins || 0,
+        max_servers: user.max_servers,
+        theme: user.theme,
+        language: user.language,
+        avatar_url: user.avatar_url,
+        session_id: session.id,
+        impersonator_id: session.impersonation?.admin_id
+      }
     };
-
   } catch (error) {
-    console.error('Auth middleware error:', error);
+    console.error('Session authentication error:', error);
+    return { success: false, error: 'Authentication failed' };
+  }
+}
+
+/**
+ * Authentication middleware for API routes
+ * Validates the session token against the session store and loads the user
+ */
+export async function authMiddleware(request: NextRequest): Promise<AuthMiddlewareResult> {
+  const result = await authenticateRequest(request);
+  if (result.success) {
+    return result;
+  }
+
+  if (result.error === 'Authentication failed') {
     return {
-      success: false,
-      error: 'Authentication error',
+      ...result,
       response: NextResponse.json(
         { success: false, message: 'Authentication error', error: 'AUTH_ERROR' },
         { status: 500 }
       )
     };
   }
+
+  return {
+    ...result,
+    response: NextResponse.json(
+      {
+        success: false,
+        message: 'Authentication required',
+        error: result.error === 'No session token found' ? 'NO_AUTH_CONTEXT' : 'INVALID_SESSION'
+      },
+      { status: 401 }
+    )
+  };
 }
 
 /**
@@ -117,12 +174,7 @@ export async function authMiddleware(request: NextRequest): Promise<{
 export async function requireRole(
   request: NextRequest, 
   requiredRole: number = 1 // 0 = admin, 1 = user
-): Promise<{ 
-  success: boolean; 
-  user?: any; 
-  error?: string; 
-  response?: NextResponse 
-}> {
+): Promise<AuthMiddlewareResult> {
   const authResult = await authMiddleware(request);
   
   if (!authResult.success) {
@@ -150,7 +202,40 @@ export async function requireRole(
 }
 
 /**
- * Admin-only middleware
+ * Admin permission middleware
+ * Passing several permissions lets the request through when the user holds any one of them.
+ */
+export async function requirePermission(
+  request: NextRequest,
+  permission: Permission | Permission[]
+): Promise<AuthMiddlewareResult> {
+  const authResult = await authMiddleware(request);
+
+  if (!authResult.success) {
+    return authResult;
+  }
+
+  if (!hasPermission(authResult.user.permissions, permission)) {
+    return {
+      success: false,
+      error: 'Insufficient permissions',
+      response: NextResponse.json(
+        {
+          success: false,
+          message: 'Insufficient permissions',
+          error: 'INSUFFICIENT_PERMISSIONS',
+          required_permission: permission
+        },
+        { status: 403 }
+      )
+    };
+  }
+
+  return authResult;
+}
+
+/**
+ * Admin-only middleware: any staff role, whatever its permissions
  */
 export async function requireAdmin(request: NextRequest) {
   return requireRole(request, 0); // Admin role = 0
@@ -159,20 +244,22 @@ export async function requireAdmin(request: NextRequest) {
 /**
  * Wrapper function to protect API routes
  */
-export function withAuth(
-  handler: (request: NextRequest, user: any) => Promise<NextResponse>,
-  options: { requireAdmin?: boolean } = {}
+export function withAuth<C = unknown>(
+  handler: (request: NextRequest, user: SessionUser, context: C) => Promise<NextResponse>,
+  options: { requireAdmin?: boolean; permission?: Permission | Permission[] } = {}
 ) {
-  return async (request: NextRequest) => {
-    const authResult = options.requireAdmin 
-      ? await requireAdmin(request)
-      : await authMiddleware(request);
+  return async (request: NextRequest, context: C) => {
+    const authResult = options.permission
+      ? await requirePermission(request, options.permission)
+      : options.requireAdmin
+        ? await requireAdmin(request)
+        : await authMiddleware(request);
 
     if (!authResult.success) {
-      return authResult.response!;
+      return authResult.response;
     }
 
-    return handler(request, authResult.user);
+    return handler(request, authResult.user, context);
   };
 }
 
@@ -0,0 +1,52 @@
+/**
+ * Admin permissions
+ * Every admin API route requires one of these. A role grants a set of them; the built-in
+ * superadmin role grants `*`. A `.write` permission also grants the matching `.read`.
+ * Shared with the client so the admin sidebar can hide sections a role cannot open.
+ */
+
+export const PERMISSIONS = {
+  'users.read': 'View users, their activity and referrals',
+  'users.write': 'Edit, disable, enable and delete users',
+  'users.coins.adjust': 'Add or remove coins from a user',
+  'users.security': 'Manage user sessions, two-factor, lockouts and password resets',
+  'users.impersonate': 'View the dashboard as a user',
+  'roles.manage': 'Create roles and assign them to users',
+  'servers.read': 'View all servers',
+  'servers.write': 'Create, edit and delete servers',
+  'servers.suspend': 'Suspend and unsuspend servers',
+  'locations.read': 'View locations, nodes and capacity',
+  'locations.write': 'Manage locations and their nodes',
+  'plans.read': 'View plans, server types and server software',
+  'plans.write': 'Manage plans, server types and server software',
+  'codes.read': 'View redeem codes',
+  'codes.write': 'Create, edit and delete redeem codes',
+  'content.read': 'View announcements and links',
+  'content.write': 'Manage announcements and links',
+  'settings.read': 'View settings and integrations',
+  'settings.write': 'Change settings and integrations',
+  'security.read': 'View security overview, security logs and admin logs',
+  'security.block_ip': 'Block and unblock IP addresses and manage block rules',
+  'ledger.read': 'View the rewards ledger reconciliation report',
+  'ledger.reconcile': 'Repair balances that disagree with the ledger',
+} as const
+
+export type Permission = keyof typeof PERMISSIONS
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[]
+
+export const WILDCARD_PERMISSION = '*'
+
+export function isPermission(value: string): value is Permission {
+  return Object.prototype.hasOwnProperty.call(PERMISSIONS, value)
+}
+
+/**
+ * Whether `granted` includes `required`. With an array, any one of them is enough.
+ */
+export function hasPermission(granted: readonly string[] | undefined, required: Permission | readonly Permission[]): boolean {
+  if (!granted || granted.length === 0) return false
+  if (granted.includes(WILDCARD_PERMISSION)) return true
+  const list = Array.isArray(required) ? required : [required as Permission]
+  return list.some((p) => granted.includes(p) || (p.endsWith('.read') && granted.includes(p.slice(0, -'.read'.length) + '.write')))
+}
@@ -79,3 +79,36 @@ export function addCycle(date: Date, cycle: string): Date {
   return new Date(date.getTime() + ms);
 }
 
+
+export type ProrationQuote = {
+  remaining_ms: number;
+  // Share of the current cycle not used yet (0..1)
+  remaining_fraction: number;
+  // Value of the unused time on the current plan
+  credit: number;
+  // Price of the same remaining time on the new plan
+  cost: number;
+  // cost - credit; positive is charged, negative is refunded
+  difference: number;
+};
+
+/**
+ * Prorate switching plans for the rest of the current cycle. The billing date stays the same;
+ * each plan is valued at its own price per cycle length, and amounts are rounded to whole coins.
+ */
+export function prorateRemaining(
+  current: { price: number; cycle: string },
+  next: { price: number; cycle: string },
+  nextBillingDate: Date,
+  now: Date = new Date()
+): ProrationQuote {
+  const currentMs = parseBillingCycle(current.cycle).ms;
+  const nextMs = parseBillingCycle(next.cycle).ms;
+  // Never value more than the one cycle that was paid for
+  const remainingMs = Math.min(currentMs, Math.max(0, nextBillingDate.getTime() - now.getTime()));
+  const fraction = remainingMs / currentMs;
+
+  const credit = Math.round(current.price * fraction);
+  const cost = Math.round(next.price * (remainingMs / nextMs));
+  return { remaining_ms: remainingMs, remaining_fraction: fraction, credit, cost, difference: cost - credit };
+}
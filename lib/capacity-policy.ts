@@ -0,0 +1,68 @@
+/**
+ * Capacity alert policy
+ * Values come from the capacity settings. A location raises a warning when its memory or disk
+ * allocation reaches `warning_percent` or is forecast to fill within `warning_days`, and a
+ * critical alert within `critical_days`. Once it is full, `full_action` decides what users see:
+ *
+ *   none      nothing changes, creation fails on the panel as before
+ *   waitlist  the location stays listed but is closed to new servers
+ *   hidden    the location is left out of the location list
+ *
+ * Webhook and email recipients are private configuration (config-manager, then env):
+ *   monitoring.alert_webhook_url   MONITORING_ALERT_WEBHOOK_URL, receives a JSON POST per alert
+ *   monitoring.alert_emails        MONITORING_ALERT_EMAILS, comma separated addresses
+ */
+
+import { getPublicNumber, getPublicSetting } from '@/lib/public-settings'
+
+export type CapacityFullAction = 'none' | 'waitlist' | 'hidden'
+
+export interface CapacityPolicy {
+  warning_days: number
+  critical_days: number
+  warning_percent: number
+  full_action: CapacityFullAction
+}
+
+export const DEFAULT_CAPACITY_POLICY: CapacityPolicy = {
+  warning_days: 14,
+  critical_days: 3,
+  warning_percent: 85,
+  full_action: 'waitlist',
+}
+
+// Allocation at which a location counts as full, as in NodeMonitorService
+export const CAPACITY_FULL_PERCENT = 95
+
+function sanitize(value: unknown, fallback: number, min: number): number {
+  const n = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(n) && n >= min ? n : fallback
+}
+
+export async function getCapacityPolicy(): Promise<CapacityPolicy> {
+  const [warningDays, criticalDays, warningPercent, fullAction] = await Promise.all([
+    getPublicNumber('NEXT_PUBLIC_CAPACITY_WARNING_DAYS', DEFAULT_CAPACITY_POLICY.warning_days),
+    getPublicNumber('NEXT_PUBLIC_CAPACITY_CRITICAL_DAYS', DEFAULT_CAPACITY_POLICY.critical_days),
+    getPublicNumber('NEXT_PUBLIC_CAPACITY_WARNING_PERCENT', DEFAULT_CAPACITY_POLICY.warning_percent),
+    getPublicSetting<string>('NEXT_PUBLIC_CAPACITY_FULL_ACTION', DEFAULT_CAPACITY_POLICY.full_action),
+  ])
+  const critical_days = sanitize(criticalDays, DEFAULT_CAPACITY_POLICY.critical_days, 0)
+  return {
+    warning_days: Math.max(critical_days, sanitize(warningDays, DEFAULT_CAPACITY_POLICY.warning_days, 0)),
+    critical_days,
+    warning_percent: Math.min(CAPACITY_FULL_PERCENT, sanitize(warningPercent, DEFAULT_CAPACITY_POLICY.warning_percent, 1)),
+    full_action: fullAction === 'none' || fullAction === 'hidden' ? fullAction : 'waitlist',
+  }
+}
+
+export async function getCapacityAlertRecipients(): Promise<{ webhook_url?: string; emails: string[] }> {
+  const { getConfig } = await import('@/database/config-manager.js')
+  const [webhook, emails] = await Promise.all([
+    (getConfig as any)('monitoring.alert_webhook_url', ''),
+    (getConfig as any)('monitoring.alert_emails', ''),
+  ])
+  return {
+    webhook_url: webhook ? String(webhook) : undefined,
+    emails: String(emails || '').split(',').map(e => e.trim()).filter(Boolean),
+  }
+}
@@ -1,14 +1,18 @@
 /**
  * Development CRON Scheduler
  * Automatically runs server lifecycle management every minute in development
+ * and collects node statistics every five minutes
  */
 
 let isRunning = false;
 
+const NODE_STATS_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
 export class CronScheduler {
   private static instance: CronScheduler;
   private intervalId: NodeJS.Timeout | null = null;
   private isActive = false;
+  private lastNodeStatsRun = 0;
 
   static getInstance(): CronScheduler {
     if (!CronScheduler.instance) {
@@ -79,7 +83,8 @@ export class CronScheduler {
         backfilled: result.backfilled,
         billing: result.billing,
         suspend: result.suspend,
-        delete: result.delete
+        delete: result.delete,
+        migrations: result.migrations
       });
 
       // Log any significant actions
@@ -98,6 +103,38 @@ export class CronScheduler {
     } finally {
       isRunning = false;
     }
+
+    if (Date.now() - this.lastNodeStatsRun >= NODE_STATS_INTERVAL) {
+      this.lastNodeStatsRun = Date.now();
+      await this.runNodeStatsJob();
+    }
+  }
+
+  private async runNodeStatsJob(): Promise<void> {
+    try {
+      const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3001';
+      const response = await fetch(`${baseUrl}/api/cron/node-stats`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Node stats job failed: ${response.status} ${response.statusText}`);
+      }
+
+      const result = await response.json();
+      console.log(`📊 Node stats recorded for ${result.nodes} nodes`, {
+        hourly_rollups: result.hourly_rollups,
+        daily_rollups: result.daily_rollups
+      });
+      if (result.capacity?.raised > 0 || result.capacity?.escalated > 0) {
+        console.log(`🚨 Capacity alerts: ${result.capacity.raised} raised, ${result.capacity.escalated} escalated`);
+      }
+    } catch (error) {
+      console.error('❌ Node stats job failed:', error);
+    }
   }
 
   getStatus(): { active: boolean; running: boolean } {
@@ -0,0 +1,66 @@
+/**
+ * Server lifecycle policy
+ * Global values come from the billing settings; a plan's `lifecycle` block overrides them per field.
+ *
+ *   expiry / missed payment --(suspend grace)--> suspended --(delete after)--> terminated
+ *   terminated --(data retention)--> files purged from the panel
+ *
+ * A retention of 0 skips the terminated stage and deletes the panel server right away.
+ */
+
+import { getPublicNumber } from '@/lib/public-settings'
+import type { CythroDashPlan, PlanLifecyclePolicy } from '@/database/tables/cythro_dash_plans'
+
+const HOUR_MS = 60 * 60 * 1000
+
+export type LifecyclePolicy = Required<PlanLifecyclePolicy>
+
+export const DEFAULT_LIFECYCLE_POLICY: LifecyclePolicy = {
+  suspend_grace_hours: 24,
+  delete_after_hours: 72,
+  data_retention_hours: 0,
+}
+
+function sanitizeHours(value: unknown, fallback: number): number {
+  const n = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(n) && n >= 0 ? n : fallback
+}
+
+export async function getGlobalLifecyclePolicy(): Promise<LifecyclePolicy> {
+  const [grace, deleteAfter, retention] = await Promise.all([
+    getPublicNumber('NEXT_PUBLIC_SERVER_SUSPEND_GRACE_HOURS', DEFAULT_LIFECYCLE_POLICY.suspend_grace_hours),
+    getPublicNumber('NEXT_PUBLIC_SERVER_DELETE_AFTER_HOURS', DEFAULT_LIFECYCLE_POLICY.delete_after_hours),
+    getPublicNumber('NEXT_PUBLIC_SERVER_DATA_RETENTION_HOURS', DEFAULT_LIFECYCLE_POLICY.data_retention_hours),
+  ])
+  return {
+    suspend_grace_hours: sanitizeHours(grace, DEFAULT_LIFECYCLE_POLICY.suspend_grace_hours),
+    delete_after_hours: sanitizeHours(deleteAfter, DEFAULT_LIFECYCLE_POLICY.delete_after_hours),
+    data_retention_hours: sanitizeHours(retention, DEFAULT_LIFECYCLE_POLICY.data_retention_hours),
+  }
+}
+
+/** Apply a plan's overrides on top of the global policy */
+export function resolveLifecyclePolicy(global: LifecyclePolicy, plan?: Pick<CythroDashPlan, 'lifecycle'> | null): LifecyclePolicy {
+  const o = plan?.lifecycle || {}
+  return {
+    suspend_grace_hours: sanitizeHours(o.suspend_grace_hours ?? global.suspend_grace_hours, global.suspend_grace_hours),
+    delete_after_hours: sanitizeHours(o.delete_after_hours ?? global.delete_after_hours, global.delete_after_hours),
+    data_retention_hours: sanitizeHours(o.data_retention_hours ?? global.data_retention_hours, global.data_retention_hours),
+  }
+}
+
+/** When a server that fell due at `dueAt` gets suspended */
+export function suspensionDueAt(dueAt: Date, policy: LifecyclePolicy): Date {
+  return new Date(dueAt.getTime() + policy.suspend_grace_hours * HOUR_MS)
+}
+
+/** When a server suspended at `suspendedAt` gets terminated */
+export function deletionDueAt(suspendedAt: Date, policy: LifecyclePolicy): Date {
+  return new Date(suspendedAt.getTime() + policy.delete_after_hours * HOUR_MS)
+}
+
+/** When the files of a server terminated at `terminatedAt` get purged, or null if they are not retained */
+export function retentionEndsAt(terminatedAt: Date, policy: LifecyclePolicy): Date | null {
+  if (policy.data_retention_hours <= 0) return null
+  return new Date(terminatedAt.getTime() + policy.data_retention_hours * HOUR_MS)
+}
@@ -0,0 +1,101 @@
+/**
+ * CythroDash - Outbound Mail Service
+ *
+ * Transport and sender are configured through config-manager (DB first, then env,
+ * e.g. SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASSWORD / MAIL_FROM):
+ *   mail.transport       smtp | file | json (defaults to smtp when mail.smtp.host is set, otherwise file)
+ *   mail.from            sender address, e.g. "CythroDash <no-reply@example.com>"
+ *   mail.smtp.host / mail.smtp.port / mail.smtp.secure / mail.smtp.user / mail.smtp.password
+ *   mail.file.dir        output directory for the file transport
+ *   app.url              public dashboard URL used in links (falls back to NEXT_PUBLIC_URL)
+ */
+
+import path from 'path'
+import { getPublicSetting } from '@/lib/public-settings'
+import { FileDropTransport, JsonTransport, MailMessage, MailSendResult, MailTransport, MailTransportName, SmtpTransport } from './transports'
+import { MailTemplateData, MailTemplateName, renderTemplate } from './templates'
+
+export type { MailTemplateName, MailTemplateData } from './templates'
+export type { MailMessage, MailSendResult, MailTransportName } from './transports'
+
+const TRANSPORT_TTL_MS = 60_000
+const DEFAULT_FILE_DIR = path.join(process.cwd(), 'config', 'mail-outbox')
+
+async function readConfig(key: string, fallback?: string): Promise<string | undefined> {
+  const { getConfig } = await import('@/database/config-manager.js')
+  const value = await (getConfig as any)(key, fallback)
+  return value === undefined || value === null || value === '' ? fallback : String(value)
+}
+
+class MailService {
+  private transport: MailTransport | null = null
+  private transportAt = 0
+
+  /** Drop the cached transport so the next send picks up changed configuration */
+  reset() {
+    this.transport = null
+    this.transportAt = 0
+  }
+
+  async getTransport(): Promise<MailTransport> {
+    if (this.transport && Date.now() - this.transportAt < TRANSPORT_TTL_MS) return this.transport
+
+    const host = await readConfig('mail.smtp.host')
+    const configured = (await readConfig('mail.transport')) as MailTransportName | undefined
+    const name: MailTransportName = configured || (host ? 'smtp' : 'file')
+
+    if (name === 'smtp') {
+      if (!host) throw new Error('mail.transport is smtp but mail.smtp.host is not configured')
+      const secure = (await readConfig('mail.smtp.secure')) === 'true'
+      const port = parseInt((await readConfig('mail.smtp.port')) || (secure ? '465' : '587'))
+      this.transport = new SmtpTransport({
+        host,
+        port,
+        secure,
+        user: await readConfig('mail.smtp.user'),
+        password: await readConfig('mail.smtp.password')
+      })
+    } else if (name === 'json') {
+      this.transport = new JsonTransport()
+    } else {
+      this.transport = new FileDropTransport((await readConfig('mail.file.dir')) || DEFAULT_FILE_DIR)
+    }
+
+    this.transportAt = Date.now()
+    return this.transport
+  }
+
+  async getAppName(): Promise<string> {
+    return (await getPublicSetting<string>('NEXT_PUBLIC_NAME', 'CythroDash')) || 'CythroDash'
+  }
+
+  /** Public base URL for links in emails, without a trailing slash */
+  async getAppUrl(): Promise<string> {
+    const url = (await readConfig('app.url')) || 'http://localhost:3000'
+    return url.replace(/\/+$/, '')
+  }
+
+  async send(message: Omit<MailMessage, 'from'> & { from?: string }): Promise<MailSendResult> {
+    const transport = await this.getTransport()
+    const from = message.from || (await readConfig('mail.from')) || `${await this.getAppName()} <no-reply@localhost>`
+    return transport.send({ ...message, from })
+  }
+
+  /**
+   * Render and send a template. Delivery problems are logged and reported, never thrown,
+   * so callers in auth and billing flows are not interrupted by a mail outage.
+   */
+  async sendTemplate<K extends MailTemplateName>(to: string, template: K, data: MailTemplateData[K]): Promise<{ success: boolean; message_id?: string; error?: string }> {
+    try {
+      const rendered = renderTemplate(template, data, { app_name: await this.getAppName() })
+      const result = await this.send({ to, template, ...rendered })
+      return { success: true, message_id: result.message_id }
+    } catch (error) {
+      console.error(`Failed to send ${template} email to ${to}:`, error)
+      return { success: false, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+}
+
+export const mailService = new MailService()
+export default mailService
@@ -0,0 +1,142 @@
+/**
+ * CythroDash - Mail Templates
+ *
+ * Each template renders a subject plus text and HTML bodies from plain data.
+ */
+
+export interface MailTemplateData {
+  password_reset: { name: string; reset_url: string; expires_minutes: number }
+  email_verification: { name: string; verify_url: string }
+  suspension_warning: { name: string; server_name: string; reason: string; delete_at?: Date; amount_due?: number; renew_url: string }
+  server_terminated: { name: string; server_name: string; reason: string; retained_until: Date }
+  server_deleted: { name: string; server_name: string; reason: string }
+  new_login_alert: { name: string; device: string; location: string; ip_address: string; signed_in_at: Date; security_url: string }
+  login_confirmation: { name: string; device: string; location: string; ip_address: string; confirm_url: string; expires_minutes: number }
+  capacity_alert: { location_name: string; resource: string; level: 'warning' | 'critical' | 'full'; message: string; usage_percentage: number; days_until_full: number | null; monitoring_url: string }
+}
+
+export type MailTemplateName = keyof MailTemplateData
+
+export interface RenderedMail {
+  subject: string
+  text: string
+  html: string
+}
+
+export interface MailContext {
+  app_name: string
+}
+
+function escapeHtml(value: string): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// Shared HTML frame: paragraphs are escaped, an optional button links to the action URL
+function layout(ctx: MailContext, paragraphs: string[], action?: { label: string; url: string }): string {
+  const body = paragraphs.map(p => `<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(p)}</p>`).join('')
+  const button = action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(action.url)}" style="background:#404040;color:#fff;padding:10px 18px;border-radius:8px;text-decoration:none">${escapeHtml(action.label)}</a></p>`
+    : ''
+  return `<!doctype html><html><body style="background:#171717;color:#e5e5e5;font-family:Arial,sans-serif;padding:24px">`
+    + `<div style="max-width:560px;margin:0 auto;background:#262626;border-radius:12px;padding:24px">`
+    + `<h2 style="margin:0 0 16px;color:#fff">${escapeHtml(ctx.app_name)}</h2>${body}${button}`
+    + `</div></body></html>`
+}
+
+function text(paragraphs: string[], action?: { label: string; url: string }): string {
+  return [...paragraphs, ...(action ? [`${action.label}: ${action.url}`] : [])].join('\n\n')
+}
+
+type Renderer<K extends MailTemplateName> = (data: MailTemplateData[K], ctx: MailContext) => RenderedMail
+
+const renderers: { [K in MailTemplateName]: Renderer<K> } = {
+  password_reset: (data, ctx) => {
+    const paragraphs = [
+      `Hi ${data.name},`,
+      `We received a request to reset the password for your ${ctx.app_name} account.`,
+      `This link expires in ${data.expires_minutes} minutes. If you did not request a reset, you can ignore this email.`
+    ]
+    const action = { label: 'Reset password', url: data.reset_url }
+    return { subject: `Reset your ${ctx.app_name} password`, text: text(paragraphs, action), html: layout(ctx, paragraphs, action) }
+  },
+
+  email_verification: (data, ctx) => {
+    const paragraphs = [
+      `Hi ${data.name},`,
+      `Please confirm your email address to finish setting up your ${ctx.app_name} account.`
+    ]
+    const action = { label: 'Verify email', url: data.verify_url }
+    return { subject: `Verify your email for ${ctx.app_name}`, text: text(paragraphs, action), html: layout(ctx, paragraphs, action) }
+  },
+
+  suspension_warning: (data, ctx) => {
+    const paragraphs = [
+      `Hi ${data.name},`,
+      `Your server "${data.server_name}" has been suspended: ${data.reason}.`,
+      ...(data.amount_due ? [`Amount due: ${data.amount_due} coins.`] : []),
+      ...(data.delete_at ? [`The server will be terminated after ${data.delete_at.toUTCString()} unless it is renewed.`] : [])
+    ]
+    const action = { label: 'Renew server', url: data.renew_url }
+    return { subject: `Server "${data.server_name}" suspended`, text: text(paragraphs, action), html: layout(ctx, paragraphs, action) }
+  },
+
+  server_terminated: (data, ctx) => {
+    const paragraphs = [
+      `Hi ${data.name},`,
+      `Your server "${data.server_name}" has been terminated: ${data.reason}.`,
+      `Its files are kept until ${data.retained_until.toUTCString()} and will then be deleted permanently. Contact ${ctx.app_name} support before then if you need them restored.`
+    ]
+    return { subject: `Server "${data.server_name}" terminated`, text: text(paragraphs), html: layout(ctx, paragraphs) }
+  },
+
+  server_deleted: (data, ctx) => {
+    const paragraphs = [
+      `Hi ${data.name},`,
+      `Your server "${data.server_name}" has been deleted: ${data.reason}.`,
+      `Its files cannot be recovered. You can create a new server from your ${ctx.app_name} dashboard at any time.`
+    ]
+    return { subject: `Server "${data.server_name}" deleted`, text: text(paragraphs), html: layout(ctx, paragraphs) }
+  },
+
+  new_login_alert: (data, ctx) => {
+    const paragraphs = [
+      `Hi ${data.name},`,
+      `Your ${ctx.app_name} account was just signed in to from a new device or location.`,
+      `Device: ${data.device}. Location: ${data.location}. IP address: ${data.ip_address}. Time: ${data.signed_in_at.toUTCString()}.`,
+      `If this was you, no action is needed. If not, change your password and sign out your other sessions right away.`
+    ]
+    const action = { label: 'Review account security', url: data.security_url }
+    return { subject: `New sign-in to your ${ctx.app_name} account`, text: text(paragraphs, action), html: layout(ctx, paragraphs, action) }
+  },
+
+  login_confirmation: (data, ctx) => {
+    const paragraphs = [
+      `Hi ${data.name},`,
+      `Someone signed in to your ${ctx.app_name} account with the correct password from a device or location we have not seen before.`,
+      `Device: ${data.device}. Location: ${data.location}. IP address: ${data.ip_address}.`,
+      `If this was you, confirm the sign-in and then log in again. The link expires in ${data.expires_minutes} minutes. If it was not you, change your password now.`
+    ]
+    const action = { label: 'Confirm sign-in', url: data.confirm_url }
+    return { subject: `Confirm a new sign-in to ${ctx.app_name}`, text: text(paragraphs, action), html: layout(ctx, paragraphs, action) }
+  },
+
+  capacity_alert: (data, ctx) => {
+    const paragraphs = [
+      `${data.message}`,
+      `${data.resource[0].toUpperCase()}${data.resource.slice(1)} allocation in ${data.location_name} is at ${data.usage_percentage}%.`
+        + (data.days_until_full !== null ? ` At the current growth rate it fills in about ${data.days_until_full} days.` : ''),
+      `Add nodes to the location or raise their limits before new servers start failing.`
+    ]
+    const action = { label: 'Open monitoring', url: data.monitoring_url }
+    return { subject: `[${data.level}] ${data.location_name} ${data.resource} capacity on ${ctx.app_name}`, text: text(paragraphs, action), html: layout(ctx, paragraphs, action) }
+  }
+}
+
+export function renderTemplate<K extends MailTemplateName>(name: K, data: MailTemplateData[K], ctx: MailContext): RenderedMail {
+  return (renderers[name] as Renderer<K>)(data, ctx)
+}
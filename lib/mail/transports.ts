@@ -0,0 +1,90 @@
+/**
+ * CythroDash - Mail Transports
+ *
+ * smtp: real delivery through nodemailer
+ * file: writes each message as a JSON file into a directory (local development)
+ * json: serialises the message and logs it (tests, CI)
+ */
+
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import nodemailer from 'nodemailer'
+
+export type MailTransportName = 'smtp' | 'file' | 'json'
+
+export interface MailMessage {
+  to: string
+  from: string
+  subject: string
+  text: string
+  html?: string
+  template?: string
+}
+
+export interface MailSendResult {
+  message_id: string
+  transport: MailTransportName
+}
+
+export interface MailTransport {
+  readonly name: MailTransportName
+  send(message: MailMessage): Promise<MailSendResult>
+}
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  password?: string
+}
+
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp' as const
+  private transporter: nodemailer.Transporter
+
+  constructor(options: SmtpOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password || '' } : undefined
+    })
+  }
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    const info = await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html
+    })
+    return { message_id: info.messageId, transport: this.name }
+  }
+}
+
+export class FileDropTransport implements MailTransport {
+  readonly name = 'file' as const
+
+  constructor(private dir: string) {}
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    const id = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`
+    await fs.promises.mkdir(this.dir, { recursive: true })
+    const file = path.join(this.dir, `${id}.json`)
+    await fs.promises.writeFile(file, JSON.stringify({ id, created_at: new Date().toISOString(), ...message }, null, 2), 'utf8')
+    return { message_id: id, transport: this.name }
+  }
+}
+
+export class JsonTransport implements MailTransport {
+  readonly name = 'json' as const
+
+  async send(message: MailMessage): Promise<MailSendResult> {
+    const id = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`
+    console.log('[mail:json]', JSON.stringify({ id, ...message }))
+    return { message_id: id, transport: this.name }
+  }
+}
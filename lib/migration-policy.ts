@@ -0,0 +1,35 @@
+/**
+ * Server migration policy
+ * Admins can always migrate servers. Users can move their own server to another location when
+ * `user_enabled` is on, paying `price` coins up front (refunded if the migration rolls back).
+ *
+ * How the panel side is done is private configuration (config-manager, then env):
+ *   migrations.panel_transfer   MIGRATIONS_PANEL_TRANSFER, true when the panel exposes
+ *                               POST /api/application/servers/{id}/transfer. Files move with
+ *                               the server. Otherwise a new server with the same egg and limits
+ *                               is created on the target without files, and the old one is
+ *                               suspended and kept until an admin deletes it. Admin
+ *                               migrations and drains must acknowledge the data loss.
+ */
+
+import { getPublicFlag, getPublicNumber } from '@/lib/public-settings'
+
+export interface MigrationPolicy {
+  user_enabled: boolean
+  price: number
+  panel_transfer: boolean
+}
+
+export async function getMigrationPolicy(): Promise<MigrationPolicy> {
+  const { getConfig } = await import('@/database/config-manager.js')
+  const [userEnabled, price, panelTransfer] = await Promise.all([
+    getPublicFlag('NEXT_PUBLIC_SERVER_MIGRATION_ENABLED', false),
+    getPublicNumber('NEXT_PUBLIC_SERVER_MIGRATION_PRICE', 0),
+    (getConfig as any)('migrations.panel_transfer', false),
+  ])
+  return {
+    user_enabled: userEnabled,
+    price: Number.isFinite(price) && (price as number) > 0 ? Math.floor(price as number) : 0,
+    panel_transfer: panelTransfer === true || String(panelTransfer) === 'true',
+  }
+}
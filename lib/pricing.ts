@@ -0,0 +1,100 @@
+/**
+ * Plan pricing engine
+ * Every path that charges for a plan (server creation, recurring billing, overdue renewal,
+ * plan changes) and every price shown to users goes through computePlanPrice.
+ *
+ * A plan's `promotion` applies while `valid_until` has not passed. A promotion with a
+ * `promo_code` only applies when that code is entered; one without applies to everyone.
+ * Percentage discounts win over fixed ones, and prices are whole coins, never below zero.
+ */
+
+import type { CythroDashPlan } from '@/database/tables/cythro_dash_plans'
+import type { AppliedDiscount } from '@/database/tables/cythro_dash_servers'
+
+export type PromoCodeError = 'INVALID_PROMO_CODE' | 'PROMO_EXPIRED'
+
+export interface PlanPriceQuote {
+  base_price: number // plan.price per cycle
+  price: number // Per-cycle price after the discount
+  setup_fee: number
+  total: number // First charge: price + setup fee
+  discount: AppliedDiscount | null
+  promo_code_error?: PromoCodeError // Set when an entered code was not applied
+}
+
+export interface PlanPriceOptions {
+  now?: Date
+  promo_code?: string | null
+}
+
+function normalizeCode(code?: string | null): string {
+  return (code || '').trim().toUpperCase()
+}
+
+function isPromotionActive(plan: Pick<CythroDashPlan, 'promotion'>, now: Date): boolean {
+  const validUntil = plan.promotion?.valid_until ? new Date(plan.promotion.valid_until) : null
+  return !validUntil || now <= validUntil
+}
+
+export function computePlanPrice(plan: Pick<CythroDashPlan, 'price' | 'setup_fee' | 'promotion'>, options: PlanPriceOptions = {}): PlanPriceQuote {
+  const now = options.now || new Date()
+  const basePrice = Math.max(0, plan.price || 0)
+  const setupFee = Math.max(0, plan.setup_fee || 0)
+  const entered = normalizeCode(options.promo_code)
+  const promotion = plan.promotion
+  const requiredCode = normalizeCode(promotion?.promo_code)
+
+  let discount: AppliedDiscount | null = null
+  let promoCodeError: PromoCodeError | undefined
+
+  if (entered && entered !== requiredCode) {
+    promoCodeError = 'INVALID_PROMO_CODE'
+  } else if (promotion && (!requiredCode || entered === requiredCode)) {
+    if (!isPromotionActive(plan, now)) {
+      if (entered) promoCodeError = 'PROMO_EXPIRED'
+    } else if (promotion.discount_percentage && promotion.discount_percentage > 0) {
+      const pct = Math.min(100, promotion.discount_percentage)
+      discount = {
+        type: 'percentage',
+        value: pct,
+        amount: basePrice - Math.max(0, Math.round(basePrice * (1 - pct / 100))),
+        source: requiredCode ? 'promo_code' : 'promotion',
+        ...(requiredCode ? { promo_code: requiredCode } : {}),
+        ...(promotion.valid_until ? { valid_until: new Date(promotion.valid_until) } : {})
+      }
+    } else if (promotion.discount_amount && promotion.discount_amount > 0) {
+      discount = {
+        type: 'fixed',
+        value: promotion.discount_amount,
+        amount: Math.min(basePrice, Math.round(promotion.discount_amount)),
+        source: requiredCode ? 'promo_code' : 'promotion',
+        ...(requiredCode ? { promo_code: requiredCode } : {}),
+        ...(promotion.valid_until ? { valid_until: new Date(promotion.valid_until) } : {})
+      }
+    }
+  }
+
+  const price = basePrice - (discount?.amount || 0)
+  return {
+    base_price: basePrice,
+    price,
+    setup_fee: setupFee,
+    total: price + setupFee,
+    discount,
+    ...(promoCodeError ? { promo_code_error: promoCodeError } : {})
+  }
+}
+
+/**
+ * Price of a server's next cycle. A promo code used at checkout keeps applying while the
+ * promotion is still valid; automatic promotions apply as usual.
+ */
+export function computeRecurringPrice(plan: Pick<CythroDashPlan, 'price' | 'setup_fee' | 'promotion'>, applied: AppliedDiscount | null | undefined, now: Date = new Date()): PlanPriceQuote {
+  const quote = computePlanPrice(plan, { now, promo_code: applied?.promo_code })
+  // A code that no longer matches the plan (changed by an admin) falls back to automatic pricing
+  return quote.promo_code_error ? computePlanPrice(plan, { now }) : quote
+}
+
+export function promoCodeErrorMessage(error: PromoCodeError): string {
+  return error === 'PROMO_EXPIRED' ? 'This promo code has expired' : 'Invalid promo code for this plan'
+}
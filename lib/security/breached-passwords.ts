@@ -0,0 +1,90 @@
+/**
+ * CythroDash - Breached password check
+ *
+ * Looks passwords up in a local list of SHA-1 hashes, the same way the Have I Been Pwned range
+ * API works: only the first five hex characters of the hash select a bucket, and the rest is
+ * compared inside it. The bundled list (lib/security/data/common-passwords.txt) covers common
+ * passwords and their usual suffixes; BREACHED_PASSWORDS_PATH can point at a larger file in the
+ * same `HASH[:count]` line format. Without a readable file every password passes.
+ */
+
+import crypto from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+const DEFAULT_LIST_PATH = path.join(process.cwd(), 'lib', 'security', 'data', 'common-passwords.txt')
+const RECHECK_INTERVAL_MS = 10 * 60 * 1000
+const PREFIX_LENGTH = 5
+
+interface HashList {
+  ranges: Map<string, Set<string>> // 5-char prefix -> remaining 35 chars
+  mtime: number
+}
+
+let list: HashList | null = null
+let loading: Promise<HashList | null> | null = null
+let checkedAt = 0
+
+function sha1(value: string): string {
+  return crypto.createHash('sha1').update(value, 'utf8').digest('hex').toUpperCase()
+}
+
+function parseList(text: string, mtime: number): HashList {
+  const ranges = new Map<string, Set<string>>()
+  for (const line of text.split(/\r?\n/)) {
+    if (!line || line.startsWith('#')) continue
+    const hash = line.split(':')[0].trim().toUpperCase()
+    if (!/^[0-9A-F]{40}$/.test(hash)) continue
+    const prefix = hash.slice(0, PREFIX_LENGTH)
+    let bucket = ranges.get(prefix)
+    if (!bucket) ranges.set(prefix, bucket = new Set())
+    bucket.add(hash.slice(PREFIX_LENGTH))
+  }
+  return { ranges, mtime }
+}
+
+export function getBreachedPasswordsPath(): string {
+  return process.env.BREACHED_PASSWORDS_PATH || DEFAULT_LIST_PATH
+}
+
+async function loadList(): Promise<HashList | null> {
+  const file = getBreachedPasswordsPath()
+  try {
+    const stat = await fs.stat(file)
+    if (list && list.mtime === stat.mtimeMs) return list
+    list = parseList(await fs.readFile(file, 'utf8'), stat.mtimeMs)
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') console.error(`Failed to load breached password list from ${file}:`, error)
+    else console.warn(`Breached password list ${file} not found; breached-password checks are disabled`)
+    list = null
+  }
+  return list
+}
+
+async function getList(): Promise<HashList | null> {
+  if (Date.now() - checkedAt < RECHECK_INTERVAL_MS) return loading ?? list
+  checkedAt = Date.now()
+  loading = loadList().finally(() => { loading = null })
+  return loading
+}
+
+/**
+ * Hash suffixes listed under a 5-character SHA-1 prefix
+ */
+export async function getBreachedRange(prefix: string): Promise<Set<string>> {
+  const db = await getList()
+  return db?.ranges.get(prefix.toUpperCase()) ?? new Set()
+}
+
+/**
+ * Whether a password, as typed or lowercased, appears in the breached password list
+ */
+export async function isBreachedPassword(password: string): Promise<boolean> {
+  if (!password) return false
+  for (const candidate of new Set([password, password.toLowerCase()])) {
+    const hash = sha1(candidate)
+    const range = await getBreachedRange(hash.slice(0, PREFIX_LENGTH))
+    if (range.has(hash.slice(PREFIX_LENGTH))) return true
+  }
+  return false
+}
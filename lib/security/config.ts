@@ -6,24 +6,89 @@
  * are not the responsibility of the original developers.
  */
 
+export type RateLimitKeyType = 'ip' | 'user'
+
+export interface RateLimitPolicyConfig {
+  BY: RateLimitKeyType[] // Counted separately per client IP and/or per signed-in user
+  WINDOWS: Array<{ MAX_REQUESTS: number; WINDOW_MS: number }> // A request must fit every window
+}
+
 export const SECURITY_CONFIG = {
-  // Rate limiting
+  // Rate limiting policies, enforced by lib/security/rate-limit.ts
   RATE_LIMIT: {
     LOGIN: {
-      MAX_ATTEMPTS: 5,
-      WINDOW_MS: 15 * 60 * 1000, // 15 minutes
-      LOCKOUT_DURATION: 15 * 60 * 1000 // 15 minutes
+      BY: ['ip'],
+      WINDOWS: [{ MAX_REQUESTS: 5, WINDOW_MS: 15 * 60 * 1000 }] // 15 minutes
     },
     REGISTER: {
-      MAX_ATTEMPTS: 3,
-      WINDOW_MS: 60 * 60 * 1000, // 1 hour
-      LOCKOUT_DURATION: 60 * 60 * 1000 // 1 hour
+      BY: ['ip'],
+      WINDOWS: [
+        { MAX_REQUESTS: 2, WINDOW_MS: 60 * 1000 }, // 1 minute
+        { MAX_REQUESTS: 5, WINDOW_MS: 60 * 60 * 1000 }, // 1 hour
+        { MAX_REQUESTS: 10, WINDOW_MS: 24 * 60 * 60 * 1000 } // 24 hours
+      ]
+    },
+    // Forgot-password and resend-verification requests (each sends an email)
+    EMAIL: {
+      BY: ['ip'],
+      WINDOWS: [{ MAX_REQUESTS: 5, WINDOW_MS: 15 * 60 * 1000 }] // 15 minutes
+    },
+    TRANSFER: {
+      BY: ['ip', 'user'],
+      WINDOWS: [
+        { MAX_REQUESTS: 10, WINDOW_MS: 60 * 1000 }, // 1 minute
+        { MAX_REQUESTS: 50, WINDOW_MS: 60 * 60 * 1000 } // 1 hour
+      ]
+    },
+    REDEEM: {
+      BY: ['ip', 'user'],
+      WINDOWS: [{ MAX_REQUESTS: 10, WINDOW_MS: 60 * 1000 }] // 1 minute
+    },
+    SERVER_CREATE: {
+      BY: ['ip', 'user'],
+      WINDOWS: [{ MAX_REQUESTS: 10, WINDOW_MS: 60 * 1000 }] // 1 minute
+    },
+    SERVER_RENEW: {
+      BY: ['ip', 'user'],
+      WINDOWS: [{ MAX_REQUESTS: 10, WINDOW_MS: 60 * 1000 }] // 1 minute
+    },
+    REFERRAL_CLICK: {
+      BY: ['ip'],
+      WINDOWS: [
+        { MAX_REQUESTS: 5, WINDOW_MS: 60 * 1000 }, // 1 minute
+        { MAX_REQUESTS: 30, WINDOW_MS: 60 * 60 * 1000 } // 1 hour
+      ]
+    },
+    REFERRAL_CLAIM: {
+      BY: ['user'],
+      WINDOWS: [{ MAX_REQUESTS: 5, WINDOW_MS: 60 * 1000 }] // 1 minute
+    },
+    DAILY_LOGIN_CLAIM: {
+      BY: ['user'],
+      WINDOWS: [{ MAX_REQUESTS: 5, WINDOW_MS: 60 * 1000 }] // 1 minute
+    },
+    GITHUB_REWARD: {
+      BY: ['user'],
+      WINDOWS: [{ MAX_REQUESTS: 3, WINDOW_MS: 60 * 60 * 1000 }] // 1 hour
+    },
+    DISCORD_VERIFY: {
+      BY: ['ip', 'user'],
+      WINDOWS: [{ MAX_REQUESTS: 10, WINDOW_MS: 5 * 60 * 1000 }] // 5 minutes
+    },
+    MONITORING: {
+      BY: ['ip'],
+      WINDOWS: [{ MAX_REQUESTS: 30, WINDOW_MS: 60 * 1000 }] // 1 minute
     },
+    CSP_REPORT: {
+      BY: ['ip'],
+      WINDOWS: [{ MAX_REQUESTS: 30, WINDOW_MS: 60 * 1000 }] // 1 minute
+    },
+    // Everything else; MAX_REQUESTS is replaced by the NEXT_PUBLIC_RATE_LIMIT setting (requests per minute)
     API: {
-      MAX_REQUESTS: 100,
-      WINDOW_MS: 15 * 60 * 1000 // 15 minutes
+      BY: ['ip'],
+      WINDOWS: [{ MAX_REQUESTS: 60, WINDOW_MS: 60 * 1000 }] // 1 minute
     }
-  },
+  } satisfies Record<string, RateLimitPolicyConfig>,
 
   // Session configuration
   SESSION: {
@@ -48,14 +113,56 @@ export const SECURITY_CONFIG = {
     REQUIRE_UPPERCASE: true,
     REQUIRE_LOWERCASE: true,
     REQUIRE_NUMBERS: true,
-    REQUIRE_SPECIAL_CHARS: false
+    REQUIRE_SPECIAL_CHARS: false,
+    BLOCK_PERSONAL_INFO: true,
+    HISTORY_COUNT: 5, // Admin-configurable up to HISTORY_LIMIT
+    HISTORY_LIMIT: 24, // Old hashes kept per user
+    MAX_AGE_DAYS: 0,
+    BREACH_CHECK: true
   },
 
   // CSRF protection
   CSRF: {
     ENABLED: true,
     SECRET_LENGTH: 32,
-    TOKEN_LENGTH: 32
+    TOKEN_LENGTH: 32,
+    COOKIE_NAME: 'csrf_token', // Readable by the client, which echoes it in HEADER_NAME
+    HEADER_NAME: 'x-csrf-token'
+  },
+
+  // Content-Security-Policy, built per request by lib/security/csp.ts
+  CSP: {
+    ENABLED: true,
+    REPORT_ONLY: process.env.CSP_REPORT_ONLY === 'true', // Send Content-Security-Policy-Report-Only instead of enforcing
+    REPORT_URI: '/api/security/csp-report',
+    AVATAR_HOSTS: ['https://cdn.discordapp.com', 'https://avatars.githubusercontent.com'], // OAuth profile pictures
+    SOURCES_CACHE_TTL: 60 * 1000 // How long the middleware reuses the settings-derived sources
+  },
+
+  // Admin "view as user" sessions
+  IMPERSONATION: {
+    DEFAULT_MINUTES: 30,
+    MAX_MINUTES: 120,
+    COOKIE_NAME: 'impersonator_session', // httpOnly; holds the admin's own session token while impersonating
+    // Mutating endpoints that move coins, blocked unless the admin allowed wallet actions
+    WALLET_ROUTES: [
+      /^\/api\/transfers$/,
+      /^\/api\/codes\/redeem$/,
+      /^\/api\/servers\/create$/,
+      /^\/api\/servers\/[^/]+\/(renew|change-plan|migrate)$/,
+      /^\/api\/user\/daily-login$/,
+      /^\/api\/earn\//,
+      /^\/api\/referrals\/claim$/,
+      /^\/api\/auth\/(discord|github)\/reward$/,
+      /^\/api\/social\/discord\/verify$/
+    ],
+    // Sign-in credentials and sessions of the account, never changed while impersonating
+    ACCOUNT_ROUTES: [
+      /^\/api\/user\/change-password$/,
+      /^\/api\/user\/two-factor$/,
+      /^\/api\/user\/sessions$/,
+      /^\/api\/auth\/(discord|github)\/connect$/
+    ]
   },
 
   // Security headers
@@ -84,6 +191,16 @@ export function getSessionCookieOptions(rememberMe: boolean = false) {
   }
 }
 
+/**
+ * Get CSRF token cookie options (same lifetime as the session, readable by scripts)
+ */
+export function getCsrfCookieOptions(rememberMe: boolean = false) {
+  return {
+    ...getSessionCookieOptions(rememberMe),
+    httpOnly: false
+  }
+}
+
 /**
  * Get refresh token cookie options
  */
@@ -0,0 +1,102 @@
+/**
+ * CythroDash - Content Security Policy
+ *
+ * Builds the per-request CSP and applies SECURITY_CONFIG.HEADERS. Kept free of Node APIs so
+ * the root middleware (Edge runtime) can use it; settings-derived sources are resolved by
+ * /api/internal/csp-sources and passed in as CspSources.
+ */
+
+import { SECURITY_CONFIG } from './config'
+
+export interface CspSources {
+  img: string[] // Logo and server type artwork origins
+  style: string[] // Origins referenced by url()/@import in the custom CSS
+  font: string[]
+}
+
+export const EMPTY_CSP_SOURCES: CspSources = { img: [], style: [], font: [] }
+
+// JSON responses never load anything, so API routes get a fixed lock-down policy
+const API_POLICY = "default-src 'none'; frame-ancestors 'none'; base-uri 'none'; form-action 'none'"
+
+/**
+ * Origin of an absolute http(s) URL, or undefined for relative, data: and malformed values
+ */
+export function originOf(value?: string | null): string | undefined {
+  if (!value || !/^https?:\/\//i.test(value.trim())) return undefined
+  try {
+    return new URL(value.trim()).origin
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Collect the external origins a custom stylesheet loads from. Fonts cannot be told apart
+ * from images by URL alone, so url() origins are allowed for both.
+ */
+export function extractCssSources(css?: string | null): Pick<CspSources, 'style' | 'font' | 'img'> {
+  if (!css) return { style: [], font: [], img: [] }
+  const imports = new Set<string>()
+  const assets = new Set<string>()
+
+  for (const match of css.matchAll(/@import\s+(?:url\()?\s*['"]?([^'")\s;]+)/gi)) {
+    const origin = originOf(match[1])
+    if (origin) imports.add(origin)
+  }
+  for (const match of css.matchAll(/url\(\s*['"]?([^'")\s]+)['"]?\s*\)/gi)) {
+    const origin = originOf(match[1])
+    if (origin && !imports.has(origin)) assets.add(origin)
+  }
+
+  return { style: [...imports], font: [...assets, ...imports], img: [...assets] }
+}
+
+export function generateNonce(): string {
+  return btoa(crypto.randomUUID())
+}
+
+export function cspHeaderName(): string {
+  return SECURITY_CONFIG.CSP.REPORT_ONLY ? 'Content-Security-Policy-Report-Only' : 'Content-Security-Policy'
+}
+
+/**
+ * Policy for rendered pages. Scripts must carry the request nonce (Next.js adds it to its own
+ * scripts); 'strict-dynamic' lets those load their chunks. Styles stay 'unsafe-inline' because
+ * components and the admin custom CSS set inline styles.
+ */
+export function buildPagePolicy(nonce: string, sources: CspSources = EMPTY_CSP_SOURCES): string {
+  const isDev = process.env.NODE_ENV !== 'production'
+  const unique = (values: string[]) => [...new Set(values)].join(' ')
+
+  const directives: Record<string, string> = {
+    'default-src': "'self'",
+    'script-src': unique(["'self'", `'nonce-${nonce}'`, "'strict-dynamic'", ...(isDev ? ["'unsafe-eval'"] : [])]),
+    'style-src': unique(["'self'", "'unsafe-inline'", ...sources.style]),
+    'img-src': unique(["'self'", 'data:', 'blob:', ...SECURITY_CONFIG.CSP.AVATAR_HOSTS, ...sources.img]),
+    'font-src': unique(["'self'", 'data:', ...sources.font]),
+    'connect-src': "'self'",
+    'object-src': "'none'",
+    'base-uri': "'self'",
+    'form-action': "'self'",
+    'frame-ancestors': "'none'",
+    'report-uri': SECURITY_CONFIG.CSP.REPORT_URI,
+    'report-to': 'csp-endpoint'
+  }
+  return Object.entries(directives).map(([name, value]) => `${name} ${value}`).join('; ')
+}
+
+/**
+ * Set SECURITY_CONFIG.HEADERS and the given CSP on a response. Without a policy, the API
+ * lock-down policy is used.
+ */
+export function applySecurityHeaders<R extends Response>(response: R, policy: string = API_POLICY): R {
+  for (const [name, value] of Object.entries(SECURITY_CONFIG.HEADERS)) {
+    response.headers.set(name, value)
+  }
+  if (SECURITY_CONFIG.CSP.ENABLED) {
+    response.headers.set(cspHeaderName(), policy)
+    response.headers.set('Reporting-Endpoints', `csp-endpoint="${SECURITY_CONFIG.CSP.REPORT_URI}"`)
+  }
+  return response
+}
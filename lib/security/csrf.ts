@@ -0,0 +1,69 @@
+/**
+ * CythroDash - CSRF Protection
+ *
+ * Synchronizer tokens: every session carries a random CSRF token, issued at login in the
+ * readable `csrf_token` cookie. Mutating requests authenticated by the session cookie must
+ * echo it in the `X-CSRF-Token` header. Requests whose session is resolved from a Bearer token
+ * are exempt, since a cross-site page cannot set that header; an unknown Bearer token that
+ * falls back to the cookie gets no exemption.
+ */
+
+import crypto from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { SECURITY_CONFIG, getCsrfCookieOptions } from './config'
+import { resolveRequestSession } from '@/lib/auth/middleware'
+import { ImpersonationController } from '@/hooks/managers/controller/Admin/ImpersonationController'
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+/** Hand the session's CSRF token to the client */
+export function setCsrfCookie(response: NextResponse, token: string, rememberMe = false) {
+  response.cookies.set(SECURITY_CONFIG.CSRF.COOKIE_NAME, token, getCsrfCookieOptions(rememberMe))
+}
+
+export function clearCsrfCookie(response: NextResponse) {
+  response.cookies.set(SECURITY_CONFIG.CSRF.COOKIE_NAME, '', { ...getCsrfCookieOptions(), maxAge: 0 })
+}
+
+function tokensMatch(a: string, b: string): boolean {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && crypto.timingSafeEqual(left, right)
+}
+
+function csrfError(message: string, error: string) {
+  return NextResponse.json({ success: false, message, error }, { status: 403 })
+}
+
+/**
+ * Check a request's CSRF token. Returns a 403 response when it fails, or undefined when the
+ * request may proceed. Requests without a valid session are left to the handler's own auth.
+ */
+export async function verifyCsrf(request: NextRequest): Promise<NextResponse | undefined> {
+  if (!SECURITY_CONFIG.CSRF.ENABLED || SAFE_METHODS.includes(request.method)) return undefined
+
+  // Same lookup as authenticateRequest, so the exemption follows the session the handler will use
+  const resolved = await resolveRequestSession(request)
+  if (!resolved || resolved.source === 'bearer') return undefined
+  const { session } = resolved
+
+  const header = request.headers.get(SECURITY_CONFIG.CSRF.HEADER_NAME)
+  if (!header) return csrfError('Missing CSRF token', 'CSRF_TOKEN_MISSING')
+  if (!session.csrf_token || !tokensMatch(header, session.csrf_token)) {
+    return csrfError('Invalid CSRF token', 'CSRF_TOKEN_INVALID')
+  }
+  return undefined
+}
+
+/**
+ * Wrap a route handler so cookie-authenticated mutating requests must carry the session's
+ * CSRF token. Since every mutating route goes through here, it also applies the impersonation
+ * rules (see ImpersonationController.guardRequest).
+ */
+export function withCsrf<C, R extends Response>(handler: (request: NextRequest, context: C) => Promise<R>) {
+  return async (request: NextRequest, context: C): Promise<R | NextResponse> => {
+    const rejected = await verifyCsrf(request) || await ImpersonationController.guardRequest(request)
+    if (rejected) return rejected
+    return handler(request, context)
+  }
+}
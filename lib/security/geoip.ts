@@ -0,0 +1,128 @@
+/**
+ * CythroDash - Offline GeoIP country lookup
+ *
+ * Reads a local IP-to-country CSV so lookups work without a network service. Each row is
+ * `start,end,country_code[,...]` where start/end are addresses (DB-IP "ip-to-country-lite")
+ * or decimal integers (IP2Location LITE DB1); quoted fields are fine. The file is read from
+ * GEOIP_DATABASE_PATH, defaulting to config/geoip/ip-country.csv, and reloaded when it changes.
+ * Without a file every lookup returns null and country checks are skipped.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { parseIP } from './ip-matcher'
+
+const DEFAULT_DATABASE_PATH = path.join(process.cwd(), 'config', 'geoip', 'ip-country.csv')
+const RECHECK_INTERVAL_MS = 10 * 60 * 1000
+const MAPPED_V4_PREFIX = '00000000000000000000ffff'
+
+// Sorted, non-overlapping ranges per address family; keys are fixed-width hex so they compare as strings
+interface RangeTable {
+  starts: string[]
+  ends: string[]
+  countries: string[]
+}
+
+interface GeoIPDatabase {
+  v4: RangeTable
+  v6: RangeTable
+  mtime: number
+}
+
+let database: GeoIPDatabase | null = null
+let loading: Promise<GeoIPDatabase | null> | null = null
+let checkedAt = 0
+
+function toHex(bytes: number[]): string {
+  return bytes.map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+/** Comparable key for an address, or a decimal integer as used by IP2Location */
+function toKey(value: string): { version: 4 | 6; key: string } | null {
+  if (/^\d+$/.test(value)) {
+    const hex = BigInt(value).toString(16).padStart(32, '0')
+    if (hex.length > 32) return null
+    // IPv4 databases use plain 32-bit numbers, IPv6 ones cover IPv4 as ::ffff:a.b.c.d
+    if (hex.startsWith(MAPPED_V4_PREFIX) || BigInt(value) <= BigInt(0xffffffff)) return { version: 4, key: hex.slice(24) }
+    return { version: 6, key: hex }
+  }
+  const ip = parseIP(value)
+  return ip ? { version: ip.version, key: toHex(ip.bytes) } : null
+}
+
+function parseDatabase(csv: string, mtime: number): GeoIPDatabase {
+  const rows: Record<4 | 6, Array<[string, string, string]>> = { 4: [], 6: [] }
+
+  for (const line of csv.split(/\r?\n/)) {
+    if (!line || line.startsWith('#')) continue
+    const [startRaw, endRaw, countryRaw] = line.split(',').map(f => f.trim().replace(/^"|"$/g, ''))
+    const country = (countryRaw || '').toUpperCase()
+    if (!/^[A-Z]{2}$/.test(country) || country === 'ZZ') continue
+    const start = toKey(startRaw)
+    const end = toKey(endRaw)
+    if (!start || !end || start.version !== end.version) continue
+    rows[start.version].push([start.key, end.key, country])
+  }
+
+  const table = (list: Array<[string, string, string]>): RangeTable => {
+    list.sort((a, b) => (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0))
+    return { starts: list.map(r => r[0]), ends: list.map(r => r[1]), countries: list.map(r => r[2]) }
+  }
+  return { v4: table(rows[4]), v6: table(rows[6]), mtime }
+}
+
+export function getGeoIPDatabasePath(): string {
+  return process.env.GEOIP_DATABASE_PATH || DEFAULT_DATABASE_PATH
+}
+
+async function loadDatabase(): Promise<GeoIPDatabase | null> {
+  const file = getGeoIPDatabasePath()
+  try {
+    const stat = await fs.stat(file)
+    if (database && database.mtime === stat.mtimeMs) return database
+    database = parseDatabase(await fs.readFile(file, 'utf8'), stat.mtimeMs)
+    console.log(`GeoIP database loaded from ${file}: ${database.v4.starts.length} IPv4 and ${database.v6.starts.length} IPv6 ranges`)
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') console.error(`Failed to load GeoIP database from ${file}:`, error)
+    else if (database) console.warn(`GeoIP database ${file} was removed; country lookups are disabled`)
+    database = null
+  }
+  return database
+}
+
+async function getDatabase(): Promise<GeoIPDatabase | null> {
+  if (Date.now() - checkedAt < RECHECK_INTERVAL_MS) return loading ?? database
+  checkedAt = Date.now()
+  loading = loadDatabase().finally(() => { loading = null })
+  return loading
+}
+
+function findCountry(table: RangeTable, key: string): string | null {
+  // Last range starting at or before the key
+  let lo = 0
+  let hi = table.starts.length - 1
+  let found = -1
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1
+    if (table.starts[mid] <= key) {
+      found = mid
+      lo = mid + 1
+    } else {
+      hi = mid - 1
+    }
+  }
+  return found !== -1 && key <= table.ends[found] ? table.countries[found] : null
+}
+
+/**
+ * ISO 3166-1 alpha-2 country code for an address, or null when it is unknown, private or
+ * no GeoIP database is installed
+ */
+export async function lookupCountry(ipAddress?: string | null): Promise<string | null> {
+  if (!ipAddress) return null
+  const ip = parseIP(ipAddress)
+  if (!ip) return null
+  const db = await getDatabase()
+  if (!db) return null
+  return findCountry(ip.version === 4 ? db.v4 : db.v6, toHex(ip.bytes))
+}
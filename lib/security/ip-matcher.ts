@@ -0,0 +1,185 @@
+/**
+ * CythroDash - IP address and CIDR matching
+ *
+ * Parses IPv4 and IPv6 addresses and ranges into bytes and matches them with a binary
+ * prefix tree, one per address family. Lookups cost at most 32 (IPv4) or 128 (IPv6) steps
+ * no matter how many rules are loaded. IPv4-mapped IPv6 addresses (::ffff:1.2.3.4) are
+ * treated as IPv4. No Node-only APIs, so this also runs in the Edge middleware.
+ */
+
+export type IPVersion = 4 | 6
+
+export interface ParsedIP {
+  version: IPVersion
+  bytes: number[]
+}
+
+export interface ParsedCidr extends ParsedIP {
+  prefix: number
+  address: string // Canonical network address
+  cidr: string // Canonical form, host bits cleared (10.1.2.3/8 -> 10.0.0.0/8)
+  single: boolean // Prefix covers exactly one address
+}
+
+function parseIPv4(s: string): number[] | null {
+  const parts = s.split('.')
+  if (parts.length !== 4) return null
+  const bytes: number[] = []
+  for (const p of parts) {
+    if (!/^\d{1,3}$/.test(p)) return null
+    const n = Number(p)
+    if (n > 255) return null
+    bytes.push(n)
+  }
+  return bytes
+}
+
+function parseIPv6(s: string): number[] | null {
+  // Embedded IPv4 tail (::ffff:1.2.3.4, 64:ff9b::1.2.3.4)
+  let tail: number[] = []
+  const lastColon = s.lastIndexOf(':')
+  if (s.includes('.', lastColon)) {
+    const v4 = parseIPv4(s.slice(lastColon + 1))
+    if (!v4) return null
+    tail = v4
+    s = s.slice(0, lastColon + 1) + '0:0'
+  }
+
+  const halves = s.split('::')
+  if (halves.length > 2) return null
+  const toGroups = (h: string) => (h ? h.split(':') : [])
+  const head = toGroups(halves[0])
+  const rest = halves.length === 2 ? toGroups(halves[1]) : []
+  const missing = 8 - head.length - rest.length
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...rest]
+  const bytes: number[] = []
+  for (const g of groups) {
+    if (!/^[0-9a-f]{1,4}$/i.test(g)) return null
+    const n = parseInt(g, 16)
+    bytes.push(n >> 8, n & 0xff)
+  }
+  if (tail.length) bytes.splice(12, 4, ...tail)
+  return bytes
+}
+
+/** Parse an address; accepts [v6] brackets and strips IPv6 zone ids (fe80::1%eth0) */
+export function parseIP(input: string): ParsedIP | null {
+  let s = String(input || '').trim()
+  if (s.startsWith('[') && s.endsWith(']')) s = s.slice(1, -1)
+  if (!s) return null
+  if (!s.includes(':')) {
+    const v4 = parseIPv4(s)
+    return v4 ? { version: 4, bytes: v4 } : null
+  }
+  const v6 = parseIPv6(s.split('%')[0])
+  if (!v6) return null
+  const mapped = v6.slice(0, 10).every(b => b === 0) && v6[10] === 0xff && v6[11] === 0xff
+  return mapped ? { version: 4, bytes: v6.slice(12) } : { version: 6, bytes: v6 }
+}
+
+/** Parse an address or a range ("10.0.0.0/8", "2001:db8::/32"); a bare address is a /32 or /128 */
+export function parseCidr(input: string): ParsedCidr | null {
+  const s = String(input || '').trim()
+  const slash = s.indexOf('/')
+  const ip = parseIP(slash === -1 ? s : s.slice(0, slash))
+  if (!ip) return null
+
+  const maxBits = ip.version === 4 ? 32 : 128
+  let prefix = maxBits
+  if (slash !== -1) {
+    const bitsStr = s.slice(slash + 1)
+    if (!/^\d{1,3}$/.test(bitsStr)) return null
+    prefix = Number(bitsStr)
+    // A v4-mapped range given in IPv6 notation counts its prefix over the full 128 bits
+    if (ip.version === 4 && s.slice(0, slash).includes(':')) prefix -= 96
+    if (prefix < 0 || prefix > maxBits) return null
+  }
+
+  const bytes = ip.bytes.map((b, i) => {
+    const keep = Math.max(0, Math.min(8, prefix - i * 8))
+    return b & ((0xff << (8 - keep)) & 0xff)
+  })
+  const address = formatIP({ version: ip.version, bytes })
+  return {
+    version: ip.version,
+    bytes,
+    prefix,
+    address,
+    single: prefix === maxBits,
+    cidr: `${address}/${prefix}`
+  }
+}
+
+/** Canonical text form: dotted IPv4, RFC 5952 compressed lowercase IPv6 */
+export function formatIP(ip: ParsedIP): string {
+  if (ip.version === 4) return ip.bytes.join('.')
+  const groups: number[] = []
+  for (let i = 0; i < 16; i += 2) groups.push((ip.bytes[i] << 8) | ip.bytes[i + 1])
+
+  // Longest run of two or more zero groups becomes "::"
+  let bestStart = -1, bestLen = 1
+  for (let i = 0; i < 8;) {
+    if (groups[i] !== 0) { i++; continue }
+    let j = i
+    while (j < 8 && groups[j] === 0) j++
+    if (j - i > bestLen) { bestStart = i; bestLen = j - i }
+    i = j
+  }
+  const hex = groups.map(g => g.toString(16))
+  if (bestStart === -1) return hex.join(':')
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLen).join(':')}`
+}
+
+/** Canonical form of an address, or null if it is not one */
+export function normalizeIP(input: string): string | null {
+  const ip = parseIP(input)
+  return ip ? formatIP(ip) : null
+}
+
+interface TrieNode<T> {
+  children: [TrieNode<T> | undefined, TrieNode<T> | undefined]
+  value?: T
+}
+
+/**
+ * Binary prefix tree over IPv4 and IPv6 ranges. match() returns the values of every range
+ * containing the address, most specific first.
+ */
+export class IPPrefixTrie<T> {
+  private roots: Record<IPVersion, TrieNode<T>> = {
+    4: { children: [undefined, undefined] },
+    6: { children: [undefined, undefined] }
+  }
+  private count = 0
+
+  get size(): number {
+    return this.count
+  }
+
+  /** Add a range; a second value for the same range replaces the first */
+  insert(range: ParsedCidr, value: T): void {
+    let node = this.roots[range.version]
+    for (let i = 0; i < range.prefix; i++) {
+      const bit = (range.bytes[i >> 3] >> (7 - (i & 7))) & 1
+      node = node.children[bit] ||= { children: [undefined, undefined] }
+    }
+    if (node.value === undefined) this.count++
+    node.value = value
+  }
+
+  match(input: string | ParsedIP): T[] {
+    const ip = typeof input === 'string' ? parseIP(input) : input
+    if (!ip) return []
+    const found: T[] = []
+    let node: TrieNode<T> | undefined = this.roots[ip.version]
+    const bits = ip.bytes.length * 8
+    for (let i = 0; node; i++) {
+      if (node.value !== undefined) found.push(node.value)
+      if (i === bits) break
+      node = node.children[(ip.bytes[i >> 3] >> (7 - (i & 7))) & 1]
+    }
+    return found.reverse()
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Login lockout policy
+ * Values come from the security settings. After `max_attempts` failed logins, sign-in is locked
+ * for `duration_minutes`; every further lockout before a successful login multiplies that by
+ * `backoff_multiplier`, up to `max_duration_minutes`.
+ *
+ *   account  the whole account is locked, whichever address the next attempt comes from
+ *   ip       only the address that produced the failures is locked out of the account
+ */
+
+import { getPublicNumber, getPublicSetting } from '@/lib/public-settings'
+
+export type LockoutMode = 'account' | 'ip'
+
+export interface LockoutPolicy {
+  max_attempts: number
+  duration_minutes: number
+  backoff_multiplier: number
+  max_duration_minutes: number
+  mode: LockoutMode
+}
+
+export const DEFAULT_LOCKOUT_POLICY: LockoutPolicy = {
+  max_attempts: 5,
+  duration_minutes: 15,
+  backoff_multiplier: 2,
+  max_duration_minutes: 24 * 60,
+  mode: 'account',
+}
+
+function sanitize(value: unknown, fallback: number, min: number): number {
+  const n = typeof value === 'number' ? value : Number(value)
+  return Number.isFinite(n) && n >= min ? n : fallback
+}
+
+export async function getLockoutPolicy(): Promise<LockoutPolicy> {
+  const [maxAttempts, duration, multiplier, maxDuration, mode] = await Promise.all([
+    getPublicNumber('NEXT_PUBLIC_LOCKOUT_MAX_ATTEMPTS', DEFAULT_LOCKOUT_POLICY.max_attempts),
+    getPublicNumber('NEXT_PUBLIC_LOCKOUT_DURATION_MIN', DEFAULT_LOCKOUT_POLICY.duration_minutes),
+    getPublicNumber('NEXT_PUBLIC_LOCKOUT_BACKOFF_MULTIPLIER', DEFAULT_LOCKOUT_POLICY.backoff_multiplier),
+    getPublicNumber('NEXT_PUBLIC_LOCKOUT_MAX_DURATION_MIN', DEFAULT_LOCKOUT_POLICY.max_duration_minutes),
+    getPublicSetting<string>('NEXT_PUBLIC_LOCKOUT_MODE', DEFAULT_LOCKOUT_POLICY.mode),
+  ])
+  const duration_minutes = sanitize(duration, DEFAULT_LOCKOUT_POLICY.duration_minutes, 1)
+  return {
+    max_attempts: Math.floor(sanitize(maxAttempts, DEFAULT_LOCKOUT_POLICY.max_attempts, 1)),
+    duration_minutes,
+    backoff_multiplier: sanitize(multiplier, DEFAULT_LOCKOUT_POLICY.backoff_multiplier, 1),
+    max_duration_minutes: Math.max(duration_minutes, sanitize(maxDuration, DEFAULT_LOCKOUT_POLICY.max_duration_minutes, 1)),
+    mode: mode === 'ip' ? 'ip' : 'account',
+  }
+}
+
+/** Length of the nth consecutive lockout (n starts at 1) */
+export function lockoutDurationMinutes(policy: LockoutPolicy, lockoutNumber: number): number {
+  const n = Math.max(1, Math.floor(lockoutNumber))
+  return Math.min(policy.max_duration_minutes, policy.duration_minutes * Math.pow(policy.backoff_multiplier, n - 1))
+}
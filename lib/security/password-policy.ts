@@ -0,0 +1,122 @@
+/**
+ * Password policy
+ * Rules come from the security settings and apply wherever a password is chosen: registration,
+ * password changes and resets. `history_count` counts the current password, so 1 only blocks
+ * reusing it. A `max_age_days` of 0 disables forced rotation.
+ */
+
+import { getPublicFlag, getPublicNumber } from '@/lib/public-settings'
+import { SECURITY_CONFIG } from './config'
+
+export interface PasswordPolicy {
+  min_length: number
+  max_length: number
+  require_uppercase: boolean
+  require_lowercase: boolean
+  require_numbers: boolean
+  require_special: boolean
+  block_personal_info: boolean
+  history_count: number
+  max_age_days: number
+  breach_check: boolean
+}
+
+// Who the password belongs to, for the personal information rule
+export interface PasswordOwner {
+  username?: string
+  email?: string
+}
+
+const SPECIAL_CHARS = /[^A-Za-z0-9]/
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  min_length: SECURITY_CONFIG.PASSWORD.MIN_LENGTH,
+  max_length: SECURITY_CONFIG.PASSWORD.MAX_LENGTH,
+  require_uppercase: SECURITY_CONFIG.PASSWORD.REQUIRE_UPPERCASE,
+  require_lowercase: SECURITY_CONFIG.PASSWORD.REQUIRE_LOWERCASE,
+  require_numbers: SECURITY_CONFIG.PASSWORD.REQUIRE_NUMBERS,
+  require_special: SECURITY_CONFIG.PASSWORD.REQUIRE_SPECIAL_CHARS,
+  block_personal_info: SECURITY_CONFIG.PASSWORD.BLOCK_PERSONAL_INFO,
+  history_count: SECURITY_CONFIG.PASSWORD.HISTORY_COUNT,
+  max_age_days: SECURITY_CONFIG.PASSWORD.MAX_AGE_DAYS,
+  breach_check: SECURITY_CONFIG.PASSWORD.BREACH_CHECK,
+}
+
+function wholeNumber(value: number | undefined, fallback: number, min: number, max: number): number {
+  const n = typeof value === 'number' && Number.isFinite(value) ? Math.floor(value) : fallback
+  return Math.min(max, Math.max(min, n))
+}
+
+export async function getPasswordPolicy(): Promise<PasswordPolicy> {
+  const d = DEFAULT_PASSWORD_POLICY
+  const [minLength, upper, lower, numbers, special, personal, history, maxAge, breach] = await Promise.all([
+    getPublicNumber('NEXT_PUBLIC_PASSWORD_MIN_LENGTH', d.min_length),
+    getPublicFlag('NEXT_PUBLIC_PASSWORD_REQUIRE_UPPERCASE', d.require_uppercase),
+    getPublicFlag('NEXT_PUBLIC_PASSWORD_REQUIRE_LOWERCASE', d.require_lowercase),
+    getPublicFlag('NEXT_PUBLIC_PASSWORD_REQUIRE_NUMBERS', d.require_numbers),
+    getPublicFlag('NEXT_PUBLIC_PASSWORD_REQUIRE_SPECIAL', d.require_special),
+    getPublicFlag('NEXT_PUBLIC_PASSWORD_BLOCK_PERSONAL_INFO', d.block_personal_info),
+    getPublicNumber('NEXT_PUBLIC_PASSWORD_HISTORY_COUNT', d.history_count),
+    getPublicNumber('NEXT_PUBLIC_PASSWORD_MAX_AGE_DAYS', d.max_age_days),
+    getPublicFlag('NEXT_PUBLIC_PASSWORD_BREACH_CHECK', d.breach_check),
+  ])
+  return {
+    min_length: wholeNumber(minLength, d.min_length, 1, d.max_length),
+    max_length: d.max_length,
+    require_uppercase: upper,
+    require_lowercase: lower,
+    require_numbers: numbers,
+    require_special: special,
+    block_personal_info: personal,
+    history_count: wholeNumber(history, d.history_count, 0, SECURITY_CONFIG.PASSWORD.HISTORY_LIMIT),
+    max_age_days: wholeNumber(maxAge, d.max_age_days, 0, 3650),
+    breach_check: breach,
+  }
+}
+
+/**
+ * Length, character class and personal information rules; the breached list and password
+ * history need I/O and are checked by the caller
+ */
+export function checkPasswordRules(password: string, policy: PasswordPolicy, owner: PasswordOwner = {}): string[] {
+  const errors: string[] = []
+
+  if (password.length < policy.min_length) {
+    errors.push(`Password must be at least ${policy.min_length} characters long`)
+  }
+  if (password.length > policy.max_length) {
+    errors.push(`Password must be less than ${policy.max_length} characters`)
+  }
+  if (policy.require_uppercase && !/[A-Z]/.test(password)) {
+    errors.push('Password must contain at least one uppercase letter')
+  }
+  if (policy.require_lowercase && !/[a-z]/.test(password)) {
+    errors.push('Password must contain at least one lowercase letter')
+  }
+  if (policy.require_numbers && !/\d/.test(password)) {
+    errors.push('Password must contain at least one number')
+  }
+  if (policy.require_special && !SPECIAL_CHARS.test(password)) {
+    errors.push('Password must contain at least one special character')
+  }
+
+  if (policy.block_personal_info) {
+    const lowered = password.toLowerCase()
+    const parts = [owner.username, owner.email?.split('@')[0]]
+      .map(p => (p || '').toLowerCase())
+      .filter(p => p.length >= 3)
+    if (parts.some(p => lowered.includes(p))) {
+      errors.push('Password must not contain your username or email address')
+    }
+  }
+
+  return errors
+}
+
+/**
+ * When a password set at `changedAt` stops being accepted, or null if it never expires
+ */
+export function passwordExpiresAt(policy: PasswordPolicy, changedAt?: Date | null): Date | null {
+  if (!policy.max_age_days || !changedAt) return null
+  return new Date(new Date(changedAt).getTime() + policy.max_age_days * 24 * 60 * 60 * 1000)
+}
@@ -0,0 +1,244 @@
+/**
+ * CythroDash - Shared Rate Limiter
+ *
+ * Sliding-window rate limiting for API routes. Policies live in SECURITY_CONFIG.RATE_LIMIT;
+ * counters are kept in MongoDB so limits hold across restarts and instances
+ * (RATE_LIMIT_STORE=memory keeps them per process instead).
+ *
+ * Each window is approximated from two fixed buckets: the current bucket's count plus the
+ * previous bucket's count weighted by how much of it still overlaps the sliding window.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { SECURITY_CONFIG, RateLimitKeyType, RateLimitPolicyConfig, getClientIP } from './config'
+import { normalizeIP } from './ip-matcher'
+import { getPublicNumber } from '@/lib/public-settings'
+import rateLimitsOperations from '@/hooks/managers/database/rate-limits'
+import { ipBlockRulesOperations } from '@/hooks/managers/database/ip-block-rules'
+import { SecurityLogsController } from '@/hooks/managers/controller/Security/Logs'
+import { SecurityLogAction, SecurityLogSeverity } from '@/database/tables/cythro_dash_users_logs'
+
+export type RateLimitPolicyName = keyof typeof SECURITY_CONFIG.RATE_LIMIT
+
+export interface RateLimitStore {
+  /** Add `amount` to the key's counter for the window starting at `windowStart`; returns the new count */
+  increment(key: string, windowStart: number, windowMs: number, amount?: number): Promise<number>
+  get(key: string, windowStart: number): Promise<number>
+  reset(key: string): Promise<void>
+}
+
+export interface RateLimitOptions {
+  user_id?: number
+  scope?: string // Counts this route apart from other routes sharing the policy
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  policy: RateLimitPolicyName
+  limit: number // Of the window closest to its limit
+  remaining: number
+  reset: number // Seconds until that window's current bucket ends, or until it has room again once full
+  retry_after?: number // Seconds; only when not allowed
+  windows: RateLimitPolicyConfig['WINDOWS']
+}
+
+/** Per-process counters; used when RATE_LIMIT_STORE=memory and whenever MongoDB is unreachable */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>()
+  private lastSweep = 0
+
+  async increment(key: string, windowStart: number, windowMs: number, amount = 1): Promise<number> {
+    this.sweep()
+    const id = `${key}@${windowStart}`
+    const counter = this.counters.get(id) || { count: 0, expiresAt: windowStart + 2 * windowMs }
+    counter.count += amount
+    this.counters.set(id, counter)
+    return counter.count
+  }
+
+  async get(key: string, windowStart: number): Promise<number> {
+    return this.counters.get(`${key}@${windowStart}`)?.count ?? 0
+  }
+
+  async reset(key: string): Promise<void> {
+    for (const id of Array.from(this.counters.keys())) {
+      if (id.startsWith(`${key}@`)) this.counters.delete(id)
+    }
+  }
+
+  private sweep() {
+    const now = Date.now()
+    if (now - this.lastSweep < 60 * 1000) return
+    this.lastSweep = now
+    this.counters.forEach((counter, id) => {
+      if (counter.expiresAt < now) this.counters.delete(id)
+    })
+  }
+}
+
+const mongoStore: RateLimitStore = {
+  increment: (key, windowStart, windowMs, amount) => rateLimitsOperations.increment(key, windowStart, windowMs, amount),
+  get: (key, windowStart) => rateLimitsOperations.getCount(key, windowStart),
+  reset: (key) => rateLimitsOperations.reset(key)
+}
+
+const fallbackStore = new MemoryRateLimitStore()
+let store: RateLimitStore = process.env.RATE_LIMIT_STORE === 'memory' ? fallbackStore : mongoStore
+
+/** Replace the counter storage (e.g. with a Redis-backed store) */
+export function setRateLimitStore(next: RateLimitStore) {
+  store = next
+}
+
+// A limiter that cannot reach its store still limits per process rather than failing the request
+async function withFallback<T>(op: (s: RateLimitStore) => Promise<T>): Promise<T> {
+  if (store === fallbackStore) return op(fallbackStore)
+  try {
+    return await op(store)
+  } catch (e) {
+    console.warn('Rate limit store unavailable, using in-memory counters:', e)
+    return op(fallbackStore)
+  }
+}
+
+async function getPolicy(name: RateLimitPolicyName): Promise<RateLimitPolicyConfig> {
+  const policy: RateLimitPolicyConfig = SECURITY_CONFIG.RATE_LIMIT[name]
+  if (name !== 'API') return policy
+  const perMinute = await getPublicNumber('NEXT_PUBLIC_RATE_LIMIT', policy.WINDOWS[0].MAX_REQUESTS)
+  if (!perMinute || perMinute < 1) return policy
+  return { ...policy, WINDOWS: [{ MAX_REQUESTS: Math.floor(perMinute), WINDOW_MS: 60 * 1000 }] }
+}
+
+function identifiers(request: NextRequest, policy: RateLimitPolicyConfig, options: RateLimitOptions) {
+  const ids: Array<{ type: RateLimitKeyType; id: string }> = []
+  for (const type of policy.BY) {
+    if (type === 'ip') {
+      const ip = getClientIP(request).trim()
+      ids.push({ type, id: normalizeIP(ip) || ip })
+    } else if (options.user_id) {
+      ids.push({ type, id: String(options.user_id) })
+    }
+  }
+  return ids
+}
+
+function counterKey(scope: string, type: RateLimitKeyType, id: string, windowMs: number) {
+  return `${scope}:${type}:${id}:${windowMs}`
+}
+
+// Seconds from `elapsed` into the current bucket until one more request fits the window
+function secondsUntilRoom(previous: number, current: number, limit: number, elapsed: number, windowMs: number) {
+  let ms: number
+  if (current + 1 <= limit) {
+    ms = previous > 0 ? windowMs * (1 - (limit - current - 1) / previous) - elapsed : 0
+  } else {
+    // The current bucket alone is full: wait for it to become the previous one and decay
+    ms = windowMs - elapsed + windowMs * (1 - (limit - 1) / current)
+  }
+  return Math.max(0, Math.ceil(ms / 1000))
+}
+
+/**
+ * Count a request against a policy and report whether it may proceed. Rejected requests are
+ * not counted, and are written to the security log (or, without a user, fed straight to the
+ * automatic IP block rules).
+ */
+export async function checkRateLimit(request: NextRequest, name: RateLimitPolicyName, options: RateLimitOptions = {}): Promise<RateLimitResult> {
+  const policy = await getPolicy(name)
+  const scope = options.scope || name
+  const now = Date.now()
+  const counted: Array<{ key: string; windowStart: number; windowMs: number }> = []
+  let tightest: { limit: number; remaining: number; reset: number } | null = null
+  let blocked = false
+
+  for (const { type, id } of identifiers(request, policy, options)) {
+    for (const window of policy.WINDOWS) {
+      const key = counterKey(scope, type, id, window.WINDOW_MS)
+      const windowStart = Math.floor(now / window.WINDOW_MS) * window.WINDOW_MS
+      const elapsed = now - windowStart
+      const [current, previous] = await withFallback(s => Promise.all([
+        s.increment(key, windowStart, window.WINDOW_MS),
+        s.get(key, windowStart - window.WINDOW_MS)
+      ]))
+      counted.push({ key, windowStart, windowMs: window.WINDOW_MS })
+
+      const estimate = previous * (1 - elapsed / window.WINDOW_MS) + current
+      const over = estimate > window.MAX_REQUESTS
+      // Room left and wait time as seen before this request was counted
+      const remaining = Math.max(0, Math.floor(window.MAX_REQUESTS - estimate + (over ? 1 : 0)))
+      const reset = remaining > 0
+        ? Math.ceil((window.WINDOW_MS - elapsed) / 1000)
+        : secondsUntilRoom(previous, current - (over ? 1 : 0), window.MAX_REQUESTS, elapsed, window.WINDOW_MS)
+      if (!tightest || remaining < tightest.remaining || (remaining === tightest.remaining && reset > tightest.reset)) {
+        tightest = { limit: window.MAX_REQUESTS, remaining, reset }
+      }
+      if (over) blocked = true
+    }
+  }
+
+  const result: RateLimitResult = {
+    allowed: !blocked,
+    policy: name,
+    limit: tightest?.limit ?? policy.WINDOWS[0].MAX_REQUESTS,
+    remaining: tightest?.remaining ?? policy.WINDOWS[0].MAX_REQUESTS,
+    reset: tightest?.reset ?? 0,
+    windows: policy.WINDOWS
+  }
+  if (result.allowed) return result
+
+  result.remaining = 0
+  result.retry_after = Math.max(1, result.reset)
+  await withFallback(s => Promise.all(counted.map(c => s.increment(c.key, c.windowStart, c.windowMs, -1))))
+  await logRateLimitExceeded(request, result, options)
+  return result
+}
+
+/** Forget every counter for this request's keys, e.g. after a successful login */
+export async function resetRateLimit(request: NextRequest, name: RateLimitPolicyName, options: RateLimitOptions = {}): Promise<void> {
+  const policy = await getPolicy(name)
+  const scope = options.scope || name
+  const keys = identifiers(request, policy, options)
+    .flatMap(({ type, id }) => policy.WINDOWS.map(w => counterKey(scope, type, id, w.WINDOW_MS)))
+  await withFallback(s => Promise.all(keys.map(key => s.reset(key))))
+}
+
+/** Standard RateLimit-* headers (and Retry-After once limited) for a response */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.reset),
+    'RateLimit-Policy': result.windows.map(w => `${w.MAX_REQUESTS};w=${Math.round(w.WINDOW_MS / 1000)}`).join(', ')
+  }
+  if (result.retry_after !== undefined) headers['Retry-After'] = String(result.retry_after)
+  return headers
+}
+
+/** 429 response for a rejected request */
+export function rateLimitExceededResponse(result: RateLimitResult, message = 'Too many requests. Please try again later.'): NextResponse {
+  return NextResponse.json({
+    success: false,
+    message,
+    error: 'RATE_LIMITED',
+    retry_after: result.retry_after
+  }, { status: 429, headers: rateLimitHeaders(result) })
+}
+
+async function logRateLimitExceeded(request: NextRequest, result: RateLimitResult, options: RateLimitOptions) {
+  const ip = getClientIP(request).trim()
+  const path = new URL(request.url).pathname
+  if (!options.user_id) {
+    // Security logs belong to a user; anonymous violations still count toward IP block rules
+    await ipBlockRulesOperations.recordEvent({ trigger: 'rate_limit', ip_address: ip })
+    return
+  }
+  await SecurityLogsController.createLog({
+    user_id: options.user_id,
+    action: SecurityLogAction.API_RATE_LIMIT_EXCEEDED,
+    severity: SecurityLogSeverity.LOW,
+    description: `Rate limit exceeded on ${request.method} ${path}`,
+    details: { policy: result.policy, scope: options.scope, limit: result.limit, retry_after: result.retry_after },
+    ip_address: ip,
+    user_agent: request.headers.get('user-agent') || undefined
+  })
+}
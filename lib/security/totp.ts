@@ -0,0 +1,119 @@
+/**
+ * CythroDash - TOTP (RFC 6238) helpers
+ *
+ * Compatible with Google Authenticator, Authy, 1Password and similar apps:
+ * SHA-1, 6 digits, 30 second period.
+ */
+
+import crypto from 'crypto'
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+const TOTP_DIGITS = 6
+const TOTP_PERIOD_SECONDS = 30
+// Accept one step of clock drift in either direction
+const TOTP_WINDOW = 1
+
+export const BACKUP_CODE_COUNT = 10
+
+function base32Encode(buf: Buffer): string {
+  let bits = 0
+  let value = 0
+  let out = ''
+  for (const byte of buf) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  return out
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+  for (const ch of clean) {
+    const idx = BASE32_ALPHABET.indexOf(ch)
+    if (idx === -1) throw new Error('Invalid base32 character')
+    value = (value << 5) | idx
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+function hotp(key: Buffer, counter: number): string {
+  const msg = Buffer.alloc(8)
+  msg.writeBigUInt64BE(BigInt(counter))
+  const hmac = crypto.createHmac('sha1', key).update(msg).digest()
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS
+  return code.toString().padStart(TOTP_DIGITS, '0')
+}
+
+/**
+ * Generate a new random base32 secret (160 bits, as recommended by RFC 4226)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20))
+}
+
+/**
+ * Build the otpauth:// URI that authenticator apps scan from a QR code
+ */
+export function buildOtpAuthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`)
+  // Some authenticator apps do not decode "+" as a space, so avoid URLSearchParams here
+  const params = [
+    `secret=${secret}`,
+    `issuer=${encodeURIComponent(issuer)}`,
+    'algorithm=SHA1',
+    `digits=${TOTP_DIGITS}`,
+    `period=${TOTP_PERIOD_SECONDS}`
+  ].join('&')
+  return `otpauth://totp/${label}?${params}`
+}
+
+/**
+ * The time step a 6 digit code belongs to, allowing for small clock drift, or null if it does
+ * not match. Callers store the step so the same code cannot be accepted twice.
+ */
+export function matchTotpStep(secret: string, code: string, now: number = Date.now()): number | null {
+  const normalized = (code || '').replace(/\s/g, '')
+  if (!/^\d{6}$/.test(normalized)) return null
+
+  let key: Buffer
+  try { key = base32Decode(secret) } catch { return null }
+
+  const counter = Math.floor(now / 1000 / TOTP_PERIOD_SECONDS)
+  for (let i = -TOTP_WINDOW; i <= TOTP_WINDOW; i++) {
+    const expected = hotp(key, counter + i)
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) return counter + i
+  }
+  return null
+}
+
+/**
+ * Generate one-time backup codes in the form xxxxx-xxxxx
+ */
+export function generateBackupCodes(count: number = BACKUP_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = crypto.randomBytes(5).toString('hex')
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`
+  })
+}
+
+/**
+ * Backup codes are stored hashed; normalise case and separators before hashing
+ */
+export function hashBackupCode(code: string): string {
+  const normalized = (code || '').toLowerCase().replace(/[^a-f0-9]/g, '')
+  return crypto.createHash('sha256').update(normalized).digest('hex')
+}
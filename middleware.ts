@@ -1,17 +1,19 @@
 /**
- * Root Middleware - applies IP blocking checks to all API routes
+ * Root Middleware - applies IP blocking checks to API routes and security headers to every response
  */
 
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest } from 'next/server'
 import { checkIPBlocked } from './middleware/ip-blocking'
+import { nextWithSecurityHeaders } from './middleware/security-headers'
+import { applySecurityHeaders } from './lib/security/csp'
 
 export async function middleware(req: NextRequest) {
   const blocked = await checkIPBlocked(req)
-  if (blocked) return blocked
-  return NextResponse.next()
+  if (blocked) return applySecurityHeaders(blocked)
+  return nextWithSecurityHeaders(req)
 }
 
 export const config = {
-  matcher: ['/api/:path*']
+  // Everything except build assets, which are served with their own caching headers
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)']
 }
-
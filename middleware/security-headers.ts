@@ -0,0 +1,43 @@
+/**
+ * CythroDash - Security Headers Middleware (Edge-compatible)
+ * Pages get a per-request nonce CSP; settings-derived sources are fetched from a Node.js API
+ * route and cached, since MongoDB is not available in the Edge runtime.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { SECURITY_CONFIG } from '@/lib/security/config'
+import { CspSources, EMPTY_CSP_SOURCES, applySecurityHeaders, buildPagePolicy, cspHeaderName, generateNonce } from '@/lib/security/csp'
+
+let cachedSources: { sources: CspSources; expires: number } | null = null
+
+async function getCspSources(origin: string): Promise<CspSources> {
+  if (cachedSources && cachedSources.expires > Date.now()) return cachedSources.sources
+  let sources = cachedSources?.sources ?? EMPTY_CSP_SOURCES
+  try {
+    const res = await fetch(`${origin}/api/internal/csp-sources`, { cache: 'no-store' as any })
+    if (res.ok) sources = await res.json()
+  } catch {
+    // Keep the last known sources rather than failing the page
+  }
+  cachedSources = { sources, expires: Date.now() + SECURITY_CONFIG.CSP.SOURCES_CACHE_TTL }
+  return sources
+}
+
+/**
+ * Continue the request with security headers. Page requests carry the CSP and its nonce in
+ * the request headers too, which is where Next.js reads the nonce for its own scripts.
+ */
+export async function nextWithSecurityHeaders(req: NextRequest): Promise<NextResponse> {
+  const url = new URL(req.url)
+  if (url.pathname.startsWith('/api/')) {
+    return applySecurityHeaders(NextResponse.next())
+  }
+
+  const nonce = generateNonce()
+  const policy = buildPagePolicy(nonce, await getCspSources(url.origin))
+  const requestHeaders = new Headers(req.headers)
+  requestHeaders.set('x-nonce', nonce)
+  requestHeaders.set(cspHeaderName(), policy)
+
+  return applySecurityHeaders(NextResponse.next({ request: { headers: requestHeaders } }), policy)
+}
@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 /**
- * CythroDash CLI: cythrodash [setup|newadmin|build|start|setup:all|install]
+ * CythroDash CLI: cythrodash [setup|newadmin|build|start|setup:all|install|reconcile-ledger]
  */
 
 const { spawn } = require('child_process')
@@ -52,8 +52,11 @@ async function main() {
     case 'upgrade':
       run('node', ['scripts/upgrade.js', ...rest])
       break
+    case 'reconcile-ledger':
+      run('node', ['scripts/reconcile-ledger.js', ...rest])
+      break
     default:
-      console.log('Usage: cythrodash <status|setup|newadmin|build|start|setup:all|install|upgrade>')
+      console.log('Usage: cythrodash <status|setup|newadmin|build|start|setup:all|install|upgrade|reconcile-ledger>')
       process.exit(1)
   }
 }
@@ -121,6 +121,7 @@ async function main() {
       last_name,
       password: passwordHash,
       role: 0, // ADMIN
+      role_id: 'superadmin',
       verified: true,
       verified_at: now,
       two_factor_enabled: false,
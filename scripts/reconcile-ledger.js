@@ -0,0 +1,179 @@
+#!/usr/bin/env node
+/**
+ * cythrodash reconcile-ledger
+ * Replays cythro_dash_rewards_ledger per user and reports users whose stored coins or
+ * lifetime totals disagree with it. Same rules as hooks/managers/database/ledger-reconciliation.ts.
+ *
+ * Usage: cythrodash reconcile-ledger [--user <id>] [--all] [--format json|csv] [--out <file>] [--apply]
+ */
+
+const fs = require('fs')
+const { MongoClient } = require('mongodb')
+const { colorize } = require('./lib/version')
+const { getConfigSync } = require('../database/config-manager.js')
+
+const CSV_COLUMNS = [
+  'user_id', 'username', 'entries',
+  'stored_coins', 'ledger_coins', 'coins_diff',
+  'stored_earned', 'ledger_earned', 'earned_diff',
+  'stored_spent', 'ledger_spent', 'spent_diff',
+  'status', 'correction_entry_id',
+]
+
+function parseArgs(argv) {
+  const opts = { format: 'json', all: false, apply: false }
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i]
+    if (a === '--user') opts.user = parseInt(argv[++i], 10)
+    else if (a === '--format') opts.format = argv[++i]
+    else if (a === '--out') opts.out = argv[++i]
+    else if (a === '--all') opts.all = true
+    else if (a === '--apply') opts.apply = true
+    else if (a === '--help' || a === '-h') opts.help = true
+    else throw new Error(`Unknown option: ${a}`)
+  }
+  if (opts.user !== undefined && !(opts.user > 0)) throw new Error('--user expects a numeric user id')
+  if (!['json', 'csv'].includes(opts.format)) throw new Error('--format must be json or csv')
+  return opts
+}
+
+function csvCell(value) {
+  if (value === undefined || value === null) return ''
+  const s = String(value)
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+function toCsv(report) {
+  const lines = [CSV_COLUMNS.join(',')]
+  for (const row of report.rows) lines.push(CSV_COLUMNS.map(c => csvCell(row[c])).join(','))
+  return lines.join('\n') + '\n'
+}
+
+async function replay(ledger, userId) {
+  const isReversal = { $ne: [{ $type: '$reverses_entry_id' }, 'missing'] }
+  const pipeline = []
+  if (userId !== undefined) pipeline.push({ $match: { user_id: userId } })
+  pipeline.push({
+    $group: {
+      _id: '$user_id',
+      coins: { $sum: '$delta' },
+      entries: { $sum: 1 },
+      earned: { $sum: { $cond: [isReversal, { $min: ['$delta', 0] }, { $max: ['$delta', 0] }] } },
+      spent: { $sum: { $cond: [isReversal, { $multiply: [{ $max: ['$delta', 0] }, -1] }, { $multiply: [{ $min: ['$delta', 0] }, -1] }] } },
+    },
+  })
+  const map = new Map()
+  for await (const g of ledger.aggregate(pipeline)) map.set(g._id, g)
+  return map
+}
+
+// Corrections never move coins: record the unexplained difference and reset totals to the replay
+async function correct(users, ledger, row) {
+  const diff = row.coins_diff
+  const res = await users.updateOne(
+    { id: row.user_id, coins: row.stored_coins },
+    { $set: { total_coins_earned: row.ledger_earned + Math.max(diff, 0), total_coins_spent: row.ledger_spent + Math.max(-diff, 0), updated_at: new Date() } }
+  )
+  if (res.matchedCount === 0) return 'skipped'
+  if (diff !== 0) {
+    const last = await ledger.find({}, { projection: { id: 1 } }).sort({ id: -1 }).limit(1).toArray()
+    const id = (last[0]?.id ?? 0) + 1
+    await ledger.insertOne({
+      id,
+      user_id: row.user_id,
+      delta: diff,
+      balance_before: row.ledger_coins,
+      balance_after: row.stored_coins,
+      source_category: 'admin_adjustment',
+      source_action: 'adjust',
+      reference_id: 'reconciliation:cli',
+      message: 'Ledger reconciliation: balance not explained by ledger history',
+      created_at: new Date(),
+    })
+    row.correction_entry_id = id
+  }
+  return 'corrected'
+}
+
+async function main() {
+  let opts
+  try {
+    opts = parseArgs(process.argv.slice(2))
+  } catch (e) {
+    console.error(e.message)
+    process.exit(1)
+  }
+  if (opts.help) {
+    console.log('Usage: cythrodash reconcile-ledger [--user <id>] [--all] [--format json|csv] [--out <file>] [--apply]')
+    return
+  }
+
+  const uri = getConfigSync('database.uri', process.env.MONGODB_URI)
+  if (!uri) {
+    console.error('Database URI not configured')
+    process.exit(1)
+  }
+
+  const client = new MongoClient(uri)
+  try {
+    await client.connect()
+    const db = client.db()
+    const users = db.collection('cythro_dash_users')
+    const ledger = db.collection('cythro_dash_rewards_ledger')
+
+    const totals = await replay(ledger, opts.user)
+    const report = { generated_at: new Date(), users_checked: 0, mismatched: 0, corrected: 0, skipped: 0, rows: [] }
+    const filter = opts.user !== undefined ? { id: opts.user } : {}
+    const cursor = users.find(filter, { projection: { id: 1, username: 1, coins: 1, total_coins_earned: 1, total_coins_spent: 1 } }).sort({ id: 1 })
+
+    for await (const u of cursor) {
+      report.users_checked++
+      const t = totals.get(u.id) || { coins: 0, earned: 0, spent: 0, entries: 0 }
+      const row = {
+        user_id: u.id,
+        username: u.username,
+        entries: t.entries,
+        stored_coins: u.coins || 0,
+        ledger_coins: t.coins,
+        coins_diff: (u.coins || 0) - t.coins,
+        stored_earned: u.total_coins_earned || 0,
+        ledger_earned: t.earned,
+        earned_diff: (u.total_coins_earned || 0) - t.earned,
+        stored_spent: u.total_coins_spent || 0,
+        ledger_spent: t.spent,
+        spent_diff: (u.total_coins_spent || 0) - t.spent,
+        status: 'ok',
+      }
+      if (row.coins_diff !== 0 || row.earned_diff !== 0 || row.spent_diff !== 0) {
+        row.status = 'mismatch'
+        report.mismatched++
+        if (opts.apply) {
+          row.status = await correct(users, ledger, row)
+          if (row.status === 'corrected') report.corrected++
+          else report.skipped++
+        }
+      }
+      if (row.status !== 'ok' || opts.all) report.rows.push(row)
+    }
+
+    const output = opts.format === 'csv' ? toCsv(report) : JSON.stringify(report, null, 2) + '\n'
+    if (opts.out) {
+      fs.writeFileSync(opts.out, output)
+      console.log(`Report written to ${opts.out}`)
+    } else {
+      process.stdout.write(output)
+    }
+
+    // Summary goes to stderr so stdout stays a clean export
+    const color = report.mismatched === 0 ? 'green' : (opts.apply ? 'yellow' : 'red')
+    console.error(colorize(`Checked ${report.users_checked} user(s): ${report.mismatched} mismatched${opts.apply ? `, ${report.corrected} corrected, ${report.skipped} skipped` : ''}`, color))
+    if (report.mismatched > 0 && !opts.apply) process.exitCode = 2
+  } catch (e) {
+    console.error(e?.message || e)
+    process.exitCode = 1
+  } finally {
+    await client.close().catch(() => {})
+  }
+}
+
+main()
@@ -7,6 +7,7 @@
 import React from 'react'
 import { create } from 'zustand'
 import { useAuthStore } from './user-store'
+import { apiFetch } from '@/lib/api-fetch'
 
 export interface IntegrationSettings {
   discord: {
@@ -44,24 +45,9 @@ interface AdminIntegrationsState {
   clearError: () => void
 }
 
-// Helper function to get admin auth headers
-function getAdminAuthHeaders(): HeadersInit {
-  const base: HeadersInit = { 'Content-Type': 'application/json' }
-  try {
-    const currentUser = useAuthStore.getState().currentUser
-    if (currentUser && currentUser.id && currentUser.username && currentUser.email) {
-      return { 
-        ...base, 
-        'x-user-data': encodeURIComponent(JSON.stringify({ 
-          id: currentUser.id, 
-          username: currentUser.username, 
-          email: currentUser.email, 
-          role: currentUser.role 
-        })) 
-      }
-    }
-  } catch {}
-  return base
+// The session cookie authenticates admin requests; apiFetch adds the CSRF token
+function jsonHeaders(): HeadersInit {
+  return { 'Content-Type': 'application/json' }
 }
 
 export const useAdminIntegrationsStore = create<AdminIntegrationsState>((set, get) => ({
@@ -84,13 +70,9 @@ export const useAdminIntegrationsStore = create<AdminIntegrationsState>((set, ge
     set({ loading: true, error: null })
 
     try {
-      const headers = getAdminAuthHeaders()
-      console.log('Loading integration settings with headers:', { 
-        ...headers, 
-        'x-user-data': (headers as any)['x-user-data'] ? '[REDACTED]' : undefined 
-      })
+      const headers = jsonHeaders()
 
-      const response = await fetch('/api/admin/integrations', {
+      const response = await apiFetch('/api/admin/integrations', {
         method: 'GET',
         headers,
         credentials: 'include'
@@ -129,8 +111,8 @@ export const useAdminIntegrationsStore = create<AdminIntegrationsState>((set, ge
     if (!state.settings) return false
 
     try {
-      const headers = getAdminAuthHeaders()
-      const response = await fetch('/api/admin/integrations', {
+      const headers = jsonHeaders()
+      const response = await apiFetch('/api/admin/integrations', {
         method: 'PATCH',
         headers,
         credentials: 'include',
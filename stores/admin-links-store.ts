@@ -1,4 +1,5 @@
 import { create } from 'zustand'
+import { apiFetch } from '@/lib/api-fetch'
 
 export type ShortLink = {
   id: number
@@ -43,12 +44,9 @@ export const useAdminLinksStore = create<State>((set, get) => ({
       params.set('limit', String(state.perPage))
       if (state.search) params.set('search', state.search)
 
-      const { useAuthStore } = await import('@/stores/user-store')
-      const u = useAuthStore.getState().currentUser
       const headers: HeadersInit = { 'Content-Type': 'application/json' }
-      if (u) headers['x-user-data'] = encodeURIComponent(JSON.stringify({ id: u.id, username: u.username, email: u.email, role: u.role }))
 
-      const res = await fetch(`/api/admin/links?${params.toString()}`, { headers, credentials: 'include' })
+      const res = await apiFetch(`/api/admin/links?${params.toString()}`, { headers, credentials: 'include' })
       const json = await res.json()
       if (!json.success) { set({ loading: false, error: json.message || 'Failed to fetch' }); return false }
       set({ items: json.items || [], total: json.total || 0, loading: false })
@@ -60,11 +58,8 @@ export const useAdminLinksStore = create<State>((set, get) => ({
   create: async (payload) => {
     try {
       set({ loading: true, error: undefined })
-      const { useAuthStore } = await import('@/stores/user-store')
-      const u = useAuthStore.getState().currentUser
       const headers: HeadersInit = { 'Content-Type': 'application/json' }
-      if (u) headers['x-user-data'] = encodeURIComponent(JSON.stringify({ id: u.id, username: u.username, email: u.email, role: u.role }))
-      const res = await fetch('/api/admin/links', { method: 'POST', headers, credentials: 'include', body: JSON.stringify(payload) })
+      const res = await apiFetch('/api/admin/links', { method: 'POST', headers, credentials: 'include', body: JSON.stringify(payload) })
       const json = await res.json()
       if (!json.success) { set({ loading: false, error: json.message || 'Failed to create' }); return false }
       await get().fetch()
@@ -74,11 +69,8 @@ export const useAdminLinksStore = create<State>((set, get) => ({
   update: async (id, updates) => {
     try {
       set({ loading: true, error: undefined })
-      const { useAuthStore } = await import('@/stores/user-store')
-      const u = useAuthStore.getState().currentUser
       const headers: HeadersInit = { 'Content-Type': 'application/json' }
-      if (u) headers['x-user-data'] = encodeURIComponent(JSON.stringify({ id: u.id, username: u.username, email: u.email, role: u.role }))
-      const res = await fetch(`/api/admin/links/${id}`, { method: 'PUT', headers, credentials: 'include', body: JSON.stringify(updates) })
+      const res = await apiFetch(`/api/admin/links/${id}`, { method: 'PUT', headers, credentials: 'include', body: JSON.stringify(updates) })
       const json = await res.json()
       if (!json.success) { set({ loading: false, error: json.message || 'Failed to update' }); return false }
       await get().fetch()
@@ -88,11 +80,8 @@ export const useAdminLinksStore = create<State>((set, get) => ({
   remove: async (id) => {
     try {
       set({ loading: true, error: undefined })
-      const { useAuthStore } = await import('@/stores/user-store')
-      const u = useAuthStore.getState().currentUser
       const headers: HeadersInit = { 'Content-Type': 'application/json' }
-      if (u) headers['x-user-data'] = encodeURIComponent(JSON.stringify({ id: u.id, username: u.username, email: u.email, role: u.role }))
-      const res = await fetch(`/api/admin/links/${id}`, { method: 'DELETE', headers, credentials: 'include' })
+      const res = await apiFetch(`/api/admin/links/${id}`, { method: 'DELETE', headers, credentials: 'include' })
       const json = await res.json()
       if (!json.success) { set({ loading: false, error: json.message || 'Failed to delete' }); return false }
       await get().fetch()
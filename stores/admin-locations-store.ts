@@ -3,24 +3,24 @@
 import { create } from "zustand"
 import { persist } from "zustand/middleware"
 import { useAuthStore } from "./user-store"
-import { LocationStatus, LocationVisibility } from "@/database/tables/cythro_dash_locations"
+import { LocationStatus, LocationVisibility, NodePlacementStrategy } from "@/database/tables/cythro_dash_locations"
+import { apiFetch } from "@/lib/api-fetch"
 
 
 
-// Temporary compatibility: include x-user-data header built from current user
-function getAdminAuthHeaders(): HeadersInit {
-  const base: HeadersInit = { 'Content-Type': 'application/json' }
-  try {
-    const u: any = useAuthStore.getState().currentUser
-    if (u && u.id && u.username && u.email) {
-      return { ...base, 'x-user-data': encodeURIComponent(JSON.stringify({ id: u.id, username: u.username, email: u.email, role: u.role })) }
-    }
-  } catch {}
-  return base
+// The session cookie authenticates admin requests; apiFetch adds the CSRF token
+function jsonHeaders(): HeadersInit {
+  return { 'Content-Type': 'application/json' }
 }
 
 
 // Types for location management
+export type LocationPlacement = {
+  strategy: NodePlacementStrategy
+  node_weights?: Record<string, number>
+  anti_affinity?: boolean
+}
+
 export type AdminLocationSummary = {
   id: string
   name: string
@@ -46,6 +46,7 @@ export type AdminLocationSummary = {
   priority: number
   max_servers_per_user?: number
   allowed_server_types?: string[]
+  placement?: LocationPlacement
   features: {
     ddos_protection: boolean
     backup_storage: boolean
@@ -127,6 +128,7 @@ export type CreateLocationData = {
   priority?: number
   max_servers_per_user?: number
   allowed_server_types?: string[]
+  placement?: LocationPlacement
   features?: {
     ddos_protection?: boolean
     backup_storage?: boolean
@@ -155,6 +157,7 @@ export type UpdateLocationData = {
   priority?: number
   max_servers_per_user?: number
   allowed_server_types?: string[]
+  placement?: LocationPlacement
   features?: {
     ddos_protection?: boolean
     backup_storage?: boolean
@@ -323,10 +326,10 @@ export const useAdminLocationsStore = create<AdminLocationsStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/locations?${params.toString()}`, {
+          const response = await apiFetch(`/api/admin/locations?${params.toString()}`, {
             method: 'GET',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
           })
 
           const result = await response.json()
@@ -406,10 +409,10 @@ export const useAdminLocationsStore = create<AdminLocationsStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/locations/${locationId}`, {
+          const response = await apiFetch(`/api/admin/locations/${locationId}`, {
             method: 'GET',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
           })
 
           const result = await response.json()
@@ -456,10 +459,10 @@ export const useAdminLocationsStore = create<AdminLocationsStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch('/api/admin/locations', {
+          const response = await apiFetch('/api/admin/locations', {
             method: 'POST',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
             body: JSON.stringify(locationData)
           })
 
@@ -501,10 +504,10 @@ export const useAdminLocationsStore = create<AdminLocationsStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/locations/${locationId}`, {
+          const response = await apiFetch(`/api/admin/locations/${locationId}`, {
             method: 'PATCH',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
             body: JSON.stringify(updateData)
           })
 
@@ -555,10 +558,10 @@ export const useAdminLocationsStore = create<AdminLocationsStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/locations/${locationId}`, {
+          const response = await apiFetch(`/api/admin/locations/${locationId}`, {
             method: 'DELETE',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
           })
 
           const result = await response.json()
@@ -635,10 +638,10 @@ export const useAdminLocationsStore = create<AdminLocationsStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/locations/${locationId}/capacity`, {
+          const response = await apiFetch(`/api/admin/locations/${locationId}/capacity`, {
             method: 'GET',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
           })
 
           const result = await response.json()
@@ -691,10 +694,10 @@ export const useAdminLocationsStore = create<AdminLocationsStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/locations/${locationId}/nodes`, {
+          const response = await apiFetch(`/api/admin/locations/${locationId}/nodes`, {
             method: 'POST',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
             body: JSON.stringify({ node_id: nodeId })
           })
 
@@ -746,10 +749,10 @@ export const useAdminLocationsStore = create<AdminLocationsStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/locations/${locationId}/nodes`, {
+          const response = await apiFetch(`/api/admin/locations/${locationId}/nodes`, {
             method: 'DELETE',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
             body: JSON.stringify({ node_id: nodeId })
           })
 
@@ -1,4 +1,5 @@
 import { create } from 'zustand'
+import { apiFetch } from '@/lib/api-fetch'
 
 export type AdminLog = {
   _type: 'user'|'redeem'|'referral'|'rewards'|'transfer'|'server'
@@ -53,12 +54,9 @@ export const useAdminLogsStore = create<State>((set, get) => ({
       if (filters.server_id) params.set('server_id', String(filters.server_id))
       if (filters.search) params.set('search', filters.search)
 
-      const { useAuthStore } = await import('@/stores/user-store')
-      const u = useAuthStore.getState().currentUser
       const headers: HeadersInit = { 'Content-Type': 'application/json' }
-      if (u) headers['x-user-data'] = encodeURIComponent(JSON.stringify({ id: u.id, username: u.username, email: u.email, role: u.role }))
 
-      const res = await fetch(`/api/admin/logs?${params.toString()}`, { headers, credentials: 'include' })
+      const res = await apiFetch(`/api/admin/logs?${params.toString()}`, { headers, credentials: 'include' })
       const json = await res.json()
       if (!json.success) {
         set({ loading: false, error: json.message || 'Failed to fetch logs' })
@@ -4,6 +4,7 @@ import { create } from "zustand"
 import { persist } from "zustand/middleware"
 import { useAuthStore } from "./user-store"
 import { PlanStatus, BillingCycle } from "@/database/tables/cythro_dash_plans"
+import { apiFetch } from "@/lib/api-fetch"
 
 // Types for plan management
 export type AdminPlanSummary = {
@@ -63,6 +64,11 @@ export type AdminPlanSummary = {
     valid_until?: string
     promo_code?: string
   }
+  lifecycle?: {
+    suspend_grace_hours?: number
+    delete_after_hours?: number
+    data_retention_hours?: number
+  }
   stats?: {
     total_subscriptions: number
     active_subscriptions: number
@@ -182,6 +188,11 @@ export type CreatePlanData = {
     valid_until?: Date
     promo_code?: string
   }
+  lifecycle?: {
+    suspend_grace_hours?: number
+    delete_after_hours?: number
+    data_retention_hours?: number
+  }
 }
 
 export type UpdatePlanData = {
@@ -240,6 +251,11 @@ export type UpdatePlanData = {
     valid_until?: Date
     promo_code?: string
   }
+  lifecycle?: {
+    suspend_grace_hours?: number
+    delete_after_hours?: number
+    data_retention_hours?: number
+  }
 }
 
 export type PlanResponse = {
@@ -384,13 +400,10 @@ export const useAdminPlansStore = create<AdminPlansStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/plans?${params.toString()}`, {
+          const response = await apiFetch(`/api/admin/plans?${params.toString()}`, {
             method: 'GET',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
           })
 
           const result = await response.json()
@@ -470,13 +483,10 @@ export const useAdminPlansStore = create<AdminPlansStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/plans/${planId}`, {
+          const response = await apiFetch(`/api/admin/plans/${planId}`, {
             method: 'GET',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
           })
 
           const result = await response.json()
@@ -532,13 +542,10 @@ export const useAdminPlansStore = create<AdminPlansStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch('/api/admin/plans', {
+          const response = await apiFetch('/api/admin/plans', {
             method: 'POST',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(apiData)
           })
 
@@ -589,13 +596,10 @@ export const useAdminPlansStore = create<AdminPlansStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/plans/${planId}`, {
+          const response = await apiFetch(`/api/admin/plans/${planId}`, {
             method: 'PATCH',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(apiData)
           })
 
@@ -646,13 +650,10 @@ export const useAdminPlansStore = create<AdminPlansStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/plans/${planId}`, {
+          const response = await apiFetch(`/api/admin/plans/${planId}`, {
             method: 'DELETE',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
           })
 
           const result = await response.json()
@@ -730,13 +731,10 @@ export const useAdminPlansStore = create<AdminPlansStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/plans/${planId}/validate?location_id=${locationId}`, {
+          const response = await apiFetch(`/api/admin/plans/${planId}/validate?location_id=${locationId}`, {
             method: 'GET',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
           })
 
           const result = await response.json()
@@ -789,13 +787,10 @@ export const useAdminPlansStore = create<AdminPlansStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/plans/${planId}/locations`, {
+          const response = await apiFetch(`/api/admin/plans/${planId}/locations`, {
             method: 'POST',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ location_id: locationId })
           })
 
@@ -847,13 +842,10 @@ export const useAdminPlansStore = create<AdminPlansStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/plans/${planId}/locations`, {
+          const response = await apiFetch(`/api/admin/plans/${planId}/locations`, {
             method: 'DELETE',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({ location_id: locationId })
           })
 
@@ -1,5 +1,6 @@
 import { create } from 'zustand'
 import { SecurityLogAction, SecurityLogSeverity, SecurityLogStatus } from '@/database/tables/cythro_dash_users_logs'
+import { apiFetch } from '@/lib/api-fetch'
 
 export type AdminSecurityLog = {
   id: number
@@ -88,12 +89,9 @@ export const useAdminSecurityLogsStore = create<State>((set, get) => ({
       const effective: SecurityLogsFilters = { ...state.filters, ...(overrides || {}) }
       const params = buildParams(effective)
 
-      const { useAuthStore } = await import('@/stores/user-store')
-      const u = useAuthStore.getState().currentUser
       const headers: HeadersInit = { 'Content-Type': 'application/json' }
-      if (u) headers['x-user-data'] = encodeURIComponent(JSON.stringify({ id: u.id, username: u.username, email: u.email, role: u.role }))
 
-      const res = await fetch(`/api/admin/security-logs?${params.toString()}`, { headers, credentials: 'include' })
+      const res = await apiFetch(`/api/admin/security-logs?${params.toString()}`, { headers, credentials: 'include' })
       const json = await res.json()
       if (!json.success) { set({ loading: false, error: json.message || 'Failed to fetch security logs' }); return false }
       set({ logs: json.logs || [], loading: false, page: effective.page || 1, perPage: effective.limit || 50, total: json.pagination?.count || 0 })
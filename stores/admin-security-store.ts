@@ -1,4 +1,5 @@
 import { create } from 'zustand'
+import { apiFetch } from '@/lib/api-fetch'
 
 export type SecurityMetrics = {
   threat_level: 'low'|'medium'|'high'
@@ -20,6 +21,28 @@ export type SecurityMetrics = {
   active_sessions: { users_active_30m: number; examples: Array<{ id: number; username: string; last_activity?: string }> }
 }
 
+export type IPBlockRuleTrigger = 'security_log' | 'referral_click' | 'rate_limit'
+
+export type IPBlockRule = {
+  id: number
+  name: string
+  enabled: boolean
+  trigger: IPBlockRuleTrigger
+  action?: string
+  min_risk_score?: number
+  threshold: number
+  window_minutes: number
+  block_duration_minutes: number
+  blocks_created: number
+  last_triggered_at?: string
+}
+
+export type IPBlockRuleInput = Omit<IPBlockRule, 'id' | 'blocks_created' | 'last_triggered_at'>
+
+function adminHeaders(): HeadersInit {
+  return { 'Content-Type': 'application/json' }
+}
+
 type State = {
   data: SecurityMetrics | null
   loading: boolean
@@ -33,6 +56,12 @@ type State = {
   blockedSearch?: string
   setBlockedFilter: (p: Partial<{ page: number; perPage: number; search?: string }>) => void
   fetchBlocked: () => Promise<boolean>
+  rules: IPBlockRule[]
+  rulesLoading: boolean
+  fetchRules: () => Promise<boolean>
+  createRule: (rule: IPBlockRuleInput) => Promise<boolean>
+  updateRule: (id: number, updates: Partial<IPBlockRuleInput>) => Promise<boolean>
+  deleteRule: (id: number) => Promise<boolean>
 }
 
 export const useAdminSecurityStore = create<State>((set, get) => ({
@@ -42,15 +71,14 @@ export const useAdminSecurityStore = create<State>((set, get) => ({
   blockedPage: 1,
   blockedPerPage: 10,
   blockedSearch: undefined,
+  rules: [],
+  rulesLoading: false,
 
   fetchSecurityData: async () => {
     try {
       set({ loading: true, error: undefined })
-      const { useAuthStore } = await import('@/stores/user-store')
-      const u = useAuthStore.getState().currentUser
       const headers: HeadersInit = { 'Content-Type': 'application/json' }
-      if (u) headers['x-user-data'] = encodeURIComponent(JSON.stringify({ id: u.id, username: u.username, email: u.email, role: u.role }))
-      const res = await fetch('/api/admin/security', { headers, credentials: 'include' })
+      const res = await apiFetch('/api/admin/security', { headers, credentials: 'include' })
       const json = await res.json()
       if (!json.success) {
         set({ loading: false, error: json.message || 'Failed to fetch security data' })
@@ -81,11 +109,8 @@ export const useAdminSecurityStore = create<State>((set, get) => ({
       params.set('page', String(page))
       params.set('limit', String(limit))
       if (state.blockedSearch) params.set('search', state.blockedSearch)
-      const { useAuthStore } = await import('@/stores/user-store')
-      const u = useAuthStore.getState().currentUser
       const headers: HeadersInit = { 'Content-Type': 'application/json' }
-      if (u) headers['x-user-data'] = encodeURIComponent(JSON.stringify({ id: u.id, username: u.username, email: u.email, role: u.role }))
-      const res = await fetch(`/api/admin/security/blocked-ips?${params.toString()}`, { headers, credentials: 'include' })
+      const res = await apiFetch(`/api/admin/security/blocked-ips?${params.toString()}`, { headers, credentials: 'include' })
       const json = await res.json()
       if (!json.success) { set({ error: json.message || 'Failed to fetch blocked IPs' }); return false }
       const mapped = (json.items || []).map((d: any) => ({ ip_address: d.ip_address, count: d.metadata?.hit_count || 0, last_seen: d.expires_at || d.blocked_at, reason: d.reason }))
@@ -97,11 +122,8 @@ export const useAdminSecurityStore = create<State>((set, get) => ({
   blockIP: async (ip, reason, expires_at) => {
     try {
       set({ loading: true, error: undefined })
-      const { useAuthStore } = await import('@/stores/user-store')
-      const u = useAuthStore.getState().currentUser
       const headers: HeadersInit = { 'Content-Type': 'application/json' }
-      if (u) headers['x-user-data'] = encodeURIComponent(JSON.stringify({ id: u.id, username: u.username, email: u.email, role: u.role }))
-      const res = await fetch('/api/admin/security/block-ip', { method: 'POST', headers, credentials: 'include', body: JSON.stringify({ ip_address: ip, reason, expires_at }) })
+      const res = await apiFetch('/api/admin/security/block-ip', { method: 'POST', headers, credentials: 'include', body: JSON.stringify({ ip_address: ip, reason, expires_at }) })
       const json = await res.json()
       if (!json.success) { set({ loading: false, error: json.message || 'Failed to block IP' }); return false }
       await get().fetchBlocked()
@@ -113,11 +135,8 @@ export const useAdminSecurityStore = create<State>((set, get) => ({
   unblockIP: async (ip) => {
     try {
       set({ loading: true, error: undefined })
-      const { useAuthStore } = await import('@/stores/user-store')
-      const u = useAuthStore.getState().currentUser
       const headers: HeadersInit = { 'Content-Type': 'application/json' }
-      if (u) headers['x-user-data'] = encodeURIComponent(JSON.stringify({ id: u.id, username: u.username, email: u.email, role: u.role }))
-      const res = await fetch('/api/admin/security/unblock-ip', { method: 'DELETE', headers, credentials: 'include', body: JSON.stringify({ ip_address: ip }) })
+      const res = await apiFetch('/api/admin/security/unblock-ip', { method: 'DELETE', headers, credentials: 'include', body: JSON.stringify({ ip_address: ip }) })
       const json = await res.json()
       if (!json.success) { set({ loading: false, error: json.message || 'Failed to unblock IP' }); return false }
       await get().fetchBlocked()
@@ -125,5 +144,49 @@ export const useAdminSecurityStore = create<State>((set, get) => ({
       return true
     } catch (e: any) { set({ loading: false, error: e?.message || 'Unexpected error' }); return false }
   },
+
+  fetchRules: async () => {
+    try {
+      set({ rulesLoading: true, error: undefined })
+      const res = await apiFetch('/api/admin/security/block-rules', { headers: adminHeaders(), credentials: 'include' })
+      const json = await res.json()
+      if (!json.success) { set({ rulesLoading: false, error: json.message || 'Failed to fetch block rules' }); return false }
+      set({ rules: json.rules || [], rulesLoading: false })
+      return true
+    } catch (e: any) { set({ rulesLoading: false, error: e?.message || 'Unexpected error' }); return false }
+  },
+
+  createRule: async (rule) => {
+    try {
+      set({ error: undefined })
+      const res = await apiFetch('/api/admin/security/block-rules', { method: 'POST', headers: adminHeaders(), credentials: 'include', body: JSON.stringify(rule) })
+      const json = await res.json()
+      if (!json.success) { set({ error: json.message || 'Failed to create rule' }); return false }
+      await get().fetchRules()
+      return true
+    } catch (e: any) { set({ error: e?.message || 'Unexpected error' }); return false }
+  },
+
+  updateRule: async (id, updates) => {
+    try {
+      set({ error: undefined })
+      const res = await apiFetch(`/api/admin/security/block-rules/${id}`, { method: 'PATCH', headers: adminHeaders(), credentials: 'include', body: JSON.stringify(updates) })
+      const json = await res.json()
+      if (!json.success) { set({ error: json.message || 'Failed to update rule' }); return false }
+      await get().fetchRules()
+      return true
+    } catch (e: any) { set({ error: e?.message || 'Unexpected error' }); return false }
+  },
+
+  deleteRule: async (id) => {
+    try {
+      set({ error: undefined })
+      const res = await apiFetch(`/api/admin/security/block-rules/${id}`, { method: 'DELETE', headers: adminHeaders(), credentials: 'include' })
+      const json = await res.json()
+      if (!json.success) { set({ error: json.message || 'Failed to delete rule' }); return false }
+      await get().fetchRules()
+      return true
+    } catch (e: any) { set({ error: e?.message || 'Unexpected error' }); return false }
+  },
 }))
 
@@ -4,19 +4,13 @@ import { create } from "zustand"
 import { persist } from "zustand/middleware"
 import { useAuthStore } from "./user-store"
 import { ServerStatus, BillingStatus, PowerState } from "@/database/tables/cythro_dash_servers"
+import { apiFetch } from "@/lib/api-fetch"
 
 
 
-// Temporary compatibility: include x-user-data header built from current user
-function getAdminAuthHeaders(): HeadersInit {
-  const base: HeadersInit = { 'Content-Type': 'application/json' }
-  try {
-    const u: any = useAuthStore.getState().currentUser
-    if (u && u.id && u.username && u.email) {
-      return { ...base, 'x-user-data': encodeURIComponent(JSON.stringify({ id: u.id, username: u.username, email: u.email, role: u.role })) }
-    }
-  } catch {}
-  return base
+// The session cookie authenticates admin requests; apiFetch adds the CSRF token
+function jsonHeaders(): HeadersInit {
+  return { 'Content-Type': 'application/json' }
 }
 
 
@@ -356,10 +350,10 @@ export const useAdminServerManagementStore = create<AdminServerManagementStore>(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/servers?${params.toString()}`, {
+          const response = await apiFetch(`/api/admin/servers?${params.toString()}`, {
             method: 'GET',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
           })
 
           const result = await response.json()
@@ -436,10 +430,10 @@ export const useAdminServerManagementStore = create<AdminServerManagementStore>(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/servers/${serverId}`, {
+          const response = await apiFetch(`/api/admin/servers/${serverId}`, {
             method: 'GET',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
           })
 
           const result = await response.json()
@@ -487,10 +481,10 @@ export const useAdminServerManagementStore = create<AdminServerManagementStore>(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch('/api/admin/servers', {
+          const response = await apiFetch('/api/admin/servers', {
             method: 'POST',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
             body: JSON.stringify(serverData)
           })
 
@@ -533,10 +527,10 @@ export const useAdminServerManagementStore = create<AdminServerManagementStore>(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/servers/${serverId}`, {
+          const response = await apiFetch(`/api/admin/servers/${serverId}`, {
             method: 'PATCH',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
             body: JSON.stringify(updateData)
           })
 
@@ -588,10 +582,10 @@ export const useAdminServerManagementStore = create<AdminServerManagementStore>(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/servers/${serverId}`, {
+          const response = await apiFetch(`/api/admin/servers/${serverId}`, {
             method: 'DELETE',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
           })
 
           const result = await response.json()
@@ -637,10 +631,10 @@ export const useAdminServerManagementStore = create<AdminServerManagementStore>(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/servers/${serverId}/actions`, {
+          const response = await apiFetch(`/api/admin/servers/${serverId}/actions`, {
             method: 'POST',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
             body: JSON.stringify({ action, force })
           })
 
@@ -693,10 +687,10 @@ export const useAdminServerManagementStore = create<AdminServerManagementStore>(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/servers/${serverId}/actions`, {
+          const response = await apiFetch(`/api/admin/servers/${serverId}/actions`, {
             method: 'GET',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
           })
 
           const result = await response.json()
@@ -767,10 +761,10 @@ export const useAdminServerManagementStore = create<AdminServerManagementStore>(
             params.append('metrics', metrics.join(','))
           }
 
-          const response = await fetch(`/api/admin/servers/${serverId}/metrics?${params.toString()}`, {
+          const response = await apiFetch(`/api/admin/servers/${serverId}/metrics?${params.toString()}`, {
             method: 'GET',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
           })
 
           const result = await response.json()
@@ -867,10 +861,10 @@ export const useAdminServerManagementStore = create<AdminServerManagementStore>(
             }
           })
 
-          const response = await fetch(`/api/admin/servers/${serverId}/logs?${params.toString()}`, {
+          const response = await apiFetch(`/api/admin/servers/${serverId}/logs?${params.toString()}`, {
             method: 'GET',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
           })
 
           const result = await response.json()
@@ -929,10 +923,10 @@ export const useAdminServerManagementStore = create<AdminServerManagementStore>(
             params.append('before_date', beforeDate)
           }
 
-          const response = await fetch(`/api/admin/servers/${serverId}/logs?${params.toString()}`, {
+          const response = await apiFetch(`/api/admin/servers/${serverId}/logs?${params.toString()}`, {
             method: 'DELETE',
             credentials: 'include',
-            headers: getAdminAuthHeaders(),
+            headers: jsonHeaders(),
           })
 
           const result = await response.json()
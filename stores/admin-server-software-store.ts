@@ -12,6 +12,7 @@ import {
   DockerConfig,
   EnvironmentVariable
 } from "@/database/tables/cythro_dash_server_software"
+import { apiFetch } from "@/lib/api-fetch"
 
 // API response interfaces
 export interface ServerSoftwareListResponse {
@@ -200,13 +201,10 @@ export const useAdminServerSoftwareStore = create<AdminServerSoftwareStore>()(
           if (filters.sort_order) params.append('sort_order', filters.sort_order)
           if (filters.include_stats) params.append('include_stats', 'true')
 
-          const response = await fetch(`/api/admin/server-software?${params.toString()}`, {
+          const response = await apiFetch(`/api/admin/server-software?${params.toString()}`, {
             method: 'GET',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
           })
 
           const result: ServerSoftwareListResponse = await response.json()
@@ -251,13 +249,10 @@ export const useAdminServerSoftwareStore = create<AdminServerSoftwareStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/server-software/${softwareId}`, {
+          const response = await apiFetch(`/api/admin/server-software/${softwareId}`, {
             method: 'GET',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
           })
 
           const result: ServerSoftwareResponse = await response.json()
@@ -322,13 +317,10 @@ export const useAdminServerSoftwareStore = create<AdminServerSoftwareStore>()(
             created_by: currentUser.id
           }
 
-          const response = await fetch('/api/admin/server-software', {
+          const response = await apiFetch('/api/admin/server-software', {
             method: 'POST',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(apiData)
           })
 
@@ -365,13 +357,10 @@ export const useAdminServerSoftwareStore = create<AdminServerSoftwareStore>()(
             updated_at: new Date()
           }
 
-          const response = await fetch(`/api/admin/server-software/${softwareId}`, {
+          const response = await apiFetch(`/api/admin/server-software/${softwareId}`, {
             method: 'PATCH',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(apiData)
           })
 
@@ -402,13 +391,10 @@ export const useAdminServerSoftwareStore = create<AdminServerSoftwareStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/server-software/${softwareId}`, {
+          const response = await apiFetch(`/api/admin/server-software/${softwareId}`, {
             method: 'PATCH',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify({
               refresh_environment_variables: true
             })
@@ -441,13 +427,10 @@ export const useAdminServerSoftwareStore = create<AdminServerSoftwareStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/server-software/${softwareId}`, {
+          const response = await apiFetch(`/api/admin/server-software/${softwareId}`, {
             method: 'DELETE',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
           })
 
           const result = await response.json()
@@ -486,13 +469,10 @@ export const useAdminServerSoftwareStore = create<AdminServerSoftwareStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch('/api/admin/pterodactyl/nests', {
+          const response = await apiFetch('/api/admin/pterodactyl/nests', {
             method: 'GET',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
           })
 
           const result: PterodactylNestsResponse = await response.json()
@@ -535,13 +515,10 @@ export const useAdminServerSoftwareStore = create<AdminServerSoftwareStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/pterodactyl/nests/${nestId}/eggs`, {
+          const response = await apiFetch(`/api/admin/pterodactyl/nests/${nestId}/eggs`, {
             method: 'GET',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
           })
 
           const result: PterodactylEggsResponse = await response.json()
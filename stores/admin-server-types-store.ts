@@ -9,6 +9,7 @@ import {
   ServerTypeStatus,
   ServerTypeHelpers 
 } from "@/database/tables/cythro_dash_server_types"
+import { apiFetch } from "@/lib/api-fetch"
 
 // API response interfaces
 export interface ServerTypesListResponse {
@@ -161,13 +162,10 @@ export const useAdminServerTypesStore = create<AdminServerTypesStore>()(
           if (filters.sort_order) params.append('sort_order', filters.sort_order)
           if (filters.include_stats) params.append('include_stats', 'true')
 
-          const response = await fetch(`/api/admin/server-types?${params.toString()}`, {
+          const response = await apiFetch(`/api/admin/server-types?${params.toString()}`, {
             method: 'GET',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
           })
 
           const result: ServerTypesListResponse = await response.json()
@@ -212,13 +210,10 @@ export const useAdminServerTypesStore = create<AdminServerTypesStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/server-types/${serverTypeId}`, {
+          const response = await apiFetch(`/api/admin/server-types/${serverTypeId}`, {
             method: 'GET',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
           })
 
           const result: ServerTypeResponse = await response.json()
@@ -267,13 +262,10 @@ export const useAdminServerTypesStore = create<AdminServerTypesStore>()(
             created_by: currentUser.id
           }
 
-          const response = await fetch('/api/admin/server-types', {
+          const response = await apiFetch('/api/admin/server-types', {
             method: 'POST',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(apiData)
           })
 
@@ -310,13 +302,10 @@ export const useAdminServerTypesStore = create<AdminServerTypesStore>()(
             updated_at: new Date()
           }
 
-          const response = await fetch(`/api/admin/server-types/${serverTypeId}`, {
+          const response = await apiFetch(`/api/admin/server-types/${serverTypeId}`, {
             method: 'PATCH',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(apiData)
           })
 
@@ -347,13 +336,10 @@ export const useAdminServerTypesStore = create<AdminServerTypesStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/server-types/${serverTypeId}`, {
+          const response = await apiFetch(`/api/admin/server-types/${serverTypeId}`, {
             method: 'DELETE',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
           })
 
           const result = await response.json()
@@ -1,26 +1,19 @@
 import { create } from 'zustand'
-import { useAuthStore } from './user-store'
+import { apiFetch } from '@/lib/api-fetch'
 
 
 
 
 
-// Temporary compatibility: include x-user-data header built from current user
-function getAdminAuthHeaders(): HeadersInit {
-  const base: HeadersInit = { 'Content-Type': 'application/json' }
-  try {
-    const u: any = useAuthStore.getState().currentUser
-    if (u && u.id && u.username && u.email) {
-      return { ...base, 'x-user-data': encodeURIComponent(JSON.stringify({ id: u.id, username: u.username, email: u.email, role: u.role })) }
-    }
-  } catch {}
-  return base
+// The session cookie authenticates admin requests; apiFetch adds the CSRF token
+function jsonHeaders(): HeadersInit {
+  return { 'Content-Type': 'application/json' }
 }
 
 export type Setting = {
   key: string
   value: any
-  category: 'general'|'oauth'|'features'|'security'|'appearance'
+  category: 'general'|'oauth'|'features'|'billing'|'capacity'|'security'|'appearance'
   description?: string
   data_type: 'string'|'number'|'boolean'|'json'
   updated_at: string
@@ -45,9 +38,9 @@ export const useAdminSettingsStore = create<State>((set, get) => ({
     try {
       set({ loading: true, error: undefined })
 
-      const headers: HeadersInit = getAdminAuthHeaders()
+      const headers: HeadersInit = jsonHeaders()
 
-      const res = await fetch('/api/admin/settings', { headers, credentials: 'include' })
+      const res = await apiFetch('/api/admin/settings', { headers, credentials: 'include' })
       const json = await res.json()
       if (!json.success) { set({ loading: false, error: json.message || 'Failed to fetch settings' }); return false }
       set({ items: json.items, loading: false })
@@ -58,9 +51,9 @@ export const useAdminSettingsStore = create<State>((set, get) => ({
     try {
       set({ loading: true, error: undefined })
 
-      const headers: HeadersInit = getAdminAuthHeaders()
+      const headers: HeadersInit = jsonHeaders()
 
-      const res = await fetch(`/api/admin/settings/${category}`, { headers, credentials: 'include' })
+      const res = await apiFetch(`/api/admin/settings/${category}`, { headers, credentials: 'include' })
       const json = await res.json()
       if (!json.success) { set({ loading: false, error: json.message || 'Failed to fetch settings' }); return false }
       set({ items: json.items, loading: false })
@@ -76,9 +69,9 @@ export const useAdminSettingsStore = create<State>((set, get) => ({
       set({ items: updated })
 
 
-      const headers: HeadersInit = getAdminAuthHeaders()
+      const headers: HeadersInit = jsonHeaders()
 
-      const res = await fetch('/api/admin/settings', { method: 'PUT', headers, credentials: 'include', body: JSON.stringify({ key, value }) })
+      const res = await apiFetch('/api/admin/settings', { method: 'PUT', headers, credentials: 'include', body: JSON.stringify({ key, value }) })
       const json = await res.json()
       if (!json.success) { set({ items: prev, error: json.message || 'Failed to update setting' }); return false }
       return true
@@ -2,22 +2,14 @@
 
 import { create } from "zustand"
 import { persist } from "zustand/middleware"
-import { useAuthStore } from "./user-store"
+import { useAuthStore, UserSessionInfo } from "./user-store"
+import { apiFetch } from "@/lib/api-fetch"
 
 // Types for admin user management
 
-// Build auth headers with x-user-data for admin APIs (fallback while session store is not implemented)
-
-// Temporary compatibility: include x-user-data header built from current user
-function getAdminAuthHeaders(): HeadersInit {
-  const base: HeadersInit = { 'Content-Type': 'application/json' }
-  try {
-    const u: any = useAuthStore.getState().currentUser
-    if (u && u.id && u.username && u.email) {
-      return { ...base, 'x-user-data': encodeURIComponent(JSON.stringify({ id: u.id, username: u.username, email: u.email, role: u.role })) }
-    }
-  } catch {}
-  return base
+// The session cookie authenticates admin requests; apiFetch adds the CSRF token
+function jsonHeaders(): HeadersInit {
+  return { 'Content-Type': 'application/json' }
 }
 
 
@@ -28,7 +20,8 @@ export type AdminUserSummary = {
   first_name: string
   last_name: string
   display_name?: string
-  role: number // 0 = admin, 1 = user
+  role: number // 0 = staff, 1 = user
+  role_id?: string // Admin role, set for staff
   verified: boolean
   banned: boolean
   deleted: boolean
@@ -116,6 +109,41 @@ type AdminLogItem = {
   meta?: Record<string, any>
 }
 
+export type AdminUserLockoutStatus = {
+  policy: { max_attempts: number; duration_minutes: number; backoff_multiplier: number; max_duration_minutes: number; mode: 'account' | 'ip' }
+  account_locked: boolean
+  locked_until?: string
+  failed_login_attempts: number
+  lockout_count: number
+  ip_locks: Array<{ ip_address: string; locked_until?: string; lockout_count: number }>
+}
+
+export type AdminLockoutEvent = {
+  id: number
+  action: 'account_locked' | 'account_unlocked'
+  description: string
+  details?: Record<string, any>
+  ip_address?: string
+  created_at: string
+}
+
+export type AdminRole = {
+  id: string
+  name: string
+  description?: string
+  permissions: string[]
+  builtin: boolean
+  user_count: number
+  created_at: string
+  updated_at: string
+}
+
+export type AdminRoleInput = {
+  name: string
+  description?: string
+  permissions: string[]
+}
+
 type ReferralAnalyticsData = any
 
 type ReferredUser = {
@@ -138,18 +166,36 @@ type AdminStore = {
   selectedUser: AdminUserSummary | null
   isLoadingSelectedUser: boolean
 
+  // Admin roles and the permissions they can grant (key -> description)
+  roles: AdminRole[]
+  permissionCatalog: Record<string, string>
+  isLoadingRoles: boolean
+
   // Cache settings
   usersCacheValidDuration: number // 2 minutes in milliseconds
 
   // Actions
   getUsersList: (filters?: GetUsersFilters, forceRefresh?: boolean) => Promise<GetUsersResponse>
   getUserById: (userId: number, forceRefresh?: boolean) => Promise<GetUsersResponse>
-  updateUser: (userId: number, data: Partial<Pick<AdminUserSummary, 'username'|'email'|'first_name'|'last_name'|'display_name'|'role'|'verified'>> & { password?: string }) => Promise<{ success: boolean; message: string }>
+  updateUser: (userId: number, data: Partial<Pick<AdminUserSummary, 'username'|'email'|'first_name'|'last_name'|'display_name'|'verified'>> & { password?: string }) => Promise<{ success: boolean; message: string }>
   banUser: (userId: number, reason?: string) => Promise<{ success: boolean; message: string }>
   unbanUser: (userId: number) => Promise<{ success: boolean; message: string }>
+  getUserSessions: (userId: number) => Promise<{ success: boolean; message?: string; sessions?: UserSessionInfo[] }>
+  revokeUserSession: (userId: number, sessionId: string) => Promise<{ success: boolean; message: string }>
+  revokeAllUserSessions: (userId: number) => Promise<{ success: boolean; message: string }>
+  resetUserTwoFactor: (userId: number) => Promise<{ success: boolean; message: string }>
+  getUserLockouts: (userId: number) => Promise<{ success: boolean; message?: string; status?: AdminUserLockoutStatus; history?: AdminLockoutEvent[] }>
+  unlockUser: (userId: number) => Promise<{ success: boolean; message: string }>
+  forcePasswordReset: (userId: number) => Promise<{ success: boolean; message: string }>
+  assignUserRole: (userId: number, roleId: string | null) => Promise<{ success: boolean; message: string }>
+  getRoles: (forceRefresh?: boolean) => Promise<{ success: boolean; message?: string; roles?: AdminRole[] }>
+  createRole: (id: string, data: AdminRoleInput) => Promise<{ success: boolean; message: string }>
+  updateRole: (id: string, data: Partial<AdminRoleInput>) => Promise<{ success: boolean; message: string }>
+  deleteRole: (id: string) => Promise<{ success: boolean; message: string }>
+  startImpersonation: (userId: number, options: { minutes?: number; allow_wallet_actions?: boolean; reason?: string }) => Promise<{ success: boolean; message: string }>
   adjustUserCoins: (userId: number, amount: number, reason: string) => Promise<{ success: boolean; message: string }>
   bulkDisableEnable: (userIds: number[], action: 'disable'|'enable', reason?: string) => Promise<{ success: boolean; message: string }>
-  bulkRoleChange: (userIds: number[], role: number) => Promise<{ success: boolean; message: string }>
+  bulkRoleChange: (userIds: number[], roleId: string | null) => Promise<{ success: boolean; message: string }>
   bulkAdjustCoins: (userIds: number[], amount: number, reason: string) => Promise<{ success: boolean; message: string }>
   clearUsersListCache: () => void
   clearSelectedUser: () => void
@@ -207,6 +253,9 @@ export const useAdminStore = create<AdminStore>()(
       isLoadingUsersList: false,
       selectedUser: null,
       isLoadingSelectedUser: false,
+      roles: [],
+      permissionCatalog: {},
+      isLoadingRoles: false,
       usersCacheValidDuration: 2 * 60 * 1000, // 2 minutes
 
       // In-flight request dedupe maps
@@ -312,13 +361,9 @@ export const useAdminStore = create<AdminStore>()(
             if (filters.include_oauth) queryParams.append('include_oauth', filters.include_oauth.toString())
             if (filters.include_referrals) queryParams.append('include_referrals', filters.include_referrals.toString())
 
-            // Get current user data for authentication header
-            const currentUser = useAuthStore.getState().currentUser
+            const headers: HeadersInit = jsonHeaders()
 
-            const headers: HeadersInit = getAdminAuthHeaders()
-
-
-            const response = await fetch(`/api/admin/users?${queryParams.toString()}`, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
+            const response = await apiFetch(`/api/admin/users?${queryParams.toString()}`, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
             const result = await response.json()
             console.log('Users list API response:', result)
 
@@ -406,10 +451,9 @@ export const useAdminStore = create<AdminStore>()(
         const promise = (async (): Promise<GetUsersResponse> => {
           try {
             console.log('Fetching user by ID via API:', userId)
-            const currentUser = useAuthStore.getState().currentUser
-            const headers: HeadersInit = getAdminAuthHeaders()
+            const headers: HeadersInit = jsonHeaders()
 
-            const response = await fetch(`/api/admin/users/${userId}`, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
+            const response = await apiFetch(`/api/admin/users/${userId}`, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
             const result = await response.json()
             console.log('User by ID API response:', result)
             if (result.success && result.users && result.users[0]) {
@@ -433,11 +477,9 @@ export const useAdminStore = create<AdminStore>()(
       // Update user profile/role
       updateUser: async (userId, data) => {
         try {
-          const currentUser = useAuthStore.getState().currentUser
-          const headers: HeadersInit = getAdminAuthHeaders()
+          const headers: HeadersInit = jsonHeaders()
 
-
-          const res = await fetch(`/api/admin/users/${userId}`, {
+          const res = await apiFetch(`/api/admin/users/${userId}`, {
             method: 'PATCH',
             headers,
             credentials: 'include',
@@ -461,10 +503,9 @@ export const useAdminStore = create<AdminStore>()(
       // Ban/disable a user
       banUser: async (userId, reason = 'Disabled by administrator') => {
         try {
-          const currentUser = useAuthStore.getState().currentUser
-          const headers: HeadersInit = getAdminAuthHeaders()
+          const headers: HeadersInit = jsonHeaders()
 
-          const res = await fetch(`/api/admin/users/${userId}/disable`, {
+          const res = await apiFetch(`/api/admin/users/${userId}/disable`, {
             method: 'POST', headers, credentials: 'include', body: JSON.stringify({ reason })
           })
           const json = await res.json()
@@ -483,10 +524,9 @@ export const useAdminStore = create<AdminStore>()(
       // Unban/enable a user
       unbanUser: async (userId) => {
         try {
-          const currentUser = useAuthStore.getState().currentUser
-          const headers: HeadersInit = getAdminAuthHeaders()
+          const headers: HeadersInit = jsonHeaders()
 
-          const res = await fetch(`/api/admin/users/${userId}/enable`, { method: 'POST', headers, credentials: 'include' })
+          const res = await apiFetch(`/api/admin/users/${userId}/enable`, { method: 'POST', headers, credentials: 'include' })
           const json = await res.json()
           if (!json.success) return { success: false, message: json.message || 'Failed to enable user' }
           set((state) => ({
@@ -500,13 +540,190 @@ export const useAdminStore = create<AdminStore>()(
         }
       },
 
+      // Active sessions of a user
+      getUserSessions: async (userId) => {
+        try {
+          const res = await apiFetch(`/api/admin/users/${userId}/sessions`, { method: 'GET', headers: jsonHeaders(), credentials: 'include' })
+          const json = await res.json()
+          if (!json.success) return { success: false, message: json.message || 'Failed to load sessions' }
+          return { success: true, sessions: json.sessions || [] }
+        } catch {
+          return { success: false, message: 'Network error' }
+        }
+      },
+
+      revokeUserSession: async (userId, sessionId) => {
+        try {
+          const res = await apiFetch(`/api/admin/users/${userId}/sessions`, {
+            method: 'DELETE', headers: jsonHeaders(), credentials: 'include', body: JSON.stringify({ session_id: sessionId })
+          })
+          const json = await res.json()
+          if (!json.success) return { success: false, message: json.message || 'Failed to revoke session' }
+          return { success: true, message: json.message || 'Session revoked' }
+        } catch {
+          return { success: false, message: 'Network error' }
+        }
+      },
+
+      revokeAllUserSessions: async (userId) => {
+        try {
+          const res = await apiFetch(`/api/admin/users/${userId}/sessions`, {
+            method: 'DELETE', headers: jsonHeaders(), credentials: 'include', body: JSON.stringify({ scope: 'all' })
+          })
+          const json = await res.json()
+          if (!json.success) return { success: false, message: json.message || 'Failed to revoke sessions' }
+          return { success: true, message: json.message || 'All sessions revoked' }
+        } catch {
+          return { success: false, message: 'Network error' }
+        }
+      },
+
+      // Reset 2FA for a user who lost their authenticator
+      resetUserTwoFactor: async (userId) => {
+        try {
+          const res = await apiFetch(`/api/admin/users/${userId}/reset-two-factor`, { method: 'POST', headers: jsonHeaders(), credentials: 'include' })
+          const json = await res.json()
+          if (!json.success) return { success: false, message: json.message || 'Failed to reset 2FA' }
+          set((state) => ({
+            ...state,
+            usersList: state.usersList.map(u => u.id === userId ? { ...u, two_factor_enabled: false } : u),
+            selectedUser: state.selectedUser && state.selectedUser.id === userId ? { ...state.selectedUser, two_factor_enabled: false } : state.selectedUser
+          }))
+          return { success: true, message: json.message || '2FA reset' }
+        } catch {
+          return { success: false, message: 'Network error' }
+        }
+      },
+
+      // Login lockout state and lock/unlock history of a user
+      getUserLockouts: async (userId) => {
+        try {
+          const res = await apiFetch(`/api/admin/users/${userId}/lockouts`, { method: 'GET', headers: jsonHeaders(), credentials: 'include' })
+          const json = await res.json()
+          if (!json.success) return { success: false, message: json.message || 'Failed to load lockouts' }
+          return { success: true, status: json.status, history: json.history || [] }
+        } catch {
+          return { success: false, message: 'Network error' }
+        }
+      },
+
+      // Lift a login lockout before it runs out
+      unlockUser: async (userId) => {
+        try {
+          const res = await apiFetch(`/api/admin/users/${userId}/unlock`, { method: 'POST', headers: jsonHeaders(), credentials: 'include' })
+          const json = await res.json()
+          if (!json.success) return { success: false, message: json.message || 'Failed to unlock account' }
+          return { success: true, message: json.message || 'Account unlocked' }
+        } catch {
+          return { success: false, message: 'Network error' }
+        }
+      },
+
+      // Require a new password at the user's next login
+      forcePasswordReset: async (userId) => {
+        try {
+          const res = await apiFetch(`/api/admin/users/${userId}/force-password-reset`, { method: 'POST', headers: jsonHeaders(), credentials: 'include' })
+          const json = await res.json()
+          if (!json.success) return { success: false, message: json.message || 'Failed to require a password change' }
+          return { success: true, message: json.message || 'Password change required' }
+        } catch {
+          return { success: false, message: 'Network error' }
+        }
+      },
+
+      // Give a user an admin role, or make them a regular user again (null)
+      assignUserRole: async (userId, roleId) => {
+        try {
+          const res = await apiFetch(`/api/admin/users/${userId}/role`, { method: 'PUT', headers: jsonHeaders(), credentials: 'include', body: JSON.stringify({ role_id: roleId }) })
+          const json = await res.json()
+          if (!json.success) return { success: false, message: json.message || 'Failed to change role' }
+          const patch = { role: roleId ? 0 : 1, role_id: roleId || undefined }
+          set((state) => ({
+            ...state,
+            usersList: state.usersList.map(u => u.id === userId ? { ...u, ...patch } : u),
+            selectedUser: state.selectedUser && state.selectedUser.id === userId ? { ...state.selectedUser, ...patch } : state.selectedUser
+          }))
+          void get().getRoles(true)
+          return { success: true, message: json.message || 'Role updated' }
+        } catch {
+          return { success: false, message: 'Network error' }
+        }
+      },
+
+      getRoles: async (forceRefresh = false) => {
+        if (!forceRefresh && get().roles.length > 0) return { success: true, roles: get().roles }
+        set({ isLoadingRoles: true })
+        try {
+          const res = await apiFetch('/api/admin/roles', { headers: jsonHeaders(), credentials: 'include' })
+          const json = await res.json()
+          if (!json.success) return { success: false, message: json.message || 'Failed to load roles' }
+          set({ roles: json.roles || [], permissionCatalog: json.permissions || {} })
+          return { success: true, roles: json.roles || [] }
+        } catch {
+          return { success: false, message: 'Network error' }
+        } finally {
+          set({ isLoadingRoles: false })
+        }
+      },
+
+      createRole: async (id, data) => {
+        try {
+          const res = await apiFetch('/api/admin/roles', { method: 'POST', headers: jsonHeaders(), credentials: 'include', body: JSON.stringify({ id, ...data }) })
+          const json = await res.json()
+          if (!json.success) return { success: false, message: json.message || 'Failed to create role' }
+          await get().getRoles(true)
+          return { success: true, message: 'Role created' }
+        } catch {
+          return { success: false, message: 'Network error' }
+        }
+      },
+
+      updateRole: async (id, data) => {
+        try {
+          const res = await apiFetch(`/api/admin/roles/${encodeURIComponent(id)}`, { method: 'PATCH', headers: jsonHeaders(), credentials: 'include', body: JSON.stringify(data) })
+          const json = await res.json()
+          if (!json.success) return { success: false, message: json.message || 'Failed to update role' }
+          await get().getRoles(true)
+          return { success: true, message: 'Role updated' }
+        } catch {
+          return { success: false, message: 'Network error' }
+        }
+      },
+
+      deleteRole: async (id) => {
+        try {
+          const res = await apiFetch(`/api/admin/roles/${encodeURIComponent(id)}`, { method: 'DELETE', headers: jsonHeaders(), credentials: 'include' })
+          const json = await res.json()
+          if (!json.success) return { success: false, message: json.message || 'Failed to delete role' }
+          set((state) => ({ ...state, roles: state.roles.filter(r => r.id !== id) }))
+          return { success: true, message: json.message || 'Role deleted' }
+        } catch {
+          return { success: false, message: 'Network error' }
+        }
+      },
+
+      // Switch this browser to a time-boxed session as the user
+      startImpersonation: async (userId, options) => {
+        try {
+          const res = await apiFetch(`/api/admin/users/${userId}/impersonate`, { method: 'POST', headers: jsonHeaders(), credentials: 'include', body: JSON.stringify(options) })
+          const json = await res.json()
+          if (!json.success) return { success: false, message: json.message || 'Failed to view as user' }
+          const auth = useAuthStore.getState()
+          auth.setSession(json.user, json.sessionToken)
+          auth.setImpersonation(json.impersonation)
+          auth.clearSecurityLogsCache()
+          return { success: true, message: json.message || 'Viewing as user' }
+        } catch {
+          return { success: false, message: 'Network error' }
+        }
+      },
+
       // Adjust coins for a user
       adjustUserCoins: async (userId, amount, reason) => {
         try {
-          const currentUser = useAuthStore.getState().currentUser
-          const headers: HeadersInit = getAdminAuthHeaders()
+          const headers: HeadersInit = jsonHeaders()
 
-          const res = await fetch(`/api/admin/users/${userId}/coins`, { method: 'POST', headers, credentials: 'include', body: JSON.stringify({ amount, reason }) })
+          const res = await apiFetch(`/api/admin/users/${userId}/coins`, { method: 'POST', headers, credentials: 'include', body: JSON.stringify({ amount, reason }) })
           const json = await res.json()
           if (!json.success) return { success: false, message: json.message || 'Failed to adjust coins' }
           set((state) => ({
@@ -533,14 +750,13 @@ export const useAdminStore = create<AdminStore>()(
         if (logsInflight) {
           return await logsInflight
         }
-        const currentUser = useAuthStore.getState().currentUser
-        const headers: HeadersInit = getAdminAuthHeaders()
+        const headers: HeadersInit = jsonHeaders()
 
         const qp = new URLSearchParams({ user_id: String(userId), page: String(page), limit: String(limit) })
         if (category) qp.set('category', category)
         const promise = (async () => {
           try {
-            const res = await fetch(`/api/admin/logs?${qp.toString()}`, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
+            const res = await apiFetch(`/api/admin/logs?${qp.toString()}`, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
             const json = await res.json()
             if (res.ok && json && (json.items || json.logs)) {
               const items: AdminLogItem[] = json.items || json.logs || []
@@ -568,11 +784,10 @@ export const useAdminStore = create<AdminStore>()(
           return { success: true, data: cache.data }
         }
         try {
-          const currentUser = useAuthStore.getState().currentUser
-          const headers: HeadersInit = getAdminAuthHeaders()
+          const headers: HeadersInit = jsonHeaders()
 
           const url = `/api/referrals/analytics?user_id=${userId}&period_type=${period}`
-          const res = await fetch(url, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
+          const res = await apiFetch(url, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
           const json = await res.json()
           if (res.ok && json?.success) {
             const data = json.data || json
@@ -594,11 +809,10 @@ export const useAdminStore = create<AdminStore>()(
           return { success: true, items: cache.items }
         }
         try {
-          const currentUser = useAuthStore.getState().currentUser
-          const headers: HeadersInit = getAdminAuthHeaders()
+          const headers: HeadersInit = jsonHeaders()
 
           const url = `/api/referrals/users?user_id=${userId}&limit=${limit}&offset=${offset}`
-          const res = await fetch(url, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
+          const res = await apiFetch(url, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
           const json = await res.json()
           if (res.ok) {
             const items: ReferredUser[] = json.items || json.users || []
@@ -623,14 +837,13 @@ export const useAdminStore = create<AdminStore>()(
         if (!forceRefresh && locationsInflight) {
           return await locationsInflight
         }
-        const currentUser = useAuthStore.getState().currentUser
-        const headers: HeadersInit = getAdminAuthHeaders()
+        const headers: HeadersInit = jsonHeaders()
 
         const qp = new URLSearchParams()
         for (const [k,v] of Object.entries(filters)) if (v !== undefined && v !== null) qp.append(k, String(v))
         const promise = (async () => {
           try {
-            const res = await fetch(`/api/admin/locations?${qp.toString()}`, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
+            const res = await apiFetch(`/api/admin/locations?${qp.toString()}`, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
             const json = await res.json()
             if (res.ok && json) {
               set((s) => ({ ...(s as any), _locationsCache: { ...(s as any)._locationsCache, [key]: { data: json, lastFetch: Date.now() } } }))
@@ -659,14 +872,13 @@ export const useAdminStore = create<AdminStore>()(
         if (!forceRefresh && typesInflight) {
           return await typesInflight
         }
-        const currentUser = useAuthStore.getState().currentUser
-        const headers: HeadersInit = getAdminAuthHeaders()
+        const headers: HeadersInit = jsonHeaders()
 
         const qp = new URLSearchParams()
         for (const [k,v] of Object.entries(filters)) if (v !== undefined && v !== null) qp.append(k, String(v))
         const promise = (async () => {
           try {
-            const res = await fetch(`/api/admin/server-types?${qp.toString()}`, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
+            const res = await apiFetch(`/api/admin/server-types?${qp.toString()}`, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
             const json = await res.json()
             if (res.ok && json) {
               set((s) => ({ ...(s as any), _serverTypesCache: { ...(s as any)._serverTypesCache, [key]: { data: json, lastFetch: Date.now() } } }))
@@ -695,14 +907,13 @@ export const useAdminStore = create<AdminStore>()(
         if (!forceRefresh && softwareInflight) {
           return await softwareInflight
         }
-        const currentUser = useAuthStore.getState().currentUser
-        const headers: HeadersInit = getAdminAuthHeaders()
+        const headers: HeadersInit = jsonHeaders()
 
         const qp = new URLSearchParams()
         for (const [k,v] of Object.entries(filters)) if (v !== undefined && v !== null) qp.append(k, String(v))
         const promise = (async () => {
           try {
-            const res = await fetch(`/api/admin/server-software?${qp.toString()}`, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
+            const res = await apiFetch(`/api/admin/server-software?${qp.toString()}`, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
             const json = await res.json()
             if (res.ok && json) {
               set((s) => ({ ...(s as any), _serverSoftwareCache: { ...(s as any)._serverSoftwareCache, [key]: { data: json, lastFetch: Date.now() } } }))
@@ -731,14 +942,13 @@ export const useAdminStore = create<AdminStore>()(
         if (!forceRefresh && plansInflight) {
           return await plansInflight
         }
-        const currentUser = useAuthStore.getState().currentUser
-        const headers: HeadersInit = getAdminAuthHeaders()
+        const headers: HeadersInit = jsonHeaders()
 
         const qp = new URLSearchParams()
         for (const [k,v] of Object.entries(filters)) if (v !== undefined && v !== null) qp.append(k, String(v))
         const promise = (async () => {
           try {
-            const res = await fetch(`/api/admin/plans?${qp.toString()}`, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
+            const res = await apiFetch(`/api/admin/plans?${qp.toString()}`, { method: 'GET', headers, credentials: 'include', cache: 'no-store' })
             const json = await res.json()
             if (res.ok && json) {
               set((s) => ({ ...(s as any), _plansCache: { ...(s as any)._plansCache, [key]: { data: json, lastFetch: Date.now() } } }))
@@ -765,9 +975,9 @@ export const useAdminStore = create<AdminStore>()(
         return { success: true, message: 'Bulk action completed' }
       },
 
-      bulkRoleChange: async (userIds, role) => {
+      bulkRoleChange: async (userIds, roleId) => {
         for (const id of userIds) {
-          await get().updateUser(id, { role })
+          await get().assignUserRole(id, roleId)
         }
         return { success: true, message: 'Roles updated' }
       },
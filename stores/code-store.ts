@@ -3,6 +3,7 @@
 import { create } from "zustand"
 import { persist } from "zustand/middleware"
 import { CythroDashCode, CythroDashCodeRedemption, CodeStatus } from "@/database/tables/cythro_dash_codes"
+import { apiFetch } from "@/lib/api-fetch"
 
 // User redemption response
 export interface RedeemCodeResponse {
@@ -96,16 +97,9 @@ type AdminCodeStore = {
   clearSelectedCode: () => void
 }
 
-// Get auth headers helper - this will be overridden by components
-let getAuthHeaders = (): Record<string, string> => {
-  return {
-    'Content-Type': 'application/json'
-  }
-}
-
-// Function to set auth headers from components
-export const setAuthHeaders = (headersFn: () => Record<string, string>) => {
-  getAuthHeaders = headersFn
+// The session cookie authenticates these requests; apiFetch adds the CSRF token
+function jsonHeaders(): Record<string, string> {
+  return { 'Content-Type': 'application/json' }
 }
 
 // User redemption store
@@ -135,9 +129,9 @@ export const useUserCodeStore = create<UserCodeStore>()(
         set({ isRedeeming: true })
 
         try {
-          const response = await fetch('/api/codes/redeem', {
+          const response = await apiFetch('/api/codes/redeem', {
             method: 'POST',
-            headers: getAuthHeaders(),
+            headers: jsonHeaders(),
             credentials: 'include',
             body: JSON.stringify({ code: code.trim().toUpperCase() })
           })
@@ -185,9 +179,9 @@ export const useUserCodeStore = create<UserCodeStore>()(
         set({ isLoadingRedemptions: true })
 
         try {
-          const response = await fetch(`/api/codes/redeem?limit=${limit}&offset=${offset}`, {
+          const response = await apiFetch(`/api/codes/redeem?limit=${limit}&offset=${offset}`, {
             method: 'GET',
-            headers: getAuthHeaders(),
+            headers: jsonHeaders(),
             credentials: 'include'
           })
 
@@ -296,9 +290,9 @@ export const useAdminCodeStore = create<AdminCodeStore>()(
           if (filters.created_by) queryParams.append('created_by', filters.created_by.toString())
           if (filters.search) queryParams.append('search', filters.search)
 
-          const response = await fetch(`/api/admin/codes?${queryParams.toString()}`, {
+          const response = await apiFetch(`/api/admin/codes?${queryParams.toString()}`, {
             method: 'GET',
-            headers: getAuthHeaders(),
+            headers: jsonHeaders(),
             credentials: 'include'
           })
 
@@ -353,9 +347,9 @@ export const useAdminCodeStore = create<AdminCodeStore>()(
         set({ isLoadingCodeDetails: true })
 
         try {
-          const response = await fetch(`/api/admin/codes/${id}`, {
+          const response = await apiFetch(`/api/admin/codes/${id}`, {
             method: 'GET',
-            headers: getAuthHeaders(),
+            headers: jsonHeaders(),
             credentials: 'include'
           })
 
@@ -398,9 +392,9 @@ export const useAdminCodeStore = create<AdminCodeStore>()(
         set({ isCreatingCode: true })
 
         try {
-          const response = await fetch('/api/admin/codes', {
+          const response = await apiFetch('/api/admin/codes', {
             method: 'POST',
-            headers: getAuthHeaders(),
+            headers: jsonHeaders(),
             credentials: 'include',
             body: JSON.stringify(codeData)
           })
@@ -435,9 +429,9 @@ export const useAdminCodeStore = create<AdminCodeStore>()(
         set({ isUpdatingCode: true })
 
         try {
-          const response = await fetch(`/api/admin/codes/${id}`, {
+          const response = await apiFetch(`/api/admin/codes/${id}`, {
             method: 'PUT',
-            headers: getAuthHeaders(),
+            headers: jsonHeaders(),
             credentials: 'include',
             body: JSON.stringify(updateData)
           })
@@ -478,9 +472,9 @@ export const useAdminCodeStore = create<AdminCodeStore>()(
         set({ isDeletingCode: true })
 
         try {
-          const response = await fetch(`/api/admin/codes/${id}`, {
+          const response = await apiFetch(`/api/admin/codes/${id}`, {
             method: 'DELETE',
-            headers: getAuthHeaders(),
+            headers: jsonHeaders(),
             credentials: 'include'
           })
 
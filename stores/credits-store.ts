@@ -2,6 +2,7 @@
 
 import { create } from "zustand"
 import { subscribeWithSelector } from "zustand/middleware"
+import { apiFetch } from "@/lib/api-fetch"
 
 interface CreditsStore {
   // State
@@ -48,25 +49,11 @@ export const useCreditsStore = create<CreditsStore>()(
       set({ isLoading: true, error: null })
 
       try {
-        // Get current user from auth store for headers
-        const { useAuthStore } = await import('@/stores/user-store')
-        const currentUser = useAuthStore.getState().currentUser
-
         const headers: HeadersInit = {
           'Content-Type': 'application/json',
         }
 
-        // Add user data to headers for authentication (matching other API calls)
-        if (currentUser) {
-          headers['x-user-data'] = encodeURIComponent(JSON.stringify({
-            id: currentUser.id,
-            username: currentUser.username,
-            email: currentUser.email,
-            role: currentUser.role
-          }))
-        }
-
-        const response = await fetch('/api/user/me', {
+        const response = await apiFetch('/api/user/me', {
           method: 'GET',
           credentials: 'include',
           headers,
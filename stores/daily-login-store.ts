@@ -7,6 +7,7 @@ import {
   CythroDashDailyLogin, 
   DailyLoginStats 
 } from "@/database/tables/cythro_dash_daily_logins"
+import { apiFetch } from "@/lib/api-fetch"
 
 // Daily login status interface
 export interface DailyLoginStatus {
@@ -81,8 +82,7 @@ const getAuthHeaders = () => {
   
   return {
     'Content-Type': 'application/json',
-    'Authorization': `Bearer ${sessionToken}`,
-    'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
+    'Authorization': `Bearer ${sessionToken}`
   }
 }
 
@@ -131,7 +131,7 @@ export const useDailyLoginStore = create<DailyLoginStore>()(
         try {
           const headers = getAuthHeaders()
           
-          const response = await fetch('/api/user/daily-login', {
+          const response = await apiFetch('/api/user/daily-login', {
             method: 'POST',
             headers,
             credentials: 'include',
@@ -180,7 +180,7 @@ export const useDailyLoginStore = create<DailyLoginStore>()(
         try {
           const headers = getAuthHeaders()
           
-          const response = await fetch('/api/user/daily-login', {
+          const response = await apiFetch('/api/user/daily-login', {
             method: 'POST',
             headers,
             credentials: 'include',
@@ -254,7 +254,7 @@ export const useDailyLoginStore = create<DailyLoginStore>()(
         try {
           const headers = getAuthHeaders()
           
-          const response = await fetch('/api/user/daily-login', {
+          const response = await apiFetch('/api/user/daily-login', {
             method: 'POST',
             headers,
             credentials: 'include',
@@ -314,7 +314,7 @@ export const useDailyLoginStore = create<DailyLoginStore>()(
         try {
           const headers = getAuthHeaders()
           
-          const response = await fetch('/api/user/daily-login', {
+          const response = await apiFetch('/api/user/daily-login', {
             method: 'GET',
             headers,
             credentials: 'include'
@@ -3,6 +3,7 @@
 import { create } from "zustand"
 import React from "react"
 import { useAuthStore } from "@/stores/user-store"
+import { apiFetch } from "@/lib/api-fetch"
 
 export type EarnBootstrap = {
   daily: { status: any | null; stats: any | null }
@@ -58,8 +59,7 @@ export const useEarnBootstrapStore = create<State>((set, get) => ({
 
     const headers: HeadersInit = {
       "Content-Type": "application/json",
-      "Authorization": `Bearer ${sessionToken}`,
-      "x-user-data": encodeURIComponent(JSON.stringify(currentUser))
+      "Authorization": `Bearer ${sessionToken}`
     }
 
     const p = (async (): Promise<EarnBootstrap> => {
@@ -76,16 +76,16 @@ export const useEarnBootstrapStore = create<State>((set, get) => ({
           referralStatsRes,
           serversRes,
         ] = await Promise.all([
-          fetch('/api/user/daily-login', { method: 'POST', headers, credentials: 'include', body: JSON.stringify({ action: 'check' }) }),
-          fetch('/api/user/daily-login', { method: 'GET', headers, credentials: 'include' }),
-          fetch('/api/auth/discord/status', { headers, credentials: 'include' }),
-          fetch('/api/auth/github/status', { headers, credentials: 'include' }),
-          fetch('/api/earn/first-server-reward', { headers, credentials: 'include' }),
-          fetch('/api/auth/github/reward', { headers, credentials: 'include' }),
-          fetch('/api/auth/discord/reward', { headers, credentials: 'include' }),
-          fetch('/api/user/referral-code', { headers, credentials: 'include' }),
-          fetch('/api/referrals/stats', { headers, credentials: 'include' }),
-          fetch('/api/servers/user', { headers, credentials: 'include' }),
+          apiFetch('/api/user/daily-login', { method: 'POST', headers, credentials: 'include', body: JSON.stringify({ action: 'check' }) }),
+          apiFetch('/api/user/daily-login', { method: 'GET', headers, credentials: 'include' }),
+          apiFetch('/api/auth/discord/status', { headers, credentials: 'include' }),
+          apiFetch('/api/auth/github/status', { headers, credentials: 'include' }),
+          apiFetch('/api/earn/first-server-reward', { headers, credentials: 'include' }),
+          apiFetch('/api/auth/github/reward', { headers, credentials: 'include' }),
+          apiFetch('/api/auth/discord/reward', { headers, credentials: 'include' }),
+          apiFetch('/api/user/referral-code', { headers, credentials: 'include' }),
+          apiFetch('/api/referrals/stats', { headers, credentials: 'include' }),
+          apiFetch('/api/servers/user', { headers, credentials: 'include' }),
         ])
 
         const [
@@ -114,7 +114,7 @@ export const useEarnBootstrapStore = create<State>((set, get) => ({
 
         let code: string | null = referralCodeResp?.data?.referral_code || currentUser.referral_code || null
         if (!code) {
-          const createResp = await fetch('/api/user/referral-code', { method: 'POST', headers, credentials: 'include' })
+          const createResp = await apiFetch('/api/user/referral-code', { method: 'POST', headers, credentials: 'include' })
           const createJson = await createResp.json().catch(()=>null)
           code = createJson?.data?.referral_code || null
         }
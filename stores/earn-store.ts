@@ -3,6 +3,7 @@
 import { create } from "zustand"
 import { persist } from "zustand/middleware"
 import { useAuthStore } from "./user-store"
+import { apiFetch } from "@/lib/api-fetch"
 
 // Types for social verification
 export interface SocialVerification {
@@ -101,8 +102,7 @@ const getAuthHeaders = () => {
   
   return {
     'Content-Type': 'application/json',
-    'Authorization': `Bearer ${sessionToken}`,
-    'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
+    'Authorization': `Bearer ${sessionToken}`
   }
 }
 
@@ -146,7 +146,7 @@ export const useEarnStore = create<EarnStore>()(
         try {
           const headers = getAuthHeaders()
           
-          const response = await fetch('/api/social/discord/verify', {
+          const response = await apiFetch('/api/social/discord/verify', {
             method: 'GET',
             headers,
             credentials: 'include'
@@ -195,7 +195,7 @@ export const useEarnStore = create<EarnStore>()(
         try {
           const headers = getAuthHeaders()
 
-          const response = await fetch('/api/auth/discord/status', {
+          const response = await apiFetch('/api/auth/discord/status', {
             method: 'GET',
             headers,
             credentials: 'include'
@@ -245,7 +245,7 @@ export const useEarnStore = create<EarnStore>()(
         try {
           const headers = getAuthHeaders()
           
-          const response = await fetch('/api/social/discord/verify', {
+          const response = await apiFetch('/api/social/discord/verify', {
             method: 'POST',
             headers,
             credentials: 'include',
@@ -310,7 +310,7 @@ export const useEarnStore = create<EarnStore>()(
         try {
           const headers = getAuthHeaders()
           
-          const response = await fetch('/api/social/discord/verify', {
+          const response = await apiFetch('/api/social/discord/verify', {
             method: 'POST',
             headers,
             credentials: 'include',
@@ -375,7 +375,7 @@ export const useEarnStore = create<EarnStore>()(
         try {
           const headers = getAuthHeaders()
           
-          const response = await fetch('/api/social/discord/verify', {
+          const response = await apiFetch('/api/social/discord/verify', {
             method: 'POST',
             headers,
             credentials: 'include',
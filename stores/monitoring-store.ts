@@ -3,6 +3,7 @@
 import { create } from "zustand"
 import { persist } from "zustand/middleware"
 import { useAuthStore } from "./user-store"
+import { apiFetch } from "@/lib/api-fetch"
 
 // Types for monitoring data
 export type NodeStatus = 'available' | 'limited' | 'full' | 'maintenance'
@@ -19,6 +20,7 @@ export interface NodeResourceUsage {
   total_disk: number
   allocated_memory: number
   allocated_disk: number
+  allocated_cpu: number
   total_servers: number
   active_servers: number
   memory_usage_percentage: number
@@ -96,6 +98,102 @@ export interface CapacityCheckResult {
   warnings?: string[]
 }
 
+export type NodeStatsRange = '24h' | '7d' | '30d' | '180d'
+
+export interface NodeStatsPoint {
+  recorded_at: string
+  memory_used: number
+  memory_total: number
+  memory_percentage: number
+  disk_used: number
+  disk_total: number
+  disk_percentage: number
+  servers: number
+  health: number
+  nodes?: number
+}
+
+export interface NodeStatsHistory {
+  scope: 'node' | 'location'
+  id: number
+  range: NodeStatsRange
+  granularity: 'raw' | 'hourly' | 'daily'
+  points: NodeStatsPoint[]
+}
+
+export interface ResourceForecast {
+  resource: 'memory' | 'disk'
+  total: number
+  used: number
+  available: number
+  usage_percentage: number
+  growth_per_day: number
+  days_until_full: number | null
+  source: 'snapshots' | 'creations' | 'none'
+}
+
+export interface LocationForecast {
+  pterodactyl_location_id: number
+  location_id: string | null
+  location_name: string
+  status: LocationStatus
+  capacity_hold?: { mode: 'waitlist' | 'hidden'; since: string; reason: string }
+  servers_created_per_day: number
+  resources: ResourceForecast[]
+  forecast_at: string
+}
+
+export interface CapacityAlert {
+  id: string
+  location_id: string
+  pterodactyl_location_id: number
+  location_name: string
+  resource: 'memory' | 'disk'
+  level: 'warning' | 'critical' | 'full'
+  message: string
+  usage_percentage: number
+  days_until_full: number | null
+  created_at: string
+  updated_at: string
+  notified_at?: string
+  acknowledged_at?: string
+  acknowledged_by?: number
+  resolved_at?: string
+}
+
+export interface ServerMigration {
+  id: string
+  server_id: string
+  user_id: number
+  requested_by: number
+  reason: 'user_request' | 'admin' | 'node_drain'
+  mode: 'transfer' | 'recreate'
+  state: 'pending' | 'provisioning' | 'transferring' | 'switching' | 'completed' | 'rolled_back' | 'failed'
+  active: boolean
+  source: { location_id: string; node_id?: number; node_name?: string }
+  target: { location_id: string; node_id?: number; node_name?: string; strategy?: string }
+  price: number
+  source_retained: boolean // Recreate mode kept the old server suspended until it is deleted
+  error?: string
+  created_at: string
+  updated_at: string
+  completed_at?: string
+}
+
+// Recreate mode moves servers without their files
+export interface MigrationModeInfo {
+  mode: 'transfer' | 'recreate'
+  files_copied: boolean
+}
+
+export interface NodeDrainResult extends MigrationModeInfo {
+  success: boolean
+  message: string
+  error?: string
+  queued: Array<{ server_id: string; migration_id: string; target_node?: string }>
+  skipped: Array<{ pterodactyl_server_id: number; server_id?: string; reason: string }>
+}
+
 export interface MonitoringError {
   message: string
   code?: string
@@ -121,16 +219,40 @@ type MonitoringStore = {
   
   // Cache state
   cacheExpiry: Date | null
+
+  // History state
+  history: NodeStatsHistory | null
+  historyRange: NodeStatsRange
+  isLoadingHistory: boolean
+
+  // Capacity forecast state
+  forecasts: LocationForecast[]
+  capacityAlerts: CapacityAlert[]
+
+  // Server migration state
+  migrations: ServerMigration[]
+  migrationMode: MigrationModeInfo | null
   
   // Actions
   fetchMonitoringData: (forceRefresh?: boolean) => Promise<boolean>
   refreshData: () => Promise<boolean>
   checkCapacity: (request: CapacityCheckRequest) => Promise<CapacityCheckResult | null>
+  fetchHistory: (scope: 'node' | 'location', id: number, range?: NodeStatsRange) => Promise<NodeStatsHistory | null>
+  fetchNodeHistory: (nodeId: number, range?: NodeStatsRange) => Promise<NodeStatsHistory | null>
+  fetchLocationHistory: (locationId: number, range?: NodeStatsRange) => Promise<NodeStatsHistory | null>
+  fetchForecast: () => Promise<boolean>
+  fetchCapacityAlerts: (includeResolved?: boolean) => Promise<boolean>
+  acknowledgeAlert: (alertId: string) => Promise<boolean>
+  fetchMigrations: () => Promise<boolean>
+  cancelMigration: (migrationId: string) => Promise<boolean>
+  deleteMigrationSource: (migrationId: string) => Promise<boolean>
+  drainNode: (nodeId: number, acknowledgeDataLoss?: boolean) => Promise<NodeDrainResult | null>
   
   // UI actions
   setSelectedLocation: (locationId: number | null) => void
   setAutoRefresh: (enabled: boolean) => void
   setRefreshInterval: (interval: number) => void
+  setHistoryRange: (range: NodeStatsRange) => void
   
   // Cache management
   clearCache: () => void
@@ -154,6 +276,25 @@ type MonitoringStore = {
 // Cache duration: 2 minutes
 const CACHE_DURATION = 2 * 60 * 1000
 
+// Fetch a node or location trend from the stats history endpoints
+async function requestHistory(scope: 'node' | 'location', id: number, range: NodeStatsRange): Promise<{ history: NodeStatsHistory | null; message?: string }> {
+  const currentUser = useAuthStore.getState().currentUser
+  if (!currentUser) {
+    throw new Error('User not authenticated')
+  }
+
+  const path = scope === 'node' ? 'nodes' : 'locations'
+  const response = await apiFetch(`/api/admin/monitoring/${path}/${id}/history?range=${range}`, {
+    method: 'GET',
+    credentials: 'include',
+    headers: { 'Content-Type': 'application/json' },
+  })
+
+  const result = await response.json()
+  if (!result.success) return { history: null, message: result.message }
+  return { history: { scope, id, range: result.range, granularity: result.granularity, points: result.points || [] } }
+}
+
 export const useMonitoringStore = create<MonitoringStore>()(
   persist(
     (set, get) => ({
@@ -175,6 +316,19 @@ export const useMonitoringStore = create<MonitoringStore>()(
       
       // Cache state
       cacheExpiry: null,
+
+      // History state
+      history: null,
+      historyRange: '24h',
+      isLoadingHistory: false,
+
+      // Capacity forecast state
+      forecasts: [],
+      capacityAlerts: [],
+
+      // Server migration state
+      migrations: [],
+      migrationMode: null,
       
       // Check if cache is valid
       isCacheValid: () => {
@@ -207,13 +361,10 @@ export const useMonitoringStore = create<MonitoringStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/admin/monitoring/capacity?${params}`, {
+          const response = await apiFetch(`/api/admin/monitoring/capacity?${params}`, {
             method: 'GET',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
           })
 
           const result = await response.json()
@@ -281,13 +432,10 @@ export const useMonitoringStore = create<MonitoringStore>()(
             throw new Error('User not authenticated')
           }
 
-          const response = await fetch(`/api/servers/capacity?${params}`, {
+          const response = await apiFetch(`/api/servers/capacity?${params}`, {
             method: 'GET',
             credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            },
+            headers: { 'Content-Type': 'application/json' },
           })
 
           const result = await response.json()
@@ -316,6 +464,177 @@ export const useMonitoringStore = create<MonitoringStore>()(
         }
       },
       
+      // Fetch a node's memory, disk and server trend
+      fetchNodeHistory: async (nodeId: number, range?: NodeStatsRange) => {
+        return await get().fetchHistory('node', nodeId, range)
+      },
+
+      // Fetch a location's trend, summed across its nodes
+      fetchLocationHistory: async (locationId: number, range?: NodeStatsRange) => {
+        return await get().fetchHistory('location', locationId, range)
+      },
+
+      // Fetch a node or location trend for the selected range
+      fetchHistory: async (scope: 'node' | 'location', id: number, range?: NodeStatsRange) => {
+        const historyRange = range || get().historyRange
+        set({ isLoadingHistory: true, historyRange })
+        try {
+          const { history, message } = await requestHistory(scope, id, historyRange)
+          if (!history) {
+            set({
+              error: {
+                message: message || "Failed to fetch monitoring history",
+                timestamp: new Date()
+              }
+            })
+          }
+          set({ history })
+          return history
+        } catch (error) {
+          console.error('Error fetching monitoring history:', error)
+          set({
+            error: {
+              message: "Network error occurred while fetching monitoring history",
+              timestamp: new Date()
+            }
+          })
+          return null
+        } finally {
+          set({ isLoadingHistory: false })
+        }
+      },
+      
+      // Fetch days-until-full per location and resource
+      fetchForecast: async () => {
+        try {
+          const response = await apiFetch('/api/admin/monitoring/forecast', { credentials: 'include' })
+          const result = await response.json()
+          if (!result.success) {
+            set({ error: { message: result.message || "Failed to fetch capacity forecast", timestamp: new Date() } })
+            return false
+          }
+          set({ forecasts: result.forecasts || [] })
+          return true
+        } catch (error) {
+          console.error('Error fetching capacity forecast:', error)
+          set({ error: { message: "Network error occurred while fetching capacity forecast", timestamp: new Date() } })
+          return false
+        }
+      },
+
+      // Fetch open capacity alerts, optionally with recently resolved ones
+      fetchCapacityAlerts: async (includeResolved = false) => {
+        try {
+          const response = await apiFetch(`/api/admin/monitoring/alerts?include_resolved=${includeResolved}`, { credentials: 'include' })
+          const result = await response.json()
+          if (!result.success) {
+            set({ error: { message: result.message || "Failed to fetch capacity alerts", timestamp: new Date() } })
+            return false
+          }
+          set({ capacityAlerts: result.alerts || [] })
+          return true
+        } catch (error) {
+          console.error('Error fetching capacity alerts:', error)
+          set({ error: { message: "Network error occurred while fetching capacity alerts", timestamp: new Date() } })
+          return false
+        }
+      },
+
+      acknowledgeAlert: async (alertId: string) => {
+        try {
+          const response = await apiFetch(`/api/admin/monitoring/alerts/${alertId}/acknowledge`, { method: 'POST', credentials: 'include' })
+          const result = await response.json()
+          if (!result.success) {
+            set({ error: { message: result.message || "Failed to acknowledge alert", timestamp: new Date() } })
+            return false
+          }
+          const now = new Date().toISOString()
+          set({ capacityAlerts: get().capacityAlerts.map(a => a.id === alertId ? { ...a, acknowledged_at: now } : a) })
+          return true
+        } catch (error) {
+          console.error('Error acknowledging alert:', error)
+          set({ error: { message: "Network error occurred while acknowledging alert", timestamp: new Date() } })
+          return false
+        }
+      },
+
+      // Fetch the most recent server migrations, running ones included
+      fetchMigrations: async () => {
+        try {
+          const response = await apiFetch('/api/admin/migrations?limit=20', { credentials: 'include' })
+          const result = await response.json()
+          if (!result.success) {
+            set({ error: { message: result.message || "Failed to fetch migrations", timestamp: new Date() } })
+            return false
+          }
+          set({ migrations: result.migrations || [], migrationMode: { mode: result.mode, files_copied: result.files_copied } })
+          return true
+        } catch (error) {
+          console.error('Error fetching migrations:', error)
+          set({ error: { message: "Network error occurred while fetching migrations", timestamp: new Date() } })
+          return false
+        }
+      },
+
+      cancelMigration: async (migrationId: string) => {
+        try {
+          const response = await apiFetch(`/api/admin/migrations/${migrationId}/cancel`, { method: 'POST', credentials: 'include' })
+          const result = await response.json()
+          if (!result.success) {
+            set({ error: { message: result.message || "Failed to cancel migration", timestamp: new Date() } })
+            return false
+          }
+          await get().fetchMigrations()
+          return true
+        } catch (error) {
+          console.error('Error cancelling migration:', error)
+          set({ error: { message: "Network error occurred while cancelling migration", timestamp: new Date() } })
+          return false
+        }
+      },
+
+      // Delete the suspended old server a recreate migration kept
+      deleteMigrationSource: async (migrationId: string) => {
+        try {
+          const response = await apiFetch(`/api/admin/migrations/${migrationId}/delete-source`, { method: 'POST', credentials: 'include' })
+          const result = await response.json()
+          if (!result.success) {
+            set({ error: { message: result.message || "Failed to delete the old server", timestamp: new Date() } })
+            return false
+          }
+          await get().fetchMigrations()
+          return true
+        } catch (error) {
+          console.error('Error deleting migration source:', error)
+          set({ error: { message: "Network error occurred while deleting the old server", timestamp: new Date() } })
+          return false
+        }
+      },
+
+      // Queue every server on a node for migration; the lifecycle cron moves them.
+      // Recreate mode is refused unless the data loss is acknowledged.
+      drainNode: async (nodeId: number, acknowledgeDataLoss = false) => {
+        try {
+          const response = await apiFetch(`/api/admin/monitoring/nodes/${nodeId}/drain`, {
+            method: 'POST',
+            credentials: 'include',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ acknowledge_data_loss: acknowledgeDataLoss })
+          })
+          const result = await response.json()
+          if (!result.success) {
+            set({ error: { message: result.message || "Failed to drain node", timestamp: new Date() } })
+            return null
+          }
+          await get().fetchMigrations()
+          return result as NodeDrainResult
+        } catch (error) {
+          console.error('Error draining node:', error)
+          set({ error: { message: "Network error occurred while draining node", timestamp: new Date() } })
+          return null
+        }
+      },
+      
       // UI actions
       setSelectedLocation: (locationId: number | null) => {
         set({ selectedLocation: locationId })
@@ -328,6 +647,10 @@ export const useMonitoringStore = create<MonitoringStore>()(
       setRefreshInterval: (interval: number) => {
         set({ refreshInterval: interval })
       },
+
+      setHistoryRange: (range: NodeStatsRange) => {
+        set({ historyRange: range })
+      },
       
       // Cache management
       clearCache: () => {
@@ -410,7 +733,8 @@ export const useMonitoringStore = create<MonitoringStore>()(
         // Only persist UI preferences, not data
         selectedLocation: state.selectedLocation,
         autoRefresh: state.autoRefresh,
-        refreshInterval: state.refreshInterval
+        refreshInterval: state.refreshInterval,
+        historyRange: state.historyRange
       })
     }
   )
@@ -1,4 +1,5 @@
 import { create } from 'zustand'
+import { apiFetch } from '@/lib/api-fetch'
 
 export type PublicConfig = Record<string, any>
 
@@ -34,7 +35,7 @@ export const usePublicSettingsStore = create<State>((set, get) => ({
     if (get().loaded && !force) return
     set({ loading: true })
     try {
-      const res = await fetch('/api/config', { cache: 'no-store' })
+      const res = await apiFetch('/api/config', { cache: 'no-store' })
       const json = await res.json()
       if (json?.success && json?.config) set({ config: json.config, loaded: true, loading: false })
       else set({ config: {}, loaded: true, loading: false })
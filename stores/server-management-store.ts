@@ -2,6 +2,7 @@
 
 import { create } from "zustand"
 import { persist } from "zustand/middleware"
+import { apiFetch } from "@/lib/api-fetch"
 
 // Types for server management
 export interface ServerType {
@@ -46,6 +47,7 @@ export interface ServerLocation {
   city?: string
   short_code: string
   capacity_status: 'available' | 'limited' | 'full' | 'maintenance'
+  waitlisted?: boolean
   features: {
     ddos_protection: boolean
     backup_storage: boolean
@@ -84,6 +86,7 @@ export interface ServerPlan {
   setup_fee?: number
   original_price?: number
   effective_price?: number
+  promo_code_available?: boolean // Plan has a promotion unlocked by a promo code
   features: string[]
   popular?: boolean
   featured?: boolean
@@ -111,6 +114,7 @@ export interface ServerCreationRequest {
   environment_variables?: Record<string, string>
   startup_command?: string
   docker_image?: string
+  promo_code?: string
 }
 
 export interface ServerCreationResult {
@@ -225,7 +229,6 @@ export const useServerManagementStore = create<ServerManagementStore>()(
         set({ isLoading: true, error: null })
         
         try {
-          // Get current user for authentication header
           const { useAuthStore } = await import('@/stores/user-store')
           const currentUser = useAuthStore.getState().currentUser
           const sessionToken = useAuthStore.getState().sessionToken
@@ -246,16 +249,7 @@ export const useServerManagementStore = create<ServerManagementStore>()(
           }
           if (sessionToken) (headers as any)['Authorization'] = `Bearer ${sessionToken}`
 
-          // Add user data header for authentication
-          headers['x-user-data'] = encodeURIComponent(JSON.stringify({
-            id: currentUser.id,
-            username: currentUser.username,
-            email: currentUser.email,
-            role: currentUser.role,
-            verified: currentUser.verified
-          }))
-
-          const response = await fetch(`/api/servers/types?${params}`, {
+          const response = await apiFetch(`/api/servers/types?${params}`, {
             method: 'GET',
             credentials: 'include',
             headers,
@@ -295,7 +289,6 @@ export const useServerManagementStore = create<ServerManagementStore>()(
         set({ isLoading: true, error: null })
 
         try {
-          // Get current user for authentication header
           const { useAuthStore } = await import('@/stores/user-store')
           const currentUser = useAuthStore.getState().currentUser
           const sessionToken = useAuthStore.getState().sessionToken
@@ -315,16 +308,7 @@ export const useServerManagementStore = create<ServerManagementStore>()(
           }
           if (sessionToken) (headers as any)['Authorization'] = `Bearer ${sessionToken}`
 
-          // Add user data header for authentication
-          headers['x-user-data'] = encodeURIComponent(JSON.stringify({
-            id: currentUser.id,
-            username: currentUser.username,
-            email: currentUser.email,
-            role: currentUser.role,
-            verified: currentUser.verified
-          }))
-
-          const response = await fetch(`/api/servers/software?${params}`, {
+          const response = await apiFetch(`/api/servers/software?${params}`, {
             method: 'GET',
             credentials: 'include',
             headers,
@@ -363,7 +347,6 @@ export const useServerManagementStore = create<ServerManagementStore>()(
         set({ isLoading: true, error: null })
         
         try {
-          // Get current user for authentication header
           const { useAuthStore } = await import('@/stores/user-store')
           const currentUser = useAuthStore.getState().currentUser
           const sessionToken = useAuthStore.getState().sessionToken
@@ -384,16 +367,7 @@ export const useServerManagementStore = create<ServerManagementStore>()(
           }
           if (sessionToken) (headers as any)['Authorization'] = `Bearer ${sessionToken}`
 
-          // Add user data header for authentication
-          headers['x-user-data'] = encodeURIComponent(JSON.stringify({
-            id: currentUser.id,
-            username: currentUser.username,
-            email: currentUser.email,
-            role: currentUser.role,
-            verified: currentUser.verified
-          }))
-
-          const response = await fetch(`/api/servers/locations?${params}`, {
+          const response = await apiFetch(`/api/servers/locations?${params}`, {
             method: 'GET',
             credentials: 'include',
             headers,
@@ -433,7 +407,6 @@ export const useServerManagementStore = create<ServerManagementStore>()(
         set({ isLoading: true, error: null })
 
         try {
-          // Get current user for authentication header
           const { useAuthStore } = await import('@/stores/user-store')
           const currentUser = useAuthStore.getState().currentUser
           const sessionToken = useAuthStore.getState().sessionToken
@@ -456,16 +429,7 @@ export const useServerManagementStore = create<ServerManagementStore>()(
           }
           if (sessionToken) (headers as any)['Authorization'] = `Bearer ${sessionToken}`
 
-          // Add user data header for authentication
-          headers['x-user-data'] = encodeURIComponent(JSON.stringify({
-            id: currentUser.id,
-            username: currentUser.username,
-            email: currentUser.email,
-            role: currentUser.role,
-            verified: currentUser.verified
-          }))
-
-          const response = await fetch(`/api/servers/plans?${params}`, {
+          const response = await apiFetch(`/api/servers/plans?${params}`, {
             method: 'GET',
             credentials: 'include',
             headers,
@@ -497,7 +461,6 @@ export const useServerManagementStore = create<ServerManagementStore>()(
       // Check capacity
       checkCapacity: async (locationId: string, requiredMemory: number, requiredDisk: number, requiredCpu?: number) => {
         try {
-          // Get current user for authentication header
           const { useAuthStore } = await import('@/stores/user-store')
           const currentUser = useAuthStore.getState().currentUser
           const sessionToken = useAuthStore.getState().sessionToken
@@ -520,16 +483,7 @@ export const useServerManagementStore = create<ServerManagementStore>()(
           }
           if (sessionToken) (headers as any)['Authorization'] = `Bearer ${sessionToken}`
 
-          // Add user data header for authentication
-          headers['x-user-data'] = encodeURIComponent(JSON.stringify({
-            id: currentUser.id,
-            username: currentUser.username,
-            email: currentUser.email,
-            role: currentUser.role,
-            verified: currentUser.verified
-          }))
-
-          const response = await fetch(`/api/servers/capacity?${params}`, {
+          const response = await apiFetch(`/api/servers/capacity?${params}`, {
             method: 'GET',
             credentials: 'include',
             headers,
@@ -556,7 +510,6 @@ export const useServerManagementStore = create<ServerManagementStore>()(
         set({ isCreatingServer: true, error: null })
 
         try {
-          // Get current user for authentication header
           const { useAuthStore } = await import('@/stores/user-store')
           const currentUser = useAuthStore.getState().currentUser
           const sessionToken = useAuthStore.getState().sessionToken
@@ -574,16 +527,7 @@ export const useServerManagementStore = create<ServerManagementStore>()(
           }
           if (sessionToken) (headers as any)['Authorization'] = `Bearer ${sessionToken}`
 
-          // Add user data header for authentication
-          headers['x-user-data'] = encodeURIComponent(JSON.stringify({
-            id: currentUser.id,
-            username: currentUser.username,
-            email: currentUser.email,
-            role: currentUser.role,
-            verified: currentUser.verified
-          }))
-
-          const response = await fetch('/api/servers/create', {
+          const response = await apiFetch('/api/servers/create', {
             method: 'POST',
             credentials: 'include',
             headers,
@@ -2,6 +2,7 @@
 
 import { create } from "zustand"
 import { persist } from "zustand/middleware"
+import { apiFetch } from "@/lib/api-fetch"
 
 export type ServerStatus = "online" | "offline" | "starting" | "stopping" | "unknown"
 // Format uptime as Hh Mm Ss (compact)
@@ -175,7 +176,6 @@ export const useServerStore = create<ServerStore>()(
         set({ isLoading: true, error: null })
 
         try {
-          // Get current user for authentication header
           const { useAuthStore } = await import('@/stores/user-store')
           const currentUser = useAuthStore.getState().currentUser
 
@@ -194,15 +194,7 @@ export const useServerStore = create<ServerStore>()(
             'Content-Type': 'application/json',
           }
 
-          // Add user data header for authentication
-          headers['x-user-data'] = encodeURIComponent(JSON.stringify({
-            id: currentUser.id,
-            username: currentUser.username,
-            email: currentUser.email,
-            role: currentUser.role
-          }))
-
-          const response = await fetch(`/api/servers/user?${params}`, {
+          const response = await apiFetch(`/api/servers/user?${params}`, {
             method: 'GET',
             credentials: 'include',
             headers,
@@ -250,7 +242,6 @@ export const useServerStore = create<ServerStore>()(
       // Fetch individual server by ID
       fetchServerById: async (id: string): Promise<Server | null> => {
         try {
-          // Get current user for authentication header
           const { useAuthStore } = await import('@/stores/user-store')
           const currentUser = useAuthStore.getState().currentUser
 
@@ -263,14 +254,6 @@ export const useServerStore = create<ServerStore>()(
             'Content-Type': 'application/json',
           }
 
-          // Add user data header for authentication
-          headers['x-user-data'] = encodeURIComponent(JSON.stringify({
-            id: currentUser.id,
-            username: currentUser.username,
-            email: currentUser.email,
-            role: currentUser.role
-          }))
-
           // Try to find server in current servers list first
           const existingServer = get().servers.find(s => s.id === id)
           if (existingServer) {
@@ -278,7 +261,7 @@ export const useServerStore = create<ServerStore>()(
           }
 
           // If not found, fetch from user servers API and find the specific server
-          const response = await fetch(`/api/servers/user`, {
+          const response = await apiFetch(`/api/servers/user`, {
             method: 'GET',
             credentials: 'include',
             headers,
@@ -331,12 +314,9 @@ export const useServerStore = create<ServerStore>()(
           if (!currentUser) return { success: false }
 
           const headers: HeadersInit = { 'Content-Type': 'application/json' }
-          headers['x-user-data'] = encodeURIComponent(JSON.stringify({
-            id: currentUser.id, username: currentUser.username, email: currentUser.email, role: currentUser.role
-          }))
 
           const idParam = (server.pterodactyl_id ?? server.id).toString()
-          const resp = await fetch(`/api/client/servers/${idParam}/status`, { headers, credentials: 'include' })
+          const resp = await apiFetch(`/api/client/servers/${idParam}/status`, { headers, credentials: 'include' })
           const json = await resp.json()
           if (json.success && json.data) {
             const s = get().servers
@@ -382,11 +362,8 @@ export const useServerStore = create<ServerStore>()(
           const currentUser = useAuthStore.getState().currentUser
           if (!currentUser) return { success: false }
           const headers: HeadersInit = { 'Content-Type': 'application/json' }
-          headers['x-user-data'] = encodeURIComponent(JSON.stringify({
-            id: currentUser.id, username: currentUser.username, email: currentUser.email, role: currentUser.role
-          }))
           const idParam = (server.pterodactyl_id ?? server.id).toString()
-          const resp = await fetch(`/api/client/servers/${idParam}/details`, { headers, credentials: 'include' })
+          const resp = await apiFetch(`/api/client/servers/${idParam}/details`, { headers, credentials: 'include' })
           return await resp.json()
         } catch (e) {
           return { success: false }
@@ -400,11 +377,8 @@ export const useServerStore = create<ServerStore>()(
           const currentUser = useAuthStore.getState().currentUser
           if (!currentUser) return false
           const headers: HeadersInit = { 'Content-Type': 'application/json' }
-          headers['x-user-data'] = encodeURIComponent(JSON.stringify({
-            id: currentUser.id, username: currentUser.username, email: currentUser.email, role: currentUser.role
-          }))
           const idParam = (server.pterodactyl_id ?? server.id).toString()
-          const resp = await fetch(`/api/client/servers/${idParam}/power`, {
+          const resp = await apiFetch(`/api/client/servers/${idParam}/power`, {
             method: 'POST', headers, credentials: 'include', body: JSON.stringify({ action })
           })
           const json = await resp.json()
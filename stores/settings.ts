@@ -2,6 +2,7 @@
 
 import { create } from "zustand"
 import { persist } from "zustand/middleware"
+import { apiFetch } from "@/lib/api-fetch"
 
 // Theme types
 export type ThemeName =
@@ -221,7 +222,7 @@ export const useAppSettings = create<AppSettings>()(
 
           console.log('Saving theme preference to database:', theme)
 
-          const response = await fetch('/api/user/preferences', {
+          const response = await apiFetch('/api/user/preferences', {
             method: 'PATCH',
             headers: {
               'Content-Type': 'application/json',
@@ -1,4 +1,5 @@
 import { create } from 'zustand'
+import { apiFetch } from '@/lib/api-fetch'
 
 export type UserAnnouncement = {
   id: number
@@ -25,11 +26,8 @@ export const useUserAnnouncementsStore = create<State>((set, get) => ({
   fetch: async () => {
     try {
       set({ loading: true, error: undefined })
-      const { useAuthStore } = await import('@/stores/user-store')
-      const u = useAuthStore.getState().currentUser
       const headers: HeadersInit = { 'Content-Type': 'application/json' }
-      if (u) headers['x-user-data'] = encodeURIComponent(JSON.stringify({ id: u.id, username: u.username, email: u.email, role: u.role }))
-      const res = await fetch('/api/announcements', { headers, credentials: 'include' })
+      const res = await apiFetch('/api/announcements', { headers, credentials: 'include' })
       const json = await res.json()
       if (!json.success) { set({ loading: false, error: json.message || 'Failed to fetch' }); return false }
       set({ items: json.items || [], reads: json.reads || {}, loading: false })
@@ -38,11 +36,8 @@ export const useUserAnnouncementsStore = create<State>((set, get) => ({
   },
   markRead: async (id) => {
     try {
-      const { useAuthStore } = await import('@/stores/user-store')
-      const u = useAuthStore.getState().currentUser
       const headers: HeadersInit = { 'Content-Type': 'application/json' }
-      if (u) headers['x-user-data'] = encodeURIComponent(JSON.stringify({ id: u.id, username: u.username, email: u.email, role: u.role }))
-      const res = await fetch(`/api/announcements/${id}/read`, { method: 'POST', headers, credentials: 'include' })
+      const res = await apiFetch(`/api/announcements/${id}/read`, { method: 'POST', headers, credentials: 'include' })
       const json = await res.json()
       if (!json.success) return false
       set(s => ({ reads: { ...s.reads, [id]: true } }))
@@ -8,6 +8,7 @@ import React from 'react'
 import { create } from 'zustand'
 import { useAuthStore } from './user-store'
 import { useIntegrationSettings } from './admin-integrations-store'
+import { apiFetch } from '@/lib/api-fetch'
 
 export interface SocialConnection {
   platform: 'discord' | 'github'
@@ -53,24 +54,9 @@ interface UserSettingsState {
   clearError: () => void
 }
 
-// Helper function to get auth headers
-function getAuthHeaders(): HeadersInit {
-  const base: HeadersInit = { 'Content-Type': 'application/json' }
-  try {
-    const currentUser = useAuthStore.getState().currentUser
-    if (currentUser && currentUser.id && currentUser.username && currentUser.email) {
-      return { 
-        ...base, 
-        'x-user-data': encodeURIComponent(JSON.stringify({ 
-          id: currentUser.id, 
-          username: currentUser.username, 
-          email: currentUser.email, 
-          role: currentUser.role 
-        })) 
-      }
-    }
-  } catch {}
-  return base
+// The session cookie authenticates these requests; apiFetch adds the CSRF token
+function jsonHeaders(): HeadersInit {
+  return { 'Content-Type': 'application/json' }
 }
 
 export const useUserSettingsStore = create<UserSettingsState>((set, get) => ({
@@ -93,10 +79,10 @@ export const useUserSettingsStore = create<UserSettingsState>((set, get) => ({
     set({ loading: true, error: null })
 
     try {
-      const headers = getAuthHeaders()
+      const headers = jsonHeaders()
       
       // Load user profile
-      const profileResponse = await fetch('/api/user/profile', {
+      const profileResponse = await apiFetch('/api/user/profile', {
         method: 'GET',
         headers,
         credentials: 'include'
@@ -113,7 +99,7 @@ export const useUserSettingsStore = create<UserSettingsState>((set, get) => ({
       
       // Check Discord connection
       try {
-        const discordResponse = await fetch('/api/auth/discord/status', {
+        const discordResponse = await apiFetch('/api/auth/discord/status', {
           method: 'GET',
           headers,
           credentials: 'include'
@@ -140,7 +126,7 @@ export const useUserSettingsStore = create<UserSettingsState>((set, get) => ({
 
       // Check GitHub connection
       try {
-        const githubResponse = await fetch('/api/auth/github/status', {
+        const githubResponse = await apiFetch('/api/auth/github/status', {
           method: 'GET',
           headers,
           credentials: 'include'
@@ -193,8 +179,8 @@ export const useUserSettingsStore = create<UserSettingsState>((set, get) => ({
     if (!state.settings) return false
 
     try {
-      const headers = getAuthHeaders()
-      const response = await fetch('/api/user/update-profile', {
+      const headers = jsonHeaders()
+      const response = await apiFetch('/api/user/update-profile', {
         method: 'PATCH',
         headers,
         credentials: 'include',
@@ -224,8 +210,8 @@ export const useUserSettingsStore = create<UserSettingsState>((set, get) => ({
   // Connect social account
   connectSocial: async (platform: 'discord' | 'github'): Promise<boolean> => {
     try {
-      const headers = getAuthHeaders()
-      const response = await fetch(`/api/auth/${platform}/connect`, {
+      const headers = jsonHeaders()
+      const response = await apiFetch(`/api/auth/${platform}/connect`, {
         method: 'POST',
         headers,
         credentials: 'include'
@@ -251,8 +237,8 @@ export const useUserSettingsStore = create<UserSettingsState>((set, get) => ({
   // Disconnect social account
   disconnectSocial: async (platform: 'discord' | 'github'): Promise<boolean> => {
     try {
-      const headers = getAuthHeaders()
-      const response = await fetch(`/api/auth/${platform}/disconnect`, {
+      const headers = jsonHeaders()
+      const response = await apiFetch(`/api/auth/${platform}/disconnect`, {
         method: 'POST',
         headers,
         credentials: 'include'
@@ -4,6 +4,7 @@ import { create } from "zustand"
 import { persist } from "zustand/middleware"
 import { nanoid } from "nanoid"
 import { getSessionTokenFromCookies, isSessionValid, validateSessionData } from "@/lib/auth/session"
+import { apiFetch } from "@/lib/api-fetch"
 
 // Types for authentication and user management
 export type Role = "Admin" | "Moderator" | "User"
@@ -16,7 +17,9 @@ export type AuthUser = {
   first_name: string
   last_name: string
   display_name?: string
-  role: number // 0 = admin, 1 = user
+  role: number // 0 = staff, 1 = user
+  role_id?: string // Admin role, set for staff
+  permissions?: string[] // Admin permissions granted by the role
   verified: boolean
   coins: number
   avatar_url?: string
@@ -51,6 +54,47 @@ export type RegisterData = {
   referral_code?: string
 }
 
+export type UserSessionInfo = {
+  id: string
+  login_method: string
+  ip_address?: string
+  user_agent?: string
+  device_type?: string
+  browser?: string
+  os?: string
+  created_at: string
+  last_seen_at: string
+  expires_at: string
+  current: boolean
+}
+
+export type TwoFactorStatus = {
+  enabled: boolean
+  enabled_at?: string
+  backup_codes_remaining: number
+}
+
+export type LoginResult = {
+  success: boolean
+  message?: string
+  errors?: any[]
+  requires_2fa?: boolean
+  two_factor_token?: string
+  requires_device_confirmation?: boolean
+  requires_password_change?: boolean
+  password_reset_token?: string
+}
+
+export type ImpersonationInfo = {
+  active: boolean
+  admin_id?: number
+  admin_username?: string
+  user_id?: number
+  username?: string
+  expires_at?: string
+  allow_wallet_actions?: boolean
+}
+
 type AuthStore = {
   // Authentication state
   isAuthenticated: boolean
@@ -58,6 +102,9 @@ type AuthStore = {
   sessionToken: string | null
   isLoading: boolean
 
+  // Set while an admin is viewing the dashboard as this user
+  impersonation: ImpersonationInfo | null
+
   // Real-time updates
   autoRefreshEnabled: boolean
   autoRefreshInterval: number // in milliseconds
@@ -73,7 +120,8 @@ type AuthStore = {
   isLoadingSecurityStats: boolean
 
   // Authentication actions
-  login: (credentials: LoginCredentials) => Promise<{ success: boolean; message?: string; errors?: any[] }>
+  login: (credentials: LoginCredentials) => Promise<LoginResult>
+  verifyTwoFactorLogin: (twoFactorToken: string, code: string) => Promise<LoginResult>
   register: (data: RegisterData) => Promise<{ success: boolean; message?: string; errors?: any[] }>
   logout: () => Promise<void>
   refreshSession: (forceRefresh?: boolean) => Promise<boolean>
@@ -96,6 +144,22 @@ type AuthStore = {
   getSecurityDataParallel: (filters?: any, days?: number, forceRefresh?: boolean) => Promise<{ logs: any; stats: any }>
   clearSecurityLogsCache: () => void
 
+  // Active sessions (devices) actions
+  getSessions: () => Promise<{ success: boolean; message?: string; sessions?: UserSessionInfo[] }>
+  revokeSession: (sessionId: string) => Promise<{ success: boolean; message?: string }>
+  revokeOtherSessions: () => Promise<{ success: boolean; message?: string; revoked?: number }>
+
+  // Two-factor authentication actions
+  getTwoFactorStatus: () => Promise<{ success: boolean; message?: string; two_factor?: TwoFactorStatus }>
+  setupTwoFactor: () => Promise<{ success: boolean; message?: string; secret?: string; otpauth_uri?: string }>
+  enableTwoFactor: (code: string) => Promise<{ success: boolean; message?: string; backup_codes?: string[] }>
+  disableTwoFactor: (password: string, code: string) => Promise<{ success: boolean; message?: string }>
+
+  // Impersonation actions
+  setImpersonation: (impersonation: ImpersonationInfo | null) => void
+  getImpersonationStatus: () => Promise<ImpersonationInfo | null>
+  stopImpersonation: () => Promise<{ success: boolean; message?: string; return_to?: string }>
+
   // Session management
   setSession: (user: AuthUser, token: string) => void
   clearSession: () => void
@@ -124,6 +188,7 @@ export const useAuthStore = create<AuthStore>()(
       currentUser: null,
       sessionToken: null,
       isLoading: false,
+      impersonation: null,
 
       
       autoRefreshEnabled: true,
@@ -143,7 +208,7 @@ export const useAuthStore = create<AuthStore>()(
         set({ isLoading: true })
 
         try {
-          const response = await fetch('/api/auth/login', {
+          const response = await apiFetch('/api/auth/login', {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -157,6 +222,26 @@ export const useAuthStore = create<AuthStore>()(
           if (result.success && result.user && result.sessionToken) {
             get().setSession(result.user, result.sessionToken)
             return { success: true }
+          } else if (result.requires_2fa && result.two_factor_token) {
+            return {
+              success: false,
+              message: result.message,
+              requires_2fa: true,
+              two_factor_token: result.two_factor_token
+            }
+          } else if (result.requires_device_confirmation) {
+            return {
+              success: false,
+              message: result.message,
+              requires_device_confirmation: true
+            }
+          } else if (result.requires_password_change && result.password_reset_token) {
+            return {
+              success: false,
+              message: result.message,
+              requires_password_change: true,
+              password_reset_token: result.password_reset_token
+            }
           } else {
             return {
               success: false,
@@ -175,11 +260,50 @@ export const useAuthStore = create<AuthStore>()(
         }
       },
 
+      verifyTwoFactorLogin: async (twoFactorToken: string, code: string) => {
+        set({ isLoading: true })
+
+        try {
+          const response = await apiFetch('/api/auth/login/2fa', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ two_factor_token: twoFactorToken, code }),
+            credentials: 'include'
+          })
+
+          const result = await response.json()
+
+          if (result.success && result.user && result.sessionToken) {
+            get().setSession(result.user, result.sessionToken)
+            return { success: true }
+          }
+          return {
+            success: false,
+            message: result.message || 'Verification failed',
+            errors: result.errors,
+            requires_2fa: !!result.requires_2fa,
+            two_factor_token: result.two_factor_token,
+            requires_password_change: !!result.requires_password_change,
+            password_reset_token: result.password_reset_token
+          }
+        } catch (error) {
+          console.error('2FA login error:', error)
+          return {
+            success: false,
+            message: 'Network error occurred'
+          }
+        } finally {
+          set({ isLoading: false })
+        }
+      },
+
       register: async (data: RegisterData) => {
         set({ isLoading: true })
 
         try {
-          const response = await fetch('/api/auth/register', {
+          const response = await apiFetch('/api/auth/register', {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -215,7 +339,7 @@ export const useAuthStore = create<AuthStore>()(
 
       logout: async () => {
         try {
-          await fetch('/api/auth/logout', {
+          await apiFetch('/api/auth/logout', {
             method: 'POST',
             credentials: 'include'
           })
@@ -314,12 +438,9 @@ export const useAuthStore = create<AuthStore>()(
           console.log(' Fetching fresh user data from database...')
 
           // Fetch fresh user data from the database
-          const response = await fetch('/api/user/me', {
+          const response = await apiFetch('/api/user/me', {
             method: 'GET',
-            credentials: 'include',
-            headers: {
-              'x-user-data': encodeURIComponent(JSON.stringify(currentUser))
-            }
+            credentials: 'include'
           })
 
           if (response.ok) {
@@ -419,7 +540,7 @@ export const useAuthStore = create<AuthStore>()(
             ...data
           }
 
-          const response = await fetch('/api/user/update-profile', {
+          const response = await apiFetch('/api/user/update-profile', {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -494,7 +615,7 @@ export const useAuthStore = create<AuthStore>()(
             confirm_password: data.confirm_password
           }
 
-          const response = await fetch('/api/user/change-password', {
+          const response = await apiFetch('/api/user/change-password', {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -578,7 +699,7 @@ export const useAuthStore = create<AuthStore>()(
             ...filters
           }
 
-          const response = await fetch('/api/user/security-logs', {
+          const response = await apiFetch('/api/user/security-logs', {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -670,7 +791,7 @@ export const useAuthStore = create<AuthStore>()(
             days: days
           }
 
-          const response = await fetch('/api/user/security-logs', {
+          const response = await apiFetch('/api/user/security-logs', {
             method: 'POST',
             headers: {
               'Content-Type': 'application/json',
@@ -758,6 +879,167 @@ export const useAuthStore = create<AuthStore>()(
         }))
       },
 
+      getTwoFactorStatus: async () => {
+        try {
+          const response = await apiFetch('/api/user/two-factor', {
+            method: 'GET',
+            credentials: 'include',
+            cache: 'no-store'
+          })
+          const result = await response.json()
+          if (!result.success) {
+            return { success: false, message: result.message || 'Failed to load two-factor status' }
+          }
+          return { success: true, two_factor: result.two_factor }
+        } catch (error) {
+          console.error('Get 2FA status error:', error)
+          return { success: false, message: 'Network error occurred' }
+        }
+      },
+
+      setupTwoFactor: async () => {
+        try {
+          const response = await apiFetch('/api/user/two-factor', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ action: 'setup' })
+          })
+          const result = await response.json()
+          return { success: !!result.success, message: result.message, secret: result.secret, otpauth_uri: result.otpauth_uri }
+        } catch (error) {
+          console.error('2FA setup error:', error)
+          return { success: false, message: 'Network error occurred' }
+        }
+      },
+
+      enableTwoFactor: async (code: string) => {
+        try {
+          const response = await apiFetch('/api/user/two-factor', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ action: 'enable', code })
+          })
+          const result = await response.json()
+          if (result.success) get().clearSecurityLogsCache()
+          return { success: !!result.success, message: result.message, backup_codes: result.backup_codes }
+        } catch (error) {
+          console.error('2FA enable error:', error)
+          return { success: false, message: 'Network error occurred' }
+        }
+      },
+
+      disableTwoFactor: async (password: string, code: string) => {
+        try {
+          const response = await apiFetch('/api/user/two-factor', {
+            method: 'DELETE',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ password, code })
+          })
+          const result = await response.json()
+          if (result.success) get().clearSecurityLogsCache()
+          return { success: !!result.success, message: result.message }
+        } catch (error) {
+          console.error('2FA disable error:', error)
+          return { success: false, message: 'Network error occurred' }
+        }
+      },
+
+      getSessions: async () => {
+        try {
+          const response = await apiFetch('/api/user/sessions', {
+            method: 'GET',
+            credentials: 'include',
+            cache: 'no-store'
+          })
+          const result = await response.json()
+          if (!result.success) {
+            return { success: false, message: result.message || 'Failed to load sessions' }
+          }
+          return { success: true, sessions: result.sessions || [] }
+        } catch (error) {
+          console.error('Get sessions error:', error)
+          return { success: false, message: 'Network error occurred while loading sessions' }
+        }
+      },
+
+      revokeSession: async (sessionId: string) => {
+        try {
+          const response = await apiFetch('/api/user/sessions', {
+            method: 'DELETE',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ session_id: sessionId })
+          })
+          const result = await response.json()
+          if (result.success) get().clearSecurityLogsCache()
+          return { success: !!result.success, message: result.message }
+        } catch (error) {
+          console.error('Revoke session error:', error)
+          return { success: false, message: 'Network error occurred while revoking session' }
+        }
+      },
+
+      revokeOtherSessions: async () => {
+        try {
+          const response = await apiFetch('/api/user/sessions', {
+            method: 'DELETE',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ scope: 'others' })
+          })
+          const result = await response.json()
+          if (result.success) get().clearSecurityLogsCache()
+          return { success: !!result.success, message: result.message, revoked: result.revoked }
+        } catch (error) {
+          console.error('Revoke other sessions error:', error)
+          return { success: false, message: 'Network error occurred while revoking sessions' }
+        }
+      },
+
+      setImpersonation: (impersonation: ImpersonationInfo | null) => {
+        set({ impersonation: impersonation?.active ? impersonation : null })
+      },
+
+      getImpersonationStatus: async () => {
+        try {
+          const response = await apiFetch('/api/auth/impersonation', { credentials: 'include' })
+          const result = await response.json()
+          if (result.success) get().setImpersonation(result.impersonation)
+          return get().impersonation
+        } catch (error) {
+          console.error('Get impersonation status error:', error)
+          return get().impersonation
+        }
+      },
+
+      stopImpersonation: async () => {
+        try {
+          const response = await apiFetch('/api/auth/impersonation', {
+            method: 'DELETE',
+            credentials: 'include'
+          })
+          const result = await response.json()
+          if (!result.success) {
+            return { success: false, message: result.message || 'Failed to stop viewing as user' }
+          }
+
+          set({ impersonation: null })
+          get().clearSecurityLogsCache()
+          if (result.user && result.sessionToken) {
+            get().setSession(result.user, result.sessionToken)
+          } else {
+            get().clearSession()
+          }
+          return { success: true, message: result.message, return_to: result.return_to }
+        } catch (error) {
+          console.error('Stop impersonation error:', error)
+          return { success: false, message: 'Network error occurred while stopping impersonation' }
+        }
+      },
+
       setSession: (user: AuthUser, token: string) => {
         set({
           isAuthenticated: true,
@@ -771,6 +1053,7 @@ export const useAuthStore = create<AuthStore>()(
           isAuthenticated: false,
           currentUser: null,
           sessionToken: null,
+          impersonation: null,
         })
       },
 
@@ -811,6 +1094,7 @@ export const useAuthStore = create<AuthStore>()(
         isAuthenticated: state.isAuthenticated,
         currentUser: state.currentUser,
         sessionToken: state.sessionToken,
+        impersonation: state.impersonation,
       }),
       // Don't automatically validate session on rehydration
       // Let components handle validation when needed